@@ -0,0 +1,12 @@
+'use client';
+
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import ApiKeysManager from '@/components/account/ApiKeysManager';
+
+export default function ApiKeysPage() {
+  return (
+    <AuthenticatedLayout>
+      <ApiKeysManager />
+    </AuthenticatedLayout>
+  );
+}
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import { and, gte, lte, eq } from 'drizzle-orm';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import { getDatabase } from '@/lib/db/connection';
 import { orders, orderItems } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
 import { createLogger } from '@/lib/utils/logger';
+import { splitInclusiveAmount } from '@/lib/utils/gstUtils';
 
 const logger = createLogger('ProfitAnalyticsAPI');
 
@@ -21,7 +21,10 @@ interface ItemProfitBreakdown {
   quantitySold: number;
 }
 
+type RevenueBasis = 'gross' | 'net';
+
 interface ProfitSummary {
+  revenueBasis: RevenueBasis;
   totalRevenue: number;
   totalCost: number;
   grossProfit: number;
@@ -38,11 +41,15 @@ interface ProfitSummary {
  * Query params:
  *   - startDate: ISO date string (required)
  *   - endDate: ISO date string (required)
+ *   - revenueBasis: 'gross' (default, as charged) or 'net' (excluding GST)
+ * Both bases use each line's value after its share of the order discount. Lines
+ * saved without GST values fall back to price × quantity, with GST backed out of
+ * it for the net basis.
  */
 export async function GET(request: NextRequest) {
   try {
     // Validate user authentication
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     if (!session?.user) {
       return NextResponse.json(
         { message: 'Unauthorized' },
@@ -53,6 +60,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const startDateParam = searchParams.get('startDate');
     const endDateParam = searchParams.get('endDate');
+    const revenueBasisParam = searchParams.get('revenueBasis') || 'gross';
 
     // Validate required parameters
     if (!startDateParam || !endDateParam) {
@@ -62,6 +70,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (revenueBasisParam !== 'gross' && revenueBasisParam !== 'net') {
+      return NextResponse.json(
+        { message: "revenueBasis must be 'gross' or 'net'" },
+        { status: 400 }
+      );
+    }
+    const revenueBasis: RevenueBasis = revenueBasisParam;
+
     const startDate = new Date(startDateParam);
     const endDate = new Date(endDateParam);
 
@@ -72,7 +88,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    logger.info('Fetching profit analytics', { startDate: startDateParam, endDate: endDateParam });
+    logger.info('Fetching profit analytics', { startDate: startDateParam, endDate: endDateParam, revenueBasis });
 
     const result = await executeWithRetry(async () => {
       const db = getDatabase();
@@ -84,6 +100,9 @@ export async function GET(request: NextRequest) {
           itemName: orderItems.name,
           price: orderItems.price,
           costPrice: orderItems.costPrice,
+          taxRate: orderItems.taxRate,
+          taxableValue: orderItems.taxableValue,
+          taxAmount: orderItems.taxAmount,
           quantity: orderItems.quantity,
         })
         .from(orderItems)
@@ -102,7 +121,16 @@ export async function GET(request: NextRequest) {
       const itemMap = new Map<number, ItemProfitBreakdown>();
 
       for (const row of orderItemsData) {
-        const revenue = Number(row.price) * row.quantity;
+        // The stored taxable value and GST are after the discount; older lines only have the price
+        let grossRevenue = Number(row.price) * row.quantity;
+        let netRevenue = grossRevenue;
+        if (row.taxableValue !== null) {
+          netRevenue = Number(row.taxableValue);
+          grossRevenue = netRevenue + (Number(row.taxAmount) || 0);
+        } else if (row.taxRate !== null) {
+          netRevenue = splitInclusiveAmount(grossRevenue, Number(row.taxRate)).taxableValue;
+        }
+        const revenue = revenueBasis === 'net' ? netRevenue : grossRevenue;
         // Use costPrice from order item if available, otherwise estimate as 0
         const cost = (Number(row.costPrice) || 0) * row.quantity;
         
@@ -146,6 +174,7 @@ export async function GET(request: NextRequest) {
         : 0;
 
       return {
+        revenueBasis,
         totalRevenue: Math.round(totalRevenue * 100) / 100,
         totalCost: Math.round(totalCost * 100) / 100,
         grossProfit: Math.round(grossProfit * 100) / 100,
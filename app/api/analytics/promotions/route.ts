@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { and, gte, lte, eq, ne, sql, desc } from 'drizzle-orm';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { getDatabase } from '@/lib/db/connection';
+import { orders, promotions } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { createLogger } from '@/lib/utils/logger';
+import type { PromotionAnalyticsSummary, PromotionPerformance } from '@/types';
+
+const logger = createLogger('PromotionAnalyticsAPI');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/analytics/promotions - Revenue given up to each promotion
+ * Cancelled orders are excluded since their redemptions are released.
+ * Query params:
+ *   - startDate: ISO date string (required)
+ *   - endDate: ISO date string (required)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const startDateParam = searchParams.get('startDate');
+    const endDateParam = searchParams.get('endDate');
+
+    if (!startDateParam || !endDateParam) {
+      return NextResponse.json(
+        { message: 'startDate and endDate are required query parameters' },
+        { status: 400 }
+      );
+    }
+
+    const startDate = new Date(startDateParam);
+    const endDate = new Date(endDateParam);
+
+    if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+      return NextResponse.json(
+        { message: 'Invalid date format. Use ISO date strings.' },
+        { status: 400 }
+      );
+    }
+
+    const result = await executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const rows = await db
+        .select({
+          promotionId: promotions.id,
+          code: promotions.code,
+          name: promotions.name,
+          orderCount: sql<number>`COUNT(${orders.id})::int`,
+          discountGiven: sql<string>`COALESCE(SUM(${orders.promotionDiscount}), 0)`,
+          revenue: sql<string>`COALESCE(SUM(${orders.totalPrice}), 0)`,
+        })
+        .from(orders)
+        .innerJoin(promotions, eq(orders.promotionId, promotions.id))
+        .where(
+          and(
+            gte(orders.createdAt, startDate),
+            lte(orders.createdAt, endDate),
+            ne(orders.status, 'cancelled')
+          )
+        )
+        .groupBy(promotions.id)
+        .orderBy(desc(sql`SUM(${orders.promotionDiscount})`));
+
+      const items: PromotionPerformance[] = [];
+      for (const row of rows) {
+        items.push({
+          ...row,
+          discountGiven: Number(row.discountGiven),
+          revenue: Number(row.revenue),
+        });
+      }
+
+      return {
+        items,
+        totalDiscountGiven: Math.round(items.reduce((sum, row) => sum + row.discountGiven, 0) * 100) / 100,
+        totalOrders: items.reduce((sum, row) => sum + row.orderCount, 0),
+        period: {
+          startDate: startDateParam,
+          endDate: endDateParam,
+        },
+      } satisfies PromotionAnalyticsSummary;
+    }, { operationName: 'PromotionAnalytics' });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch promotion analytics';
+    logger.error('GET /api/analytics/promotions error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
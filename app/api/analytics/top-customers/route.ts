@@ -1,34 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import { sql, and, gte, lte, eq, desc } from 'drizzle-orm';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import { getDatabase } from '@/lib/db/connection';
-import { orders } from '@/lib/db/schema';
+import { orders, customers } from '@/lib/db/schema';
+import CustomerSegment, { segmentRulesCondition } from '@/lib/models/CustomerSegment';
+import { resolveSegmentFilter } from '@/lib/services/customerSegmentService';
+import { CUSTOMER_LIFECYCLE_STAGES } from '@/constants/customerSegmentConstants';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
 import { createLogger } from '@/lib/utils/logger';
+import type { CustomerLifecycleStage } from '@/types';
 
 const logger = createLogger('TopCustomersAnalyticsAPI');
 
 export const dynamic = 'force-dynamic';
 
 interface TopCustomer {
+  customerId: string;
   customerName: string;
+  lifecycleStage: CustomerLifecycleStage | null;
   totalOrders: number;
   totalSpent: number;
   averageOrderValue: number;
 }
 
+interface SegmentSales {
+  /** Lifecycle stage, 'unscored', or saved segment ID */
+  segment: string;
+  name: string;
+  customers: number;
+  totalOrders: number;
+  totalSpent: number;
+  averageOrderValue: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toSegmentSales(segment: string, name: string, row?: { customers: number; totalOrders: number; totalSpent: string | null }): SegmentSales {
+  const totalOrders = Number(row?.totalOrders ?? 0);
+  const totalSpent = Number(row?.totalSpent ?? 0);
+  return {
+    segment,
+    name,
+    customers: Number(row?.customers ?? 0),
+    totalOrders,
+    totalSpent: round(totalSpent),
+    averageOrderValue: totalOrders > 0 ? round(totalSpent / totalOrders) : 0,
+  };
+}
+
 /**
  * GET /api/analytics/top-customers - Get top customers by spending
  * Query params:
  *   - startDate: ISO date string (optional)
  *   - endDate: ISO date string (optional)
  *   - limit: number (default: 10)
+ *   - segment: only customers in this lifecycle stage or saved segment (optional)
+ *   - groupBy: 'segment' to report sales per lifecycle stage and per saved segment
+ *     instead, as { stages, segments }; a customer can be in several saved segments
  */
 export async function GET(request: NextRequest) {
   try {
     // Validate user authentication
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     if (!session?.user) {
       return NextResponse.json(
         { message: 'Unauthorized' },
@@ -41,6 +76,8 @@ export async function GET(request: NextRequest) {
     const endDateParam = searchParams.get('endDate');
     const limitParam = searchParams.get('limit');
     const limit = Math.min(Math.max(1, Number.parseInt(limitParam || '10', 10)), 100);
+    const groupBySegment = searchParams.get('groupBy') === 'segment';
+    const segmentFilter = await resolveSegmentFilter(searchParams.get('segment'));
 
     let startDate: Date | undefined;
     let endDate: Date | undefined;
@@ -65,7 +102,7 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    logger.info('Fetching top customers', { startDate: startDateParam, endDate: endDateParam, limit });
+    logger.info('Fetching top customers', { startDate: startDateParam, endDate: endDateParam, limit, groupBySegment });
 
     const result = await executeWithRetry(async () => {
       const db = getDatabase();
@@ -78,32 +115,83 @@ export async function GET(request: NextRequest) {
       if (endDate) {
         conditions.push(lte(orders.createdAt, endDate));
       }
+      if (segmentFilter.lifecycleStage) {
+        conditions.push(eq(customers.lifecycleStage, segmentFilter.lifecycleStage));
+      }
+      if (segmentFilter.segmentRules) {
+        conditions.push(segmentRulesCondition(segmentFilter.segmentRules));
+      }
+
+      if (groupBySegment) {
+        const totals = {
+          customers: sql<number>`COUNT(DISTINCT ${customers.id})`,
+          totalOrders: sql<number>`COUNT(*)`,
+          totalSpent: sql<string>`SUM(${orders.totalPrice}::numeric)`,
+        };
+
+        const stageRows = await db
+          .select({ stage: customers.lifecycleStage, ...totals })
+          .from(orders)
+          .innerJoin(customers, eq(orders.customerIdRef, customers.id))
+          .where(and(...conditions))
+          .groupBy(customers.lifecycleStage);
+        const stages = [
+          ...CUSTOMER_LIFECYCLE_STAGES.map(({ value, label }) =>
+            toSegmentSales(value, label, stageRows.find((row: { stage: string | null }) => row.stage === value))
+          ),
+          toSegmentSales('unscored', 'Not scored', stageRows.find((row: { stage: string | null }) => row.stage === null)),
+        ];
+
+        const savedSegments = await CustomerSegment.findAll();
+        const segments = [];
+        for (const segment of savedSegments) {
+          const [row] = await db
+            .select(totals)
+            .from(orders)
+            .innerJoin(customers, eq(orders.customerIdRef, customers.id))
+            .where(and(...conditions, segmentRulesCondition(segment.rules)));
+          segments.push(toSegmentSales(String(segment.id), segment.name, row));
+        }
+
+        return { stages, segments };
+      }
 
       // Query top customers by total spent
       const topCustomersData = await db
         .select({
-          customerName: orders.customerName,
+          customerId: customers.customerId,
+          customerName: customers.name,
+          lifecycleStage: customers.lifecycleStage,
           totalOrders: sql<number>`COUNT(*)`.as('total_orders'),
           totalSpent: sql<string>`SUM(${orders.totalPrice}::numeric)`.as('total_spent'),
         })
         .from(orders)
+        .innerJoin(customers, eq(orders.customerIdRef, customers.id))
         .where(and(...conditions))
-        .groupBy(orders.customerName)
+        .groupBy(customers.id)
         .orderBy(desc(sql`total_spent`))
         .limit(limit);
 
       // Transform data to response format
-      const topCustomers: TopCustomer[] = topCustomersData.map((row: { customerName: string; totalOrders: number; totalSpent: string }) => {
+      const topCustomers: TopCustomer[] = topCustomersData.map((row: {
+        customerId: string;
+        customerName: string;
+        lifecycleStage: CustomerLifecycleStage | null;
+        totalOrders: number;
+        totalSpent: string;
+      }) => {
         const totalOrders = Number(row.totalOrders);
         const totalSpent = Number(row.totalSpent);
         const averageOrderValue = totalOrders > 0 
-          ? Math.round((totalSpent / totalOrders) * 100) / 100 
+          ? round(totalSpent / totalOrders) 
           : 0;
 
         return {
+          customerId: row.customerId,
           customerName: row.customerName,
+          lifecycleStage: row.lifecycleStage ?? null,
           totalOrders,
-          totalSpent: Math.round(totalSpent * 100) / 100,
+          totalSpent: round(totalSpent),
           averageOrderValue,
         };
       });
@@ -111,7 +199,7 @@ export async function GET(request: NextRequest) {
       return topCustomers;
     }, { operationName: 'TopCustomersAnalytics' });
 
-    logger.info('Top customers fetched successfully', { count: result.length });
+    logger.info('Top customers fetched successfully', { count: Array.isArray(result) ? result.length : result.stages.length });
 
     return NextResponse.json(result);
   } catch (error: unknown) {
@@ -119,7 +207,7 @@ export async function GET(request: NextRequest) {
     logger.error('GET /api/analytics/top-customers error', error);
     return NextResponse.json(
       { message: errorMessage },
-      { status: 500 }
+      { status: (error as { statusCode?: number }).statusCode || 500 }
     );
   }
 }
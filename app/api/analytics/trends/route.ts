@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import { sql, and, gte, lte, eq } from 'drizzle-orm';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import { getDatabase } from '@/lib/db/connection';
 import { orders } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
@@ -30,7 +29,7 @@ interface TrendDataPoint {
 export async function GET(request: NextRequest) {
   try {
     // Validate user authentication
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     if (!session?.user) {
       return NextResponse.json(
         { message: 'Unauthorized' },
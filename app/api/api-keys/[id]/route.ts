@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import ApiKey from '@/lib/models/ApiKey';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('ApiKeyByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/api-keys/[id] - Revoke one of the signed-in user's API keys
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const apiKeyId = Number.parseInt(id, 10);
+    if (Number.isNaN(apiKeyId)) {
+      return NextResponse.json({ message: 'Invalid API key ID' }, { status: 400 });
+    }
+
+    const revoked = await ApiKey.revoke(apiKeyId, session.user.dbUserId);
+    if (!revoked) {
+      return NextResponse.json({ message: 'API key not found' }, { status: 404 });
+    }
+
+    logger.info('API key revoked', { apiKeyId, userId: session.user.dbUserId });
+
+    return NextResponse.json(revoked);
+  } catch (error: unknown) {
+    logger.error('DELETE /api/api-keys/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to revoke API key' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import ApiKey from '@/lib/models/ApiKey';
+import { parseApiKeyInput } from '@/lib/services/apiKeyService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('ApiKeysAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/api-keys - List the signed-in user's API keys
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const keys = await ApiKey.findByUser(session.user.dbUserId);
+
+    return NextResponse.json({ items: keys });
+  } catch (error: unknown) {
+    logger.error('GET /api/api-keys error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/api-keys - Create an API key for the signed-in user
+ * Body: { name, scopes, expiresInDays?, rateLimitPerMinute? }
+ * The response is the only time the full key is returned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const apiKey = await ApiKey.create(parseApiKeyInput(body), session.user.dbUserId);
+
+    logger.info('API key created', { apiKeyId: apiKey.id, userId: session.user.dbUserId, scopes: apiKey.scopes });
+
+    return NextResponse.json(apiKey, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/api-keys error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to create API key' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Category from '@/lib/models/Category';
 import { createLogger } from '@/lib/utils/logger';
+import { parseOptionalTaxRate } from '@/lib/utils/gstUtils';
 
 const logger = createLogger('CategoryAPI');
 
@@ -61,6 +62,14 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const body = await request.json();
     const { name, description, color, parentId, displayOrder } = body;
 
+    const taxRate = parseOptionalTaxRate(body.taxRate);
+    if (Number.isNaN(taxRate)) {
+      return NextResponse.json(
+        { message: 'GST rate must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
     // Prevent setting parent to self
     if (parentId === numericId) {
       return NextResponse.json(
@@ -75,6 +84,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       color,
       parentId,
       displayOrder,
+      taxRate,
     });
 
     if (!category) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Category from '@/lib/models/Category';
 import { createLogger } from '@/lib/utils/logger';
+import { parseOptionalTaxRate } from '@/lib/utils/gstUtils';
 
 const logger = createLogger('CategoriesAPI');
 
@@ -41,6 +42,14 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { name, description, color, parentId, displayOrder } = body;
 
+    const taxRate = parseOptionalTaxRate(body.taxRate);
+    if (Number.isNaN(taxRate)) {
+      return NextResponse.json(
+        { message: 'GST rate must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
     if (!name?.trim()) {
       return NextResponse.json(
         { message: 'Category name is required' },
@@ -54,6 +63,7 @@ export async function POST(request: NextRequest) {
       color,
       parentId,
       displayOrder,
+      taxRate,
     });
 
     logger.info('Category created', { categoryId: category.id, name: category.name });
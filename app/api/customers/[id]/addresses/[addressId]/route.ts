@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import CustomerAddress from '@/lib/models/CustomerAddress';
+import { parseCustomerAddressInput } from '@/lib/services/customerContactService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerAddressByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string; addressId: string }>;
+}
+
+/**
+ * PUT /api/customers/[id]/addresses/[addressId] - Update an address
+ * Body may include any of: label, line1, line2, city, state, pinCode, landmark,
+ * and isDefault: true to make it the default. Orders already placed keep their copy.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, addressId } = await params;
+    const customerId = Number.parseInt(id, 10);
+    const numericAddressId = Number.parseInt(addressId, 10);
+    if (Number.isNaN(customerId) || Number.isNaN(numericAddressId)) {
+      return NextResponse.json({ message: 'Invalid customer ID or address ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const address = await CustomerAddress.update(customerId, numericAddressId, parseCustomerAddressInput(body, true));
+    if (!address) {
+      return NextResponse.json({ message: 'Address not found' }, { status: 404 });
+    }
+
+    logger.info('Customer address updated', { customerId, addressId: numericAddressId, userId: session.user.dbUserId });
+
+    return NextResponse.json(address);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update customer address';
+    logger.error('PUT /api/customers/[id]/addresses/[addressId] error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/customers/[id]/addresses/[addressId] - Delete an address
+ * Deleting the default makes the oldest remaining address the default.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, addressId } = await params;
+    const customerId = Number.parseInt(id, 10);
+    const numericAddressId = Number.parseInt(addressId, 10);
+    if (Number.isNaN(customerId) || Number.isNaN(numericAddressId)) {
+      return NextResponse.json({ message: 'Invalid customer ID or address ID' }, { status: 400 });
+    }
+
+    const deleted = await CustomerAddress.delete(customerId, numericAddressId);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Address not found' }, { status: 404 });
+    }
+
+    logger.info('Customer address deleted', { customerId, addressId: numericAddressId, userId: session.user.dbUserId });
+
+    return NextResponse.json({ message: 'Address deleted successfully' });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete customer address';
+    logger.error('DELETE /api/customers/[id]/addresses/[addressId] error', error);
+    return NextResponse.json({ message: errorMessage }, { status: 500 });
+  }
+}
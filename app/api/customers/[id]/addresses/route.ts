@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Customer from '@/lib/models/Customer';
+import CustomerAddress from '@/lib/models/CustomerAddress';
+import { parseCustomerAddressInput } from '@/lib/services/customerContactService';
+import { createLogger } from '@/lib/utils/logger';
+import type { CustomerAddressData } from '@/types';
+
+const logger = createLogger('CustomerAddressesAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/customers/[id]/addresses - A customer's saved addresses, default first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const customerId = Number.parseInt(id, 10);
+    if (Number.isNaN(customerId)) {
+      return NextResponse.json({ message: 'Invalid customer ID' }, { status: 400 });
+    }
+
+    const addresses = await CustomerAddress.findByCustomerId(customerId);
+
+    return NextResponse.json({ items: addresses });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch customer addresses';
+    logger.error('GET /api/customers/[id]/addresses error', error);
+    return NextResponse.json({ message: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/customers/[id]/addresses - Save an address
+ * Body: line1 (required), label, line2, city, state, pinCode, landmark, isDefault.
+ * The customer's first address is always the default.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const customerId = Number.parseInt(id, 10);
+    if (Number.isNaN(customerId)) {
+      return NextResponse.json({ message: 'Invalid customer ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const data = parseCustomerAddressInput(body) as CustomerAddressData;
+
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      return NextResponse.json({ message: 'Customer not found' }, { status: 404 });
+    }
+
+    const address = await CustomerAddress.create(customerId, data);
+
+    logger.info('Customer address saved', { customerId, addressId: address.id, userId: session.user.dbUserId });
+
+    return NextResponse.json(address, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to save customer address';
+    logger.error('POST /api/customers/[id]/addresses error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
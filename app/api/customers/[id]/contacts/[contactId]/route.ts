@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import CustomerContact from '@/lib/models/CustomerContact';
+import { parseCustomerContactInput } from '@/lib/services/customerContactService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerContactByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string; contactId: string }>;
+}
+
+/**
+ * PUT /api/customers/[id]/contacts/[contactId] - Update a contact
+ * Body: channel, value, label
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, contactId } = await params;
+    const customerId = Number.parseInt(id, 10);
+    const numericContactId = Number.parseInt(contactId, 10);
+    if (Number.isNaN(customerId) || Number.isNaN(numericContactId)) {
+      return NextResponse.json({ message: 'Invalid customer ID or contact ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const contact = await CustomerContact.update(customerId, numericContactId, parseCustomerContactInput(body));
+    if (!contact) {
+      return NextResponse.json({ message: 'Contact not found' }, { status: 404 });
+    }
+
+    logger.info('Customer contact updated', { customerId, contactId: numericContactId });
+
+    return NextResponse.json(contact);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update customer contact';
+    logger.error('PUT /api/customers/[id]/contacts/[contactId] error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/customers/[id]/contacts/[contactId] - Remove a contact
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, contactId } = await params;
+    const customerId = Number.parseInt(id, 10);
+    const numericContactId = Number.parseInt(contactId, 10);
+    if (Number.isNaN(customerId) || Number.isNaN(numericContactId)) {
+      return NextResponse.json({ message: 'Invalid customer ID or contact ID' }, { status: 400 });
+    }
+
+    const deleted = await CustomerContact.delete(customerId, numericContactId);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Contact not found' }, { status: 404 });
+    }
+
+    logger.info('Customer contact removed', { customerId, contactId: numericContactId });
+
+    return NextResponse.json({ message: 'Contact removed successfully' });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to remove customer contact';
+    logger.error('DELETE /api/customers/[id]/contacts/[contactId] error', error);
+    return NextResponse.json({ message: errorMessage }, { status: 500 });
+  }
+}
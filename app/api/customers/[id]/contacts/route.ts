@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Customer from '@/lib/models/Customer';
+import CustomerContact from '@/lib/models/CustomerContact';
+import { parseCustomerContactInput } from '@/lib/services/customerContactService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerContactsAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/customers/[id]/contacts - A customer's contacts on every channel
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const customerId = Number.parseInt(id, 10);
+    if (Number.isNaN(customerId)) {
+      return NextResponse.json({ message: 'Invalid customer ID' }, { status: 400 });
+    }
+
+    const contacts = await CustomerContact.findByCustomerId(customerId);
+
+    return NextResponse.json({ items: contacts });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch customer contacts';
+    logger.error('GET /api/customers/[id]/contacts error', error);
+    return NextResponse.json({ message: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/customers/[id]/contacts - Add a contact
+ * Body: channel (phone, whatsapp, instagram, facebook, email), value, label
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const customerId = Number.parseInt(id, 10);
+    if (Number.isNaN(customerId)) {
+      return NextResponse.json({ message: 'Invalid customer ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const data = parseCustomerContactInput(body);
+
+    const customer = await Customer.findById(customerId);
+    if (!customer) {
+      return NextResponse.json({ message: 'Customer not found' }, { status: 404 });
+    }
+
+    const contact = await CustomerContact.create(customerId, data);
+
+    logger.info('Customer contact added', { customerId, contactId: contact.id, channel: contact.channel });
+
+    return NextResponse.json(contact, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to add customer contact';
+    logger.error('POST /api/customers/[id]/contacts error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { adjustCustomerBalance, parseLoyaltyAdjustmentInput } from '@/lib/services/loyaltyService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerLoyaltyAdjustmentsAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/customers/[id]/loyalty/adjustments - Add to or take from a customer's balance (admin only)
+ * Body: { kind: 'points' | 'store_credit', amount (negative to take away), notes }
+ * Returns the customer's loyalty summary afterwards.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const customerId = Number.parseInt(id, 10);
+    if (Number.isNaN(customerId)) {
+      return NextResponse.json({ message: 'Invalid customer ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const summary = await adjustCustomerBalance(customerId, parseLoyaltyAdjustmentInput(body), {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+      name: session.user.name || undefined,
+    });
+
+    return NextResponse.json(summary, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to adjust customer balance';
+    logger.error('POST /api/customers/[id]/loyalty/adjustments error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCustomerLoyaltySummary } from '@/lib/services/loyaltyService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerLoyaltyAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/customers/[id]/loyalty - A customer's points and store credit, with their latest ledger entries
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const customerId = Number.parseInt(id, 10);
+    if (Number.isNaN(customerId)) {
+      return NextResponse.json({ message: 'Invalid customer ID' }, { status: 400 });
+    }
+
+    const summary = await getCustomerLoyaltySummary(customerId);
+
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch customer loyalty';
+    logger.error('GET /api/customers/[id]/loyalty error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
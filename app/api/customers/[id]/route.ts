@@ -92,7 +92,7 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, email, phone, address, source, notes, customerId } = body;
+    const { name, email, phone, address, state, source, notes, customerId } = body;
 
     // Validate source if provided
     if (source !== undefined && source !== null && !VALID_SOURCES.includes(source)) {
@@ -119,6 +119,7 @@ export async function PUT(
       email,
       phone,
       address,
+      state,
       source,
       notes,
     });
@@ -210,7 +211,7 @@ export async function DELETE(
     logger.error('DELETE /api/customers/[id] error', error);
     return NextResponse.json(
       { message: errorMessage },
-      { status: 500 }
+      { status: (error as { statusCode?: number }).statusCode || 500 }
     );
   }
 }
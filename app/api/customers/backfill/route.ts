@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getCustomerBackfillStatus, runCustomerBackfill } from '@/lib/services/customerBackfillService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerBackfillAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/customers/backfill - Orders not yet linked to a customer, and recent backfill runs
+ * Poll while a run is in progress; its job shows processed, linked and failed orders
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = await getCustomerBackfillStatus();
+    return NextResponse.json(status);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch backfill status';
+    logger.error('GET /api/customers/backfill error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customers/backfill - Link every order to a customer (admin only)
+ * Body: { dryRun } - defaults to true; a dry run only reports what would change
+ *
+ * Returns the report: orders linked, customers created and matched, failures, and
+ * the largest groups of orders with what was (or would be) done with each.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const report = await runCustomerBackfill(body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+      name: session.user.name || undefined,
+    });
+
+    return NextResponse.json(report);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to run customer backfill';
+    logger.error('POST /api/customers/backfill error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { dismissDuplicate } from '@/lib/services/customerDedupeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerDuplicateDismissAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/customers/duplicates/dismiss - Mark two customers as not duplicates
+ * Body: { customerIds: [a, b] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    await dismissDuplicate(body, { id: session.user.dbUserId });
+
+    return NextResponse.json({ message: 'Customers marked as not duplicates' });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to dismiss duplicate';
+    logger.error('POST /api/customers/duplicates/dismiss error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
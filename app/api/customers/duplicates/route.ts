@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { findDuplicateCustomers } from '@/lib/services/customerDedupeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerDuplicatesAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/customers/duplicates - Likely duplicate customers, highest score first
+ * Query params: minScore (1-100, default 50), limit (default 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const duplicates = await findDuplicateCustomers({
+      minScore: searchParams.get('minScore'),
+      limit: searchParams.get('limit'),
+    });
+
+    logger.debug('Duplicate customers found', { count: duplicates.length });
+
+    return NextResponse.json({ duplicates });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to find duplicate customers';
+    logger.error('GET /api/customers/duplicates error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import Customer from '@/lib/models/Customer';
+import ExcelExportService, { REPORT_COLUMNS } from '@/lib/services/excelExportService';
+import { resolveSegmentFilter } from '@/lib/services/customerSegmentService';
+import { CUSTOMER_LIFECYCLE_STAGES, CUSTOMER_SOURCES } from '@/constants/customerSegmentConstants';
+import { createLogger } from '@/lib/utils/logger';
+import type { CustomerSource } from '@/types';
+
+const logger = createLogger('CustomerExportAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type ExportFormat = 'csv' | 'xls';
+
+const VALID_FORMATS: ExportFormat[] = ['csv', 'xls'];
+
+/**
+ * GET /api/customers/export - Download the customers in a segment
+ * Query params:
+ *   - segment: a lifecycle stage or saved segment ID (optional; all customers when left out)
+ *   - search, source: the same filters as GET /api/customers
+ *   - format: 'csv' (default) or 'xls'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    if (!VALID_FORMATS.includes(format)) {
+      return NextResponse.json({ message: `format must be one of: ${VALID_FORMATS.join(', ')}` }, { status: 400 });
+    }
+    const segment = searchParams.get('segment');
+    const sourceParam = searchParams.get('source');
+    const source = CUSTOMER_SOURCES.some(option => option.value === sourceParam) ? sourceParam as CustomerSource : undefined;
+
+    const customers = await Customer.findMatching({
+      search: searchParams.get('search') || undefined,
+      source,
+      ...(await resolveSegmentFilter(segment)),
+    });
+
+    const rows = customers.map(customer => ({
+      ...customer,
+      lifecycleStage: CUSTOMER_LIFECYCLE_STAGES.find(stage => stage.value === customer.lifecycleStage)?.label ?? '',
+    }));
+    const report = ExcelExportService.generateReport(
+      rows as unknown as Record<string, unknown>[],
+      REPORT_COLUMNS.customerList,
+      format,
+      { title: segment ? `Customers – ${segment}` : 'Customers', sheetName: 'Customers' }
+    );
+
+    logger.info('Customers exported', { segment, format, customers: customers.length, userId: session.user.dbUserId });
+
+    const fileName = `customers${segment ? `_segment_${segment}` : ''}${report.extension}`;
+    return new NextResponse(report.content, {
+      headers: {
+        'Content-Type': report.mimeType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error: unknown) {
+    logger.error('GET /api/customers/export error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to export customers' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
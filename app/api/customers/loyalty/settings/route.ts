@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import LoyaltySettings from '@/lib/models/LoyaltySettings';
+import { parseLoyaltySettingsInput } from '@/lib/services/loyaltyService';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const logger = createLogger('LoyaltySettingsAPI');
+
+/**
+ * GET /api/customers/loyalty/settings - Get the loyalty points settings
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await LoyaltySettings.get();
+
+    return NextResponse.json(settings);
+  } catch (error: unknown) {
+    logger.error('GET /api/customers/loyalty/settings error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch loyalty settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/customers/loyalty/settings - Set the loyalty points settings (admin only)
+ * Body: { enabled, pointsPerHundred, pointValue, minRedeemPoints, maxRedeemPercent, pointsExpiryDays }
+ * New earn rates and expiry apply to points earned from now on.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const settings = await LoyaltySettings.update(parseLoyaltySettingsInput(body), session.user.dbUserId);
+
+    logger.info('Loyalty settings updated', settings);
+
+    return NextResponse.json(settings);
+  } catch (error: unknown) {
+    logger.error('PUT /api/customers/loyalty/settings error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update loyalty settings' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
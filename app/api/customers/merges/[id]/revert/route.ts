@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { revertCustomerMerge } from '@/lib/services/customerDedupeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerMergeRevertAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/customers/merges/[id]/revert - Undo a merge (admin only)
+ *
+ * Orders that still belong to the survivor go back to the merged customer, and
+ * survivor details not edited since the merge are put back.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const mergeId = Number.parseInt(id, 10);
+    if (Number.isNaN(mergeId)) {
+      return NextResponse.json({ message: 'Invalid merge ID' }, { status: 400 });
+    }
+
+    const result = await revertCustomerMerge(mergeId, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+      name: session.user.name || undefined,
+    });
+    if (!result) {
+      return NextResponse.json({ message: 'Merge not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to undo merge';
+    logger.error('POST /api/customers/merges/[id]/revert error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
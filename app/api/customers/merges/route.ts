@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import CustomerMerge from '@/lib/models/CustomerMerge';
+import { mergeCustomers } from '@/lib/services/customerDedupeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerMergesAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/customers/merges - Recent merges, newest first, including undone ones
+ * Query params: limit (default 20)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Number.parseInt(searchParams.get('limit') || '20', 10);
+    const validLimit = Number.isNaN(limit) || limit < 1 || limit > 100 ? 20 : limit;
+
+    const merges = await CustomerMerge.findRecent(validLimit);
+
+    return NextResponse.json({ merges });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch customer merges';
+    logger.error('GET /api/customers/merges error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customers/merges - Merge one customer into another (admin only)
+ * Body: { survivorId, mergedId, score? }
+ *
+ * The merged customer's orders move to the survivor, which also takes any contact
+ * details it is missing and the merged customer's notes. The merged customer is
+ * hidden, not deleted, so the merge can be undone.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const merge = await mergeCustomers(body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+      name: session.user.name || undefined,
+    });
+    if (!merge) {
+      return NextResponse.json({ message: 'Customer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(merge, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to merge customers';
+    logger.error('POST /api/customers/merges error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
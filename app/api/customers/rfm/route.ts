@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { runCustomerRfmScoring } from '@/lib/services/customerSegmentService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerRfmAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/customers/rfm - Re-score customers now instead of waiting for the nightly run (admin only)
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const result = await runCustomerRfmScoring();
+
+    logger.info('Customer RFM scoring run by user', { userId: session.user.dbUserId, scored: result.scored });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to score customers';
+    logger.error('POST /api/customers/rfm error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import Customer from '@/lib/models/Customer';
+import { emitWebhookEvent } from '@/lib/services/webhookService';
+import { resolveSegmentFilter } from '@/lib/services/customerSegmentService';
 import { createLogger } from '@/lib/utils/logger';
 import type { CustomerSource } from '@/types/entities';
 
@@ -14,7 +16,7 @@ const VALID_SOURCES: CustomerSource[] = ['walk-in', 'online', 'referral', 'other
 
 /**
  * GET /api/customers - List customers with pagination and search
- * Query params: page, limit, search, source
+ * Query params: page, limit, search, source, segment (a lifecycle stage or saved segment ID)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -29,6 +31,7 @@ export async function GET(request: NextRequest) {
     const limit = Number.parseInt(searchParams.get('limit') || '20', 10);
     const search = searchParams.get('search') || undefined;
     const sourceParam = searchParams.get('source');
+    const segmentFilter = await resolveSegmentFilter(searchParams.get('segment'));
 
     // Validate source parameter
     let source: CustomerSource | undefined;
@@ -45,6 +48,7 @@ export async function GET(request: NextRequest) {
       limit: validLimit,
       search,
       source,
+      ...segmentFilter,
     });
 
     logger.debug('Customers retrieved', {
@@ -62,7 +66,7 @@ export async function GET(request: NextRequest) {
     logger.error('GET /api/customers error', error);
     return NextResponse.json(
       { message: errorMessage },
-      { status: 500 }
+      { status: (error as { statusCode?: number }).statusCode || 500 }
     );
   }
 }
@@ -79,7 +83,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, email, phone, address, source, notes, customerId } = body;
+    const { name, email, phone, address, state, source, notes, customerId } = body;
 
     // Validate required fields
     if (!name?.trim()) {
@@ -114,10 +118,13 @@ export async function POST(request: NextRequest) {
       email,
       phone,
       address,
+      state,
       source,
       notes,
     });
 
+    await emitWebhookEvent('customer.created', { customer });
+
     logger.info('Customer created', {
       customerId: customer.id,
       businessId: customer.customerId,
@@ -11,7 +11,7 @@ export const revalidate = 0;
 
 /**
  * GET /api/customers/search - Search customers for autocomplete
- * Query params: q (search query)
+ * Query params: q (name, phone, email, customer ID, or any contact such as an Instagram handle)
  * Returns CustomerSummary[] for quick lookup
  */
 export async function GET(request: NextRequest) {
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import CustomerSegment from '@/lib/models/CustomerSegment';
+import { parseCustomerSegmentInput, withSegmentCounts } from '@/lib/services/customerSegmentService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('CustomerSegmentByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/customers/segments/[id] - Update a segment (its creator or an admin)
+ * Body may include any of: name, description, rules
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const segmentId = Number.parseInt(id, 10);
+    if (Number.isNaN(segmentId)) {
+      return NextResponse.json({ message: 'Invalid segment ID' }, { status: 400 });
+    }
+
+    const existing = await CustomerSegment.findById(segmentId);
+    if (!existing) {
+      return NextResponse.json({ message: 'Segment not found' }, { status: 404 });
+    }
+    if (existing.createdBy !== session.user.dbUserId && session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Only the creator or an admin can change this segment' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const segment = await CustomerSegment.update(segmentId, parseCustomerSegmentInput(body, true));
+    if (!segment) {
+      return NextResponse.json({ message: 'Segment not found' }, { status: 404 });
+    }
+    const [withCount] = await withSegmentCounts([segment]);
+
+    logger.info('Customer segment updated', { segmentId, userId: session.user.dbUserId });
+
+    return NextResponse.json(withCount);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update customer segment';
+
+    if (errorMessage.includes('unique') || errorMessage.includes('duplicate')) {
+      return NextResponse.json(
+        { message: 'A segment with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    logger.error('PUT /api/customers/segments/[id] error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/customers/segments/[id] - Delete a segment (its creator or an admin)
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const segmentId = Number.parseInt(id, 10);
+    if (Number.isNaN(segmentId)) {
+      return NextResponse.json({ message: 'Invalid segment ID' }, { status: 400 });
+    }
+
+    const existing = await CustomerSegment.findById(segmentId);
+    if (!existing) {
+      return NextResponse.json({ message: 'Segment not found' }, { status: 404 });
+    }
+    if (existing.createdBy !== session.user.dbUserId && session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Only the creator or an admin can delete this segment' }, { status: 403 });
+    }
+
+    await CustomerSegment.delete(segmentId);
+
+    logger.info('Customer segment deleted', { segmentId, userId: session.user.dbUserId });
+
+    return NextResponse.json({ message: 'Segment deleted' });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete customer segment';
+    logger.error('DELETE /api/customers/segments/[id] error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import CustomerSegment from '@/lib/models/CustomerSegment';
+import {
+  getCustomerSegmentOverview,
+  parseCustomerSegmentInput,
+  withSegmentCounts,
+} from '@/lib/services/customerSegmentService';
+import { createLogger } from '@/lib/utils/logger';
+import type { CustomerSegmentData } from '@/types';
+
+const logger = createLogger('CustomerSegmentsAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/customers/segments - Lifecycle stage counts and saved segments with live counts
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const overview = await getCustomerSegmentOverview();
+
+    return NextResponse.json(overview);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch customer segments';
+    logger.error('GET /api/customers/segments error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customers/segments - Save a segment
+ * Body: { name, description?, rules: { match: 'all' | 'any', rules: [{ field, operator, value }] } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = parseCustomerSegmentInput(body) as CustomerSegmentData;
+    const segment = await CustomerSegment.create(data, session.user.dbUserId);
+    const [withCount] = await withSegmentCounts([segment]);
+
+    logger.info('Customer segment created', { segmentId: segment.id, userId: session.user.dbUserId });
+
+    return NextResponse.json(withCount, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create customer segment';
+
+    if (errorMessage.includes('unique') || errorMessage.includes('duplicate')) {
+      return NextResponse.json(
+        { message: 'A segment with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    logger.error('POST /api/customers/segments error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
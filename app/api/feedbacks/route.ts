@@ -14,6 +14,7 @@ import {
 } from '@/lib/constants/feedbackConstants';
 // @ts-ignore
 import { invalidateFeedbackCache } from '@/lib/middleware/cache';
+import { emitWebhookEvent } from '@/lib/services/webhookService';
 
 // Disable Next.js caching - use only Redis
 export const dynamic = 'force-dynamic';
@@ -141,6 +142,8 @@ export async function POST(request: NextRequest) {
     
     // Invalidate feedback cache after creation
     await invalidateFeedbackCache();
+
+    await emitWebhookEvent('feedback.submitted', { feedback: newFeedback });
     
     logger.info('Feedback created', { feedbackId: newFeedback.id, orderId: newFeedback.orderId });
     
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { runLoyaltyExpiry } from '@/lib/services/loyaltyService';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const logger = createLogger('LoyaltyExpiryRunnerAPI');
+
+/**
+ * POST /api/internal/customers/loyalty/expire - Nightly expiry of unspent loyalty points
+ *
+ * Protected by Vercel's CRON_SECRET authorization header. Meant to run once a night
+ * from a scheduler; a missed night only delays expiry to the next run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      logger.error('CRON_SECRET environment variable is not set');
+      return NextResponse.json({ message: 'Server configuration error' }, { status: 500 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ message: 'Invalid or missing authentication' }, { status: 401 });
+    }
+
+    const result = await runLoyaltyExpiry();
+
+    return NextResponse.json({ message: 'Loyalty points expired', ...result });
+  } catch (error: unknown) {
+    logger.error('Loyalty points expiry run failed', error);
+    return NextResponse.json(
+      {
+        message: 'Loyalty points expiry failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { runCustomerRfmScoring } from '@/lib/services/customerSegmentService';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const logger = createLogger('CustomerRfmRunnerAPI');
+
+/**
+ * POST /api/internal/customers/rfm/run - Nightly RFM scoring and lifecycle stages
+ *
+ * Protected by Vercel's CRON_SECRET authorization header. Meant to run once a night
+ * from a scheduler, after the day's orders are in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      logger.error('CRON_SECRET environment variable is not set');
+      return NextResponse.json({ message: 'Server configuration error' }, { status: 500 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ message: 'Invalid or missing authentication' }, { status: 401 });
+    }
+
+    const result = await runCustomerRfmScoring();
+
+    return NextResponse.json({ message: 'Customers scored', ...result });
+  } catch (error: unknown) {
+    logger.error('Customer RFM scoring run failed', error);
+    return NextResponse.json(
+      {
+        message: 'Customer RFM scoring failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/utils/logger';
+import { processDueDeliveries } from '@/lib/services/webhookService';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const logger = createLogger('WebhookRunnerAPI');
+
+/**
+ * POST /api/internal/webhooks/run - Send webhook retries that are due
+ *
+ * Protected by Vercel's CRON_SECRET authorization header. Meant to run every few
+ * minutes from a scheduler; retries also go out whenever a new event is emitted,
+ * so this only has to catch up when the app is quiet.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      logger.error('CRON_SECRET environment variable is not set');
+      return NextResponse.json({ message: 'Server configuration error' }, { status: 500 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ message: 'Invalid or missing authentication' }, { status: 401 });
+    }
+
+    const summary = await processDueDeliveries(50);
+
+    logger.info('Webhook retry run completed', summary);
+
+    return NextResponse.json({ message: 'Webhook retries processed', ...summary });
+  } catch (error: unknown) {
+    logger.error('Webhook retry run failed', error);
+    return NextResponse.json(
+      {
+        message: 'Webhook retry run failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
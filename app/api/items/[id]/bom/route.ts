@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import Item from '@/lib/models/Item';
+import ItemDesign from '@/lib/models/ItemDesign';
+import Material from '@/lib/models/Material';
+import BillOfMaterials from '@/lib/models/BillOfMaterials';
+import { parseBomInput } from '@/lib/services/manufacturingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('ItemBomAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/items/[id]/bom - Get an item's bill of materials
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const itemId = Number.parseInt(id, 10);
+    if (Number.isNaN(itemId)) {
+      return NextResponse.json({ message: 'Invalid item ID' }, { status: 400 });
+    }
+
+    const lines = await BillOfMaterials.findByItem(itemId);
+
+    return NextResponse.json({ lines });
+  } catch (error: unknown) {
+    logger.error('GET /api/items/[id]/bom error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch bill of materials' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/items/[id]/bom - Replace an item's bill of materials (admin only)
+ * Body: { lines: [{ materialId, designId?: number | null, quantity, notes? }] }
+ * quantity is per unit of the item; lines without a designId apply to every design.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const itemId = Number.parseInt(id, 10);
+    if (Number.isNaN(itemId)) {
+      return NextResponse.json({ message: 'Invalid item ID' }, { status: 400 });
+    }
+
+    const item = await Item.findById(itemId);
+    if (!item) {
+      return NextResponse.json({ message: 'Item not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const [designs, materials] = await Promise.all([ItemDesign.findByItemId(itemId), Material.find()]);
+    const lines = parseBomInput(
+      body,
+      designs.map((design: { id: number }) => design.id),
+      materials.map((material: { id: number }) => material.id)
+    );
+    const saved = await BillOfMaterials.replaceForItem(itemId, lines);
+
+    logger.info('Bill of materials updated', { itemId, lines: saved.length });
+
+    return NextResponse.json({ lines: saved });
+  } catch (error: unknown) {
+    logger.error('PUT /api/items/[id]/bom error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update bill of materials' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -83,7 +83,40 @@ export async function PUT(
     }
     
     const body = await request.json();
-    const { isPrimary, displayOrder } = body;
+    const { isPrimary, displayOrder, trackStock, lowStockThreshold } = body;
+
+    // Handle per-design stock settings
+    if (trackStock !== undefined) {
+      if (typeof trackStock !== 'boolean') {
+        return NextResponse.json(
+          { message: 'trackStock must be true or false' },
+          { status: 400 }
+        );
+      }
+      if (lowStockThreshold !== undefined && lowStockThreshold !== null
+        && (!Number.isInteger(lowStockThreshold) || lowStockThreshold < 0)) {
+        return NextResponse.json(
+          { message: 'Low stock threshold must be a non-negative whole number' },
+          { status: 400 }
+        );
+      }
+
+      const updated = await ItemDesign.updateStockSettings(itemId, numericDesignId, {
+        trackStock,
+        lowStockThreshold: lowStockThreshold ?? null,
+      });
+      if (!updated) {
+        return NextResponse.json(
+          { message: 'Design not found' },
+          { status: 404 }
+        );
+      }
+
+      await invalidateItemCache();
+
+      logger.info('Design stock settings updated', { designId: numericDesignId, itemId, trackStock });
+      return NextResponse.json(updated);
+    }
     
     // Handle setting primary design
     if (isPrimary !== undefined && isPrimary) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { put, del } from '@vercel/blob';
 import Item from '@/lib/models/Item';
 import { createLogger } from '@/lib/utils/logger';
+import { isValidHsnCode, parseOptionalTaxRate } from '@/lib/utils/gstUtils';
 import { invalidateItemCache } from '@/lib/middleware/cache';
 import { IMAGE_CONFIG } from '@/lib/constants/imageConstants';
 
@@ -101,7 +102,7 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, price, color, fabric, specialFeatures, image } = body;
+    const { name, price, color, fabric, specialFeatures, image, hsnCode, taxRate } = body;
 
     // Validate name
     if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
@@ -122,6 +123,21 @@ export async function PUT(
       }
     }
 
+    if (!isValidHsnCode(hsnCode)) {
+      return NextResponse.json(
+        { message: 'HSN code must be 4 to 8 digits' },
+        { status: 400 }
+      );
+    }
+
+    const parsedTaxRate = parseOptionalTaxRate(taxRate);
+    if (Number.isNaN(parsedTaxRate)) {
+      return NextResponse.json(
+        { message: 'GST rate must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
     const existingItem = await Item.findById(id);
     if (!existingItem) {
       return NextResponse.json(
@@ -149,6 +165,8 @@ export async function PUT(
     if (color !== undefined) updateData.color = color;
     if (fabric !== undefined) updateData.fabric = fabric;
     if (specialFeatures !== undefined) updateData.specialFeatures = specialFeatures;
+    if (hsnCode !== undefined) updateData.hsnCode = hsnCode;
+    if (parsedTaxRate !== undefined) updateData.taxRate = parsedTaxRate;
     if (imageResult.newImageUrl !== existingItem.imageUrl) updateData.imageUrl = imageResult.newImageUrl;
 
     const updatedItem = await Item.findByIdAndUpdate(id, updateData);
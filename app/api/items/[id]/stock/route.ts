@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import Stock from '@/lib/models/Stock';
+import { emitLowStockEvents } from '@/lib/services/webhookService';
 import { createLogger } from '@/lib/utils/logger';
 
 export const dynamic = 'force-dynamic';
@@ -17,7 +17,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
 
     if (!session?.user) {
       return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
@@ -57,17 +57,18 @@ export async function GET(
 
 /**
  * POST /api/items/[id]/stock - Manual stock adjustment
- * Body: { quantity: number, notes?: string }
+ * Body: { quantity: number, notes?: string, designId?: number }
  * 
  * Positive quantity = add stock (restock)
  * Negative quantity = remove stock (adjustment)
+ * With designId, the design's own stock moves together with the item's
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
 
     if (!session?.user) {
       return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
@@ -84,7 +85,7 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { quantity, notes } = body;
+    const { quantity, notes, designId } = body;
 
     if (typeof quantity !== 'number' || Number.isNaN(quantity)) {
       return NextResponse.json(
@@ -100,6 +101,13 @@ export async function POST(
       );
     }
 
+    if (designId !== undefined && designId !== null && (!Number.isInteger(designId) || designId <= 0)) {
+      return NextResponse.json(
+        { message: 'Invalid design ID' },
+        { status: 400 }
+      );
+    }
+
     // Determine transaction type based on quantity
     const transactionType = quantity > 0 ? 'restock' : 'adjustment';
 
@@ -109,11 +117,19 @@ export async function POST(
       transactionType,
       notes,
       session.user.dbUserId,
-      session.user.email || undefined
+      session.user.email || undefined,
+      undefined,
+      undefined,
+      designId || undefined
     );
 
+    if (quantity < 0) {
+      await emitLowStockEvents([{ itemId: numericId, designId, quantity: -quantity }]);
+    }
+
     logger.info('Stock adjusted', {
       itemId: id,
+      designId,
       quantity,
       transactionType,
       userId: session.user.dbUserId,
@@ -124,10 +140,10 @@ export async function POST(
     const errorMessage = error instanceof Error ? error.message : 'Failed to adjust stock';
 
     // Handle specific error cases
-    if (errorMessage.includes('Item not found')) {
+    if (errorMessage.includes('Item not found') || errorMessage.includes('Design not found')) {
       return NextResponse.json({ message: errorMessage }, { status: 404 });
     }
-    if (errorMessage.includes('Insufficient stock')) {
+    if (errorMessage.includes('Insufficient stock') || errorMessage.includes('does not track its own stock')) {
       return NextResponse.json({ message: errorMessage }, { status: 400 });
     }
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { put } from '@vercel/blob';
 import Item from '@/lib/models/Item';
 import { createLogger } from '@/lib/utils/logger';
+import { isValidHsnCode, parseOptionalTaxRate } from '@/lib/utils/gstUtils';
 import { parsePaginationParams } from '@/lib/utils/pagination';
 import { invalidateItemCache } from '@/lib/middleware/cache';
 import { getRedisClient, getRedisIfReady } from '@/lib/db/redisClient';
@@ -139,6 +140,8 @@ export async function POST(request: NextRequest) {
     let fabric: string | undefined;
     let specialFeatures: string | undefined;
     let image: string | undefined;
+    let hsnCode: string | undefined;
+    let taxRate: string | number | null | undefined;
 
     if (contentType.includes('multipart/form-data')) {
       // Handle FormData
@@ -151,10 +154,12 @@ export async function POST(request: NextRequest) {
       fabric = (formData.get('fabric') as string | null) || undefined;
       specialFeatures = (formData.get('specialFeatures') as string | null) || undefined;
       image = (formData.get('image') as string | null) || undefined;
+      hsnCode = (formData.get('hsnCode') as string | null) || undefined;
+      taxRate = (formData.get('taxRate') as string | null) || undefined;
     } else {
       // Handle JSON
       const body = await request.json();
-      ({ name, price, color, fabric, specialFeatures, image } = body);
+      ({ name, price, color, fabric, specialFeatures, image, hsnCode, taxRate } = body);
     }
 
     if (!name || typeof name !== 'string' || !name.trim()) {
@@ -172,6 +177,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isValidHsnCode(hsnCode)) {
+      return NextResponse.json(
+        { message: 'HSN code must be 4 to 8 digits' },
+        { status: 400 }
+      );
+    }
+
+    const parsedTaxRate = parseOptionalTaxRate(taxRate);
+    if (Number.isNaN(parsedTaxRate)) {
+      return NextResponse.json(
+        { message: 'GST rate must be between 0 and 100' },
+        { status: 400 }
+      );
+    }
+
     let imageUrl = '';
     
     if (image && typeof image === 'string' && image.startsWith('data:image/')) {
@@ -194,7 +214,9 @@ export async function POST(request: NextRequest) {
       color: color?.trim() || '',
       fabric: fabric?.trim() || '',
       specialFeatures: specialFeatures?.trim() || '',
-      imageUrl
+      imageUrl,
+      hsnCode: hsnCode?.trim() || '',
+      taxRate: parsedTaxRate ?? null
     });
 
     // Invalidate item cache after creation
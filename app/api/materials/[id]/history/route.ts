@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import Material from '@/lib/models/Material';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('MaterialHistoryAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/materials/[id]/history - A material's stock ledger, newest first
+ * Query params:
+ *   - page: page number (default: 1)
+ *   - limit: transactions per page (default: 20, max: 100)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const materialId = Number.parseInt(id, 10);
+    if (Number.isNaN(materialId)) {
+      return NextResponse.json({ message: 'Invalid material ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Number.parseInt(searchParams.get('page') || '1', 10);
+    const limit = Number.parseInt(searchParams.get('limit') || '20', 10);
+
+    const history = await Material.getTransactionHistory(materialId, {
+      page: Number.isNaN(page) ? 1 : page,
+      limit: Number.isNaN(limit) ? 20 : limit,
+    });
+
+    return NextResponse.json(history);
+  } catch (error: unknown) {
+    logger.error('GET /api/materials/[id]/history error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch material history' },
+      { status: 500 }
+    );
+  }
+}
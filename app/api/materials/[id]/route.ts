@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import Material from '@/lib/models/Material';
+import { parseMaterialInput } from '@/lib/services/manufacturingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('MaterialByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/materials/[id] - Update a material's details (admin only)
+ * Stock is changed through POST /api/materials/[id]/stock so every change is in the ledger.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const materialId = Number.parseInt(id, 10);
+    if (Number.isNaN(materialId)) {
+      return NextResponse.json({ message: 'Invalid material ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const material = await Material.update(materialId, parseMaterialInput(body, { partial: true }));
+    if (!material) {
+      return NextResponse.json({ message: 'Material not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(material);
+  } catch (error: unknown) {
+    logger.error('PUT /api/materials/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update material' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/materials/[id] - Delete a material (admin only)
+ * Refused with 409 while a bill of materials uses it.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const materialId = Number.parseInt(id, 10);
+    if (Number.isNaN(materialId)) {
+      return NextResponse.json({ message: 'Invalid material ID' }, { status: 400 });
+    }
+
+    const deleted = await Material.delete(materialId);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Material not found' }, { status: 404 });
+    }
+
+    logger.info('Material deleted', { materialId });
+
+    return NextResponse.json({ message: 'Material deleted' });
+  } catch (error: unknown) {
+    logger.error('DELETE /api/materials/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to delete material' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
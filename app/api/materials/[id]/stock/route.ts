@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import Material from '@/lib/models/Material';
+import { parseMaterialAdjustment } from '@/lib/services/manufacturingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('MaterialStockAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/materials/[id]/stock - Restock or correct a material
+ * Body: { quantity: number, transactionType?: 'restock' | 'adjustment', notes?: string }
+ *
+ * Positive quantity = add stock, negative = remove stock. Without a transactionType,
+ * additions are recorded as restocks and removals as adjustments.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const materialId = Number.parseInt(id, 10);
+    if (Number.isNaN(materialId)) {
+      return NextResponse.json({ message: 'Invalid material ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { quantity, transactionType, notes } = parseMaterialAdjustment(body);
+
+    const existing = await Material.findById(materialId);
+    if (!existing) {
+      return NextResponse.json({ message: 'Material not found' }, { status: 404 });
+    }
+
+    const material = await Material.adjustStock(materialId, quantity, transactionType, notes, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+    });
+
+    logger.info('Material stock adjusted', { materialId, quantity, transactionType });
+
+    return NextResponse.json(material);
+  } catch (error: unknown) {
+    logger.error('POST /api/materials/[id]/stock error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to adjust material stock' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import Material from '@/lib/models/Material';
+import { parseMaterialInput } from '@/lib/services/manufacturingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('MaterialsAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/materials - List raw materials with their stock
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const materials = await Material.find();
+
+    return NextResponse.json({ materials });
+  } catch (error: unknown) {
+    logger.error('GET /api/materials error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch materials' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/materials - Create a material (admin only)
+ * Body: { name, unit, sku?, stockQuantity?, lowStockThreshold?, costPerUnit?, notes? }
+ * Opening stock is recorded in the material ledger.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const material = await Material.create(parseMaterialInput(body), {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+    });
+
+    logger.info('Material created', { materialId: material.id, name: material.name });
+
+    return NextResponse.json(material, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/materials error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to create material' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
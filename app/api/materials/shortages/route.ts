@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { buildShortageReport } from '@/lib/services/manufacturingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('MaterialShortagesAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/materials/shortages - Materials needed by open orders against stock
+ * Counts open work orders and the lines of unconfirmed open orders that will need making.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await buildShortageReport();
+
+    return NextResponse.json(report);
+  } catch (error: unknown) {
+    logger.error('GET /api/materials/shortages error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to build the materials shortage report' },
+      { status: 500 }
+    );
+  }
+}
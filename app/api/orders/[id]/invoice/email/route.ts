@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { emailInvoice } from '@/lib/services/invoiceService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('OrderInvoiceEmailAPI');
+
+export const dynamic = 'force-dynamic';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/orders/[id]/invoice/email - Email the invoice PDF as an attachment
+ * Body: { to?: string } - defaults to the customer's email address
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const numericId = Number.parseInt(id, 10);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const to = typeof body.to === 'string' ? body.to.trim() : '';
+    if (to && !EMAIL_PATTERN.test(to)) {
+      return NextResponse.json(
+        { message: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+
+    const { invoice, recipient } = await emailInvoice(numericId, to || undefined, {
+      id: session.user?.dbUserId,
+      email: session.user?.email || undefined,
+      name: session.user?.name || undefined,
+    });
+
+    return NextResponse.json({ invoiceNumber: invoice.invoiceNumber, sentTo: recipient });
+  } catch (error: unknown) {
+    logger.error('POST /api/orders/[id]/invoice/email error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to email invoice' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
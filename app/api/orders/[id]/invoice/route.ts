@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { generateInvoice } from '@/lib/services/invoiceService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('OrderInvoiceAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Render the order's invoice PDF as a download
+ * @param issue - Issue the next invoice number when the order has none yet
+ */
+async function downloadInvoice(request: NextRequest, { params }: RouteParams, issue: boolean) {
+  const method = issue ? 'POST' : 'GET';
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const numericId = Number.parseInt(id, 10);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const { pdf, filename } = await generateInvoice(numericId, {
+      issue,
+      user: {
+        id: session.user?.dbUserId,
+        email: session.user?.email || undefined,
+        name: session.user?.name || undefined,
+      },
+    });
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    logger.error(`${method} /api/orders/[id]/invoice error`, error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to generate invoice' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/orders/[id]/invoice - Download the GST invoice PDF of an invoiced order
+ * Returns 404 until the order's invoice has been issued with POST.
+ */
+export async function GET(request: NextRequest, context: RouteParams) {
+  return downloadInvoice(request, context, false);
+}
+
+/**
+ * POST /api/orders/[id]/invoice - Issue the order's invoice and download its PDF
+ * The first call issues the next invoice number for the current financial year;
+ * later calls return the same invoice.
+ */
+export async function POST(request: NextRequest, context: RouteParams) {
+  return downloadInvoice(request, context, true);
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import OrderNote from '@/lib/models/OrderNote';
 import Order from '@/lib/models/Order';
 import { createLogger } from '@/lib/utils/logger';
@@ -19,7 +18,7 @@ interface RouteParams {
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     if (!session) {
       return NextResponse.json(
         { message: 'Unauthorized' },
@@ -64,7 +63,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     if (!session) {
       return NextResponse.json(
         { message: 'Unauthorized' },
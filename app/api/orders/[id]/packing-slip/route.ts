@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { generatePackingSlip } from '@/lib/services/invoiceService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('OrderPackingSlipAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/orders/[id]/packing-slip - Download the packing slip PDF for an order
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const numericId = Number.parseInt(id, 10);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const { pdf, filename } = await generatePackingSlip(numericId);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+    logger.error('GET /api/orders/[id]/packing-slip error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to generate packing slip' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import OrderPayment from '@/lib/models/OrderPayment';
+import { createLogger } from '@/lib/utils/logger';
+import { invalidateOrderCache } from '@/lib/middleware/cache';
+import { reconcileOrderLoyalty } from '@/lib/services/loyaltyService';
+
+const logger = createLogger('OrderPaymentByIdAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string; paymentId: string }>;
+}
+
+/**
+ * DELETE /api/orders/[id]/payments/[paymentId] - Remove a payment recorded by mistake
+ * Store credit the payment took goes back to the customer, and points the order
+ * earned are reversed if it is no longer paid.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, paymentId } = await params;
+    const numericOrderId = Number.parseInt(id, 10);
+    const numericPaymentId = Number.parseInt(paymentId, 10);
+
+    if (Number.isNaN(numericOrderId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    if (Number.isNaN(numericPaymentId)) {
+      return NextResponse.json(
+        { message: 'Invalid payment ID' },
+        { status: 400 }
+      );
+    }
+
+    const user = {
+      id: session.user?.dbUserId,
+      email: session.user?.email,
+      name: session.user?.name,
+    };
+    const totals = await OrderPayment.delete(numericOrderId, numericPaymentId, user);
+    if (!totals) {
+      return NextResponse.json(
+        { message: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    await reconcileOrderLoyalty(numericOrderId, user);
+
+    await invalidateOrderCache();
+
+    logger.info('Order payment removed', {
+      paymentId: numericPaymentId,
+      orderId: numericOrderId,
+      removedBy: session.user?.email,
+      paymentStatus: totals.paymentStatus,
+    });
+
+    return NextResponse.json({ message: 'Payment deleted successfully', order: totals });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to delete payment';
+    logger.error('DELETE /api/orders/[id]/payments/[paymentId] error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
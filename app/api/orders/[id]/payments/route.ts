@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import OrderPayment, { PAYMENT_METHOD_VALUES } from '@/lib/models/OrderPayment';
+import Order from '@/lib/models/Order';
+import { createLogger } from '@/lib/utils/logger';
+import { invalidateOrderCache } from '@/lib/middleware/cache';
+import { reconcileOrderLoyalty } from '@/lib/services/loyaltyService';
+
+const logger = createLogger('OrderPaymentsAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/orders/[id]/payments - Get the payment history for an order
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const numericId = Number.parseInt(id, 10);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify order exists
+    const order = await Order.findById(numericId);
+    if (!order) {
+      return NextResponse.json(
+        { message: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const payments = await OrderPayment.findByOrderId(numericId);
+
+    return NextResponse.json({ items: payments });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch payments';
+    logger.error('GET /api/orders/[id]/payments error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/[id]/payments - Record a payment against an order
+ * A store_credit payment is taken from the customer's store credit; paying the
+ * order off earns its loyalty points.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const numericId = Number.parseInt(id, 10);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { amount, method, referenceNumber, paidAt, notes } = body;
+
+    const parsedAmount = Number.parseFloat(amount);
+    if (Number.isNaN(parsedAmount) || parsedAmount <= 0) {
+      return NextResponse.json(
+        { message: 'Amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (!method || !PAYMENT_METHOD_VALUES.includes(method)) {
+      return NextResponse.json(
+        { message: `Invalid payment method. Must be one of: ${PAYMENT_METHOD_VALUES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (paidAt && Number.isNaN(new Date(paidAt).getTime())) {
+      return NextResponse.json(
+        { message: 'Invalid payment date' },
+        { status: 400 }
+      );
+    }
+
+    const { payment, totals } = await OrderPayment.create({
+      orderId: numericId,
+      amount: parsedAmount,
+      method,
+      referenceNumber,
+      paidAt,
+      notes,
+      userId: session.user?.dbUserId ?? null,
+      userEmail: session.user?.email || null,
+      userName: session.user?.name || null,
+    });
+
+    await reconcileOrderLoyalty(numericId, {
+      id: session.user?.dbUserId,
+      email: session.user?.email,
+      name: session.user?.name,
+    });
+
+    await invalidateOrderCache();
+
+    logger.info('Order payment recorded', {
+      paymentId: payment.id,
+      orderId: numericId,
+      amount: parsedAmount,
+      method,
+      paymentStatus: totals?.paymentStatus,
+    });
+
+    return NextResponse.json({ ...payment, order: totals }, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to record payment';
+    logger.error('POST /api/orders/[id]/payments error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
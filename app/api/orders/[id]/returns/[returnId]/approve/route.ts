@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { approveReturn } from '@/lib/services/orderReturnService';
+import { PAYMENT_METHOD_VALUES } from '@/lib/models/OrderPayment';
+import { createLogger } from '@/lib/utils/logger';
+import { invalidateOrderCache } from '@/lib/middleware/cache';
+
+const logger = createLogger('OrderReturnApproveAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string; returnId: string }>;
+}
+
+/**
+ * POST /api/orders/[id]/returns/[returnId]/approve - Approve a return: refund, restock and update customer stats
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, returnId } = await params;
+    const numericOrderId = Number.parseInt(id, 10);
+    const numericReturnId = Number.parseInt(returnId, 10);
+
+    if (Number.isNaN(numericOrderId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    if (Number.isNaN(numericReturnId)) {
+      return NextResponse.json(
+        { message: 'Invalid return ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { reviewNotes, refundMethod } = body;
+
+    if (refundMethod !== undefined && !PAYMENT_METHOD_VALUES.includes(refundMethod)) {
+      return NextResponse.json(
+        { message: `Invalid refund method. Must be one of: ${PAYMENT_METHOD_VALUES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const orderReturn = await approveReturn(numericOrderId, numericReturnId, { reviewNotes, refundMethod }, {
+      id: session.user?.dbUserId,
+      email: session.user?.email || undefined,
+      name: session.user?.name || undefined,
+    });
+
+    await invalidateOrderCache();
+
+    return NextResponse.json(orderReturn);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to approve return';
+    logger.error('POST /api/orders/[id]/returns/[returnId]/approve error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { rejectReturn } from '@/lib/services/orderReturnService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('OrderReturnRejectAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string; returnId: string }>;
+}
+
+/**
+ * POST /api/orders/[id]/returns/[returnId]/reject - Reject a pending return
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, returnId } = await params;
+    const numericOrderId = Number.parseInt(id, 10);
+    const numericReturnId = Number.parseInt(returnId, 10);
+
+    if (Number.isNaN(numericOrderId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    if (Number.isNaN(numericReturnId)) {
+      return NextResponse.json(
+        { message: 'Invalid return ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { reviewNotes } = body;
+
+    const orderReturn = await rejectReturn(numericOrderId, numericReturnId, { reviewNotes }, {
+      id: session.user?.dbUserId,
+      email: session.user?.email || undefined,
+      name: session.user?.name || undefined,
+    });
+
+    return NextResponse.json(orderReturn);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to reject return';
+    logger.error('POST /api/orders/[id]/returns/[returnId]/reject error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
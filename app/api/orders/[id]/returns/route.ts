@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import OrderReturn from '@/lib/models/OrderReturn';
+import Order from '@/lib/models/Order';
+import { PAYMENT_METHOD_VALUES } from '@/lib/models/OrderPayment';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('OrderReturnsAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/orders/[id]/returns - Get return requests for an order
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const numericId = Number.parseInt(id, 10);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify order exists
+    const order = await Order.findById(numericId);
+    if (!order) {
+      return NextResponse.json(
+        { message: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const returns = await OrderReturn.findByOrderId(numericId);
+
+    return NextResponse.json({ items: returns });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fetch returns';
+    logger.error('GET /api/orders/[id]/returns error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/[id]/returns - Request a return for some or all of an order's items
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const numericId = Number.parseInt(id, 10);
+
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json(
+        { message: 'Invalid order ID' },
+        { status: 400 }
+      );
+    }
+
+    // Verify order exists
+    const order = await Order.findById(numericId);
+    if (!order) {
+      return NextResponse.json(
+        { message: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { reason, refundAmount, refundMethod, restock, items } = body;
+
+    if (!reason?.trim()) {
+      return NextResponse.json(
+        { message: 'A reason for the return is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json(
+        { message: 'Select at least one item to return' },
+        { status: 400 }
+      );
+    }
+
+    const parsedItems = [];
+    for (const item of items) {
+      const orderItemId = Number.parseInt(item.orderItemId, 10);
+      const quantity = Number.parseInt(item.quantity, 10);
+      if (Number.isNaN(orderItemId) || Number.isNaN(quantity) || quantity <= 0) {
+        return NextResponse.json(
+          { message: 'Each returned item needs an orderItemId and a positive quantity' },
+          { status: 400 }
+        );
+      }
+      parsedItems.push({ orderItemId, quantity });
+    }
+
+    const parsedRefund = refundAmount === undefined || refundAmount === '' ? 0 : Number.parseFloat(refundAmount);
+    if (Number.isNaN(parsedRefund) || parsedRefund < 0) {
+      return NextResponse.json(
+        { message: 'Refund amount must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    if (refundMethod !== undefined && !PAYMENT_METHOD_VALUES.includes(refundMethod)) {
+      return NextResponse.json(
+        { message: `Invalid refund method. Must be one of: ${PAYMENT_METHOD_VALUES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const orderReturn = await OrderReturn.create({
+      orderId: numericId,
+      reason,
+      refundAmount: parsedRefund,
+      refundMethod,
+      restock: restock !== false,
+      items: parsedItems,
+      userId: session.user?.dbUserId ?? null,
+      userEmail: session.user?.email || null,
+    });
+
+    logger.info('Order return requested', {
+      returnId: orderReturn.id,
+      orderId: numericId,
+      refundAmount: parsedRefund,
+    });
+
+    return NextResponse.json(orderReturn, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create return';
+    logger.error('POST /api/orders/[id]/returns error', error);
+    return NextResponse.json(
+      { message: errorMessage },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
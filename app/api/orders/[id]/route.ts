@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import Order from '@/lib/models/Order';
+import AuditLog from '@/lib/models/AuditLog';
+import Stock, { getReservationExpiry } from '@/lib/models/Stock';
 import { createLogger } from '@/lib/utils/logger';
 import { invalidateOrderCache } from '@/lib/middleware/cache';
+import { planOrderTransition, applyTransitionEffects } from '@/lib/services/orderLifecycleService';
+import { parsePricingOptions, hasPricingChanges, priceOrder } from '@/lib/services/orderPricingService';
+import { resolveOrderAddress } from '@/lib/services/customerContactService';
+import { reconcileOrderLoyalty } from '@/lib/services/loyaltyService';
+import { emitWebhookEvent } from '@/lib/services/webhookService';
 
 // Disable Next.js caching - use only Redis
 export const dynamic = 'force-dynamic';
@@ -42,6 +50,12 @@ export async function GET(
 
 /**
  * PUT /api/orders/[id] - Update order
+ * Status, payment, delivery and confirmation changes must follow the order
+ * lifecycle; illegal transitions are rejected with 409. Changing items,
+ * discount, shipping, tax mode or place of supply recomputes the total; points
+ * redeemed when the order was placed stay as they are.
+ * customerAddressId switches the order to another of the customer's saved
+ * addresses (null for none); typing a different address drops the saved one.
  */
 export async function PUT(
   request: NextRequest,
@@ -50,6 +64,7 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await request.json();
+    const session = await getRequestSession(request);
 
     const existingOrder = await Order.findById(id);
     if (!existingOrder) {
@@ -65,7 +80,6 @@ export async function PUT(
     // Allow updating specific fields
     if (body.status !== undefined) updateData.status = body.status;
     if (body.paymentStatus !== undefined) updateData.paymentStatus = body.paymentStatus;
-    if (body.paidAmount !== undefined) updateData.paidAmount = Number.parseFloat(body.paidAmount);
     if (body.confirmationStatus !== undefined) updateData.confirmationStatus = body.confirmationStatus;
     if (body.customerNotes !== undefined) updateData.customerNotes = body.customerNotes;
     if (body.priority !== undefined) updateData.priority = Number.parseInt(body.priority, 10);
@@ -79,10 +93,29 @@ export async function PUT(
       updateData.actualDeliveryDate = body.actualDeliveryDate ? new Date(body.actualDeliveryDate) : null;
     }
     if (body.address !== undefined) updateData.address = body.address;
+    if (body.customerAddressId !== undefined) {
+      const savedAddress = await resolveOrderAddress(body.customerAddressId, existingOrder.customerId);
+      updateData.customerAddressId = savedAddress?.customerAddressId ?? null;
+      updateData.addressSnapshot = savedAddress?.addressSnapshot ?? null;
+      if (savedAddress) updateData.address = savedAddress.address;
+    } else if (body.address !== undefined && body.address !== existingOrder.address) {
+      updateData.customerAddressId = null;
+      updateData.addressSnapshot = null;
+    }
+
+    // Enforce the lifecycle and pick up implied changes (e.g. actualDeliveryDate)
+    const transition = planOrderTransition(existingOrder, {
+      status: body.status,
+      paymentStatus: body.paymentStatus,
+      deliveryStatus: body.deliveryStatus,
+      confirmationStatus: body.confirmationStatus,
+      actualDeliveryDate: updateData.actualDeliveryDate,
+    });
+    Object.assign(updateData, transition.changes);
 
-    // If items are being updated, recalculate total price
+    // If items are being updated, validate them; the total is repriced below
+    let lines = null;
     if (body.items && Array.isArray(body.items)) {
-      let totalPrice = 0;
       const validatedItems = [];
 
       for (const item of body.items) {
@@ -103,32 +136,116 @@ export async function PUT(
           );
         }
 
-        totalPrice += itemPrice * quantity;
+        // Keep the cost and HSN snapshots of lines that stay on the order
+        const itemId = Number.parseInt(item.itemId, 10);
+        const existingLine = existingOrder.items.find((line: { item: number }) => line.item === itemId);
         validatedItems.push({
-          itemId: Number.parseInt(item.itemId, 10),
+          item: itemId,
+          designId: item.designId ?? existingLine?.designId ?? null,
           name: item.name,
           price: itemPrice,
+          costPrice: existingLine?.costPrice ?? null,
+          hsnCode: existingLine?.hsnCode ?? null,
+          taxRate: existingLine?.taxRate ?? null,
           quantity: quantity,
           customizationRequest: item.customizationRequest || ''
         });
       }
 
-      updateData.items = validatedItems;
-      updateData.totalPrice = totalPrice;
+      lines = validatedItems;
+    } else if (hasPricingChanges(body)) {
+      lines = existingOrder.items;
+    }
+
+    // Reprice when the lines, discount, shipping, tax mode, place of supply or promotion change
+    if (lines) {
+      // The stored discount includes the promotion's and the points' shares; only the manual part carries over
+      const pricingOptions = parsePricingOptions(body, {
+        ...existingOrder,
+        discountAmount: existingOrder.discountAmount - existingOrder.promotionDiscount - existingOrder.loyaltyDiscount,
+        redeemPoints: existingOrder.loyaltyPointsRedeemed,
+      });
+      const { lines: pricedLines, quote } = await priceOrder(
+        lines,
+        pricingOptions,
+        existingOrder.customerId,
+        existingOrder.promotionId,
+        { points: existingOrder.loyaltyPointsRedeemed, discount: existingOrder.loyaltyDiscount }
+      );
+
+      updateData.items = pricedLines;
+      updateData.totalPrice = quote.totalPrice;
+      updateData.subtotal = quote.subtotal;
+      updateData.discountAmount = quote.discountAmount;
+      updateData.taxAmount = quote.taxAmount;
+      updateData.cgstAmount = quote.cgstAmount;
+      updateData.sgstAmount = quote.sgstAmount;
+      updateData.igstAmount = quote.igstAmount;
+      updateData.shippingAmount = quote.shippingAmount;
+      updateData.pricesIncludeTax = quote.pricesIncludeTax;
+      updateData.placeOfSupply = quote.placeOfSupply;
+      updateData.promotionId = quote.promotion?.id ?? null;
+      updateData.promotionCode = quote.promotion?.code ?? null;
+      updateData.promotionDiscount = quote.promotionDiscount;
     }
 
-    const updatedOrder = await Order.findByIdAndUpdate(id, updateData);
+    const user = {
+      id: session?.user?.dbUserId,
+      email: session?.user?.email || undefined,
+      name: session?.user?.name || undefined,
+    };
+
+    // Shipping deducts the order's stock in the same batch that marks it shipped
+    const fulfilment = transition.shipStock && !transition.restoreStock
+      ? await Stock.planFulfilment(existingOrder.id)
+      : undefined;
+
+    const updatedOrder = await Order.findByIdAndUpdate(id, updateData, {
+      fulfilment,
+      userId: user.id,
+      userEmail: user.email,
+      onCustomerCreated: customer => emitWebhookEvent('customer.created', { customer }),
+    });
     if (!updatedOrder) {
       return NextResponse.json(
         { message: 'Order not found' },
         { status: 404 }
       );
     }
-    
+
+    await applyTransitionEffects(existingOrder, transition, user, fulfilment);
+
+    // Transitions reconcile points themselves; a new total can pay an order off too
+    if (updateData.totalPrice !== undefined) {
+      await reconcileOrderLoyalty(existingOrder.id, user);
+    }
+
+    // Edited lines of an order that has not shipped reserve their stock afresh
+    if (body.items && updatedOrder && updatedOrder.status !== 'cancelled' && updatedOrder.deliveryStatus === 'not_shipped') {
+      await Stock.reserveForOrder(
+        existingOrder.id,
+        getReservationExpiry(updatedOrder.confirmationStatus === 'confirmed')
+      );
+    }
+
+    // Rescheduling goes in the audit trail next to the lifecycle changes recorded above
+    if (updatedOrder && updatedOrder.expectedDeliveryDate !== existingOrder.expectedDeliveryDate) {
+      await AuditLog.createOrderAudit({
+        orderId: existingOrder.id,
+        action: 'update',
+        fieldName: 'expectedDeliveryDate',
+        oldValue: existingOrder.expectedDeliveryDate || undefined,
+        newValue: updatedOrder.expectedDeliveryDate || undefined,
+        userId: session?.user?.dbUserId,
+        userEmail: session?.user?.email || undefined,
+        userName: session?.user?.name || undefined,
+      });
+    }
+
     // Invalidate order cache after update
     await invalidateOrderCache();
     
-    logger.info('Order updated', { orderId: id });
+    logger.info('Order updated', { orderId: id, lifecycleChanges: transition.changedFields });
     
     return NextResponse.json(updatedOrder);
   } catch (error: unknown) {
@@ -139,3 +256,8 @@ export async function PUT(
     );
   }
 }
+
+/**
+ * PATCH /api/orders/[id] - Partial update; same semantics as PUT
+ */
+export const PATCH = PUT;
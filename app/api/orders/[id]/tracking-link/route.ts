@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import Order from '@/lib/models/Order';
+import OrderTrackingToken from '@/lib/models/OrderTrackingToken';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('OrderTrackingLinkAPI');
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function resolveOrderId(params: RouteParams['params']): Promise<number | NextResponse> {
+  const { id } = await params;
+  const numericId = Number.parseInt(id, 10);
+
+  if (Number.isNaN(numericId)) {
+    return NextResponse.json(
+      { message: 'Invalid order ID' },
+      { status: 400 }
+    );
+  }
+
+  const order = await Order.findById(numericId);
+  if (!order) {
+    return NextResponse.json(
+      { message: 'Order not found' },
+      { status: 404 }
+    );
+  }
+
+  return numericId;
+}
+
+/**
+ * GET /api/orders/[id]/tracking-link - Get the order's active tracking link, if any
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const orderId = await resolveOrderId(params);
+    if (orderId instanceof NextResponse) return orderId;
+
+    const link = await OrderTrackingToken.findActiveForOrder(orderId);
+
+    return NextResponse.json({ link });
+  } catch (error: unknown) {
+    logger.error('GET /api/orders/[id]/tracking-link error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch tracking link' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/orders/[id]/tracking-link - Get or create the order's tracking link
+ * Body: { regenerate?: boolean } - issue a new token and disable the old link
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const orderId = await resolveOrderId(params);
+    if (orderId instanceof NextResponse) return orderId;
+
+    const body = await request.json().catch(() => ({}));
+    const link = body.regenerate === true
+      ? await OrderTrackingToken.regenerateForOrder(orderId)
+      : await OrderTrackingToken.getOrCreateForOrder(orderId);
+
+    logger.info('Tracking link issued', { orderId, regenerated: body.regenerate === true });
+
+    return NextResponse.json(link);
+  } catch (error: unknown) {
+    logger.error('POST /api/orders/[id]/tracking-link error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to create tracking link' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/orders/[id]/tracking-link - Disable the order's tracking link
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const orderId = await resolveOrderId(params);
+    if (orderId instanceof NextResponse) return orderId;
+
+    await OrderTrackingToken.revokeForOrder(orderId);
+
+    logger.info('Tracking link revoked', { orderId });
+
+    return NextResponse.json({ message: 'Tracking link disabled' });
+  } catch (error: unknown) {
+    logger.error('DELETE /api/orders/[id]/tracking-link error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to disable tracking link' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
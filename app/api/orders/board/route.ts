@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import Order from '@/lib/models/Order';
+import { createLogger } from '@/lib/utils/logger';
+import { ORDER_BOARD_RECENT_DAYS } from '@/lib/utils/orderBoard';
+
+const logger = createLogger('OrderBoardAPI');
+
+// Disable Next.js caching; the board is not cached in Redis either so moves show up at once
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/** Most cards the board loads */
+const BOARD_ORDER_LIMIT = 500;
+
+/**
+ * GET /api/orders/board - Get the orders on the production board
+ * Orders in production or in transit, plus those delivered or cancelled in the
+ * last ORDER_BOARD_RECENT_DAYS days, each with a design thumbnail.
+ */
+export async function GET() {
+  try {
+    const recentSince = new Date(Date.now() - ORDER_BOARD_RECENT_DAYS * 24 * 60 * 60 * 1000);
+    const orders = await Order.findBoardOrders(recentSince, BOARD_ORDER_LIMIT);
+
+    logger.debug('Returning board orders', { orderCount: orders.length });
+
+    return NextResponse.json({
+      items: orders,
+      recentDays: ORDER_BOARD_RECENT_DAYS,
+      truncated: orders.length === BOARD_ORDER_LIMIT,
+    });
+  } catch (error: unknown) {
+    logger.error('GET /api/orders/board error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch board orders' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
 import { inArray } from 'drizzle-orm';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import { getDatabase } from '@/lib/db/connection';
-import { orders, orderItems } from '@/lib/db/schema';
+import { orders, orderItems, invoices } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
 import AuditLog from '@/lib/models/AuditLog';
 import { createLogger } from '@/lib/utils/logger';
@@ -22,7 +21,7 @@ interface BulkDeleteRequest {
 export async function POST(request: NextRequest) {
   try {
     // Validate user authentication
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     if (!session?.user) {
       return NextResponse.json(
         { message: 'Unauthorized' },
@@ -61,6 +60,24 @@ export async function POST(request: NextRequest) {
     let deletedOrderIds: number[] = [];
 
     if (permanent) {
+      // Issued invoices keep their order; removing it would leave a gap in the invoice series
+      const invoiced = await executeWithRetry(async () => {
+        const db = getDatabase();
+        return db
+          .select({ orderId: invoices.orderId, invoiceNumber: invoices.invoiceNumber })
+          .from(invoices)
+          .where(inArray(invoices.orderId, orderIds));
+      }, { operationName: 'BulkDeleteOrdersInvoiceCheck' });
+
+      if (invoiced.length > 0) {
+        return NextResponse.json(
+          {
+            message: `Orders with issued invoices cannot be permanently deleted (${invoiced.map((row: { invoiceNumber: string }) => row.invoiceNumber).join(', ')})`,
+          },
+          { status: 409 }
+        );
+      }
+
       // Permanent delete - actually remove from database
       const result = await executeWithRetry(async () => {
         const db = getDatabase();
@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { inArray } from 'drizzle-orm';
-import { authOptions } from '@/lib/auth';
+import { eq, inArray } from 'drizzle-orm';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import { getDatabase } from '@/lib/db/connection';
 import { orders } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
 import AuditLog from '@/lib/models/AuditLog';
+import type { OrderStatus, PaymentStatus } from '@/types';
 import { createLogger } from '@/lib/utils/logger';
+import { invalidateOrderCache } from '@/lib/middleware/cache';
+import { isValidLifecycleValue, ORDER_TRANSITIONS, MANUAL_PAYMENT_STATUSES } from '@/lib/utils/orderLifecycle';
+import { planOrderTransition, applyTransitionEffects } from '@/lib/services/orderLifecycleService';
 
 const logger = createLogger('BulkUpdateOrdersAPI');
 
 // Allowed fields for bulk update
-const ALLOWED_STATUS_VALUES = ['pending', 'processing', 'completed', 'cancelled', 'deleted'];
-const ALLOWED_PAYMENT_STATUS_VALUES = ['unpaid', 'partially_paid', 'paid', 'cash_on_delivery', 'refunded'];
+const ALLOWED_STATUS_VALUES = Object.keys(ORDER_TRANSITIONS.status);
+// Paid and partially paid are derived from the payments ledger
+const ALLOWED_PAYMENT_STATUS_VALUES: string[] = MANUAL_PAYMENT_STATUSES;
 
 interface BulkUpdateRequest {
   orderIds: number[];
@@ -28,7 +32,7 @@ interface BulkUpdateRequest {
 export async function POST(request: NextRequest) {
   try {
     // Validate user authentication
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     if (!session?.user) {
       return NextResponse.json(
         { message: 'Unauthorized' },
@@ -62,7 +66,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate update values
-    if (updates.status !== undefined && !ALLOWED_STATUS_VALUES.includes(updates.status)) {
+    if (updates.status !== undefined && !isValidLifecycleValue('status', updates.status)) {
       return NextResponse.json(
         { message: `Invalid status value. Allowed: ${ALLOWED_STATUS_VALUES.join(', ')}` },
         { status: 400 }
@@ -76,29 +80,75 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Perform bulk update in a transaction
-    const result = await executeWithRetry(async () => {
+    // Validate every order against the lifecycle before touching any of them
+    const currentOrders = await executeWithRetry(async () => {
       const db = getDatabase();
-
-      // Build update object with only provided fields
-      const updateData: Record<string, string> = {};
-      if (updates.status !== undefined) {
-        updateData.status = updates.status;
-      }
-      if (updates.paymentStatus !== undefined) {
-        updateData.paymentStatus = updates.paymentStatus;
+      return db
+        .select({
+          id: orders.id,
+          orderId: orders.orderId,
+          status: orders.status,
+          paymentStatus: orders.paymentStatus,
+          deliveryStatus: orders.deliveryStatus,
+          confirmationStatus: orders.confirmationStatus,
+          actualDeliveryDate: orders.actualDeliveryDate,
+        })
+        .from(orders)
+        .where(inArray(orders.id, orderIds));
+    }, { operationName: 'BulkUpdateOrders.load' });
+
+    const transitions = [];
+    const rejected: Array<{ id: number; orderId: string; message: string }> = [];
+
+    for (const order of currentOrders) {
+      try {
+        const transition = planOrderTransition(order, {
+          status: updates.status as OrderStatus | undefined,
+          paymentStatus: updates.paymentStatus as PaymentStatus | undefined,
+        });
+        transitions.push({ id: order.id, order, transition });
+      } catch (error: unknown) {
+        rejected.push({
+          id: order.id,
+          orderId: order.orderId,
+          message: error instanceof Error ? error.message : 'Transition not allowed',
+        });
       }
+    }
 
-      // Execute the bulk update
-      const updateResult = await db
-        .update(orders)
-        .set(updateData)
-        .where(inArray(orders.id, orderIds))
-        .returning({ id: orders.id });
+    if (rejected.length > 0) {
+      return NextResponse.json(
+        {
+          message: `${rejected.length} order(s) cannot be updated: ${rejected.map(r => `${r.orderId} (${r.message})`).join('; ')}`,
+          rejected,
+        },
+        { status: 409 }
+      );
+    }
 
-      return updateResult;
+    // Apply all changes atomically; each order may carry different implied changes
+    const pending = transitions.filter(t => Object.keys(t.transition.changes).length > 0);
+    const result = await executeWithRetry(async () => {
+      const db = getDatabase();
+      if (pending.length === 0) return [];
+
+      const [first, ...rest] = pending.map(({ id, transition }) =>
+        db
+          .update(orders)
+          .set(transition.changes)
+          .where(eq(orders.id, id))
+          .returning({ id: orders.id })
+      );
+      const batchResult = await db.batch([first, ...rest]);
+      return batchResult.flat();
     }, { operationName: 'BulkUpdateOrders' });
 
+    for (const { order, transition } of pending) {
+      await applyTransitionEffects(order, transition, user);
+    }
+
+    await invalidateOrderCache();
+
     const updatedCount = result.length;
 
     // Log to audit_logs
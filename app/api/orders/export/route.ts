@@ -2,8 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import ImportExportService from '@/lib/services/importExportService';
 import AuditLog from '@/lib/models/AuditLog';
 import { createLogger } from '@/lib/utils/logger';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 
 const logger = createLogger('OrdersExportAPI');
 
@@ -38,7 +37,7 @@ const ORDER_EXPORT_COLUMNS = [
 export async function GET(request: NextRequest) {
   try {
     // Get user session for audit
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     const user = session?.user ? {
       id: (session.user as any).dbUserId as number | undefined,
       email: session.user.email || undefined,
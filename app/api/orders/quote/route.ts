@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { parsePricingOptions, quoteOrder } from '@/lib/services/orderPricingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('OrderQuoteAPI');
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/orders/quote - Price an order without creating it
+ * Body: { items: [{ itemId, quantity }], customerId?, discountAmount?, shippingAmount?,
+ *         pricesIncludeTax?, placeOfSupply?, promotionCode?, redeemPoints? }
+ * Returns the same subtotal, discount, GST and shipping breakdown that POST /api/orders stores.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { message: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { items, customerId } = body;
+
+    if (!Array.isArray(items)) {
+      return NextResponse.json(
+        { message: 'items must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const lines = [];
+    for (const line of items) {
+      const quantity = Number.parseInt(line?.quantity, 10);
+      if (!line?.itemId || Number.isNaN(quantity) || quantity <= 0) {
+        return NextResponse.json(
+          { message: 'Each item must have itemId and a positive quantity' },
+          { status: 400 }
+        );
+      }
+      lines.push({ itemId: line.itemId, quantity });
+    }
+
+    const quote = await quoteOrder(
+      lines,
+      parsePricingOptions(body),
+      typeof customerId === 'string' ? customerId.trim() : null
+    );
+
+    return NextResponse.json(quote);
+  } catch (error: unknown) {
+    logger.error('POST /api/orders/quote error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to price order' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -1,11 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import Order from '@/lib/models/Order';
 import Item from '@/lib/models/Item';
+import WorkOrder from '@/lib/models/WorkOrder';
+import { PAYMENT_METHOD_VALUES } from '@/lib/models/OrderPayment';
 import { createLogger } from '@/lib/utils/logger';
 import { invalidateOrderCache } from '@/lib/middleware/cache';
 import { getRedisClient, getRedisIfReady } from '@/lib/db/redisClient';
 import { getCacheVersion, CACHE_VERSION_KEYS } from '@/lib/middleware/cache';
 import { PAGINATION } from '@/lib/constants/paginationConstants';
+import { parsePricingOptions, priceOrder } from '@/lib/services/orderPricingService';
+import { resolveOrderAddress } from '@/lib/services/customerContactService';
+import { reconcileOrderLoyalty } from '@/lib/services/loyaltyService';
+import { emitWebhookEvent, emitLowStockEvents } from '@/lib/services/webhookService';
+import {
+  parseOrderSearchParams,
+  parseOrderSortParams,
+  hasOrderSearchFilters,
+  getOrderFilterKey,
+  getOrderSearchCacheKey,
+} from '@/lib/services/orderSearchService';
+import type { CustomerAddressSnapshot } from '@/types';
 
 const logger = createLogger('OrdersAPI');
 
@@ -61,7 +76,15 @@ function validateDeliveryDate(expectedDeliveryDate: unknown): { valid: boolean;
 }
 
 /**
- * GET /api/orders - List orders with cursor pagination
+ * GET /api/orders - List and search orders with cursor pagination
+ * Query params (all optional, combined with AND):
+ *   - q: free text over order ID, customer name/ID, address, notes and item names
+ *   - status, paymentStatus, confirmationStatus, deliveryStatus, orderFrom: comma-separated values
+ *   - createdFrom, createdTo, deliveryFrom, deliveryTo: dates (inclusive)
+ *   - itemId, categoryId, tagId, customerId
+ *   - sort, dir: sort key and asc/desc (default: createdAt desc)
+ *   - limit, cursor
+ * The first page also carries the total and per-facet counts.
  * Uses Redis caching with version control for proper invalidation
  */
 export async function GET(request: NextRequest) {
@@ -71,16 +94,20 @@ export async function GET(request: NextRequest) {
     
     const { searchParams } = new URL(request.url);
     const { limit, cursor } = parseCursorParams(searchParams);
+    const filters = parseOrderSearchParams(searchParams);
+    const sort = parseOrderSortParams(searchParams);
+    const isFiltered = hasOrderSearchFilters(filters);
     
     logger.debug('GET /api/orders request', { 
       hasCursorParam: !!searchParams.get('cursor'),
       hasLimitParam: searchParams.has('limit'),
-      limitValue: searchParams.get('limit')
+      limitValue: searchParams.get('limit'),
+      isFiltered
     });
     
     // Generate cache key
     const cacheKey = redis ? 
-      `v${await getCacheVersion(redis, CACHE_VERSION_KEYS.ORDERS)}:GET:${request.url}` : 
+      `v${await getCacheVersion(redis, CACHE_VERSION_KEYS.ORDERS)}:${getOrderSearchCacheKey(filters, limit, cursor, sort)}` : 
       null;
     
     // Try cache if available
@@ -95,8 +122,17 @@ export async function GET(request: NextRequest) {
     }
     
     // Use cursor-based pagination for stable infinite scroll
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await Order.findCursorPaginated({ limit, cursor: cursor as any });
+    const [result, facetResult] = await Promise.all([
+      Order.findCursorPaginated({
+        limit,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        cursor: cursor as any,
+        filters,
+        sort,
+        filterKey: getOrderFilterKey(filters, sort),
+      }),
+      cursor ? null : Order.getSearchFacets(filters),
+    ]);
     
     logger.debug('Returning cursor-paginated orders', {
       orderCount: result.orders.length,
@@ -107,11 +143,12 @@ export async function GET(request: NextRequest) {
     // Standardized response format: {items: [], pagination: {}}
     const response = {
       items: result.orders,
-      pagination: result.pagination
+      pagination: result.pagination,
+      ...(facetResult ? { total: facetResult.total, facets: facetResult.facets } : {})
     };
     
-    // Cache the result
-    if (cacheKey && redis && result.orders.length > 0) {
+    // Cache the result; searches are cached even when nothing matches
+    if (cacheKey && redis && (result.orders.length > 0 || isFiltered)) {
       await redis.setEx(cacheKey, 86400, JSON.stringify(response)); // 24 hour cache
     }
     
@@ -131,19 +168,30 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/orders - Create a new order
+ * Stock for tracked items is reserved in the same transaction and deducted when
+ * the order ships. Pass allowBackorder: true to accept the order when stock is
+ * short; otherwise the request fails with 409. The total is computed from catalogue prices,
+ * discountAmount, shippingAmount, pricesIncludeTax and placeOfSupply.
+ * customerAddressId picks one of the customer's saved addresses: the order keeps a
+ * copy of it as address and addressSnapshot, and its state is the default place of supply.
+ * redeemPoints spends the customer's loyalty points as a discount, and paying up front
+ * with store_credit takes the paid amount from their store credit.
  */
 export async function POST(request: NextRequest) {
   try {
+    const session = await getRequestSession(request);
     const body = await request.json();
     const {
       orderFrom,
       customerName,
       customerId,
       address,
+      customerAddressId,
       items,
       status,
       paymentStatus,
       paidAmount,
+      paymentMethod,
       confirmationStatus,
       customerNotes,
       priority,
@@ -152,7 +200,8 @@ export async function POST(request: NextRequest) {
       deliveryStatus,
       trackingId,
       deliveryPartner,
-      actualDeliveryDate
+      actualDeliveryDate,
+      allowBackorder
     } = body;
 
     // Validate required fields
@@ -203,8 +252,7 @@ export async function POST(request: NextRequest) {
     const itemIds = parsedItems.map(i => i.itemId);
     const itemsMap = await Item.findByIds(itemIds);
     
-    // Validate items and calculate total
-    let totalPrice = 0;
+    // Validate items; pricing below applies discount, GST and shipping
     const validatedItems = [];
 
     for (const parsedItem of parsedItems) {
@@ -221,11 +269,35 @@ export async function POST(request: NextRequest) {
         designId: parsedItem.designId || null,
         name: item.name,
         price: item.price,
+        hsnCode: item.hsnCode || null,
+        taxRate: item.taxRate,
         quantity: parsedItem.quantity,
         customizationRequest: parsedItem.customizationRequest?.trim() || ''
       });
+    }
+
+    const savedAddress = await resolveOrderAddress(customerAddressId, customerId.trim());
+
+    // Without an explicit place of supply, GST follows the state of the saved address
+    const pricing = parsePricingOptions(body);
+    pricing.placeOfSupply ??= savedAddress?.addressSnapshot.state ?? null;
 
-      totalPrice += item.price * parsedItem.quantity;
+    const { lines: pricedItems, quote } = await priceOrder(validatedItems, pricing, customerId.trim());
+    const totalPrice = quote.totalPrice;
+
+    // Validate the amount paid up front; it is recorded as the order's first payment
+    const parsedPaidAmount = paidAmount ? Number.parseFloat(paidAmount) : 0;
+    if (Number.isNaN(parsedPaidAmount) || parsedPaidAmount < 0 || parsedPaidAmount > totalPrice) {
+      return NextResponse.json(
+        { message: 'Paid amount must be between 0 and the order total' },
+        { status: 400 }
+      );
+    }
+    if (paymentMethod !== undefined && !PAYMENT_METHOD_VALUES.includes(paymentMethod)) {
+      return NextResponse.json(
+        { message: `Invalid payment method. Must be one of: ${PAYMENT_METHOD_VALUES.join(', ')}` },
+        { status: 400 }
+      );
     }
 
     const orderData: {
@@ -233,17 +305,37 @@ export async function POST(request: NextRequest) {
       customerName: string;
       customerId: string;
       address: string;
+      customerAddressId: number | null;
+      addressSnapshot: CustomerAddressSnapshot | null;
       totalPrice: number;
+      subtotal: number;
+      discountAmount: number;
+      taxAmount: number;
+      cgstAmount: number;
+      sgstAmount: number;
+      igstAmount: number;
+      shippingAmount: number;
+      pricesIncludeTax: boolean;
+      placeOfSupply: string | null;
+      promotionId: number | null;
+      promotionCode: string | null;
+      promotionDiscount: number;
+      loyaltyPointsRedeemed: number;
+      loyaltyDiscount: number;
       items: Array<{
         item: number;
         name: string;
         price: number;
+        taxRate: number | null;
+        taxableValue: number;
+        taxAmount: number;
         quantity: number;
         customizationRequest: string;
       }>;
       status: string;
       paymentStatus: string;
       paidAmount: number;
+      paymentMethod?: string;
       confirmationStatus: string;
       customerNotes: string;
       priority: number;
@@ -257,12 +349,29 @@ export async function POST(request: NextRequest) {
       orderFrom,
       customerName: customerName.trim(),
       customerId: customerId.trim(),
-      address: address?.trim() || '',
+      address: savedAddress?.address ?? (address?.trim() || ''),
+      customerAddressId: savedAddress?.customerAddressId ?? null,
+      addressSnapshot: savedAddress?.addressSnapshot ?? null,
       totalPrice,
-      items: validatedItems,
+      subtotal: quote.subtotal,
+      discountAmount: quote.discountAmount,
+      taxAmount: quote.taxAmount,
+      cgstAmount: quote.cgstAmount,
+      sgstAmount: quote.sgstAmount,
+      igstAmount: quote.igstAmount,
+      shippingAmount: quote.shippingAmount,
+      pricesIncludeTax: quote.pricesIncludeTax,
+      placeOfSupply: quote.placeOfSupply,
+      promotionId: quote.promotion?.id ?? null,
+      promotionCode: quote.promotion?.code ?? null,
+      promotionDiscount: quote.promotionDiscount,
+      loyaltyPointsRedeemed: quote.loyaltyPointsRedeemed,
+      loyaltyDiscount: quote.loyaltyDiscount,
+      items: pricedItems,
       status: status || 'pending',
       paymentStatus: paymentStatus || 'unpaid',
-      paidAmount: paidAmount ? Number.parseFloat(paidAmount) : 0,
+      paidAmount: parsedPaidAmount,
+      paymentMethod,
       confirmationStatus: confirmationStatus || 'unconfirmed',
       customerNotes: customerNotes || '',
       priority: priority !== undefined ? Number.parseInt(priority, 10) : 0,
@@ -274,10 +383,38 @@ export async function POST(request: NextRequest) {
       actualDeliveryDate: actualDeliveryDate ? new Date(actualDeliveryDate) : null
     };
 
-    const newOrder = await Order.create(orderData);
+    const newOrder = await Order.create(orderData, {
+      stockPolicy: allowBackorder === true ? 'backorder' : 'reject',
+      userId: session?.user?.dbUserId,
+      userEmail: session?.user?.email || undefined,
+      onCustomerCreated: customer => emitWebhookEvent('customer.created', { customer }),
+    });
+
+    // An order paid in full at checkout earns its points straight away
+    if (newOrder.paymentStatus === 'paid') {
+      await reconcileOrderLoyalty(newOrder._id, {
+        id: session?.user?.dbUserId,
+        email: session?.user?.email || undefined,
+        name: session?.user?.name || undefined,
+      });
+    }
     
     // Invalidate order cache after creation
     await invalidateOrderCache();
+
+    if (newOrder.confirmationStatus === 'confirmed') {
+      await WorkOrder.generateForConfirmedOrders(newOrder._id);
+    }
+
+    await emitWebhookEvent('order.created', { order: newOrder });
+    // Orders that have not shipped only reserve stock; it leaves the shelf when they ship
+    if (newOrder.deliveryStatus !== 'not_shipped') {
+      await emitLowStockEvents(newOrder.items.map((line: { item: number; designId: number | null; quantity: number; backorderedQuantity: number }) => ({
+        itemId: line.item,
+        designId: line.designId,
+        quantity: line.quantity - line.backorderedQuantity,
+      })));
+    }
     
     logger.info('Order created', { orderId: newOrder._id, orderIdStr: newOrder.orderId });
     
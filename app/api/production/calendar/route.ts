@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildProductionCalendar, parseCalendarRange } from '@/lib/services/productionCalendarService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('ProductionCalendarAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/production/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Open orders by expected delivery date, with each day's capacity and load
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { from, to } = parseCalendarRange(new URL(request.url).searchParams);
+    const calendar = await buildProductionCalendar(from, to);
+
+    return NextResponse.json(calendar);
+  } catch (error: unknown) {
+    logger.error('GET /api/production/calendar error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to load production calendar' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
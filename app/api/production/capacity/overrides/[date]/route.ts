@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import ProductionCapacity from '@/lib/models/ProductionCapacity';
+import { parseCapacityDate, parseCapacityOverrideInput } from '@/lib/services/productionCalendarService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('ProductionCapacityOverrideAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ date: string }>;
+}
+
+/**
+ * PUT /api/production/capacity/overrides/[date] - Set one day's capacity (admin only)
+ * Body: { capacity, note? }; use 0 to close the workshop for the day
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { date } = await params;
+    const body = await request.json();
+    const { date: day, ...data } = parseCapacityOverrideInput(date, body);
+    const override = await ProductionCapacity.setOverride(day, data, session.user.dbUserId);
+
+    logger.info('Production capacity override set', { date: day, capacity: override.capacity });
+
+    return NextResponse.json(override);
+  } catch (error: unknown) {
+    logger.error('PUT /api/production/capacity/overrides/[date] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to set capacity override' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/production/capacity/overrides/[date] - Go back to the weekday's capacity (admin only)
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const date = parseCapacityDate((await params).date);
+    const deleted = await ProductionCapacity.deleteOverride(date);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Override not found' }, { status: 404 });
+    }
+
+    logger.info('Production capacity override removed', { date });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    logger.error('DELETE /api/production/capacity/overrides/[date] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to remove capacity override' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import ProductionCapacity from '@/lib/models/ProductionCapacity';
+import { parseCapacitySettingsInput } from '@/lib/services/productionCalendarService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('ProductionCapacityAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/production/capacity - Get the daily production capacity
+ */
+export async function GET() {
+  try {
+    const settings = await ProductionCapacity.getSettings();
+
+    return NextResponse.json(settings);
+  } catch (error: unknown) {
+    logger.error('GET /api/production/capacity error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch production capacity' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/production/capacity - Set the daily production capacity (admin only)
+ * Body: { unit: 'orders' | 'units', weekdayCapacity: number[7] (Monday first), minLeadDays }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const settings = await ProductionCapacity.updateSettings(parseCapacitySettingsInput(body), session.user.dbUserId);
+
+    logger.info('Production capacity updated', { unit: settings.unit, weekdayCapacity: settings.weekdayCapacity });
+
+    return NextResponse.json(settings);
+  } catch (error: unknown) {
+    logger.error('PUT /api/production/capacity error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update production capacity' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { suggestDeliveryDate } from '@/lib/services/productionCalendarService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('DeliveryDateSuggestionAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/production/suggest-date?units=N
+ * Earliest expected delivery date with room for a new order of N units
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const unitsParam = new URL(request.url).searchParams.get('units') || '1';
+    const units = Number.parseInt(unitsParam, 10);
+    if (Number.isNaN(units) || units < 1) {
+      return NextResponse.json({ message: 'units must be a positive integer' }, { status: 400 });
+    }
+
+    const suggestion = await suggestDeliveryDate(units);
+
+    return NextResponse.json(suggestion);
+  } catch (error: unknown) {
+    logger.error('GET /api/production/suggest-date error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to suggest a delivery date' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
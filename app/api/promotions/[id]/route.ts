@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import Promotion from '@/lib/models/Promotion';
+import { parsePromotionInput } from '@/lib/services/promotionService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('PromotionByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/promotions/[id] - Get a promotion
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const promotionId = Number.parseInt(id, 10);
+    if (Number.isNaN(promotionId)) {
+      return NextResponse.json({ message: 'Invalid promotion ID' }, { status: 400 });
+    }
+
+    const promotion = await Promotion.findById(promotionId);
+    if (!promotion) {
+      return NextResponse.json({ message: 'Promotion not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(promotion);
+  } catch (error: unknown) {
+    logger.error('GET /api/promotions/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch promotion' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/promotions/[id] - Update a promotion (admin only)
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const promotionId = Number.parseInt(id, 10);
+    if (Number.isNaN(promotionId)) {
+      return NextResponse.json({ message: 'Invalid promotion ID' }, { status: 400 });
+    }
+
+    const existing = await Promotion.findById(promotionId);
+    if (!existing) {
+      return NextResponse.json({ message: 'Promotion not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const promotion = await Promotion.update(promotionId, parsePromotionInput(body, existing));
+
+    logger.info('Promotion updated', { promotionId });
+
+    return NextResponse.json(promotion);
+  } catch (error: unknown) {
+    logger.error('PUT /api/promotions/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update promotion' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/promotions/[id] - Delete an unused promotion (admin only)
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const promotionId = Number.parseInt(id, 10);
+    if (Number.isNaN(promotionId)) {
+      return NextResponse.json({ message: 'Invalid promotion ID' }, { status: 400 });
+    }
+
+    const deleted = await Promotion.delete(promotionId);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Promotion not found' }, { status: 404 });
+    }
+
+    logger.info('Promotion deleted', { promotionId });
+
+    return NextResponse.json({ message: 'Promotion deleted successfully' });
+  } catch (error: unknown) {
+    logger.error('DELETE /api/promotions/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to delete promotion' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
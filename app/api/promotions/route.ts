@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import Promotion from '@/lib/models/Promotion';
+import { parsePromotionInput } from '@/lib/services/promotionService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('PromotionsAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/promotions - List all promotions
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const promotions = await Promotion.findAll();
+
+    return NextResponse.json({ items: promotions });
+  } catch (error: unknown) {
+    logger.error('GET /api/promotions error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch promotions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/promotions - Create a promotion (admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const promotion = await Promotion.create(parsePromotionInput(body));
+
+    logger.info('Promotion created', { promotionId: promotion.id, code: promotion.code });
+
+    return NextResponse.json(promotion, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/promotions error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to create promotion' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import Feedback from '@/lib/models/Feedback';
 import FeedbackToken from '@/lib/models/FeedbackToken';
 import Order from '@/lib/models/Order';
+import { emitWebhookEvent } from '@/lib/services/webhookService';
 import { createLogger } from '@/lib/utils/logger';
 import {
   MIN_RATING,
@@ -125,6 +126,8 @@ export async function POST(request: NextRequest) {
     
     // Mark token as used
     await FeedbackToken.markAsUsed(token);
+
+    await emitWebhookEvent('feedback.submitted', { feedback: newFeedback });
     
     logger.info('Public feedback created', { feedbackId: newFeedback.id, orderId: tokenData.orderId });
     
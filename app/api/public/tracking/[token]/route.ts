@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import OrderTrackingToken from '@/lib/models/OrderTrackingToken';
+import { buildPublicTracking } from '@/lib/services/orderTrackingService';
+import { createLogger } from '@/lib/utils/logger';
+
+// Disable Next.js caching - tracking must reflect the latest delivery status
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const logger = createLogger('PublicTrackingAPI');
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * GET /api/public/tracking/[token] - Customer-facing order status for a tracking link
+ * No authentication; the token is the credential. Only the fields in
+ * PublicOrderTracking are returned.
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+
+    const tokenData = token ? await OrderTrackingToken.validateToken(token) : null;
+    if (!tokenData) {
+      return NextResponse.json(
+        { message: 'This tracking link is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    const tracking = await buildPublicTracking(tokenData.orderId);
+    if (!tracking) {
+      return NextResponse.json(
+        { message: 'This tracking link is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(tracking, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error: unknown) {
+    logger.error('GET /api/public/tracking/[token] error', error);
+    return NextResponse.json(
+      { message: 'Failed to load order tracking' },
+      { status: 500 }
+    );
+  }
+}
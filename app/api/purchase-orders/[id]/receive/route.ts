@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { receivePurchaseOrder } from '@/lib/services/purchasingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('PurchaseOrderReceiveAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/purchase-orders/[id]/receive - Receive goods into stock
+ * Body: { lines?: [{ lineId, quantity }], notes? }
+ *
+ * Without lines, everything still outstanding is received. Each received line is
+ * posted to stock as a restock referencing the purchase order, and the item's
+ * costPrice becomes the weighted average of the stock on hand and the units received.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const purchaseOrderId = Number.parseInt(id, 10);
+    if (Number.isNaN(purchaseOrderId)) {
+      return NextResponse.json({ message: 'Invalid purchase order ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await receivePurchaseOrder(purchaseOrderId, body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+    });
+    if (!result) {
+      return NextResponse.json({ message: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    logger.error('POST /api/purchase-orders/[id]/receive error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to receive purchase order' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import PurchaseOrder from '@/lib/models/PurchaseOrder';
+import { setPurchaseOrderStatus, updatePurchaseOrder } from '@/lib/services/purchasingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('PurchaseOrderByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/purchase-orders/[id] - Get a purchase order with its lines
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const purchaseOrderId = Number.parseInt(id, 10);
+    if (Number.isNaN(purchaseOrderId)) {
+      return NextResponse.json({ message: 'Invalid purchase order ID' }, { status: 400 });
+    }
+
+    const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+    if (!purchaseOrder) {
+      return NextResponse.json({ message: 'Purchase order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error: unknown) {
+    logger.error('GET /api/purchase-orders/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/purchase-orders/[id] - Edit a purchase order (admin only)
+ * Body: any of { supplierId, expectedDate, notes, lines }. Supplier and lines can only
+ * change on drafts; 409 otherwise.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const purchaseOrderId = Number.parseInt(id, 10);
+    if (Number.isNaN(purchaseOrderId)) {
+      return NextResponse.json({ message: 'Invalid purchase order ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const purchaseOrder = await updatePurchaseOrder(purchaseOrderId, body);
+    if (!purchaseOrder) {
+      return NextResponse.json({ message: 'Purchase order not found' }, { status: 404 });
+    }
+
+    logger.info('Purchase order updated', { purchaseOrderId });
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error: unknown) {
+    logger.error('PUT /api/purchase-orders/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update purchase order' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/purchase-orders/[id] - Place or cancel a purchase order (admin only)
+ * Body: { status: 'ordered' | 'cancelled' }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const purchaseOrderId = Number.parseInt(id, 10);
+    if (Number.isNaN(purchaseOrderId)) {
+      return NextResponse.json({ message: 'Invalid purchase order ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const purchaseOrder = await setPurchaseOrderStatus(purchaseOrderId, body.status);
+    if (!purchaseOrder) {
+      return NextResponse.json({ message: 'Purchase order not found' }, { status: 404 });
+    }
+
+    logger.info('Purchase order status changed', { purchaseOrderId, status: purchaseOrder.status });
+
+    return NextResponse.json(purchaseOrder);
+  } catch (error: unknown) {
+    logger.error('PATCH /api/purchase-orders/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update purchase order' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import PurchaseOrder from '@/lib/models/PurchaseOrder';
+import type { PurchaseOrderFilter } from '@/lib/models/PurchaseOrder';
+import { parsePurchaseOrderInput, requireItems, requireSupplier } from '@/lib/services/purchasingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('PurchaseOrdersAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const FILTERS: PurchaseOrderFilter[] = ['active', 'open', 'closed', 'all'];
+
+/**
+ * GET /api/purchase-orders - List purchase orders with their lines
+ * Query params:
+ *   - status: 'active' (drafts and open, default), 'open' (ordered or partially received),
+ *     'closed' (received or cancelled) or 'all'
+ *   - supplierId: only this supplier's orders
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'active') as PurchaseOrderFilter;
+    if (!FILTERS.includes(status)) {
+      return NextResponse.json({ message: `status must be one of: ${FILTERS.join(', ')}` }, { status: 400 });
+    }
+    const supplierId = searchParams.get('supplierId') ? Number.parseInt(searchParams.get('supplierId')!, 10) : undefined;
+    if (supplierId !== undefined && Number.isNaN(supplierId)) {
+      return NextResponse.json({ message: 'Invalid supplier ID' }, { status: 400 });
+    }
+
+    const purchaseOrders = await PurchaseOrder.find(status, { supplierId });
+
+    return NextResponse.json({ purchaseOrders });
+  } catch (error: unknown) {
+    logger.error('GET /api/purchase-orders error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/purchase-orders - Create a draft purchase order (admin only)
+ * Body: { supplierId, expectedDate?: 'YYYY-MM-DD', notes?, lines: [{ itemId, quantityOrdered, unitCost }] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = parsePurchaseOrderInput(body);
+    await requireSupplier(data.supplierId!);
+    await requireItems(data.lines!);
+
+    const purchaseOrder = await PurchaseOrder.create(
+      { supplierId: data.supplierId!, expectedDate: data.expectedDate, notes: data.notes, lines: data.lines! },
+      session.user.dbUserId
+    );
+
+    logger.info('Purchase order created', { purchaseOrderId: purchaseOrder.id, supplierId: data.supplierId });
+
+    return NextResponse.json(purchaseOrder, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/purchase-orders error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to create purchase order' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -3,8 +3,7 @@ import ImportExportService from '@/lib/services/importExportService';
 import ExcelExportService, { REPORT_COLUMNS } from '@/lib/services/excelExportService';
 import AuditLog from '@/lib/models/AuditLog';
 import { createLogger } from '@/lib/utils/logger';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 
 const logger = createLogger('ReportsExportAPI');
 
@@ -28,7 +27,7 @@ const VALID_REPORT_TYPES: ReportType[] = ['orders', 'salesSummary', 'items', 'cu
  */
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
     const user = session?.user ? {
       id: (session.user as any).dbUserId as number | undefined,
       email: session.user.email || undefined,
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import SavedOrderView from '@/lib/models/SavedOrderView';
+import { parseSavedViewPreferences, withSavedViewCounts } from '@/lib/services/savedViewService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('SavedViewPreferencesAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/saved-views/[id]/preferences - Pin a view or subscribe to it in the daily digest
+ * Body: { pinned?, digestSubscribed? }; applies to the signed-in user only, so shared views work too
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const viewId = Number.parseInt(id, 10);
+    if (Number.isNaN(viewId)) {
+      return NextResponse.json({ message: 'Invalid view ID' }, { status: 400 });
+    }
+
+    const existing = await SavedOrderView.findVisibleById(viewId, session.user.dbUserId);
+    if (!existing) {
+      return NextResponse.json({ message: 'View not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const view = await SavedOrderView.setPreferences(viewId, session.user.dbUserId, parseSavedViewPreferences(body));
+    const [withCount] = await withSavedViewCounts([view]);
+
+    return NextResponse.json(withCount);
+  } catch (error: unknown) {
+    logger.error('PUT /api/saved-views/[id]/preferences error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update view settings' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import SavedOrderView from '@/lib/models/SavedOrderView';
+import { parseSavedViewInput, withSavedViewCounts } from '@/lib/services/savedViewService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('SavedViewByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/saved-views/[id] - Update a view (its owner or an admin)
+ * Body may include any of: name, query, sortKey, sortDirection, isShared
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const viewId = Number.parseInt(id, 10);
+    if (Number.isNaN(viewId)) {
+      return NextResponse.json({ message: 'Invalid view ID' }, { status: 400 });
+    }
+
+    const existing = await SavedOrderView.findVisibleById(viewId, session.user.dbUserId);
+    if (!existing) {
+      return NextResponse.json({ message: 'View not found' }, { status: 404 });
+    }
+    if (!existing.isOwner && session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Only the owner can change this view' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const view = await SavedOrderView.update(viewId, parseSavedViewInput(body, true), session.user.dbUserId);
+    if (!view) {
+      return NextResponse.json({ message: 'View not found' }, { status: 404 });
+    }
+    const [withCount] = await withSavedViewCounts([view]);
+
+    logger.info('Saved view updated', { viewId, userId: session.user.dbUserId });
+
+    return NextResponse.json(withCount);
+  } catch (error: unknown) {
+    logger.error('PUT /api/saved-views/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update view' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/saved-views/[id] - Delete a view (its owner or an admin)
+ * Removes it from everyone's navigation and digest.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const viewId = Number.parseInt(id, 10);
+    if (Number.isNaN(viewId)) {
+      return NextResponse.json({ message: 'Invalid view ID' }, { status: 400 });
+    }
+
+    const existing = await SavedOrderView.findVisibleById(viewId, session.user.dbUserId);
+    if (!existing) {
+      return NextResponse.json({ message: 'View not found' }, { status: 404 });
+    }
+    if (!existing.isOwner && session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Only the owner can delete this view' }, { status: 403 });
+    }
+
+    await SavedOrderView.delete(viewId);
+
+    logger.info('Saved view deleted', { viewId, userId: session.user.dbUserId });
+
+    return NextResponse.json({ message: 'View deleted' });
+  } catch (error: unknown) {
+    logger.error('DELETE /api/saved-views/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to delete view' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import SavedOrderView from '@/lib/models/SavedOrderView';
+import { parseSavedViewInput, withSavedViewCounts } from '@/lib/services/savedViewService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('SavedViewsAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/saved-views - List the signed-in user's views and every shared view
+ * Each view carries the number of orders it matches right now.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const views = await SavedOrderView.findVisible(session.user.dbUserId);
+
+    return NextResponse.json({ items: await withSavedViewCounts(views) });
+  } catch (error: unknown) {
+    logger.error('GET /api/saved-views error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch saved views' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/saved-views - Save the current order history filters as a named view
+ * Body: { name, query, sortKey?, sortDirection?, isShared? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.dbUserId) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const view = await SavedOrderView.create(parseSavedViewInput(body), session.user.dbUserId);
+    const [withCount] = await withSavedViewCounts([view]);
+
+    logger.info('Saved view created', { viewId: view.id, userId: session.user.dbUserId, isShared: view.isShared });
+
+    return NextResponse.json(withCount, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/saved-views error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to save view' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { getRequestSession } from '@/lib/utils/apiAuth';
 import Stock from '@/lib/models/Stock';
 import { createLogger } from '@/lib/utils/logger';
 
@@ -11,23 +10,25 @@ const logger = createLogger('LowStockAPI');
 
 /**
  * GET /api/stock/low - Get only low-stock items for alerts
- * Returns items where stockQuantity <= lowStockThreshold AND trackStock = true
+ * Returns items where stockQuantity <= lowStockThreshold AND trackStock = true,
+ * and designs with their own stock at or below their threshold
  */
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
+    const session = await getRequestSession(request);
 
     if (!session?.user) {
       return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
     }
 
-    const items = await Stock.getLowStockItems();
+    const [items, designs] = await Promise.all([Stock.getLowStockItems(), Stock.getLowStockDesigns()]);
 
-    logger.debug('Low stock items retrieved', { count: items.length });
+    logger.debug('Low stock items retrieved', { count: items.length, designCount: designs.length });
 
     return NextResponse.json({
       items,
       count: items.length,
+      designs,
     });
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to fetch low stock items';
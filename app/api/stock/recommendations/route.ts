@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { applyRecommendedThresholds, getStockRecommendations } from '@/lib/services/replenishmentService';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const logger = createLogger('StockRecommendationsAPI');
+
+/**
+ * GET /api/stock/recommendations - Reorder suggestions for tracked items from sales velocity
+ * Returns { settings, generatedAt, recommendations } with the most urgent items first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await getStockRecommendations();
+
+    logger.debug('Stock recommendations computed', { count: result.recommendations.length });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    logger.error('GET /api/stock/recommendations error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to compute stock recommendations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/stock/recommendations - Set low stock thresholds to the recommended reorder points (admin only)
+ * Body: { itemIds?: number[] } - all tracked items with sales when omitted
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const itemIds = body.itemIds;
+    if (itemIds !== undefined && (!Array.isArray(itemIds) || !itemIds.every(id => Number.isInteger(id) && id > 0))) {
+      return NextResponse.json({ message: 'itemIds must be an array of item IDs' }, { status: 400 });
+    }
+
+    const updated = await applyRecommendedThresholds(itemIds);
+
+    logger.info('Low stock thresholds updated from recommendations', { count: updated.length });
+
+    return NextResponse.json({ updated });
+  } catch (error: unknown) {
+    logger.error('POST /api/stock/recommendations error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update low stock thresholds' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
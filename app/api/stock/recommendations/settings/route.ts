@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import ReplenishmentSettings from '@/lib/models/ReplenishmentSettings';
+import { parseReplenishmentSettingsInput } from '@/lib/services/replenishmentService';
+import { createLogger } from '@/lib/utils/logger';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const logger = createLogger('ReplenishmentSettingsAPI');
+
+/**
+ * GET /api/stock/recommendations/settings - Get the replenishment settings
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const settings = await ReplenishmentSettings.get();
+
+    return NextResponse.json(settings);
+  } catch (error: unknown) {
+    logger.error('GET /api/stock/recommendations/settings error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch replenishment settings' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/stock/recommendations/settings - Set the replenishment settings (admin only)
+ * Body: { shortWindowDays, longWindowDays, safetyStockDays, targetCoverDays, defaultLeadTimeDays,
+ *         autoUpdateThresholds, includeInDigest }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const settings = await ReplenishmentSettings.update(parseReplenishmentSettingsInput(body), session.user.dbUserId);
+
+    logger.info('Replenishment settings updated', settings);
+
+    return NextResponse.json(settings);
+  } catch (error: unknown) {
+    logger.error('PUT /api/stock/recommendations/settings error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update replenishment settings' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
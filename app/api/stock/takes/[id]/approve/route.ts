@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { approveStockTake } from '@/lib/services/stockTakeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('StockTakeApproveAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/stock/takes/[id]/approve - Approve a stock take and correct stock (admin only)
+ * Body: { reason }
+ *
+ * Every counted variance is posted as an adjustment referencing the stock take, with
+ * the reason in its notes; uncounted lines are left alone. The approval and the
+ * corrections commit together, so a correction that would take stock below zero
+ * fails the whole approval with a 409. Returns the approved stock take and the
+ * number of corrections posted.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const stockTakeId = Number.parseInt(id, 10);
+    if (Number.isNaN(stockTakeId)) {
+      return NextResponse.json({ message: 'Invalid stock take ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await approveStockTake(stockTakeId, body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+      name: session.user.name || undefined,
+    });
+    if (!result) {
+      return NextResponse.json({ message: 'Stock take not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    logger.error('POST /api/stock/takes/[id]/approve error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to approve stock take' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { recordStockTakeCounts } from '@/lib/services/stockTakeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('StockTakeCountsAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * PUT /api/stock/takes/[id]/counts - Record counted quantities
+ * Body: { counts: [{ lineId, countedQuantity }] }
+ *
+ * Replaces the count on each line; a null countedQuantity marks the line as not
+ * counted again. Any signed-in user can count.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const stockTakeId = Number.parseInt(id, 10);
+    if (Number.isNaN(stockTakeId)) {
+      return NextResponse.json({ message: 'Invalid stock take ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const stockTake = await recordStockTakeCounts(stockTakeId, body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+    });
+    if (!stockTake) {
+      return NextResponse.json({ message: 'Stock take not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(stockTake);
+  } catch (error: unknown) {
+    logger.error('PUT /api/stock/takes/[id]/counts error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to record counts' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import StockTake from '@/lib/models/StockTake';
+import ExcelExportService, { REPORT_COLUMNS } from '@/lib/services/excelExportService';
+import { createLogger } from '@/lib/utils/logger';
+import type { StockTake as StockTakeEntity } from '@/types';
+
+const logger = createLogger('StockTakeExportAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+type ExportFormat = 'csv' | 'xls';
+
+const VALID_FORMATS: ExportFormat[] = ['csv', 'xls'];
+
+/**
+ * GET /api/stock/takes/[id]/export - Download the variance report
+ * Query params:
+ *   - format: 'csv' (default) or 'xls'
+ *   - variancesOnly: 'true' to leave out lines that match or were not counted
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const stockTakeId = Number.parseInt(id, 10);
+    if (Number.isNaN(stockTakeId)) {
+      return NextResponse.json({ message: 'Invalid stock take ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    if (!VALID_FORMATS.includes(format)) {
+      return NextResponse.json({ message: `format must be one of: ${VALID_FORMATS.join(', ')}` }, { status: 400 });
+    }
+    const variancesOnly = searchParams.get('variancesOnly') === 'true';
+
+    const stockTake = await StockTake.findById(stockTakeId) as StockTakeEntity | null;
+    if (!stockTake) {
+      return NextResponse.json({ message: 'Stock take not found' }, { status: 404 });
+    }
+
+    const lines = (stockTake.lines ?? []).filter(line => !variancesOnly || (line.variance !== null && line.variance !== 0));
+    const report = ExcelExportService.generateReport(
+      lines as unknown as Record<string, unknown>[],
+      REPORT_COLUMNS.stockTakeVariance,
+      format,
+      { title: `${stockTake.stockTakeNumber} ${stockTake.name} – Variance`, sheetName: stockTake.stockTakeNumber }
+    );
+
+    logger.info('Stock take variance report exported', { stockTakeId, format, lines: lines.length });
+
+    const fileName = `${stockTake.stockTakeNumber.toLowerCase()}_variance${report.extension}`;
+    return new NextResponse(report.content, {
+      headers: {
+        'Content-Type': report.mimeType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error: unknown) {
+    logger.error('GET /api/stock/takes/[id]/export error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to export stock take' },
+      { status: 500 }
+    );
+  }
+}
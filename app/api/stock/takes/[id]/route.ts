@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import StockTake from '@/lib/models/StockTake';
+import { cancelStockTake } from '@/lib/services/stockTakeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('StockTakeByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/stock/takes/[id] - Get a stock take with its lines and variances
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const stockTakeId = Number.parseInt(id, 10);
+    if (Number.isNaN(stockTakeId)) {
+      return NextResponse.json({ message: 'Invalid stock take ID' }, { status: 400 });
+    }
+
+    const stockTake = await StockTake.findById(stockTakeId);
+    if (!stockTake) {
+      return NextResponse.json({ message: 'Stock take not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(stockTake);
+  } catch (error: unknown) {
+    logger.error('GET /api/stock/takes/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch stock take' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/stock/takes/[id] - Cancel a stock take (admin only)
+ * Body: { status: 'cancelled' }. Approve through the approve endpoint.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const stockTakeId = Number.parseInt(id, 10);
+    if (Number.isNaN(stockTakeId)) {
+      return NextResponse.json({ message: 'Invalid stock take ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    if (body.status !== 'cancelled') {
+      return NextResponse.json(
+        { message: "status must be 'cancelled'; approve a stock take through the approve endpoint" },
+        { status: 400 }
+      );
+    }
+
+    const stockTake = await cancelStockTake(stockTakeId);
+    if (!stockTake) {
+      return NextResponse.json({ message: 'Stock take not found' }, { status: 404 });
+    }
+
+    logger.info('Stock take cancelled', { stockTakeId });
+
+    return NextResponse.json(stockTake);
+  } catch (error: unknown) {
+    logger.error('PATCH /api/stock/takes/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to cancel stock take' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
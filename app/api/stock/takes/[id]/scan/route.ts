@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import { scanStockTakeCode } from '@/lib/services/stockTakeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('StockTakeScanAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/stock/takes/[id]/scan - Count units by SKU or item ID
+ * Body: { code, quantity?: 1, designId? }
+ *
+ * Adds the quantity to the matching line's count, so several people can scan the
+ * same item at once. Returns the counted line and the stock take's totals; 404 when
+ * the code is not part of the stock take.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const stockTakeId = Number.parseInt(id, 10);
+    if (Number.isNaN(stockTakeId)) {
+      return NextResponse.json({ message: 'Invalid stock take ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const result = await scanStockTakeCode(stockTakeId, body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+    });
+    if (!result) {
+      return NextResponse.json({ message: 'Stock take not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    logger.error('POST /api/stock/takes/[id]/scan error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to record scan' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import StockTake from '@/lib/models/StockTake';
+import type { StockTakeFilter } from '@/lib/models/StockTake';
+import { createStockTake } from '@/lib/services/stockTakeService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('StockTakesAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const FILTERS: StockTakeFilter[] = ['counting', 'closed', 'all'];
+
+/**
+ * GET /api/stock/takes - List stock takes with their count and variance totals
+ * Query params:
+ *   - status: 'counting' (default), 'closed' (approved or cancelled) or 'all'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'counting') as StockTakeFilter;
+    if (!FILTERS.includes(status)) {
+      return NextResponse.json({ message: `status must be one of: ${FILTERS.join(', ')}` }, { status: 400 });
+    }
+
+    const stockTakes = await StockTake.find(status);
+
+    return NextResponse.json({ stockTakes });
+  } catch (error: unknown) {
+    logger.error('GET /api/stock/takes error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch stock takes' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/stock/takes - Start a stock take (admin only)
+ * Body: { name, notes?, itemIds? }
+ *
+ * Snapshots the stock on hand of the given items, or of every tracked item, and of
+ * their designs with their own stock. Counts are compared against this snapshot.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const stockTake = await createStockTake(body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+    });
+
+    return NextResponse.json(stockTake, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/stock/takes error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to start stock take' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
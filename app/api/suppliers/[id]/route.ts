@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import Supplier from '@/lib/models/Supplier';
+import { parseSupplierInput } from '@/lib/services/purchasingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('SupplierByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/suppliers/[id] - Update a supplier (admin only)
+ * Body: any of { name, contactName, email, phone, address, leadTimeDays, paymentTerms, notes }
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const supplierId = Number.parseInt(id, 10);
+    if (Number.isNaN(supplierId)) {
+      return NextResponse.json({ message: 'Invalid supplier ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const supplier = await Supplier.update(supplierId, parseSupplierInput(body, { partial: true }));
+    if (!supplier) {
+      return NextResponse.json({ message: 'Supplier not found' }, { status: 404 });
+    }
+
+    logger.info('Supplier updated', { supplierId });
+
+    return NextResponse.json(supplier);
+  } catch (error: unknown) {
+    logger.error('PUT /api/suppliers/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update supplier' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/suppliers/[id] - Delete a supplier without purchase orders (admin only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const supplierId = Number.parseInt(id, 10);
+    if (Number.isNaN(supplierId)) {
+      return NextResponse.json({ message: 'Invalid supplier ID' }, { status: 400 });
+    }
+
+    const deleted = await Supplier.delete(supplierId);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Supplier not found' }, { status: 404 });
+    }
+
+    logger.info('Supplier deleted', { supplierId });
+
+    return NextResponse.json({ message: 'Supplier deleted' });
+  } catch (error: unknown) {
+    logger.error('DELETE /api/suppliers/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to delete supplier' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
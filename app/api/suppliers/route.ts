@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/lib/utils/apiAuth';
+import Supplier from '@/lib/models/Supplier';
+import { parseSupplierInput } from '@/lib/services/purchasingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('SuppliersAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/suppliers - List suppliers with their open purchase order counts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const suppliers = await Supplier.find();
+
+    return NextResponse.json({ suppliers });
+  } catch (error: unknown) {
+    logger.error('GET /api/suppliers error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch suppliers' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/suppliers - Create a supplier (admin only)
+ * Body: { name, contactName?, email?, phone?, address?, leadTimeDays?, paymentTerms?, notes? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession(request);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const supplier = await Supplier.create(parseSupplierInput(body));
+
+    logger.info('Supplier created', { supplierId: supplier.id, name: supplier.name });
+
+    return NextResponse.json(supplier, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/suppliers error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to create supplier' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
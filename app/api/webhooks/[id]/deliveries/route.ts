@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import WebhookDelivery from '@/lib/models/WebhookDelivery';
+import { createLogger } from '@/lib/utils/logger';
+import type { WebhookDeliveryStatus } from '@/types';
+
+const logger = createLogger('WebhookDeliveriesAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/webhooks/[id]/deliveries - Delivery log for an endpoint, newest first (admin only)
+ * Query params: status, limit (max 100), offset
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const webhookId = Number.parseInt(id, 10);
+    if (Number.isNaN(webhookId)) {
+      return NextResponse.json({ message: 'Invalid webhook ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const limit = Math.min(Number.parseInt(searchParams.get('limit') || '50', 10) || 50, 100);
+    const offset = Math.max(Number.parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { message: `Invalid status. Must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await WebhookDelivery.findByEndpoint(webhookId, {
+      limit,
+      offset,
+      status: (status as WebhookDeliveryStatus) || undefined,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    logger.error('GET /api/webhooks/[id]/deliveries error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch deliveries' },
+      { status: 500 }
+    );
+  }
+}
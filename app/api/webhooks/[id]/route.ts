@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import WebhookEndpoint from '@/lib/models/WebhookEndpoint';
+import { parseWebhookInput } from '@/lib/services/webhookService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('WebhookByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/webhooks/[id] - Get a webhook endpoint (admin only)
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const webhookId = Number.parseInt(id, 10);
+    if (Number.isNaN(webhookId)) {
+      return NextResponse.json({ message: 'Invalid webhook ID' }, { status: 400 });
+    }
+
+    const endpoint = await WebhookEndpoint.findById(webhookId);
+    if (!endpoint) {
+      return NextResponse.json({ message: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(endpoint);
+  } catch (error: unknown) {
+    logger.error('GET /api/webhooks/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/webhooks/[id] - Update a webhook endpoint (admin only)
+ * Body may include rotateSecret: true to issue a new signing secret
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const webhookId = Number.parseInt(id, 10);
+    if (Number.isNaN(webhookId)) {
+      return NextResponse.json({ message: 'Invalid webhook ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const endpoint = await WebhookEndpoint.update(webhookId, parseWebhookInput(body, true));
+    if (!endpoint) {
+      return NextResponse.json({ message: 'Webhook not found' }, { status: 404 });
+    }
+
+    logger.info('Webhook updated', { webhookId, rotatedSecret: body.rotateSecret === true });
+
+    return NextResponse.json(endpoint);
+  } catch (error: unknown) {
+    logger.error('PUT /api/webhooks/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update webhook' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/webhooks/[id] - Delete a webhook endpoint and its delivery log (admin only)
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const webhookId = Number.parseInt(id, 10);
+    if (Number.isNaN(webhookId)) {
+      return NextResponse.json({ message: 'Invalid webhook ID' }, { status: 400 });
+    }
+
+    const deleted = await WebhookEndpoint.delete(webhookId);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Webhook not found' }, { status: 404 });
+    }
+
+    logger.info('Webhook deleted', { webhookId });
+
+    return NextResponse.json({ message: 'Webhook deleted successfully' });
+  } catch (error: unknown) {
+    logger.error('DELETE /api/webhooks/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to delete webhook' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import WebhookEndpoint from '@/lib/models/WebhookEndpoint';
+import { sendTestEvent } from '@/lib/services/webhookService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('WebhookTestAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/webhooks/[id]/test - Send a signed webhook.test event right away (admin only)
+ * Returns the delivery with the receiver's response, so a local receiver can be checked end to end.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const webhookId = Number.parseInt(id, 10);
+    if (Number.isNaN(webhookId)) {
+      return NextResponse.json({ message: 'Invalid webhook ID' }, { status: 400 });
+    }
+
+    const endpoint = await WebhookEndpoint.findById(webhookId);
+    if (!endpoint) {
+      return NextResponse.json({ message: 'Webhook not found' }, { status: 404 });
+    }
+
+    const delivery = await sendTestEvent(endpoint);
+
+    logger.info('Webhook test sent', { webhookId, deliveryId: delivery.id, status: delivery.status });
+
+    return NextResponse.json(delivery);
+  } catch (error: unknown) {
+    logger.error('POST /api/webhooks/[id]/test error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to send test event' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
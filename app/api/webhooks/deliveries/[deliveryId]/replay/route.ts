@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { replayDelivery } from '@/lib/services/webhookService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('WebhookReplayAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ deliveryId: string }>;
+}
+
+/**
+ * POST /api/webhooks/deliveries/[deliveryId]/replay - Send a logged event again (admin only)
+ * The replay is a new delivery with the original event ID.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const { deliveryId } = await params;
+    const numericId = Number.parseInt(deliveryId, 10);
+    if (Number.isNaN(numericId)) {
+      return NextResponse.json({ message: 'Invalid delivery ID' }, { status: 400 });
+    }
+
+    const delivery = await replayDelivery(numericId);
+
+    logger.info('Webhook delivery replayed', { deliveryId: numericId, replayId: delivery.id, status: delivery.status });
+
+    return NextResponse.json(delivery, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/webhooks/deliveries/[deliveryId]/replay error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to replay delivery' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import WebhookEndpoint from '@/lib/models/WebhookEndpoint';
+import { parseWebhookInput } from '@/lib/services/webhookService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('WebhooksAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/webhooks - List webhook endpoints with their signing secrets (admin only)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const endpoints = await WebhookEndpoint.findAll();
+
+    return NextResponse.json({ items: endpoints });
+  } catch (error: unknown) {
+    logger.error('GET /api/webhooks error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks - Register a webhook endpoint (admin only)
+ * Body: { url, events, description?, isActive? }; the signing secret is generated
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ message: 'Forbidden: Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const endpoint = await WebhookEndpoint.create(parseWebhookInput(body), session.user.dbUserId);
+
+    logger.info('Webhook created', { webhookId: endpoint.id, events: endpoint.events });
+
+    return NextResponse.json(endpoint, { status: 201 });
+  } catch (error: unknown) {
+    logger.error('POST /api/webhooks error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to create webhook' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { updateWorkOrder } from '@/lib/services/manufacturingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('WorkOrderByIdAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/work-orders/[id] - Start, complete or cancel a work order, or edit its notes
+ * Body: { status?: 'planned' | 'in_progress' | 'completed' | 'cancelled', notes?: string | null }
+ * Completing takes the work order's materials out of stock; 409 if any is short.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const workOrderId = Number.parseInt(id, 10);
+    if (Number.isNaN(workOrderId)) {
+      return NextResponse.json({ message: 'Invalid work order ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const workOrder = await updateWorkOrder(workOrderId, body, {
+      id: session.user.dbUserId,
+      email: session.user.email || undefined,
+    });
+    if (!workOrder) {
+      return NextResponse.json({ message: 'Work order not found' }, { status: 404 });
+    }
+
+    logger.info('Work order updated', { workOrderId, status: workOrder.status });
+
+    return NextResponse.json(workOrder);
+  } catch (error: unknown) {
+    logger.error('PATCH /api/work-orders/[id] error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to update work order' },
+      { status: (error as { statusCode?: number }).statusCode || 500 }
+    );
+  }
+}
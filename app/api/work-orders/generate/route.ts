@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import WorkOrder from '@/lib/models/WorkOrder';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('WorkOrdersGenerateAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /api/work-orders/generate - Create missing work orders for confirmed open orders
+ * Work orders are normally created when an order is confirmed; this catches up orders
+ * confirmed before work orders existed. Lines that already have one are skipped.
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const created = await WorkOrder.generateForConfirmedOrders();
+
+    logger.info('Work orders generated', { created });
+
+    return NextResponse.json({ created });
+  } catch (error: unknown) {
+    logger.error('POST /api/work-orders/generate error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to generate work orders' },
+      { status: 500 }
+    );
+  }
+}
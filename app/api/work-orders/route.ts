@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { listWorkOrders } from '@/lib/services/manufacturingService';
+import { createLogger } from '@/lib/utils/logger';
+
+const logger = createLogger('WorkOrdersAPI');
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const FILTERS = ['open', 'completed', 'cancelled', 'all'] as const;
+
+/**
+ * GET /api/work-orders - List work orders with the materials open ones need
+ * Query params:
+ *   - status: open (planned and in progress, default), completed, cancelled or all
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'open';
+    if (!FILTERS.includes(status as typeof FILTERS[number])) {
+      return NextResponse.json({ message: `status must be one of: ${FILTERS.join(', ')}` }, { status: 400 });
+    }
+
+    const workOrders = await listWorkOrders(status as typeof FILTERS[number]);
+
+    return NextResponse.json({ workOrders });
+  } catch (error: unknown) {
+    logger.error('GET /api/work-orders error', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch work orders' },
+      { status: 500 }
+    );
+  }
+}
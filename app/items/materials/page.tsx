@@ -0,0 +1,12 @@
+'use client';
+
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import MaterialsManager from '@/components/inventory/MaterialsManager';
+
+export default function MaterialsPage() {
+  return (
+    <AuthenticatedLayout>
+      <MaterialsManager />
+    </AuthenticatedLayout>
+  );
+}
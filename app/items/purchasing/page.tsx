@@ -0,0 +1,12 @@
+'use client';
+
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import PurchasingManager from '@/components/inventory/PurchasingManager';
+
+export default function PurchasingPage() {
+  return (
+    <AuthenticatedLayout>
+      <PurchasingManager />
+    </AuthenticatedLayout>
+  );
+}
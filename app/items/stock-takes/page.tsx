@@ -0,0 +1,12 @@
+'use client';
+
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import StockTakeManager from '@/components/inventory/StockTakeManager';
+
+export default function StockTakesPage() {
+  return (
+    <AuthenticatedLayout>
+      <StockTakeManager />
+    </AuthenticatedLayout>
+  );
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import OrderBoard from '@/components/orders/OrderBoard';
+
+export default function OrderBoardPage() {
+  return (
+    <AuthenticatedLayout>
+      <OrderBoard />
+    </AuthenticatedLayout>
+  );
+}
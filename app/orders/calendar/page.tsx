@@ -0,0 +1,12 @@
+'use client';
+
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import ProductionCalendar from '@/components/orders/ProductionCalendar';
+
+export default function ProductionCalendarPage() {
+  return (
+    <AuthenticatedLayout>
+      <ProductionCalendar />
+    </AuthenticatedLayout>
+  );
+}
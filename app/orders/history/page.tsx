@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import { CircularProgress, Box, Typography } from '@mui/material';
 import AuthenticatedLayout from '@/components/AuthenticatedLayout';
 import OrderHistory from '@/components/orders/OrderHistory';
+import { SAVED_VIEW_URL_PARAMS } from '@/constants/savedViewConstants';
 import type { OrderId } from '@/types';
 
 function OrderHistoryContent() {
@@ -17,12 +18,18 @@ function OrderHistoryContent() {
     router.push(`/orders/create?duplicateOrderId=${orderId}`);
   }, [router]);
 
+  // Keep the filters in the URL when leaving an order's details
   const handleOrderDetailsClose = useCallback((): void => {
-    router.push('/orders/history');
-  }, [router]);
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete('orderId');
+    const query = params.toString();
+    router.push(query ? `/orders/history?${query}` : '/orders/history');
+  }, [router, searchParams]);
 
   return (
     <OrderHistory 
+      // Opening another saved view from the navigation re-reads the filters from the URL
+      key={searchParams.get(SAVED_VIEW_URL_PARAMS.VIEW) ?? 'all'}
       onDuplicateOrder={handleDuplicateOrder}
       initialSelectedOrderId={initialSelectedOrderId}
       onOrderDetailsClose={handleOrderDetailsClose}
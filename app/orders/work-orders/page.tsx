@@ -0,0 +1,12 @@
+'use client';
+
+import AuthenticatedLayout from '@/components/AuthenticatedLayout';
+import WorkOrders from '@/components/orders/WorkOrders';
+
+export default function WorkOrdersPage() {
+  return (
+    <AuthenticatedLayout>
+      <WorkOrders />
+    </AuthenticatedLayout>
+  );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import Container from '@mui/material/Container';
+import PublicOrderTracking from '@/components/orders/PublicOrderTracking';
+
+/**
+ * Public order tracking page opened from a customer's tracking link; no sign-in required
+ */
+export default function TrackOrderPage() {
+  const { token } = useParams<{ token: string }>();
+
+  return (
+    <Container maxWidth="sm" sx={{ py: { xs: 2, sm: 6 } }}>
+      <PublicOrderTracking token={token} />
+    </Container>
+  );
+}
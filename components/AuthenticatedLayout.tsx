@@ -24,32 +24,48 @@ import NavigationDrawer from '@/components/NavigationDrawer';
 import TopNavigationBar from '@/components/TopNavigationBar';
 import PriorityNotificationPanel from '@/components/analytics/PriorityNotificationPanel';
 import { NAVIGATION_ROUTES } from '@/constants/navigation';
-import type { OrderId } from '@/types';
+import { useSavedViews } from '@/hooks/queries/useSavedViewsQueries';
+import { getSavedViewHref } from '@/lib/utils/savedViewUtils';
+import type { OrderId, SavedOrderView } from '@/types';
 
 const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION || '1.0.0';
 
 const ROUTE_TO_NAV_MAP: Record<string, string> = {
   '/orders/create': NAVIGATION_ROUTES.CREATE_ORDER,
   '/orders/history': NAVIGATION_ROUTES.ORDER_HISTORY,
+  '/orders/board': NAVIGATION_ROUTES.PRODUCTION_BOARD,
+  '/orders/calendar': NAVIGATION_ROUTES.PRODUCTION_CALENDAR,
+  '/orders/work-orders': NAVIGATION_ROUTES.WORK_ORDERS,
   '/orders': NAVIGATION_ROUTES.ORDER_HISTORY,
   '/items/browse': NAVIGATION_ROUTES.BROWSE_ITEMS,
   '/items/create': NAVIGATION_ROUTES.CREATE_ITEM,
   '/items/deleted': NAVIGATION_ROUTES.MANAGE_DELETED_ITEMS,
+  '/items/materials': NAVIGATION_ROUTES.MATERIALS,
+  '/items/purchasing': NAVIGATION_ROUTES.PURCHASING,
+  '/items/stock-takes': NAVIGATION_ROUTES.STOCK_TAKES,
   '/items': NAVIGATION_ROUTES.BROWSE_ITEMS,
   '/sales': NAVIGATION_ROUTES.SALES_REPORT,
   '/feedback': NAVIGATION_ROUTES.CUSTOMER_FEEDBACK,
   '/admin': NAVIGATION_ROUTES.ADMIN_PANEL,
+  '/account/api-keys': NAVIGATION_ROUTES.API_KEYS,
 };
 
 const NAV_TO_ROUTE_MAP: Record<string, string> = {
   [NAVIGATION_ROUTES.CREATE_ORDER]: '/orders/create',
   [NAVIGATION_ROUTES.ORDER_HISTORY]: '/orders/history',
+  [NAVIGATION_ROUTES.PRODUCTION_BOARD]: '/orders/board',
+  [NAVIGATION_ROUTES.PRODUCTION_CALENDAR]: '/orders/calendar',
+  [NAVIGATION_ROUTES.WORK_ORDERS]: '/orders/work-orders',
   [NAVIGATION_ROUTES.BROWSE_ITEMS]: '/items/browse',
   [NAVIGATION_ROUTES.CREATE_ITEM]: '/items/create',
   [NAVIGATION_ROUTES.MANAGE_DELETED_ITEMS]: '/items/deleted',
+  [NAVIGATION_ROUTES.MATERIALS]: '/items/materials',
+  [NAVIGATION_ROUTES.PURCHASING]: '/items/purchasing',
+  [NAVIGATION_ROUTES.STOCK_TAKES]: '/items/stock-takes',
   [NAVIGATION_ROUTES.SALES_REPORT]: '/sales',
   [NAVIGATION_ROUTES.CUSTOMER_FEEDBACK]: '/feedback',
   [NAVIGATION_ROUTES.ADMIN_PANEL]: '/admin',
+  [NAVIGATION_ROUTES.API_KEYS]: '/account/api-keys',
 };
 
 export default function AuthenticatedLayout({
@@ -70,6 +86,9 @@ export default function AuthenticatedLayout({
 
   const currentRoute = ROUTE_TO_NAV_MAP[pathname] || NAVIGATION_ROUTES.CREATE_ORDER;
 
+  const { data: savedViews = [] } = useSavedViews({ enabled: !!session && !guestMode });
+  const pinnedViews = savedViews.filter((view) => view.pinned);
+
   // Check for guest mode and handle authentication in a single effect
   useEffect(() => {
     const isGuest = sessionStorage.getItem('guestMode') === 'true';
@@ -89,6 +108,10 @@ export default function AuthenticatedLayout({
     }
   }, [router]);
 
+  const handleOpenView = useCallback((view: SavedOrderView): void => {
+    router.push(getSavedViewHref(view));
+  }, [router]);
+
   const handleMobileDrawerToggle = useCallback((): void => {
     setMobileDrawerOpen((prev) => !prev);
   }, []);
@@ -138,6 +161,8 @@ export default function AuthenticatedLayout({
           mobileOpen={mobileDrawerOpen}
           desktopOpen={false}
           onMobileToggle={handleMobileDrawerToggle}
+          pinnedViews={pinnedViews}
+          onOpenView={handleOpenView}
         />
       )}
 
@@ -213,6 +238,8 @@ export default function AuthenticatedLayout({
                 <TopNavigationBar 
                   currentRoute={currentRoute}
                   onNavigate={handleNavigate}
+                  pinnedViews={pinnedViews}
+                  onOpenView={handleOpenView}
                 />
               )}
             </Box>
@@ -10,11 +10,14 @@ import ListItemIcon from '@mui/material/ListItemIcon';
 import ListItemText from '@mui/material/ListItemText';
 import Collapse from '@mui/material/Collapse';
 import Divider from '@mui/material/Divider';
+import Chip from '@mui/material/Chip';
+import BookmarkIcon from '@mui/icons-material/Bookmark';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import useMediaQuery from '@mui/material/useMediaQuery';
 import { useTheme } from '@mui/material/styles';
 import { NAVIGATION_GROUPS, type NavigationGroup } from '@/constants/navigation';
+import type { SavedOrderView } from '@/types';
 
 const DRAWER_WIDTH = 240;
 const APPBAR_HEIGHT_MOBILE = 56;
@@ -26,6 +29,9 @@ interface NavigationDrawerProps {
   mobileOpen: boolean;
   desktopOpen: boolean;
   onMobileToggle: () => void;
+  /** Saved order views the user pinned, shown with their live counts */
+  pinnedViews?: SavedOrderView[];
+  onOpenView?: (view: SavedOrderView) => void;
 }
 
 function NavigationDrawer({ 
@@ -34,6 +40,8 @@ function NavigationDrawer({
   mobileOpen, 
   desktopOpen,
   onMobileToggle,
+  pinnedViews = [],
+  onOpenView,
 }: NavigationDrawerProps): ReactElement {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
@@ -42,6 +50,8 @@ function NavigationDrawer({
     items: true,
     analytics: true,
     admin: true,
+    account: true,
+    savedViews: true,
   });
 
   const handleGroupToggle = (groupId: string) => {
@@ -58,6 +68,13 @@ function NavigationDrawer({
     }
   };
 
+  const handleOpenView = (view: SavedOrderView) => {
+    onOpenView?.(view);
+    if (isMobile && mobileOpen) {
+      onMobileToggle();
+    }
+  };
+
   const drawerContent = (
     <Box sx={{ overflow: 'auto' }}>
       <Box sx={{ p: 2, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -131,6 +148,53 @@ function NavigationDrawer({
             </Collapse>
           </Box>
         ))}
+        {pinnedViews.length > 0 && (
+          <Box>
+            <ListItemButton onClick={() => handleGroupToggle('savedViews')}>
+              <ListItemText
+                primary="Saved Views"
+                primaryTypographyProps={{
+                  fontWeight: 600,
+                  fontSize: '0.875rem',
+                  textTransform: 'uppercase',
+                  color: 'text.secondary',
+                }}
+              />
+              {expandedGroups.savedViews ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            </ListItemButton>
+            <Collapse in={expandedGroups.savedViews} timeout="auto" unmountOnExit>
+              <List component="div" disablePadding>
+                {pinnedViews.map((view) => (
+                  <ListItem key={view.id} disablePadding>
+                    <ListItemButton
+                      onClick={() => handleOpenView(view)}
+                      sx={{
+                        pl: 4,
+                        '&:hover': {
+                          bgcolor: '#f8fafc',
+                        },
+                      }}
+                    >
+                      <ListItemIcon sx={{ minWidth: 40 }}>
+                        <BookmarkIcon />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={view.name}
+                        primaryTypographyProps={{
+                          fontSize: '0.875rem',
+                          noWrap: true,
+                        }}
+                      />
+                      {view.count !== null && (
+                        <Chip label={view.count} size="small" sx={{ ml: 1, height: 20, fontSize: '0.75rem' }} />
+                      )}
+                    </ListItemButton>
+                  </ListItem>
+                ))}
+              </List>
+            </Collapse>
+          </Box>
+        )}
       </List>
     </Box>
   );
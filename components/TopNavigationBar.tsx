@@ -7,20 +7,28 @@ import Menu from '@mui/material/Menu';
 import MenuItem from '@mui/material/MenuItem';
 import ListItemIcon from '@mui/material/ListItemIcon';
 import ListItemText from '@mui/material/ListItemText';
+import Chip from '@mui/material/Chip';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import BookmarkIcon from '@mui/icons-material/Bookmark';
 import { NAVIGATION_GROUPS, type NavigationGroup, type NavigationRoute } from '@/constants/navigation';
+import type { SavedOrderView } from '@/types';
 
 interface TopNavigationBarProps {
   currentRoute: string;
   onNavigate: (routeId: string) => void;
+  /** Saved order views the user pinned, shown with their live counts */
+  pinnedViews?: SavedOrderView[];
+  onOpenView?: (view: SavedOrderView) => void;
 }
 
+const SAVED_VIEWS_MENU_ID = 'savedViews';
+
 interface GroupMenuState {
   anchorEl: HTMLElement | null;
   groupId: string | null;
 }
 
-function TopNavigationBar({ currentRoute, onNavigate }: TopNavigationBarProps): ReactElement {
+function TopNavigationBar({ currentRoute, onNavigate, pinnedViews = [], onOpenView }: TopNavigationBarProps): ReactElement {
   const [menuState, setMenuState] = useState<GroupMenuState>({
     anchorEl: null,
     groupId: null,
@@ -45,6 +53,11 @@ function TopNavigationBar({ currentRoute, onNavigate }: TopNavigationBarProps):
     handleMenuClose();
   };
 
+  const handleViewClick = (view: SavedOrderView) => {
+    onOpenView?.(view);
+    handleMenuClose();
+  };
+
   const isRouteInGroup = (group: NavigationGroup): boolean => {
     return group.routes.some((route) => route.id === currentRoute);
   };
@@ -155,6 +168,78 @@ function TopNavigationBar({ currentRoute, onNavigate }: TopNavigationBarProps):
           </Box>
         );
       })}
+
+      {pinnedViews.length > 0 && (
+        <Box>
+          <Button
+            onClick={(e) => handleGroupClick(e, SAVED_VIEWS_MENU_ID)}
+            endIcon={<ExpandMoreIcon />}
+            sx={{
+              color: '#64748b',
+              fontWeight: 500,
+              fontSize: '0.875rem',
+              textTransform: 'none',
+              px: 2,
+              py: 1,
+              borderRadius: 1,
+              '&:hover': {
+                bgcolor: '#f0f4ff',
+                color: '#5568d3',
+              },
+            }}
+          >
+            Views
+          </Button>
+          <Menu
+            anchorEl={menuState.anchorEl}
+            open={menuState.groupId === SAVED_VIEWS_MENU_ID}
+            onClose={handleMenuClose}
+            anchorOrigin={{
+              vertical: 'bottom',
+              horizontal: 'left',
+            }}
+            transformOrigin={{
+              vertical: 'top',
+              horizontal: 'left',
+            }}
+            sx={{
+              '& .MuiPaper-root': {
+                mt: 1,
+                minWidth: 200,
+                boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+                borderRadius: 2,
+              },
+            }}
+          >
+            {pinnedViews.map((view) => (
+              <MenuItem
+                key={view.id}
+                onClick={() => handleViewClick(view)}
+                sx={{
+                  py: 1.5,
+                  px: 2,
+                  '&:hover': {
+                    bgcolor: '#f8fafc',
+                  },
+                }}
+              >
+                <ListItemIcon sx={{ minWidth: 36 }}>
+                  <BookmarkIcon />
+                </ListItemIcon>
+                <ListItemText
+                  primary={view.name}
+                  primaryTypographyProps={{
+                    fontSize: '0.875rem',
+                  }}
+                />
+                {view.count !== null && (
+                  <Chip label={view.count} size="small" sx={{ ml: 2, height: 20, fontSize: '0.75rem' }} />
+                )}
+              </MenuItem>
+            ))}
+          </Menu>
+        </Box>
+      )}
     </Box>
   );
 }
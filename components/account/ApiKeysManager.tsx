@@ -0,0 +1,357 @@
+'use client';
+
+import { useState, useCallback, type ReactElement, type FormEvent } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Checkbox from '@mui/material/Checkbox';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import FormGroup from '@mui/material/FormGroup';
+import FormLabel from '@mui/material/FormLabel';
+import MenuItem from '@mui/material/MenuItem';
+import InputAdornment from '@mui/material/InputAdornment';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import AddIcon from '@mui/icons-material/Add';
+import BlockIcon from '@mui/icons-material/Block';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useApiKeys, useCreateApiKey, useRevokeApiKey } from '@/hooks/queries/useApiKeysQueries';
+import { API_KEY_SCOPES, API_KEY_DEFAULT_RATE_LIMIT, API_KEY_MAX_RATE_LIMIT } from '@/constants/apiKeyConstants';
+import type { ApiKey, ApiKeyScope, CreatedApiKey } from '@/types';
+
+interface ApiKeyFormData {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays: string;
+  rateLimitPerMinute: string;
+}
+
+const EMPTY_FORM: ApiKeyFormData = {
+  name: '',
+  scopes: [],
+  expiresInDays: '90',
+  rateLimitPerMinute: String(API_KEY_DEFAULT_RATE_LIMIT),
+};
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: '', label: 'Never' },
+];
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function getKeyStatus(apiKey: ApiKey): { label: string; color: 'success' | 'default' | 'error' } {
+  if (apiKey.revokedAt) return { label: 'Revoked', color: 'default' };
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return { label: 'Expired', color: 'error' };
+  return { label: 'Active', color: 'success' };
+}
+
+/**
+ * Personal API keys for calling the API from scripts
+ */
+export default function ApiKeysManager(): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<ApiKeyFormData>(EMPTY_FORM);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  const { data: apiKeys = [], isLoading, error } = useApiKeys();
+  const createMutation = useCreateApiKey();
+  const revokeMutation = useRevokeApiKey();
+
+  const openCreateDialog = useCallback(() => {
+    setFormData(EMPTY_FORM);
+    setDialogOpen(true);
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setFormData((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((s) => s !== scope)
+        : [...prev.scopes, scope],
+    }));
+  };
+
+  const copyKey = useCallback((key: string) => {
+    navigator.clipboard.writeText(key).then(() => {
+      showSuccess('API key copied to clipboard.');
+    }).catch(() => {
+      showError('Could not copy the key');
+    });
+  }, [showSuccess, showError]);
+
+  const handleRevoke = useCallback(async (apiKey: ApiKey) => {
+    if (!globalThis.confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working immediately.`)) {
+      return;
+    }
+
+    try {
+      await revokeMutation.mutateAsync(apiKey._id);
+      showSuccess('API key revoked.');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  }, [revokeMutation, showSuccess, showError]);
+
+  const handleSubmit = useCallback(async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (formData.scopes.length === 0) {
+      showError('Select at least one scope');
+      return;
+    }
+
+    try {
+      const created = await createMutation.mutateAsync({
+        name: formData.name.trim(),
+        scopes: formData.scopes,
+        expiresInDays: formData.expiresInDays ? Number(formData.expiresInDays) : null,
+        rateLimitPerMinute: Number(formData.rateLimitPerMinute) || API_KEY_DEFAULT_RATE_LIMIT,
+      });
+      setDialogOpen(false);
+      setCreatedKey(created);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to create API key');
+    }
+  }, [formData, createMutation, showError]);
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" py={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error">
+        Failed to load API keys: {error instanceof Error ? error.message : 'Unknown error'}
+      </Alert>
+    );
+  }
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h6" component="h2">
+            API Keys
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Send a key as <code>Authorization: Bearer &lt;key&gt;</code> to call the API from scripts. Keys act as you, limited to their scopes.
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={openCreateDialog}
+        >
+          New Key
+        </Button>
+      </Stack>
+
+      {apiKeys.length === 0 ? (
+        <Typography color="text.secondary" textAlign="center" py={4}>
+          No API keys yet.
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small" aria-label="API keys">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Scopes</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Limit / min</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell>Last Used</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {apiKeys.map((apiKey) => {
+                const status = getKeyStatus(apiKey);
+                return (
+                  <TableRow key={apiKey._id} hover>
+                    <TableCell>
+                      <Typography variant="body2">{apiKey.name}</Typography>
+                      <Typography variant="caption" color="text.secondary" fontFamily="monospace">
+                        {apiKey.keyPrefix}…
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" gap={0.5} flexWrap="wrap">
+                        {apiKey.scopes.map((scope) => (
+                          <Chip key={scope} label={scope} size="small" variant="outlined" />
+                        ))}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={status.label} size="small" color={status.color} />
+                    </TableCell>
+                    <TableCell align="right">{apiKey.rateLimitPerMinute}</TableCell>
+                    <TableCell>{apiKey.expiresAt ? formatDateTime(apiKey.expiresAt) : 'Never'}</TableCell>
+                    <TableCell>{formatDateTime(apiKey.lastUsedAt)}</TableCell>
+                    <TableCell align="right">
+                      {!apiKey.revokedAt && (
+                        <Button
+                          size="small"
+                          color="error"
+                          startIcon={<BlockIcon />}
+                          onClick={() => handleRevoke(apiKey)}
+                          disabled={revokeMutation.isPending}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create Dialog */}
+      <Dialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+        aria-labelledby="api-key-dialog-title"
+      >
+        <form onSubmit={handleSubmit}>
+          <DialogTitle id="api-key-dialog-title">New API Key</DialogTitle>
+
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                id="api-key-name"
+                label="Name"
+                value={formData.name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                required
+                fullWidth
+                autoFocus
+                placeholder="Nightly stock sync"
+              />
+
+              <Box>
+                <FormLabel component="legend">Scopes</FormLabel>
+                <FormGroup>
+                  {API_KEY_SCOPES.map((scope) => (
+                    <FormControlLabel
+                      key={scope.value}
+                      control={
+                        <Checkbox
+                          checked={formData.scopes.includes(scope.value)}
+                          onChange={() => toggleScope(scope.value)}
+                        />
+                      }
+                      label={
+                        <Box>
+                          <Typography variant="body2" fontFamily="monospace">{scope.value}</Typography>
+                          <Typography variant="caption" color="text.secondary">{scope.description}</Typography>
+                        </Box>
+                      }
+                    />
+                  ))}
+                </FormGroup>
+              </Box>
+
+              <Stack direction="row" spacing={2}>
+                <TextField
+                  id="api-key-expiry"
+                  select
+                  label="Expires after"
+                  value={formData.expiresInDays}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, expiresInDays: e.target.value }))}
+                  fullWidth
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <MenuItem key={option.label} value={option.value}>{option.label}</MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  id="api-key-rate-limit"
+                  label="Requests per minute"
+                  type="number"
+                  value={formData.rateLimitPerMinute}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, rateLimitPerMinute: e.target.value }))}
+                  inputProps={{ min: 1, max: API_KEY_MAX_RATE_LIMIT }}
+                  fullWidth
+                />
+              </Stack>
+            </Stack>
+          </DialogContent>
+
+          <DialogActions>
+            <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={createMutation.isPending}>
+              {createMutation.isPending ? <CircularProgress size={20} /> : 'Create'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      {/* One-time key display */}
+      <Dialog
+        open={!!createdKey}
+        onClose={() => setCreatedKey(null)}
+        maxWidth="sm"
+        fullWidth
+        aria-labelledby="api-key-created-title"
+      >
+        <DialogTitle id="api-key-created-title">Copy your API key</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            This is the only time the full key is shown. Store it somewhere safe.
+          </Alert>
+          <TextField
+            id="api-key-value"
+            label={createdKey?.name}
+            value={createdKey?.key || ''}
+            fullWidth
+            InputProps={{
+              readOnly: true,
+              sx: { fontFamily: 'monospace' },
+              endAdornment: (
+                <InputAdornment position="end">
+                  <IconButton onClick={() => createdKey && copyKey(createdKey.key)} aria-label="Copy API key" edge="end">
+                    <ContentCopyIcon fontSize="small" />
+                  </IconButton>
+                </InputAdornment>
+              ),
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setCreatedKey(null)}>Done</Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
@@ -31,15 +31,19 @@ import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
 import PersonIcon from '@mui/icons-material/Person';
 import CategoryIcon from '@mui/icons-material/Category';
 import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import DiscountIcon from '@mui/icons-material/Discount';
 import HistoryIcon from '@mui/icons-material/History';
 import ImportExportIcon from '@mui/icons-material/ImportExport';
 import TableChartIcon from '@mui/icons-material/TableChart';
+import WebhookIcon from '@mui/icons-material/Webhook';
 import { getUsers, updateUserRole, getUserStats, type User, type UserStats } from '@/lib/api/client';
 import CategoriesManager from './CategoriesManager';
 import TagsManager from './TagsManager';
+import PromotionsManager from './PromotionsManager';
 import AuditLogsViewer from './AuditLogsViewer';
 import BulkOrderOperations from './BulkOrderOperations';
 import ExportReports from './ExportReports';
+import WebhooksManager from './WebhooksManager';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -180,9 +184,11 @@ export default function AdminPage() {
           <Tab icon={<PersonIcon />} label="Users" {...a11yProps(0)} />
           <Tab icon={<CategoryIcon />} label="Categories" {...a11yProps(1)} />
           <Tab icon={<LocalOfferIcon />} label="Tags" {...a11yProps(2)} />
-          <Tab icon={<ImportExportIcon />} label="Import/Export" {...a11yProps(3)} />
-          <Tab icon={<TableChartIcon />} label="Reports" {...a11yProps(4)} />
-          <Tab icon={<HistoryIcon />} label="Audit Logs" {...a11yProps(5)} />
+          <Tab icon={<DiscountIcon />} label="Promotions" {...a11yProps(3)} />
+          <Tab icon={<ImportExportIcon />} label="Import/Export" {...a11yProps(4)} />
+          <Tab icon={<TableChartIcon />} label="Reports" {...a11yProps(5)} />
+          <Tab icon={<HistoryIcon />} label="Audit Logs" {...a11yProps(6)} />
+          <Tab icon={<WebhookIcon />} label="Webhooks" {...a11yProps(7)} />
         </Tabs>
       </Paper>
 
@@ -327,17 +333,25 @@ export default function AdminPage() {
       </TabPanel>
 
       <TabPanel value={activeTab} index={3}>
-        <BulkOrderOperations />
+        <PromotionsManager />
       </TabPanel>
 
       <TabPanel value={activeTab} index={4}>
-        <ExportReports />
+        <BulkOrderOperations />
       </TabPanel>
 
       <TabPanel value={activeTab} index={5}>
+        <ExportReports />
+      </TabPanel>
+
+      <TabPanel value={activeTab} index={6}>
         <AuditLogsViewer />
       </TabPanel>
 
+      <TabPanel value={activeTab} index={7}>
+        <WebhooksManager />
+      </TabPanel>
+
       {/* Confirmation Dialog */}
       <Dialog open={confirmDialog.open} onClose={cancelRoleChange}>
         <DialogTitle>Confirm Role Change</DialogTitle>
@@ -92,8 +92,8 @@ function formatDate(date: Date | string | number, format: DateFormatType = 'date
   }
 }
 
-type EntityType = '' | 'order' | 'item' | 'category' | 'tag' | 'user' | 'system';
-type ActionType = '' | 'create' | 'update' | 'delete' | 'bulk_import' | 'bulk_export' | 'status_change' | 'restore';
+type EntityType = '' | 'order' | 'item' | 'category' | 'tag' | 'user' | 'system' | 'api_key';
+type ActionType = '' | 'create' | 'update' | 'delete' | 'bulk_import' | 'bulk_export' | 'status_change' | 'restore' | 'api_call';
 
 interface FiltersState {
   entityType: EntityType;
@@ -111,6 +111,7 @@ const ACTION_COLORS: Record<string, 'success' | 'warning' | 'error' | 'info' | '
   bulk_export: 'info',
   status_change: 'warning',
   restore: 'success',
+  api_call: 'default',
 };
 
 const ACTION_LABELS: Record<string, string> = {
@@ -121,6 +122,7 @@ const ACTION_LABELS: Record<string, string> = {
   bulk_export: 'Bulk Export',
   status_change: 'Status Changed',
   restore: 'Restored',
+  api_call: 'API Call',
 };
 
 const ENTITY_LABELS: Record<string, string> = {
@@ -130,6 +132,7 @@ const ENTITY_LABELS: Record<string, string> = {
   tag: 'Tag',
   user: 'User',
   system: 'System',
+  api_key: 'API Key',
 };
 
 interface AuditLogRowProps {
@@ -414,6 +417,7 @@ export default function AuditLogsViewer(): ReactElement {
                   <MenuItem value="category">Category</MenuItem>
                   <MenuItem value="tag">Tag</MenuItem>
                   <MenuItem value="user">User</MenuItem>
+                  <MenuItem value="api_key">API Key</MenuItem>
                 </Select>
               </FormControl>
             </Grid>
@@ -434,6 +438,7 @@ export default function AuditLogsViewer(): ReactElement {
                   <MenuItem value="status_change">Status Change</MenuItem>
                   <MenuItem value="bulk_import">Bulk Import</MenuItem>
                   <MenuItem value="bulk_export">Bulk Export</MenuItem>
+                  <MenuItem value="api_call">API Call</MenuItem>
                 </Select>
               </FormControl>
             </Grid>
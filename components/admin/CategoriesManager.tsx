@@ -38,6 +38,7 @@ import {
   useUpdateCategory,
   useDeleteCategory,
 } from '@/hooks/queries/useCategoriesQueries';
+import { parseOptionalTaxRate } from '@/lib/utils/gstUtils';
 import type { Category, CreateCategoryData, CategoryId } from '@/types';
 
 interface CategoryFormData {
@@ -45,6 +46,7 @@ interface CategoryFormData {
   description: string;
   parentId: CategoryId | null;
   color: string;
+  taxRate: string;
 }
 
 const PRESET_COLORS = [
@@ -165,6 +167,7 @@ export default function CategoriesManager(): ReactElement {
     description: '',
     parentId: null,
     color: PRESET_COLORS[0],
+    taxRate: '',
   });
 
   // Queries
@@ -206,6 +209,7 @@ export default function CategoriesManager(): ReactElement {
       description: '',
       parentId: null,
       color: PRESET_COLORS[0],
+      taxRate: '',
     });
     setDialogOpen(true);
   }, []);
@@ -217,6 +221,7 @@ export default function CategoriesManager(): ReactElement {
       description: category.description || '',
       parentId: category.parentId || null,
       color: category.color || PRESET_COLORS[0],
+      taxRate: category.taxRate === null || category.taxRate === undefined ? '' : String(category.taxRate),
     });
     setDialogOpen(true);
   }, []);
@@ -248,12 +253,19 @@ export default function CategoriesManager(): ReactElement {
       return;
     }
 
+    const taxRate = parseOptionalTaxRate(formData.taxRate);
+    if (Number.isNaN(taxRate)) {
+      showError('GST rate must be between 0 and 100');
+      return;
+    }
+
     try {
       const data: CreateCategoryData = {
         name: formData.name.trim(),
         description: formData.description.trim() || undefined,
         parentId: formData.parentId || undefined,
         color: formData.color || undefined,
+        taxRate: taxRate ?? null,
       };
 
       if (editingCategory) {
@@ -368,6 +380,17 @@ export default function CategoriesManager(): ReactElement {
                 rows={2}
               />
 
+              <TextField
+                id="category-tax-rate"
+                label="GST Rate (%)"
+                type="number"
+                value={formData.taxRate}
+                onChange={(e) => setFormData((prev) => ({ ...prev, taxRate: e.target.value }))}
+                helperText="Used for items in this category without their own GST rate"
+                fullWidth
+                inputProps={{ step: '0.01', min: '0', max: '100' }}
+              />
+
               <FormControl fullWidth>
                 <InputLabel id="category-parent-label">Parent Category</InputLabel>
                 <Select
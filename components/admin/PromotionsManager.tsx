@@ -0,0 +1,516 @@
+'use client';
+
+import { useState, useCallback, type ReactElement, type FormEvent } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import MenuItem from '@mui/material/MenuItem';
+import Switch from '@mui/material/Switch';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Grid from '@mui/material/Grid2';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  usePromotions,
+  useCreatePromotion,
+  useUpdatePromotion,
+  useDeletePromotion,
+} from '@/hooks/queries/usePromotionsQueries';
+import { useCategories } from '@/hooks/queries/useCategoriesQueries';
+import { PROMOTION_TYPES, describePromotionRule, getPromotionBlocker } from '@/lib/utils/promotionRules';
+import type { Promotion, PromotionType, CreatePromotionData } from '@/types';
+
+interface PromotionFormData {
+  code: string;
+  name: string;
+  description: string;
+  type: PromotionType;
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  categoryId: string;
+  minOrderAmount: string;
+  maxDiscountAmount: string;
+  startsAt: string;
+  endsAt: string;
+  usageLimit: string;
+  perCustomerLimit: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PromotionFormData = {
+  code: '',
+  name: '',
+  description: '',
+  type: 'percentage',
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  categoryId: '',
+  minOrderAmount: '',
+  maxDiscountAmount: '',
+  startsAt: '',
+  endsAt: '',
+  usageLimit: '',
+  perCustomerLimit: '',
+  isActive: true,
+};
+
+function toFormValue(value: number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function toNumberOrNull(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+// yyyy-mm-dd in local time for date inputs; slicing the ISO string would use UTC
+function toDateInput(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : '';
+}
+
+export default function PromotionsManager(): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [formData, setFormData] = useState<PromotionFormData>(EMPTY_FORM);
+
+  // Queries
+  const { data: promotions = [], isLoading, error } = usePromotions();
+  const { data: categories = [] } = useCategories();
+  const createMutation = useCreatePromotion();
+  const updateMutation = useUpdatePromotion();
+  const deleteMutation = useDeletePromotion();
+
+  const setField = <K extends keyof PromotionFormData>(field: K, value: PromotionFormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const openCreateDialog = useCallback(() => {
+    setEditingPromotion(null);
+    setFormData(EMPTY_FORM);
+    setDialogOpen(true);
+  }, []);
+
+  const openEditDialog = useCallback((promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    setFormData({
+      code: promotion.code,
+      name: promotion.name,
+      description: promotion.description || '',
+      type: promotion.type,
+      value: promotion.type === 'buy_x_get_y' ? '' : String(promotion.value),
+      buyQuantity: toFormValue(promotion.buyQuantity),
+      getQuantity: toFormValue(promotion.getQuantity),
+      categoryId: toFormValue(promotion.categoryId),
+      minOrderAmount: toFormValue(promotion.minOrderAmount),
+      maxDiscountAmount: toFormValue(promotion.maxDiscountAmount),
+      startsAt: toDateInput(promotion.startsAt),
+      endsAt: toDateInput(promotion.endsAt),
+      usageLimit: toFormValue(promotion.usageLimit),
+      perCustomerLimit: toFormValue(promotion.perCustomerLimit),
+      isActive: promotion.isActive,
+    });
+    setDialogOpen(true);
+  }, []);
+
+  const handleDelete = useCallback(async (promotion: Promotion) => {
+    if (!globalThis.confirm(`Are you sure you want to delete the promotion "${promotion.code}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteMutation.mutateAsync(promotion._id);
+      showSuccess(`Promotion "${promotion.code}" deleted successfully.`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete promotion';
+      showError(errorMessage);
+    }
+  }, [deleteMutation, showSuccess, showError]);
+
+  const handleSubmit = useCallback(async (e: FormEvent) => {
+    e.preventDefault();
+
+    const isBuyXGetY = formData.type === 'buy_x_get_y';
+    // Dates are whole days: the promotion runs from the start of startsAt to the end of endsAt
+    const data: CreatePromotionData = {
+      code: formData.code.trim().toUpperCase(),
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      type: formData.type,
+      value: isBuyXGetY ? 0 : Number(formData.value),
+      buyQuantity: isBuyXGetY ? toNumberOrNull(formData.buyQuantity) : null,
+      getQuantity: isBuyXGetY ? toNumberOrNull(formData.getQuantity) : null,
+      categoryId: toNumberOrNull(formData.categoryId),
+      minOrderAmount: toNumberOrNull(formData.minOrderAmount),
+      maxDiscountAmount: toNumberOrNull(formData.maxDiscountAmount),
+      startsAt: formData.startsAt ? new Date(`${formData.startsAt}T00:00:00`).toISOString() : null,
+      endsAt: formData.endsAt ? new Date(`${formData.endsAt}T23:59:59`).toISOString() : null,
+      usageLimit: toNumberOrNull(formData.usageLimit),
+      perCustomerLimit: toNumberOrNull(formData.perCustomerLimit),
+      isActive: formData.isActive,
+    };
+
+    try {
+      if (editingPromotion) {
+        await updateMutation.mutateAsync({ id: editingPromotion._id, data });
+        showSuccess(`Promotion "${data.code}" updated successfully.`);
+      } else {
+        await createMutation.mutateAsync(data);
+        showSuccess(`Promotion "${data.code}" created successfully.`);
+      }
+
+      setDialogOpen(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save promotion';
+      showError(errorMessage);
+    }
+  }, [formData, editingPromotion, createMutation, updateMutation, showSuccess, showError]);
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" py={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error">
+        Failed to load promotions: {error instanceof Error ? error.message : 'Unknown error'}
+      </Alert>
+    );
+  }
+
+  const categoryNames = new Map(categories.map((category) => [Number(category._id), category.name]));
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h6" component="h2">
+          Promotions
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={openCreateDialog}
+        >
+          Add Promotion
+        </Button>
+      </Stack>
+
+      {promotions.length === 0 ? (
+        <Typography color="text.secondary" textAlign="center" py={4}>
+          No promotions yet. Create a discount code to use at order entry.
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small" aria-label="Promotions">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Rule</TableCell>
+                <TableCell>Applies To</TableCell>
+                <TableCell>Valid</TableCell>
+                <TableCell align="right">Used</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {promotions.map((promotion) => {
+                const blocker = getPromotionBlocker(promotion, 0);
+                return (
+                  <TableRow key={promotion._id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={600}>{promotion.code}</Typography>
+                      <Typography variant="caption" color="text.secondary">{promotion.name}</Typography>
+                    </TableCell>
+                    <TableCell>{describePromotionRule(promotion)}</TableCell>
+                    <TableCell>
+                      {promotion.categoryId ? categoryNames.get(promotion.categoryId) || 'Category' : 'All items'}
+                    </TableCell>
+                    <TableCell>
+                      {promotion.startsAt || promotion.endsAt
+                        ? `${formatDate(promotion.startsAt) || '…'} – ${formatDate(promotion.endsAt) || '…'}`
+                        : 'Always'}
+                    </TableCell>
+                    <TableCell align="right">
+                      {promotion.usageCount}{promotion.usageLimit ? ` / ${promotion.usageLimit}` : ''}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={blocker ? blocker.replace(/^(is |has )/, '') : 'Active'}
+                        color={blocker ? 'default' : 'success'}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton size="small" onClick={() => openEditDialog(promotion)} aria-label={`Edit ${promotion.code}`}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" onClick={() => handleDelete(promotion)} aria-label={`Delete ${promotion.code}`}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+        aria-labelledby="promotion-dialog-title"
+      >
+        <form onSubmit={handleSubmit}>
+          <DialogTitle id="promotion-dialog-title">
+            {editingPromotion ? 'Edit Promotion' : 'Create Promotion'}
+          </DialogTitle>
+
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 1 }}>
+              <Grid size={{ xs: 12, sm: 5 }}>
+                <TextField
+                  id="promotion-code"
+                  label="Code"
+                  value={formData.code}
+                  onChange={(e) => setField('code', e.target.value.toUpperCase())}
+                  required
+                  fullWidth
+                  autoFocus
+                  placeholder="e.g., DIWALI10"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 7 }}>
+                <TextField
+                  id="promotion-name"
+                  label="Name"
+                  value={formData.name}
+                  onChange={(e) => setField('name', e.target.value)}
+                  required
+                  fullWidth
+                />
+              </Grid>
+              <Grid size={12}>
+                <TextField
+                  id="promotion-description"
+                  label="Description"
+                  value={formData.description}
+                  onChange={(e) => setField('description', e.target.value)}
+                  fullWidth
+                  multiline
+                  rows={2}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  id="promotion-type"
+                  select
+                  label="Rule"
+                  value={formData.type}
+                  onChange={(e) => setField('type', e.target.value as PromotionType)}
+                  fullWidth
+                >
+                  {PROMOTION_TYPES.map((type) => (
+                    <MenuItem key={type.value} value={type.value}>{type.label}</MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+              {formData.type === 'buy_x_get_y' ? (
+                <>
+                  <Grid size={{ xs: 6, sm: 3 }}>
+                    <TextField
+                      id="promotion-buy-quantity"
+                      label="Buy"
+                      type="number"
+                      value={formData.buyQuantity}
+                      onChange={(e) => setField('buyQuantity', e.target.value)}
+                      required
+                      fullWidth
+                      inputProps={{ min: 1, step: 1 }}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 6, sm: 3 }}>
+                    <TextField
+                      id="promotion-get-quantity"
+                      label="Get free"
+                      type="number"
+                      value={formData.getQuantity}
+                      onChange={(e) => setField('getQuantity', e.target.value)}
+                      required
+                      fullWidth
+                      inputProps={{ min: 1, step: 1 }}
+                    />
+                  </Grid>
+                </>
+              ) : (
+                <Grid size={{ xs: 12, sm: 6 }}>
+                  <TextField
+                    id="promotion-value"
+                    label={formData.type === 'percentage' ? 'Percent off' : 'Amount off'}
+                    type="number"
+                    value={formData.value}
+                    onChange={(e) => setField('value', e.target.value)}
+                    required
+                    fullWidth
+                    inputProps={{ min: 0, max: formData.type === 'percentage' ? 100 : undefined, step: '0.01' }}
+                  />
+                </Grid>
+              )}
+              <Grid size={12}>
+                <TextField
+                  id="promotion-category"
+                  select
+                  label="Applies to"
+                  value={formData.categoryId}
+                  onChange={(e) => setField('categoryId', e.target.value)}
+                  fullWidth
+                  helperText="Limit the discount to items in one category"
+                >
+                  <MenuItem value="">All items</MenuItem>
+                  {categories.map((category) => (
+                    <MenuItem key={category._id} value={String(category._id)}>{category.name}</MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  id="promotion-min-order"
+                  label="Minimum order amount"
+                  type="number"
+                  value={formData.minOrderAmount}
+                  onChange={(e) => setField('minOrderAmount', e.target.value)}
+                  fullWidth
+                  inputProps={{ min: 0, step: '0.01' }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  id="promotion-max-discount"
+                  label="Maximum discount"
+                  type="number"
+                  value={formData.maxDiscountAmount}
+                  onChange={(e) => setField('maxDiscountAmount', e.target.value)}
+                  fullWidth
+                  inputProps={{ min: 0, step: '0.01' }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  id="promotion-starts-at"
+                  label="Starts"
+                  type="date"
+                  value={formData.startsAt}
+                  onChange={(e) => setField('startsAt', e.target.value)}
+                  fullWidth
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  id="promotion-ends-at"
+                  label="Ends"
+                  type="date"
+                  value={formData.endsAt}
+                  onChange={(e) => setField('endsAt', e.target.value)}
+                  fullWidth
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  id="promotion-usage-limit"
+                  label="Total uses"
+                  type="number"
+                  value={formData.usageLimit}
+                  onChange={(e) => setField('usageLimit', e.target.value)}
+                  fullWidth
+                  helperText="Leave empty for unlimited"
+                  inputProps={{ min: 1, step: 1 }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  id="promotion-per-customer-limit"
+                  label="Uses per customer"
+                  type="number"
+                  value={formData.perCustomerLimit}
+                  onChange={(e) => setField('perCustomerLimit', e.target.value)}
+                  fullWidth
+                  helperText="Leave empty for unlimited"
+                  inputProps={{ min: 1, step: 1 }}
+                />
+              </Grid>
+              <Grid size={12}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={formData.isActive}
+                      onChange={(e) => setField('isActive', e.target.checked)}
+                    />
+                  }
+                  label="Active"
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+
+          <DialogActions>
+            <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <CircularProgress size={20} />
+              ) : editingPromotion ? (
+                'Update'
+              ) : (
+                'Create'
+              )}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </Paper>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { Fragment, useState, type ReactElement } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import MenuItem from '@mui/material/MenuItem';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TablePagination from '@mui/material/TablePagination';
+import ReplayIcon from '@mui/icons-material/Replay';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useWebhookDeliveries, useReplayWebhookDelivery } from '@/hooks/queries/useWebhooksQueries';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from '@/types';
+
+interface WebhookDeliveriesDialogProps {
+  endpoint: WebhookEndpoint | null;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, 'success' | 'warning' | 'error'> = {
+  succeeded: 'success',
+  pending: 'warning',
+  failed: 'error',
+};
+
+const PAGE_SIZE = 20;
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function describeOutcome(delivery: WebhookDelivery): string {
+  if (delivery.lastResponseStatus) return `HTTP ${delivery.lastResponseStatus}`;
+  return delivery.lastError || '—';
+}
+
+/**
+ * Delivery log for one webhook endpoint; any delivery can be sent again
+ */
+export default function WebhookDeliveriesDialog({ endpoint, onClose }: Readonly<WebhookDeliveriesDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('');
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data, isLoading, error, isFetching, refetch } = useWebhookDeliveries(endpoint?._id ?? null, {
+    status: status || undefined,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  });
+  const replayMutation = useReplayWebhookDelivery();
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      const replay = await replayMutation.mutateAsync(delivery._id);
+      if (replay.status === 'succeeded') {
+        showSuccess(`Event replayed: ${describeOutcome(replay)}`);
+      } else {
+        showError(`Replay failed (${describeOutcome(replay)}); it will be retried automatically`);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to replay delivery');
+    }
+  };
+
+  const deliveries = data?.items || [];
+
+  return (
+    <Dialog open={!!endpoint} onClose={onClose} maxWidth="lg" fullWidth aria-labelledby="webhook-deliveries-title">
+      <DialogTitle id="webhook-deliveries-title">
+        Deliveries
+        <Typography variant="body2" color="text.secondary" noWrap>
+          {endpoint?.url}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent>
+        <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2, mt: 1 }}>
+          <TextField
+            id="webhook-delivery-status"
+            select
+            size="small"
+            label="Status"
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as WebhookDeliveryStatus | '');
+              setPage(0);
+            }}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            <MenuItem value="pending">Pending</MenuItem>
+            <MenuItem value="succeeded">Succeeded</MenuItem>
+            <MenuItem value="failed">Failed</MenuItem>
+          </TextField>
+          <Button size="small" onClick={() => refetch()} disabled={isFetching}>
+            Refresh
+          </Button>
+        </Stack>
+
+        {isLoading && (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error">
+            Failed to load deliveries: {error instanceof Error ? error.message : 'Unknown error'}
+          </Alert>
+        )}
+
+        {!isLoading && !error && deliveries.length === 0 && (
+          <Typography color="text.secondary" textAlign="center" py={4}>
+            No deliveries yet. Use Send Test to check the receiver.
+          </Typography>
+        )}
+
+        {deliveries.length > 0 && (
+          <TableContainer>
+            <Table size="small" aria-label="Webhook deliveries">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Event</TableCell>
+                  <TableCell>Created</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Attempts</TableCell>
+                  <TableCell>Last Response</TableCell>
+                  <TableCell>Next Attempt</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <Fragment key={delivery._id}>
+                    <TableRow
+                      hover
+                      onClick={() => setExpandedId(expandedId === delivery._id ? null : delivery._id)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>
+                        <Typography variant="body2" fontFamily="monospace">{delivery.eventType}</Typography>
+                        {delivery.replayOfId && (
+                          <Typography variant="caption" color="text.secondary">
+                            Replay of #{delivery.replayOfId}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDateTime(delivery.createdAt)}</TableCell>
+                      <TableCell>
+                        <Chip label={delivery.status} size="small" color={STATUS_COLORS[delivery.status]} />
+                      </TableCell>
+                      <TableCell align="right">{delivery.attempts}</TableCell>
+                      <TableCell>{describeOutcome(delivery)}</TableCell>
+                      <TableCell>{delivery.status === 'pending' ? formatDateTime(delivery.nextAttemptAt) : '—'}</TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          startIcon={<ReplayIcon />}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleReplay(delivery);
+                          }}
+                          disabled={replayMutation.isPending}
+                        >
+                          Replay
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === delivery._id && (
+                      <TableRow>
+                        <TableCell colSpan={7} sx={{ bgcolor: 'action.hover' }}>
+                          {delivery.lastError && (
+                            <Alert severity="warning" sx={{ mb: 1 }}>{delivery.lastError}</Alert>
+                          )}
+                          <Typography variant="caption" color="text.secondary">Payload</Typography>
+                          <Box component="pre" sx={{ m: 0, fontSize: 12, overflowX: 'auto' }}>
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </Box>
+                          {delivery.lastResponseBody && (
+                            <>
+                              <Typography variant="caption" color="text.secondary">Response body</Typography>
+                              <Box component="pre" sx={{ m: 0, fontSize: 12, overflowX: 'auto', whiteSpace: 'pre-wrap' }}>
+                                {delivery.lastResponseBody}
+                              </Box>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {data && data.pagination.total > PAGE_SIZE && (
+          <TablePagination
+            component="div"
+            count={data.pagination.total}
+            page={page}
+            rowsPerPage={PAGE_SIZE}
+            rowsPerPageOptions={[PAGE_SIZE]}
+            onPageChange={(_, newPage) => setPage(newPage)}
+          />
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,406 @@
+'use client';
+
+import { useState, useCallback, type ReactElement, type FormEvent } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Switch from '@mui/material/Switch';
+import Checkbox from '@mui/material/Checkbox';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import FormGroup from '@mui/material/FormGroup';
+import FormLabel from '@mui/material/FormLabel';
+import InputAdornment from '@mui/material/InputAdornment';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SendIcon from '@mui/icons-material/Send';
+import HistoryIcon from '@mui/icons-material/History';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useWebhooks,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useSendTestWebhook,
+} from '@/hooks/queries/useWebhooksQueries';
+import { WEBHOOK_EVENTS } from '@/constants/webhookConstants';
+import WebhookDeliveriesDialog from './WebhookDeliveriesDialog';
+import type { WebhookEndpoint, WebhookEventType, CreateWebhookEndpointData } from '@/types';
+
+interface WebhookFormData {
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+  isActive: boolean;
+}
+
+const EMPTY_FORM: WebhookFormData = {
+  url: '',
+  description: '',
+  events: [],
+  isActive: true,
+};
+
+export default function WebhooksManager(): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<WebhookEndpoint | null>(null);
+  const [formData, setFormData] = useState<WebhookFormData>(EMPTY_FORM);
+  const [deliveriesFor, setDeliveriesFor] = useState<WebhookEndpoint | null>(null);
+
+  // Queries
+  const { data: webhooks = [], isLoading, error } = useWebhooks();
+  const createMutation = useCreateWebhook();
+  const updateMutation = useUpdateWebhook();
+  const deleteMutation = useDeleteWebhook();
+  const testMutation = useSendTestWebhook();
+
+  const openCreateDialog = useCallback(() => {
+    setEditingWebhook(null);
+    setFormData(EMPTY_FORM);
+    setDialogOpen(true);
+  }, []);
+
+  const openEditDialog = useCallback((webhook: WebhookEndpoint) => {
+    setEditingWebhook(webhook);
+    setFormData({
+      url: webhook.url,
+      description: webhook.description || '',
+      events: webhook.events,
+      isActive: webhook.isActive,
+    });
+    setDialogOpen(true);
+  }, []);
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setFormData((prev) => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter((e) => e !== event)
+        : [...prev.events, event],
+    }));
+  };
+
+  const copySecret = useCallback((secret: string) => {
+    navigator.clipboard.writeText(secret).then(() => {
+      showSuccess('Signing secret copied to clipboard.');
+    }).catch(() => {
+      showError('Could not copy the secret');
+    });
+  }, [showSuccess, showError]);
+
+  const handleRotateSecret = useCallback(async () => {
+    if (!editingWebhook) return;
+    if (!globalThis.confirm('Issue a new signing secret? The receiver must be updated before it can verify new deliveries.')) {
+      return;
+    }
+
+    try {
+      const updated = await updateMutation.mutateAsync({ id: editingWebhook._id, data: { rotateSecret: true } });
+      setEditingWebhook(updated);
+      showSuccess('Signing secret rotated.');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to rotate secret');
+    }
+  }, [editingWebhook, updateMutation, showSuccess, showError]);
+
+  const handleTest = useCallback(async (webhook: WebhookEndpoint) => {
+    try {
+      const delivery = await testMutation.mutateAsync(webhook._id);
+      if (delivery.status === 'succeeded') {
+        showSuccess(`Test event delivered (HTTP ${delivery.lastResponseStatus}).`);
+      } else {
+        showError(`Test event failed: ${delivery.lastError || 'No response'}`);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to send test event');
+    }
+  }, [testMutation, showSuccess, showError]);
+
+  const handleDelete = useCallback(async (webhook: WebhookEndpoint) => {
+    if (!globalThis.confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) {
+      return;
+    }
+
+    try {
+      await deleteMutation.mutateAsync(webhook._id);
+      showSuccess('Webhook deleted successfully.');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    }
+  }, [deleteMutation, showSuccess, showError]);
+
+  const handleSubmit = useCallback(async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (formData.events.length === 0) {
+      showError('Select at least one event');
+      return;
+    }
+
+    const data: CreateWebhookEndpointData = {
+      url: formData.url.trim(),
+      description: formData.description.trim() || null,
+      events: formData.events,
+      isActive: formData.isActive,
+    };
+
+    try {
+      if (editingWebhook) {
+        await updateMutation.mutateAsync({ id: editingWebhook._id, data });
+        showSuccess('Webhook updated successfully.');
+      } else {
+        await createMutation.mutateAsync(data);
+        showSuccess('Webhook created. Copy its signing secret from the edit dialog.');
+      }
+
+      setDialogOpen(false);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save webhook');
+    }
+  }, [formData, editingWebhook, createMutation, updateMutation, showSuccess, showError]);
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" py={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error">
+        Failed to load webhooks: {error instanceof Error ? error.message : 'Unknown error'}
+      </Alert>
+    );
+  }
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h6" component="h2">
+            Webhooks
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Signed POST requests sent to your own tools when events happen. Failed deliveries are retried with backoff.
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={openCreateDialog}
+        >
+          Add Webhook
+        </Button>
+      </Stack>
+
+      {webhooks.length === 0 ? (
+        <Typography color="text.secondary" textAlign="center" py={4}>
+          No webhooks yet. Add an endpoint URL to start receiving events.
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small" aria-label="Webhooks">
+            <TableHead>
+              <TableRow>
+                <TableCell>URL</TableCell>
+                <TableCell>Events</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow key={webhook._id} hover>
+                  <TableCell sx={{ maxWidth: 320 }}>
+                    <Typography variant="body2" fontFamily="monospace" noWrap title={webhook.url}>
+                      {webhook.url}
+                    </Typography>
+                    {webhook.description && (
+                      <Typography variant="caption" color="text.secondary">{webhook.description}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Stack direction="row" gap={0.5} flexWrap="wrap">
+                      {webhook.events.map((event) => (
+                        <Chip key={event} label={event} size="small" variant="outlined" />
+                      ))}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={webhook.isActive ? 'Active' : 'Paused'}
+                      size="small"
+                      color={webhook.isActive ? 'success' : 'default'}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Send test event">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleTest(webhook)}
+                          disabled={testMutation.isPending}
+                          aria-label={`Send test event to ${webhook.url}`}
+                        >
+                          <SendIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Deliveries">
+                      <IconButton size="small" onClick={() => setDeliveriesFor(webhook)} aria-label={`Deliveries for ${webhook.url}`}>
+                        <HistoryIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <IconButton size="small" onClick={() => openEditDialog(webhook)} aria-label={`Edit ${webhook.url}`}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => handleDelete(webhook)} aria-label={`Delete ${webhook.url}`}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+        aria-labelledby="webhook-dialog-title"
+      >
+        <form onSubmit={handleSubmit}>
+          <DialogTitle id="webhook-dialog-title">
+            {editingWebhook ? 'Edit Webhook' : 'Add Webhook'}
+          </DialogTitle>
+
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                id="webhook-url"
+                label="Endpoint URL"
+                type="url"
+                value={formData.url}
+                onChange={(e) => setFormData((prev) => ({ ...prev, url: e.target.value }))}
+                required
+                fullWidth
+                autoFocus
+                placeholder="https://example.com/hooks/orders"
+                helperText="http://localhost URLs work for testing against a local receiver"
+              />
+              <TextField
+                id="webhook-description"
+                label="Description"
+                value={formData.description}
+                onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                fullWidth
+              />
+
+              <Box>
+                <FormLabel component="legend">Events</FormLabel>
+                <FormGroup>
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <FormControlLabel
+                      key={event.value}
+                      control={
+                        <Checkbox
+                          checked={formData.events.includes(event.value)}
+                          onChange={() => toggleEvent(event.value)}
+                        />
+                      }
+                      label={
+                        <Box>
+                          <Typography variant="body2" fontFamily="monospace">{event.value}</Typography>
+                          <Typography variant="caption" color="text.secondary">{event.description}</Typography>
+                        </Box>
+                      }
+                    />
+                  ))}
+                </FormGroup>
+              </Box>
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, isActive: e.target.checked }))}
+                  />
+                }
+                label="Active"
+              />
+
+              {editingWebhook && (
+                <Box>
+                  <TextField
+                    id="webhook-secret"
+                    label="Signing secret"
+                    value={editingWebhook.secret}
+                    fullWidth
+                    InputProps={{
+                      readOnly: true,
+                      sx: { fontFamily: 'monospace' },
+                      endAdornment: (
+                        <InputAdornment position="end">
+                          <IconButton onClick={() => copySecret(editingWebhook.secret)} aria-label="Copy signing secret" edge="end">
+                            <ContentCopyIcon fontSize="small" />
+                          </IconButton>
+                        </InputAdornment>
+                      ),
+                    }}
+                    helperText="Verify X-Webhook-Signature: sha256=HMAC-SHA256(secret, X-Webhook-Timestamp + '.' + raw body)"
+                  />
+                  <Button size="small" color="warning" onClick={handleRotateSecret} disabled={isSaving} sx={{ mt: 1 }}>
+                    Rotate secret
+                  </Button>
+                </Box>
+              )}
+            </Stack>
+          </DialogContent>
+
+          <DialogActions>
+            <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={isSaving}>
+              {isSaving ? <CircularProgress size={20} /> : 'Save'}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      {deliveriesFor && (
+        <WebhookDeliveriesDialog
+          key={deliveriesFor._id}
+          endpoint={deliveriesFor}
+          onClose={() => setDeliveriesFor(null)}
+        />
+      )}
+    </Paper>
+  );
+}
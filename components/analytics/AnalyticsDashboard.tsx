@@ -21,6 +21,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from '@/lib/queryKeys';
 import { type AnalyticsFilters } from '@/hooks/queries/useAdvancedAnalyticsQueries';
 import ProfitAnalytics from './ProfitAnalytics';
+import PromotionAnalytics from './PromotionAnalytics';
 import SalesTrends from './SalesTrends';
 import TopItemsChart from './TopItemsChart';
 import TopCustomersChart from './TopCustomersChart';
@@ -346,6 +347,7 @@ function AnalyticsDashboard() {
               externalFilters={globalFilters} 
               showDateFilters={false}
             />
+            <PromotionAnalytics filters={globalFilters} />
           </TabPanel>
 
           {/* Sales Trends Tab */}
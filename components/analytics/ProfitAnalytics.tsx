@@ -15,6 +15,8 @@ import TextField from '@mui/material/TextField';
 import CircularProgress from '@mui/material/CircularProgress';
 import Alert from '@mui/material/Alert';
 import Chip from '@mui/material/Chip';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Switch from '@mui/material/Switch';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import AttachMoneyIcon from '@mui/icons-material/AttachMoney';
@@ -49,17 +51,20 @@ function ProfitAnalytics({
   
   const [startDate, setStartDate] = useState(initialStartDate || '');
   const [endDate, setEndDate] = useState(initialEndDate || '');
+  const [excludeTax, setExcludeTax] = useState(false);
 
   // Use external filters if provided, otherwise use local state
   const filters: AnalyticsFilters = useMemo(() => {
+    const revenueBasis = excludeTax ? 'net' : 'gross';
     if (externalFilters) {
-      return externalFilters;
+      return { ...externalFilters, revenueBasis };
     }
     return {
       startDate: startDate || undefined,
       endDate: endDate || undefined,
+      revenueBasis,
     };
-  }, [externalFilters, startDate, endDate]);
+  }, [externalFilters, startDate, endDate, excludeTax]);
 
   const { data, isLoading, error } = useProfitAnalytics(filters);
 
@@ -158,6 +163,17 @@ function ProfitAnalytics({
         </Box>
       )}
 
+      <FormControlLabel
+        control={
+          <Switch
+            checked={excludeTax}
+            onChange={(e) => setExcludeTax(e.target.checked)}
+          />
+        }
+        label="Revenue excluding GST"
+        sx={{ mb: 2 }}
+      />
+
       {/* Summary Cards */}
       <Grid 
         container 
@@ -169,7 +185,7 @@ function ProfitAnalytics({
         <Grid size={{ xs: 6, sm: 3 }}>
           <StatCard
             value={formatPrice(summary?.totalRevenue || 0)}
-            label="Total Revenue"
+            label={excludeTax ? 'Net Revenue (ex. GST)' : 'Total Revenue'}
             icon={<AttachMoneyIcon fontSize="large" aria-hidden="true" />}
             color="primary"
           />
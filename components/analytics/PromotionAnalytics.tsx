@@ -0,0 +1,102 @@
+'use client';
+
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Paper from '@mui/material/Paper';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import { usePromotionAnalytics, type AnalyticsFilters } from '@/hooks/queries/useAdvancedAnalyticsQueries';
+import { useCurrency } from '@/contexts/CurrencyContext';
+
+interface PromotionAnalyticsProps {
+  /** Date range from the dashboard */
+  filters: AnalyticsFilters;
+}
+
+/**
+ * Revenue given up to each promotion code in the selected period
+ * Cancelled orders are left out since they no longer hold a redemption.
+ */
+function PromotionAnalytics({ filters }: Readonly<PromotionAnalyticsProps>) {
+  const { formatPrice } = useCurrency();
+  const { data, isLoading, error } = usePromotionAnalytics(filters);
+
+  if (isLoading) {
+    return (
+      <Box
+        sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', py: 4 }}
+        role="status"
+        aria-label="Loading promotion analytics"
+      >
+        <CircularProgress aria-hidden="true" />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert severity="error" role="alert" sx={{ mb: 2 }}>
+        Failed to load promotion analytics: {error instanceof Error ? error.message : 'Unknown error'}
+      </Alert>
+    );
+  }
+
+  const items = data?.items || [];
+
+  return (
+    <Box component="section" aria-labelledby="promotion-analytics-heading" sx={{ mt: 4 }}>
+      <Typography id="promotion-analytics-heading" variant="h6" component="h3" gutterBottom>
+        Discounts by Promotion
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {formatPrice(data?.totalDiscountGiven || 0)} given up across {data?.totalOrders || 0} orders
+      </Typography>
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small" aria-labelledby="promotion-analytics-heading">
+          <TableHead>
+            <TableRow>
+              <TableCell scope="col">Code</TableCell>
+              <TableCell scope="col" align="right">Orders</TableCell>
+              <TableCell scope="col" align="right">Discount Given</TableCell>
+              <TableCell scope="col" align="right">Order Revenue</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <Typography variant="body2" color="text.secondary">
+                    No promotions were used in the selected period
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((row) => (
+                <TableRow key={row.promotionId}>
+                  <TableCell component="th" scope="row">
+                    <Typography variant="body2" fontWeight={600}>{row.code}</Typography>
+                    <Typography variant="caption" color="text.secondary">{row.name}</Typography>
+                  </TableCell>
+                  <TableCell align="right">{row.orderCount}</TableCell>
+                  <TableCell align="right" sx={{ color: 'error.main' }}>
+                    -{formatPrice(row.discountGiven)}
+                  </TableCell>
+                  <TableCell align="right">{formatPrice(row.revenue)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
+
+export default PromotionAnalytics;
@@ -151,6 +151,7 @@ function OverviewView({ currentStats, analytics, selectedRange, formatPrice, tim
                 <TableCell align="right">Orders</TableCell>
                 <TableCell align="right">Customers</TableCell>
                 <TableCell align="right">Total Sales</TableCell>
+                <TableCell align="right">Net of GST</TableCell>
                 <TableCell align="right">Avg. Order Value</TableCell>
               </TableRow>
             </TableHead>
@@ -167,6 +168,7 @@ function OverviewView({ currentStats, analytics, selectedRange, formatPrice, tim
                   <TableCell align="right">{analytics[range.key]?.orderCount || 0}</TableCell>
                   <TableCell align="right">{analytics[range.key]?.uniqueCustomers || 0}</TableCell>
                   <TableCell align="right">{formatPrice(analytics[range.key]?.totalSales || 0)}</TableCell>
+                  <TableCell align="right">{formatPrice(analytics[range.key]?.netSales || 0)}</TableCell>
                   <TableCell align="right">{formatPrice(analytics[range.key]?.averageOrderValue || 0)}</TableCell>
                 </TableRow>
               ))}
@@ -74,6 +74,16 @@ function ItemCard({
             {item.specialFeatures}
           </Typography>
         )}
+        {item.trackStock && (
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+            {item.stockQuantity} on hand
+            {(item.reservedQuantity ?? 0) > 0 && ` · ${item.reservedQuantity} reserved`}
+            {' · '}
+            <Box component="span" sx={{ fontWeight: 600, color: (item.availableQuantity ?? item.stockQuantity) > 0 ? 'success.main' : 'error.main' }}>
+              {item.availableQuantity ?? item.stockQuantity} available
+            </Box>
+          </Typography>
+        )}
       </CardContent>
       <CardActions sx={{ justifyContent: 'flex-end', p: 1.5 }}>
         {onCopy && (
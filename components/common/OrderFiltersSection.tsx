@@ -1,51 +1,145 @@
 'use client';
 
+import { useState } from 'react';
 import Paper from '@mui/material/Paper';
 import TextField from '@mui/material/TextField';
 import Button from '@mui/material/Button';
+import Collapse from '@mui/material/Collapse';
 import Grid from '@mui/material/Grid2';
 import FormControl from '@mui/material/FormControl';
 import InputLabel from '@mui/material/InputLabel';
 import Select, { SelectChangeEvent } from '@mui/material/Select';
+import Checkbox from '@mui/material/Checkbox';
+import ListItemText from '@mui/material/ListItemText';
 import MenuItem from '@mui/material/MenuItem';
 import InputAdornment from '@mui/material/InputAdornment';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
 import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
+import TuneIcon from '@mui/icons-material/Tune';
+import EventRepeatIcon from '@mui/icons-material/EventRepeat';
+import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
 import {
   ORDER_SOURCES,
+  ORDER_STATUSES,
   PAYMENT_STATUSES,
   CONFIRMATION_STATUSES,
+  DELIVERY_STATUSES,
 } from '@/constants/orderConstants';
-
-interface OrderFilters {
-  orderId: string;
-  customerName: string;
-  customerId: string;
-  orderFrom: string;
-  confirmationStatus: string;
-  paymentStatus: string;
-}
+import { useCategories } from '@/hooks/queries/useCategoriesQueries';
+import { useTags } from '@/hooks/queries/useTagsQueries';
+import type { OrderFilters } from '@/hooks/domain/useOrderFilters';
+import type { OrderFacetField, OrderSearchFacets } from '@/types';
 
 interface OrderFiltersSectionProps {
   filters: OrderFilters;
+  /** Matching orders per value, shown next to each option */
+  facets?: OrderSearchFacets | null;
   onFilterChange: (field: keyof OrderFilters, value: string) => void;
   onClearFilters: () => void;
 }
 
-function OrderFiltersSection({ filters, onFilterChange, onClearFilters }: OrderFiltersSectionProps) {
+const FACET_SELECTS: Array<{
+  field: OrderFacetField;
+  label: string;
+  allLabel: string;
+  options: Array<{ value: string; label: string }>;
+}> = [
+  { field: 'orderFrom', label: 'Source', allLabel: 'All Sources', options: ORDER_SOURCES },
+  { field: 'confirmationStatus', label: 'Confirmation', allLabel: 'All Confirmations', options: CONFIRMATION_STATUSES },
+  { field: 'paymentStatus', label: 'Payment', allLabel: 'All Payments', options: PAYMENT_STATUSES },
+  { field: 'status', label: 'Order Status', allLabel: 'All Statuses', options: ORDER_STATUSES },
+  { field: 'deliveryStatus', label: 'Delivery', allLabel: 'All Deliveries', options: DELIVERY_STATUSES },
+];
+
+const DATE_FIELDS: Array<{ field: keyof OrderFilters; label: string }> = [
+  { field: 'createdFrom', label: 'Created From' },
+  { field: 'createdTo', label: 'Created To' },
+  { field: 'deliveryFrom', label: 'Delivery From' },
+  { field: 'deliveryTo', label: 'Delivery To' },
+  { field: 'updatedFrom', label: 'Last Changed From' },
+  { field: 'updatedTo', label: 'Last Changed To' },
+];
+
+const RELATIVE_DATE = /^today(?:([+\- ])(\d+))?$/;
+
+/** Days from today in a relative date: today-5 → -5; null when the value is not relative */
+const getRelativeOffset = (value: string): number | null => {
+  const match = RELATIVE_DATE.exec(value);
+  if (!match) return null;
+  return match[2] ? Number(match[2]) * (match[1] === '-' ? -1 : 1) : 0;
+};
+
+const toRelativeDate = (days: number): string => {
+  if (days === 0) return 'today';
+  return days > 0 ? `today+${days}` : `today${days}`;
+};
+
+const describeRelativeOffset = (days: number): string => {
+  if (days === 0) return 'Today';
+  const unit = Math.abs(days) === 1 ? 'day' : 'days';
+  return days < 0 ? `${-days} ${unit} ago` : `In ${days} ${unit}`;
+};
+
+function OrderFiltersSection({ filters, facets, onFilterChange, onClearFilters }: OrderFiltersSectionProps) {
+  const [showMore, setShowMore] = useState(false);
+  const { data: categories = [] } = useCategories();
+  const { data: tags = [] } = useTags();
+
   const handleSelectChange = (field: keyof OrderFilters) => (e: SelectChangeEvent<string>) => {
     onFilterChange(field, e.target.value);
   };
 
+  const formatOptionLabel = (field: OrderFacetField, value: string, label: string) => {
+    if (!facets) return label;
+    return `${label} (${facets[field]?.[value] ?? 0})`;
+  };
+
+  const handleMultiSelectChange = (field: keyof OrderFilters) => (e: SelectChangeEvent<string[]>) => {
+    const { value } = e.target;
+    onFilterChange(field, (Array.isArray(value) ? value : value.split(',')).join(','));
+  };
+
+  const renderFacetSelect = ({ field, label, allLabel, options }: typeof FACET_SELECTS[number]) => {
+    const selected = filters[field] ? filters[field].split(',') : [];
+    return (
+      <Grid key={field} size={{ xs: 6, sm: 6, md: 3 }}>
+        <FormControl size="small" fullWidth>
+          <InputLabel shrink>{label}</InputLabel>
+          <Select
+            multiple
+            displayEmpty
+            value={selected}
+            label={label}
+            notched
+            onChange={handleMultiSelectChange(field)}
+            renderValue={(values) => values.length === 0
+              ? allLabel
+              : values.map(value => options.find(option => option.value === value)?.label ?? value).join(', ')}
+          >
+            {options.map(option => (
+              <MenuItem key={option.value} value={option.value}>
+                <Checkbox size="small" checked={selected.includes(option.value)} sx={{ py: 0 }} />
+                <ListItemText primary={formatOptionLabel(field, option.value, option.label)} />
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+    );
+  };
+
   return (
     <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
       <Grid container spacing={2}>
-        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+        <Grid size={{ xs: 12, md: 6 }}>
           <TextField
             size="small"
-            label="Search by Order ID"
-            value={filters.orderId}
-            onChange={(e) => onFilterChange('orderId', e.target.value)}
+            label="Search orders"
+            placeholder="Order ID, customer, address, notes or item"
+            value={filters.q}
+            onChange={(e) => onFilterChange('q', e.target.value)}
             fullWidth
             slotProps={{
               input: {
@@ -58,15 +152,6 @@ function OrderFiltersSection({ filters, onFilterChange, onClearFilters }: OrderF
             }}
           />
         </Grid>
-        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
-          <TextField
-            size="small"
-            label="Customer Name"
-            value={filters.customerName}
-            onChange={(e) => onFilterChange('customerName', e.target.value)}
-            fullWidth
-          />
-        </Grid>
         <Grid size={{ xs: 12, sm: 6, md: 3 }}>
           <TextField
             size="small"
@@ -76,60 +161,20 @@ function OrderFiltersSection({ filters, onFilterChange, onClearFilters }: OrderF
             fullWidth
           />
         </Grid>
-        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
-          <FormControl size="small" fullWidth>
-            <InputLabel>Source</InputLabel>
-            <Select
-              value={filters.orderFrom}
-              label="Source"
-              onChange={handleSelectChange('orderFrom')}
-            >
-              <MenuItem value="">All Sources</MenuItem>
-              {ORDER_SOURCES.map(source => (
-                <MenuItem key={source.value} value={source.value}>
-                  {source.label}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Grid>
+        {FACET_SELECTS.slice(0, 3).map(renderFacetSelect)}
         <Grid size={{ xs: 6, sm: 6, md: 3 }}>
-          <FormControl size="small" fullWidth>
-            <InputLabel>Status</InputLabel>
-            <Select
-              value={filters.confirmationStatus}
-              label="Status"
-              onChange={handleSelectChange('confirmationStatus')}
-            >
-              <MenuItem value="">All Statuses</MenuItem>
-              {CONFIRMATION_STATUSES.map(status => (
-                <MenuItem key={status.value} value={status.value}>
-                  {status.label}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
+          <Button
+            variant="text"
+            startIcon={<TuneIcon />}
+            onClick={() => setShowMore(prev => !prev)}
+            fullWidth
+          >
+            {showMore ? 'Fewer Filters' : 'More Filters'}
+          </Button>
         </Grid>
         <Grid size={{ xs: 6, sm: 6, md: 3 }}>
-          <FormControl size="small" fullWidth>
-            <InputLabel>Payment</InputLabel>
-            <Select
-              value={filters.paymentStatus}
-              label="Payment"
-              onChange={handleSelectChange('paymentStatus')}
-            >
-              <MenuItem value="">All Payments</MenuItem>
-              {PAYMENT_STATUSES.map(status => (
-                <MenuItem key={status.value} value={status.value}>
-                  {status.label}
-                </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
-        </Grid>
-        <Grid size={{ xs: 12, sm: 6, md: 3 }}>
-          <Button 
-            variant="outlined" 
+          <Button
+            variant="outlined"
             startIcon={<ClearIcon />}
             onClick={onClearFilters}
             fullWidth
@@ -138,6 +183,86 @@ function OrderFiltersSection({ filters, onFilterChange, onClearFilters }: OrderF
           </Button>
         </Grid>
       </Grid>
+
+      <Collapse in={showMore}>
+        <Grid container spacing={2} sx={{ mt: 0.5 }}>
+          {FACET_SELECTS.slice(3).map(renderFacetSelect)}
+          <Grid size={{ xs: 6, sm: 6, md: 3 }}>
+            <FormControl size="small" fullWidth>
+              <InputLabel>Category</InputLabel>
+              <Select
+                value={filters.categoryId}
+                label="Category"
+                onChange={handleSelectChange('categoryId')}
+              >
+                <MenuItem value="">All Categories</MenuItem>
+                {categories.map(category => (
+                  <MenuItem key={category._id} value={String(category._id)}>
+                    {category.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, sm: 6, md: 3 }}>
+            <FormControl size="small" fullWidth>
+              <InputLabel>Tag</InputLabel>
+              <Select
+                value={filters.tagId}
+                label="Tag"
+                onChange={handleSelectChange('tagId')}
+              >
+                <MenuItem value="">All Tags</MenuItem>
+                {tags.map(tag => (
+                  <MenuItem key={tag._id} value={String(tag._id)}>
+                    {tag.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          {DATE_FIELDS.map(({ field, label }) => {
+            // Relative dates (today-5) keep saved views current; they are entered as days from today
+            const offset = getRelativeOffset(filters[field]);
+            const isRelative = offset !== null;
+            return (
+              <Grid key={field} size={{ xs: 6, sm: 6, md: 3 }}>
+                <TextField
+                  size="small"
+                  type={isRelative ? 'number' : 'date'}
+                  label={isRelative ? `${label} (days from today)` : label}
+                  value={isRelative ? offset : filters[field]}
+                  onChange={(e) => onFilterChange(
+                    field,
+                    isRelative ? toRelativeDate(Math.trunc(Number(e.target.value) || 0)) : e.target.value
+                  )}
+                  helperText={isRelative ? describeRelativeOffset(offset) : undefined}
+                  fullWidth
+                  slotProps={{
+                    inputLabel: { shrink: true },
+                    input: {
+                      endAdornment: (
+                        <InputAdornment position="end">
+                          <Tooltip title={isRelative ? 'Pick a fixed date' : 'Use days from today'}>
+                            <IconButton
+                              size="small"
+                              edge="end"
+                              aria-label={isRelative ? `Pick a fixed ${label} date` : `Set ${label} relative to today`}
+                              onClick={() => onFilterChange(field, isRelative ? '' : 'today')}
+                            >
+                              {isRelative ? <CalendarMonthIcon fontSize="small" /> : <EventRepeatIcon fontSize="small" />}
+                            </IconButton>
+                          </Tooltip>
+                        </InputAdornment>
+                      ),
+                    },
+                  }}
+                />
+              </Grid>
+            );
+          })}
+        </Grid>
+      </Collapse>
     </Paper>
   );
 }
@@ -3,13 +3,14 @@
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
 import Grid from '@mui/material/Grid2';
-import TextField from '@mui/material/TextField';
 import FormControl from '@mui/material/FormControl';
 import InputLabel from '@mui/material/InputLabel';
+import FormHelperText from '@mui/material/FormHelperText';
 import Select, { SelectChangeEvent } from '@mui/material/Select';
 import MenuItem from '@mui/material/MenuItem';
 import Chip from '@mui/material/Chip';
 import { PAYMENT_STATUSES } from '@/constants/orderConstants';
+import { LEDGER_PAYMENT_STATUSES } from '@/lib/utils/orderLifecycle';
 import type { PaymentStatus } from '@/types';
 
 interface PaymentData {
@@ -64,25 +65,18 @@ function PaymentInfoSection({
                 onChange={handleSelectChange}
               >
                 {PAYMENT_STATUSES.map(status => (
-                  <MenuItem key={status.value} value={status.value}>
+                  <MenuItem
+                    key={status.value}
+                    value={status.value}
+                    disabled={LEDGER_PAYMENT_STATUSES.includes(status.value) && status.value !== data.paymentStatus}
+                  >
                     {status.label}
                   </MenuItem>
                 ))}
               </Select>
+              <FormHelperText>Paid and partially paid follow the recorded payments</FormHelperText>
             </FormControl>
           </Grid>
-          {data.paymentStatus === 'partially_paid' && (
-            <Grid size={{ xs: 12, sm: 6 }}>
-              <TextField
-                label="Amount Paid"
-                type="number"
-                inputProps={{ min: 0, step: 0.01 }}
-                value={data.paidAmount}
-                onChange={(e) => onDataChange('paidAmount', e.target.value)}
-                fullWidth
-              />
-            </Grid>
-          )}
         </Grid>
       </Box>
     );
@@ -108,7 +102,7 @@ function PaymentInfoSection({
             color={getPaymentStatusColor(data.paymentStatus)}
           />
         </Grid>
-        {data.paymentStatus === 'partially_paid' && (
+        {paidAmount > 0 && (
           <>
             <Grid size={{ xs: 6 }}>
               <Typography variant="body2" color="text.secondary">Amount Paid:</Typography>
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState, type ReactElement, type FormEvent } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Autocomplete from '@mui/material/Autocomplete';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Checkbox from '@mui/material/Checkbox';
+import Chip from '@mui/material/Chip';
+import Grid from '@mui/material/Grid2';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCustomerAddresses, useSaveCustomerAddress, useDeleteCustomerAddress } from '@/hooks/queries/useCustomersQueries';
+import { INDIAN_STATES } from '@/constants/gstConstants';
+import { CUSTOMER_ADDRESS_LABELS } from '@/constants/customerContactConstants';
+import { formatCustomerAddress } from '@/lib/utils/customerContactUtils';
+import type { CustomerAddress, CustomerAddressData } from '@/types';
+
+interface AddressFormData {
+  label: string;
+  line1: string;
+  line2: string;
+  landmark: string;
+  city: string;
+  state: string;
+  pinCode: string;
+  isDefault: boolean;
+}
+
+function toFormData(address: CustomerAddress | null): AddressFormData {
+  return {
+    label: address?.label ?? '',
+    line1: address?.line1 ?? '',
+    line2: address?.line2 ?? '',
+    landmark: address?.landmark ?? '',
+    city: address?.city ?? '',
+    state: address?.state ?? '',
+    pinCode: address?.pinCode ?? '',
+    isDefault: address?.isDefault ?? false,
+  };
+}
+
+interface AddressEditorProps {
+  address: CustomerAddress | null;
+  saving: boolean;
+  onSave: (data: CustomerAddressData) => void;
+  onCancel: () => void;
+}
+
+function AddressEditor({ address, saving, onSave, onCancel }: Readonly<AddressEditorProps>): ReactElement {
+  const [form, setForm] = useState<AddressFormData>(() => toFormData(address));
+
+  const setField = (field: keyof AddressFormData) => (value: string | boolean) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({
+      label: form.label.trim() || null,
+      line1: form.line1.trim(),
+      line2: form.line2.trim() || null,
+      landmark: form.landmark.trim() || null,
+      city: form.city.trim() || null,
+      state: form.state || null,
+      pinCode: form.pinCode.trim() || null,
+      // Turning the default off is done by making another address the default
+      ...(form.isDefault && !address?.isDefault ? { isDefault: true } : {}),
+    });
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ p: 2, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+      <Grid container spacing={1.5}>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <Autocomplete
+            freeSolo
+            options={CUSTOMER_ADDRESS_LABELS}
+            inputValue={form.label}
+            onInputChange={(_event, value) => setField('label')(value)}
+            renderInput={(params) => <TextField {...params} label="Label" size="small" placeholder="Home" />}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <TextField
+            label="PIN Code"
+            value={form.pinCode}
+            onChange={(e) => setField('pinCode')(e.target.value)}
+            size="small"
+            fullWidth
+            slotProps={{ htmlInput: { inputMode: 'numeric', maxLength: 7 } }}
+          />
+        </Grid>
+        <Grid size={{ xs: 12 }}>
+          <TextField
+            label="Address Line 1"
+            value={form.line1}
+            onChange={(e) => setField('line1')(e.target.value)}
+            size="small"
+            fullWidth
+            required
+            placeholder="House / flat number, street"
+          />
+        </Grid>
+        <Grid size={{ xs: 12 }}>
+          <TextField
+            label="Address Line 2"
+            value={form.line2}
+            onChange={(e) => setField('line2')(e.target.value)}
+            size="small"
+            fullWidth
+            placeholder="Area, locality"
+          />
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <TextField
+            label="Landmark"
+            value={form.landmark}
+            onChange={(e) => setField('landmark')(e.target.value)}
+            size="small"
+            fullWidth
+          />
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <TextField
+            label="City"
+            value={form.city}
+            onChange={(e) => setField('city')(e.target.value)}
+            size="small"
+            fullWidth
+          />
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <FormControl fullWidth size="small">
+            <InputLabel id="address-state-label">State</InputLabel>
+            <Select
+              labelId="address-state-label"
+              value={form.state}
+              label="State"
+              onChange={(e) => setField('state')(e.target.value)}
+            >
+              <MenuItem value="">
+                <em>Not set</em>
+              </MenuItem>
+              {INDIAN_STATES.map((state) => (
+                <MenuItem key={state} value={state}>
+                  {state}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={form.isDefault}
+                disabled={address?.isDefault}
+                onChange={(e) => setField('isDefault')(e.target.checked)}
+              />
+            }
+            label="Default address"
+          />
+        </Grid>
+      </Grid>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1.5 }}>
+        <Button onClick={onCancel} disabled={saving}>Cancel</Button>
+        <Button type="submit" variant="contained" disabled={saving || !form.line1.trim()}>
+          {saving ? 'Saving...' : 'Save Address'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+interface CustomerAddressListProps {
+  customerId: number;
+}
+
+/**
+ * A customer's saved addresses: add, edit, delete and pick the default
+ */
+export default function CustomerAddressList({ customerId }: Readonly<CustomerAddressListProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const { data: addresses = [], isLoading, error } = useCustomerAddresses(customerId);
+  const saveMutation = useSaveCustomerAddress();
+  const deleteMutation = useDeleteCustomerAddress();
+  const [editing, setEditing] = useState<CustomerAddress | 'new' | null>(null);
+
+  const handleSave = async (data: Partial<CustomerAddressData>, id?: number) => {
+    try {
+      await saveMutation.mutateAsync({ customerId, id, data });
+      setEditing(null);
+      showSuccess('Address saved');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save address');
+    }
+  };
+
+  const handleDelete = async (address: CustomerAddress) => {
+    if (!globalThis.confirm(`Delete the address "${formatCustomerAddress(address)}"? Orders already sent there keep their copy.`)) {
+      return;
+    }
+    try {
+      await deleteMutation.mutateAsync({ customerId, id: address.id });
+      showSuccess('Address deleted');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete address');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle2">Addresses</Typography>
+        <Button size="small" startIcon={<AddIcon />} onClick={() => setEditing('new')} disabled={editing !== null}>
+          Add Address
+        </Button>
+      </Box>
+      {isLoading && <CircularProgress size={20} />}
+      {error && <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load addresses'}</Alert>}
+      <Stack spacing={1}>
+        {editing === 'new' && (
+          <AddressEditor
+            address={null}
+            saving={saveMutation.isPending}
+            onSave={(data) => handleSave(data)}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+        {addresses.map((address) => (editing !== 'new' && editing?.id === address.id ? (
+          <AddressEditor
+            key={address.id}
+            address={address}
+            saving={saveMutation.isPending}
+            onSave={(data) => handleSave(data, address.id)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <Box key={address.id} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1, p: 1.5, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Box sx={{ display: 'flex', gap: 0.5, mb: 0.5 }}>
+                {address.label && <Chip label={address.label} size="small" variant="outlined" />}
+                {address.isDefault && <Chip label="Default" size="small" color="primary" />}
+              </Box>
+              <Typography variant="body2">{formatCustomerAddress(address)}</Typography>
+            </Box>
+            {!address.isDefault && (
+              <IconButton
+                size="small"
+                aria-label="Make default address"
+                title="Make default"
+                onClick={() => handleSave({ isDefault: true }, address.id)}
+                disabled={saveMutation.isPending}
+              >
+                <StarBorderIcon fontSize="small" />
+              </IconButton>
+            )}
+            <IconButton size="small" aria-label="Edit address" onClick={() => setEditing(address)} disabled={editing !== null}>
+              <EditIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" aria-label="Delete address" onClick={() => handleDelete(address)} disabled={deleteMutation.isPending}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        )))}
+        {!isLoading && addresses.length === 0 && editing === null && (
+          <Typography variant="body2" color="text.secondary">No saved addresses.</Typography>
+        )}
+      </Stack>
+    </Box>
+  );
+}
@@ -2,7 +2,6 @@
 
 import { useState, useCallback, useEffect, useMemo, type ReactElement, type SyntheticEvent } from 'react';
 import Autocomplete, { 
-  createFilterOptions, 
   type AutocompleteChangeReason,
 } from '@mui/material/Autocomplete';
 import type { FilterOptionsState } from '@mui/material';
@@ -13,7 +12,7 @@ import Typography from '@mui/material/Typography';
 import PersonAddIcon from '@mui/icons-material/PersonAdd';
 import { useCustomerSearch } from '@/hooks/queries/useCustomersQueries';
 import CustomerDialog from './CustomerDialog';
-import type { CustomerSummary } from '@/types';
+import type { Customer, CustomerSummary } from '@/types';
 
 const DEBOUNCE_DELAY = 300;
 const MIN_SEARCH_LENGTH = 2;
@@ -23,8 +22,6 @@ interface CustomerOption extends CustomerSummary {
   isAddNew?: boolean;
 }
 
-const filter = createFilterOptions<CustomerOption>();
-
 interface CustomerAutocompleteProps {
   value?: CustomerSummary | null;
   onChange: (customer: CustomerSummary | null) => void;
@@ -51,6 +48,7 @@ export default function CustomerAutocomplete({
   const [inputValue, setInputValue] = useState('');
   const [debouncedInput, setDebouncedInput] = useState('');
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [newCustomerName, setNewCustomerName] = useState('');
 
   // Debounce search input
   useEffect(() => {
@@ -87,13 +85,27 @@ export default function CustomerAutocomplete({
       newValue: string | CustomerOption | null,
       _reason: AutocompleteChangeReason
     ) => {
-      // Handle string input (from freeSolo)
+      // Text typed without picking a customer: pick the exact match or create one,
+      // so the value is always a real customer record
       if (typeof newValue === 'string') {
+        const typed = newValue.trim();
+        const match = options.find(option =>
+          [option.customerId, option.name, option.matchedContact?.value]
+            .some(candidate => candidate?.toLowerCase() === typed.toLowerCase())
+        );
+        if (match) {
+          const { isAddNew, ...customer } = match;
+          onChange(customer);
+        } else if (typed) {
+          setNewCustomerName(typed);
+          setDialogOpen(true);
+        }
         return;
       }
 
       if (newValue?.isAddNew) {
         // Open dialog to create new customer
+        setNewCustomerName(inputValue.trim());
         setDialogOpen(true);
       } else if (newValue) {
         // Selected an existing customer
@@ -103,7 +115,7 @@ export default function CustomerAutocomplete({
         onChange(null);
       }
     },
-    [onChange]
+    [onChange, options, inputValue]
   );
 
   // Handle dialog close
@@ -111,22 +123,20 @@ export default function CustomerAutocomplete({
     setDialogOpen(false);
   }, []);
 
-  // Handle successful customer creation
+  // Select the customer just created
   const handleCustomerCreated = useCallback(
-    (message: string) => {
-      // The customer was created - for now just close dialog
-      // In a real app, we might want to select the newly created customer
+    (customer: Customer) => {
       setDialogOpen(false);
-      // Clear input to trigger a new search
-      setInputValue('');
+      onChange({ id: customer.id, customerId: customer.customerId, name: customer.name, phone: customer.phone });
     },
-    []
+    [onChange]
   );
 
   // Filter options to include "Add new" when searching
   const filterOptions = useCallback(
     (options: CustomerOption[], state: FilterOptionsState<CustomerOption>): CustomerOption[] => {
-      const filtered = filter(options, state);
+      // The server already matched names, IDs and contacts, which the label alone would not
+      const filtered = [...options];
 
       // Add "create new" option if search has results or search is active
       if (state.inputValue.length >= MIN_SEARCH_LENGTH) {
@@ -177,6 +187,7 @@ export default function CustomerAutocomplete({
           <Typography variant="body1">{option.name}</Typography>
           <Typography variant="caption" color="text.secondary">
             {option.phone ?? 'No phone'} • ID: {option.customerId}
+            {option.matchedContact && ` • ${option.matchedContact.channel}: ${option.matchedContact.value}`}
           </Typography>
         </Box>
       );
@@ -259,7 +270,8 @@ export default function CustomerAutocomplete({
         open={dialogOpen}
         onClose={handleDialogClose}
         mode="create"
-        onSuccess={handleCustomerCreated}
+        initialName={newCustomerName}
+        onCreated={handleCustomerCreated}
       />
     </>
   );
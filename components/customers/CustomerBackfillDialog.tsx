@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, type ReactElement } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import LinearProgress from '@mui/material/LinearProgress';
+import CircularProgress from '@mui/material/CircularProgress';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCustomerBackfillStatus, useRunCustomerBackfill } from '@/hooks/queries/useCustomersQueries';
+import { formatDate } from '@/lib/utils/dateUtils';
+import type { CustomerBackfillReport } from '@/types';
+
+function ReportSummary({ report }: Readonly<{ report: CustomerBackfillReport }>): ReactElement {
+  const summary = report.dryRun
+    ? `Dry run: would link ${report.ordersLinked} of ${report.unlinkedOrders} orders, create ${report.customersCreated} customers and reuse ${report.customersMatched} existing ones. Nothing was changed.`
+    : `Linked ${report.ordersLinked} of ${report.unlinkedOrders} orders, created ${report.customersCreated} customers and reused ${report.customersMatched} existing ones.`;
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Alert severity={report.errorCount > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+        {summary}
+        {report.errorCount > 0 && ` ${report.errorCount} orders could not be linked; run it again to retry them.`}
+        {report.enforced && !report.dryRun && ' Every order now has to belong to a customer.'}
+      </Alert>
+      {report.errors.map(error => (
+        <Typography key={error.row} variant="body2" color="error">{error.message}</Typography>
+      ))}
+      {report.groups.length > 0 && (
+        <TableContainer sx={{ maxHeight: 320 }}>
+          <Table size="small" stickyHeader aria-label="Backfill report">
+            <TableHead>
+              <TableRow>
+                <TableCell>Customer ID on orders</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell align="right">Orders</TableCell>
+                <TableCell>Action</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.groups.map(group => (
+                <TableRow key={group.customerId}>
+                  <TableCell>{group.customerId}</TableCell>
+                  <TableCell>{group.customerName}</TableCell>
+                  <TableCell align="right">{group.orderCount}</TableCell>
+                  <TableCell>
+                    {group.action === 'create' ? (
+                      <Chip label="New customer" size="small" color="primary" variant="outlined" />
+                    ) : (
+                      <Chip label={`Link to ${group.linkedCustomerId}`} size="small" variant="outlined" />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
+
+interface CustomerBackfillDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Links orders that have no customer record to one, with a dry run first (admin only)
+ */
+export default function CustomerBackfillDialog({ open, onClose }: Readonly<CustomerBackfillDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const runMutation = useRunCustomerBackfill();
+  const { data: status, isLoading, error } = useCustomerBackfillStatus(open, runMutation.isPending);
+  const [report, setReport] = useState<CustomerBackfillReport | null>(null);
+
+  const latestJob = status?.jobs[0];
+  const running = runMutation.isPending || latestJob?.status === 'processing';
+
+  const handleRun = async (dryRun: boolean) => {
+    if (!dryRun && !globalThis.confirm(`Link ${status?.unlinkedOrders ?? 0} orders to customers, creating customers where needed?`)) {
+      return;
+    }
+    try {
+      const result = await runMutation.mutateAsync(dryRun);
+      setReport(result);
+      if (!dryRun) {
+        showSuccess(`Linked ${result.ordersLinked} orders to customers`);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to run customer backfill');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Link Orders to Customers</DialogTitle>
+      <DialogContent>
+        {isLoading && <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress size={28} /></Box>}
+        {error && <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load backfill status'}</Alert>}
+        {status && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Orders placed before customer records were required may only carry a customer ID and name.
+              This links each of them to the customer with that ID, creating customers where none exist.
+              Run a dry run first to see what will change.
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: 2 }}>
+              <Chip
+                label={`${status.unlinkedOrders} orders not linked`}
+                color={status.unlinkedOrders > 0 ? 'warning' : 'success'}
+              />
+              {status.enforced && <Chip label="Customer required on every order" color="success" variant="outlined" />}
+            </Box>
+            {running && latestJob && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="body2">
+                  {latestJob.fileName}: {latestJob.processedRecords} of {latestJob.totalRecords ?? 0} orders processed
+                </Typography>
+                <LinearProgress
+                  variant={latestJob.totalRecords ? 'determinate' : 'indeterminate'}
+                  value={latestJob.totalRecords ? (latestJob.processedRecords / latestJob.totalRecords) * 100 : 0}
+                  sx={{ mt: 1 }}
+                />
+              </Box>
+            )}
+            {report && <ReportSummary report={report} />}
+            {!report && latestJob && !running && (
+              <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2 }}>
+                Last run: {latestJob.fileName} on {formatDate(latestJob.createdAt, 'short')}, {latestJob.successCount} orders
+                {latestJob.errorCount > 0 ? `, ${latestJob.errorCount} failed` : ''} ({latestJob.status})
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button onClick={() => handleRun(true)} disabled={!status || running || status.unlinkedOrders === 0}>
+          Dry Run
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => handleRun(false)}
+          disabled={!status || running || (status.unlinkedOrders === 0 && status.enforced)}
+        >
+          Link Orders
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, type ReactElement, type FormEvent } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCustomerContacts, useSaveCustomerContact, useDeleteCustomerContact } from '@/hooks/queries/useCustomersQueries';
+import { CUSTOMER_CONTACT_CHANNELS, CUSTOMER_CONTACT_LABEL_MAX_LENGTH } from '@/constants/customerContactConstants';
+import type { CustomerContact, CustomerContactChannel, CustomerContactData } from '@/types';
+
+function channelLabel(channel: CustomerContactChannel): string {
+  return CUSTOMER_CONTACT_CHANNELS.find(option => option.value === channel)?.label ?? channel;
+}
+
+interface ContactEditorProps {
+  contact: CustomerContact | null;
+  saving: boolean;
+  onSave: (data: CustomerContactData) => void;
+  onCancel: () => void;
+}
+
+function ContactEditor({ contact, saving, onSave, onCancel }: Readonly<ContactEditorProps>): ReactElement {
+  const [channel, setChannel] = useState<CustomerContactChannel>(contact?.channel ?? 'phone');
+  const [value, setValue] = useState(contact?.value ?? '');
+  const [label, setLabel] = useState(contact?.label ?? '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({ channel, value: value.trim(), label: label.trim() || null });
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit}
+      sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, p: 1.5, border: 1, borderColor: 'divider', borderRadius: 1 }}
+    >
+      <FormControl size="small" sx={{ minWidth: 130 }}>
+        <InputLabel id="contact-channel-label">Channel</InputLabel>
+        <Select
+          labelId="contact-channel-label"
+          value={channel}
+          label="Channel"
+          onChange={(e) => setChannel(e.target.value as CustomerContactChannel)}
+        >
+          {CUSTOMER_CONTACT_CHANNELS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <TextField
+        label="Contact"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        size="small"
+        required
+        placeholder={CUSTOMER_CONTACT_CHANNELS.find(option => option.value === channel)?.placeholder}
+        sx={{ flex: 2, minWidth: 180 }}
+      />
+      <TextField
+        label="Label"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        size="small"
+        placeholder="Personal"
+        slotProps={{ htmlInput: { maxLength: CUSTOMER_CONTACT_LABEL_MAX_LENGTH } }}
+        sx={{ flex: 1, minWidth: 120 }}
+      />
+      <Box sx={{ display: 'flex', gap: 1, ml: 'auto' }}>
+        <Button onClick={onCancel} disabled={saving}>Cancel</Button>
+        <Button type="submit" variant="contained" disabled={saving || !value.trim()}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+interface CustomerContactListProps {
+  customerId: number;
+}
+
+/**
+ * A customer's contacts across phone, WhatsApp, Instagram, Facebook and email
+ */
+export default function CustomerContactList({ customerId }: Readonly<CustomerContactListProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const { data: contacts = [], isLoading, error } = useCustomerContacts(customerId);
+  const saveMutation = useSaveCustomerContact();
+  const deleteMutation = useDeleteCustomerContact();
+  const [editing, setEditing] = useState<CustomerContact | 'new' | null>(null);
+
+  const handleSave = async (data: CustomerContactData, id?: number) => {
+    try {
+      await saveMutation.mutateAsync({ customerId, id, data });
+      setEditing(null);
+      showSuccess('Contact saved');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save contact');
+    }
+  };
+
+  const handleDelete = async (contact: CustomerContact) => {
+    if (!globalThis.confirm(`Delete the ${channelLabel(contact.channel)} contact "${contact.value}"?`)) {
+      return;
+    }
+    try {
+      await deleteMutation.mutateAsync({ customerId, id: contact.id });
+      showSuccess('Contact deleted');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete contact');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle2">Contacts</Typography>
+        <Button size="small" startIcon={<AddIcon />} onClick={() => setEditing('new')} disabled={editing !== null}>
+          Add Contact
+        </Button>
+      </Box>
+      {isLoading && <CircularProgress size={20} />}
+      {error && <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load contacts'}</Alert>}
+      <Stack spacing={1}>
+        {editing === 'new' && (
+          <ContactEditor
+            contact={null}
+            saving={saveMutation.isPending}
+            onSave={(data) => handleSave(data)}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+        {contacts.map((contact) => (editing !== 'new' && editing?.id === contact.id ? (
+          <ContactEditor
+            key={contact.id}
+            contact={contact}
+            saving={saveMutation.isPending}
+            onSave={(data) => handleSave(data, contact.id)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <Box key={contact.id} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Chip label={channelLabel(contact.channel)} size="small" variant="outlined" sx={{ minWidth: 90 }} />
+            <Typography variant="body2" sx={{ flex: 1, minWidth: 0, overflowWrap: 'anywhere' }}>
+              {contact.value}
+              {contact.label && (
+                <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                  {contact.label}
+                </Typography>
+              )}
+            </Typography>
+            <IconButton size="small" aria-label="Edit contact" onClick={() => setEditing(contact)} disabled={editing !== null}>
+              <EditIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" aria-label="Delete contact" onClick={() => handleDelete(contact)} disabled={deleteMutation.isPending}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        )))}
+        {!isLoading && contacts.length === 0 && editing === null && (
+          <Typography variant="body2" color="text.secondary">No contacts saved.</Typography>
+        )}
+      </Stack>
+    </Box>
+  );
+}
@@ -15,7 +15,12 @@ import Box from '@mui/material/Box';
 import CircularProgress from '@mui/material/CircularProgress';
 import Alert from '@mui/material/Alert';
 import Stack from '@mui/material/Stack';
+import Divider from '@mui/material/Divider';
 import { useCreateCustomer, useUpdateCustomer } from '@/hooks/queries/useCustomersQueries';
+import { INDIAN_STATES } from '@/constants/gstConstants';
+import CustomerAddressList from './CustomerAddressList';
+import CustomerContactList from './CustomerContactList';
+import CustomerLoyaltyPanel from './CustomerLoyaltyPanel';
 import type { Customer, CustomerSource, CreateCustomerData, UpdateCustomerData, CustomerId } from '@/types';
 
 const SOURCE_OPTIONS: Array<{ value: CustomerSource; label: string }> = [
@@ -30,6 +35,7 @@ interface CustomerFormData {
   email: string;
   phone: string;
   address: string;
+  state: string;
   source: CustomerSource;
   notes: string;
 }
@@ -39,6 +45,7 @@ const INITIAL_FORM_DATA: CustomerFormData = {
   email: '',
   phone: '',
   address: '',
+  state: '',
   source: 'walk-in',
   notes: '',
 };
@@ -50,6 +57,10 @@ interface CustomerDialogProps {
   mode: 'create' | 'edit';
   onSuccess?: (message: string) => void;
   onError?: (message: string) => void;
+  /** Called with the new customer after one is created */
+  onCreated?: (customer: Customer) => void;
+  /** Prefills the name when creating */
+  initialName?: string;
 }
 
 export default function CustomerDialog({
@@ -59,6 +70,8 @@ export default function CustomerDialog({
   mode,
   onSuccess,
   onError,
+  onCreated,
+  initialName,
 }: CustomerDialogProps): ReactElement {
   const [formData, setFormData] = useState<CustomerFormData>(INITIAL_FORM_DATA);
   const [validationError, setValidationError] = useState<string | null>(null);
@@ -79,15 +92,16 @@ export default function CustomerDialog({
           email: customer.email ?? '',
           phone: customer.phone ?? '',
           address: customer.address ?? '',
+          state: customer.state ?? '',
           source: customer.source,
           notes: customer.notes ?? '',
         });
       } else {
-        setFormData(INITIAL_FORM_DATA);
+        setFormData({ ...INITIAL_FORM_DATA, name: initialName ?? '' });
       }
       setValidationError(null);
     }
-  }, [open, isEditMode, customer]);
+  }, [open, isEditMode, customer, initialName]);
 
   // Generate customer ID for new customers
   const generateCustomerId = useCallback((): string => {
@@ -107,6 +121,10 @@ export default function CustomerDialog({
     []
   );
 
+  const handleStateChange = useCallback((e: SelectChangeEvent<string>) => {
+    setFormData((prev) => ({ ...prev, state: e.target.value }));
+  }, []);
+
   const handleSourceChange = useCallback((e: SelectChangeEvent<CustomerSource>) => {
     setFormData((prev) => ({ ...prev, source: e.target.value as CustomerSource }));
   }, []);
@@ -137,7 +155,7 @@ export default function CustomerDialog({
             name: formData.name.trim(),
             email: formData.email.trim() || null,
             phone: formData.phone.trim() || null,
-            address: formData.address.trim() || null,
+            state: formData.state || null,
             source: formData.source,
             notes: formData.notes.trim() || null,
           };
@@ -156,12 +174,14 @@ export default function CustomerDialog({
             email: formData.email.trim() || undefined,
             phone: formData.phone.trim() || undefined,
             address: formData.address.trim() || undefined,
+            state: formData.state || undefined,
             source: formData.source,
             notes: formData.notes.trim() || undefined,
           };
 
-          await createMutation.mutateAsync(createData);
+          const created = await createMutation.mutateAsync(createData);
 
+          onCreated?.(created);
           onSuccess?.(`Customer "${formData.name}" created successfully.`);
         }
       } catch (err) {
@@ -179,6 +199,7 @@ export default function CustomerDialog({
       generateCustomerId,
       onSuccess,
       onError,
+      onCreated,
     ]
   );
 
@@ -193,9 +214,10 @@ export default function CustomerDialog({
       fullWidth
       aria-labelledby="customer-dialog-title"
     >
-      <form onSubmit={handleSubmit}>
-        <DialogTitle id="customer-dialog-title">{dialogTitle}</DialogTitle>
-        <DialogContent>
+      <DialogTitle id="customer-dialog-title">{dialogTitle}</DialogTitle>
+      <DialogContent>
+        {/* The address and contact editors are forms of their own, so this one wraps only the customer fields */}
+        <form id="customer-form" onSubmit={handleSubmit}>
           <Stack spacing={2} sx={{ mt: 1 }}>
             {validationError && (
               <Alert severity="error" role="alert">
@@ -240,15 +262,38 @@ export default function CustomerDialog({
               disabled={isLoading}
             />
 
-            <TextField
-              label="Address"
-              value={formData.address}
-              onChange={handleTextChange('address')}
-              fullWidth
-              multiline
-              rows={2}
-              disabled={isLoading}
-            />
+            {!isEditMode && (
+              <TextField
+                label="Address"
+                value={formData.address}
+                onChange={handleTextChange('address')}
+                fullWidth
+                multiline
+                rows={2}
+                disabled={isLoading}
+                helperText="Saved as the customer's default address"
+              />
+            )}
+
+            <FormControl fullWidth disabled={isLoading}>
+              <InputLabel id="state-label">State</InputLabel>
+              <Select
+                labelId="state-label"
+                id="state-select"
+                value={formData.state}
+                label="State"
+                onChange={handleStateChange}
+              >
+                <MenuItem value="">
+                  <em>Not set</em>
+                </MenuItem>
+                {INDIAN_STATES.map((state) => (
+                  <MenuItem key={state} value={state}>
+                    {state}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
 
             <FormControl fullWidth disabled={isLoading}>
               <InputLabel id="source-label">Source</InputLabel>
@@ -278,22 +323,34 @@ export default function CustomerDialog({
               placeholder="Internal notes about this customer..."
             />
           </Stack>
-        </DialogContent>
-        <DialogActions sx={{ px: 3, pb: 2 }}>
-          <Button onClick={onClose} disabled={isLoading}>
-            Cancel
-          </Button>
-          <Button
-            type="submit"
-            variant="contained"
-            color="primary"
-            disabled={isLoading}
-            startIcon={isLoading ? <CircularProgress size={16} color="inherit" /> : null}
-          >
-            {isLoading ? 'Saving...' : isEditMode ? 'Update' : 'Create'}
-          </Button>
-        </DialogActions>
-      </form>
+        </form>
+
+        {isEditMode && (
+          <>
+            <Divider sx={{ my: 3 }} />
+            <Stack spacing={3}>
+              <CustomerAddressList customerId={customer.id} />
+              <CustomerContactList customerId={customer.id} />
+              <CustomerLoyaltyPanel customerId={customer.id} />
+            </Stack>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          form="customer-form"
+          variant="contained"
+          color="primary"
+          disabled={isLoading}
+          startIcon={isLoading ? <CircularProgress size={16} color="inherit" /> : null}
+        >
+          {isLoading ? 'Saving...' : isEditMode ? 'Update' : 'Create'}
+        </Button>
+      </DialogActions>
     </Dialog>
   );
 }
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, type ReactElement } from 'react';
+import { useSession } from 'next-auth/react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import {
+  useCustomerDuplicates,
+  useCustomerMerges,
+  useMergeCustomers,
+  useRevertCustomerMerge,
+  useDismissCustomerDuplicate,
+} from '@/hooks/queries/useCustomersQueries';
+import { formatDate } from '@/lib/utils/dateUtils';
+import type { Customer, CustomerDuplicate } from '@/types';
+
+const SCORE_OPTIONS = [50, 70, 90];
+
+function scoreColor(score: number): 'error' | 'warning' | 'default' {
+  if (score >= 90) return 'error';
+  if (score >= 70) return 'warning';
+  return 'default';
+}
+
+interface CustomerCardProps {
+  customer: Customer;
+  canKeep: boolean;
+  disabled: boolean;
+  onKeep: () => void;
+}
+
+function CustomerCard({ customer, canKeep, disabled, onKeep }: Readonly<CustomerCardProps>): ReactElement {
+  const { formatPrice } = useCurrency();
+
+  return (
+    <Box sx={{ flex: 1, minWidth: 0 }}>
+      <Typography variant="subtitle2">{customer.name}</Typography>
+      <Typography variant="caption" color="text.secondary" component="div">
+        {customer.customerId}
+      </Typography>
+      <Typography variant="body2">{customer.phone || '—'}</Typography>
+      <Typography variant="body2" noWrap>{customer.email || '—'}</Typography>
+      <Typography variant="body2" color="text.secondary" noWrap title={customer.address || undefined}>
+        {customer.address || '—'}
+      </Typography>
+      <Typography variant="body2" sx={{ mt: 0.5 }}>
+        {customer.totalOrders} orders · {formatPrice(customer.totalSpent)}
+      </Typography>
+      {canKeep && (
+        <Button size="small" sx={{ mt: 1 }} onClick={onKeep} disabled={disabled}>
+          Keep this one
+        </Button>
+      )}
+    </Box>
+  );
+}
+
+interface DuplicateRowProps {
+  duplicate: CustomerDuplicate;
+  isAdmin: boolean;
+}
+
+function DuplicateRow({ duplicate, isAdmin }: Readonly<DuplicateRowProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const mergeMutation = useMergeCustomers();
+  const dismissMutation = useDismissCustomerDuplicate();
+  const [left, right] = duplicate.customers;
+  const busy = mergeMutation.isPending || dismissMutation.isPending;
+
+  const handleKeep = async (survivor: Customer, merged: Customer) => {
+    const confirmed = globalThis.confirm(
+      `Merge ${merged.name} (${merged.customerId}) into ${survivor.name} (${survivor.customerId})? `
+      + `Their ${merged.totalOrders} orders will move across. You can undo this under Recent Merges.`
+    );
+    if (!confirmed) return;
+    try {
+      const merge = await mergeMutation.mutateAsync({ survivorId: survivor.id, mergedId: merged.id, score: duplicate.score });
+      showSuccess(`Merged ${merged.customerId} into ${survivor.customerId} (${merge.orderCount} orders moved)`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to merge customers');
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await dismissMutation.mutateAsync([left.id, right.id]);
+      showSuccess('Marked as not duplicates');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to dismiss duplicate');
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 1.5 }}>
+        <Chip label={`Score ${duplicate.score}`} color={scoreColor(duplicate.score)} size="small" />
+        {duplicate.reasons.map(reason => (
+          <Chip key={reason} label={reason} size="small" variant="outlined" />
+        ))}
+        <Box sx={{ flexGrow: 1 }} />
+        <Button size="small" color="inherit" onClick={handleDismiss} disabled={busy}>
+          Not duplicates
+        </Button>
+      </Box>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+        <CustomerCard customer={left} canKeep={isAdmin} disabled={busy} onKeep={() => handleKeep(left, right)} />
+        <CustomerCard customer={right} canKeep={isAdmin} disabled={busy} onKeep={() => handleKeep(right, left)} />
+      </Stack>
+    </Paper>
+  );
+}
+
+function RecentMerges({ isAdmin }: Readonly<{ isAdmin: boolean }>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const { data: merges = [], isLoading, error } = useCustomerMerges();
+  const revertMutation = useRevertCustomerMerge();
+
+  const handleUndo = async (id: number, mergedCustomerId: string) => {
+    if (!globalThis.confirm(`Undo this merge and bring back ${mergedCustomerId}?`)) return;
+    try {
+      const result = await revertMutation.mutateAsync(id);
+      showSuccess(`Merge undone; ${result.ordersRestored} orders moved back to ${mergedCustomerId}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to undo merge');
+    }
+  };
+
+  if (isLoading) {
+    return <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress size={28} /></Box>;
+  }
+  if (error) {
+    return <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load merges'}</Alert>;
+  }
+  if (merges.length === 0) {
+    return <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>No customers have been merged yet.</Typography>;
+  }
+
+  return (
+    <Table size="small" aria-label="Recent customer merges">
+      <TableHead>
+        <TableRow>
+          <TableCell>Merged</TableCell>
+          <TableCell>Into</TableCell>
+          <TableCell align="right">Orders</TableCell>
+          <TableCell>When</TableCell>
+          <TableCell align="right" />
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {merges.map(merge => (
+          <TableRow key={merge.id}>
+            <TableCell>
+              {merge.merged.name}
+              <Typography variant="caption" color="text.secondary" component="div">{merge.merged.customerId}</Typography>
+            </TableCell>
+            <TableCell>
+              {merge.survivor.name}
+              <Typography variant="caption" color="text.secondary" component="div">{merge.survivor.customerId}</Typography>
+            </TableCell>
+            <TableCell align="right">{merge.orderCount}</TableCell>
+            <TableCell>
+              {formatDate(merge.createdAt, 'short')}
+              {merge.mergedByName && (
+                <Typography variant="caption" color="text.secondary" component="div">by {merge.mergedByName}</Typography>
+              )}
+            </TableCell>
+            <TableCell align="right">
+              {merge.revertedAt ? (
+                <Chip label="Undone" size="small" />
+              ) : (
+                isAdmin && (
+                  <Button
+                    size="small"
+                    onClick={() => handleUndo(merge.id, merge.merged.customerId)}
+                    disabled={revertMutation.isPending}
+                  >
+                    Undo
+                  </Button>
+                )
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface CustomerDuplicatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Suggested duplicate customers to merge or dismiss, and recent merges to undo
+ */
+export default function CustomerDuplicatesDialog({ open, onClose }: Readonly<CustomerDuplicatesDialogProps>): ReactElement {
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
+  const [tab, setTab] = useState<'duplicates' | 'merges'>('duplicates');
+  const [minScore, setMinScore] = useState(SCORE_OPTIONS[0]);
+  const { data: duplicates = [], isLoading, error } = useCustomerDuplicates(minScore, open && tab === 'duplicates');
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Duplicate Customers</DialogTitle>
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ px: 3, borderBottom: 1, borderColor: 'divider' }}>
+        <Tab value="duplicates" label="Possible Duplicates" />
+        <Tab value="merges" label="Recent Merges" />
+      </Tabs>
+      <DialogContent sx={{ minHeight: 320 }}>
+        {tab === 'duplicates' ? (
+          <>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+              <Typography variant="body2" color="text.secondary">Minimum score</Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={minScore}
+                onChange={(_, value) => value && setMinScore(value)}
+                aria-label="Minimum duplicate score"
+              >
+                {SCORE_OPTIONS.map(score => (
+                  <ToggleButton key={score} value={score}>{score}+</ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
+            {!isAdmin && (
+              <Alert severity="info" sx={{ mb: 2 }}>Only admins can merge customers.</Alert>
+            )}
+            {isLoading && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress size={28} /></Box>
+            )}
+            {error && (
+              <Alert severity="error">{error instanceof Error ? error.message : 'Failed to find duplicates'}</Alert>
+            )}
+            {!isLoading && !error && duplicates.length === 0 && (
+              <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+                No likely duplicates found.
+              </Typography>
+            )}
+            <Stack spacing={2}>
+              {duplicates.map(duplicate => (
+                <DuplicateRow
+                  key={`${duplicate.customers[0].id}:${duplicate.customers[1].id}`}
+                  duplicate={duplicate}
+                  isAdmin={isAdmin}
+                />
+              ))}
+            </Stack>
+          </>
+        ) : (
+          <RecentMerges isAdmin={isAdmin} />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, type ReactElement, type FormEvent } from 'react';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TuneIcon from '@mui/icons-material/Tune';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useCustomerLoyalty, useAdjustCustomerLoyalty } from '@/hooks/queries/useCustomersQueries';
+import { formatDate } from '@/lib/utils/dateUtils';
+import { LOYALTY_BALANCE_KINDS, LOYALTY_ENTRY_TYPES, LOYALTY_EXPIRY_WARNING_DAYS } from '@/constants/loyaltyConstants';
+import type { LoyaltyBalanceKind, LoyaltyEntry } from '@/types';
+
+function entryTypeLabel(entry: LoyaltyEntry): string {
+  return LOYALTY_ENTRY_TYPES.find(option => option.value === entry.type)?.label ?? entry.type;
+}
+
+interface AdjustmentFormProps {
+  customerId: number;
+  onDone: () => void;
+}
+
+function AdjustmentForm({ customerId, onDone }: Readonly<AdjustmentFormProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const adjustMutation = useAdjustCustomerLoyalty();
+  const [kind, setKind] = useState<LoyaltyBalanceKind>('points');
+  const [amount, setAmount] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await adjustMutation.mutateAsync({ customerId, data: { kind, amount: Number(amount), notes: notes.trim() } });
+      showSuccess('Balance adjusted');
+      onDone();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to adjust balance');
+    }
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit}
+      sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1, p: 1.5, border: 1, borderColor: 'divider', borderRadius: 1 }}
+    >
+      <FormControl size="small" sx={{ minWidth: 140 }}>
+        <InputLabel id="loyalty-kind-label">Balance</InputLabel>
+        <Select
+          labelId="loyalty-kind-label"
+          value={kind}
+          label="Balance"
+          onChange={(e) => setKind(e.target.value as LoyaltyBalanceKind)}
+        >
+          {LOYALTY_BALANCE_KINDS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <TextField
+        label="Amount"
+        type="number"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        size="small"
+        required
+        helperText="Negative to take away"
+        slotProps={{ htmlInput: { step: kind === 'points' ? 1 : 0.01 } }}
+        sx={{ width: 150 }}
+      />
+      <TextField
+        label="Reason"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        size="small"
+        required
+        placeholder="Goodwill for late delivery"
+        sx={{ flex: 1, minWidth: 180 }}
+      />
+      <Box sx={{ display: 'flex', gap: 1, ml: 'auto' }}>
+        <Button onClick={onDone} disabled={adjustMutation.isPending}>Cancel</Button>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={adjustMutation.isPending || !amount || Number(amount) === 0 || !notes.trim()}
+        >
+          {adjustMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+interface CustomerLoyaltyPanelProps {
+  customerId: number;
+}
+
+/**
+ * A customer's loyalty points and store credit, with their ledger; admins can adjust either balance
+ */
+export default function CustomerLoyaltyPanel({ customerId }: Readonly<CustomerLoyaltyPanelProps>): ReactElement {
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
+  const { formatPrice } = useCurrency();
+  const { data: summary, isLoading, error } = useCustomerLoyalty(customerId);
+  const [adjusting, setAdjusting] = useState(false);
+
+  const formatAmount = (entry: LoyaltyEntry): string => {
+    const sign = entry.amount > 0 ? '+' : '-';
+    return entry.kind === 'points'
+      ? `${sign}${Math.abs(entry.amount)} pts`
+      : `${sign}${formatPrice(Math.abs(entry.amount))}`;
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle2">Loyalty &amp; Store Credit</Typography>
+        {isAdmin && (
+          <Button size="small" startIcon={<TuneIcon />} onClick={() => setAdjusting(true)} disabled={adjusting}>
+            Adjust
+          </Button>
+        )}
+      </Box>
+      {isLoading && <CircularProgress size={20} />}
+      {error && <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load loyalty balance'}</Alert>}
+      {summary && (
+        <>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 3, mb: 1 }}>
+            <Box>
+              <Typography variant="caption" color="text.secondary">Points</Typography>
+              <Typography variant="h6">{summary.loyaltyPoints}</Typography>
+              <Typography variant="caption" color="text.secondary">worth {formatPrice(summary.pointsValue)}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">Store credit</Typography>
+              <Typography variant="h6">{formatPrice(summary.storeCredit)}</Typography>
+            </Box>
+          </Box>
+          {summary.pointsExpiringSoon > 0 && (
+            <Alert severity="warning" sx={{ mb: 1 }}>
+              {summary.pointsExpiringSoon} points expire within {LOYALTY_EXPIRY_WARNING_DAYS} days unless they are spent.
+            </Alert>
+          )}
+          {adjusting && (
+            <Box sx={{ mb: 1 }}>
+              <AdjustmentForm customerId={customerId} onDone={() => setAdjusting(false)} />
+            </Box>
+          )}
+          {summary.entries.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No points or store credit yet.</Typography>
+          ) : (
+            <TableContainer sx={{ maxHeight: 280 }}>
+              <Table size="small" stickyHeader aria-label="Loyalty history">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Entry</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell>Details</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {summary.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell>{entryTypeLabel(entry)}</TableCell>
+                      <TableCell
+                        align="right"
+                        sx={{ whiteSpace: 'nowrap', color: entry.amount > 0 ? 'success.main' : 'text.primary' }}
+                      >
+                        {formatAmount(entry)}
+                      </TableCell>
+                      <TableCell>
+                        {[
+                          entry.orderNumber && `Order ${entry.orderNumber}`,
+                          entry.notes,
+                          entry.expiresAt && `Expires ${formatDate(entry.expiresAt)}`,
+                          entry.userEmail,
+                        ].filter(Boolean).join(' · ')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
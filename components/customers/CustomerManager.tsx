@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback, useEffect, type ReactElement, type ChangeEvent } from 'react';
+import { useSession } from 'next-auth/react';
 import Box from '@mui/material/Box';
 import Paper from '@mui/material/Paper';
 import Typography from '@mui/material/Typography';
@@ -10,6 +11,8 @@ import FormControl from '@mui/material/FormControl';
 import InputLabel from '@mui/material/InputLabel';
 import Select, { SelectChangeEvent } from '@mui/material/Select';
 import MenuItem from '@mui/material/MenuItem';
+import ListSubheader from '@mui/material/ListSubheader';
+import Chip from '@mui/material/Chip';
 import Table from '@mui/material/Table';
 import TableBody from '@mui/material/TableBody';
 import TableCell from '@mui/material/TableCell';
@@ -23,23 +26,44 @@ import Stack from '@mui/material/Stack';
 import AddIcon from '@mui/icons-material/Add';
 import SearchIcon from '@mui/icons-material/Search';
 import PersonIcon from '@mui/icons-material/Person';
+import MergeTypeIcon from '@mui/icons-material/MergeType';
+import LinkIcon from '@mui/icons-material/Link';
+import GroupsIcon from '@mui/icons-material/Groups';
+import LoyaltyIcon from '@mui/icons-material/Loyalty';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
 import { useNotification } from '@/contexts/NotificationContext';
 import { useCurrency } from '@/contexts/CurrencyContext';
-import { useCustomers, type CustomerFilters } from '@/hooks/queries/useCustomersQueries';
+import { useCustomers, useCustomerSegments, type CustomerFilters } from '@/hooks/queries/useCustomersQueries';
+import { CUSTOMER_LIFECYCLE_STAGES, CUSTOMER_SOURCES } from '@/constants/customerSegmentConstants';
 import PaginationControls from '@/components/common/PaginationControls';
 import CustomerDialog from './CustomerDialog';
+import CustomerDuplicatesDialog from './CustomerDuplicatesDialog';
+import CustomerBackfillDialog from './CustomerBackfillDialog';
+import CustomerSegmentsDialog from './CustomerSegmentsDialog';
+import LoyaltySettingsDialog from './LoyaltySettingsDialog';
 import type { Customer, CustomerSource } from '@/types';
 
 const SOURCE_OPTIONS: Array<{ value: CustomerSource | 'all'; label: string }> = [
   { value: 'all', label: 'All Sources' },
-  { value: 'walk-in', label: 'Walk-in' },
-  { value: 'online', label: 'Online' },
-  { value: 'referral', label: 'Referral' },
-  { value: 'other', label: 'Other' },
+  ...CUSTOMER_SOURCES,
 ];
 
 const DEBOUNCE_DELAY = 300;
 
+function StageChip({ customer }: Readonly<{ customer: Customer }>): ReactElement {
+  const stage = CUSTOMER_LIFECYCLE_STAGES.find(option => option.value === customer.lifecycleStage);
+  if (!stage) return <>—</>;
+  return (
+    <Chip
+      label={stage.label}
+      color={stage.color}
+      size="small"
+      variant="outlined"
+      title={`Recency ${customer.recencyScore}, frequency ${customer.frequencyScore}, spend ${customer.monetaryScore} (out of 5)`}
+    />
+  );
+}
+
 interface CustomerManagerProps {
   onCustomerSelect?: (customer: Customer) => void;
 }
@@ -47,17 +71,25 @@ interface CustomerManagerProps {
 export default function CustomerManager({ onCustomerSelect }: CustomerManagerProps): ReactElement {
   const { showSuccess, showError } = useNotification();
   const { formatPrice } = useCurrency();
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
 
   // Local state for filters
   const [searchInput, setSearchInput] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [sourceFilter, setSourceFilter] = useState<CustomerSource | 'all'>('all');
+  // A lifecycle stage or saved segment ID
+  const [segmentFilter, setSegmentFilter] = useState('all');
   const [page, setPage] = useState(1);
   const [limit, setLimit] = useState(10);
 
   // Dialog state
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | undefined>();
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [backfillOpen, setBackfillOpen] = useState(false);
+  const [loyaltyOpen, setLoyaltyOpen] = useState(false);
+  const [segmentsOpen, setSegmentsOpen] = useState(false);
 
   // Build filters for query
   const filters: CustomerFilters = {
@@ -65,10 +97,18 @@ export default function CustomerManager({ onCustomerSelect }: CustomerManagerPro
     limit,
     search: debouncedSearch || undefined,
     source: sourceFilter !== 'all' ? sourceFilter : undefined,
+    segment: segmentFilter !== 'all' ? segmentFilter : undefined,
   };
 
   // Fetch customers
   const { data, isLoading, error, refetch } = useCustomers(filters);
+  const { data: segmentOverview } = useCustomerSegments();
+
+  // Same filters, without paging, for the export link
+  const exportParams = new URLSearchParams({ format: 'csv' });
+  if (filters.search) exportParams.set('search', filters.search);
+  if (filters.source) exportParams.set('source', filters.source);
+  if (filters.segment) exportParams.set('segment', filters.segment);
 
   // Debounce search input
   useEffect(() => {
@@ -90,6 +130,11 @@ export default function CustomerManager({ onCustomerSelect }: CustomerManagerPro
     setPage(1);
   }, []);
 
+  const handleSegmentChange = useCallback((e: SelectChangeEvent<string>) => {
+    setSegmentFilter(e.target.value);
+    setPage(1);
+  }, []);
+
   const handlePageChange = useCallback((newPage: number) => {
     setPage(newPage);
   }, []);
@@ -163,15 +208,49 @@ export default function CustomerManager({ onCustomerSelect }: CustomerManagerPro
           <PersonIcon />
           Customer Management
         </Typography>
-        <Button
-          variant="contained"
-          color="primary"
-          startIcon={<AddIcon />}
-          onClick={handleAddCustomer}
-          aria-label="Add new customer"
-        >
-          Add Customer
-        </Button>
+        <Stack direction="row" spacing={1}>
+          {isAdmin && (
+            <Button
+              variant="outlined"
+              startIcon={<LinkIcon />}
+              onClick={() => setBackfillOpen(true)}
+            >
+              Link Orders
+            </Button>
+          )}
+          {isAdmin && (
+            <Button
+              variant="outlined"
+              startIcon={<LoyaltyIcon />}
+              onClick={() => setLoyaltyOpen(true)}
+            >
+              Loyalty
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            startIcon={<GroupsIcon />}
+            onClick={() => setSegmentsOpen(true)}
+          >
+            Segments
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<MergeTypeIcon />}
+            onClick={() => setDuplicatesOpen(true)}
+          >
+            Find Duplicates
+          </Button>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<AddIcon />}
+            onClick={handleAddCustomer}
+            aria-label="Add new customer"
+          >
+            Add Customer
+          </Button>
+        </Stack>
       </Box>
 
       {/* Filters */}
@@ -209,6 +288,40 @@ export default function CustomerManager({ onCustomerSelect }: CustomerManagerPro
               ))}
             </Select>
           </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel id="segment-filter-label">Segment</InputLabel>
+            <Select
+              labelId="segment-filter-label"
+              id="segment-filter"
+              value={segmentFilter}
+              label="Segment"
+              onChange={handleSegmentChange}
+            >
+              <MenuItem value="all">All Customers</MenuItem>
+              <ListSubheader>Lifecycle stage</ListSubheader>
+              {CUSTOMER_LIFECYCLE_STAGES.map((stage) => (
+                <MenuItem key={stage.value} value={stage.value}>
+                  {stage.label} ({segmentOverview?.stages.find(row => row.stage === stage.value)?.customerCount ?? 0})
+                </MenuItem>
+              ))}
+              {segmentOverview && segmentOverview.segments.length > 0 && (
+                <ListSubheader>Saved segments</ListSubheader>
+              )}
+              {segmentOverview?.segments.map((segment) => (
+                <MenuItem key={segment.id} value={String(segment.id)}>
+                  {segment.name} ({segment.customerCount ?? '?'})
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            startIcon={<FileDownloadIcon />}
+            href={`/api/customers/export?${exportParams.toString()}`}
+            disabled={pagination.total === 0}
+          >
+            Export
+          </Button>
         </Stack>
       </Paper>
 
@@ -223,14 +336,15 @@ export default function CustomerManager({ onCustomerSelect }: CustomerManagerPro
               <TableCell align="right">Total Orders</TableCell>
               <TableCell align="right">Total Spent</TableCell>
               <TableCell>Last Order</TableCell>
+              <TableCell>Stage</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
             {customers.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
                   <Typography color="text.secondary">
-                    {debouncedSearch || sourceFilter !== 'all'
+                    {debouncedSearch || sourceFilter !== 'all' || segmentFilter !== 'all'
                       ? 'No customers found matching your criteria.'
                       : 'No customers yet. Click "Add Customer" to create one.'}
                   </Typography>
@@ -268,6 +382,9 @@ export default function CustomerManager({ onCustomerSelect }: CustomerManagerPro
                   <TableCell align="right">{customer.totalOrders}</TableCell>
                   <TableCell align="right">{formatPrice(customer.totalSpent)}</TableCell>
                   <TableCell>{formatDate(customer.lastOrderDate)}</TableCell>
+                  <TableCell>
+                    <StageChip customer={customer} />
+                  </TableCell>
                 </TableRow>
               ))
             )}
@@ -293,6 +410,11 @@ export default function CustomerManager({ onCustomerSelect }: CustomerManagerPro
         onSuccess={handleDialogSuccess}
         onError={handleDialogError}
       />
+
+      <CustomerDuplicatesDialog open={duplicatesOpen} onClose={() => setDuplicatesOpen(false)} />
+      <CustomerSegmentsDialog open={segmentsOpen} onClose={() => setSegmentsOpen(false)} />
+      {isAdmin && <CustomerBackfillDialog open={backfillOpen} onClose={() => setBackfillOpen(false)} />}
+      {isAdmin && loyaltyOpen && <LoyaltySettingsDialog onClose={() => setLoyaltyOpen(false)} />}
     </Box>
   );
 }
@@ -0,0 +1,405 @@
+'use client';
+
+import { useState, type ReactElement } from 'react';
+import { useSession } from 'next-auth/react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Autocomplete from '@mui/material/Autocomplete';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useCustomerSegments,
+  useSaveCustomerSegment,
+  useDeleteCustomerSegment,
+  useRunCustomerRfmScoring,
+} from '@/hooks/queries/useCustomersQueries';
+import { useCategories } from '@/hooks/queries/useCategoriesQueries';
+import { formatDate } from '@/lib/utils/dateUtils';
+import {
+  CUSTOMER_LIFECYCLE_STAGES,
+  CUSTOMER_SEGMENT_FIELDS,
+  CUSTOMER_SEGMENT_LIST_OPERATORS,
+  CUSTOMER_SEGMENT_MAX_RULES,
+  CUSTOMER_SEGMENT_NAME_MAX_LENGTH,
+  CUSTOMER_SEGMENT_NUMBER_OPERATORS,
+  CUSTOMER_SEGMENT_OPERATOR_LABELS,
+} from '@/constants/customerSegmentConstants';
+import type {
+  CustomerSegment,
+  CustomerSegmentField,
+  CustomerSegmentOperator,
+  CustomerSegmentRule,
+  CustomerSegmentRules,
+} from '@/types';
+
+type Option = { value: string; label: string };
+
+/** A rule while it is being edited; numbers stay text until saved */
+interface DraftRule {
+  field: CustomerSegmentField;
+  operator: CustomerSegmentOperator;
+  number: string;
+  values: string[];
+}
+
+const NEW_RULE: DraftRule = { field: 'totalSpent', operator: 'gte', number: '', values: [] };
+
+function fieldDefinition(field: CustomerSegmentField) {
+  return CUSTOMER_SEGMENT_FIELDS.find(definition => definition.value === field)!;
+}
+
+function toDraft(rule: CustomerSegmentRule): DraftRule {
+  return Array.isArray(rule.value)
+    ? { field: rule.field, operator: rule.operator, number: '', values: rule.value.map(String) }
+    : { field: rule.field, operator: rule.operator, number: String(rule.value), values: [] };
+}
+
+function fromDraft(rule: DraftRule): CustomerSegmentRule {
+  if (fieldDefinition(rule.field).kind === 'number') {
+    return { field: rule.field, operator: rule.operator, value: Number(rule.number) };
+  }
+  return { field: rule.field, operator: rule.operator, value: rule.field === 'category' ? rule.values.map(Number) : rule.values };
+}
+
+function describeRules(rules: CustomerSegmentRules, categoryOptions: Option[]): string {
+  const parts = rules.rules.map(rule => {
+    const definition = fieldDefinition(rule.field);
+    const options = rule.field === 'category' ? categoryOptions : definition.options ?? [];
+    const value = Array.isArray(rule.value)
+      ? rule.value.map(item => options.find(option => option.value === String(item))?.label ?? item).join(', ')
+      : rule.value;
+    return `${definition.label} ${CUSTOMER_SEGMENT_OPERATOR_LABELS[rule.operator]} ${value}`;
+  });
+  return parts.join(rules.match === 'all' ? ' and ' : ' or ');
+}
+
+interface RuleRowProps {
+  rule: DraftRule;
+  categoryOptions: Option[];
+  onChange: (rule: DraftRule) => void;
+  onRemove: () => void;
+  canRemove: boolean;
+}
+
+function RuleRow({ rule, categoryOptions, onChange, onRemove, canRemove }: Readonly<RuleRowProps>): ReactElement {
+  const definition = fieldDefinition(rule.field);
+  const operators = definition.kind === 'number' ? CUSTOMER_SEGMENT_NUMBER_OPERATORS : CUSTOMER_SEGMENT_LIST_OPERATORS;
+  const options = rule.field === 'category' ? categoryOptions : definition.options ?? [];
+
+  const handleFieldChange = (field: CustomerSegmentField) => {
+    const kind = fieldDefinition(field).kind;
+    onChange({
+      field,
+      operator: kind === definition.kind ? rule.operator : (kind === 'number' ? 'gte' : 'in'),
+      number: kind === 'number' ? rule.number : '',
+      values: [],
+    });
+  };
+
+  return (
+    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+      <TextField
+        select
+        size="small"
+        label="Field"
+        value={rule.field}
+        onChange={(e) => handleFieldChange(e.target.value as CustomerSegmentField)}
+        sx={{ minWidth: 200 }}
+      >
+        {CUSTOMER_SEGMENT_FIELDS.map(field => (
+          <MenuItem key={field.value} value={field.value}>{field.label}</MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Condition"
+        value={rule.operator}
+        onChange={(e) => onChange({ ...rule, operator: e.target.value as CustomerSegmentOperator })}
+        sx={{ minWidth: 120 }}
+      >
+        {operators.map(operator => (
+          <MenuItem key={operator} value={operator}>{CUSTOMER_SEGMENT_OPERATOR_LABELS[operator]}</MenuItem>
+        ))}
+      </TextField>
+      {definition.kind === 'number' ? (
+        <TextField
+          size="small"
+          type="number"
+          label="Value"
+          value={rule.number}
+          onChange={(e) => onChange({ ...rule, number: e.target.value })}
+          sx={{ flex: 1 }}
+        />
+      ) : (
+        <Autocomplete
+          multiple
+          size="small"
+          options={options.map(option => option.value)}
+          value={rule.values}
+          onChange={(_e, values) => onChange({ ...rule, values })}
+          getOptionLabel={(value) => options.find(option => option.value === value)?.label ?? value}
+          renderInput={(params) => <TextField {...params} label="Values" />}
+          sx={{ flex: 1, minWidth: 200 }}
+        />
+      )}
+      <IconButton aria-label="Remove rule" onClick={onRemove} disabled={!canRemove}>
+        <DeleteIcon fontSize="small" />
+      </IconButton>
+    </Stack>
+  );
+}
+
+interface SegmentEditorProps {
+  segment: CustomerSegment | null;
+  categoryOptions: Option[];
+  onDone: () => void;
+}
+
+function SegmentEditor({ segment, categoryOptions, onDone }: Readonly<SegmentEditorProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const saveMutation = useSaveCustomerSegment();
+  const [name, setName] = useState(segment?.name ?? '');
+  const [description, setDescription] = useState(segment?.description ?? '');
+  const [match, setMatch] = useState<CustomerSegmentRules['match']>(segment?.rules.match ?? 'all');
+  const [rules, setRules] = useState<DraftRule[]>(segment ? segment.rules.rules.map(toDraft) : [NEW_RULE]);
+
+  const incomplete = !name.trim() || rules.some(rule =>
+    fieldDefinition(rule.field).kind === 'number' ? rule.number.trim() === '' : rule.values.length === 0
+  );
+
+  const handleSave = async () => {
+    try {
+      const saved = await saveMutation.mutateAsync({
+        id: segment?.id,
+        data: { name: name.trim(), description: description.trim() || null, rules: { match, rules: rules.map(fromDraft) } },
+      });
+      showSuccess(`Segment "${saved.name}" saved (${saved.customerCount ?? 0} customers)`);
+      onDone();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save segment');
+    }
+  };
+
+  return (
+    <Stack spacing={2} sx={{ pt: 1 }}>
+      <TextField
+        label="Name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        required
+        size="small"
+        inputProps={{ maxLength: CUSTOMER_SEGMENT_NAME_MAX_LENGTH }}
+      />
+      <TextField
+        label="Description"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        size="small"
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Typography variant="body2">Customers matching</Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={match}
+          onChange={(_, value) => value && setMatch(value)}
+          aria-label="Match all or any rule"
+        >
+          <ToggleButton value="all">all rules</ToggleButton>
+          <ToggleButton value="any">any rule</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+      {rules.map((rule, index) => (
+        <RuleRow
+          key={index}
+          rule={rule}
+          categoryOptions={categoryOptions}
+          onChange={(updated) => setRules(rules.map((current, i) => (i === index ? updated : current)))}
+          onRemove={() => setRules(rules.filter((_, i) => i !== index))}
+          canRemove={rules.length > 1}
+        />
+      ))}
+      <Box>
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => setRules([...rules, NEW_RULE])}
+          disabled={rules.length >= CUSTOMER_SEGMENT_MAX_RULES}
+        >
+          Add Rule
+        </Button>
+      </Box>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        <Button onClick={onDone}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={incomplete || saveMutation.isPending}>
+          Save Segment
+        </Button>
+      </Box>
+    </Stack>
+  );
+}
+
+interface CustomerSegmentsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Lifecycle stages from the nightly RFM scoring, and saved segments to create, edit or delete
+ */
+export default function CustomerSegmentsDialog({ open, onClose }: Readonly<CustomerSegmentsDialogProps>): ReactElement {
+  const { data: session } = useSession();
+  const isAdmin = session?.user?.role === 'admin';
+  const { showSuccess, showError } = useNotification();
+  const { data: overview, isLoading, error } = useCustomerSegments(open);
+  const { data: categories = [] } = useCategories();
+  const deleteMutation = useDeleteCustomerSegment();
+  const scoreMutation = useRunCustomerRfmScoring();
+  // undefined while listing, null for a new segment
+  const [editing, setEditing] = useState<CustomerSegment | null | undefined>();
+
+  const categoryOptions: Option[] = categories.map(category => ({ value: String(category.id), label: category.name }));
+
+  const handleDelete = async (segment: CustomerSegment) => {
+    if (!globalThis.confirm(`Delete the segment "${segment.name}"?`)) return;
+    try {
+      await deleteMutation.mutateAsync(segment.id);
+      showSuccess('Segment deleted');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete segment');
+    }
+  };
+
+  const handleRescore = async () => {
+    try {
+      const result = await scoreMutation.mutateAsync();
+      showSuccess(`Scored ${result.scored} customers`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to score customers');
+    }
+  };
+
+  const handleClose = () => {
+    setEditing(undefined);
+    onClose();
+  };
+
+  let content: ReactElement;
+  if (editing !== undefined) {
+    content = <SegmentEditor segment={editing} categoryOptions={categoryOptions} onDone={() => setEditing(undefined)} />;
+  } else if (isLoading) {
+    content = <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress size={28} /></Box>;
+  } else if (error || !overview) {
+    content = <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load segments'}</Alert>;
+  } else {
+    content = (
+      <>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="subtitle2">Lifecycle stages</Typography>
+          {isAdmin && (
+            <Button size="small" onClick={handleRescore} disabled={scoreMutation.isPending}>
+              Rescore Now
+            </Button>
+          )}
+        </Box>
+        <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+          {CUSTOMER_LIFECYCLE_STAGES.map(stage => (
+            <Chip
+              key={stage.value}
+              label={`${stage.label}: ${overview.stages.find(row => row.stage === stage.value)?.customerCount ?? 0}`}
+              color={stage.color}
+              variant="outlined"
+              title={stage.description}
+            />
+          ))}
+        </Stack>
+        <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 1 }}>
+          {overview.scoredAt
+            ? `Scored nightly on recency, frequency and spend; last scored ${formatDate(overview.scoredAt, 'short')}`
+            : 'Customers have not been scored yet; scoring runs nightly.'}
+        </Typography>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mt: 3, mb: 1 }}>
+          <Typography variant="subtitle2">Saved segments</Typography>
+          <Button size="small" startIcon={<AddIcon />} onClick={() => setEditing(null)}>
+            New Segment
+          </Button>
+        </Box>
+        {overview.segments.length === 0 ? (
+          <Typography color="text.secondary" sx={{ py: 2 }}>
+            No saved segments yet. Create one from rules over spend, orders, sources or categories.
+          </Typography>
+        ) : (
+          <Stack spacing={1}>
+            {overview.segments.map(segment => {
+              const canEdit = isAdmin || segment.createdBy === session?.user?.dbUserId;
+              return (
+                <Paper key={segment.id} variant="outlined" sx={{ p: 1.5, display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Typography variant="body2" fontWeight="medium">
+                      {segment.name}
+                      <Chip label={`${segment.customerCount ?? '?'} customers`} size="small" sx={{ ml: 1 }} />
+                    </Typography>
+                    {segment.description && (
+                      <Typography variant="caption" color="text.secondary" component="div">{segment.description}</Typography>
+                    )}
+                    <Typography variant="caption" color="text.secondary" component="div">
+                      {describeRules(segment.rules, categoryOptions)}
+                    </Typography>
+                  </Box>
+                  {canEdit && (
+                    <>
+                      <IconButton aria-label={`Edit ${segment.name}`} size="small" onClick={() => setEditing(segment)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        aria-label={`Delete ${segment.name}`}
+                        size="small"
+                        onClick={() => handleDelete(segment)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </>
+                  )}
+                </Paper>
+              );
+            })}
+          </Stack>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {editing === undefined ? 'Customer Segments' : (editing ? `Edit ${editing.name}` : 'New Segment')}
+      </DialogTitle>
+      <DialogContent sx={{ minHeight: 320 }}>
+        {content}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, type ReactElement, type FormEvent } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useLoyaltySettings, useUpdateLoyaltySettings } from '@/hooks/queries/useCustomersQueries';
+import {
+  LOYALTY_MAX_EXPIRY_DAYS,
+  LOYALTY_MAX_POINT_VALUE,
+  LOYALTY_MAX_POINTS_PER_HUNDRED,
+} from '@/constants/loyaltyConstants';
+import type { LoyaltySettings } from '@/types';
+
+interface SettingsFormProps {
+  settings: LoyaltySettings;
+  onClose: () => void;
+}
+
+function SettingsForm({ settings, onClose }: Readonly<SettingsFormProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const { formatPrice } = useCurrency();
+  const updateMutation = useUpdateLoyaltySettings();
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [pointsPerHundred, setPointsPerHundred] = useState(String(settings.pointsPerHundred));
+  const [pointValue, setPointValue] = useState(String(settings.pointValue));
+  const [minRedeemPoints, setMinRedeemPoints] = useState(String(settings.minRedeemPoints));
+  const [maxRedeemPercent, setMaxRedeemPercent] = useState(String(settings.maxRedeemPercent));
+  const [pointsExpiryDays, setPointsExpiryDays] = useState(settings.pointsExpiryDays === null ? '' : String(settings.pointsExpiryDays));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateMutation.mutateAsync({
+        enabled,
+        pointsPerHundred: Number(pointsPerHundred),
+        pointValue: Number(pointValue),
+        minRedeemPoints: Number(minRedeemPoints),
+        maxRedeemPercent: Number(maxRedeemPercent),
+        pointsExpiryDays: pointsExpiryDays.trim() ? Number(pointsExpiryDays) : null,
+      });
+      showSuccess('Loyalty settings saved');
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save loyalty settings');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <FormControlLabel
+            control={<Switch checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />}
+            label="Paid orders earn points, and points can be redeemed on new orders"
+          />
+          <Box display="grid" gridTemplateColumns={{ xs: '1fr', sm: '1fr 1fr' }} gap={2}>
+            <TextField
+              label={`Points per ${formatPrice(100)} paid`}
+              type="number"
+              value={pointsPerHundred}
+              onChange={(e) => setPointsPerHundred(e.target.value)}
+              helperText="Earned once an order is paid in full"
+              slotProps={{ htmlInput: { min: 0, max: LOYALTY_MAX_POINTS_PER_HUNDRED, step: 0.01 } }}
+              required
+            />
+            <TextField
+              label="Value of one point"
+              type="number"
+              value={pointValue}
+              onChange={(e) => setPointValue(e.target.value)}
+              helperText="Discount per point redeemed, in the store currency"
+              slotProps={{ htmlInput: { min: 0.01, max: LOYALTY_MAX_POINT_VALUE, step: 0.01 } }}
+              required
+            />
+            <TextField
+              label="Fewest points to redeem"
+              type="number"
+              value={minRedeemPoints}
+              onChange={(e) => setMinRedeemPoints(e.target.value)}
+              slotProps={{ htmlInput: { min: 0, step: 1 } }}
+              required
+            />
+            <TextField
+              label="Most of an order paid with points (%)"
+              type="number"
+              value={maxRedeemPercent}
+              onChange={(e) => setMaxRedeemPercent(e.target.value)}
+              helperText="Of the subtotal after other discounts"
+              slotProps={{ htmlInput: { min: 1, max: 100, step: 1 } }}
+              required
+            />
+            <TextField
+              label="Points expire after (days)"
+              type="number"
+              value={pointsExpiryDays}
+              onChange={(e) => setPointsExpiryDays(e.target.value)}
+              helperText="Leave empty for points that never expire"
+              slotProps={{ htmlInput: { min: 1, max: LOYALTY_MAX_EXPIRY_DAYS, step: 1 } }}
+            />
+          </Box>
+          <Alert severity="info">
+            Changes apply to points earned from now on. Store credit never expires.
+          </Alert>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button type="submit" variant="contained" disabled={updateMutation.isPending}>Save</Button>
+      </DialogActions>
+    </form>
+  );
+}
+
+interface LoyaltySettingsDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Earn rate, point value, redemption limits and expiry of loyalty points (admin only)
+ */
+export default function LoyaltySettingsDialog({ onClose }: Readonly<LoyaltySettingsDialogProps>): ReactElement {
+  const { data: settings, isLoading, error } = useLoyaltySettings();
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Loyalty Settings</DialogTitle>
+      {isLoading && (
+        <DialogContent>
+          <CircularProgress size={24} />
+        </DialogContent>
+      )}
+      {error && (
+        <DialogContent>
+          <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load loyalty settings'}</Alert>
+        </DialogContent>
+      )}
+      {settings && <SettingsForm settings={settings} onClose={onClose} />}
+    </Dialog>
+  );
+}
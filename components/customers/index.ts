@@ -2,3 +2,8 @@
 export { default as CustomerManager } from './CustomerManager';
 export { default as CustomerDialog } from './CustomerDialog';
 export { default as CustomerAutocomplete } from './CustomerAutocomplete';
+export { default as CustomerDuplicatesDialog } from './CustomerDuplicatesDialog';
+export { default as CustomerBackfillDialog } from './CustomerBackfillDialog';
+export { default as CustomerSegmentsDialog } from './CustomerSegmentsDialog';
+export { default as CustomerAddressList } from './CustomerAddressList';
+export { default as CustomerContactList } from './CustomerContactList';
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useRef, useState, type ReactElement } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Alert from '@mui/material/Alert';
+import Typography from '@mui/material/Typography';
+
+/** The part of the browser's BarcodeDetector API used here */
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+}
+
+type BarcodeDetectorConstructor = new () => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 400;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+/**
+ * Whether this browser can read barcodes from the camera (Chrome on Android, for one)
+ */
+export function canScanWithCamera(): boolean {
+  return getBarcodeDetector() !== undefined && !!globalThis.navigator?.mediaDevices?.getUserMedia;
+}
+
+interface BarcodeScannerDialogProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Reads one barcode or QR code with the back camera, then closes
+ */
+export default function BarcodeScannerDialog({ onDetected, onClose }: Readonly<BarcodeScannerDialogProps>): ReactElement {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(
+    canScanWithCamera() ? null : 'This browser cannot scan with the camera. Type the code instead.'
+  );
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector || !canScanWithCamera()) return undefined;
+
+    const detector = new Detector();
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) {
+          stop();
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        timer = setInterval(async () => {
+          if (!videoRef.current || stopped) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          const code = codes[0]?.rawValue?.trim();
+          if (code) {
+            stop();
+            onDetected(code);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => setError('Camera access was blocked. Allow the camera or type the code instead.'));
+
+    return stop;
+  }, [onDetected]);
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Scan Code</DialogTitle>
+      <DialogContent>
+        {error ? (
+          <Alert severity="warning">{error}</Alert>
+        ) : (
+          <>
+            <Box
+              component="video"
+              ref={videoRef}
+              muted
+              playsInline
+              sx={{ width: '100%', borderRadius: 1, bgcolor: 'grey.900' }}
+            />
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              Point the camera at the item&apos;s SKU or ID label.
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
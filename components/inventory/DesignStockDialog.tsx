@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, type ReactElement } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Box from '@mui/material/Box';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import Switch from '@mui/material/Switch';
+import Typography from '@mui/material/Typography';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useDesignStock,
+  useAdjustDesignStock,
+  useUpdateDesignStockSettings,
+} from '@/hooks/queries/useStockQueries';
+import type { DesignStockInfo } from '@/types';
+
+interface DesignStockDialogProps {
+  itemId: number;
+  itemName: string;
+  onClose: () => void;
+}
+
+interface DesignStockRowProps {
+  itemId: number;
+  design: DesignStockInfo;
+}
+
+function DesignStockRow({ itemId, design }: Readonly<DesignStockRowProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const adjustMutation = useAdjustDesignStock();
+  const settingsMutation = useUpdateDesignStockSettings();
+  const [threshold, setThreshold] = useState(design.lowStockThreshold === null ? '' : String(design.lowStockThreshold));
+  const [adjustment, setAdjustment] = useState('');
+
+  const saveSettings = async (trackStock: boolean) => {
+    try {
+      await settingsMutation.mutateAsync({
+        itemId,
+        designId: design.designId,
+        trackStock,
+        lowStockThreshold: threshold === '' ? null : Number(threshold),
+      });
+      showSuccess(`${design.designName} updated`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update design');
+    }
+  };
+
+  const handleAdjust = async () => {
+    const quantity = Number.parseInt(adjustment, 10);
+    if (Number.isNaN(quantity) || quantity === 0) return;
+    try {
+      await adjustMutation.mutateAsync({ itemId, designId: design.designId, quantity });
+      showSuccess(`${design.designName} ${quantity > 0 ? 'restocked' : 'adjusted'}`);
+      setAdjustment('');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to adjust stock');
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Stack direction="row" spacing={1} alignItems="center">
+          {design.imageUrl && (
+            <Box
+              component="img"
+              loading="lazy"
+              src={design.imageUrl}
+              alt={design.designName}
+              sx={{ width: 36, height: 36, objectFit: 'cover', borderRadius: 1 }}
+            />
+          )}
+          <Typography variant="body2" fontWeight={500}>{design.designName}</Typography>
+        </Stack>
+      </TableCell>
+      <TableCell>
+        <Switch
+          size="small"
+          checked={design.trackStock}
+          onChange={(e) => saveSettings(e.target.checked)}
+          disabled={settingsMutation.isPending}
+          slotProps={{ input: { 'aria-label': `Count stock for ${design.designName} separately` } }}
+        />
+      </TableCell>
+      <TableCell align="right">
+        <Typography variant="body2" color={design.isLowStock ? 'error.main' : 'text.primary'} fontWeight={design.isLowStock ? 600 : 400}>
+          {design.stockQuantity ?? '–'}
+        </Typography>
+      </TableCell>
+      <TableCell align="right">{design.trackStock && design.reservedQuantity > 0 ? design.reservedQuantity : '–'}</TableCell>
+      <TableCell align="right">{design.availableQuantity ?? '–'}</TableCell>
+      <TableCell>
+        <TextField
+          size="small"
+          type="number"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          onBlur={() => {
+            if (design.trackStock && threshold !== (design.lowStockThreshold === null ? '' : String(design.lowStockThreshold))) {
+              saveSettings(true);
+            }
+          }}
+          placeholder={String(design.itemLowStockThreshold)}
+          disabled={!design.trackStock}
+          slotProps={{ htmlInput: { min: 0, step: 1, 'aria-label': `Low stock threshold for ${design.designName}` } }}
+          sx={{ width: 90 }}
+        />
+      </TableCell>
+      <TableCell>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <TextField
+            size="small"
+            type="number"
+            value={adjustment}
+            onChange={(e) => setAdjustment(e.target.value)}
+            placeholder="+/-"
+            disabled={!design.trackStock}
+            slotProps={{ htmlInput: { step: 1, 'aria-label': `Stock adjustment for ${design.designName}` } }}
+            sx={{ width: 80 }}
+          />
+          <Button
+            size="small"
+            onClick={handleAdjust}
+            disabled={!design.trackStock || !adjustment || adjustMutation.isPending}
+          >
+            Apply
+          </Button>
+        </Stack>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Per-design stock for an item
+ * Designs counted separately hold part of the item's stock: adjusting a design
+ * moves the item's stock by the same amount, and orders for that design are
+ * checked against both.
+ */
+export default function DesignStockDialog({ itemId, itemName, onClose }: Readonly<DesignStockDialogProps>): ReactElement {
+  const { data, isLoading, error } = useDesignStock(itemId);
+  const designs = data?.designs ?? [];
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Design Stock – {itemName}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+        {isLoading ? (
+          <Box display="flex" justifyContent="center" py={4}><CircularProgress /></Box>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Turn on a design to count its stock separately. Its stock is part of the item&apos;s {data?.stockQuantity ?? 0} on hand;
+              designs left off share whatever the counted designs do not hold.
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Design</TableCell>
+                  <TableCell>Own stock</TableCell>
+                  <TableCell align="right">On hand</TableCell>
+                  <TableCell align="right">Reserved</TableCell>
+                  <TableCell align="right">Available</TableCell>
+                  <TableCell>Low threshold</TableCell>
+                  <TableCell>Adjust</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {designs.map(design => (
+                  <DesignStockRow key={design.designId} itemId={itemId} design={design} />
+                ))}
+                {designs.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                      This item has no designs
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
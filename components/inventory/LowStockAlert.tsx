@@ -23,7 +23,9 @@ import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import WarningIcon from '@mui/icons-material/Warning';
 import InventoryIcon from '@mui/icons-material/Inventory';
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
+import LocalShippingIcon from '@mui/icons-material/LocalShipping';
 import { useLowStockItems } from '@/hooks/queries/useStockQueries';
+import { formatDate } from '@/lib/utils/dateUtils';
 
 interface LowStockAlertProps {
   /**
@@ -48,7 +50,7 @@ export default function LowStockAlert({
 }: LowStockAlertProps): ReactElement | null {
   const [expanded, setExpanded] = useState(false);
   
-  const { data: lowStockItems, isLoading, isError } = useLowStockItems();
+  const { data: lowStock, isLoading, isError } = useLowStockItems();
 
   const handleToggleExpand = useCallback(() => {
     setExpanded(prev => !prev);
@@ -71,8 +73,28 @@ export default function LowStockAlert({
     return null;
   }
 
+  // Designs with their own stock are listed after the items, under the item's name
+  const lowStockItems = [
+    ...(lowStock?.items ?? []).map(item => ({
+      key: `item-${item.itemId}`,
+      name: item.itemName,
+      stockQuantity: item.stockQuantity,
+      lowStockThreshold: item.lowStockThreshold,
+      onOrderQuantity: item.onOrderQuantity,
+      nextExpectedDate: item.nextExpectedDate,
+    })),
+    ...(lowStock?.designs ?? []).map(design => ({
+      key: `design-${design.designId}`,
+      name: `${design.itemName} – ${design.designName}`,
+      stockQuantity: design.stockQuantity ?? 0,
+      lowStockThreshold: design.lowStockThreshold ?? design.itemLowStockThreshold,
+      onOrderQuantity: 0,
+      nextExpectedDate: null,
+    })),
+  ];
+
   // No low stock items
-  if (!lowStockItems || lowStockItems.length === 0) {
+  if (lowStockItems.length === 0) {
     if (compact) {
       return null;
     }
@@ -161,7 +183,7 @@ export default function LowStockAlert({
           <List dense disablePadding>
             {displayItems.map((item) => (
               <ListItem 
-                key={item.itemId} 
+                key={item.key} 
                 disablePadding
                 sx={{ py: 0.5 }}
               >
@@ -172,7 +194,7 @@ export default function LowStockAlert({
                   primary={
                     <Stack direction="row" spacing={1} alignItems="center">
                       <Typography variant="body2" fontWeight={500}>
-                        {item.itemName}
+                        {item.name}
                       </Typography>
                       <Chip
                         label={`${item.stockQuantity}/${item.lowStockThreshold}`}
@@ -180,6 +202,16 @@ export default function LowStockAlert({
                         color={item.stockQuantity === 0 ? 'error' : 'warning'}
                         sx={{ fontSize: '0.7rem', height: 20 }}
                       />
+                      {item.onOrderQuantity > 0 && (
+                        <Chip
+                          icon={<LocalShippingIcon />}
+                          label={`${item.onOrderQuantity} on order${item.nextExpectedDate ? `, due ${formatDate(item.nextExpectedDate, 'short')}` : ''}`}
+                          size="small"
+                          color="info"
+                          variant="outlined"
+                          sx={{ fontSize: '0.7rem', height: 20 }}
+                        />
+                      )}
                     </Stack>
                   }
                 />
@@ -193,7 +225,7 @@ export default function LowStockAlert({
             </Typography>
           )}
 
-          <Box mt={2}>
+          <Stack direction="row" spacing={1} mt={2}>
             <Button
               component={Link}
               href="/admin"
@@ -204,7 +236,16 @@ export default function LowStockAlert({
             >
               Manage Inventory
             </Button>
-          </Box>
+            <Button
+              component={Link}
+              href="/items/purchasing"
+              size="small"
+              color="warning"
+              startIcon={<LocalShippingIcon />}
+            >
+              Purchase Orders
+            </Button>
+          </Stack>
         </Box>
       </Collapse>
     </Alert>
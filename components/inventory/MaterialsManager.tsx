@@ -0,0 +1,484 @@
+'use client';
+
+import { useState, type FormEvent, type ReactElement } from 'react';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Tooltip from '@mui/material/Tooltip';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import HistoryIcon from '@mui/icons-material/History';
+import TuneIcon from '@mui/icons-material/Tune';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import {
+  useMaterials,
+  useMaterialHistory,
+  useMaterialShortages,
+  useCreateMaterial,
+  useUpdateMaterial,
+  useDeleteMaterial,
+  useAdjustMaterialStock,
+} from '@/hooks/queries/useManufacturingQueries';
+import { MATERIAL_UNITS } from '@/constants/manufacturingConstants';
+import type { Material } from '@/types';
+
+function formatQuantity(quantity: number, unit: string): string {
+  return `${Number(quantity.toFixed(3)).toLocaleString()} ${unit}`;
+}
+
+function getUnitLabel(unit: string): string {
+  return MATERIAL_UNITS.find(option => option.value === unit)?.label.toLowerCase() ?? unit;
+}
+
+interface MaterialDialogProps {
+  material: Material | null;
+  onClose: () => void;
+}
+
+function MaterialDialog({ material, onClose }: Readonly<MaterialDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const createMutation = useCreateMaterial();
+  const updateMutation = useUpdateMaterial();
+  const [name, setName] = useState(material?.name ?? '');
+  const [sku, setSku] = useState(material?.sku ?? '');
+  const [unit, setUnit] = useState(material?.unit ?? 'meter');
+  const [stockQuantity, setStockQuantity] = useState('');
+  const [lowStockThreshold, setLowStockThreshold] = useState(material ? String(material.lowStockThreshold) : '');
+  const [costPerUnit, setCostPerUnit] = useState(material?.costPerUnit === null || !material ? '' : String(material.costPerUnit));
+  const [notes, setNotes] = useState(material?.notes ?? '');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = {
+      name,
+      unit,
+      sku: sku || null,
+      lowStockThreshold: lowStockThreshold ? Number(lowStockThreshold) : 0,
+      costPerUnit: costPerUnit ? Number(costPerUnit) : null,
+      notes: notes || null,
+    };
+    try {
+      if (material) {
+        await updateMutation.mutateAsync({ id: material.id, data });
+        showSuccess(`${name} updated`);
+      } else {
+        await createMutation.mutateAsync({ ...data, stockQuantity: stockQuantity ? Number(stockQuantity) : 0 });
+        showSuccess(`${name} added`);
+      }
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save material');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{material ? 'Edit Material' : 'Add Material'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} required autoFocus fullWidth placeholder="Cotton fabric, navy" />
+            <Stack direction="row" spacing={2}>
+              <TextField label="SKU" value={sku} onChange={(e) => setSku(e.target.value)} fullWidth />
+              <TextField select label="Unit" value={unit} onChange={(e) => setUnit(e.target.value)} fullWidth>
+                {MATERIAL_UNITS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+            </Stack>
+            <Stack direction="row" spacing={2}>
+              {!material && (
+                <TextField
+                  label="Opening stock"
+                  type="number"
+                  value={stockQuantity}
+                  onChange={(e) => setStockQuantity(e.target.value)}
+                  slotProps={{ htmlInput: { min: 0, step: 'any' } }}
+                  fullWidth
+                />
+              )}
+              <TextField
+                label="Low stock threshold"
+                type="number"
+                value={lowStockThreshold}
+                onChange={(e) => setLowStockThreshold(e.target.value)}
+                slotProps={{ htmlInput: { min: 0, step: 'any' } }}
+                fullWidth
+              />
+              <TextField
+                label="Cost per unit"
+                type="number"
+                value={costPerUnit}
+                onChange={(e) => setCostPerUnit(e.target.value)}
+                slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                fullWidth
+              />
+            </Stack>
+            <TextField label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} multiline minRows={2} fullWidth />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={createMutation.isPending || updateMutation.isPending}>
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+interface AdjustDialogProps {
+  material: Material;
+  onClose: () => void;
+}
+
+function AdjustDialog({ material, onClose }: Readonly<AdjustDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const adjustMutation = useAdjustMaterialStock();
+  const [mode, setMode] = useState<'restock' | 'remove'>('restock');
+  const [quantity, setQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+  const amount = Number(quantity) || 0;
+  const newStock = material.stockQuantity + (mode === 'restock' ? amount : -amount);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await adjustMutation.mutateAsync({
+        id: material.id,
+        quantity: mode === 'restock' ? amount : -amount,
+        transactionType: mode === 'restock' ? 'restock' : 'adjustment',
+        notes: notes || undefined,
+      });
+      showSuccess(`${material.name} stock updated`);
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to adjust material stock');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Adjust {material.name}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <ToggleButtonGroup exclusive size="small" value={mode} onChange={(_e, value) => value && setMode(value)} fullWidth>
+              <ToggleButton value="restock">Add stock</ToggleButton>
+              <ToggleButton value="remove">Remove stock</ToggleButton>
+            </ToggleButtonGroup>
+            <TextField
+              label={`Quantity (${getUnitLabel(material.unit)})`}
+              type="number"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              slotProps={{ htmlInput: { min: 0, step: 'any' } }}
+              required
+              autoFocus
+              fullWidth
+              error={newStock < 0}
+              helperText={`In stock: ${formatQuantity(material.stockQuantity, material.unit)} → ${formatQuantity(newStock, material.unit)}`}
+            />
+            <TextField
+              label="Notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={mode === 'restock' ? 'Supplier, invoice number…' : 'Damaged, miscut, counted…'}
+              fullWidth
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={amount <= 0 || newStock < 0 || adjustMutation.isPending}>
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+interface HistoryDialogProps {
+  material: Material;
+  onClose: () => void;
+}
+
+function HistoryDialog({ material, onClose }: Readonly<HistoryDialogProps>): ReactElement {
+  const { data, isLoading, error } = useMaterialHistory(material.id);
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{material.name} – Stock History</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error">{error.message}</Alert>}
+        {isLoading ? (
+          <Box display="flex" justifyContent="center" py={4}><CircularProgress /></Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell align="right">Change</TableCell>
+                <TableCell align="right">Stock</TableCell>
+                <TableCell>Notes</TableCell>
+                <TableCell>By</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data?.transactions.map(transaction => (
+                <TableRow key={transaction.id}>
+                  <TableCell>{new Date(transaction.createdAt).toLocaleString()}</TableCell>
+                  <TableCell sx={{ textTransform: 'capitalize' }}>{transaction.transactionType}</TableCell>
+                  <TableCell align="right" sx={{ color: transaction.quantity < 0 ? 'error.main' : 'success.main' }}>
+                    {transaction.quantity > 0 ? '+' : ''}{transaction.quantity}
+                  </TableCell>
+                  <TableCell align="right">{transaction.newStock ?? '–'}</TableCell>
+                  <TableCell>{transaction.notes || '–'}</TableCell>
+                  <TableCell>{transaction.userEmail || '–'}</TableCell>
+                </TableRow>
+              ))}
+              {data?.transactions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">No stock movements yet</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+function ShortageReport(): ReactElement {
+  const { data, isLoading, error, refetch, isFetching } = useMaterialShortages();
+  const shortCount = data?.materials.filter(material => material.shortage > 0).length ?? 0;
+
+  if (isLoading) {
+    return <Box display="flex" justifyContent="center" py={6}><CircularProgress /></Box>;
+  }
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          Material needed by open work orders and by orders still awaiting confirmation.
+        </Typography>
+        <Button size="small" startIcon={<RefreshIcon />} onClick={() => refetch()} disabled={isFetching}>
+          Refresh
+        </Button>
+      </Stack>
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+      {data && (
+        <Alert severity={shortCount > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+          {shortCount > 0
+            ? `${shortCount} ${shortCount === 1 ? 'material is' : 'materials are'} short for open orders`
+            : 'Stock covers every open order'}
+        </Alert>
+      )}
+      {data && data.itemsWithoutBom.length > 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          No bill of materials for {data.itemsWithoutBom.map(item => item.name).join(', ')}, so their needs are not counted.
+        </Alert>
+      )}
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Material</TableCell>
+              <TableCell align="right">In stock</TableCell>
+              <TableCell align="right">Work orders</TableCell>
+              <TableCell align="right">Unconfirmed</TableCell>
+              <TableCell align="right">Short</TableCell>
+              <TableCell>Orders</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {data?.materials.map(row => (
+              <TableRow key={row.materialId} sx={row.shortage > 0 ? { bgcolor: 'error.50' } : undefined}>
+                <TableCell>{row.name}</TableCell>
+                <TableCell align="right">{formatQuantity(row.stockQuantity, row.unit)}</TableCell>
+                <TableCell align="right">{formatQuantity(row.requiredForWorkOrders, row.unit)}</TableCell>
+                <TableCell align="right">{formatQuantity(row.requiredForUnconfirmed, row.unit)}</TableCell>
+                <TableCell align="right">
+                  {row.shortage > 0
+                    ? <Chip size="small" color="error" label={formatQuantity(row.shortage, row.unit)} />
+                    : '–'}
+                </TableCell>
+                <TableCell>
+                  <Tooltip title={row.orders.join(', ')}>
+                    <Typography variant="body2" noWrap sx={{ maxWidth: 240 }}>{row.orders.join(', ')}</Typography>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+            {data?.materials.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">No open order needs any material</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
+
+/**
+ * Raw materials inventory and the shortage report for open orders
+ */
+export default function MaterialsManager(): ReactElement {
+  const { data: session } = useSession();
+  const { formatPrice } = useCurrency();
+  const { showSuccess, showError } = useNotification();
+  const { data: materials = [], isLoading, error } = useMaterials();
+  const deleteMutation = useDeleteMaterial();
+  const [tab, setTab] = useState<'materials' | 'shortages'>('materials');
+  const [editing, setEditing] = useState<Material | null | undefined>(undefined);
+  const [adjusting, setAdjusting] = useState<Material | null>(null);
+  const [viewingHistory, setViewingHistory] = useState<Material | null>(null);
+  const isAdmin = session?.user?.role === 'admin';
+
+  const handleDelete = async (material: Material) => {
+    if (!globalThis.confirm(`Delete ${material.name}? Its stock history is deleted too.`)) return;
+    try {
+      await deleteMutation.mutateAsync(material.id);
+      showSuccess(`${material.name} deleted`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete material');
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>Materials</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Fabric, thread and embellishments used to make items. Work orders use them up as they are completed.
+          </Typography>
+        </Box>
+        {isAdmin && tab === 'materials' && (
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setEditing(null)}>
+            Add Material
+          </Button>
+        )}
+      </Stack>
+
+      <Tabs value={tab} onChange={(_e, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab value="materials" label="Stock" />
+        <Tab value="shortages" label="Shortages" />
+      </Tabs>
+
+      {tab === 'shortages' ? (
+        <ShortageReport />
+      ) : (
+        <>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+          {isLoading ? (
+            <Box display="flex" justifyContent="center" py={6}><CircularProgress /></Box>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Material</TableCell>
+                    <TableCell>SKU</TableCell>
+                    <TableCell align="right">In stock</TableCell>
+                    <TableCell align="right">Low at</TableCell>
+                    <TableCell align="right">Cost / unit</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {materials.map(material => (
+                    <TableRow key={material.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={500}>{material.name}</Typography>
+                        {material.notes && (
+                          <Typography variant="caption" color="text.secondary">{material.notes}</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{material.sku || '–'}</TableCell>
+                      <TableCell align="right">
+                        <Chip
+                          size="small"
+                          color={material.isLowStock ? 'error' : 'success'}
+                          variant={material.isLowStock ? 'filled' : 'outlined'}
+                          label={formatQuantity(material.stockQuantity, material.unit)}
+                        />
+                      </TableCell>
+                      <TableCell align="right">{formatQuantity(material.lowStockThreshold, material.unit)}</TableCell>
+                      <TableCell align="right">{material.costPerUnit === null ? '–' : formatPrice(material.costPerUnit)}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Adjust stock">
+                          <IconButton size="small" onClick={() => setAdjusting(material)}><TuneIcon fontSize="small" /></IconButton>
+                        </Tooltip>
+                        <Tooltip title="Stock history">
+                          <IconButton size="small" onClick={() => setViewingHistory(material)}><HistoryIcon fontSize="small" /></IconButton>
+                        </Tooltip>
+                        {isAdmin && (
+                          <>
+                            <Tooltip title="Edit">
+                              <IconButton size="small" onClick={() => setEditing(material)}><EditIcon fontSize="small" /></IconButton>
+                            </Tooltip>
+                            <Tooltip title="Delete">
+                              <IconButton size="small" onClick={() => handleDelete(material)}><DeleteIcon fontSize="small" /></IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {materials.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                        No materials yet{isAdmin ? '. Add the fabric and trims you make items from.' : ''}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+
+      {editing !== undefined && <MaterialDialog material={editing} onClose={() => setEditing(undefined)} />}
+      {adjusting && <AdjustDialog material={adjusting} onClose={() => setAdjusting(null)} />}
+      {viewingHistory && <HistoryDialog material={viewingHistory} onClose={() => setViewingHistory(null)} />}
+    </Box>
+  );
+}
@@ -0,0 +1,550 @@
+'use client';
+
+import { useState, type FormEvent, type ReactElement } from 'react';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Tabs from '@mui/material/Tabs';
+import Tab from '@mui/material/Tab';
+import Tooltip from '@mui/material/Tooltip';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SendIcon from '@mui/icons-material/Send';
+import CancelIcon from '@mui/icons-material/Cancel';
+import MoveToInboxIcon from '@mui/icons-material/MoveToInbox';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useItems } from '@/hooks/queries/useItemsQueries';
+import {
+  useSuppliers,
+  usePurchaseOrders,
+  useCreatePurchaseOrder,
+  useUpdatePurchaseOrder,
+  useSetPurchaseOrderStatus,
+  useReceivePurchaseOrder,
+  type PurchaseOrderFilter,
+} from '@/hooks/queries/usePurchasingQueries';
+import { PURCHASE_ORDER_STATUSES } from '@/constants/purchasingConstants';
+import { formatDate, toDateInputValue } from '@/lib/utils/dateUtils';
+import SuppliersManager from './SuppliersManager';
+import type { PurchaseOrder } from '@/types';
+
+const FILTERS: Array<{ value: PurchaseOrderFilter; label: string }> = [
+  { value: 'active', label: 'Active' },
+  { value: 'open', label: 'Awaiting delivery' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'all', label: 'All' },
+];
+
+interface DraftLine {
+  key: number;
+  itemId: number | '';
+  quantityOrdered: string;
+  unitCost: string;
+}
+
+interface PurchaseOrderDialogProps {
+  purchaseOrder: PurchaseOrder | null;
+  onClose: () => void;
+}
+
+function PurchaseOrderDialog({ purchaseOrder, onClose }: Readonly<PurchaseOrderDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const { formatPrice } = useCurrency();
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: itemsData } = useItems();
+  const createMutation = useCreatePurchaseOrder();
+  const updateMutation = useUpdatePurchaseOrder();
+  const items = itemsData?.items ?? [];
+  const isDraft = !purchaseOrder || purchaseOrder.status === 'draft';
+  const [supplierId, setSupplierId] = useState<number | ''>(purchaseOrder?.supplier.id ?? '');
+  const [expectedDate, setExpectedDate] = useState(purchaseOrder?.expectedDate ?? '');
+  const [notes, setNotes] = useState(purchaseOrder?.notes ?? '');
+  const [lines, setLines] = useState<DraftLine[]>(
+    purchaseOrder
+      ? purchaseOrder.lines.map((line, index) => ({
+        key: index,
+        itemId: line.itemId as unknown as number,
+        quantityOrdered: String(line.quantityOrdered),
+        unitCost: String(line.unitCost),
+      }))
+      : [{ key: 0, itemId: '', quantityOrdered: '', unitCost: '' }]
+  );
+
+  const total = lines.reduce((sum, line) => sum + (Number(line.quantityOrdered) || 0) * (Number(line.unitCost) || 0), 0);
+
+  const updateLine = (key: number, changes: Partial<DraftLine>) => {
+    setLines(current => current.map(line => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const handleItemChange = (key: number, itemId: number) => {
+    const item = items.find(candidate => Number(candidate._id) === itemId);
+    const line = lines.find(candidate => candidate.key === key);
+    updateLine(key, {
+      itemId,
+      // Start from the item's current cost; the supplier's price may differ
+      unitCost: line?.unitCost || (item?.costPrice === null || item?.costPrice === undefined ? '' : String(item.costPrice)),
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      if (purchaseOrder && !isDraft) {
+        await updateMutation.mutateAsync({
+          id: purchaseOrder.id,
+          data: { expectedDate: expectedDate || null, notes: notes || null },
+        });
+      } else {
+        const data = {
+          supplierId: Number(supplierId),
+          expectedDate: expectedDate || null,
+          notes: notes || null,
+          lines: lines
+            .filter(line => line.itemId !== '')
+            .map(line => ({
+              itemId: Number(line.itemId),
+              quantityOrdered: Number(line.quantityOrdered),
+              unitCost: Number(line.unitCost) || 0,
+            })),
+        };
+        if (purchaseOrder) {
+          await updateMutation.mutateAsync({ id: purchaseOrder.id, data });
+        } else {
+          await createMutation.mutateAsync(data);
+        }
+      }
+      showSuccess(purchaseOrder ? `${purchaseOrder.poNumber} updated` : 'Purchase order created');
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save purchase order');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{purchaseOrder ? `Edit ${purchaseOrder.poNumber}` : 'New Purchase Order'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {suppliers.length === 0 && (
+              <Alert severity="info">Add a supplier on the Suppliers tab first.</Alert>
+            )}
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                select
+                label="Supplier"
+                value={supplierId}
+                onChange={(e) => setSupplierId(Number(e.target.value))}
+                required
+                disabled={!isDraft}
+                fullWidth
+              >
+                {suppliers.map(supplier => (
+                  <MenuItem key={supplier.id} value={supplier.id}>{supplier.name}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Expected delivery"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                slotProps={{ inputLabel: { shrink: true }, htmlInput: { min: toDateInputValue(new Date()) } }}
+                helperText={isDraft ? "Left empty, the supplier's lead time is used when the order is placed" : undefined}
+                fullWidth
+              />
+            </Stack>
+
+            <Typography variant="subtitle2" color="text.secondary">Lines</Typography>
+            {lines.map(line => (
+              <Stack key={line.key} direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Item"
+                  value={line.itemId}
+                  onChange={(e) => handleItemChange(line.key, Number(e.target.value))}
+                  disabled={!isDraft}
+                  sx={{ flex: 3, minWidth: 200 }}
+                >
+                  {items.map(item => (
+                    <MenuItem key={item._id} value={Number(item._id)}>{item.name}</MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Quantity"
+                  value={line.quantityOrdered}
+                  onChange={(e) => updateLine(line.key, { quantityOrdered: e.target.value })}
+                  disabled={!isDraft}
+                  slotProps={{ htmlInput: { min: 1, step: 1 } }}
+                  sx={{ width: 120 }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Unit cost"
+                  value={line.unitCost}
+                  onChange={(e) => updateLine(line.key, { unitCost: e.target.value })}
+                  disabled={!isDraft}
+                  slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                  sx={{ width: 140 }}
+                />
+                {isDraft && (
+                  <IconButton
+                    size="small"
+                    aria-label="Remove line"
+                    onClick={() => setLines(current => current.filter(l => l.key !== line.key))}
+                    disabled={lines.length === 1}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Stack>
+            ))}
+            <Stack direction="row" justifyContent="space-between" alignItems="center">
+              {isDraft ? (
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={() => setLines(current => [
+                    ...current,
+                    { key: Math.max(-1, ...current.map(line => line.key)) + 1, itemId: '', quantityOrdered: '', unitCost: '' },
+                  ])}
+                >
+                  Add line
+                </Button>
+              ) : (
+                <Typography variant="caption" color="text.secondary">
+                  Lines can only be changed while the order is a draft.
+                </Typography>
+              )}
+              <Typography variant="body2" fontWeight={600}>Total {formatPrice(total)}</Typography>
+            </Stack>
+
+            <TextField label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} multiline minRows={2} fullWidth />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={supplierId === '' || createMutation.isPending || updateMutation.isPending}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+interface ReceiveDialogProps {
+  purchaseOrder: PurchaseOrder;
+  onClose: () => void;
+}
+
+function ReceiveDialog({ purchaseOrder, onClose }: Readonly<ReceiveDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const receiveMutation = useReceivePurchaseOrder();
+  const outstandingLines = purchaseOrder.lines.filter(line => line.quantityReceived < line.quantityOrdered);
+  const [quantities, setQuantities] = useState<Record<number, string>>(
+    Object.fromEntries(outstandingLines.map(line => [line.id, String(line.quantityOrdered - line.quantityReceived)]))
+  );
+  const [notes, setNotes] = useState('');
+
+  const receipts = outstandingLines
+    .map(line => ({ lineId: line.id, quantity: Number(quantities[line.id]) || 0 }))
+    .filter(receipt => receipt.quantity > 0);
+  const isOverReceived = outstandingLines.some(
+    line => (Number(quantities[line.id]) || 0) > line.quantityOrdered - line.quantityReceived
+  );
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await receiveMutation.mutateAsync({ id: purchaseOrder.id, lines: receipts, notes: notes || undefined });
+      showSuccess(`Received ${result.stock.received} units into stock`);
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to receive goods');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Receive {purchaseOrder.poNumber}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Enter what arrived. Units go into stock and update each item&apos;s cost price.
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Item</TableCell>
+                <TableCell align="right">Ordered</TableCell>
+                <TableCell align="right">Received</TableCell>
+                <TableCell align="right" sx={{ width: 130 }}>Receiving now</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {outstandingLines.map(line => {
+                const outstanding = line.quantityOrdered - line.quantityReceived;
+                const value = Number(quantities[line.id]) || 0;
+                return (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.itemName}</TableCell>
+                    <TableCell align="right">{line.quantityOrdered}</TableCell>
+                    <TableCell align="right">{line.quantityReceived}</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={quantities[line.id] ?? ''}
+                        onChange={(e) => setQuantities(current => ({ ...current, [line.id]: e.target.value }))}
+                        slotProps={{ htmlInput: { min: 0, max: outstanding, step: 1, 'aria-label': `Quantity of ${line.itemName} received` } }}
+                        error={value > outstanding}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <TextField
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Invoice number, damaged units…"
+            fullWidth
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={receipts.length === 0 || isOverReceived || receiveMutation.isPending}
+          >
+            Receive
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+function PurchaseOrderList(): ReactElement {
+  const { data: session } = useSession();
+  const { formatPrice } = useCurrency();
+  const { showSuccess, showError } = useNotification();
+  const [filter, setFilter] = useState<PurchaseOrderFilter>('active');
+  const { data: purchaseOrders = [], isLoading, error } = usePurchaseOrders(filter);
+  const statusMutation = useSetPurchaseOrderStatus();
+  const [editing, setEditing] = useState<PurchaseOrder | null | undefined>(undefined);
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+  const isAdmin = session?.user?.role === 'admin';
+  const today = toDateInputValue(new Date());
+
+  const handleStatus = async (purchaseOrder: PurchaseOrder, status: 'ordered' | 'cancelled') => {
+    if (status === 'cancelled') {
+      const message = purchaseOrder.status === 'partially_received'
+        ? `Close ${purchaseOrder.poNumber}? Units not yet received will no longer be expected.`
+        : `Cancel ${purchaseOrder.poNumber}?`;
+      if (!globalThis.confirm(message)) return;
+    }
+    try {
+      await statusMutation.mutateAsync({ id: purchaseOrder.id, status });
+      showSuccess(status === 'ordered' ? `${purchaseOrder.poNumber} placed` : `${purchaseOrder.poNumber} cancelled`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update purchase order');
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }} flexWrap="wrap" gap={1}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={filter}
+          onChange={(_e, value: PurchaseOrderFilter | null) => value && setFilter(value)}
+        >
+          {FILTERS.map(option => (
+            <ToggleButton key={option.value} value={option.value}>{option.label}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        {isAdmin && (
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setEditing(null)}>
+            New Purchase Order
+          </Button>
+        )}
+      </Stack>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py={6}><CircularProgress /></Box>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>PO</TableCell>
+                <TableCell>Supplier</TableCell>
+                <TableCell>Items</TableCell>
+                <TableCell>Expected</TableCell>
+                <TableCell align="right">Total</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {purchaseOrders.map(purchaseOrder => {
+                const status = PURCHASE_ORDER_STATUSES.find(option => option.value === purchaseOrder.status);
+                const isOpen = purchaseOrder.status === 'ordered' || purchaseOrder.status === 'partially_received';
+                const isLate = isOpen && !!purchaseOrder.expectedDate && purchaseOrder.expectedDate < today;
+                return (
+                  <TableRow key={purchaseOrder.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{purchaseOrder.poNumber}</Typography>
+                      {purchaseOrder.notes && (
+                        <Typography variant="caption" color="text.secondary">{purchaseOrder.notes}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{purchaseOrder.supplier.name}</TableCell>
+                    <TableCell>
+                      {purchaseOrder.lines.map(line => (
+                        <Typography key={line.id} variant="body2">
+                          {line.itemName} × {line.quantityOrdered}
+                          {line.quantityReceived > 0 && line.quantityReceived < line.quantityOrdered && (
+                            <Typography component="span" variant="caption" color="text.secondary">
+                              {' '}({line.quantityReceived} received)
+                            </Typography>
+                          )}
+                        </Typography>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {purchaseOrder.expectedDate ? (
+                        <Typography variant="body2" color={isLate ? 'error' : undefined}>
+                          {formatDate(purchaseOrder.expectedDate, 'short')}{isLate ? ' (late)' : ''}
+                        </Typography>
+                      ) : '–'}
+                    </TableCell>
+                    <TableCell align="right">{formatPrice(purchaseOrder.totalCost)}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={status?.label ?? purchaseOrder.status} color={status?.color ?? 'default'} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                        {isOpen && (
+                          <Tooltip title="Receive goods">
+                            <IconButton size="small" color="primary" onClick={() => setReceiving(purchaseOrder)}>
+                              <MoveToInboxIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {isAdmin && purchaseOrder.status === 'draft' && (
+                          <Tooltip title="Place order">
+                            <IconButton
+                              size="small"
+                              color="primary"
+                              onClick={() => handleStatus(purchaseOrder, 'ordered')}
+                              disabled={statusMutation.isPending}
+                            >
+                              <SendIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {isAdmin && (purchaseOrder.status === 'draft' || isOpen) && (
+                          <>
+                            <Tooltip title="Edit">
+                              <IconButton size="small" onClick={() => setEditing(purchaseOrder)}>
+                                <EditIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title={purchaseOrder.status === 'partially_received' ? 'Close' : 'Cancel'}>
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() => handleStatus(purchaseOrder, 'cancelled')}
+                                disabled={statusMutation.isPending}
+                              >
+                                <CancelIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                      </Stack>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {purchaseOrders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                    No purchase orders
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {editing !== undefined && <PurchaseOrderDialog purchaseOrder={editing} onClose={() => setEditing(undefined)} />}
+      {receiving && <ReceiveDialog purchaseOrder={receiving} onClose={() => setReceiving(null)} />}
+    </Box>
+  );
+}
+
+/**
+ * Purchase orders and the suppliers they are placed with
+ */
+export default function PurchasingManager(): ReactElement {
+  const [tab, setTab] = useState<'orders' | 'suppliers'>('orders');
+
+  return (
+    <Box>
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h5" fontWeight={600}>Purchasing</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Order stock from suppliers and receive deliveries into inventory.
+        </Typography>
+      </Box>
+
+      <Tabs value={tab} onChange={(_e, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab value="orders" label="Purchase Orders" />
+        <Tab value="suppliers" label="Suppliers" />
+      </Tabs>
+
+      {tab === 'orders' ? <PurchaseOrderList /> : <SuppliersManager />}
+    </Box>
+  );
+}
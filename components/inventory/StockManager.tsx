@@ -28,10 +28,14 @@ import HistoryIcon from '@mui/icons-material/History';
 import InventoryIcon from '@mui/icons-material/Inventory';
 import WarningIcon from '@mui/icons-material/Warning';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import PaletteIcon from '@mui/icons-material/Palette';
 import { useStockInventory, type StockFilters } from '@/hooks/queries/useStockQueries';
 import PaginationControls from '@/components/common/PaginationControls';
 import StockAdjustmentDialog from './StockAdjustmentDialog';
 import StockHistoryDialog from './StockHistoryDialog';
+import DesignStockDialog from './DesignStockDialog';
+import StockRecommendations from './StockRecommendations';
+import { formatDate } from '@/lib/utils/dateUtils';
 import type { StockInfo, ItemId } from '@/types';
 
 /**
@@ -75,9 +79,10 @@ interface StockRowProps {
   stock: StockInfo;
   onAdjust: (stock: StockInfo) => void;
   onViewHistory: (stock: StockInfo) => void;
+  onDesignStock: (stock: StockInfo) => void;
 }
 
-function StockRow({ stock, onAdjust, onViewHistory }: StockRowProps): ReactElement {
+function StockRow({ stock, onAdjust, onViewHistory, onDesignStock }: StockRowProps): ReactElement {
   const statusColor = getStockStatusColor(stock.stockQuantity, stock.lowStockThreshold, stock.trackStock);
   const statusIcon = getStockStatusIcon(stock.stockQuantity, stock.lowStockThreshold, stock.trackStock);
 
@@ -106,11 +111,35 @@ function StockRow({ stock, onAdjust, onViewHistory }: StockRowProps): ReactEleme
           sx={{ fontWeight: 600, minWidth: 60 }}
         />
       </TableCell>
+      <TableCell>
+        <Typography variant="body2" color="text.secondary">
+          {stock.reservedQuantity > 0 ? stock.reservedQuantity : '–'}
+        </Typography>
+      </TableCell>
+      <TableCell>
+        <Typography variant="body2" fontWeight={500} color={stock.trackStock && stock.availableQuantity === 0 ? 'error.main' : 'text.primary'}>
+          {stock.availableQuantity}
+        </Typography>
+      </TableCell>
       <TableCell>
         <Typography variant="body2" color="text.secondary">
           {stock.lowStockThreshold}
         </Typography>
       </TableCell>
+      <TableCell>
+        {stock.onOrderQuantity > 0 ? (
+          <Box>
+            <Typography variant="body2">{stock.onOrderQuantity}</Typography>
+            {stock.nextExpectedDate && (
+              <Typography variant="caption" color="text.secondary">
+                Due {formatDate(stock.nextExpectedDate, 'short')}
+              </Typography>
+            )}
+          </Box>
+        ) : (
+          <Typography variant="body2" color="text.secondary">–</Typography>
+        )}
+      </TableCell>
       <TableCell>
         <Chip
           label={stock.trackStock ? 'Yes' : 'No'}
@@ -131,6 +160,15 @@ function StockRow({ stock, onAdjust, onViewHistory }: StockRowProps): ReactEleme
               <EditIcon fontSize="small" />
             </IconButton>
           </Tooltip>
+          <Tooltip title="Design stock">
+            <IconButton
+              size="small"
+              onClick={() => onDesignStock(stock)}
+              aria-label={`Design stock for ${stock.itemName}`}
+            >
+              <PaletteIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
           <Tooltip title="View history">
             <IconButton
               size="small"
@@ -173,6 +211,8 @@ export default function StockManager(): ReactElement {
     stock: StockInfo | null;
   }>({ open: false, stock: null });
 
+  const [designStockItem, setDesignStockItem] = useState<StockInfo | null>(null);
+
   // Fetch inventory data
   const { 
     data, 
@@ -230,6 +270,10 @@ export default function StockManager(): ReactElement {
     setHistoryDialog({ open: false, stock: null });
   }, []);
 
+  const handleOpenDesignStock = useCallback((stock: StockInfo) => {
+    setDesignStockItem(stock);
+  }, []);
+
   // Pagination info for controls
   const paginationInfo = useMemo(() => ({
     page: filters.page ?? 1,
@@ -286,6 +330,8 @@ export default function StockManager(): ReactElement {
         </Tooltip>
       </Stack>
 
+      <StockRecommendations />
+
       {/* Filters */}
       <Paper sx={{ p: 2, mb: 3 }}>
         <Stack 
@@ -349,9 +395,18 @@ export default function StockManager(): ReactElement {
               <TableCell>
                 <Typography variant="subtitle2">Current Stock</Typography>
               </TableCell>
+              <TableCell>
+                <Typography variant="subtitle2">Reserved</Typography>
+              </TableCell>
+              <TableCell>
+                <Typography variant="subtitle2">Available</Typography>
+              </TableCell>
               <TableCell>
                 <Typography variant="subtitle2">Low Threshold</Typography>
               </TableCell>
+              <TableCell>
+                <Typography variant="subtitle2">On Order</Typography>
+              </TableCell>
               <TableCell>
                 <Typography variant="subtitle2">Track Stock</Typography>
               </TableCell>
@@ -363,7 +418,7 @@ export default function StockManager(): ReactElement {
           <TableBody>
             {items.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} align="center">
+                <TableCell colSpan={8} align="center">
                   <Typography variant="body2" color="text.secondary" py={4}>
                     {filters.lowStockOnly 
                       ? 'No items with low stock found.'
@@ -378,6 +433,7 @@ export default function StockManager(): ReactElement {
                   stock={stock}
                   onAdjust={handleOpenAdjustment}
                   onViewHistory={handleOpenHistory}
+                  onDesignStock={handleOpenDesignStock}
                 />
               ))
             )}
@@ -414,6 +470,15 @@ export default function StockManager(): ReactElement {
           itemName={historyDialog.stock.itemName}
         />
       )}
+
+      {/* Design Stock Dialog */}
+      {designStockItem && (
+        <DesignStockDialog
+          itemId={designStockItem.itemId as unknown as number}
+          itemName={designStockItem.itemName}
+          onClose={() => setDesignStockItem(null)}
+        />
+      )}
     </Box>
   );
 }
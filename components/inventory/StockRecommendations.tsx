@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, type FormEvent, type ReactElement } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Tooltip from '@mui/material/Tooltip';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import SettingsIcon from '@mui/icons-material/Settings';
+import TuneIcon from '@mui/icons-material/Tune';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useStockRecommendations,
+  useApplyRecommendedThresholds,
+  useUpdateReplenishmentSettings,
+  type ReplenishmentSettingsData,
+} from '@/hooks/queries/useStockQueries';
+import { REPLENISHMENT_MAX_DAYS, REPLENISHMENT_STATUSES } from '@/constants/replenishmentConstants';
+import { formatDate, toDateInputValue } from '@/lib/utils/dateUtils';
+import type { ReplenishmentSettings } from '@/types';
+
+const DAY_FIELDS: Array<{ key: keyof ReplenishmentSettingsData; label: string; helperText: string; min: number }> = [
+  { key: 'shortWindowDays', label: 'Recent sales window', helperText: 'Days of sales for the recent rate', min: 1 },
+  { key: 'longWindowDays', label: 'Long sales window', helperText: 'Days of sales for the steady rate', min: 1 },
+  { key: 'safetyStockDays', label: 'Safety stock', helperText: 'Days of sales kept in hand', min: 0 },
+  { key: 'targetCoverDays', label: 'Order cover', helperText: 'Days of sales each reorder covers', min: 1 },
+  { key: 'defaultLeadTimeDays', label: 'Default lead time', helperText: 'For items without a supplier lead time', min: 0 },
+];
+
+interface SettingsDialogProps {
+  settings: ReplenishmentSettings;
+  onClose: () => void;
+}
+
+function SettingsDialog({ settings, onClose }: Readonly<SettingsDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const updateMutation = useUpdateReplenishmentSettings();
+  const [days, setDays] = useState<Record<string, string>>(
+    Object.fromEntries(DAY_FIELDS.map(field => [field.key, String(settings[field.key])]))
+  );
+  const [autoUpdateThresholds, setAutoUpdateThresholds] = useState(settings.autoUpdateThresholds);
+  const [includeInDigest, setIncludeInDigest] = useState(settings.includeInDigest);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateMutation.mutateAsync({
+        shortWindowDays: Number(days.shortWindowDays),
+        longWindowDays: Number(days.longWindowDays),
+        safetyStockDays: Number(days.safetyStockDays),
+        targetCoverDays: Number(days.targetCoverDays),
+        defaultLeadTimeDays: Number(days.defaultLeadTimeDays),
+        autoUpdateThresholds,
+        includeInDigest,
+      });
+      showSuccess('Reorder settings saved');
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save reorder settings');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Reorder Settings</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Box display="grid" gridTemplateColumns={{ xs: '1fr', sm: '1fr 1fr' }} gap={2}>
+              {DAY_FIELDS.map(field => (
+                <TextField
+                  key={field.key}
+                  label={field.label}
+                  type="number"
+                  value={days[field.key]}
+                  onChange={(e) => setDays(current => ({ ...current, [field.key]: e.target.value }))}
+                  helperText={field.helperText}
+                  slotProps={{ htmlInput: { min: field.min, max: REPLENISHMENT_MAX_DAYS, step: 1 } }}
+                  required
+                />
+              ))}
+            </Box>
+            <FormControlLabel
+              control={<Switch checked={autoUpdateThresholds} onChange={(e) => setAutoUpdateThresholds(e.target.checked)} />}
+              label="Update low stock thresholds to the reorder point every day"
+            />
+            <FormControlLabel
+              control={<Switch checked={includeInDigest} onChange={(e) => setIncludeInDigest(e.target.checked)} />}
+              label="List items due for reorder in the daily digest email"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={updateMutation.isPending}>Save</Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+/**
+ * Reorder suggestions from sales velocity, supplier lead time and safety stock
+ */
+export default function StockRecommendations(): ReactElement {
+  const { data: session } = useSession();
+  const { showSuccess, showError } = useNotification();
+  const { data, isLoading, error } = useStockRecommendations();
+  const applyMutation = useApplyRecommendedThresholds();
+  const [showAll, setShowAll] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const isAdmin = session?.user?.role === 'admin';
+  const today = toDateInputValue(new Date());
+
+  const recommendations = data?.recommendations ?? [];
+  const dueCount = recommendations.filter(r => r.status === 'reorder_now' || r.status === 'reorder_soon').length;
+  const visible = showAll ? recommendations : recommendations.filter(r => r.status === 'reorder_now' || r.status === 'reorder_soon');
+
+  const handleApply = async (itemIds?: number[]) => {
+    if (!itemIds && !globalThis.confirm('Set every selling item\'s low stock threshold to its reorder point?')) return;
+    try {
+      const result = await applyMutation.mutateAsync(itemIds);
+      showSuccess(result.updated.length === 0
+        ? 'Thresholds already match the reorder points'
+        : `Updated ${result.updated.length} threshold${result.updated.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update thresholds');
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={1} mb={1}>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <TrendingUpIcon color="primary" />
+          <Typography variant="h6" component="h3">Reorder Suggestions</Typography>
+          {dueCount > 0 && <Chip size="small" color="warning" label={`${dueCount} due`} />}
+        </Stack>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <FormControlLabel
+            control={<Switch size="small" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />}
+            label="All items"
+          />
+          {isAdmin && (
+            <>
+              <Button size="small" startIcon={<TuneIcon />} onClick={() => handleApply()} disabled={applyMutation.isPending}>
+                Apply thresholds
+              </Button>
+              <Tooltip title="Reorder settings">
+                <IconButton size="small" onClick={() => setSettingsOpen(true)} disabled={!data}>
+                  <SettingsIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </>
+          )}
+        </Stack>
+      </Stack>
+
+      {data && (
+        <Typography variant="caption" color="text.secondary" display="block" mb={2}>
+          Sales over the last {data.settings.shortWindowDays} and {data.settings.longWindowDays} days,
+          {' '}{data.settings.safetyStockDays} days of safety stock, reorders covering {data.settings.targetCoverDays} days.
+        </Typography>
+      )}
+
+      {error && <Alert severity="error">{error.message}</Alert>}
+      {isLoading && <Box display="flex" justifyContent="center" py={3}><CircularProgress size={24} /></Box>}
+      {data && visible.length === 0 && (
+        <Typography variant="body2" color="text.secondary" py={2} textAlign="center">
+          Nothing needs reordering this week.
+        </Typography>
+      )}
+      {data && visible.length > 0 && (
+        <TableContainer>
+          <Table size="small" aria-label="Reorder suggestions">
+            <TableHead>
+              <TableRow>
+                <TableCell>Item</TableCell>
+                <TableCell align="right">Sales / day</TableCell>
+                <TableCell align="right">Days of cover</TableCell>
+                <TableCell align="right">Stock + on order</TableCell>
+                <TableCell align="right">Reorder point</TableCell>
+                <TableCell align="right">Order qty</TableCell>
+                <TableCell>Reorder by</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visible.map(recommendation => {
+                const status = REPLENISHMENT_STATUSES.find(option => option.value === recommendation.status);
+                const thresholdDiffers = recommendation.status !== 'no_demand'
+                  && recommendation.reorderPoint !== recommendation.lowStockThreshold;
+                return (
+                  <TableRow key={recommendation.itemId} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{recommendation.itemName}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {recommendation.leadTimeDays} day lead time
+                        {recommendation.leadTimeSource === 'supplier' ? ` from ${recommendation.supplierName}` : ' (default)'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{recommendation.dailyVelocity}</TableCell>
+                    <TableCell align="right">
+                      {recommendation.daysOfCover === null ? '–' : (
+                        <Tooltip title={recommendation.stockoutDate ? `Runs out around ${formatDate(recommendation.stockoutDate, 'short')}` : ''}>
+                          <span>{recommendation.daysOfCover}</span>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {recommendation.stockQuantity}
+                      {recommendation.onOrderQuantity > 0 && ` + ${recommendation.onOrderQuantity}`}
+                    </TableCell>
+                    <TableCell align="right">
+                      {recommendation.status === 'no_demand' ? '–' : recommendation.reorderPoint}
+                      {thresholdDiffers && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          threshold {recommendation.lowStockThreshold}
+                          {isAdmin && (
+                            <Button
+                              size="small"
+                              sx={{ minWidth: 0, ml: 0.5, p: 0, fontSize: '0.7rem' }}
+                              onClick={() => handleApply([Number(recommendation.itemId)])}
+                              disabled={applyMutation.isPending}
+                            >
+                              Apply
+                            </Button>
+                          )}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{recommendation.reorderQuantity || '–'}</TableCell>
+                    <TableCell>
+                      {recommendation.reorderDate ? (
+                        <Typography variant="body2" color={recommendation.reorderDate <= today ? 'error' : undefined}>
+                          {recommendation.reorderDate <= today ? 'Today' : formatDate(recommendation.reorderDate, 'short')}
+                        </Typography>
+                      ) : '–'}
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="small" label={status?.label ?? recommendation.status} color={status?.color ?? 'default'} />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {dueCount > 0 && (
+        <Box mt={2}>
+          <Button component={Link} href="/items/purchasing" size="small" variant="outlined">
+            Create purchase order
+          </Button>
+        </Box>
+      )}
+
+      {settingsOpen && data && <SettingsDialog settings={data.settings} onClose={() => setSettingsOpen(false)} />}
+    </Paper>
+  );
+}
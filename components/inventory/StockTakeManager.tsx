@@ -0,0 +1,592 @@
+'use client';
+
+import { useCallback, useState, type FormEvent, type KeyboardEvent, type ReactElement } from 'react';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Autocomplete from '@mui/material/Autocomplete';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import LinearProgress from '@mui/material/LinearProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import AddIcon from '@mui/icons-material/Add';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import QrCodeScannerIcon from '@mui/icons-material/QrCodeScanner';
+import DownloadIcon from '@mui/icons-material/Download';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CancelIcon from '@mui/icons-material/Cancel';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useItems } from '@/hooks/queries/useItemsQueries';
+import {
+  useStockTakes,
+  useStockTake,
+  useCreateStockTake,
+  useRecordStockTakeCounts,
+  useScanStockTakeCode,
+  useApproveStockTake,
+  useCancelStockTake,
+  type StockTakeFilter,
+} from '@/hooks/queries/useStockTakeQueries';
+import { STOCK_TAKE_STATUSES } from '@/constants/stockTakeConstants';
+import { formatDate } from '@/lib/utils/dateUtils';
+import BarcodeScannerDialog, { canScanWithCamera } from './BarcodeScannerDialog';
+import type { Item, StockTake, StockTakeLine, StockTakeSummary } from '@/types';
+
+const FILTERS: Array<{ value: StockTakeFilter; label: string }> = [
+  { value: 'counting', label: 'Counting' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'all', label: 'All' },
+];
+
+type LineFilter = 'all' | 'uncounted' | 'variance';
+
+function formatVariance(variance: number | null): string {
+  if (variance === null) return '–';
+  return variance > 0 ? `+${variance}` : String(variance);
+}
+
+function varianceColor(variance: number | null): string | undefined {
+  if (!variance) return undefined;
+  return variance > 0 ? 'success.main' : 'error.main';
+}
+
+interface NewStockTakeDialogProps {
+  onCreated: (stockTake: StockTake) => void;
+  onClose: () => void;
+}
+
+function NewStockTakeDialog({ onCreated, onClose }: Readonly<NewStockTakeDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const { data: itemsData } = useItems();
+  const createMutation = useCreateStockTake();
+  const trackedItems = (itemsData?.items ?? []).filter(item => item.trackStock);
+  const [name, setName] = useState(`Stock take ${formatDate(new Date().toISOString(), 'short')}`);
+  const [notes, setNotes] = useState('');
+  const [selected, setSelected] = useState<Item[]>([]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const stockTake = await createMutation.mutateAsync({
+        name,
+        notes: notes || null,
+        itemIds: selected.length > 0 ? selected.map(item => Number(item._id)) : undefined,
+      });
+      showSuccess(`${stockTake.stockTakeNumber} started with ${stockTake.summary.lineCount} lines to count`);
+      onCreated(stockTake);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to start stock take');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>New Stock Take</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} required fullWidth />
+            <Autocomplete
+              multiple
+              options={trackedItems}
+              value={selected}
+              onChange={(_e, value) => setSelected(value)}
+              getOptionLabel={(item) => item.name}
+              isOptionEqualToValue={(option, value) => option._id === value._id}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Items to count"
+                  placeholder={selected.length === 0 ? 'All tracked items' : undefined}
+                  helperText="Leave empty to count every item that tracks stock"
+                />
+              )}
+            />
+            <TextField label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} multiline minRows={2} fullWidth />
+            <Typography variant="body2" color="text.secondary">
+              Stock on hand is recorded now; counts are compared against it. Sales and deliveries
+              while counting are kept when the stock take is approved.
+            </Typography>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!name.trim() || createMutation.isPending}>
+            Start Counting
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+interface ApproveDialogProps {
+  stockTake: StockTake;
+  onClose: () => void;
+}
+
+function ApproveDialog({ stockTake, onClose }: Readonly<ApproveDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const { formatPrice } = useCurrency();
+  const approveMutation = useApproveStockTake();
+  const [reason, setReason] = useState('');
+  const { summary } = stockTake;
+  const uncounted = summary.lineCount - summary.countedLines;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await approveMutation.mutateAsync({ id: stockTake.id, reason });
+      showSuccess(`${stockTake.stockTakeNumber} approved; ${result.stock.posted} correction(s) posted`);
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to approve stock take');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Approve {stockTake.stockTakeNumber}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Typography variant="body2">
+              {summary.itemsWithVariance} item(s) differ: {summary.unitsOver} unit(s) over and {summary.unitsShort} short,
+              worth {formatPrice(summary.netVarianceValue)} net at cost. Each difference is posted as a stock adjustment.
+            </Typography>
+            {uncounted > 0 && (
+              <Alert severity="warning">
+                {uncounted} line(s) have not been counted and will be left as they are.
+              </Alert>
+            )}
+            <TextField
+              label="Reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              fullWidth
+              placeholder="e.g. Quarterly count"
+              helperText="Recorded on every adjustment and in the audit log"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" color="success" disabled={!reason.trim() || approveMutation.isPending}>
+            Approve and Post
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+interface CountCellProps {
+  stockTakeId: number;
+  line: StockTakeLine;
+  disabled: boolean;
+}
+
+function CountCell({ stockTakeId, line, disabled }: Readonly<CountCellProps>): ReactElement {
+  const { showError } = useNotification();
+  const countsMutation = useRecordStockTakeCounts();
+  const saved = line.countedQuantity === null ? '' : String(line.countedQuantity);
+  const [value, setValue] = useState(saved);
+  const [lastSaved, setLastSaved] = useState(saved);
+
+  // Take counts from other people unless this one is being edited
+  if (saved !== lastSaved) {
+    setLastSaved(saved);
+    setValue(saved);
+  }
+
+  const save = async () => {
+    if (value === saved) return;
+    const countedQuantity = value === '' ? null : Number.parseInt(value, 10);
+    if (countedQuantity !== null && (Number.isNaN(countedQuantity) || countedQuantity < 0)) {
+      setValue(saved);
+      return;
+    }
+    try {
+      await countsMutation.mutateAsync({ id: stockTakeId, counts: [{ lineId: line.id, countedQuantity }] });
+    } catch (err) {
+      setValue(saved);
+      showError(err instanceof Error ? err.message : 'Failed to record count');
+    }
+  };
+
+  if (disabled) return <>{line.countedQuantity ?? '–'}</>;
+
+  return (
+    <TextField
+      size="small"
+      type="number"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      slotProps={{ htmlInput: { min: 0, step: 1, 'aria-label': `Counted quantity for ${line.designName ?? line.itemName}` } }}
+      sx={{ width: 90 }}
+    />
+  );
+}
+
+function SummaryChips({ summary }: Readonly<{ summary: StockTakeSummary }>): ReactElement {
+  const { formatPrice } = useCurrency();
+  return (
+    <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+      <Chip size="small" label={`${summary.countedLines} / ${summary.lineCount} counted`} />
+      <Chip size="small" label={`${summary.itemsWithVariance} with variance`} color={summary.itemsWithVariance > 0 ? 'warning' : 'default'} />
+      <Chip size="small" label={`+${summary.unitsOver} / −${summary.unitsShort} units`} />
+      <Chip
+        size="small"
+        label={`${formatPrice(summary.netVarianceValue)} net`}
+        color={summary.netVarianceValue < 0 ? 'error' : 'default'}
+      />
+    </Stack>
+  );
+}
+
+interface StockTakeDetailProps {
+  stockTakeId: number;
+  onBack: () => void;
+}
+
+function StockTakeDetail({ stockTakeId, onBack }: Readonly<StockTakeDetailProps>): ReactElement {
+  const { data: session } = useSession();
+  const { formatPrice } = useCurrency();
+  const { showSuccess, showError } = useNotification();
+  const { data: stockTake, isLoading, error } = useStockTake(stockTakeId);
+  const scanMutation = useScanStockTakeCode();
+  const cancelMutation = useCancelStockTake();
+  const [code, setCode] = useState('');
+  const [lastScan, setLastScan] = useState<{ label: string; counted: number | null } | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [lineFilter, setLineFilter] = useState<LineFilter>('all');
+  const isAdmin = session?.user?.role === 'admin';
+
+  const scan = useCallback(async (scanned: string) => {
+    if (!scanned.trim()) return;
+    try {
+      const { line } = await scanMutation.mutateAsync({ id: stockTakeId, code: scanned });
+      setLastScan({ label: line.designName ? `${line.itemName} – ${line.designName}` : line.itemName, counted: line.countedQuantity });
+      setCode('');
+    } catch (err) {
+      setLastScan(null);
+      showError(err instanceof Error ? err.message : 'Failed to record scan');
+    }
+  }, [scanMutation, stockTakeId, showError]);
+
+  const handleDetected = useCallback((scanned: string) => {
+    setCameraOpen(false);
+    scan(scanned);
+  }, [scan]);
+
+  const handleScanKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      scan(code);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stockTake || !globalThis.confirm(`Cancel ${stockTake.stockTakeNumber}? Counts are kept but nothing is posted to stock.`)) return;
+    try {
+      await cancelMutation.mutateAsync(stockTake.id);
+      showSuccess(`${stockTake.stockTakeNumber} cancelled`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to cancel stock take');
+    }
+  };
+
+  if (isLoading) {
+    return <Box display="flex" justifyContent="center" py={6}><CircularProgress /></Box>;
+  }
+  if (error || !stockTake) {
+    return <Alert severity="error">{error?.message ?? 'Stock take not found'}</Alert>;
+  }
+
+  const isCounting = stockTake.status === 'counting';
+  const status = STOCK_TAKE_STATUSES.find(option => option.value === stockTake.status);
+  const lines = (stockTake.lines ?? []).filter(line => {
+    if (lineFilter === 'uncounted') return line.countedQuantity === null;
+    if (lineFilter === 'variance') return !!line.variance;
+    return true;
+  });
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }} flexWrap="wrap" useFlexGap>
+        <IconButton onClick={onBack} aria-label="Back to stock takes"><ArrowBackIcon /></IconButton>
+        <Box sx={{ flexGrow: 1 }}>
+          <Typography variant="h6" fontWeight={600}>{stockTake.stockTakeNumber} · {stockTake.name}</Typography>
+          <Typography variant="caption" color="text.secondary">
+            Started {formatDate(stockTake.createdAt, 'short')}
+            {stockTake.reason && ` · Approved: ${stockTake.reason}`}
+          </Typography>
+        </Box>
+        <Chip size="small" label={status?.label ?? stockTake.status} color={status?.color ?? 'default'} />
+        <Button
+          size="small"
+          startIcon={<DownloadIcon />}
+          href={`/api/stock/takes/${stockTake.id}/export?format=csv`}
+        >
+          Variance Report
+        </Button>
+        {isAdmin && isCounting && (
+          <>
+            <Button size="small" color="error" startIcon={<CancelIcon />} onClick={handleCancel} disabled={cancelMutation.isPending}>
+              Cancel
+            </Button>
+            <Button size="small" variant="contained" color="success" startIcon={<CheckCircleIcon />} onClick={() => setApproving(true)}>
+              Approve
+            </Button>
+          </>
+        )}
+      </Stack>
+
+      <Box sx={{ mb: 2 }}>
+        <SummaryChips summary={stockTake.summary} />
+      </Box>
+
+      {isCounting && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              label="Scan or type SKU / item ID"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={handleScanKey}
+              autoFocus
+              fullWidth
+              size="small"
+              slotProps={{ htmlInput: { autoCapitalize: 'off', autoComplete: 'off', enterKeyHint: 'done' } }}
+            />
+            {canScanWithCamera() && (
+              <Tooltip title="Scan with camera">
+                <IconButton color="primary" onClick={() => setCameraOpen(true)} aria-label="Scan with camera">
+                  <QrCodeScannerIcon />
+                </IconButton>
+              </Tooltip>
+            )}
+            <Button variant="contained" onClick={() => scan(code)} disabled={!code.trim() || scanMutation.isPending}>
+              Add 1
+            </Button>
+          </Stack>
+          {lastScan && (
+            <Typography variant="body2" color="success.main" sx={{ mt: 1 }}>
+              {lastScan.label}: {lastScan.counted} counted
+            </Typography>
+          )}
+        </Paper>
+      )}
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={lineFilter}
+        onChange={(_e, value: LineFilter | null) => value && setLineFilter(value)}
+        sx={{ mb: 1 }}
+      >
+        <ToggleButton value="all">All lines</ToggleButton>
+        <ToggleButton value="uncounted">Not counted</ToggleButton>
+        <ToggleButton value="variance">Variances</ToggleButton>
+      </ToggleButtonGroup>
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Item</TableCell>
+              <TableCell>SKU</TableCell>
+              <TableCell align="right">Expected</TableCell>
+              <TableCell>Counted</TableCell>
+              <TableCell align="right">Variance</TableCell>
+              <TableCell align="right">Value</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {lines.map(line => (
+              <TableRow key={line.id} hover>
+                <TableCell sx={line.designId ? { pl: 4 } : undefined}>
+                  <Typography variant="body2" fontWeight={line.designId ? 400 : 500}>
+                    {line.designName ?? line.itemName}
+                  </Typography>
+                  {line.countedByEmail && (
+                    <Typography variant="caption" color="text.secondary">{line.countedByEmail}</Typography>
+                  )}
+                </TableCell>
+                <TableCell>{line.designId ? '' : (line.supplierSku ?? `#${line.itemId}`)}</TableCell>
+                <TableCell align="right">{line.expectedQuantity}</TableCell>
+                <TableCell>
+                  <CountCell stockTakeId={stockTake.id} line={line} disabled={!isCounting} />
+                </TableCell>
+                <TableCell align="right">
+                  <Typography variant="body2" fontWeight={line.variance ? 600 : 400} color={varianceColor(line.variance)}>
+                    {formatVariance(line.variance)}
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">{line.varianceValue === null ? '–' : formatPrice(line.varianceValue)}</TableCell>
+              </TableRow>
+            ))}
+            {lines.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                  No lines
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        An item&apos;s count covers all of its designs; designs that keep their own stock are counted on the lines below it.
+      </Typography>
+
+      {cameraOpen && <BarcodeScannerDialog onDetected={handleDetected} onClose={() => setCameraOpen(false)} />}
+      {approving && <ApproveDialog stockTake={stockTake} onClose={() => setApproving(false)} />}
+    </Box>
+  );
+}
+
+/**
+ * Stock takes: count what is on the shelf and correct stock to match
+ */
+export default function StockTakeManager(): ReactElement {
+  const { data: session } = useSession();
+  const { formatPrice } = useCurrency();
+  const [filter, setFilter] = useState<StockTakeFilter>('counting');
+  const { data: stockTakes = [], isLoading, error } = useStockTakes(filter);
+  const [creating, setCreating] = useState(false);
+  const [openId, setOpenId] = useState<number | null>(null);
+  const isAdmin = session?.user?.role === 'admin';
+
+  const header = (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="h5" fontWeight={600}>Stock Takes</Typography>
+      <Typography variant="body2" color="text.secondary">
+        Count stock on the shelf, review the differences and correct inventory in one go.
+      </Typography>
+    </Box>
+  );
+
+  if (openId !== null) {
+    return (
+      <Box>
+        {header}
+        <StockTakeDetail stockTakeId={openId} onBack={() => setOpenId(null)} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {header}
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }} flexWrap="wrap" gap={1}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={filter}
+          onChange={(_e, value: StockTakeFilter | null) => value && setFilter(value)}
+        >
+          {FILTERS.map(option => (
+            <ToggleButton key={option.value} value={option.value}>{option.label}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        {isAdmin && (
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setCreating(true)}>
+            New Stock Take
+          </Button>
+        )}
+      </Stack>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py={6}><CircularProgress /></Box>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Stock take</TableCell>
+                <TableCell>Started</TableCell>
+                <TableCell>Progress</TableCell>
+                <TableCell align="right">Units over / short</TableCell>
+                <TableCell align="right">Net value</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stockTakes.map(stockTake => {
+                const status = STOCK_TAKE_STATUSES.find(option => option.value === stockTake.status);
+                const { summary } = stockTake;
+                return (
+                  <TableRow key={stockTake.id} hover sx={{ cursor: 'pointer' }} onClick={() => setOpenId(stockTake.id)}>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight={500}>{stockTake.stockTakeNumber} · {stockTake.name}</Typography>
+                      {stockTake.notes && (
+                        <Typography variant="caption" color="text.secondary">{stockTake.notes}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(stockTake.createdAt, 'short')}</TableCell>
+                    <TableCell sx={{ minWidth: 140 }}>
+                      <LinearProgress
+                        variant="determinate"
+                        value={summary.lineCount > 0 ? (summary.countedLines / summary.lineCount) * 100 : 0}
+                      />
+                      <Typography variant="caption" color="text.secondary">
+                        {summary.countedLines} / {summary.lineCount} counted
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">+{summary.unitsOver} / −{summary.unitsShort}</TableCell>
+                    <TableCell align="right">{formatPrice(summary.netVarianceValue)}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={status?.label ?? stockTake.status} color={status?.color ?? 'default'} />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {stockTakes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} align="center" sx={{ py: 4 }}>
+                    No stock takes
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {creating && (
+        <NewStockTakeDialog
+          onClose={() => setCreating(false)}
+          onCreated={(stockTake) => {
+            setCreating(false);
+            setOpenId(stockTake.id);
+          }}
+        />
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, type FormEvent, type ReactElement } from 'react';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import TextField from '@mui/material/TextField';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useSuppliers,
+  useCreateSupplier,
+  useUpdateSupplier,
+  useDeleteSupplier,
+} from '@/hooks/queries/usePurchasingQueries';
+import type { Supplier } from '@/types';
+
+interface SupplierDialogProps {
+  supplier: Supplier | null;
+  onClose: () => void;
+}
+
+function SupplierDialog({ supplier, onClose }: Readonly<SupplierDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const createMutation = useCreateSupplier();
+  const updateMutation = useUpdateSupplier();
+  const [name, setName] = useState(supplier?.name ?? '');
+  const [contactName, setContactName] = useState(supplier?.contactName ?? '');
+  const [email, setEmail] = useState(supplier?.email ?? '');
+  const [phone, setPhone] = useState(supplier?.phone ?? '');
+  const [address, setAddress] = useState(supplier?.address ?? '');
+  const [leadTimeDays, setLeadTimeDays] = useState(supplier?.leadTimeDays === null || !supplier ? '' : String(supplier.leadTimeDays));
+  const [paymentTerms, setPaymentTerms] = useState(supplier?.paymentTerms ?? '');
+  const [notes, setNotes] = useState(supplier?.notes ?? '');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const data = {
+      name,
+      contactName: contactName || null,
+      email: email || null,
+      phone: phone || null,
+      address: address || null,
+      leadTimeDays: leadTimeDays === '' ? null : Number(leadTimeDays),
+      paymentTerms: paymentTerms || null,
+      notes: notes || null,
+    };
+    try {
+      if (supplier) {
+        await updateMutation.mutateAsync({ id: supplier.id, data });
+        showSuccess(`${name} updated`);
+      } else {
+        await createMutation.mutateAsync(data);
+        showSuccess(`${name} added`);
+      }
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save supplier');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{supplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} required autoFocus fullWidth />
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField label="Contact person" value={contactName} onChange={(e) => setContactName(e.target.value)} fullWidth />
+              <TextField label="Phone" value={phone} onChange={(e) => setPhone(e.target.value)} fullWidth />
+            </Stack>
+            <TextField label="Email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} fullWidth />
+            <TextField label="Address" value={address} onChange={(e) => setAddress(e.target.value)} multiline minRows={2} fullWidth />
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                label="Lead time (days)"
+                type="number"
+                value={leadTimeDays}
+                onChange={(e) => setLeadTimeDays(e.target.value)}
+                slotProps={{ htmlInput: { min: 0, max: 365, step: 1 } }}
+                helperText="Used for the expected date when an order is placed"
+                fullWidth
+              />
+              <TextField
+                label="Payment terms"
+                value={paymentTerms}
+                onChange={(e) => setPaymentTerms(e.target.value)}
+                placeholder="Net 30, advance…"
+                fullWidth
+              />
+            </Stack>
+            <TextField label="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} multiline minRows={2} fullWidth />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={createMutation.isPending || updateMutation.isPending}>
+            Save
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+/**
+ * Supplier directory with contacts, lead times and payment terms
+ */
+export default function SuppliersManager(): ReactElement {
+  const { data: session } = useSession();
+  const { showSuccess, showError } = useNotification();
+  const { data: suppliers = [], isLoading, error } = useSuppliers();
+  const deleteMutation = useDeleteSupplier();
+  const [editing, setEditing] = useState<Supplier | null | undefined>(undefined);
+  const isAdmin = session?.user?.role === 'admin';
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!globalThis.confirm(`Delete ${supplier.name}?`)) return;
+    try {
+      await deleteMutation.mutateAsync(supplier.id);
+      showSuccess(`${supplier.name} deleted`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete supplier');
+    }
+  };
+
+  return (
+    <Box>
+      {isAdmin && (
+        <Stack direction="row" justifyContent="flex-end" sx={{ mb: 2 }}>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setEditing(null)}>
+            Add Supplier
+          </Button>
+        </Stack>
+      )}
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py={6}><CircularProgress /></Box>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Supplier</TableCell>
+                <TableCell>Contact</TableCell>
+                <TableCell align="right">Lead time</TableCell>
+                <TableCell>Terms</TableCell>
+                <TableCell align="right">Open POs</TableCell>
+                {isAdmin && <TableCell align="right">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {suppliers.map(supplier => (
+                <TableRow key={supplier.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>{supplier.name}</Typography>
+                    {supplier.address && (
+                      <Typography variant="caption" color="text.secondary">{supplier.address}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{supplier.contactName || '–'}</Typography>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {[supplier.phone, supplier.email].filter(Boolean).join(' · ')}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    {supplier.leadTimeDays === null ? '–' : `${supplier.leadTimeDays} day${supplier.leadTimeDays === 1 ? '' : 's'}`}
+                  </TableCell>
+                  <TableCell>{supplier.paymentTerms || '–'}</TableCell>
+                  <TableCell align="right">
+                    {supplier.openPurchaseOrders > 0
+                      ? <Chip size="small" color="info" label={supplier.openPurchaseOrders} />
+                      : '–'}
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell align="right">
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => setEditing(supplier)}><EditIcon fontSize="small" /></IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => handleDelete(supplier)}><DeleteIcon fontSize="small" /></IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {suppliers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={isAdmin ? 6 : 5} align="center" sx={{ py: 4 }}>
+                    No suppliers yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {editing !== undefined && <SupplierDialog supplier={editing} onClose={() => setEditing(undefined)} />}
+    </Box>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, type ReactElement } from 'react';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useItemBom, useMaterials, useUpdateItemBom } from '@/hooks/queries/useManufacturingQueries';
+import type { BomLine, ItemDesign, ItemId } from '@/types';
+
+interface DraftLine {
+  key: number;
+  materialId: number | '';
+  designId: number | '';
+  quantity: string;
+  notes: string;
+}
+
+function toDraft(line: BomLine, index: number): DraftLine {
+  return {
+    key: index,
+    materialId: line.materialId,
+    designId: line.designId ?? '',
+    quantity: String(line.quantity),
+    notes: line.notes ?? '',
+  };
+}
+
+interface BillOfMaterialsEditorProps {
+  itemId: ItemId;
+  designs: ItemDesign[];
+}
+
+/**
+ * Materials used to make one unit of an item
+ * Lines for "All designs" apply to every design; a design's own line for a
+ * material replaces the item-wide one when that design is made.
+ */
+function BillOfMaterialsEditor({ itemId, designs }: Readonly<BillOfMaterialsEditorProps>): ReactElement {
+  const { data: session } = useSession();
+  const { showSuccess, showError } = useNotification();
+  const { data: lines = [], isLoading, error } = useItemBom(itemId);
+  const { data: materials = [] } = useMaterials();
+  const updateMutation = useUpdateItemBom();
+  const [draft, setDraft] = useState<DraftLine[] | null>(null);
+  const isAdmin = session?.user?.role === 'admin';
+
+  const getDesignName = (designId: number | null) =>
+    designId === null ? 'All designs' : designs.find(design => design.id === designId)?.designName ?? `Design #${designId}`;
+
+  const updateLine = (key: number, changes: Partial<DraftLine>) => {
+    setDraft(current => current?.map(line => (line.key === key ? { ...line, ...changes } : line)) ?? null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await updateMutation.mutateAsync({
+        itemId,
+        lines: draft
+          .filter(line => line.materialId !== '')
+          .map(line => ({
+            materialId: Number(line.materialId),
+            designId: line.designId === '' ? null : Number(line.designId),
+            quantity: Number(line.quantity),
+            notes: line.notes || null,
+          })),
+      });
+      showSuccess('Bill of materials saved');
+      setDraft(null);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save bill of materials');
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+          Bill of Materials
+        </Typography>
+        {isAdmin && !draft && (
+          <Button size="small" startIcon={<EditIcon />} onClick={() => setDraft(lines.map(toDraft))}>
+            Edit
+          </Button>
+        )}
+      </Stack>
+      <Typography variant="caption" color="text.secondary">
+        Per unit of this item. Work orders use these amounts when they are completed.
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mt: 1 }}>{error.message}</Alert>}
+      {isLoading && <Box display="flex" justifyContent="center" py={2}><CircularProgress size={24} /></Box>}
+
+      {!isLoading && !draft && (
+        lines.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            No materials listed yet.
+          </Typography>
+        ) : (
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell>Material</TableCell>
+                <TableCell>Design</TableCell>
+                <TableCell align="right">Quantity</TableCell>
+                <TableCell>Notes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {lines.map(line => (
+                <TableRow key={line.id}>
+                  <TableCell>{line.materialName}</TableCell>
+                  <TableCell>{getDesignName(line.designId)}</TableCell>
+                  <TableCell align="right">{line.quantity} {line.unit}</TableCell>
+                  <TableCell>{line.notes || '–'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )
+      )}
+
+      {draft && (
+        <Stack spacing={1.5} sx={{ mt: 1.5 }}>
+          {materials.length === 0 && (
+            <Alert severity="info">Add materials on the Materials page before listing them here.</Alert>
+          )}
+          {draft.map(line => {
+            const unit = materials.find(material => material.id === line.materialId)?.unit;
+            return (
+              <Stack key={line.key} direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Material"
+                  value={line.materialId}
+                  onChange={(e) => updateLine(line.key, { materialId: Number(e.target.value) })}
+                  sx={{ minWidth: 200, flex: 2 }}
+                >
+                  {materials.map(material => (
+                    <MenuItem key={material.id} value={material.id}>{material.name}</MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="Design"
+                  value={line.designId}
+                  onChange={(e) => updateLine(line.key, { designId: e.target.value === '' ? '' : Number(e.target.value) })}
+                  sx={{ minWidth: 160, flex: 1 }}
+                  slotProps={{ select: { displayEmpty: true }, inputLabel: { shrink: true } }}
+                >
+                  <MenuItem value="">All designs</MenuItem>
+                  {designs.map(design => (
+                    <MenuItem key={design.id} value={design.id}>{design.designName}</MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  size="small"
+                  type="number"
+                  label={unit ? `Quantity (${unit})` : 'Quantity'}
+                  value={line.quantity}
+                  onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                  slotProps={{ htmlInput: { min: 0, step: 'any' } }}
+                  sx={{ width: 140 }}
+                />
+                <TextField
+                  size="small"
+                  label="Notes"
+                  value={line.notes}
+                  onChange={(e) => updateLine(line.key, { notes: e.target.value })}
+                  sx={{ flex: 2 }}
+                />
+                <IconButton
+                  size="small"
+                  aria-label="Remove material"
+                  onClick={() => setDraft(current => current?.filter(l => l.key !== line.key) ?? null)}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Stack>
+            );
+          })}
+          <Box>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              disabled={materials.length === 0}
+              onClick={() => setDraft(current => [
+                ...(current ?? []),
+                { key: Math.max(-1, ...(current ?? []).map(line => line.key)) + 1, materialId: '', designId: '', quantity: '', notes: '' },
+              ])}
+            >
+              Add material
+            </Button>
+          </Box>
+          <Stack direction="row" spacing={1} justifyContent="flex-end">
+            <Button color="inherit" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button variant="contained" onClick={handleSave} disabled={updateMutation.isPending}>
+              Save
+            </Button>
+          </Stack>
+        </Stack>
+      )}
+    </Box>
+  );
+}
+
+export default BillOfMaterialsEditor;
@@ -38,6 +38,8 @@ function CreateItem({ onItemCreated, copiedItem, onCancelCopy }: CreateItemProps
     color,
     fabric,
     specialFeatures,
+    hsnCode,
+    taxRate,
     copiedFrom,
     error: formError,
     setName,
@@ -45,6 +47,8 @@ function CreateItem({ onItemCreated, copiedItem, onCancelCopy }: CreateItemProps
     setColor,
     setFabric,
     setSpecialFeatures,
+    setHsnCode,
+    setTaxRate,
     setError: setFormError,
     validateForm,
     getFormData,
@@ -239,6 +243,32 @@ function CreateItem({ onItemCreated, copiedItem, onCancelCopy }: CreateItemProps
             />
           </Grid>
 
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              id="itemHsnCode"
+              label="HSN Code"
+              value={hsnCode}
+              onChange={(e) => setHsnCode(e.target.value)}
+              placeholder="e.g., 6214"
+              inputProps={{ inputMode: 'numeric', maxLength: 8 }}
+              fullWidth
+            />
+          </Grid>
+
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              id="itemTaxRate"
+              label="GST Rate (%)"
+              type="number"
+              inputProps={{ step: '0.01', min: '0', max: '100' }}
+              value={taxRate}
+              onChange={(e) => setTaxRate(e.target.value)}
+              placeholder="e.g., 5"
+              helperText="Prices include GST"
+              fullWidth
+            />
+          </Grid>
+
           <Grid size={{ xs: 12 }}>
             <ImageUploadField
               id="itemImage"
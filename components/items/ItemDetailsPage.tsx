@@ -25,6 +25,7 @@ import { useItemDetails, type ItemEditForm } from '@/hooks';
 import { useImageProcessing } from '@/hooks';
 import ImageUploadField from '../common/ImageUploadField';
 import DesignManager, { type DesignImage } from './DesignManager';
+import BillOfMaterialsEditor from './BillOfMaterialsEditor';
 import type { ItemId, ItemDesign } from '@/types';
 
 interface ItemDetailsPageProps {
@@ -366,6 +367,27 @@ function ItemDetailsPage({ itemId, onBack, onItemUpdated }: ItemDetailsPageProps
                   multiline
                   rows={2}
                 />
+
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                  <TextField
+                    label="HSN Code"
+                    value={editForm.hsnCode}
+                    onChange={(e) => handleEditChange('hsnCode', e.target.value)}
+                    placeholder="e.g., 6214"
+                    inputProps={{ inputMode: 'numeric', maxLength: 8 }}
+                    fullWidth
+                  />
+
+                  <TextField
+                    label="GST Rate (%)"
+                    type="number"
+                    value={editForm.taxRate}
+                    onChange={(e) => handleEditChange('taxRate', e.target.value)}
+                    inputProps={{ step: '0.01', min: '0', max: '100' }}
+                    helperText="Prices include GST"
+                    fullWidth
+                  />
+                </Stack>
               </Stack>
             </Box>
 
@@ -491,7 +513,7 @@ function ItemDetailsPage({ itemId, onBack, onItemUpdated }: ItemDetailsPageProps
           <Divider />
 
           {/* Additional Details */}
-          {(item.color || item.fabric || item.specialFeatures) && (
+          {(item.color || item.fabric || item.specialFeatures || item.hsnCode || typeof item.taxRate === 'number') && (
             <>
               <Box>
                 <Typography variant="subtitle2" color="text.secondary" gutterBottom>
@@ -528,6 +550,26 @@ function ItemDetailsPage({ itemId, onBack, onItemUpdated }: ItemDetailsPageProps
                       </Typography>
                     </Box>
                   )}
+                  {item.hsnCode && (
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">
+                        HSN Code
+                      </Typography>
+                      <Typography variant="body1">
+                        {item.hsnCode}
+                      </Typography>
+                    </Box>
+                  )}
+                  {typeof item.taxRate === 'number' && (
+                    <Box>
+                      <Typography variant="caption" color="text.secondary">
+                        GST Rate
+                      </Typography>
+                      <Typography variant="body1">
+                        {item.taxRate}%
+                      </Typography>
+                    </Box>
+                  )}
                 </Stack>
               </Box>
               <Divider />
@@ -582,6 +624,11 @@ function ItemDetailsPage({ itemId, onBack, onItemUpdated }: ItemDetailsPageProps
             </>
           )}
 
+          {/* Bill of Materials */}
+          <BillOfMaterialsEditor itemId={item._id} designs={existingDesigns} />
+
+          <Divider />
+
           {/* Metadata */}
           <Box>
             <Typography variant="subtitle2" color="text.secondary" gutterBottom>
@@ -35,6 +35,7 @@ import {
   getOrderStatusLabel,
   getPaymentStatusLabel,
 } from '@/constants/orderConstants';
+import { MANUAL_PAYMENT_STATUSES } from '@/lib/utils/orderLifecycle';
 import type { OrderId, OrderStatus, PaymentStatus } from '@/types';
 
 interface BulkOrderToolbarProps {
@@ -315,7 +316,7 @@ export default function BulkOrderToolbar({
             },
           }}
         >
-          {PAYMENT_STATUSES.map((status) => (
+          {PAYMENT_STATUSES.filter((status) => MANUAL_PAYMENT_STATUSES.includes(status.value)).map((status) => (
             <MenuItem
               key={status.value}
               onClick={() => handlePaymentUpdate(status.value)}
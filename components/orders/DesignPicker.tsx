@@ -19,6 +19,13 @@ interface DesignPickerProps {
   onDesignSelect: (designId: number) => void;
 }
 
+/**
+ * A design with its own stock that has nothing left that is not reserved
+ */
+function isSoldOut(design: ItemDesign): boolean {
+  return design.availableQuantity === 0;
+}
+
 /**
  * Enhanced Design Picker Component
  * 
@@ -28,7 +35,8 @@ interface DesignPickerProps {
  * - Touch-friendly large buttons
  * - Responsive grid layout
  * - Accessible with keyboard navigation and screen readers
- * - Auto-selects primary design by default
+ * - Auto-selects primary design by default, or the first one in stock
+ * - Greys out designs whose own stock is sold out (they can still be backordered)
  */
 function DesignPicker({ 
   designs, 
@@ -38,7 +46,8 @@ function DesignPicker({
   // Auto-select primary design if no selection made (UX best practice)
   useEffect(() => {
     if (!selectedDesignId && designs.length > 0) {
-      const primaryDesign = designs.find(d => d.isPrimary) || designs[0];
+      const inStock = designs.filter(d => !isSoldOut(d));
+      const primaryDesign = inStock.find(d => d.isPrimary) || inStock[0] || designs.find(d => d.isPrimary) || designs[0];
       onDesignSelect(primaryDesign.id);
     }
   }, [designs, selectedDesignId, onDesignSelect]);
@@ -76,11 +85,12 @@ function DesignPicker({
       <Grid container spacing={{ xs: 1.5, sm: 2 }}>
         {designs.map((design) => {
           const isSelected = selectedDesignId === design.id;
+          const soldOut = isSoldOut(design);
           
           return (
             <Grid size={{ xs: 6, sm: 4, md: 3 }} key={design.id}>
               <Tooltip 
-                title={`${design.designName}${design.isPrimary ? ' (Recommended)' : ''}`} 
+                title={`${design.designName}${design.isPrimary ? ' (Recommended)' : ''}${soldOut ? ' – sold out' : ''}`} 
                 arrow 
                 placement="top"
               >
@@ -93,6 +103,7 @@ function DesignPicker({
                     transition: 'all 0.2s cubic-bezier(0.4, 0, 0.2, 1)',
                     cursor: 'pointer',
                     bgcolor: isSelected ? 'primary.50' : 'background.paper',
+                    opacity: soldOut ? 0.55 : 1,
                     '&:hover': {
                       borderColor: isSelected ? 'primary.dark' : 'primary.light',
                       boxShadow: isSelected ? 4 : 2,
@@ -120,9 +131,27 @@ function DesignPicker({
                         alt={design.designName}
                         sx={{ 
                           objectFit: 'cover',
-                          height: { xs: 100, sm: 120 }
+                          height: { xs: 100, sm: 120 },
+                          filter: soldOut ? 'grayscale(1)' : 'none'
                         }}
                       />
+
+                      {soldOut && (
+                        <Chip
+                          label="Sold out"
+                          size="small"
+                          sx={{
+                            position: 'absolute',
+                            bottom: 8,
+                            left: 8,
+                            height: 22,
+                            fontSize: '0.7rem',
+                            fontWeight: 600,
+                            bgcolor: 'grey.800',
+                            color: 'common.white'
+                          }}
+                        />
+                      )}
                       
                       {/* Selection indicator - prominent visual feedback */}
                       {isSelected && (
@@ -201,6 +230,11 @@ function DesignPicker({
                       >
                         {design.designName}
                       </Typography>
+                      {design.availableQuantity !== null && design.availableQuantity !== undefined && !soldOut && (
+                        <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.65rem' }}>
+                          {design.availableQuantity} available
+                        </Typography>
+                      )}
                     </Box>
                   </CardActionArea>
                 </Card>
@@ -0,0 +1,355 @@
+'use client';
+
+import { useMemo, useState, type DragEvent, type MouseEvent, type ReactElement } from 'react';
+import { useRouter } from 'next/navigation';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import Avatar from '@mui/material/Avatar';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import ListItemText from '@mui/material/ListItemText';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import CircularProgress from '@mui/material/CircularProgress';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import MoreVertIcon from '@mui/icons-material/MoreVert';
+import ImageIcon from '@mui/icons-material/Image';
+import { useNotification } from '@/contexts/NotificationContext';
+import { useOrderBoard } from '@/hooks/queries/useOrdersQueries';
+import { useMoveBoardOrder } from '@/hooks/mutations/useOrdersMutations';
+import { getPriorityStatus } from '@/lib/utils/priorityUtils';
+import { getOrderPriorityColor } from '@/lib/utils/orderUtils';
+import { formatDate } from '@/lib/utils/dateUtils';
+import {
+  ORDER_BOARD_COLUMNS,
+  ORDER_BOARD_SWIMLANES,
+  getBoardColumn,
+  getBoardMoveError,
+  getBoardSwimlanes,
+  getBoardSwimlaneId,
+} from '@/lib/utils/orderBoard';
+import type { OrderBoardCard, OrderBoardColumn, OrderBoardSwimlane } from '@/types';
+
+const COLUMN_WIDTH = 260;
+const BOARD_REFRESH_MS = 60000;
+
+interface MoveMenuState {
+  anchorEl: HTMLElement | null;
+  card: OrderBoardCard | null;
+}
+
+interface BoardCardProps {
+  card: OrderBoardCard;
+  column: OrderBoardColumn;
+  isDragging: boolean;
+  onDragStart: (event: DragEvent<HTMLElement>, card: OrderBoardCard) => void;
+  onDragEnd: () => void;
+  onOpen: (card: OrderBoardCard) => void;
+  onOpenMoveMenu: (event: MouseEvent<HTMLElement>, card: OrderBoardCard) => void;
+}
+
+function BoardCard({ card, column, isDragging, onDragStart, onDragEnd, onOpen, onOpenMoveMenu }: Readonly<BoardCardProps>): ReactElement {
+  // Due dates stop mattering once the order has been delivered or cancelled
+  const priority = column === 'delivered' || column === 'cancelled'
+    ? null
+    : getPriorityStatus(card.expectedDeliveryDate, { shortLabels: true });
+  const itemCount = card.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <Paper
+      variant="outlined"
+      draggable
+      onDragStart={(e) => onDragStart(e, card)}
+      onDragEnd={onDragEnd}
+      onClick={() => onOpen(card)}
+      sx={{
+        p: 1,
+        display: 'flex',
+        gap: 1,
+        cursor: 'grab',
+        opacity: isDragging ? 0.4 : 1,
+        '&:hover': { borderColor: 'primary.main' },
+      }}
+    >
+      <Avatar
+        variant="rounded"
+        src={card.thumbnailUrl ?? undefined}
+        alt={card.items[0]?.name ?? card.orderId}
+        sx={{ width: 48, height: 48, bgcolor: 'action.hover', color: 'text.secondary' }}
+      >
+        <ImageIcon />
+      </Avatar>
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={0.5}>
+          <Typography variant="body2" fontWeight={600} color="primary" noWrap>
+            {card.orderId}
+          </Typography>
+          <IconButton
+            size="small"
+            aria-label={`Move ${card.orderId}`}
+            onClick={(e) => onOpenMoveMenu(e, card)}
+            sx={{ mr: -0.5 }}
+          >
+            <MoreVertIcon fontSize="small" />
+          </IconButton>
+        </Stack>
+        <Typography variant="body2" noWrap>{card.customerName}</Typography>
+        <Typography variant="caption" color="text.secondary" noWrap component="div">
+          {itemCount} {itemCount === 1 ? 'item' : 'items'}
+          {card.items[0] ? ` · ${card.items[0].name}` : ''}
+        </Typography>
+        <Stack direction="row" spacing={0.5} alignItems="center" sx={{ mt: 0.5 }} useFlexGap flexWrap="wrap">
+          <Typography variant="caption" color="text.secondary">
+            {card.expectedDeliveryDate ? `Due ${formatDate(card.expectedDeliveryDate, 'short')}` : 'No due date'}
+          </Typography>
+          {priority && (
+            <Chip label={priority.label} size="small" color={getOrderPriorityColor(priority)} sx={{ height: 20 }} />
+          )}
+        </Stack>
+      </Box>
+    </Paper>
+  );
+}
+
+/**
+ * Production board: orders in columns by status and delivery status
+ * Cards are dragged between columns (or moved from their menu on touch screens);
+ * each move is an ordinary order update, so the lifecycle rules apply and the
+ * change lands in the order's audit trail.
+ */
+export default function OrderBoard(): ReactElement {
+  const router = useRouter();
+  const { showSuccess, showError } = useNotification();
+  const { data, isLoading, isFetching, error, refetch } = useOrderBoard({ refetchInterval: BOARD_REFRESH_MS });
+  const moveMutation = useMoveBoardOrder();
+
+  const [swimlane, setSwimlane] = useState<OrderBoardSwimlane>('none');
+  const [dragged, setDragged] = useState<OrderBoardCard | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [moveMenu, setMoveMenu] = useState<MoveMenuState>({ anchorEl: null, card: null });
+
+  const cards = useMemo(() => data?.items ?? [], [data]);
+  const lanes = useMemo(() => getBoardSwimlanes(cards, swimlane), [cards, swimlane]);
+
+  // cell key "lane|column" -> cards
+  const cells = useMemo(() => {
+    const grouped = new Map<string, OrderBoardCard[]>();
+    for (const card of cards) {
+      const column = getBoardColumn(card);
+      if (!column) continue;
+      const key = `${getBoardSwimlaneId(card, swimlane)}|${column}`;
+      grouped.set(key, [...(grouped.get(key) ?? []), card]);
+    }
+    return grouped;
+  }, [cards, swimlane]);
+
+  const columnCounts = useMemo(() => {
+    const counts: Partial<Record<OrderBoardColumn, number>> = {};
+    for (const card of cards) {
+      const column = getBoardColumn(card);
+      if (column) counts[column] = (counts[column] ?? 0) + 1;
+    }
+    return counts;
+  }, [cards]);
+
+  const moveCard = async (card: OrderBoardCard, target: OrderBoardColumn) => {
+    if (getBoardColumn(card) === target) return;
+    const blocked = getBoardMoveError(card, target);
+    if (blocked) {
+      showError(blocked);
+      return;
+    }
+    const label = ORDER_BOARD_COLUMNS.find(column => column.id === target)?.label ?? target;
+    try {
+      await moveMutation.mutateAsync({ order: card, target });
+      showSuccess(`${card.orderId} moved to ${label}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to move order');
+    }
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLElement>, card: OrderBoardCard) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', String(card.id));
+    setDragged(card);
+  };
+
+  const handleDragEnd = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, target: OrderBoardColumn) => {
+    event.preventDefault();
+    const card = dragged;
+    handleDragEnd();
+    if (card) moveCard(card, target);
+  };
+
+  const handleOpenCard = (card: OrderBoardCard) => {
+    router.push(`/orders/history?orderId=${card.id}`);
+  };
+
+  const handleOpenMoveMenu = (event: MouseEvent<HTMLElement>, card: OrderBoardCard) => {
+    event.stopPropagation();
+    setMoveMenu({ anchorEl: event.currentTarget, card });
+  };
+
+  const handleMenuMove = (target: OrderBoardColumn) => {
+    const { card } = moveMenu;
+    setMoveMenu({ anchorEl: null, card: null });
+    if (card) moveCard(card, target);
+  };
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="40vh">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error.message}</Alert>;
+  }
+
+  const renderCell = (laneId: string, column: OrderBoardColumn) => {
+    const key = `${laneId}|${column}`;
+    const cellCards = cells.get(key) ?? [];
+    const blocked = dragged ? getBoardMoveError(dragged, column) : null;
+    return (
+      <Box
+        key={key}
+        onDragOver={(e) => {
+          if (!dragged) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = blocked ? 'none' : 'move';
+          setDropTarget(key);
+        }}
+        onDragLeave={() => setDropTarget(current => (current === key ? null : current))}
+        onDrop={(e) => handleDrop(e, column)}
+        sx={{
+          width: COLUMN_WIDTH,
+          flexShrink: 0,
+          minHeight: 80,
+          p: 1,
+          borderRadius: 1,
+          bgcolor: dropTarget === key && !blocked ? 'action.selected' : 'action.hover',
+          opacity: dragged && blocked ? 0.5 : 1,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 1,
+        }}
+      >
+        {cellCards.map(card => (
+          <BoardCard
+            key={card.id}
+            card={card}
+            column={column}
+            isDragging={dragged?.id === card.id}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+            onOpen={handleOpenCard}
+            onOpenMoveMenu={handleOpenMoveMenu}
+          />
+        ))}
+      </Box>
+    );
+  };
+
+  const menuCard = moveMenu.card;
+
+  return (
+    <Box>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }} justifyContent="space-between" sx={{ mb: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>Production Board</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Drag orders between columns. Delivered and cancelled orders stay for {data?.recentDays ?? 0} days.
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={swimlane}
+            onChange={(_e, value: OrderBoardSwimlane | null) => value && setSwimlane(value)}
+            aria-label="Swimlanes"
+          >
+            {ORDER_BOARD_SWIMLANES.map(option => (
+              <ToggleButton key={option.id} value={option.id}>{option.label}</ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <Tooltip title="Refresh">
+            <span>
+              <IconButton onClick={() => refetch()} disabled={isFetching} aria-label="Refresh board">
+                <RefreshIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+      </Stack>
+
+      {data?.truncated && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Only the {cards.length} orders due soonest are shown.
+        </Alert>
+      )}
+
+      <Box sx={{ overflowX: 'auto', pb: 2 }}>
+        <Box sx={{ display: 'inline-flex', flexDirection: 'column', gap: 1, minWidth: '100%' }}>
+          <Stack direction="row" spacing={1}>
+            {ORDER_BOARD_COLUMNS.map(column => (
+              <Stack key={column.id} direction="row" spacing={1} alignItems="center" sx={{ width: COLUMN_WIDTH, flexShrink: 0, px: 1 }}>
+                <Typography variant="subtitle2" fontWeight={600}>{column.label}</Typography>
+                <Chip label={columnCounts[column.id] ?? 0} size="small" aria-label={`${columnCounts[column.id] ?? 0} orders`} />
+              </Stack>
+            ))}
+          </Stack>
+
+          {lanes.map(lane => {
+            const laneCount = ORDER_BOARD_COLUMNS.reduce((sum, column) => sum + (cells.get(`${lane.id}|${column.id}`)?.length ?? 0), 0);
+            if (swimlane !== 'none' && laneCount === 0) return null;
+            return (
+              <Box key={lane.id}>
+                {swimlane !== 'none' && (
+                  <Typography variant="body2" fontWeight={600} color="text.secondary" sx={{ px: 1, py: 0.5 }}>
+                    {lane.label} ({laneCount})
+                  </Typography>
+                )}
+                <Stack direction="row" spacing={1}>
+                  {ORDER_BOARD_COLUMNS.map(column => renderCell(lane.id, column.id))}
+                </Stack>
+              </Box>
+            );
+          })}
+        </Box>
+      </Box>
+
+      <Menu
+        anchorEl={moveMenu.anchorEl}
+        open={!!moveMenu.anchorEl}
+        onClose={() => setMoveMenu({ anchorEl: null, card: null })}
+      >
+        {menuCard && ORDER_BOARD_COLUMNS.map(column => {
+          const current = getBoardColumn(menuCard) === column.id;
+          const blocked = current ? null : getBoardMoveError(menuCard, column.id);
+          return (
+            <MenuItem key={column.id} disabled={current || !!blocked} onClick={() => handleMenuMove(column.id)}>
+              <ListItemText
+                primary={current ? `${column.label} (current)` : `Move to ${column.label}`}
+                secondary={blocked}
+              />
+            </MenuItem>
+          );
+        })}
+      </Menu>
+    </Box>
+  );
+}
@@ -8,12 +8,14 @@ import Box from '@mui/material/Box';
 import CircularProgress from '@mui/material/CircularProgress';
 import SaveIcon from '@mui/icons-material/Save';
 import LinkIcon from '@mui/icons-material/Link';
+import AssignmentReturnIcon from '@mui/icons-material/AssignmentReturn';
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { useNotification } from '@/contexts/NotificationContext';
 import { useOrderDetails } from '@/hooks';
 import { getPriorityStatus } from '@/lib/utils/priorityUtils';
 import OrderDialogTitle from '../common/OrderDialogTitle';
 import OrderDialogContent from '../common/OrderDialogContent';
+import OrderReturnsDialog from './OrderReturnsDialog';
 import { generateFeedbackToken } from '@/lib/api/client';
 import type { OrderId } from '@/types';
 
@@ -28,6 +30,7 @@ function OrderDetails({ orderId, onClose, onOrderUpdated, onDuplicateOrder }: Or
   const { formatPrice } = useCurrency();
   const { showSuccess, showError } = useNotification();
   const [generatingToken, setGeneratingToken] = useState(false);
+  const [returnsOpen, setReturnsOpen] = useState(false);
   
   const {
     order,
@@ -40,6 +43,7 @@ function OrderDetails({ orderId, onClose, onOrderUpdated, onDuplicateOrder }: Or
     handleSave,
     handleCancelEdit,
     startEditing,
+    refreshOrder,
   } = useOrderDetails(orderId, showSuccess, showError, onOrderUpdated);
 
   const priority = order ? getPriorityStatus(order.expectedDeliveryDate, { orderStatus: order.status }) : null;
@@ -110,7 +114,17 @@ function OrderDetails({ orderId, onClose, onOrderUpdated, onDuplicateOrder }: Or
         />
 
         <DialogActions sx={{ px: 3, py: 2, justifyContent: 'space-between' }}>
-          <Box>
+          <Box display="flex" gap={1}>
+            {order && !isEditing && (
+              <Button
+                onClick={() => setReturnsOpen(true)}
+                startIcon={<AssignmentReturnIcon />}
+                color="inherit"
+                variant="outlined"
+              >
+                Returns &amp; Refunds
+              </Button>
+            )}
             {order && order.status === 'completed' && !isEditing && (
               <Button 
                 onClick={handleGenerateFeedbackLink}
@@ -142,6 +156,19 @@ function OrderDetails({ orderId, onClose, onOrderUpdated, onDuplicateOrder }: Or
           </Box>
         </DialogActions>
       </Dialog>
+
+      {order && returnsOpen && (
+        <OrderReturnsDialog
+          open={returnsOpen}
+          order={order}
+          formatPrice={formatPrice}
+          onClose={() => setReturnsOpen(false)}
+          onReturnsChanged={() => {
+            refreshOrder();
+            onOrderUpdated();
+          }}
+        />
+      )}
     </>
   );
 }
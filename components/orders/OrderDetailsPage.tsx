@@ -26,6 +26,9 @@ import CustomerInfoSection from '../common/CustomerInfoSection';
 import OrderInfoSection from '../common/OrderInfoSection';
 import PaymentInfoSection from '../common/PaymentInfoSection';
 import OrderItemsTable from '../common/OrderItemsTable';
+import OrderPaymentsPanel from './OrderPaymentsPanel';
+import OrderDocumentsActions from './OrderDocumentsActions';
+import OrderTrackingLinkActions from './OrderTrackingLinkActions';
 import { generateFeedbackToken } from '@/lib/api/client';
 import type { OrderId, OrderEditForm } from '@/types';
 
@@ -52,6 +55,7 @@ function OrderDetailsPage({ orderId, onBack, onOrderUpdated, onDuplicateOrder }:
     handleSave,
     handleCancelEdit,
     startEditing,
+    refreshOrder,
   } = useOrderDetails(orderId, showSuccess, showError, onOrderUpdated);
 
   const priority = order ? getPriorityStatus(order.expectedDeliveryDate, { orderStatus: order.status }) : null;
@@ -164,6 +168,8 @@ function OrderDetailsPage({ orderId, onBack, onOrderUpdated, onDuplicateOrder }:
                   Duplicate
                 </Button>
               )}
+              <OrderDocumentsActions order={order} />
+              <OrderTrackingLinkActions order={order} />
               <Button
                 variant="outlined"
                 size="small"
@@ -255,6 +261,17 @@ function OrderDetailsPage({ orderId, onBack, onOrderUpdated, onDuplicateOrder }:
             formatPrice={formatPrice}
           />
 
+          <OrderPaymentsPanel
+            orderId={orderId}
+            balanceDue={order.paymentStatus === 'paid' ? 0 : Math.max(order.totalPrice - order.paidAmount, 0)}
+            canRecordPayments={order.paymentStatus !== 'refunded'}
+            formatPrice={formatPrice}
+            onPaymentsChanged={() => {
+              refreshOrder();
+              onOrderUpdated();
+            }}
+          />
+
           {order.customerNotes && (
             <>
               <Divider />
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Button from '@mui/material/Button';
+import TextField from '@mui/material/TextField';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import ReceiptIcon from '@mui/icons-material/Receipt';
+import Inventory2Icon from '@mui/icons-material/Inventory2';
+import EmailIcon from '@mui/icons-material/Email';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useDownloadOrderDocument,
+  useEmailOrderInvoice,
+  type OrderDocumentType,
+} from '@/hooks/queries/useOrderDocumentsQueries';
+import type { Order } from '@/types';
+
+interface OrderDocumentsActionsProps {
+  order: Order;
+}
+
+/**
+ * Buttons to download the GST invoice and packing slip PDFs and to email the invoice.
+ * The first invoice download or email issues the invoice number.
+ */
+function OrderDocumentsActions({ order }: OrderDocumentsActionsProps) {
+  const { showSuccess, showError } = useNotification();
+  const downloadDocument = useDownloadOrderDocument();
+  const emailInvoice = useEmailOrderInvoice();
+
+  const [pendingType, setPendingType] = useState<OrderDocumentType | null>(null);
+  const [emailOpen, setEmailOpen] = useState(false);
+  const [recipient, setRecipient] = useState('');
+
+  const canInvoice = order.status !== 'cancelled';
+
+  const handleDownload = async (type: OrderDocumentType) => {
+    setPendingType(type);
+    try {
+      await downloadDocument.mutateAsync({ orderId: order._id, type });
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to download document');
+    } finally {
+      setPendingType(null);
+    }
+  };
+
+  const handleEmail = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await emailInvoice.mutateAsync({ orderId: order._id, to: recipient.trim() || undefined });
+      showSuccess(`Invoice ${result.invoiceNumber} emailed to ${result.sentTo}`);
+      setEmailOpen(false);
+      setRecipient('');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to email invoice');
+    }
+  };
+
+  return (
+    <>
+      {canInvoice && (
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={pendingType === 'invoice' ? <CircularProgress size={16} /> : <ReceiptIcon />}
+          onClick={() => handleDownload('invoice')}
+          disabled={pendingType !== null}
+        >
+          Invoice
+        </Button>
+      )}
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={pendingType === 'packing-slip' ? <CircularProgress size={16} /> : <Inventory2Icon />}
+        onClick={() => handleDownload('packing-slip')}
+        disabled={pendingType !== null}
+      >
+        Packing Slip
+      </Button>
+      {canInvoice && (
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<EmailIcon />}
+          onClick={() => setEmailOpen(true)}
+        >
+          Email Invoice
+        </Button>
+      )}
+
+      <Dialog
+        open={emailOpen}
+        onClose={() => setEmailOpen(false)}
+        maxWidth="xs"
+        fullWidth
+        aria-labelledby="email-invoice-dialog-title"
+      >
+        <DialogTitle id="email-invoice-dialog-title">Email Invoice</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            The invoice PDF is sent as an attachment. Leave the address empty to use the customer&apos;s email.
+          </DialogContentText>
+          <TextField
+            id="email-invoice-recipient"
+            label="Recipient"
+            type="email"
+            size="small"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            placeholder="customer@example.com"
+            fullWidth
+            slotProps={{ htmlInput: { form: 'email-invoice-form' } }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEmailOpen(false)} color="inherit" disabled={emailInvoice.isPending}>
+            Cancel
+          </Button>
+          <form id="email-invoice-form" onSubmit={handleEmail}>
+            <Button type="submit" variant="contained" disabled={emailInvoice.isPending}>
+              {emailInvoice.isPending ? <CircularProgress size={16} /> : 'Send'}
+            </Button>
+          </form>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
+
+export default OrderDocumentsActions;
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, ChangeEvent, FormEvent } from 'react';
+import { useState, useEffect, useMemo, ChangeEvent, FormEvent } from 'react';
 import Box from '@mui/material/Box';
 import Paper from '@mui/material/Paper';
 import Typography from '@mui/material/Typography';
@@ -15,12 +15,15 @@ import FormControl from '@mui/material/FormControl';
 import InputLabel from '@mui/material/InputLabel';
 import Select, { SelectChangeEvent } from '@mui/material/Select';
 import MenuItem from '@mui/material/MenuItem';
+import FormHelperText from '@mui/material/FormHelperText';
 import Divider from '@mui/material/Divider';
 import Stack from '@mui/material/Stack';
 import Card from '@mui/material/Card';
 import CardContent from '@mui/material/CardContent';
 import Chip from '@mui/material/Chip';
 import Collapse from '@mui/material/Collapse';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Checkbox from '@mui/material/Checkbox';
 import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import SendIcon from '@mui/icons-material/Send';
@@ -28,14 +31,21 @@ import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import { createOrder, getOrder } from '@/lib/api/client';
 import { useCurrency } from '@/contexts/CurrencyContext';
 import { useNotification } from '@/contexts/NotificationContext';
+import { useOrderQuote } from '@/hooks/queries/useOrdersQueries';
+import { useDeliveryDateSuggestion } from '@/hooks/queries/useProductionQueries';
+import { useCustomerSearch, useCustomerAddresses, useCustomerLoyalty, useLoyaltySettings } from '@/hooks/queries/useCustomersQueries';
+import { formatCustomerAddress } from '@/lib/utils/customerContactUtils';
 import {
   ORDER_SOURCES,
   PAYMENT_STATUSES,
+  PAYMENT_METHODS,
   CONFIRMATION_STATUSES,
   PRIORITY_LEVELS,
 } from '@/constants/orderConstants';
+import { INDIAN_STATES } from '@/constants/gstConstants';
+import { DELIVERY_SUGGESTION_HORIZON_DAYS } from '@/constants/productionConstants';
 import DesignPicker from './DesignPicker';
-import type { Item, Order, OrderId, ItemId, OrderSource, PaymentStatus, ConfirmationStatus } from '@/types';
+import type { Item, Order, OrderId, ItemId, OrderSource, PaymentStatus, PaymentMethod, ConfirmationStatus, OrderQuote, OrderQuoteRequest } from '@/types';
 
 interface OrderFormProps {
   items: Item[];
@@ -50,6 +60,9 @@ interface OrderFormItem {
   customizationRequest: string;
 }
 
+// Delay before the typed customer ID is looked up, in milliseconds
+const CUSTOMER_LOOKUP_DELAY = 300;
+
 // Format item display name with color and fabric info
 const formatItemDisplayName = (item: Item): string => {
   const details: string[] = [];
@@ -62,21 +75,49 @@ const formatItemDisplayName = (item: Item): string => {
   return item.name;
 };
 
+// Breakdown rows shown above the order total
+const getQuoteRows = (quote: OrderQuote): Array<[string, number]> => {
+  const rows: Array<[string, number]> = [['Subtotal', quote.subtotal]];
+  const manualDiscount = quote.discountAmount - quote.promotionDiscount - quote.loyaltyDiscount;
+  if (manualDiscount > 0) rows.push(['Discount', -manualDiscount]);
+  if (quote.promotion) rows.push([`Promotion (${quote.promotion.code})`, -quote.promotionDiscount]);
+  if (quote.loyaltyPointsRedeemed > 0) rows.push([`Points (${quote.loyaltyPointsRedeemed})`, -quote.loyaltyDiscount]);
+  rows.push(['Taxable Value', quote.taxableAmount]);
+  if (quote.interState) {
+    rows.push(['IGST', quote.igstAmount]);
+  } else {
+    rows.push(['CGST', quote.cgstAmount], ['SGST', quote.sgstAmount]);
+  }
+  if (quote.shippingAmount > 0) rows.push(['Shipping', quote.shippingAmount]);
+  return rows;
+};
+
 function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps) {
   const { formatPrice } = useCurrency();
   const { showSuccess, showError } = useNotification();
   const [orderFrom, setOrderFrom] = useState<OrderSource | ''>('');
   const [customerName, setCustomerName] = useState('');
   const [customerId, setCustomerId] = useState('');
+  const [debouncedCustomerId, setDebouncedCustomerId] = useState('');
   const [address, setAddress] = useState('');
+  const [customerAddressId, setCustomerAddressId] = useState<number | null>(null);
   const [orderDate, setOrderDate] = useState('');
   const [expectedDeliveryDate, setExpectedDeliveryDate] = useState('');
   const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>('unpaid');
   const [paidAmount, setPaidAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('upi');
   const [confirmationStatus, setConfirmationStatus] = useState<ConfirmationStatus>('unconfirmed');
   const [customerNotes, setCustomerNotes] = useState('');
   const [priority, setPriority] = useState(0);
   const [orderItems, setOrderItems] = useState<OrderFormItem[]>([]);
+  const [allowBackorder, setAllowBackorder] = useState(false);
+  const [discountAmount, setDiscountAmount] = useState('');
+  const [shippingAmount, setShippingAmount] = useState('');
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(true);
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
+  const [promotionCodeInput, setPromotionCodeInput] = useState('');
+  const [appliedPromotionCode, setAppliedPromotionCode] = useState('');
+  const [redeemPoints, setRedeemPoints] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [duplicateLoading, setDuplicateLoading] = useState(false);
@@ -99,12 +140,16 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
         setCustomerName(order.customerName || '');
         setCustomerId(order.customerId || '');
         setAddress(order.address || '');
+        setCustomerAddressId(order.customerAddressId);
         setCustomerNotes(order.customerNotes || '');
         setPriority(order.priority || 0);
+        setPricesIncludeTax(order.pricesIncludeTax ?? true);
+        setPlaceOfSupply(order.placeOfSupply || '');
         
         // Reset payment info and dates for new order
         setPaymentStatus('unpaid');
         setPaidAmount('');
+        setPaymentMethod('upi');
         setConfirmationStatus('unconfirmed');
         setOrderDate('');
         setExpectedDeliveryDate('');
@@ -195,6 +240,82 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
     }, 0);
   };
 
+  // Look up the customer by the ID typed, once typing pauses, to offer their saved addresses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedCustomerId(customerId.trim());
+    }, CUSTOMER_LOOKUP_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [customerId]);
+
+  const { data: customerMatches = [] } = useCustomerSearch(debouncedCustomerId);
+  const matchedCustomer = customerMatches.find(
+    customer => customer.customerId.toLowerCase() === debouncedCustomerId.toLowerCase()
+  );
+  const { data: savedAddresses = [] } = useCustomerAddresses(matchedCustomer?.id ?? null);
+  const selectedAddress = savedAddresses.find(savedAddress => savedAddress.id === customerAddressId);
+
+  // Points can be redeemed, and store credit spent, only by a customer who has some
+  const { data: loyaltySettings } = useLoyaltySettings();
+  const { data: customerLoyalty } = useCustomerLoyalty(matchedCustomer?.id ?? null);
+  const canRedeemPoints = !!loyaltySettings?.enabled && (customerLoyalty?.loyaltyPoints ?? 0) > 0;
+
+  const handleSavedAddressChange = (e: SelectChangeEvent<string>) => {
+    const savedAddress = savedAddresses.find(candidate => String(candidate.id) === e.target.value);
+    setCustomerAddressId(savedAddress?.id ?? null);
+    if (savedAddress) {
+      setAddress(formatCustomerAddress(savedAddress));
+    }
+  };
+
+  // The server resolves GST rates (item, category, default) and the CGST/SGST or IGST split
+  const quoteRequest = useMemo((): OrderQuoteRequest => ({
+    items: orderItems
+      .filter(orderItem => orderItem.itemId && typeof orderItem.quantity === 'number' && orderItem.quantity > 0)
+      .map(orderItem => ({ itemId: Number.parseInt(orderItem.itemId, 10), quantity: orderItem.quantity as number })),
+    customerId: customerId.trim() || undefined,
+    discountAmount: discountAmount ? Number.parseFloat(discountAmount) : 0,
+    shippingAmount: shippingAmount ? Number.parseFloat(shippingAmount) : 0,
+    pricesIncludeTax,
+    placeOfSupply: placeOfSupply || selectedAddress?.state || null,
+    promotionCode: appliedPromotionCode || null,
+    redeemPoints: canRedeemPoints && redeemPoints ? Number.parseInt(redeemPoints, 10) || 0 : 0,
+  }), [orderItems, customerId, discountAmount, shippingAmount, pricesIncludeTax, placeOfSupply, selectedAddress, appliedPromotionCode, canRedeemPoints, redeemPoints]);
+
+  const { data: quote, error: quoteError } = useOrderQuote(quoteRequest);
+
+  // Units asked for per item (and per item design) across all lines, to compare with what is not already reserved
+  const requestedStock = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const line of orderItems) {
+      if (!line.itemId || typeof line.quantity !== 'number' || line.quantity <= 0) continue;
+      for (const key of [line.itemId, `${line.itemId}:${line.designId ?? ''}`]) {
+        totals.set(key, (totals.get(key) || 0) + line.quantity);
+      }
+    }
+    return totals;
+  }, [orderItems]);
+
+  // Promotion problems (expired, limit reached, nothing eligible) belong next to the code field
+  const promotionError = appliedPromotionCode && quoteError?.message.startsWith('Promotion') ? quoteError : null;
+  const pointsError = quoteRequest.redeemPoints && /points/i.test(quoteError?.message ?? '') ? quoteError : null;
+  const pricingError = promotionError || pointsError ? null : quoteError;
+
+  // Earliest delivery date the production calendar still has room for
+  const orderUnits = quoteRequest.items.reduce((sum, orderItem) => sum + orderItem.quantity, 0);
+  const { data: deliverySuggestion } = useDeliveryDateSuggestion(orderUnits);
+  const suggestedDeliveryDate = deliverySuggestion?.date ?? null;
+  const getDeliveryDateHelperText = () => {
+    if (!deliverySuggestion) return undefined;
+    if (!suggestedDeliveryDate) return `No capacity left in the next ${DELIVERY_SUGGESTION_HORIZON_DAYS} days`;
+    const label = new Date(`${suggestedDeliveryDate}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+    if (expectedDeliveryDate && expectedDeliveryDate < suggestedDeliveryDate) {
+      return `Earlier than the first day with capacity (${label})`;
+    }
+    return `Earliest with capacity: ${label}`;
+  };
+
   const getMinOrderDate = (): string => {
     const today = new Date();
     today.setFullYear(today.getFullYear() - 1); // Allow backdating up to 1 year
@@ -210,14 +331,24 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
     setCustomerName('');
     setCustomerId('');
     setAddress('');
+    setCustomerAddressId(null);
     setOrderDate('');
     setExpectedDeliveryDate('');
     setPaymentStatus('unpaid');
     setPaidAmount('');
+    setPaymentMethod('upi');
     setConfirmationStatus('unconfirmed');
     setCustomerNotes('');
     setPriority(0);
     setOrderItems([]);
+    setAllowBackorder(false);
+    setDiscountAmount('');
+    setShippingAmount('');
+    setPricesIncludeTax(true);
+    setPlaceOfSupply('');
+    setPromotionCodeInput('');
+    setAppliedPromotionCode('');
+    setRedeemPoints('');
     setDuplicatedFrom(null);
   };
 
@@ -242,6 +373,14 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
       return;
     }
 
+    // Money taken at checkout is recorded as the order's first payment
+    let upfrontPayment = 0;
+    if (paymentStatus === 'paid') {
+      upfrontPayment = quote?.totalPrice ?? calculateTotal();
+    } else if (paymentStatus === 'partially_paid') {
+      upfrontPayment = paidAmount ? Number.parseFloat(paidAmount) : 0;
+    }
+
     setLoading(true);
     try {
       const order = await createOrder({
@@ -249,6 +388,7 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
         customerName: customerName.trim(),
         customerId: customerId.trim(),
         address: address.trim(),
+        customerAddressId: selectedAddress?.id ?? null,
         items: orderItems.map(item => {
           const selectedItem = items.find(i => String(i._id) === String(item.itemId));
           if (!selectedItem) {
@@ -266,10 +406,18 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
         orderDate: orderDate || undefined,
         expectedDeliveryDate: expectedDeliveryDate || undefined,
         paymentStatus,
-        paidAmount: paidAmount ? Number.parseFloat(paidAmount) : 0,
+        paidAmount: upfrontPayment,
+        paymentMethod: upfrontPayment > 0 ? paymentMethod : undefined,
         confirmationStatus,
         customerNotes: customerNotes.trim(),
         priority,
+        discountAmount: quoteRequest.discountAmount,
+        shippingAmount: quoteRequest.shippingAmount,
+        pricesIncludeTax,
+        placeOfSupply: placeOfSupply || null,
+        promotionCode: appliedPromotionCode || null,
+        redeemPoints: quoteRequest.redeemPoints,
+        allowBackorder,
       });
       setCreatedOrder(order);
       resetForm();
@@ -305,7 +453,7 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
     setPriority(Number.parseInt(e.target.value, 10));
   };
 
-  const estimatedTotal = calculateTotal();
+  const estimatedTotal = quote?.totalPrice ?? calculateTotal();
 
   if (duplicateLoading) {
     return (
@@ -402,7 +550,32 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
             />
           </Grid>
 
-          <Grid size={{ xs: 12 }}>
+          {savedAddresses.length > 0 && (
+            <Grid size={{ xs: 12, md: 4 }}>
+              <FormControl fullWidth>
+                <InputLabel id="saved-address-label">Saved Address</InputLabel>
+                <Select
+                  labelId="saved-address-label"
+                  id="savedAddress"
+                  value={selectedAddress ? String(selectedAddress.id) : ''}
+                  label="Saved Address"
+                  onChange={handleSavedAddressChange}
+                >
+                  <MenuItem value="">
+                    <em>Enter a new address</em>
+                  </MenuItem>
+                  {savedAddresses.map((savedAddress) => (
+                    <MenuItem key={savedAddress.id} value={String(savedAddress.id)}>
+                      {savedAddress.label || savedAddress.line1}
+                      {savedAddress.isDefault ? ' (default)' : ''}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+          )}
+
+          <Grid size={{ xs: 12, md: savedAddresses.length > 0 ? 8 : 12 }}>
             <TextField
               id="address"
               label="Address"
@@ -412,6 +585,8 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
               fullWidth
               multiline
               rows={2}
+              slotProps={{ htmlInput: { readOnly: Boolean(selectedAddress) } }}
+              helperText={selectedAddress ? 'The order keeps a copy of this saved address' : undefined}
             />
           </Grid>
 
@@ -437,7 +612,13 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
               onChange={(e: ChangeEvent<HTMLInputElement>) => setExpectedDeliveryDate(e.target.value)}
               slotProps={{ inputLabel: { shrink: true }, htmlInput: { min: getMinDeliveryDate() } }}
               fullWidth
+              helperText={getDeliveryDateHelperText()}
             />
+            {suggestedDeliveryDate && expectedDeliveryDate !== suggestedDeliveryDate && (
+              <Button size="small" onClick={() => setExpectedDeliveryDate(suggestedDeliveryDate)} sx={{ mt: 0.5 }}>
+                Use earliest date
+              </Button>
+            )}
           </Grid>
 
           <Grid size={{ xs: 12, sm: 6, md: 4 }}>
@@ -493,6 +674,34 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
             </Grid>
           )}
 
+          {(paymentStatus === 'paid' || paymentStatus === 'partially_paid') && (
+            <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+              <FormControl fullWidth>
+                <InputLabel id="payment-method-label">Payment Method</InputLabel>
+                <Select
+                  labelId="payment-method-label"
+                  id="paymentMethod"
+                  value={paymentMethod}
+                  label="Payment Method"
+                  onChange={(e: SelectChangeEvent<string>) => setPaymentMethod(e.target.value as PaymentMethod)}
+                >
+                  {PAYMENT_METHODS.map((method) => (
+                    <MenuItem key={method.value} value={method.value}>
+                      {method.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                {paymentMethod === 'store_credit' && (
+                  <FormHelperText>
+                    {customerLoyalty
+                      ? `${formatPrice(customerLoyalty.storeCredit)} store credit available`
+                      : 'Taken from the customer\'s store credit'}
+                  </FormHelperText>
+                )}
+              </FormControl>
+            </Grid>
+          )}
+
           <Grid size={{ xs: 12, sm: 6, md: 4 }}>
             <FormControl fullWidth>
               <InputLabel id="priority-label">Priority Level</InputLabel>
@@ -539,6 +748,19 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
               const selectedItem = items.find(i => String(i._id) === String(orderItem.itemId));
               const qty = typeof orderItem.quantity === 'number' ? orderItem.quantity : parseInt(String(orderItem.quantity), 10);
               const lineTotal = selectedItem && !Number.isNaN(qty) && qty > 0 ? selectedItem.price * qty : 0;
+              // A design with its own stock is checked against that stock instead of the item's
+              const stockDesign = selectedItem?.designs?.find(d => d.id === orderItem.designId && d.availableQuantity != null);
+              let availableQuantity: number | null = null;
+              let reservedQuantity = 0;
+              if (selectedItem?.trackStock) {
+                availableQuantity = stockDesign
+                  ? Math.min(stockDesign.availableQuantity ?? 0, selectedItem.availableQuantity ?? selectedItem.stockQuantity)
+                  : selectedItem.availableQuantity ?? selectedItem.stockQuantity;
+                reservedQuantity = (stockDesign ?? selectedItem).reservedQuantity ?? 0;
+              }
+              const requestedQuantity = requestedStock.get(
+                stockDesign ? `${orderItem.itemId}:${orderItem.designId}` : String(orderItem.itemId)
+              ) || 0;
               
               return (
                 <Card key={index} variant="outlined">
@@ -634,6 +856,14 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
                         )}
                       </Box>
                     )}
+
+                    {availableQuantity !== null && requestedQuantity > availableQuantity && (
+                      <Alert severity="warning" sx={{ mt: 2 }}>
+                        Only {availableQuantity} of {requestedQuantity} available{stockDesign && ` in ${stockDesign.designName}`}
+                        {reservedQuantity > 0 && ` (${reservedQuantity} reserved for other orders)`}.
+                        {' '}{allowBackorder ? 'The rest will be backordered.' : 'Allow backorder to place the order anyway.'}
+                      </Alert>
+                    )}
                     
                     <TextField
                       size="small"
@@ -659,6 +889,115 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
           </Button>
         </Box>
 
+        <Grid container spacing={2} sx={{ mb: 3 }}>
+          <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+            <TextField
+              id="discountAmount"
+              label="Discount"
+              type="number"
+              inputProps={{ min: '0', step: '0.01' }}
+              value={discountAmount}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setDiscountAmount(e.target.value)}
+              error={!!pricingError}
+              helperText={pricingError?.message}
+              fullWidth
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+            <TextField
+              id="shippingAmount"
+              label="Shipping Charge"
+              type="number"
+              inputProps={{ min: '0', step: '0.01' }}
+              value={shippingAmount}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setShippingAmount(e.target.value)}
+              fullWidth
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+            <FormControl fullWidth>
+              <InputLabel id="place-of-supply-label">Place of Supply</InputLabel>
+              <Select
+                labelId="place-of-supply-label"
+                id="placeOfSupply"
+                value={placeOfSupply}
+                label="Place of Supply"
+                onChange={(e: SelectChangeEvent<string>) => setPlaceOfSupply(e.target.value)}
+              >
+                <MenuItem value="">
+                  <em>{selectedAddress?.state ? `Delivery address (${selectedAddress.state})` : "Customer's state"}</em>
+                </MenuItem>
+                {INDIAN_STATES.map((state) => (
+                  <MenuItem key={state} value={state}>
+                    {state}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={pricesIncludeTax}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setPricesIncludeTax(e.target.checked)}
+                />
+              }
+              label="Prices include GST"
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+            <Stack direction="row" spacing={1} alignItems="flex-start">
+              <TextField
+                id="promotionCode"
+                label="Promotion Code"
+                value={promotionCodeInput}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setPromotionCodeInput(e.target.value.toUpperCase())}
+                error={!!promotionError}
+                helperText={promotionError?.message || (quote?.promotion ? quote.promotion.name : undefined)}
+                fullWidth
+              />
+              {appliedPromotionCode && appliedPromotionCode === promotionCodeInput.trim() ? (
+                <Button
+                  variant="outlined"
+                  color="inherit"
+                  onClick={() => {
+                    setAppliedPromotionCode('');
+                    setPromotionCodeInput('');
+                  }}
+                  sx={{ mt: 1 }}
+                >
+                  Remove
+                </Button>
+              ) : (
+                <Button
+                  variant="outlined"
+                  onClick={() => setAppliedPromotionCode(promotionCodeInput.trim())}
+                  disabled={!promotionCodeInput.trim()}
+                  sx={{ mt: 1 }}
+                >
+                  Apply
+                </Button>
+              )}
+            </Stack>
+          </Grid>
+          {canRedeemPoints && customerLoyalty && (
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                id="redeemPoints"
+                label="Redeem Points"
+                type="number"
+                value={redeemPoints}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setRedeemPoints(e.target.value)}
+                error={!!pointsError}
+                helperText={pointsError?.message || `${customerLoyalty.loyaltyPoints} points available (${formatPrice(customerLoyalty.pointsValue)})`}
+                slotProps={{ htmlInput: { min: 0, max: customerLoyalty.loyaltyPoints, step: 1 } }}
+                fullWidth
+              />
+            </Grid>
+          )}
+        </Grid>
+
         {orderItems.length > 0 && (
           <Paper 
             elevation={0}
@@ -672,6 +1011,16 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
               textAlign: 'center',
             }}
           >
+            {quote && (
+              <Stack spacing={0.5} sx={{ mb: 1, maxWidth: 320, mx: 'auto' }}>
+                {getQuoteRows(quote).map(([label, amount]) => (
+                  <Box key={label} display="flex" justifyContent="space-between">
+                    <Typography variant="body2" color="text.secondary">{label}</Typography>
+                    <Typography variant="body2">{formatPrice(amount)}</Typography>
+                  </Box>
+                ))}
+              </Stack>
+            )}
             <Typography variant="h5" color="primary.main" fontWeight={600}>
               Estimated Total: {formatPrice(estimatedTotal)}
             </Typography>
@@ -684,6 +1033,17 @@ function OrderForm({ items, onOrderCreated, duplicateOrderId }: OrderFormProps)
           </Alert>
         )}
 
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={allowBackorder}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setAllowBackorder(e.target.checked)}
+            />
+          }
+          label="Accept as backorder if stock is short"
+          sx={{ mb: 1 }}
+        />
+
         <Button 
           type="submit" 
           variant="contained" 
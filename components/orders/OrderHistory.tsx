@@ -15,11 +15,12 @@ import { useOrderPagination } from '@/hooks';
 import { useOrderFilters } from '@/hooks';
 import { useInfiniteScroll } from '@/hooks';
 import OrderDetailsPage from './OrderDetailsPage';
+import SavedViewsBar from './SavedViewsBar';
 import OrderFiltersSection from '../common/OrderFiltersSection';
 import OrderHistoryTableHeader from '../common/OrderHistoryTableHeader';
 import OrderHistoryTableRow from '../common/OrderHistoryTableRow';
 import OrderRowSkeleton from '../common/OrderRowSkeleton';
-import type { OrderId, Order } from '@/types';
+import type { OrderId, SavedOrderViewSortKey } from '@/types';
 
 interface OrderHistoryProps {
   onDuplicateOrder: (orderId: string) => void;
@@ -30,15 +31,30 @@ interface OrderHistoryProps {
 function OrderHistory({ onDuplicateOrder, initialSelectedOrderId = null, onOrderDetailsClose }: OrderHistoryProps) {
   const { formatPrice } = useCurrency();
   
+  const {
+    filters,
+    searchFilters,
+    hasActiveFilters,
+    sortConfig,
+    activeViewId,
+    viewQuery,
+    handleFilterChange,
+    handleClearFilters,
+    handleSort,
+    applyView,
+  } = useOrderFilters();
+  
   const {
     orders,
     loading,
     loadingMore,
     hasMore,
     error,
+    total,
+    facets,
     loadMore,
     fetchOrders,
-  } = useOrderPagination();
+  } = useOrderPagination(searchFilters, sortConfig);
   
   const loadMoreRef = useInfiniteScroll({
     onLoadMore: loadMore,
@@ -46,15 +62,6 @@ function OrderHistory({ onDuplicateOrder, initialSelectedOrderId = null, onOrder
     hasMore: hasMore,
   });
   
-  const {
-    filters,
-    sortConfig,
-    sortedOrders,
-    handleFilterChange,
-    handleClearFilters,
-    handleSort,
-  } = useOrderFilters(orders);
-  
   const [selectedOrderId, setSelectedOrderId] = useState<OrderId | null>(initialSelectedOrderId);
 
   // Update selectedOrderId when initialSelectedOrderId changes (from priority panel)
@@ -75,19 +82,6 @@ function OrderHistory({ onDuplicateOrder, initialSelectedOrderId = null, onOrder
     }
   };
 
-  if (loading) {
-    return (
-      <Paper sx={{ p: { xs: 2, sm: 3 } }}>
-        <Typography variant="h5" component="h2" gutterBottom fontWeight={600}>
-          Order History
-        </Typography>
-        <Box display="flex" justifyContent="center" py={4}>
-          <CircularProgress />
-        </Box>
-      </Paper>
-    );
-  }
-
   // Show order details page when an order is selected
   if (selectedOrderId) {
     return (
@@ -136,23 +130,41 @@ function OrderHistory({ onDuplicateOrder, initialSelectedOrderId = null, onOrder
         </Box>
       </Box>
       
+      <SavedViewsBar
+        activeViewId={activeViewId}
+        viewQuery={viewQuery}
+        sortConfig={sortConfig}
+        onApplyView={applyView}
+      />
+
       <OrderFiltersSection
         filters={filters}
+        facets={facets}
         onFilterChange={handleFilterChange}
         onClearFilters={handleClearFilters}
       />
 
-      {sortedOrders.length === 0 ? (
+      {!loading && total !== null && hasActiveFilters && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {total} matching {total === 1 ? 'order' : 'orders'}
+        </Typography>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={4}>
+          <CircularProgress />
+        </Box>
+      ) : orders.length === 0 ? (
         <Typography color="text.secondary" textAlign="center" py={4}>
-          No orders found
+          {hasActiveFilters ? 'No orders match these filters' : 'No orders found'}
         </Typography>
       ) : (
         <>
           <TableContainer component={Paper} variant="outlined" sx={{ mb: 2 }}>
             <Table size="small" aria-label="Orders table">
-              <OrderHistoryTableHeader sortConfig={{ key: sortConfig.key, direction: sortConfig.direction }} onSort={(key) => handleSort(key as keyof Order)} />
+              <OrderHistoryTableHeader sortConfig={{ key: sortConfig.key, direction: sortConfig.direction }} onSort={(key) => handleSort(key as SavedOrderViewSortKey)} />
               <TableBody>
-                {sortedOrders.map(order => (
+                {orders.map(order => (
                   <OrderHistoryTableRow
                     key={order._id}
                     order={order}
@@ -175,7 +187,7 @@ function OrderHistory({ onDuplicateOrder, initialSelectedOrderId = null, onOrder
           {/* Show message when all orders are loaded */}
           {!hasMore && !loadingMore && orders.length > 0 && (
             <Typography color="text.secondary" textAlign="center" py={2}>
-              All orders loaded ({orders.length} total)
+              All {hasActiveFilters ? 'matching ' : ''}orders loaded ({orders.length} total)
             </Typography>
           )}
         </>
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useOrderPayments,
+  useCreateOrderPayment,
+  useDeleteOrderPayment,
+} from '@/hooks/queries/useOrderPaymentsQueries';
+import { PAYMENT_METHODS, getPaymentMethodLabel } from '@/constants/orderConstants';
+import type { OrderId, OrderPayment, PaymentMethod } from '@/types';
+
+interface OrderPaymentsPanelProps {
+  orderId: OrderId;
+  balanceDue: number;
+  canRecordPayments: boolean;
+  formatPrice: (price: number) => string;
+  /** Called after a payment is recorded or removed so the order can be reloaded */
+  onPaymentsChanged?: () => void;
+}
+
+interface PaymentFormData {
+  amount: string;
+  method: PaymentMethod;
+  referenceNumber: string;
+  paidAt: string;
+  notes: string;
+}
+
+const todayString = (): string => new Date().toISOString().split('T')[0];
+
+const createEmptyForm = (balanceDue: number): PaymentFormData => ({
+  amount: balanceDue > 0 ? balanceDue.toFixed(2) : '',
+  method: 'upi',
+  referenceNumber: '',
+  paidAt: todayString(),
+  notes: '',
+});
+
+/**
+ * Payment history for an order with a form to record new payments.
+ * The order's paid amount and payment status are derived from these entries.
+ */
+function OrderPaymentsPanel({
+  orderId,
+  balanceDue,
+  canRecordPayments,
+  formatPrice,
+  onPaymentsChanged,
+}: OrderPaymentsPanelProps) {
+  const { showSuccess, showError } = useNotification();
+  const { data: payments = [], isLoading, error } = useOrderPayments(orderId);
+  const createPayment = useCreateOrderPayment();
+  const deletePayment = useDeleteOrderPayment();
+
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<PaymentFormData>(() => createEmptyForm(balanceDue));
+  const [paymentToDelete, setPaymentToDelete] = useState<OrderPayment | null>(null);
+
+  const parsedAmount = Number.parseFloat(formData.amount);
+  const amountInvalid = Number.isNaN(parsedAmount) || parsedAmount <= 0 || parsedAmount > balanceDue + 0.005;
+
+  const handleOpenForm = () => {
+    setFormData(createEmptyForm(balanceDue));
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (amountInvalid) return;
+
+    try {
+      await createPayment.mutateAsync({
+        orderId,
+        amount: parsedAmount,
+        method: formData.method,
+        referenceNumber: formData.referenceNumber.trim() || undefined,
+        paidAt: formData.paidAt || undefined,
+        notes: formData.notes.trim() || undefined,
+      });
+      showSuccess('Payment recorded');
+      setShowForm(false);
+      onPaymentsChanged?.();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to record payment');
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!paymentToDelete) return;
+
+    try {
+      await deletePayment.mutateAsync({ orderId, paymentId: paymentToDelete._id });
+      showSuccess('Payment removed');
+      onPaymentsChanged?.();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete payment');
+    } finally {
+      setPaymentToDelete(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle2" color="text.secondary">
+          Payment History
+        </Typography>
+        {canRecordPayments && balanceDue > 0 && !showForm && (
+          <Button size="small" startIcon={<AddIcon />} onClick={handleOpenForm}>
+            Record Payment
+          </Button>
+        )}
+      </Stack>
+
+      {showForm && (
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }} component="form" onSubmit={handleSubmit}>
+          <Stack spacing={2}>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                id="payment-amount"
+                label="Amount"
+                type="number"
+                size="small"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                inputProps={{ min: 0, step: 0.01 }}
+                error={formData.amount !== '' && amountInvalid}
+                helperText={`Balance due: ${formatPrice(balanceDue)}`}
+                required
+                fullWidth
+              />
+              <FormControl size="small" fullWidth>
+                <InputLabel id="payment-method-label">Method</InputLabel>
+                <Select
+                  labelId="payment-method-label"
+                  id="payment-method"
+                  value={formData.method}
+                  label="Method"
+                  onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentMethod })}
+                >
+                  {PAYMENT_METHODS.map((method) => (
+                    <MenuItem key={method.value} value={method.value}>
+                      {method.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Stack>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                id="payment-reference"
+                label="Reference Number"
+                size="small"
+                value={formData.referenceNumber}
+                onChange={(e) => setFormData({ ...formData, referenceNumber: e.target.value })}
+                placeholder="UPI / bank reference"
+                fullWidth
+              />
+              <TextField
+                id="payment-date"
+                label="Payment Date"
+                type="date"
+                size="small"
+                value={formData.paidAt}
+                onChange={(e) => setFormData({ ...formData, paidAt: e.target.value })}
+                slotProps={{ inputLabel: { shrink: true } }}
+                fullWidth
+              />
+            </Stack>
+            <TextField
+              id="payment-notes"
+              label="Notes"
+              size="small"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              fullWidth
+            />
+            <Stack direction="row" spacing={1} justifyContent="flex-end">
+              <Button size="small" onClick={() => setShowForm(false)} disabled={createPayment.isPending}>
+                Cancel
+              </Button>
+              <Button
+                size="small"
+                variant="contained"
+                type="submit"
+                disabled={createPayment.isPending || amountInvalid}
+              >
+                {createPayment.isPending ? <CircularProgress size={16} /> : 'Save Payment'}
+              </Button>
+            </Stack>
+          </Stack>
+        </Paper>
+      )}
+
+      {isLoading && (
+        <Box display="flex" justifyContent="center" py={2}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load payments'}</Alert>
+      )}
+
+      {!isLoading && !error && payments.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          No payments recorded yet.
+        </Typography>
+      )}
+
+      <Stack spacing={1}>
+        {payments.map((payment) => (
+          <Paper key={payment._id} variant="outlined" sx={{ p: 1.5 }}>
+            <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
+              <Box>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Typography variant="body2" fontWeight={600}>
+                    {formatPrice(payment.amount)}
+                  </Typography>
+                  <Chip label={getPaymentMethodLabel(payment.method)} size="small" variant="outlined" />
+                </Stack>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {new Date(payment.paidAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                  {payment.referenceNumber && ` • Ref ${payment.referenceNumber}`}
+                  {` • ${payment.userName || payment.userEmail || 'System'}`}
+                </Typography>
+                {payment.notes && (
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {payment.notes}
+                  </Typography>
+                )}
+              </Box>
+              {canRecordPayments && payment.amount > 0 && (
+                <IconButton
+                  size="small"
+                  onClick={() => setPaymentToDelete(payment)}
+                  aria-label={`Delete payment of ${formatPrice(payment.amount)}`}
+                  title="Delete payment"
+                  color="error"
+                >
+                  <DeleteIcon sx={{ fontSize: 18 }} />
+                </IconButton>
+              )}
+            </Stack>
+          </Paper>
+        ))}
+      </Stack>
+
+      <Dialog
+        open={Boolean(paymentToDelete)}
+        onClose={() => setPaymentToDelete(null)}
+        aria-labelledby="delete-payment-dialog-title"
+      >
+        <DialogTitle id="delete-payment-dialog-title">Delete Payment</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Remove the payment of {paymentToDelete ? formatPrice(paymentToDelete.amount) : ''}? The order&apos;s
+            paid amount and payment status will be recalculated.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPaymentToDelete(null)} disabled={deletePayment.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirmDelete} color="error" disabled={deletePayment.isPending}>
+            {deletePayment.isPending ? <CircularProgress size={16} /> : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
+
+export default OrderPaymentsPanel;
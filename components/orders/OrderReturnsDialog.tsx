@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useMemo, type FormEvent } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Divider from '@mui/material/Divider';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Checkbox from '@mui/material/Checkbox';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useOrderReturns,
+  useCreateOrderReturn,
+  useApproveOrderReturn,
+  useRejectOrderReturn,
+} from '@/hooks/queries/useOrderReturnsQueries';
+import { PAYMENT_METHODS, getPaymentMethodLabel } from '@/constants/orderConstants';
+import type { Order, OrderReturn, PaymentMethod, ReturnStatus } from '@/types';
+
+interface OrderReturnsDialogProps {
+  open: boolean;
+  order: Order;
+  formatPrice: (price: number) => string;
+  onClose: () => void;
+  /** Called after a return is approved so the order can be reloaded */
+  onReturnsChanged?: () => void;
+}
+
+const STATUS_COLORS: Record<ReturnStatus, 'warning' | 'success' | 'default'> = {
+  requested: 'warning',
+  approved: 'success',
+  rejected: 'default',
+};
+
+/**
+ * Return and refund requests for an order: request a return of some or all
+ * items, then approve (refund + restock) or reject it.
+ */
+function OrderReturnsDialog({ open, order, formatPrice, onClose, onReturnsChanged }: OrderReturnsDialogProps) {
+  const { showSuccess, showError } = useNotification();
+  const { data: returns = [], isLoading, error } = useOrderReturns(open ? order._id : null);
+  const createReturn = useCreateOrderReturn();
+  const approveReturn = useApproveOrderReturn();
+  const rejectReturn = useRejectOrderReturn();
+
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [reason, setReason] = useState('');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('upi');
+  const [restock, setRestock] = useState(true);
+
+  // Units still available to return per order item (pending and approved returns count)
+  const remaining = useMemo(() => {
+    const used = new Map<number, number>();
+    for (const orderReturn of returns) {
+      if (orderReturn.status === 'rejected') continue;
+      for (const line of orderReturn.items) {
+        if (line.orderItemId === null) continue;
+        used.set(line.orderItemId, (used.get(line.orderItemId) || 0) + line.quantity);
+      }
+    }
+    return new Map(order.items.map(item => [Number(item._id), item.quantity - (used.get(Number(item._id)) || 0)]));
+  }, [returns, order.items]);
+
+  const selectedLines = order.items
+    .map(item => ({ item, quantity: Number.parseInt(quantities[Number(item._id)] || '0', 10) }))
+    .filter(line => !Number.isNaN(line.quantity) && line.quantity > 0);
+  const selectedValue = selectedLines.reduce((sum, line) => sum + line.item.price * line.quantity, 0);
+  const quantitiesValid = selectedLines.every(line => line.quantity <= (remaining.get(Number(line.item._id)) || 0));
+  const parsedRefund = refundAmount === '' ? selectedValue : Number.parseFloat(refundAmount);
+  const refundValid = !Number.isNaN(parsedRefund) && parsedRefund >= 0 && parsedRefund <= selectedValue + 0.005;
+  const canSubmit = selectedLines.length > 0 && quantitiesValid && refundValid && reason.trim().length > 0;
+
+  const resetForm = () => {
+    setQuantities({});
+    setReason('');
+    setRefundAmount('');
+    setRefundMethod('upi');
+    setRestock(true);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    try {
+      await createReturn.mutateAsync({
+        orderId: order._id,
+        reason: reason.trim(),
+        refundAmount: parsedRefund,
+        refundMethod,
+        restock,
+        items: selectedLines.map(line => ({ orderItemId: line.item._id, quantity: line.quantity })),
+      });
+      showSuccess('Return requested');
+      resetForm();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to create return');
+    }
+  };
+
+  const handleApprove = async (orderReturn: OrderReturn) => {
+    try {
+      await approveReturn.mutateAsync({ orderId: order._id, returnId: orderReturn._id });
+      showSuccess(`Return #${orderReturn._id} approved`);
+      onReturnsChanged?.();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to approve return');
+    }
+  };
+
+  const handleReject = async (orderReturn: OrderReturn) => {
+    try {
+      await rejectReturn.mutateAsync({ orderId: order._id, returnId: orderReturn._id });
+      showSuccess(`Return #${orderReturn._id} rejected`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to reject return');
+    }
+  };
+
+  const reviewing = approveReturn.isPending || rejectReturn.isPending;
+  const hasReturnableItems = [...remaining.values()].some(qty => qty > 0);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth aria-labelledby="order-returns-dialog-title">
+      <DialogTitle id="order-returns-dialog-title">Returns &amp; Refunds — {order.orderId}</DialogTitle>
+      <DialogContent dividers>
+        {isLoading && (
+          <Box display="flex" justifyContent="center" py={2}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>{error instanceof Error ? error.message : 'Failed to load returns'}</Alert>
+        )}
+
+        {returns.length > 0 && (
+          <Stack spacing={1} mb={3}>
+            {returns.map((orderReturn) => (
+              <Paper key={orderReturn._id} variant="outlined" sx={{ p: 1.5 }}>
+                <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
+                  <Box>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Typography variant="body2" fontWeight={600}>Return #{orderReturn._id}</Typography>
+                      <Chip label={orderReturn.status} size="small" color={STATUS_COLORS[orderReturn.status]} />
+                      {!orderReturn.restock && <Chip label="No restock" size="small" variant="outlined" />}
+                    </Stack>
+                    <Typography variant="body2">
+                      {orderReturn.items.map(line => `${line.quantity} × ${line.name}`).join(', ')}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Refund {formatPrice(orderReturn.refundAmount)}
+                      {orderReturn.refundMethod && ` via ${getPaymentMethodLabel(orderReturn.refundMethod)}`}
+                      {` • ${orderReturn.reason}`}
+                    </Typography>
+                  </Box>
+                  {orderReturn.status === 'requested' && (
+                    <Stack direction="row" spacing={1}>
+                      <Button size="small" color="inherit" onClick={() => handleReject(orderReturn)} disabled={reviewing}>
+                        Reject
+                      </Button>
+                      <Button size="small" variant="contained" onClick={() => handleApprove(orderReturn)} disabled={reviewing}>
+                        Approve
+                      </Button>
+                    </Stack>
+                  )}
+                </Stack>
+              </Paper>
+            ))}
+          </Stack>
+        )}
+
+        {!isLoading && hasReturnableItems && (
+          <Box component="form" id="order-return-form" onSubmit={handleSubmit}>
+            {returns.length > 0 && <Divider sx={{ mb: 2 }} />}
+            <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+              New Return Request
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Item</TableCell>
+                  <TableCell align="right">Price</TableCell>
+                  <TableCell align="right">Returnable</TableCell>
+                  <TableCell align="right" sx={{ width: 120 }}>Return Qty</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {order.items.map((item) => {
+                  const max = remaining.get(Number(item._id)) || 0;
+                  return (
+                    <TableRow key={item._id}>
+                      <TableCell>{item.name}</TableCell>
+                      <TableCell align="right">{formatPrice(item.price)}</TableCell>
+                      <TableCell align="right">{max}</TableCell>
+                      <TableCell align="right">
+                        <TextField
+                          type="number"
+                          size="small"
+                          value={quantities[Number(item._id)] ?? ''}
+                          onChange={(e) => setQuantities({ ...quantities, [Number(item._id)]: e.target.value })}
+                          inputProps={{ min: 0, max, step: 1, 'aria-label': `Quantity of ${item.name} to return` }}
+                          disabled={max === 0}
+                          error={Number.parseInt(quantities[Number(item._id)] || '0', 10) > max}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <Stack spacing={2} mt={2}>
+              <TextField
+                id="return-reason"
+                label="Reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                multiline
+                rows={2}
+                required
+                fullWidth
+              />
+              <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                <TextField
+                  id="return-refund-amount"
+                  label="Refund Amount"
+                  type="number"
+                  size="small"
+                  value={refundAmount === '' ? selectedValue.toFixed(2) : refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                  inputProps={{ min: 0, step: 0.01 }}
+                  error={!refundValid}
+                  helperText={`Value of selected items: ${formatPrice(selectedValue)}`}
+                  fullWidth
+                />
+                <FormControl size="small" fullWidth>
+                  <InputLabel id="return-refund-method-label">Refund Method</InputLabel>
+                  <Select
+                    labelId="return-refund-method-label"
+                    id="return-refund-method"
+                    value={refundMethod}
+                    label="Refund Method"
+                    onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)}
+                  >
+                    {PAYMENT_METHODS.map((method) => (
+                      <MenuItem key={method.value} value={method.value}>
+                        {method.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Stack>
+              <FormControlLabel
+                control={<Checkbox checked={restock} onChange={(e) => setRestock(e.target.checked)} />}
+                label="Return items to stock when approved"
+              />
+            </Stack>
+          </Box>
+        )}
+
+        {!isLoading && !hasReturnableItems && (
+          <Typography variant="body2" color="text.secondary">
+            Every item on this order is already covered by a return.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          Close
+        </Button>
+        {hasReturnableItems && (
+          <Button
+            type="submit"
+            form="order-return-form"
+            variant="contained"
+            disabled={!canSubmit || createReturn.isPending}
+          >
+            {createReturn.isPending ? <CircularProgress size={16} /> : 'Request Return'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default OrderReturnsDialog;
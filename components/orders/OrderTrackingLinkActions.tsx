@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, type MouseEvent } from 'react';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import CircularProgress from '@mui/material/CircularProgress';
+import LocalShippingIcon from '@mui/icons-material/LocalShipping';
+import MoreVertIcon from '@mui/icons-material/MoreVert';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useOrderTrackingLink,
+  useIssueOrderTrackingLink,
+  useRevokeOrderTrackingLink,
+  getTrackingUrl,
+} from '@/hooks/queries/useOrderTrackingQueries';
+import type { Order } from '@/types';
+
+interface OrderTrackingLinkActionsProps {
+  order: Order;
+}
+
+/**
+ * Copies the order's public tracking link, creating it on first use.
+ * Resetting issues a new link and stops the old one from working.
+ */
+function OrderTrackingLinkActions({ order }: OrderTrackingLinkActionsProps) {
+  const { showSuccess, showError } = useNotification();
+  const { data: link } = useOrderTrackingLink(order._id);
+  const issueLink = useIssueOrderTrackingLink();
+  const revokeLink = useRevokeOrderTrackingLink();
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+
+  const copyLink = async (regenerate: boolean) => {
+    setMenuAnchor(null);
+    try {
+      const issued = await issueLink.mutateAsync({ orderId: order._id, regenerate });
+      const url = getTrackingUrl(issued.token);
+      const expires = new Date(issued.expiresAt).toLocaleDateString();
+      navigator.clipboard.writeText(url).then(() => {
+        showSuccess(`Tracking link copied to clipboard. Valid until ${expires}.`);
+      }).catch(() => {
+        showSuccess(`Tracking link: ${url}`);
+      });
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to create tracking link');
+    }
+  };
+
+  const handleRevoke = async () => {
+    setMenuAnchor(null);
+    if (!globalThis.confirm('Disable the tracking link? Customers with the old link will no longer see this order.')) {
+      return;
+    }
+    try {
+      await revokeLink.mutateAsync(order._id);
+      showSuccess('Tracking link disabled');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to disable tracking link');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={issueLink.isPending ? <CircularProgress size={16} /> : <LocalShippingIcon />}
+        onClick={() => copyLink(false)}
+        disabled={issueLink.isPending}
+      >
+        Tracking Link
+      </Button>
+      {link && (
+        <>
+          <IconButton
+            size="small"
+            aria-label="Tracking link options"
+            onClick={(e: MouseEvent<HTMLElement>) => setMenuAnchor(e.currentTarget)}
+          >
+            <MoreVertIcon fontSize="small" />
+          </IconButton>
+          <Menu anchorEl={menuAnchor} open={!!menuAnchor} onClose={() => setMenuAnchor(null)}>
+            <MenuItem onClick={() => copyLink(true)}>Reset link</MenuItem>
+            <MenuItem onClick={handleRevoke}>Disable link</MenuItem>
+          </Menu>
+        </>
+      )}
+    </>
+  );
+}
+
+export default OrderTrackingLinkActions;
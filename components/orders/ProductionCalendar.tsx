@@ -0,0 +1,486 @@
+'use client';
+
+import { useMemo, useState, type DragEvent, type FormEvent, type ReactElement } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { DateTime } from 'luxon';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import TextField from '@mui/material/TextField';
+import MenuItem from '@mui/material/MenuItem';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import CircularProgress from '@mui/material/CircularProgress';
+import Grid from '@mui/material/Grid2';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import TuneIcon from '@mui/icons-material/Tune';
+import EditCalendarIcon from '@mui/icons-material/EditCalendar';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useProductionCalendar,
+  useUpdateProductionCapacity,
+  useSetCapacityOverride,
+  useDeleteCapacityOverride,
+  useRescheduleOrder,
+} from '@/hooks/queries/useProductionQueries';
+import { getPriorityStatus } from '@/lib/utils/priorityUtils';
+import { getOrderPriorityColor } from '@/lib/utils/orderUtils';
+import { DIGEST_TIMEZONE } from '@/lib/utils/digestBuckets';
+import { PRODUCTION_CAPACITY_UNITS, PRODUCTION_WEEKDAYS } from '@/constants/productionConstants';
+import type { ProductionCalendarDay, ProductionCalendarOrder, ProductionCapacitySettings, ProductionCapacityUnit } from '@/types';
+
+type CalendarMode = 'month' | 'week' | 'day';
+
+/** Orders listed in a month cell before "+N more" */
+const MONTH_CELL_ORDERS = 3;
+
+function getRange(mode: CalendarMode, anchor: DateTime): { from: DateTime; to: DateTime } {
+  if (mode === 'day') return { from: anchor, to: anchor };
+  if (mode === 'week') return { from: anchor.startOf('week'), to: anchor.endOf('week').startOf('day') };
+  // Whole weeks around the month, Monday first
+  return {
+    from: anchor.startOf('month').startOf('week'),
+    to: anchor.endOf('month').endOf('week').startOf('day'),
+  };
+}
+
+function getTitle(mode: CalendarMode, from: DateTime, to: DateTime, anchor: DateTime): string {
+  if (mode === 'day') return anchor.toFormat('cccc, d LLLL yyyy');
+  if (mode === 'week') return `${from.toFormat('d LLL')} – ${to.toFormat('d LLL yyyy')}`;
+  return anchor.toFormat('LLLL yyyy');
+}
+
+function getLoadColor(day: ProductionCalendarDay): 'error' | 'warning' | 'success' | 'default' {
+  if (day.overbooked) return 'error';
+  if (day.capacity === 0) return 'default';
+  return day.load / day.capacity >= 0.8 ? 'warning' : 'success';
+}
+
+interface CalendarOrderChipProps {
+  order: ProductionCalendarOrder;
+  unit: ProductionCapacityUnit;
+  detailed: boolean;
+  onOpen: (order: ProductionCalendarOrder) => void;
+  onDragStart: (event: DragEvent<HTMLElement>, order: ProductionCalendarOrder) => void;
+}
+
+function CalendarOrderChip({ order, unit, detailed, onOpen, onDragStart }: Readonly<CalendarOrderChipProps>): ReactElement {
+  const priority = getPriorityStatus(order.expectedDeliveryDate, { shortLabels: true, orderStatus: order.status });
+  return (
+    <Paper
+      variant="outlined"
+      draggable
+      onDragStart={(e) => onDragStart(e, order)}
+      onClick={(e) => {
+        e.stopPropagation();
+        onOpen(order);
+      }}
+      sx={{ px: 0.75, py: 0.25, cursor: 'grab', '&:hover': { borderColor: 'primary.main' } }}
+    >
+      <Stack direction="row" spacing={0.5} alignItems="center" justifyContent="space-between">
+        <Typography variant="caption" fontWeight={600} noWrap>
+          {order.orderId}
+        </Typography>
+        {unit === 'units' && (
+          <Typography variant="caption" color="text.secondary">×{order.units}</Typography>
+        )}
+      </Stack>
+      {detailed && (
+        <>
+          <Typography variant="body2" noWrap>{order.customerName}</Typography>
+          <Stack direction="row" spacing={0.5} alignItems="center" sx={{ mt: 0.25 }}>
+            <Chip label={order.status} size="small" variant="outlined" sx={{ height: 20 }} />
+            {priority && (
+              <Chip label={priority.label} size="small" color={getOrderPriorityColor(priority)} sx={{ height: 20 }} />
+            )}
+          </Stack>
+        </>
+      )}
+    </Paper>
+  );
+}
+
+interface CapacityDialogProps {
+  open: boolean;
+  settings: ProductionCapacitySettings;
+  onClose: () => void;
+}
+
+function CapacityDialog({ open, settings, onClose }: Readonly<CapacityDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const updateMutation = useUpdateProductionCapacity();
+  const [unit, setUnit] = useState<ProductionCapacityUnit>(settings.unit);
+  const [weekdayCapacity, setWeekdayCapacity] = useState<string[]>(settings.weekdayCapacity.map(String));
+  const [minLeadDays, setMinLeadDays] = useState(String(settings.minLeadDays));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateMutation.mutateAsync({
+        unit,
+        weekdayCapacity: weekdayCapacity.map(value => Number.parseInt(value, 10) || 0),
+        minLeadDays: Number.parseInt(minLeadDays, 10) || 0,
+      });
+      showSuccess('Production capacity saved');
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save production capacity');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Production Capacity</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            fullWidth
+            margin="dense"
+            label="Measure capacity in"
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as ProductionCapacityUnit)}
+          >
+            {PRODUCTION_CAPACITY_UNITS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </TextField>
+          <Grid container spacing={1} sx={{ mt: 1 }}>
+            {PRODUCTION_WEEKDAYS.map((weekday, index) => (
+              <Grid key={weekday} size={{ xs: 3, sm: 12 / 7 }}>
+                <TextField
+                  size="small"
+                  type="number"
+                  label={weekday}
+                  value={weekdayCapacity[index]}
+                  onChange={(e) => setWeekdayCapacity(prev => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                  slotProps={{ htmlInput: { min: 0 } }}
+                  fullWidth
+                />
+              </Grid>
+            ))}
+          </Grid>
+          <TextField
+            fullWidth
+            margin="normal"
+            type="number"
+            label="Minimum lead time (days)"
+            value={minLeadDays}
+            onChange={(e) => setMinLeadDays(e.target.value)}
+            helperText="New orders are not suggested a delivery date sooner than this"
+            slotProps={{ htmlInput: { min: 0 } }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={updateMutation.isPending}>Save</Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+interface OverrideDialogProps {
+  day: ProductionCalendarDay;
+  unitLabel: string;
+  onClose: () => void;
+}
+
+function OverrideDialog({ day, unitLabel, onClose }: Readonly<OverrideDialogProps>): ReactElement {
+  const { showSuccess, showError } = useNotification();
+  const setMutation = useSetCapacityOverride();
+  const deleteMutation = useDeleteCapacityOverride();
+  const [capacity, setCapacity] = useState(String(day.capacity));
+  const [note, setNote] = useState(day.override?.note ?? '');
+  const title = DateTime.fromISO(day.date).toFormat('cccc, d LLLL');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      await setMutation.mutateAsync({ date: day.date, capacity: Number.parseInt(capacity, 10) || 0, note: note || null });
+      showSuccess(`Capacity set for ${title}`);
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to set capacity for the day');
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await deleteMutation.mutateAsync(day.date);
+      showSuccess(`${title} uses its weekday capacity again`);
+      onClose();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to reset capacity for the day');
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Capacity for {title}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            type="number"
+            label={`Capacity (${unitLabel})`}
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+            helperText="0 closes the workshop for the day"
+            slotProps={{ htmlInput: { min: 0 } }}
+          />
+          <TextField
+            fullWidth
+            margin="dense"
+            label="Note"
+            placeholder="Diwali, stock-take, half day…"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          {day.override && (
+            <Button color="inherit" onClick={handleReset} disabled={deleteMutation.isPending} sx={{ mr: 'auto' }}>
+              Use weekday capacity
+            </Button>
+          )}
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={setMutation.isPending}>Save</Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+/**
+ * Production calendar: open orders by expected delivery date against daily capacity
+ * Dragging an order to another day reschedules it; admins set the capacity and
+ * per-day overrides.
+ */
+export default function ProductionCalendar(): ReactElement {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const { showSuccess, showError } = useNotification();
+  const today = DateTime.now().setZone(DIGEST_TIMEZONE).startOf('day');
+
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [dragged, setDragged] = useState<ProductionCalendarOrder | null>(null);
+  const [dropDate, setDropDate] = useState<string | null>(null);
+  const [capacityOpen, setCapacityOpen] = useState(false);
+  const [overrideDay, setOverrideDay] = useState<ProductionCalendarDay | null>(null);
+
+  const { from, to } = getRange(mode, anchor);
+  const fromKey = from.toISODate() as string;
+  const toKey = to.toISODate() as string;
+  const todayKey = today.toISODate() as string;
+  const { data, isLoading, error } = useProductionCalendar(fromKey, toKey);
+  const rescheduleMutation = useRescheduleOrder();
+
+  const isAdmin = session?.user?.role === 'admin';
+  const settings = data?.settings;
+  const unitLabel = settings?.unit === 'units' ? 'units' : 'orders';
+  const days = useMemo(() => data?.days ?? [], [data]);
+  const overbookedCount = days.filter(day => day.overbooked).length;
+
+  const step = (direction: 1 | -1) => {
+    setAnchor(current => current.plus(mode === 'month' ? { months: direction } : { days: direction * (mode === 'week' ? 7 : 1) }));
+  };
+
+  const handleOpenOrder = (order: ProductionCalendarOrder) => {
+    router.push(`/orders/history?orderId=${order.id}`);
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLElement>, order: ProductionCalendarOrder) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', String(order.id));
+    setDragged(order);
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLElement>, date: string) => {
+    event.preventDefault();
+    const order = dragged;
+    setDragged(null);
+    setDropDate(null);
+    if (!order || date < todayKey) return;
+    if (DateTime.fromISO(order.expectedDeliveryDate).setZone(DIGEST_TIMEZONE).toISODate() === date) return;
+    try {
+      await rescheduleMutation.mutateAsync({ id: order.id, date });
+      showSuccess(`${order.orderId} rescheduled to ${DateTime.fromISO(date).toFormat('d LLL')}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to reschedule order');
+    }
+  };
+
+  const renderDay = (day: ProductionCalendarDay, variant: CalendarMode) => {
+    const date = DateTime.fromISO(day.date);
+    const isPast = day.date < todayKey;
+    const outsideMonth = variant === 'month' && date.month !== anchor.month;
+    const visibleOrders = variant === 'month' ? day.orders.slice(0, MONTH_CELL_ORDERS) : day.orders;
+    const hiddenCount = day.orders.length - visibleOrders.length;
+
+    return (
+      <Paper
+        key={day.date}
+        variant="outlined"
+        onDragOver={(e) => {
+          if (!dragged || isPast) return;
+          e.preventDefault();
+          setDropDate(day.date);
+        }}
+        onDragLeave={() => setDropDate(current => (current === day.date ? null : current))}
+        onDrop={(e) => handleDrop(e, day.date)}
+        sx={{
+          p: 0.75,
+          minHeight: variant === 'month' ? 120 : 320,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 0.5,
+          opacity: outsideMonth ? 0.55 : 1,
+          bgcolor: dropDate === day.date ? 'action.selected' : (day.overbooked ? 'error.50' : undefined),
+          borderColor: day.overbooked ? 'error.main' : (day.date === todayKey ? 'primary.main' : undefined),
+        }}
+      >
+        <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={0.5}>
+          <Typography variant="body2" fontWeight={day.date === todayKey ? 700 : 500}>
+            {variant === 'month' ? date.day : date.toFormat('ccc d')}
+          </Typography>
+          <Stack direction="row" alignItems="center" spacing={0.25}>
+            <Tooltip title={day.override?.note || (day.override ? 'Capacity set for this day' : `${unitLabel} booked / capacity`)}>
+              <Chip
+                size="small"
+                color={getLoadColor(day)}
+                variant={day.override ? 'filled' : 'outlined'}
+                label={day.capacity === 0 && day.load === 0 ? 'Closed' : `${day.load}/${day.capacity}`}
+                sx={{ height: 20 }}
+              />
+            </Tooltip>
+            {isAdmin && !isPast && (
+              <IconButton size="small" aria-label={`Set capacity for ${day.date}`} onClick={() => setOverrideDay(day)} sx={{ p: 0.25 }}>
+                <EditCalendarIcon sx={{ fontSize: 16 }} />
+              </IconButton>
+            )}
+          </Stack>
+        </Stack>
+        {visibleOrders.map(order => (
+          <CalendarOrderChip
+            key={order.id}
+            order={order}
+            unit={settings?.unit ?? 'orders'}
+            detailed={variant !== 'month'}
+            onOpen={handleOpenOrder}
+            onDragStart={handleDragStart}
+          />
+        ))}
+        {hiddenCount > 0 && (
+          <Button
+            size="small"
+            onClick={() => {
+              setAnchor(date);
+              setMode('day');
+            }}
+            sx={{ alignSelf: 'flex-start', minWidth: 0, p: 0 }}
+          >
+            +{hiddenCount} more
+          </Button>
+        )}
+      </Paper>
+    );
+  };
+
+  return (
+    <Box>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} justifyContent="space-between" sx={{ mb: 2 }}>
+        <Box>
+          <Typography variant="h5" fontWeight={600}>Production Calendar</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Pending and processing orders by expected delivery date. Drag an order to another day to reschedule it.
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1} alignItems="center" useFlexGap flexWrap="wrap">
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={mode}
+            onChange={(_e, value: CalendarMode | null) => value && setMode(value)}
+            aria-label="Calendar view"
+          >
+            <ToggleButton value="month">Month</ToggleButton>
+            <ToggleButton value="week">Week</ToggleButton>
+            <ToggleButton value="day">Day</ToggleButton>
+          </ToggleButtonGroup>
+          {isAdmin && settings && (
+            <Button size="small" startIcon={<TuneIcon />} onClick={() => setCapacityOpen(true)}>
+              Capacity
+            </Button>
+          )}
+        </Stack>
+      </Stack>
+
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+        <IconButton aria-label="Previous" onClick={() => step(-1)}><ChevronLeftIcon /></IconButton>
+        <Button size="small" variant="outlined" onClick={() => setAnchor(today)}>Today</Button>
+        <IconButton aria-label="Next" onClick={() => step(1)}><ChevronRightIcon /></IconButton>
+        <Typography variant="h6" sx={{ ml: 1 }}>{getTitle(mode, from, to, anchor)}</Typography>
+        {overbookedCount > 0 && (
+          <Chip color="error" size="small" label={`${overbookedCount} overbooked ${overbookedCount === 1 ? 'day' : 'days'}`} />
+        )}
+      </Stack>
+
+      {settings?.isDefault && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Using the default capacity of {settings.weekdayCapacity[0]} {unitLabel} a day.
+          {isAdmin ? ' Set your workshop\'s capacity to plan against it.' : ' An admin can set your workshop\'s capacity.'}
+        </Alert>
+      )}
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="40vh">
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Box
+          onDragEnd={() => {
+            setDragged(null);
+            setDropDate(null);
+          }}
+          sx={{
+            display: 'grid',
+            gap: 0.75,
+            gridTemplateColumns: mode === 'day' ? '1fr' : { xs: 'repeat(7, minmax(110px, 1fr))' },
+            overflowX: 'auto',
+          }}
+        >
+          {mode !== 'day' && PRODUCTION_WEEKDAYS.map(weekday => (
+            <Typography key={weekday} variant="caption" color="text.secondary" fontWeight={600} sx={{ px: 0.75 }}>
+              {weekday}
+            </Typography>
+          ))}
+          {days.map(day => renderDay(day, mode))}
+        </Box>
+      )}
+
+      {capacityOpen && settings && (
+        <CapacityDialog open={capacityOpen} settings={settings} onClose={() => setCapacityOpen(false)} />
+      )}
+      {overrideDay && (
+        <OverrideDialog day={overrideDay} unitLabel={unitLabel} onClose={() => setOverrideDay(null)} />
+      )}
+    </Box>
+  );
+}
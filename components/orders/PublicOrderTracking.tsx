@@ -0,0 +1,154 @@
+'use client';
+
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Stack from '@mui/material/Stack';
+import Divider from '@mui/material/Divider';
+import Alert from '@mui/material/Alert';
+import Avatar from '@mui/material/Avatar';
+import CircularProgress from '@mui/material/CircularProgress';
+import Stepper from '@mui/material/Stepper';
+import Step from '@mui/material/Step';
+import StepLabel from '@mui/material/StepLabel';
+import Inventory2Icon from '@mui/icons-material/Inventory2';
+import { usePublicOrderTracking } from '@/hooks/queries/useOrderTrackingQueries';
+import { getDeliveryStatusLabel } from '@/constants/orderConstants';
+import type { DeliveryStatus } from '@/types';
+
+interface PublicOrderTrackingProps {
+  token: string;
+}
+
+// Forward path of a delivery; 'returned' is shown as a notice instead
+const DELIVERY_STEPS: DeliveryStatus[] = ['not_shipped', 'shipped', 'in_transit', 'out_for_delivery', 'delivered'];
+
+const formatDate = (value: string | null): string =>
+  value ? new Date(value).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+
+/**
+ * Customer-facing order status opened from a tracking link.
+ * Renders only what the public tracking API returns: items, designs,
+ * delivery progress and updates written for the customer.
+ */
+function PublicOrderTracking({ token }: PublicOrderTrackingProps) {
+  const { data: tracking, isLoading, error } = usePublicOrderTracking(token);
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" py={8} role="status" aria-label="Loading order status">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !tracking) {
+    return (
+      <Alert severity="warning">
+        {error instanceof Error ? error.message : 'This tracking link is invalid or has expired'}
+      </Alert>
+    );
+  }
+
+  const activeStep = DELIVERY_STEPS.indexOf(tracking.deliveryStatus);
+  const isCancelled = tracking.status === 'cancelled';
+
+  return (
+    <Paper sx={{ p: { xs: 2, sm: 4 } }}>
+      <Typography variant="h5" component="h1" fontWeight={600}>
+        Order {tracking.orderId}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Placed on {formatDate(tracking.orderDate)}
+      </Typography>
+
+      {isCancelled && (
+        <Alert severity="error" sx={{ mb: 3 }}>This order has been cancelled.</Alert>
+      )}
+      {tracking.deliveryStatus === 'returned' && (
+        <Alert severity="info" sx={{ mb: 3 }}>This order has been returned.</Alert>
+      )}
+
+      {!isCancelled && activeStep >= 0 && (
+        <Stepper activeStep={activeStep} alternativeLabel sx={{ mb: 3 }}>
+          {DELIVERY_STEPS.map((step) => (
+            <Step key={step} completed={step === 'delivered' ? activeStep === DELIVERY_STEPS.length - 1 : undefined}>
+              <StepLabel>{getDeliveryStatusLabel(step)}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+      )}
+
+      <Stack spacing={0.5} sx={{ mb: 3 }}>
+        {tracking.actualDeliveryDate ? (
+          <Typography variant="body1">
+            Delivered on <strong>{formatDate(tracking.actualDeliveryDate)}</strong>
+          </Typography>
+        ) : tracking.expectedDeliveryDate && !isCancelled && (
+          <Typography variant="body1">
+            Expected delivery: <strong>{formatDate(tracking.expectedDeliveryDate)}</strong>
+          </Typography>
+        )}
+        {tracking.deliveryPartner && (
+          <Typography variant="body2" color="text.secondary">
+            Courier: {tracking.deliveryPartner}
+          </Typography>
+        )}
+        {tracking.trackingId && (
+          <Typography variant="body2" color="text.secondary">
+            Tracking number: {tracking.trackingId}
+          </Typography>
+        )}
+      </Stack>
+
+      <Divider sx={{ mb: 2 }} />
+
+      <Typography variant="h6" component="h2" gutterBottom>
+        Items
+      </Typography>
+      <Stack spacing={1.5} sx={{ mb: 3 }}>
+        {tracking.items.map((item, index) => (
+          <Box key={`${item.name}-${index}`} display="flex" alignItems="center" gap={2}>
+            <Avatar
+              variant="rounded"
+              src={item.imageUrl || undefined}
+              alt={item.designName || item.name}
+              sx={{ width: 56, height: 56 }}
+            >
+              <Inventory2Icon />
+            </Avatar>
+            <Box>
+              <Typography variant="body1">{item.name}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {item.designName ? `${item.designName} · ` : ''}Qty {item.quantity}
+              </Typography>
+            </Box>
+          </Box>
+        ))}
+      </Stack>
+
+      {tracking.updates.length > 0 && (
+        <>
+          <Divider sx={{ mb: 2 }} />
+          <Typography variant="h6" component="h2" gutterBottom>
+            Updates
+          </Typography>
+          <Stack spacing={1.5}>
+            {tracking.updates.map((update) => (
+              <Box key={update.id}>
+                <Typography variant="caption" color="text.secondary">
+                  {formatDate(update.createdAt)}
+                </Typography>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                  {update.noteText}
+                </Typography>
+              </Box>
+            ))}
+          </Stack>
+        </>
+      )}
+    </Paper>
+  );
+}
+
+export default PublicOrderTracking;
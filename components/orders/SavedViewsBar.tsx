@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, type ReactElement, type FormEvent, type MouseEvent } from 'react';
+import { useSession } from 'next-auth/react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Checkbox from '@mui/material/Checkbox';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import ListItemIcon from '@mui/material/ListItemIcon';
+import ListItemText from '@mui/material/ListItemText';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import SaveIcon from '@mui/icons-material/Save';
+import MoreVertIcon from '@mui/icons-material/MoreVert';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+import MailOutlineIcon from '@mui/icons-material/MailOutline';
+import PeopleIcon from '@mui/icons-material/People';
+import LinkIcon from '@mui/icons-material/Link';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useSavedViews,
+  useCreateSavedView,
+  useUpdateSavedView,
+  useDeleteSavedView,
+  useUpdateSavedViewPreferences,
+} from '@/hooks/queries/useSavedViewsQueries';
+import { SAVED_VIEW_NAME_MAX_LENGTH } from '@/constants/savedViewConstants';
+import { getSavedViewHref } from '@/lib/utils/savedViewUtils';
+import type { SortConfig } from '@/hooks/domain/useOrderFilters';
+import type { SavedOrderView, SavedOrderViewQuery } from '@/types';
+
+interface SavedViewsBarProps {
+  activeViewId: number | null;
+  /** Current filters, saved as-is when creating or updating a view */
+  viewQuery: SavedOrderViewQuery;
+  sortConfig: SortConfig;
+  onApplyView: (view: SavedOrderView) => void;
+}
+
+interface MenuState {
+  anchorEl: HTMLElement | null;
+  view: SavedOrderView | null;
+}
+
+function isSameQuery(a: SavedOrderViewQuery, b: SavedOrderViewQuery): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => (a[key] ?? '') === (b[key] ?? ''));
+}
+
+/**
+ * Saved views above Order History: open, save, share, pin and subscribe to named filters
+ */
+export default function SavedViewsBar({ activeViewId, viewQuery, sortConfig, onApplyView }: Readonly<SavedViewsBarProps>): ReactElement {
+  const { data: session } = useSession();
+  const { showSuccess, showError } = useNotification();
+  const { data: views = [] } = useSavedViews({ enabled: !!session?.user });
+  const createMutation = useCreateSavedView();
+  const updateMutation = useUpdateSavedView();
+  const deleteMutation = useDeleteSavedView();
+  const preferencesMutation = useUpdateSavedViewPreferences();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [menuState, setMenuState] = useState<MenuState>({ anchorEl: null, view: null });
+
+  const isAdmin = session?.user?.role === 'admin';
+  const activeView = views.find(view => view.id === activeViewId) ?? null;
+  const isModified = !!activeView && (
+    !isSameQuery(activeView.query, viewQuery) ||
+    activeView.sortKey !== sortConfig.key ||
+    activeView.sortDirection !== sortConfig.direction
+  );
+  const canEdit = (view: SavedOrderView) => view.isOwner || isAdmin;
+
+  const currentDefinition = () => ({
+    query: viewQuery,
+    sortKey: sortConfig.key,
+    sortDirection: sortConfig.direction,
+  });
+
+  const handleOpenDialog = () => {
+    setName('');
+    setIsShared(false);
+    setDialogOpen(true);
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      const view = await createMutation.mutateAsync({ name, isShared, ...currentDefinition() });
+      onApplyView(view);
+      setDialogOpen(false);
+      showSuccess(`Saved view "${view.name}"`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save view');
+    }
+  };
+
+  const handleUpdateActive = async () => {
+    if (!activeView) return;
+    try {
+      await updateMutation.mutateAsync({ id: activeView.id, data: currentDefinition() });
+      showSuccess(`Updated "${activeView.name}"`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update view');
+    }
+  };
+
+  const handleOpenMenu = (event: MouseEvent<HTMLElement>, view: SavedOrderView) => {
+    event.stopPropagation();
+    setMenuState({ anchorEl: event.currentTarget, view });
+  };
+
+  const handleCloseMenu = () => setMenuState({ anchorEl: null, view: null });
+
+  const runMenuAction = async (action: (view: SavedOrderView) => Promise<unknown>, failure: string) => {
+    const { view } = menuState;
+    handleCloseMenu();
+    if (!view) return;
+    try {
+      await action(view);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleTogglePinned = () => runMenuAction(
+    (view) => preferencesMutation.mutateAsync({ id: view.id, preferences: { pinned: !view.pinned } }),
+    'Failed to update view settings'
+  );
+
+  const handleToggleDigest = () => runMenuAction(async (view) => {
+    await preferencesMutation.mutateAsync({ id: view.id, preferences: { digestSubscribed: !view.digestSubscribed } });
+    showSuccess(view.digestSubscribed ? 'Removed from your daily digest' : 'Added to your daily digest');
+  }, 'Failed to update view settings');
+
+  const handleToggleShared = () => runMenuAction(
+    (view) => updateMutation.mutateAsync({ id: view.id, data: { isShared: !view.isShared } }),
+    'Failed to update view'
+  );
+
+  const handleCopyLink = () => runMenuAction(async (view) => {
+    await navigator.clipboard.writeText(`${globalThis.location.origin}${getSavedViewHref(view)}`);
+    showSuccess('Link copied');
+  }, 'Failed to copy link');
+
+  const handleDelete = () => runMenuAction(async (view) => {
+    if (!globalThis.confirm(`Delete "${view.name}"? It will disappear for everyone it is shared with.`)) return;
+    await deleteMutation.mutateAsync(view.id);
+    showSuccess('View deleted');
+  }, 'Failed to delete view');
+
+  const menuView = menuState.view;
+
+  // Views belong to signed-in users; guests only browse
+  if (!session?.user) return <></>;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" alignItems="center">
+        <Typography variant="body2" color="text.secondary" fontWeight={600} sx={{ mr: 0.5 }}>
+          Views:
+        </Typography>
+        {views.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            Save the current filters to come back to them later.
+          </Typography>
+        )}
+        {views.map(view => (
+          <Chip
+            key={view.id}
+            icon={view.isShared ? <PeopleIcon fontSize="small" /> : undefined}
+            label={view.count === null ? view.name : `${view.name} · ${view.count}`}
+            color={view.id === activeViewId ? 'primary' : 'default'}
+            variant={view.id === activeViewId ? 'filled' : 'outlined'}
+            onClick={() => onApplyView(view)}
+            onDelete={(e) => handleOpenMenu(e, view)}
+            deleteIcon={<MoreVertIcon aria-label={`${view.name} options`} />}
+            title={view.isOwner ? undefined : `Shared by ${view.ownerName || 'another user'}`}
+          />
+        ))}
+        <Button size="small" startIcon={<BookmarkAddIcon />} onClick={handleOpenDialog}>
+          Save View
+        </Button>
+        {isModified && activeView && canEdit(activeView) && (
+          <Button size="small" startIcon={<SaveIcon />} onClick={handleUpdateActive} disabled={updateMutation.isPending}>
+            Update &quot;{activeView.name}&quot;
+          </Button>
+        )}
+      </Stack>
+
+      <Menu anchorEl={menuState.anchorEl} open={!!menuState.anchorEl} onClose={handleCloseMenu}>
+        <MenuItem onClick={handleTogglePinned}>
+          <ListItemIcon>{menuView?.pinned ? <PushPinIcon fontSize="small" /> : <PushPinOutlinedIcon fontSize="small" />}</ListItemIcon>
+          <ListItemText primary={menuView?.pinned ? 'Unpin from navigation' : 'Pin to navigation'} />
+        </MenuItem>
+        <MenuItem onClick={handleToggleDigest}>
+          <ListItemIcon><MailOutlineIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary={menuView?.digestSubscribed ? 'Remove from daily digest' : 'Add to daily digest'} />
+        </MenuItem>
+        <MenuItem onClick={handleCopyLink}>
+          <ListItemIcon><LinkIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Copy link" />
+        </MenuItem>
+        {menuView && canEdit(menuView) && (
+          <MenuItem onClick={handleToggleShared}>
+            <ListItemIcon><PeopleIcon fontSize="small" /></ListItemIcon>
+            <ListItemText primary={menuView.isShared ? 'Stop sharing' : 'Share with team'} />
+          </MenuItem>
+        )}
+        {menuView && canEdit(menuView) && (
+          <MenuItem onClick={handleDelete} sx={{ color: 'error.main' }}>
+            <ListItemIcon><DeleteIcon fontSize="small" color="error" /></ListItemIcon>
+            <ListItemText primary="Delete" />
+          </MenuItem>
+        )}
+      </Menu>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <form onSubmit={handleCreate}>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogContent>
+            <TextField
+              autoFocus
+              required
+              fullWidth
+              margin="dense"
+              label="Name"
+              placeholder="Unpaid WhatsApp orders due this week"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              slotProps={{ htmlInput: { maxLength: SAVED_VIEW_NAME_MAX_LENGTH } }}
+            />
+            <FormControlLabel
+              control={<Checkbox checked={isShared} onChange={(e) => setIsShared(e.target.checked)} />}
+              label="Share with the team"
+            />
+            <Typography variant="caption" color="text.secondary" component="p">
+              The current filters and sort order are saved. Date filters set as days from today move
+              with the calendar.
+            </Typography>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={!name.trim() || createMutation.isPending}>
+              Save
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, type ReactElement } from 'react';
+import { useRouter } from 'next/navigation';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import Link from '@mui/material/Link';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CancelIcon from '@mui/icons-material/Cancel';
+import UndoIcon from '@mui/icons-material/Undo';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import { useNotification } from '@/contexts/NotificationContext';
+import {
+  useWorkOrders,
+  useUpdateWorkOrder,
+  useGenerateWorkOrders,
+  type WorkOrderFilter,
+} from '@/hooks/queries/useManufacturingQueries';
+import { WORK_ORDER_STATUSES } from '@/constants/manufacturingConstants';
+import { formatDate } from '@/lib/utils/dateUtils';
+import type { WorkOrder, WorkOrderMaterial, WorkOrderStatus } from '@/types';
+
+const FILTERS: Array<{ value: WorkOrderFilter; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'all', label: 'All' },
+];
+
+function formatQuantity(quantity: number): string {
+  return Number(quantity.toFixed(3)).toLocaleString();
+}
+
+function MaterialChips({ materials }: Readonly<{ materials: WorkOrderMaterial[] }>): ReactElement {
+  if (materials.length === 0) {
+    return <Typography variant="caption" color="text.secondary">No bill of materials</Typography>;
+  }
+
+  return (
+    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+      {materials.map(material => {
+        const isShort = material.required > material.available;
+        return (
+          <Tooltip
+            key={material.materialId}
+            title={`${formatQuantity(material.available)} ${material.unit} in stock`}
+          >
+            <Chip
+              size="small"
+              variant="outlined"
+              color={isShort ? 'error' : 'default'}
+              label={`${material.name}: ${formatQuantity(material.required)} ${material.unit}`}
+            />
+          </Tooltip>
+        );
+      })}
+    </Stack>
+  );
+}
+
+/**
+ * Work orders for the order lines that have to be made
+ * Work orders are created when an order is confirmed; completing one takes
+ * its materials out of stock.
+ */
+function WorkOrders(): ReactElement {
+  const router = useRouter();
+  const { showSuccess, showError } = useNotification();
+  const [filter, setFilter] = useState<WorkOrderFilter>('open');
+  const { data: workOrders = [], isLoading, error, refetch, isFetching } = useWorkOrders(filter);
+  const updateMutation = useUpdateWorkOrder();
+  const generateMutation = useGenerateWorkOrders();
+
+  const handleStatusChange = async (workOrder: WorkOrder, status: WorkOrderStatus) => {
+    if (status === 'cancelled' && !globalThis.confirm(`Cancel the work order for ${workOrder.itemName} on ${workOrder.order.orderId}?`)) {
+      return;
+    }
+    try {
+      await updateMutation.mutateAsync({ id: workOrder.id, status });
+      showSuccess(status === 'completed' ? 'Work order completed, materials taken out of stock' : 'Work order updated');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update work order');
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const { created } = await generateMutation.mutateAsync();
+      showSuccess(created > 0 ? `Created ${created} work order${created === 1 ? '' : 's'}` : 'All confirmed orders already have work orders');
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to generate work orders');
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction={{ xs: 'column', sm: 'row' }} justifyContent="space-between" alignItems={{ sm: 'center' }} spacing={2} mb={3}>
+        <Box>
+          <Typography variant="h5" component="h1" fontWeight={600}>
+            Work Orders
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Items to make for confirmed orders
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Button
+            variant="outlined"
+            startIcon={<PlaylistAddIcon />}
+            onClick={handleGenerate}
+            disabled={generateMutation.isPending}
+          >
+            Generate missing
+          </Button>
+          <Tooltip title="Refresh">
+            <span>
+              <IconButton onClick={() => refetch()} disabled={isFetching} aria-label="Refresh work orders">
+                <RefreshIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+      </Stack>
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={filter}
+        onChange={(_e, value: WorkOrderFilter | null) => value && setFilter(value)}
+        sx={{ mb: 2 }}
+      >
+        {FILTERS.map(option => (
+          <ToggleButton key={option.value} value={option.value}>{option.label}</ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error.message}</Alert>}
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py={6}><CircularProgress /></Box>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Order</TableCell>
+                <TableCell>Item</TableCell>
+                <TableCell align="right">Qty</TableCell>
+                <TableCell>Due</TableCell>
+                <TableCell>Materials</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {workOrders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                    No work orders
+                  </TableCell>
+                </TableRow>
+              )}
+              {workOrders.map(workOrder => {
+                const status = WORK_ORDER_STATUSES.find(option => option.value === workOrder.status);
+                const isOpen = workOrder.status === 'planned' || workOrder.status === 'in_progress';
+                return (
+                  <TableRow key={workOrder.id} hover>
+                    <TableCell>
+                      <Link
+                        component="button"
+                        variant="body2"
+                        onClick={() => router.push(`/orders/history?orderId=${workOrder.order.id}`)}
+                      >
+                        {workOrder.order.orderId}
+                      </Link>
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {workOrder.order.customerName}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{workOrder.itemName}</Typography>
+                      {workOrder.designName && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          {workOrder.designName}
+                        </Typography>
+                      )}
+                      {workOrder.customizationRequest && (
+                        <Typography variant="caption" display="block" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                          {workOrder.customizationRequest}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{workOrder.quantity}</TableCell>
+                    <TableCell>
+                      {workOrder.order.expectedDeliveryDate ? formatDate(workOrder.order.expectedDeliveryDate, 'short') : '–'}
+                    </TableCell>
+                    <TableCell>
+                      {isOpen ? (
+                        <MaterialChips materials={workOrder.materials} />
+                      ) : (
+                        <Typography variant="caption" color="text.secondary">
+                          {workOrder.completedAt ? `Completed ${formatDate(workOrder.completedAt, 'short')}` : '–'}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="small" label={status?.label ?? workOrder.status} color={status?.color ?? 'default'} />
+                    </TableCell>
+                    <TableCell align="right">
+                      {isOpen && (
+                        <Stack direction="row" spacing={0.5} justifyContent="flex-end">
+                          {workOrder.status === 'planned' ? (
+                            <Tooltip title="Start">
+                              <IconButton
+                                size="small"
+                                aria-label="Start work order"
+                                onClick={() => handleStatusChange(workOrder, 'in_progress')}
+                                disabled={updateMutation.isPending}
+                              >
+                                <PlayArrowIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          ) : (
+                            <Tooltip title="Back to planned">
+                              <IconButton
+                                size="small"
+                                aria-label="Move work order back to planned"
+                                onClick={() => handleStatusChange(workOrder, 'planned')}
+                                disabled={updateMutation.isPending}
+                              >
+                                <UndoIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                          <Tooltip title="Complete">
+                            <IconButton
+                              size="small"
+                              color="success"
+                              aria-label="Complete work order"
+                              onClick={() => handleStatusChange(workOrder, 'completed')}
+                              disabled={updateMutation.isPending}
+                            >
+                              <CheckCircleIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Cancel">
+                            <IconButton
+                              size="small"
+                              color="error"
+                              aria-label="Cancel work order"
+                              onClick={() => handleStatusChange(workOrder, 'cancelled')}
+                              disabled={updateMutation.isPending}
+                            >
+                              <CancelIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </Stack>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
+
+export default WorkOrders;
@@ -0,0 +1,18 @@
+import type { ApiKeyScope } from '@/types';
+
+/**
+ * Scopes a personal API key can be granted, with what each one unlocks.
+ */
+export const API_KEY_SCOPES: Array<{ value: ApiKeyScope; description: string }> = [
+  { value: 'orders:read', description: 'List, view and export orders, invoices and packing slips' },
+  { value: 'orders:write', description: 'Create, update, import and delete orders, payments, notes and returns' },
+  { value: 'stock:write', description: 'View inventory, adjust or restock items and materials, manage suppliers and purchase orders, and run stock takes' },
+  { value: 'reports:read', description: 'Analytics and report exports' },
+];
+
+export const API_KEY_SCOPE_VALUES: ApiKeyScope[] = API_KEY_SCOPES.map((scope) => scope.value);
+
+/** Requests per minute a key gets unless its owner sets a lower or higher limit */
+export const API_KEY_DEFAULT_RATE_LIMIT = 60;
+
+export const API_KEY_MAX_RATE_LIMIT = 600;
@@ -0,0 +1,19 @@
+import type { CustomerContactChannel } from '@/types';
+
+export const CUSTOMER_CONTACT_CHANNELS: Array<{ value: CustomerContactChannel; label: string; placeholder: string }> = [
+  { value: 'phone', label: 'Phone', placeholder: '+91 98765 43210' },
+  { value: 'whatsapp', label: 'WhatsApp', placeholder: '+91 98765 43210' },
+  { value: 'instagram', label: 'Instagram', placeholder: '@handle' },
+  { value: 'facebook', label: 'Facebook', placeholder: 'Profile name or link' },
+  { value: 'email', label: 'Email', placeholder: 'name@example.com' },
+];
+
+/** Suggested address labels; any label up to the maximum length is allowed */
+export const CUSTOMER_ADDRESS_LABELS = ['Home', 'Office', 'Shop'];
+
+export const CUSTOMER_ADDRESS_FIELD_MAX_LENGTH = 200;
+export const CUSTOMER_CONTACT_VALUE_MAX_LENGTH = 200;
+export const CUSTOMER_CONTACT_LABEL_MAX_LENGTH = 50;
+
+/** Indian PIN codes: six digits, not starting with 0 */
+export const PIN_CODE_PATTERN = /^[1-9]\d{5}$/;
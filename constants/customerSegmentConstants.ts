@@ -0,0 +1,79 @@
+import type { CustomerLifecycleStage, CustomerSegmentField, CustomerSegmentOperator, CustomerSource } from '@/types';
+import { ORDER_SOURCES } from './orderConstants';
+import { INDIAN_STATES } from './gstConstants';
+
+/** A customer whose first order is this recent is new */
+export const RFM_NEW_CUSTOMER_DAYS = 30;
+/** No order for this long makes a customer at risk */
+export const RFM_AT_RISK_DAYS = 90;
+/** No order for this long makes a customer lost */
+export const RFM_LOST_DAYS = 180;
+/** Loyal customers have at least this many orders and this frequency score */
+export const RFM_LOYAL_MIN_ORDERS = 3;
+export const RFM_LOYAL_MIN_FREQUENCY_SCORE = 4;
+
+export const CUSTOMER_LIFECYCLE_STAGES: Array<{
+  value: CustomerLifecycleStage;
+  label: string;
+  color: 'default' | 'info' | 'success' | 'warning' | 'error';
+  description: string;
+}> = [
+  { value: 'new', label: 'New', color: 'info', description: `First order in the last ${RFM_NEW_CUSTOMER_DAYS} days` },
+  { value: 'active', label: 'Active', color: 'default', description: `Ordered in the last ${RFM_AT_RISK_DAYS} days` },
+  {
+    value: 'loyal',
+    label: 'Loyal',
+    color: 'success',
+    description: `Active, with ${RFM_LOYAL_MIN_ORDERS}+ orders and a frequency score of ${RFM_LOYAL_MIN_FREQUENCY_SCORE}+`,
+  },
+  { value: 'at_risk', label: 'At risk', color: 'warning', description: `No order for ${RFM_AT_RISK_DAYS}-${RFM_LOST_DAYS} days` },
+  { value: 'lost', label: 'Lost', color: 'error', description: `No order for over ${RFM_LOST_DAYS} days` },
+];
+
+export const CUSTOMER_SOURCES: Array<{ value: CustomerSource; label: string }> = [
+  { value: 'walk-in', label: 'Walk-in' },
+  { value: 'online', label: 'Online' },
+  { value: 'referral', label: 'Referral' },
+  { value: 'other', label: 'Other' },
+];
+
+/**
+ * Fields a segment rule can test. Number fields compare against one value; list fields
+ * match any or none of several (category IDs for 'category', any state name for 'state').
+ */
+export const CUSTOMER_SEGMENT_FIELDS: Array<{
+  value: CustomerSegmentField;
+  label: string;
+  kind: 'number' | 'list';
+  options?: Array<{ value: string; label: string }>;
+}> = [
+  { value: 'totalOrders', label: 'Total orders', kind: 'number' },
+  { value: 'totalSpent', label: 'Total spent', kind: 'number' },
+  { value: 'daysSinceLastOrder', label: 'Days since last order', kind: 'number' },
+  { value: 'daysSinceFirstOrder', label: 'Days since first order', kind: 'number' },
+  { value: 'recencyScore', label: 'Recency score (1-5)', kind: 'number' },
+  { value: 'frequencyScore', label: 'Frequency score (1-5)', kind: 'number' },
+  { value: 'monetaryScore', label: 'Monetary score (1-5)', kind: 'number' },
+  { value: 'lifecycleStage', label: 'Lifecycle stage', kind: 'list', options: CUSTOMER_LIFECYCLE_STAGES },
+  { value: 'source', label: 'Customer source', kind: 'list', options: CUSTOMER_SOURCES },
+  { value: 'state', label: 'State', kind: 'list', options: INDIAN_STATES.map(state => ({ value: state, label: state })) },
+  { value: 'orderSource', label: 'Ordered via', kind: 'list', options: ORDER_SOURCES },
+  { value: 'category', label: 'Bought from category', kind: 'list' },
+];
+
+export const CUSTOMER_SEGMENT_NUMBER_OPERATORS: CustomerSegmentOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'];
+export const CUSTOMER_SEGMENT_LIST_OPERATORS: CustomerSegmentOperator[] = ['in', 'not_in'];
+
+export const CUSTOMER_SEGMENT_OPERATOR_LABELS: Record<CustomerSegmentOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  in: 'is any of',
+  not_in: 'is none of',
+};
+
+export const CUSTOMER_SEGMENT_NAME_MAX_LENGTH = 100;
+export const CUSTOMER_SEGMENT_MAX_RULES = 20;
@@ -0,0 +1,42 @@
+import type { LoyaltyBalanceKind, LoyaltyEntryType, LoyaltySettings } from '@/types';
+
+/** Settings used until an admin saves their own; loyalty starts switched off */
+export const DEFAULT_LOYALTY_SETTINGS: Omit<LoyaltySettings, 'updatedAt'> = {
+  enabled: false,
+  pointsPerHundred: 1,
+  pointValue: 1,
+  minRedeemPoints: 100,
+  maxRedeemPercent: 50,
+  pointsExpiryDays: 365,
+  isDefault: true,
+};
+
+/** Points expiring within this many days are called out on the customer */
+export const LOYALTY_EXPIRY_WARNING_DAYS = 30;
+
+/** Largest points earn rate, point value and expiry the settings accept */
+export const LOYALTY_MAX_POINTS_PER_HUNDRED = 100;
+export const LOYALTY_MAX_POINT_VALUE = 100;
+export const LOYALTY_MAX_EXPIRY_DAYS = 3650;
+
+/** Largest manual adjustment, in points or rupees */
+export const LOYALTY_MAX_ADJUSTMENT = 1_000_000;
+
+/** Ledger entries shown with a customer */
+export const LOYALTY_HISTORY_LIMIT = 100;
+
+export const LOYALTY_BALANCE_KINDS: Array<{ value: LoyaltyBalanceKind; label: string }> = [
+  { value: 'points', label: 'Points' },
+  { value: 'store_credit', label: 'Store credit' },
+];
+
+export const LOYALTY_ENTRY_TYPES: Array<{ value: LoyaltyEntryType; label: string }> = [
+  { value: 'earn', label: 'Earned' },
+  { value: 'reverse', label: 'Reversed' },
+  { value: 'redeem', label: 'Redeemed' },
+  { value: 'spend', label: 'Spent' },
+  { value: 'restore', label: 'Given back' },
+  { value: 'refund', label: 'Refund' },
+  { value: 'expire', label: 'Expired' },
+  { value: 'adjust', label: 'Adjustment' },
+];
@@ -0,0 +1,18 @@
+import type { WorkOrderStatus } from '@/types';
+
+/** Units materials can be stocked in; BOM quantities use the material's unit */
+export const MATERIAL_UNITS: Array<{ value: string; label: string }> = [
+  { value: 'meter', label: 'Meters' },
+  { value: 'piece', label: 'Pieces' },
+  { value: 'spool', label: 'Spools' },
+  { value: 'gram', label: 'Grams' },
+  { value: 'roll', label: 'Rolls' },
+  { value: 'pack', label: 'Packs' },
+];
+
+export const WORK_ORDER_STATUSES: Array<{ value: WorkOrderStatus; label: string; color: 'default' | 'info' | 'success' | 'error' }> = [
+  { value: 'planned', label: 'Planned', color: 'default' },
+  { value: 'in_progress', label: 'In Progress', color: 'info' },
+  { value: 'completed', label: 'Completed', color: 'success' },
+  { value: 'cancelled', label: 'Cancelled', color: 'error' },
+];
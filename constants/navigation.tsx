@@ -1,12 +1,19 @@
 import type { ReactElement } from 'react';
 import AddShoppingCartIcon from '@mui/icons-material/AddShoppingCart';
 import HistoryIcon from '@mui/icons-material/History';
+import ViewKanbanIcon from '@mui/icons-material/ViewKanban';
+import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
+import PrecisionManufacturingIcon from '@mui/icons-material/PrecisionManufacturing';
 import InventoryIcon from '@mui/icons-material/Inventory';
 import AddCircleIcon from '@mui/icons-material/AddCircle';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import CategoryIcon from '@mui/icons-material/Category';
+import LocalShippingIcon from '@mui/icons-material/LocalShipping';
+import FactCheckIcon from '@mui/icons-material/FactCheck';
 import AssessmentIcon from '@mui/icons-material/Assessment';
 import FeedbackIcon from '@mui/icons-material/Feedback';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import VpnKeyIcon from '@mui/icons-material/VpnKey';
 
 export interface NavigationRoute {
   id: string
@@ -35,11 +42,17 @@ export const NAVIGATION_ROUTES = {
   // Orders
   CREATE_ORDER: 'create-order',
   ORDER_HISTORY: 'order-history',
+  PRODUCTION_BOARD: 'production-board',
+  PRODUCTION_CALENDAR: 'production-calendar',
+  WORK_ORDERS: 'work-orders',
   
   // Items
   BROWSE_ITEMS: 'browse-items',
   CREATE_ITEM: 'create-item',
   MANAGE_DELETED_ITEMS: 'manage-deleted-items',
+  MATERIALS: 'materials',
+  PURCHASING: 'purchasing',
+  STOCK_TAKES: 'stock-takes',
   
   // Analytics
   SALES_REPORT: 'sales-report',
@@ -47,6 +60,9 @@ export const NAVIGATION_ROUTES = {
   
   // Admin
   ADMIN_PANEL: 'admin-panel',
+
+  // Account
+  API_KEYS: 'api-keys',
 } as const
 
 export const NAVIGATION_GROUPS: NavigationGroup[] = [
@@ -66,6 +82,24 @@ export const NAVIGATION_GROUPS: NavigationGroup[] = [
         icon: <HistoryIcon />,
         group: 'orders',
       },
+      {
+        id: NAVIGATION_ROUTES.PRODUCTION_BOARD,
+        label: 'Production Board',
+        icon: <ViewKanbanIcon />,
+        group: 'orders',
+      },
+      {
+        id: NAVIGATION_ROUTES.PRODUCTION_CALENDAR,
+        label: 'Production Calendar',
+        icon: <CalendarMonthIcon />,
+        group: 'orders',
+      },
+      {
+        id: NAVIGATION_ROUTES.WORK_ORDERS,
+        label: 'Work Orders',
+        icon: <PrecisionManufacturingIcon />,
+        group: 'orders',
+      },
     ],
   },
   {
@@ -90,6 +124,24 @@ export const NAVIGATION_GROUPS: NavigationGroup[] = [
         icon: <DeleteOutlineIcon />,
         group: 'items',
       },
+      {
+        id: NAVIGATION_ROUTES.MATERIALS,
+        label: 'Materials',
+        icon: <CategoryIcon />,
+        group: 'items',
+      },
+      {
+        id: NAVIGATION_ROUTES.PURCHASING,
+        label: 'Purchasing',
+        icon: <LocalShippingIcon />,
+        group: 'items',
+      },
+      {
+        id: NAVIGATION_ROUTES.STOCK_TAKES,
+        label: 'Stock Takes',
+        icon: <FactCheckIcon />,
+        group: 'items',
+      },
     ],
   },
   {
@@ -122,4 +174,16 @@ export const NAVIGATION_GROUPS: NavigationGroup[] = [
       },
     ],
   },
+  {
+    id: 'account',
+    label: 'Account',
+    routes: [
+      {
+        id: NAVIGATION_ROUTES.API_KEYS,
+        label: 'API Keys',
+        icon: <VpnKeyIcon />,
+        group: 'account',
+      },
+    ],
+  },
 ]
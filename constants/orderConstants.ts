@@ -1,4 +1,4 @@
-import type { OrderSource, OrderStatus, PaymentStatus, ConfirmationStatus, DeliveryStatus } from '../types';
+import type { OrderSource, OrderStatus, PaymentStatus, PaymentMethod, ConfirmationStatus, DeliveryStatus } from '../types';
 
 interface StatusOption<T extends string> {
   value: T;
@@ -33,6 +33,15 @@ export const PAYMENT_STATUSES: StatusOption<PaymentStatus>[] = [
   { value: 'refunded', label: 'Refunded' },
 ];
 
+export const PAYMENT_METHODS: StatusOption<PaymentMethod>[] = [
+  { value: 'upi', label: 'UPI' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'card', label: 'Card' },
+  { value: 'store_credit', label: 'Store Credit' },
+  { value: 'other', label: 'Other' },
+];
+
 export const CONFIRMATION_STATUSES: StatusOption<ConfirmationStatus>[] = [
   { value: 'unconfirmed', label: 'Unconfirmed' },
   { value: 'pending_confirmation', label: 'Pending Confirmation' },
@@ -68,6 +77,9 @@ const findLabel = <T extends string | number>(
 export const getPaymentStatusLabel = (status: string): string => 
   findLabel(PAYMENT_STATUSES, status as PaymentStatus, 'Unpaid');
 
+export const getPaymentMethodLabel = (method: string): string => 
+  findLabel(PAYMENT_METHODS, method as PaymentMethod, 'Other');
+
 export const getConfirmationStatusLabel = (status: string): string => 
   findLabel(CONFIRMATION_STATUSES, status as ConfirmationStatus, 'Unconfirmed');
 
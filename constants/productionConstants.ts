@@ -0,0 +1,23 @@
+import type { ProductionCapacitySettings, ProductionCapacityUnit } from '@/types';
+
+export const PRODUCTION_CAPACITY_UNITS: Array<{ value: ProductionCapacityUnit; label: string }> = [
+  { value: 'orders', label: 'Orders per day' },
+  { value: 'units', label: 'Units per day' },
+];
+
+/** Weekday names in the order of weekdayCapacity, Monday first */
+export const PRODUCTION_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'] as const;
+
+/** Capacity used until an admin sets the workshop's own: five orders a day, Sundays off */
+export const DEFAULT_PRODUCTION_CAPACITY: Omit<ProductionCapacitySettings, 'updatedAt'> = {
+  unit: 'orders',
+  weekdayCapacity: [5, 5, 5, 5, 5, 5, 0],
+  minLeadDays: 7,
+  isDefault: true,
+};
+
+/** Longest range the production calendar loads at once (a month view with its leading and trailing weeks) */
+export const PRODUCTION_CALENDAR_MAX_DAYS = 42;
+
+/** How far ahead the delivery date suggestion looks for a free day */
+export const DELIVERY_SUGGESTION_HORIZON_DAYS = 90;
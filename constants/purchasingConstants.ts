@@ -0,0 +1,9 @@
+import type { PurchaseOrderStatus } from '@/types';
+
+export const PURCHASE_ORDER_STATUSES: Array<{ value: PurchaseOrderStatus; label: string; color: 'default' | 'info' | 'warning' | 'success' | 'error' }> = [
+  { value: 'draft', label: 'Draft', color: 'default' },
+  { value: 'ordered', label: 'Ordered', color: 'info' },
+  { value: 'partially_received', label: 'Partially Received', color: 'warning' },
+  { value: 'received', label: 'Received', color: 'success' },
+  { value: 'cancelled', label: 'Cancelled', color: 'error' },
+];
@@ -0,0 +1,27 @@
+import type { ReplenishmentSettings, ReplenishmentStatus } from '@/types';
+
+/** Settings used until an admin saves their own */
+export const DEFAULT_REPLENISHMENT_SETTINGS: Omit<ReplenishmentSettings, 'updatedAt'> = {
+  shortWindowDays: 30,
+  longWindowDays: 90,
+  safetyStockDays: 7,
+  targetCoverDays: 30,
+  defaultLeadTimeDays: 14,
+  autoUpdateThresholds: false,
+  includeInDigest: false,
+  isDefault: true,
+};
+
+/** Longest sales window or day count the settings accept */
+export const REPLENISHMENT_MAX_DAYS = 365;
+
+export const REPLENISHMENT_STATUSES: Array<{
+  value: ReplenishmentStatus;
+  label: string;
+  color: 'error' | 'warning' | 'success' | 'default';
+}> = [
+  { value: 'reorder_now', label: 'Reorder now', color: 'error' },
+  { value: 'reorder_soon', label: 'Reorder soon', color: 'warning' },
+  { value: 'ok', label: 'OK', color: 'success' },
+  { value: 'no_demand', label: 'No sales', color: 'default' },
+];
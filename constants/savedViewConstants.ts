@@ -0,0 +1,47 @@
+import type { SavedOrderViewSortKey } from '@/types';
+
+/** Query parameters a saved view may hold; the same names GET /api/orders accepts */
+export const SAVED_VIEW_QUERY_PARAMS = [
+  'q',
+  'customerId',
+  'orderFrom',
+  'status',
+  'confirmationStatus',
+  'paymentStatus',
+  'deliveryStatus',
+  'createdFrom',
+  'createdTo',
+  'deliveryFrom',
+  'deliveryTo',
+  'updatedFrom',
+  'updatedTo',
+  'itemId',
+  'categoryId',
+  'tagId',
+] as const;
+
+/** Columns a view can be sorted by in order history */
+export const SAVED_VIEW_SORT_KEYS: SavedOrderViewSortKey[] = [
+  'createdAt',
+  'orderId',
+  'customerName',
+  'orderFrom',
+  'confirmationStatus',
+  'status',
+  'paymentStatus',
+  'deliveryStatus',
+  'totalPrice',
+  'expectedDeliveryDate',
+];
+
+export const SAVED_VIEW_NAME_MAX_LENGTH = 100;
+
+/** Order history URL parameters for the open view and its sort order */
+export const SAVED_VIEW_URL_PARAMS = {
+  VIEW: 'view',
+  SORT: 'sort',
+  DIRECTION: 'dir',
+} as const;
+
+/** How often the live counts on saved views refresh */
+export const SAVED_VIEW_COUNT_REFRESH_MS = 60 * 1000;
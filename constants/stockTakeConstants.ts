@@ -0,0 +1,7 @@
+import type { StockTakeStatus } from '@/types';
+
+export const STOCK_TAKE_STATUSES: Array<{ value: StockTakeStatus; label: string; color: 'default' | 'info' | 'success' | 'error' }> = [
+  { value: 'counting', label: 'Counting', color: 'info' },
+  { value: 'approved', label: 'Approved', color: 'success' },
+  { value: 'cancelled', label: 'Cancelled', color: 'error' },
+];
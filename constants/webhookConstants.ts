@@ -0,0 +1,14 @@
+import type { WebhookEventType } from '@/types';
+
+/**
+ * Events an outbound webhook can subscribe to, with what triggers each one.
+ */
+export const WEBHOOK_EVENTS: Array<{ value: WebhookEventType; description: string }> = [
+  { value: 'order.created', description: 'A new order is placed or imported' },
+  { value: 'order.status_changed', description: 'Order, payment, delivery or confirmation status changes' },
+  { value: 'stock.low', description: 'A tracked item or design drops to its low stock threshold' },
+  { value: 'feedback.submitted', description: 'A customer leaves feedback' },
+  { value: 'customer.created', description: 'A customer is added' },
+];
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = WEBHOOK_EVENTS.map((event) => event.value);
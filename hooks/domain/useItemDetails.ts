@@ -13,6 +13,8 @@ export interface ItemEditForm {
   color: string;
   fabric: string;
   specialFeatures: string;
+  hsnCode: string;
+  taxRate: string;
   removeImage: boolean;
 }
 
@@ -25,6 +27,8 @@ const createEditFormFromItem = (item: Item): ItemEditForm => ({
   color: item.color || '',
   fabric: item.fabric || '',
   specialFeatures: item.specialFeatures || '',
+  hsnCode: item.hsnCode || '',
+  taxRate: item.taxRate === null || item.taxRate === undefined ? '' : String(item.taxRate),
   removeImage: false,
 });
 
@@ -32,6 +36,7 @@ interface ValidationResult {
   valid: boolean;
   error?: string;
   parsedPrice?: number;
+  parsedTaxRate?: number | null;
 }
 
 /**
@@ -47,7 +52,16 @@ const validateFormData = (editForm: ItemEditForm): ValidationResult => {
     return { valid: false, error: 'Price must be a valid non-negative number' };
   }
 
-  return { valid: true, parsedPrice };
+  if (editForm.hsnCode.trim() && !/^\d{4,8}$/.test(editForm.hsnCode.trim())) {
+    return { valid: false, error: 'HSN code must be 4 to 8 digits' };
+  }
+
+  const parsedTaxRate = editForm.taxRate === '' ? null : Number.parseFloat(editForm.taxRate);
+  if (parsedTaxRate !== null && (Number.isNaN(parsedTaxRate) || parsedTaxRate < 0 || parsedTaxRate > 100)) {
+    return { valid: false, error: 'GST rate must be between 0 and 100' };
+  }
+
+  return { valid: true, parsedPrice, parsedTaxRate };
 };
 
 interface UseItemDetailsResult {
@@ -87,6 +101,8 @@ export const useItemDetails = (
     color: '',
     fabric: '',
     specialFeatures: '',
+    hsnCode: '',
+    taxRate: '',
     removeImage: false,
   });
 
@@ -141,6 +157,8 @@ export const useItemDetails = (
         color: editForm.color.trim(),
         fabric: editForm.fabric.trim(),
         specialFeatures: editForm.specialFeatures.trim(),
+        hsnCode: editForm.hsnCode.trim(),
+        taxRate: validation.parsedTaxRate ?? null,
       };
 
       // Handle image changes
@@ -29,34 +29,18 @@ const createEditFormFromOrder = (data: Order): OrderEditForm => ({
 interface ValidationResult {
   valid: boolean;
   error?: string;
-  parsedPaidAmount?: number;
 }
 
 /**
  * Validates order form data
+ * Paid amount is not edited here; it comes from the order's recorded payments.
  */
-const validateFormData = (editForm: OrderEditForm, totalPrice: number): ValidationResult => {
+const validateFormData = (editForm: OrderEditForm): ValidationResult => {
   if (!editForm.customerName.trim() || !editForm.customerId.trim()) {
     return { valid: false, error: 'Customer name and ID are required' };
   }
 
-  const parsedPaidAmount = Number.parseFloat(String(editForm.paidAmount));
-  if (Number.isNaN(parsedPaidAmount) || parsedPaidAmount < 0) {
-    return { valid: false, error: 'Paid amount must be a valid non-negative number' };
-  }
-
-  if (parsedPaidAmount > totalPrice) {
-    return { valid: false, error: 'Paid amount cannot exceed total price' };
-  }
-
-  if (
-    editForm.paymentStatus === 'partially_paid' &&
-    (parsedPaidAmount <= 0 || parsedPaidAmount >= totalPrice)
-  ) {
-    return { valid: false, error: 'For partially paid orders, paid amount must be greater than 0 and less than total price' };
-  }
-
-  return { valid: true, parsedPaidAmount };
+  return { valid: true };
 };
 
 interface UseOrderDetailsResult {
@@ -71,6 +55,7 @@ interface UseOrderDetailsResult {
   handleSave: () => Promise<void>;
   handleCancelEdit: () => void;
   startEditing: () => void;
+  refreshOrder: () => Promise<void>;
 }
 
 /**
@@ -127,6 +112,20 @@ export const useOrderDetails = (
     }
   }, [orderId, fetchOrder]);
 
+  /**
+   * Reload the order in place, e.g. after a payment changed its paid amount
+   */
+  const refreshOrder = useCallback(async (): Promise<void> => {
+    try {
+      const parsedId = typeof orderId === 'string' ? parseInt(orderId, 10) : orderId;
+      const data = await getOrder(parsedId as OrderId);
+      setOrder(data);
+      setEditForm(prev => ({ ...prev, paymentStatus: data.paymentStatus, paidAmount: data.paidAmount }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh order details');
+    }
+  }, [orderId]);
+
   const handleEditChange = (field: keyof OrderEditForm, value: string | number): void => {
     setEditForm(prev => ({ ...prev, [field]: value }));
   };
@@ -134,7 +133,7 @@ export const useOrderDetails = (
   const handleSave = async (): Promise<void> => {
     if (!order) return;
     
-    const validation = validateFormData(editForm, order.totalPrice);
+    const validation = validateFormData(editForm);
     if (!validation.valid) {
       setError(validation.error ?? 'Validation failed');
       return;
@@ -152,7 +151,6 @@ export const useOrderDetails = (
         orderDate: editForm.orderDate || undefined,
         expectedDeliveryDate: editForm.expectedDeliveryDate || undefined,
         paymentStatus: editForm.paymentStatus as PaymentStatus,
-        paidAmount: validation.parsedPaidAmount,
         confirmationStatus: editForm.confirmationStatus as ConfirmationStatus,
         customerNotes: editForm.customerNotes,
         priority: Number.parseInt(String(editForm.priority), 10),
@@ -201,5 +199,6 @@ export const useOrderDetails = (
     handleSave,
     handleCancelEdit,
     startEditing,
+    refreshOrder,
   };
 };
@@ -1,225 +1,232 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import type { Order, OrderSource, ConfirmationStatus, PaymentStatus } from '@/types';
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useUrlSync } from '@/hooks/utils/useUrlSync';
+import {
+  SAVED_VIEW_QUERY_PARAMS,
+  SAVED_VIEW_SORT_KEYS,
+  SAVED_VIEW_URL_PARAMS,
+} from '@/constants/savedViewConstants';
+import type {
+  OrderSearchFilters,
+  OrderSearchSort,
+  SavedOrderView,
+  SavedOrderViewQuery,
+  SavedOrderViewSortKey,
+} from '@/types';
 
-interface OrderFilters {
-  customerName: string;
+/**
+ * Filter form state; every field is a string as it appears in the URL
+ * Status fields hold comma-separated values, dates may be relative (today-5).
+ */
+export interface OrderFilters {
+  q: string;
   customerId: string;
-  orderFrom: OrderSource | '';
-  orderId: string;
-  confirmationStatus: ConfirmationStatus | '';
-  paymentStatus: PaymentStatus | '';
+  orderFrom: string;
+  status: string;
+  confirmationStatus: string;
+  paymentStatus: string;
+  deliveryStatus: string;
+  createdFrom: string;
+  createdTo: string;
+  deliveryFrom: string;
+  deliveryTo: string;
+  updatedFrom: string;
+  updatedTo: string;
+  categoryId: string;
+  tagId: string;
 }
 
-interface SortConfig {
-  key: keyof Order;
-  direction: 'asc' | 'desc';
-}
+/** Sort order of the orders list; the server sorts, so it matches GET /api/orders */
+export type SortConfig = OrderSearchSort;
+
+/** Typing in the text filters waits this long before searching */
+const TEXT_FILTER_DEBOUNCE_MS = 300;
+
+const DEFAULT_SORT: SortConfig = { key: 'createdAt', direction: 'desc' };
 
 /**
  * Creates an empty filter object with default values
  */
 const createEmptyFilters = (): OrderFilters => ({
-  customerName: '',
+  q: '',
   customerId: '',
   orderFrom: '',
-  orderId: '',
+  status: '',
   confirmationStatus: '',
-  paymentStatus: ''
+  paymentStatus: '',
+  deliveryStatus: '',
+  createdFrom: '',
+  createdTo: '',
+  deliveryFrom: '',
+  deliveryTo: '',
+  updatedFrom: '',
+  updatedTo: '',
+  categoryId: '',
+  tagId: ''
 });
 
 /**
- * Checks if a text field matches a filter
- */
-const matchesTextFilter = (value: string | undefined | null, filter: string): boolean => {
-  return (value ?? '').toLowerCase().includes((filter ?? '').toLowerCase());
-};
-
-/**
- * Checks if an exact field matches a filter
- */
-const matchesExactFilter = (value: string | undefined | null, filter: string): boolean => {
-  return !filter || value === filter;
-};
-
-/**
- * Checks if an order matches the given filter criteria
- */
-const orderMatchesFilters = (order: Order, filters: OrderFilters): boolean => {
-  if (!filters) return true;
-  
-  return matchesTextFilter(order.customerName, filters.customerName) &&
-         matchesTextFilter(order.customerId, filters.customerId) &&
-         matchesTextFilter(order.orderId, filters.orderId) &&
-         matchesExactFilter(order.orderFrom, filters.orderFrom) &&
-         matchesExactFilter(order.confirmationStatus, filters.confirmationStatus) &&
-         matchesExactFilter(order.paymentStatus, filters.paymentStatus);
-};
-
-interface NormalizedValues {
-  a: number | string | Date;
-  b: number | string | Date;
-  earlyReturn?: number;
-}
-
-/**
- * Handles null value comparison for date sorting
- */
-const handleNullDateComparison = (
-  aValue: string | null | undefined, 
-  bValue: string | null | undefined, 
-  sortDirection: 'asc' | 'desc'
-): number | null => {
-  if (!aValue && !bValue) return 0;
-  if (!aValue) return sortDirection === 'asc' ? 1 : -1;
-  if (!bValue) return sortDirection === 'asc' ? -1 : 1;
-  return null;
-};
-
-/**
- * Normalizes price values for comparison
+ * Reads filters from URL or saved view parameters, ignoring unknown ones
  */
-const normalizePriceValues = (
-  aValue: number | string | undefined | null, 
-  bValue: number | string | undefined | null, 
-  sortDirection: 'asc' | 'desc'
-): NormalizedValues => {
-  const a = Number.parseFloat(String(aValue ?? 0));
-  const b = Number.parseFloat(String(bValue ?? 0));
-  
-  if (Number.isNaN(a) && Number.isNaN(b)) return { a: 0, b: 0 };
-  if (Number.isNaN(a)) return { a: 0, b: 0, earlyReturn: sortDirection === 'asc' ? 1 : -1 };
-  if (Number.isNaN(b)) return { a: 0, b: 0, earlyReturn: sortDirection === 'asc' ? -1 : 1 };
-  
-  return { a, b };
+const filtersFromQuery = (query: URLSearchParams | SavedOrderViewQuery): OrderFilters => {
+  const get = (key: string) => (query instanceof URLSearchParams ? query.get(key) : query[key]) ?? '';
+  const filters = createEmptyFilters();
+  for (const key of Object.keys(filters) as Array<keyof OrderFilters>) {
+    filters[key] = get(key);
+  }
+  return filters;
 };
 
 /**
- * Normalizes date values for comparison
+ * Converts the form state into saved view / URL parameters, dropping empty fields
  */
-const normalizeDateValues = (
-  aValue: string | null | undefined, 
-  bValue: string | null | undefined, 
-  sortDirection: 'asc' | 'desc'
-): NormalizedValues => {
-  const nullResult = handleNullDateComparison(aValue, bValue, sortDirection);
-  if (nullResult !== null) return { a: 0, b: 0, earlyReturn: nullResult };
-  return { a: new Date(aValue!), b: new Date(bValue!) };
+const toViewQuery = (filters: OrderFilters): SavedOrderViewQuery => {
+  const query: SavedOrderViewQuery = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) query[key] = value.trim();
+  }
+  return query;
 };
 
-/**
- * Normalizes string values for comparison
- */
-const normalizeStringValues = (
-  aValue: unknown, 
-  bValue: unknown
-): NormalizedValues => {
-  return { 
-    a: String(aValue ?? '').toLowerCase(), 
-    b: String(bValue ?? '').toLowerCase() 
-  };
+const sortFromParams = (params: URLSearchParams): SortConfig => {
+  const key = params.get(SAVED_VIEW_URL_PARAMS.SORT) as SavedOrderViewSortKey | null;
+  const direction = params.get(SAVED_VIEW_URL_PARAMS.DIRECTION);
+  if (!key || !SAVED_VIEW_SORT_KEYS.includes(key)) return DEFAULT_SORT;
+  return { key, direction: direction === 'asc' ? 'asc' : 'desc' };
 };
 
-/**
- * Normalizes values based on sort key type
- */
-const normalizeComparisonValues = (
-  aValue: unknown, 
-  bValue: unknown, 
-  sortKey: keyof Order, 
-  sortDirection: 'asc' | 'desc'
-): NormalizedValues => {
-  if (sortKey === 'totalPrice') {
-    return normalizePriceValues(aValue as number, bValue as number, sortDirection);
-  }
-  
-  if (sortKey === 'createdAt' || sortKey === 'expectedDeliveryDate') {
-    return normalizeDateValues(aValue as string | null, bValue as string | null, sortDirection);
-  }
-  
-  return normalizeStringValues(aValue, bValue);
-};
+const splitValues = <T extends string>(value: string): T[] =>
+  value.split(',').map(part => part.trim()).filter(Boolean) as T[];
 
 /**
- * Compares two order values for sorting
+ * Converts the form state into the filters sent to GET /api/orders
  */
-const compareOrderValues = (
-  aValue: unknown, 
-  bValue: unknown, 
-  sortKey: keyof Order, 
-  sortDirection: 'asc' | 'desc'
-): number => {
-  const normalized = normalizeComparisonValues(aValue, bValue, sortKey, sortDirection);
-  if (normalized.earlyReturn !== undefined) return normalized.earlyReturn;
-
-  const { a, b } = normalized;
-  if (a < b) return sortDirection === 'asc' ? -1 : 1;
-  if (a > b) return sortDirection === 'asc' ? 1 : -1;
-  return 0;
+const toSearchFilters = (filters: OrderFilters, q: string, customerId: string): OrderSearchFilters => {
+  const search: OrderSearchFilters = {};
+  if (q.trim()) search.q = q.trim();
+  if (customerId.trim()) search.customerId = customerId.trim();
+  if (filters.orderFrom) search.orderFrom = splitValues(filters.orderFrom);
+  if (filters.status) search.status = splitValues(filters.status);
+  if (filters.confirmationStatus) search.confirmationStatus = splitValues(filters.confirmationStatus);
+  if (filters.paymentStatus) search.paymentStatus = splitValues(filters.paymentStatus);
+  if (filters.deliveryStatus) search.deliveryStatus = splitValues(filters.deliveryStatus);
+  if (filters.createdFrom) search.createdFrom = filters.createdFrom;
+  if (filters.createdTo) search.createdTo = filters.createdTo;
+  if (filters.deliveryFrom) search.deliveryFrom = filters.deliveryFrom;
+  if (filters.deliveryTo) search.deliveryTo = filters.deliveryTo;
+  if (filters.updatedFrom) search.updatedFrom = filters.updatedFrom;
+  if (filters.updatedTo) search.updatedTo = filters.updatedTo;
+  if (filters.categoryId) search.categoryId = Number(filters.categoryId);
+  if (filters.tagId) search.tagId = Number(filters.tagId);
+  return search;
 };
 
 interface UseOrderFiltersResult {
   filters: OrderFilters;
+  /** Filters to send to the server; text filters are debounced */
+  searchFilters: OrderSearchFilters;
+  hasActiveFilters: boolean;
   sortConfig: SortConfig;
-  filteredOrders: Order[];
-  sortedOrders: Order[];
+  /** Saved view the filters came from, if any */
+  activeViewId: number | null;
+  /** Current filters as saved view parameters */
+  viewQuery: SavedOrderViewQuery;
   handleFilterChange: (field: keyof OrderFilters, value: string) => void;
   handleClearFilters: () => void;
-  handleSort: (key: keyof Order) => void;
+  handleSort: (key: SavedOrderViewSortKey) => void;
+  applyView: (view: SavedOrderView) => void;
 }
 
 /**
- * Custom hook for managing order filtering and sorting
+ * Custom hook for managing order filters and sorting
+ * Filters and sorting are applied by the server (pass searchFilters and
+ * sortConfig to useOrderPagination). Filters, sort order and the open saved
+ * view are kept in the URL, so reloading or sharing the link restores them.
  */
-export const useOrderFilters = (orders: Order[]): UseOrderFiltersResult => {
-  const [filters, setFilters] = useState<OrderFilters>(createEmptyFilters());
-  const [sortConfig, setSortConfig] = useState<SortConfig>({
-    key: 'createdAt',
-    direction: 'desc'
+export const useOrderFilters = (): UseOrderFiltersResult => {
+  const { searchParams, updateUrl } = useUrlSync();
+  const [filters, setFilters] = useState<OrderFilters>(() => filtersFromQuery(searchParams));
+  const [debouncedText, setDebouncedText] = useState(() => ({ q: filters.q, customerId: filters.customerId }));
+  const [sortConfig, setSortConfig] = useState<SortConfig>(() => sortFromParams(searchParams));
+  const [activeViewId, setActiveViewId] = useState<number | null>(() => {
+    const viewId = Number.parseInt(searchParams.get(SAVED_VIEW_URL_PARAMS.VIEW) ?? '', 10);
+    return Number.isNaN(viewId) ? null : viewId;
   });
 
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedText({ q: filters.q, customerId: filters.customerId });
+    }, TEXT_FILTER_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [filters.q, filters.customerId]);
+
+  const viewQuery = useMemo(
+    (): SavedOrderViewQuery => toViewQuery({ ...filters, q: debouncedText.q, customerId: debouncedText.customerId }),
+    [filters, debouncedText]
+  );
+
+  // Mirror the state into the URL, keeping unrelated parameters such as orderId
+  useEffect(() => {
+    const params = new URLSearchParams(globalThis.location.search);
+    for (const key of [...SAVED_VIEW_QUERY_PARAMS, ...Object.values(SAVED_VIEW_URL_PARAMS)]) {
+      params.delete(key);
+    }
+    for (const [key, value] of Object.entries(viewQuery)) {
+      params.set(key, value);
+    }
+    if (sortConfig.key !== DEFAULT_SORT.key || sortConfig.direction !== DEFAULT_SORT.direction) {
+      params.set(SAVED_VIEW_URL_PARAMS.SORT, String(sortConfig.key));
+      params.set(SAVED_VIEW_URL_PARAMS.DIRECTION, sortConfig.direction);
+    }
+    if (activeViewId !== null) {
+      params.set(SAVED_VIEW_URL_PARAMS.VIEW, String(activeViewId));
+    }
+    updateUrl(params);
+  }, [viewQuery, sortConfig, activeViewId, updateUrl]);
+
   const handleFilterChange = (field: keyof OrderFilters, value: string): void => {
     setFilters(prev => ({ ...prev, [field]: value }));
   };
 
   const handleClearFilters = (): void => {
     setFilters(createEmptyFilters());
+    setActiveViewId(null);
   };
 
-  const handleSort = (key: keyof Order): void => {
+  const handleSort = (key: SavedOrderViewSortKey): void => {
     setSortConfig(prev => ({
       key,
       direction: prev.key === key && prev.direction === 'asc' ? 'desc' : 'asc'
     }));
   };
 
-  const filteredOrders = useMemo((): Order[] => {
-    // Defensive check: ensure orders is an array
-    if (!orders || !Array.isArray(orders)) {
-      return [];
-    }
-    return orders.filter(order => orderMatchesFilters(order, filters));
-  }, [orders, filters]);
-
-  const sortedOrders = useMemo((): Order[] => {
-    const sorted = [...filteredOrders];
-    sorted.sort((a, b) => compareOrderValues(
-      a[sortConfig.key],
-      b[sortConfig.key],
-      sortConfig.key,
-      sortConfig.direction
-    ));
-    return sorted;
-  }, [filteredOrders, sortConfig]);
+  const applyView = useCallback((view: SavedOrderView): void => {
+    const viewFilters = filtersFromQuery(view.query);
+    setFilters(viewFilters);
+    setDebouncedText({ q: viewFilters.q, customerId: viewFilters.customerId });
+    setSortConfig({ key: view.sortKey, direction: view.sortDirection });
+    setActiveViewId(view.id);
+  }, []);
+
+  const searchFilters = useMemo(
+    (): OrderSearchFilters => toSearchFilters(filters, debouncedText.q, debouncedText.customerId),
+    [filters, debouncedText]
+  );
+
+  const hasActiveFilters = Object.values(filters).some(value => value !== '');
 
   return {
     filters,
+    searchFilters,
+    hasActiveFilters,
     sortConfig,
-    filteredOrders,
-    sortedOrders,
+    activeViewId,
+    viewQuery,
     handleFilterChange,
     handleClearFilters,
     handleSort,
+    applyView,
   };
 };
@@ -1,8 +1,8 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { getOrders } from '@/lib/api/client';
-import type { Order } from '@/types';
+import type { Order, OrderSearchFacets, OrderSearchFilters, OrderSearchSort } from '@/types';
 
 const ORDERS_PER_PAGE = 10; // Fixed page size for infinite scroll
 
@@ -12,14 +12,21 @@ interface UseOrderPaginationResult {
   loadingMore: boolean;
   hasMore: boolean;
   error: string;
+  /** Orders matching the filters, across all pages */
+  total: number | null;
+  facets: OrderSearchFacets | null;
   loadMore: () => void;
   fetchOrders: () => Promise<void>;
 }
 
 /**
  * Custom hook for managing order data with cursor-based infinite scroll
+ * Filtering and sorting happen on the server; changing either starts again from the first page.
  */
-export const useOrderPagination = (): UseOrderPaginationResult => {
+export const useOrderPagination = (
+  filters: OrderSearchFilters = {},
+  sort?: OrderSearchSort
+): UseOrderPaginationResult => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState<boolean>(false);
@@ -27,17 +34,29 @@ export const useOrderPagination = (): UseOrderPaginationResult => {
   const [loading, setLoading] = useState<boolean>(true);
   const [loadingMore, setLoadingMore] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
+  const [total, setTotal] = useState<number | null>(null);
+  const [facets, setFacets] = useState<OrderSearchFacets | null>(null);
+
+  // Key the search by value so new objects with the same filters and sort do not refetch
+  const searchKey = JSON.stringify({ filters, sort });
+  // Ignore responses for filters that have since changed
+  const requestIdRef = useRef(0);
 
   const fetchOrders = useCallback(async (cursor: string | null, appendMode: boolean): Promise<void> => {
     if (appendMode) {
       setLoadingMore(true);
     } else {
       setLoading(true);
+      // Cursors from the previous search are no longer valid
+      setNextCursor(null);
+      setHasMore(false);
     }
     setError('');
+    const requestId = ++requestIdRef.current;
     
     try {
-      const result = await getOrders({ cursor, limit: ORDERS_PER_PAGE });
+      const result = await getOrders({ cursor, limit: ORDERS_PER_PAGE, ...JSON.parse(searchKey) });
+      if (requestId !== requestIdRef.current) return;
       
       const ordersData = result.items || [];
       if (!Array.isArray(ordersData)) {
@@ -48,22 +67,27 @@ export const useOrderPagination = (): UseOrderPaginationResult => {
         setOrders(prev => [...prev, ...ordersData]);
       } else {
         setOrders(ordersData);
+        setTotal(result.total ?? null);
+        setFacets(result.facets ?? null);
       }
       
       setNextCursor(result.pagination.nextCursor);
       setHasMore(result.pagination.hasMore);
     } catch (err) {
+      if (requestId !== requestIdRef.current) return;
       setError(err instanceof Error ? err.message : 'Failed to fetch orders');
       if (!appendMode) {
         setOrders([]);
       }
     } finally {
-      setLoading(false);
-      setLoadingMore(false);
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  }, []);
+  }, [searchKey]);
 
-  // Initial fetch
+  // Initial fetch, and again from the first page whenever the filters or sort change
   useEffect(() => {
     fetchOrders(null, false);
   }, [fetchOrders]);
@@ -84,6 +108,8 @@ export const useOrderPagination = (): UseOrderPaginationResult => {
     loadingMore,
     hasMore,
     error,
+    total,
+    facets,
     loadMore,
     fetchOrders: refetchOrders,
   };
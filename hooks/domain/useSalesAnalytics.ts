@@ -39,6 +39,9 @@ export interface SourceData {
 
 export interface RangeAnalytics {
   totalSales: number;
+  /** Sales excluding GST */
+  netSales: number;
+  taxCollected: number;
   orderCount: number;
   topItems: ItemData[];
   topItemsByRevenue: ItemData[];
@@ -134,6 +137,8 @@ interface UseSalesAnalyticsResult {
 
 const EMPTY_STATS: RangeAnalytics = {
   totalSales: 0,
+  netSales: 0,
+  taxCollected: 0,
   orderCount: 0,
   topItems: [],
   topItemsByRevenue: [],
@@ -173,6 +178,7 @@ export const useSalesAnalytics = (
       });
 
       const totalSales = filteredOrders.reduce((sum, order) => sum + order.totalPrice, 0);
+      const taxCollected = filteredOrders.reduce((sum, order) => sum + (order.taxAmount || 0), 0);
       const orderCount = filteredOrders.length;
 
       // Use helper functions to aggregate data
@@ -199,6 +205,8 @@ export const useSalesAnalytics = (
 
       results[range.key] = {
         totalSales,
+        netSales: totalSales - taxCollected,
+        taxCollected,
         orderCount,
         topItems,
         topItemsByRevenue,
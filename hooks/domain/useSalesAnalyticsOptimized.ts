@@ -15,6 +15,8 @@ interface UseSalesAnalyticsOptimizedResult {
 
 const EMPTY_STATS: RangeAnalytics = {
   totalSales: 0,
+  netSales: 0,
+  taxCollected: 0,
   orderCount: 0,
   topItems: [],
   topItemsByRevenue: [],
@@ -8,7 +8,7 @@ export {
 } from './useItemsMutations';
 
 // Orders mutations
-export { useCreateOrder, useUpdateOrder } from './useOrdersMutations';
+export { useCreateOrder, useUpdateOrder, useMoveBoardOrder } from './useOrdersMutations';
 
 // Feedbacks mutations
 export { useCreateFeedback, useUpdateFeedback, useDeleteFeedback, useGenerateFeedbackToken } from './useFeedbacksMutations';
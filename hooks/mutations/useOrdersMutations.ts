@@ -1,7 +1,8 @@
 import { useMutation, useQueryClient, type UseMutationResult } from '@tanstack/react-query';
 import * as api from '@/lib/api/client';
 import { queryKeys } from '@/lib/queryKeys';
-import type { Order, CreateOrderData, UpdateOrderData, OrderId } from '@/types';
+import { getBoardMoveChanges } from '@/lib/utils/orderBoard';
+import type { Order, CreateOrderData, UpdateOrderData, OrderId, OrderBoardCard, OrderBoardColumn, OrderBoardData } from '@/types';
 
 /**
  * Mutation hook for creating an order
@@ -50,3 +51,44 @@ export function useUpdateOrder(): UseMutationResult<Order, Error, { id: OrderId;
     },
   });
 }
+
+/**
+ * Mutation hook for dragging an order to another production board column
+ * Moves the card at once and puts it back if the server rejects the move.
+ */
+export function useMoveBoardOrder(): UseMutationResult<
+  Order,
+  Error,
+  { order: OrderBoardCard; target: OrderBoardColumn },
+  { previous?: OrderBoardData }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ order, target }) => api.patchOrder(order.id, getBoardMoveChanges(order, target)),
+    onMutate: async ({ order, target }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.orderBoard() });
+      const previous = queryClient.getQueryData<OrderBoardData>(queryKeys.orderBoard());
+      if (previous) {
+        const changes = getBoardMoveChanges(order, target);
+        queryClient.setQueryData<OrderBoardData>(queryKeys.orderBoard(), {
+          ...previous,
+          items: previous.items.map(card => card.id === order.id ? { ...card, ...changes } as OrderBoardCard : card),
+        });
+      }
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.orderBoard(), context.previous);
+      }
+    },
+    onSuccess: (updatedOrder, { order }) => {
+      queryClient.setQueryData(queryKeys.order(order.id), updatedOrder);
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+}
@@ -2,7 +2,7 @@
 export { useItems, useItemsPaginated, useDeletedItemsQuery } from './useItemsQueries';
 
 // Orders queries
-export { useOrdersAll, useOrdersPaginated, useOrder, usePriorityOrdersQuery } from './useOrdersQueries';
+export { useOrdersAll, useOrdersPaginated, useOrder, usePriorityOrdersQuery, useOrderQuote, useOrderBoard } from './useOrdersQueries';
 
 // Feedbacks queries
 export {
@@ -22,6 +22,7 @@ export {
   useSalesTrends,
   useTopItems,
   useTopCustomers,
+  usePromotionAnalytics,
   type AnalyticsFilters,
   type ProfitAnalyticsResponse,
   type SalesTrendsResponse,
@@ -48,6 +49,42 @@ export {
   useDeleteTag,
 } from './useTagsQueries';
 
+// Promotions queries
+export {
+  usePromotions,
+  usePromotion,
+  useCreatePromotion,
+  useUpdatePromotion,
+  useDeletePromotion,
+} from './usePromotionsQueries';
+
+// Webhooks queries
+export {
+  useWebhooks,
+  useWebhookDeliveries,
+  useCreateWebhook,
+  useUpdateWebhook,
+  useDeleteWebhook,
+  useSendTestWebhook,
+  useReplayWebhookDelivery,
+} from './useWebhooksQueries';
+
+// API keys queries
+export {
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+} from './useApiKeysQueries';
+
+// Saved order views queries
+export {
+  useSavedViews,
+  useCreateSavedView,
+  useUpdateSavedView,
+  useDeleteSavedView,
+  useUpdateSavedViewPreferences,
+} from './useSavedViewsQueries';
+
 // Audit logs queries
 export {
   useAuditLogs,
@@ -64,6 +101,38 @@ export {
   usePinOrderNote,
 } from './useOrderNotesQueries';
 
+// Order Payments queries
+export {
+  useOrderPayments,
+  useCreateOrderPayment,
+  useDeleteOrderPayment,
+} from './useOrderPaymentsQueries';
+
+// Order Returns queries
+export {
+  useOrderReturns,
+  useCreateOrderReturn,
+  useApproveOrderReturn,
+  useRejectOrderReturn,
+} from './useOrderReturnsQueries';
+
+// Order documents (invoice, packing slip)
+export {
+  useDownloadOrderDocument,
+  useEmailOrderInvoice,
+  type OrderDocumentType,
+  type EmailOrderInvoiceData,
+  type EmailOrderInvoiceResult,
+} from './useOrderDocumentsQueries';
+
+// Order tracking links
+export {
+  useOrderTrackingLink,
+  useIssueOrderTrackingLink,
+  useRevokeOrderTrackingLink,
+  usePublicOrderTracking,
+} from './useOrderTrackingQueries';
+
 // Customers queries
 export {
   useCustomers,
@@ -73,6 +142,27 @@ export {
   useCreateCustomer,
   useUpdateCustomer,
   useDeleteCustomer,
+  useCustomerDuplicates,
+  useCustomerMerges,
+  useMergeCustomers,
+  useRevertCustomerMerge,
+  useDismissCustomerDuplicate,
+  useCustomerBackfillStatus,
+  useRunCustomerBackfill,
+  useCustomerSegments,
+  useSaveCustomerSegment,
+  useDeleteCustomerSegment,
+  useRunCustomerRfmScoring,
+  useCustomerAddresses,
+  useSaveCustomerAddress,
+  useDeleteCustomerAddress,
+  useCustomerContacts,
+  useSaveCustomerContact,
+  useDeleteCustomerContact,
+  useCustomerLoyalty,
+  useAdjustCustomerLoyalty,
+  useLoyaltySettings,
+  useUpdateLoyaltySettings,
   type CustomerFilters,
 } from './useCustomersQueries';
 
@@ -82,11 +172,21 @@ export {
   useStockInventory,
   useLowStockItems,
   useStockHistory,
+  useDesignStock,
   useAdjustStock,
   useBulkAdjustStock,
+  useAdjustDesignStock,
+  useUpdateDesignStockSettings,
+  useStockRecommendations,
+  useApplyRecommendedThresholds,
+  useUpdateReplenishmentSettings,
   type StockFilters,
   type StockAdjustmentData,
   type BulkStockAdjustmentData,
+  type LowStockData,
+  type DesignStockAdjustmentData,
+  type DesignStockSettingsData,
+  type ReplenishmentSettingsData,
 } from './useStockQueries';
 
 // Bulk Order queries
@@ -98,3 +198,67 @@ export {
   type BulkOperationResult,
 } from './useBulkOrderQueries';
 
+
+// Production calendar queries
+export {
+  useProductionCalendar,
+  useProductionCapacity,
+  useDeliveryDateSuggestion,
+  useUpdateProductionCapacity,
+  useSetCapacityOverride,
+  useDeleteCapacityOverride,
+  useRescheduleOrder,
+  type ProductionCapacityData,
+} from './useProductionQueries';
+
+// Manufacturing queries
+export {
+  useMaterials,
+  useMaterialHistory,
+  useMaterialShortages,
+  useItemBom,
+  useWorkOrders,
+  useCreateMaterial,
+  useUpdateMaterial,
+  useDeleteMaterial,
+  useAdjustMaterialStock,
+  useUpdateItemBom,
+  useUpdateWorkOrder,
+  useGenerateWorkOrders,
+  type WorkOrderFilter,
+  type MaterialFormData,
+  type MaterialAdjustmentData,
+  type BomLineInput,
+} from './useManufacturingQueries';
+
+// Purchasing queries
+export {
+  useSuppliers,
+  usePurchaseOrders,
+  useCreateSupplier,
+  useUpdateSupplier,
+  useDeleteSupplier,
+  useCreatePurchaseOrder,
+  useUpdatePurchaseOrder,
+  useSetPurchaseOrderStatus,
+  useReceivePurchaseOrder,
+  type PurchaseOrderFilter,
+  type SupplierFormData,
+  type PurchaseOrderFormData,
+  type PurchaseOrderReceiptData,
+} from './usePurchasingQueries';
+
+// Stock take queries
+export {
+  useStockTakes,
+  useStockTake,
+  useCreateStockTake,
+  useRecordStockTakeCounts,
+  useScanStockTakeCode,
+  useApproveStockTake,
+  useCancelStockTake,
+  type StockTakeFilter,
+  type StockTakeFormData,
+  type StockTakeCountsData,
+  type StockTakeScanData,
+} from './useStockTakeQueries';
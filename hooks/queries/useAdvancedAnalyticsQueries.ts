@@ -5,7 +5,8 @@ import { queryKeys, type AnalyticsFiltersParams } from '@/lib/queryKeys';
 import type { 
   ItemData, 
   CustomerData,
-  ProfitSummary
+  ProfitSummary,
+  PromotionAnalyticsSummary
 } from '@/types';
 
 // Re-export filter type for consumers
@@ -79,6 +80,7 @@ async function fetchProfitAnalytics(filters: AnalyticsFilters): Promise<ProfitAn
   if (filters.startDate) params.set('startDate', filters.startDate);
   if (filters.endDate) params.set('endDate', filters.endDate);
   if (filters.timeRange) params.set('timeRange', filters.timeRange);
+  if (filters.revenueBasis) params.set('revenueBasis', filters.revenueBasis);
   
   const response = await fetch(`/api/analytics/profit?${params.toString()}`);
   if (!response.ok) {
@@ -130,6 +132,19 @@ async function fetchTopCustomers(filters: AnalyticsFilters): Promise<TopCustomer
   return response.json();
 }
 
+async function fetchPromotionAnalytics(filters: AnalyticsFilters): Promise<PromotionAnalyticsSummary> {
+  const params = new URLSearchParams();
+  if (filters.startDate) params.set('startDate', filters.startDate);
+  if (filters.endDate) params.set('endDate', filters.endDate);
+
+  const response = await fetch(`/api/analytics/promotions?${params.toString()}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch promotion analytics');
+  }
+  return response.json();
+}
+
 // Query hooks
 export function useProfitAnalytics(filters: AnalyticsFilters = {}) {
   return useQuery({
@@ -162,3 +177,12 @@ export function useTopCustomers(filters: AnalyticsFilters = {}) {
     staleTime: 5 * 60 * 1000,
   });
 }
+
+export function usePromotionAnalytics(filters: AnalyticsFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.analytics.promotions(filters),
+    queryFn: () => fetchPromotionAnalytics(filters),
+    enabled: !!filters.startDate && !!filters.endDate,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type { ApiKey, CreateApiKeyData, CreatedApiKey } from '@/types';
+
+// API client functions
+async function fetchApiKeys(): Promise<ApiKey[]> {
+  const response = await fetch('/api/api-keys');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch API keys');
+  }
+  const data = await response.json();
+  return data.items;
+}
+
+async function createApiKey(data: CreateApiKeyData): Promise<CreatedApiKey> {
+  const response = await fetch('/api/api-keys', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create API key');
+  }
+  return response.json();
+}
+
+async function revokeApiKey(id: number): Promise<ApiKey> {
+  const response = await fetch(`/api/api-keys/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to revoke API key');
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useApiKeys() {
+  return useQuery({
+    queryKey: queryKeys.apiKeys.all,
+    queryFn: fetchApiKeys,
+    staleTime: 60 * 1000, // Last-used times change while scripts run
+  });
+}
+
+// Mutation hooks
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createApiKey,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all });
+    },
+  });
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revokeApiKey,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all });
+    },
+  });
+}
@@ -10,15 +10,35 @@ import type {
   CustomerId,
   Order,
   PaginatedResult,
-  CustomerSource
+  CustomerSource,
+  CustomerDuplicate,
+  CustomerMerge,
+  CustomerBackfillReport,
+  CustomerBackfillStatus,
+  CustomerSegment,
+  CustomerSegmentData,
+  CustomerSegmentOverview,
+  CustomerRfmRunResult,
+  CustomerAddress,
+  CustomerAddressData,
+  CustomerContact,
+  CustomerContactData,
+  CustomerLoyaltySummary,
+  LoyaltyAdjustmentData,
+  LoyaltySettings
 } from '@/types';
 
+/** How often backfill progress is refreshed while a run is in progress */
+const BACKFILL_PROGRESS_REFRESH_MS = 2000;
+
 // Filter types
 export interface CustomerFilters {
   page?: number;
   limit?: number;
   search?: string;
   source?: CustomerSource;
+  /** A lifecycle stage or saved segment ID */
+  segment?: string;
 }
 
 // API client functions
@@ -28,6 +48,7 @@ async function fetchCustomers(filters: CustomerFilters): Promise<PaginatedResult
   if (filters.limit) params.set('limit', String(filters.limit));
   if (filters.search) params.set('search', filters.search);
   if (filters.source) params.set('source', filters.source);
+  if (filters.segment) params.set('segment', filters.segment);
   
   const response = await fetch(`/api/customers?${params.toString()}`);
   if (!response.ok) {
@@ -52,7 +73,8 @@ async function searchCustomers(query: string): Promise<CustomerSummary[]> {
     const error = await response.json();
     throw new Error(error.message || 'Failed to search customers');
   }
-  return response.json();
+  const data: { items: CustomerSummary[] } = await response.json();
+  return data.items;
 }
 
 async function fetchCustomerOrders(id: CustomerId): Promise<Order[]> {
@@ -106,6 +128,237 @@ async function deleteCustomer(id: CustomerId): Promise<void> {
   }
 }
 
+async function fetchCustomerDuplicates(minScore: number): Promise<CustomerDuplicate[]> {
+  const response = await fetch(`/api/customers/duplicates?minScore=${minScore}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to find duplicate customers');
+  }
+  const data = await response.json();
+  return data.duplicates;
+}
+
+async function fetchCustomerMerges(): Promise<CustomerMerge[]> {
+  const response = await fetch('/api/customers/merges');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch customer merges');
+  }
+  const data = await response.json();
+  return data.merges;
+}
+
+async function mergeCustomers(data: { survivorId: CustomerId; mergedId: CustomerId; score?: number }): Promise<CustomerMerge> {
+  const response = await fetch('/api/customers/merges', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to merge customers');
+  }
+  return response.json();
+}
+
+async function revertCustomerMerge(id: number): Promise<{ merge: CustomerMerge; ordersRestored: number }> {
+  const response = await fetch(`/api/customers/merges/${id}/revert`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to undo merge');
+  }
+  return response.json();
+}
+
+async function dismissCustomerDuplicate(customerIds: [CustomerId, CustomerId]): Promise<void> {
+  const response = await fetch('/api/customers/duplicates/dismiss', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ customerIds }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to dismiss duplicate');
+  }
+}
+
+async function fetchCustomerBackfillStatus(): Promise<CustomerBackfillStatus> {
+  const response = await fetch('/api/customers/backfill');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch backfill status');
+  }
+  return response.json();
+}
+
+async function runCustomerBackfill(dryRun: boolean): Promise<CustomerBackfillReport> {
+  const response = await fetch('/api/customers/backfill', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ dryRun }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to run customer backfill');
+  }
+  return response.json();
+}
+
+async function fetchCustomerSegments(): Promise<CustomerSegmentOverview> {
+  const response = await fetch('/api/customers/segments');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch customer segments');
+  }
+  return response.json();
+}
+
+async function saveCustomerSegment({ id, data }: { id?: number; data: CustomerSegmentData }): Promise<CustomerSegment> {
+  const response = await fetch(id ? `/api/customers/segments/${id}` : '/api/customers/segments', {
+    method: id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save customer segment');
+  }
+  return response.json();
+}
+
+async function deleteCustomerSegment(id: number): Promise<void> {
+  const response = await fetch(`/api/customers/segments/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete customer segment');
+  }
+}
+
+async function runCustomerRfmScoring(): Promise<CustomerRfmRunResult> {
+  const response = await fetch('/api/customers/rfm', {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to score customers');
+  }
+  return response.json();
+}
+
+async function fetchCustomerAddresses(customerId: number): Promise<CustomerAddress[]> {
+  const response = await fetch(`/api/customers/${customerId}/addresses`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch customer addresses');
+  }
+  const data: { items: CustomerAddress[] } = await response.json();
+  return data.items;
+}
+
+async function saveCustomerAddress({ customerId, id, data }: { customerId: number; id?: number; data: Partial<CustomerAddressData> }): Promise<CustomerAddress> {
+  const response = await fetch(id ? `/api/customers/${customerId}/addresses/${id}` : `/api/customers/${customerId}/addresses`, {
+    method: id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save address');
+  }
+  return response.json();
+}
+
+async function deleteCustomerAddress({ customerId, id }: { customerId: number; id: number }): Promise<void> {
+  const response = await fetch(`/api/customers/${customerId}/addresses/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete address');
+  }
+}
+
+async function fetchCustomerContacts(customerId: number): Promise<CustomerContact[]> {
+  const response = await fetch(`/api/customers/${customerId}/contacts`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch customer contacts');
+  }
+  const data: { items: CustomerContact[] } = await response.json();
+  return data.items;
+}
+
+async function saveCustomerContact({ customerId, id, data }: { customerId: number; id?: number; data: CustomerContactData }): Promise<CustomerContact> {
+  const response = await fetch(id ? `/api/customers/${customerId}/contacts/${id}` : `/api/customers/${customerId}/contacts`, {
+    method: id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save contact');
+  }
+  return response.json();
+}
+
+async function deleteCustomerContact({ customerId, id }: { customerId: number; id: number }): Promise<void> {
+  const response = await fetch(`/api/customers/${customerId}/contacts/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to remove contact');
+  }
+}
+
+async function fetchCustomerLoyalty(customerId: number): Promise<CustomerLoyaltySummary> {
+  const response = await fetch(`/api/customers/${customerId}/loyalty`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch loyalty balance');
+  }
+  return response.json();
+}
+
+async function adjustCustomerLoyalty({ customerId, data }: { customerId: number; data: LoyaltyAdjustmentData }): Promise<CustomerLoyaltySummary> {
+  const response = await fetch(`/api/customers/${customerId}/loyalty/adjustments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to adjust balance');
+  }
+  return response.json();
+}
+
+async function fetchLoyaltySettings(): Promise<LoyaltySettings> {
+  const response = await fetch('/api/customers/loyalty/settings');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch loyalty settings');
+  }
+  return response.json();
+}
+
+async function updateLoyaltySettings(data: Omit<LoyaltySettings, 'isDefault' | 'updatedAt'>): Promise<LoyaltySettings> {
+  const response = await fetch('/api/customers/loyalty/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save loyalty settings');
+  }
+  return response.json();
+}
+
 // Query hooks
 export function useCustomers(filters: CustomerFilters = {}) {
   return useQuery({
@@ -142,6 +395,76 @@ export function useCustomerOrders(id: CustomerId | null) {
   });
 }
 
+export function useCustomerDuplicates(minScore: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.customers.duplicates(minScore),
+    queryFn: () => fetchCustomerDuplicates(minScore),
+    enabled,
+  });
+}
+
+export function useCustomerMerges(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.customers.merges,
+    queryFn: fetchCustomerMerges,
+    enabled,
+  });
+}
+
+/**
+ * @param running - true while this browser is waiting on a run, to follow its progress
+ */
+export function useCustomerBackfillStatus(enabled = true, running = false) {
+  return useQuery({
+    queryKey: queryKeys.customers.backfill,
+    queryFn: fetchCustomerBackfillStatus,
+    enabled,
+    refetchInterval: (query) => (running || query.state.data?.jobs[0]?.status === 'processing' ? BACKFILL_PROGRESS_REFRESH_MS : false),
+  });
+}
+
+export function useCustomerSegments(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.customers.segments,
+    queryFn: fetchCustomerSegments,
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCustomerAddresses(customerId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.customers.addresses(customerId!),
+    queryFn: () => fetchCustomerAddresses(customerId!),
+    enabled: customerId !== null,
+  });
+}
+
+export function useCustomerContacts(customerId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.customers.contacts(customerId!),
+    queryFn: () => fetchCustomerContacts(customerId!),
+    enabled: customerId !== null,
+  });
+}
+
+export function useCustomerLoyalty(customerId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.customers.loyalty(customerId!),
+    queryFn: () => fetchCustomerLoyalty(customerId!),
+    enabled: customerId !== null,
+  });
+}
+
+export function useLoyaltySettings(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.customers.loyaltySettings,
+    queryFn: fetchLoyaltySettings,
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 // Mutation hooks
 export function useCreateCustomer() {
   const queryClient = useQueryClient();
@@ -176,3 +499,155 @@ export function useDeleteCustomer() {
     },
   });
 }
+
+export function useMergeCustomers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: mergeCustomers,
+    onSuccess: () => {
+      // Orders move between customers too
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+}
+
+export function useRevertCustomerMerge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revertCustomerMerge,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+}
+
+export function useDismissCustomerDuplicate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: dismissCustomerDuplicate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers', 'duplicates'] });
+    },
+  });
+}
+
+export function useRunCustomerBackfill() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: runCustomerBackfill,
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+      if (!report.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['orders'] });
+      }
+    },
+  });
+}
+
+export function useSaveCustomerSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveCustomerSegment,
+    onSuccess: () => {
+      // Lists filtered by the segment change with its rules
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+export function useDeleteCustomerSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteCustomerSegment,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.segments });
+    },
+  });
+}
+
+export function useRunCustomerRfmScoring() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: runCustomerRfmScoring,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+export function useSaveCustomerAddress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveCustomerAddress,
+    onSuccess: () => {
+      // The default address is copied onto the customer
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+export function useDeleteCustomerAddress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteCustomerAddress,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+export function useSaveCustomerContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveCustomerContact,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.contacts(variables.customerId) });
+    },
+  });
+}
+
+export function useDeleteCustomerContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteCustomerContact,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.contacts(variables.customerId) });
+    },
+  });
+}
+
+export function useAdjustCustomerLoyalty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: adjustCustomerLoyalty,
+    onSuccess: (summary, variables) => {
+      queryClient.setQueryData(queryKeys.customers.loyalty(variables.customerId), summary);
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+    },
+  });
+}
+
+export function useUpdateLoyaltySettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateLoyaltySettings,
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKeys.customers.loyaltySettings, settings);
+    },
+  });
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type {
+  BomLine,
+  ItemId,
+  Material,
+  MaterialShortageReport,
+  MaterialTransaction,
+  WorkOrder,
+  WorkOrderStatus,
+} from '@/types';
+
+export type WorkOrderFilter = 'open' | 'completed' | 'cancelled' | 'all';
+
+export interface MaterialFormData {
+  name: string;
+  unit: string;
+  sku?: string | null;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  costPerUnit?: number | null;
+  notes?: string | null;
+}
+
+export interface MaterialAdjustmentData {
+  id: number;
+  quantity: number;
+  transactionType: 'restock' | 'adjustment';
+  notes?: string;
+}
+
+export interface BomLineInput {
+  materialId: number;
+  designId: number | null;
+  quantity: number;
+  notes?: string | null;
+}
+
+interface MaterialHistory {
+  transactions: MaterialTransaction[];
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+}
+
+// API client functions
+async function fetchMaterials(): Promise<Material[]> {
+  const response = await fetch('/api/materials');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch materials');
+  }
+  const data = await response.json();
+  return data.materials;
+}
+
+async function createMaterial(data: MaterialFormData): Promise<Material> {
+  const response = await fetch('/api/materials', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create material');
+  }
+  return response.json();
+}
+
+async function updateMaterial({ id, data }: { id: number; data: Partial<MaterialFormData> }): Promise<Material> {
+  const response = await fetch(`/api/materials/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update material');
+  }
+  return response.json();
+}
+
+async function deleteMaterial(id: number): Promise<void> {
+  const response = await fetch(`/api/materials/${id}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete material');
+  }
+}
+
+async function adjustMaterialStock({ id, ...data }: MaterialAdjustmentData): Promise<Material> {
+  const response = await fetch(`/api/materials/${id}/stock`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to adjust material stock');
+  }
+  return response.json();
+}
+
+async function fetchMaterialHistory(id: number): Promise<MaterialHistory> {
+  const response = await fetch(`/api/materials/${id}/history?limit=50`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch material history');
+  }
+  return response.json();
+}
+
+async function fetchMaterialShortages(): Promise<MaterialShortageReport> {
+  const response = await fetch('/api/materials/shortages');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch material shortages');
+  }
+  return response.json();
+}
+
+async function fetchItemBom(itemId: ItemId): Promise<BomLine[]> {
+  const response = await fetch(`/api/items/${itemId}/bom`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch bill of materials');
+  }
+  const data = await response.json();
+  return data.lines;
+}
+
+async function updateItemBom({ itemId, lines }: { itemId: ItemId; lines: BomLineInput[] }): Promise<BomLine[]> {
+  const response = await fetch(`/api/items/${itemId}/bom`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ lines }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save bill of materials');
+  }
+  const data = await response.json();
+  return data.lines;
+}
+
+async function fetchWorkOrders(status: WorkOrderFilter): Promise<WorkOrder[]> {
+  const response = await fetch(`/api/work-orders?status=${status}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch work orders');
+  }
+  const data = await response.json();
+  return data.workOrders;
+}
+
+async function updateWorkOrder({ id, ...data }: { id: number; status?: WorkOrderStatus; notes?: string | null }): Promise<WorkOrder> {
+  const response = await fetch(`/api/work-orders/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update work order');
+  }
+  return response.json();
+}
+
+async function generateWorkOrders(): Promise<{ created: number }> {
+  const response = await fetch('/api/work-orders/generate', { method: 'POST' });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to generate work orders');
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useMaterials() {
+  return useQuery({
+    queryKey: queryKeys.materials.list,
+    queryFn: fetchMaterials,
+  });
+}
+
+export function useMaterialHistory(id: number | null) {
+  return useQuery({
+    queryKey: queryKeys.materials.history(id!),
+    queryFn: () => fetchMaterialHistory(id!),
+    enabled: id !== null,
+  });
+}
+
+export function useMaterialShortages() {
+  return useQuery({
+    queryKey: queryKeys.materials.shortages,
+    queryFn: fetchMaterialShortages,
+  });
+}
+
+export function useItemBom(itemId: ItemId | null) {
+  return useQuery({
+    queryKey: queryKeys.materials.bom(itemId!),
+    queryFn: () => fetchItemBom(itemId!),
+    enabled: !!itemId,
+  });
+}
+
+export function useWorkOrders(status: WorkOrderFilter = 'open') {
+  return useQuery({
+    queryKey: queryKeys.workOrders.list(status),
+    queryFn: () => fetchWorkOrders(status),
+  });
+}
+
+// Mutation hooks
+export function useCreateMaterial() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createMaterial,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.all });
+    },
+  });
+}
+
+export function useUpdateMaterial() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateMaterial,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.all });
+    },
+  });
+}
+
+export function useDeleteMaterial() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteMaterial,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.all });
+    },
+  });
+}
+
+export function useAdjustMaterialStock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: adjustMaterialStock,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.all });
+      // Work orders show the stock available for their materials
+      queryClient.invalidateQueries({ queryKey: queryKeys.workOrders.all });
+    },
+  });
+}
+
+export function useUpdateItemBom() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateItemBom,
+    onSuccess: (lines, variables) => {
+      queryClient.setQueryData(queryKeys.materials.bom(variables.itemId), lines);
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.shortages });
+      queryClient.invalidateQueries({ queryKey: queryKeys.workOrders.all });
+    },
+  });
+}
+
+export function useUpdateWorkOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateWorkOrder,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workOrders.all });
+      // Completing a work order consumes materials
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.all });
+    },
+  });
+}
+
+export function useGenerateWorkOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: generateWorkOrders,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.shortages });
+    },
+  });
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useMutation } from '@tanstack/react-query';
+import type { OrderId } from '@/types';
+
+export type OrderDocumentType = 'invoice' | 'packing-slip';
+
+export interface EmailOrderInvoiceData {
+  orderId: OrderId;
+  /** Recipient; defaults to the customer's email address */
+  to?: string;
+}
+
+export interface EmailOrderInvoiceResult {
+  invoiceNumber: string;
+  sentTo: string;
+}
+
+// API client functions
+async function downloadOrderDocument({
+  orderId,
+  type
+}: {
+  orderId: OrderId;
+  type: OrderDocumentType
+}): Promise<void> {
+  // Downloading an invoice issues its number on first use, so it is a POST
+  const response = await fetch(`/api/orders/${orderId}/${type}`, { method: type === 'invoice' ? 'POST' : 'GET' });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Failed to download ${type.replace('-', ' ')}`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `${type}-${orderId}.pdf`;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+async function emailOrderInvoice({ orderId, to }: EmailOrderInvoiceData): Promise<EmailOrderInvoiceResult> {
+  const response = await fetch(`/api/orders/${orderId}/invoice/email`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ to }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to email invoice');
+  }
+  return response.json();
+}
+
+// Mutation hooks
+export function useDownloadOrderDocument() {
+  return useMutation({
+    mutationFn: downloadOrderDocument,
+  });
+}
+
+export function useEmailOrderInvoice() {
+  return useMutation({
+    mutationFn: emailOrderInvoice,
+  });
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type {
+  OrderPayment,
+  CreateOrderPaymentData,
+  OrderPaymentId,
+  OrderId
+} from '@/types';
+
+// API client functions
+async function fetchOrderPayments(orderId: OrderId): Promise<OrderPayment[]> {
+  const response = await fetch(`/api/orders/${orderId}/payments`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch payments');
+  }
+  const data: { items: OrderPayment[] } = await response.json();
+  return data.items;
+}
+
+async function createOrderPayment(data: CreateOrderPaymentData): Promise<OrderPayment> {
+  const response = await fetch(`/api/orders/${data.orderId}/payments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to record payment');
+  }
+  return response.json();
+}
+
+async function deleteOrderPayment({
+  orderId,
+  paymentId
+}: {
+  orderId: OrderId;
+  paymentId: OrderPaymentId
+}): Promise<void> {
+  const response = await fetch(`/api/orders/${orderId}/payments/${paymentId}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete payment');
+  }
+}
+
+// Query hooks
+export function useOrderPayments(orderId: OrderId | null) {
+  return useQuery({
+    queryKey: queryKeys.orderPayments.byOrder(orderId!),
+    queryFn: () => fetchOrderPayments(orderId!),
+    enabled: !!orderId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+// Mutation hooks
+// Payments change the order's paid amount and status, so order queries are refreshed too
+export function useCreateOrderPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createOrderPayment,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.orderPayments.byOrder(variables.orderId as OrderId)
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.ordersAll() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+    },
+  });
+}
+
+export function useDeleteOrderPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteOrderPayment,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.orderPayments.byOrder(variables.orderId)
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.ordersAll() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+    },
+  });
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type {
+  OrderReturn,
+  CreateOrderReturnData,
+  ReviewOrderReturnData,
+  OrderId
+} from '@/types';
+
+// API client functions
+async function fetchOrderReturns(orderId: OrderId): Promise<OrderReturn[]> {
+  const response = await fetch(`/api/orders/${orderId}/returns`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch returns');
+  }
+  const data: { items: OrderReturn[] } = await response.json();
+  return data.items;
+}
+
+async function createOrderReturn(data: CreateOrderReturnData): Promise<OrderReturn> {
+  const response = await fetch(`/api/orders/${data.orderId}/returns`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create return');
+  }
+  return response.json();
+}
+
+async function reviewOrderReturn(action: 'approve' | 'reject', data: ReviewOrderReturnData): Promise<OrderReturn> {
+  const response = await fetch(`/api/orders/${data.orderId}/returns/${data.returnId}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewNotes: data.reviewNotes, refundMethod: data.refundMethod }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || `Failed to ${action} return`);
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useOrderReturns(orderId: OrderId | null) {
+  return useQuery({
+    queryKey: queryKeys.orderReturns.byOrder(orderId!),
+    queryFn: () => fetchOrderReturns(orderId!),
+    enabled: !!orderId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+// Mutation hooks
+export function useCreateOrderReturn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createOrderReturn,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.orderReturns.byOrder(variables.orderId as OrderId)
+      });
+    },
+  });
+}
+
+export function useApproveOrderReturn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ReviewOrderReturnData) => reviewOrderReturn('approve', data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.orderReturns.byOrder(variables.orderId as OrderId)
+      });
+      // Approval refunds, restocks and changes customer totals
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.orderPayments.byOrder(variables.orderId as OrderId)
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.ordersAll() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.customers.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.analytics.all });
+    },
+  });
+}
+
+export function useRejectOrderReturn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: ReviewOrderReturnData) => reviewOrderReturn('reject', data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.orderReturns.byOrder(variables.orderId as OrderId)
+      });
+    },
+  });
+}
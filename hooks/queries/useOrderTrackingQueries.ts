@@ -0,0 +1,103 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type { OrderId, OrderTrackingLink, PublicOrderTracking } from '@/types';
+
+// API client functions
+async function fetchOrderTrackingLink(orderId: OrderId): Promise<OrderTrackingLink | null> {
+  const response = await fetch(`/api/orders/${orderId}/tracking-link`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch tracking link');
+  }
+  const data: { link: OrderTrackingLink | null } = await response.json();
+  return data.link;
+}
+
+async function issueOrderTrackingLink({
+  orderId,
+  regenerate = false
+}: {
+  orderId: OrderId;
+  regenerate?: boolean
+}): Promise<OrderTrackingLink> {
+  const response = await fetch(`/api/orders/${orderId}/tracking-link`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ regenerate }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create tracking link');
+  }
+  return response.json();
+}
+
+async function revokeOrderTrackingLink(orderId: OrderId): Promise<void> {
+  const response = await fetch(`/api/orders/${orderId}/tracking-link`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to disable tracking link');
+  }
+}
+
+async function fetchPublicOrderTracking(token: string): Promise<PublicOrderTracking> {
+  const response = await fetch(`/api/public/tracking/${encodeURIComponent(token)}`);
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to load order tracking');
+  }
+  return response.json();
+}
+
+/**
+ * Absolute URL of the public tracking page for a token
+ */
+export function getTrackingUrl(token: string): string {
+  return `${globalThis.location.origin}/track/${token}`;
+}
+
+// Query hooks
+export function useOrderTrackingLink(orderId: OrderId) {
+  return useQuery({
+    queryKey: queryKeys.orderTracking.link(orderId),
+    queryFn: () => fetchOrderTrackingLink(orderId),
+    enabled: !!orderId,
+  });
+}
+
+export function usePublicOrderTracking(token: string) {
+  return useQuery({
+    queryKey: queryKeys.orderTracking.public(token),
+    queryFn: () => fetchPublicOrderTracking(token),
+    enabled: !!token,
+    retry: false,
+    refetchInterval: 5 * 60 * 1000, // Pick up delivery updates while the page stays open
+  });
+}
+
+// Mutation hooks
+export function useIssueOrderTrackingLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: issueOrderTrackingLink,
+    onSuccess: (link, variables) => {
+      queryClient.setQueryData(queryKeys.orderTracking.link(variables.orderId), link);
+    },
+  });
+}
+
+export function useRevokeOrderTrackingLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revokeOrderTrackingLink,
+    onSuccess: (_, orderId) => {
+      queryClient.setQueryData(queryKeys.orderTracking.link(orderId), null);
+    },
+  });
+}
@@ -1,7 +1,7 @@
-import { useQuery, type UseQueryResult, type UseQueryOptions } from '@tanstack/react-query';
+import { useQuery, keepPreviousData, type UseQueryResult, type UseQueryOptions } from '@tanstack/react-query';
 import * as api from '@/lib/api/client';
 import { queryKeys } from '@/lib/queryKeys';
-import type { Order, OrderId, CursorPaginatedResult } from '@/types';
+import type { Order, OrderId, CursorPaginatedResult, OrderQuote, OrderQuoteRequest, OrderBoardData } from '@/types';
 
 /**
  * Query hook for fetching all orders
@@ -60,3 +60,33 @@ export function usePriorityOrdersQuery(
     ...options,
   });
 }
+
+/**
+ * Query hook for the orders on the production board
+ */
+export function useOrderBoard(
+  options?: Omit<UseQueryOptions<OrderBoardData, Error>, 'queryKey' | 'queryFn'>
+): UseQueryResult<OrderBoardData, Error> {
+  return useQuery({
+    queryKey: queryKeys.orderBoard(),
+    queryFn: () => api.getOrderBoard(),
+    ...options,
+  });
+}
+
+/**
+ * Query hook for the server-computed subtotal, discount, GST and shipping of a draft order
+ * Keeps the previous quote on screen while a new one loads.
+ */
+export function useOrderQuote(
+  data: OrderQuoteRequest,
+  options?: Omit<UseQueryOptions<OrderQuote, Error>, 'queryKey' | 'queryFn'>
+): UseQueryResult<OrderQuote, Error> {
+  return useQuery({
+    queryKey: queryKeys.orderQuote(data),
+    queryFn: () => api.quoteOrder(data),
+    enabled: data.items.length > 0,
+    placeholderData: keepPreviousData,
+    ...options,
+  });
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { patchOrder } from '@/lib/api/client';
+import type {
+  DeliveryDateSuggestion,
+  OrderId,
+  ProductionCalendarData,
+  ProductionCapacityOverride,
+  ProductionCapacitySettings,
+} from '@/types';
+
+export type ProductionCapacityData = Pick<ProductionCapacitySettings, 'unit' | 'weekdayCapacity' | 'minLeadDays'>;
+
+// API client functions
+async function fetchProductionCalendar(from: string, to: string): Promise<ProductionCalendarData> {
+  const response = await fetch(`/api/production/calendar?from=${from}&to=${to}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load production calendar');
+  }
+  return response.json();
+}
+
+async function fetchProductionCapacity(): Promise<ProductionCapacitySettings> {
+  const response = await fetch('/api/production/capacity');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch production capacity');
+  }
+  return response.json();
+}
+
+async function updateProductionCapacity(data: ProductionCapacityData): Promise<ProductionCapacitySettings> {
+  const response = await fetch('/api/production/capacity', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update production capacity');
+  }
+  return response.json();
+}
+
+async function setCapacityOverride({ date, capacity, note }: ProductionCapacityOverride): Promise<ProductionCapacityOverride> {
+  const response = await fetch(`/api/production/capacity/overrides/${date}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ capacity, note }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to set capacity for the day');
+  }
+  return response.json();
+}
+
+async function deleteCapacityOverride(date: string): Promise<void> {
+  const response = await fetch(`/api/production/capacity/overrides/${date}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to reset capacity for the day');
+  }
+}
+
+async function fetchDeliveryDateSuggestion(units: number): Promise<DeliveryDateSuggestion> {
+  const response = await fetch(`/api/production/suggest-date?units=${units}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to suggest a delivery date');
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useProductionCalendar(from: string, to: string) {
+  return useQuery({
+    queryKey: queryKeys.production.calendar(from, to),
+    queryFn: () => fetchProductionCalendar(from, to),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useProductionCapacity() {
+  return useQuery({
+    queryKey: queryKeys.production.capacity,
+    queryFn: fetchProductionCapacity,
+  });
+}
+
+/**
+ * Earliest delivery date with room for a new order of `units` item units
+ */
+export function useDeliveryDateSuggestion(units: number, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.production.suggestion(units),
+    queryFn: () => fetchDeliveryDateSuggestion(units),
+    enabled: (options.enabled ?? true) && units > 0,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Mutation hooks
+export function useUpdateProductionCapacity() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateProductionCapacity,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.production.all });
+    },
+  });
+}
+
+export function useSetCapacityOverride() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: setCapacityOverride,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.production.all });
+    },
+  });
+}
+
+export function useDeleteCapacityOverride() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteCapacityOverride,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.production.all });
+    },
+  });
+}
+
+/**
+ * Move an order to another expected delivery date (YYYY-MM-DD)
+ * The order update records the change in the order's audit trail.
+ */
+export function useRescheduleOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, date }: { id: OrderId; date: string }) => patchOrder(id, { expectedDeliveryDate: date }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.production.all });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+    },
+  });
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type { Promotion, CreatePromotionData, UpdatePromotionData } from '@/types';
+
+// API client functions
+async function fetchPromotions(): Promise<Promotion[]> {
+  const response = await fetch('/api/promotions');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch promotions');
+  }
+  const data = await response.json();
+  return data.items;
+}
+
+async function fetchPromotion(id: number): Promise<Promotion> {
+  const response = await fetch(`/api/promotions/${id}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch promotion');
+  }
+  return response.json();
+}
+
+async function createPromotion(data: CreatePromotionData): Promise<Promotion> {
+  const response = await fetch('/api/promotions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create promotion');
+  }
+  return response.json();
+}
+
+async function updatePromotion({ id, data }: { id: number; data: UpdatePromotionData }): Promise<Promotion> {
+  const response = await fetch(`/api/promotions/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update promotion');
+  }
+  return response.json();
+}
+
+async function deletePromotion(id: number): Promise<void> {
+  const response = await fetch(`/api/promotions/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete promotion');
+  }
+}
+
+// Query hooks
+export function usePromotions() {
+  return useQuery({
+    queryKey: queryKeys.promotions.all,
+    queryFn: fetchPromotions,
+    staleTime: 60 * 1000, // Usage counts move as orders are placed
+  });
+}
+
+export function usePromotion(id: number | null) {
+  return useQuery({
+    queryKey: queryKeys.promotions.detail(id!),
+    queryFn: () => fetchPromotion(id!),
+    enabled: !!id,
+    staleTime: 60 * 1000,
+  });
+}
+
+// Mutation hooks
+export function useCreatePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createPromotion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.promotions.all });
+    },
+  });
+}
+
+export function useUpdatePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updatePromotion,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.promotions.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.promotions.detail(variables.id) });
+    },
+  });
+}
+
+export function useDeletePromotion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deletePromotion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.promotions.all });
+    },
+  });
+}
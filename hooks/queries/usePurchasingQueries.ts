@@ -0,0 +1,248 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type { PurchaseOrder, PurchaseOrderStatus, Supplier } from '@/types';
+
+export type PurchaseOrderFilter = 'active' | 'open' | 'closed' | 'all';
+
+export interface SupplierFormData {
+  name: string;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  leadTimeDays?: number | null;
+  paymentTerms?: string | null;
+  notes?: string | null;
+}
+
+export interface PurchaseOrderFormData {
+  supplierId: number;
+  expectedDate?: string | null;
+  notes?: string | null;
+  lines: Array<{ itemId: number; quantityOrdered: number; unitCost: number }>;
+}
+
+export interface PurchaseOrderReceiptData {
+  id: number;
+  lines: Array<{ lineId: number; quantity: number }>;
+  notes?: string;
+}
+
+interface ReceiptResult {
+  purchaseOrder: PurchaseOrder;
+  /** Units put in stock with the receipt */
+  stock: { received: number };
+}
+
+// API client functions
+async function fetchSuppliers(): Promise<Supplier[]> {
+  const response = await fetch('/api/suppliers');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch suppliers');
+  }
+  const data = await response.json();
+  return data.suppliers;
+}
+
+async function createSupplier(data: SupplierFormData): Promise<Supplier> {
+  const response = await fetch('/api/suppliers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create supplier');
+  }
+  return response.json();
+}
+
+async function updateSupplier({ id, data }: { id: number; data: Partial<SupplierFormData> }): Promise<Supplier> {
+  const response = await fetch(`/api/suppliers/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update supplier');
+  }
+  return response.json();
+}
+
+async function deleteSupplier(id: number): Promise<void> {
+  const response = await fetch(`/api/suppliers/${id}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete supplier');
+  }
+}
+
+async function fetchPurchaseOrders(status: PurchaseOrderFilter): Promise<PurchaseOrder[]> {
+  const response = await fetch(`/api/purchase-orders?status=${status}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch purchase orders');
+  }
+  const data = await response.json();
+  return data.purchaseOrders;
+}
+
+async function createPurchaseOrder(data: PurchaseOrderFormData): Promise<PurchaseOrder> {
+  const response = await fetch('/api/purchase-orders', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create purchase order');
+  }
+  return response.json();
+}
+
+async function updatePurchaseOrder({ id, data }: { id: number; data: Partial<PurchaseOrderFormData> }): Promise<PurchaseOrder> {
+  const response = await fetch(`/api/purchase-orders/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update purchase order');
+  }
+  return response.json();
+}
+
+async function setPurchaseOrderStatus({ id, status }: { id: number; status: Extract<PurchaseOrderStatus, 'ordered' | 'cancelled'> }): Promise<PurchaseOrder> {
+  const response = await fetch(`/api/purchase-orders/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update purchase order');
+  }
+  return response.json();
+}
+
+async function receivePurchaseOrder({ id, ...data }: PurchaseOrderReceiptData): Promise<ReceiptResult> {
+  const response = await fetch(`/api/purchase-orders/${id}/receive`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to receive purchase order');
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useSuppliers() {
+  return useQuery({
+    queryKey: queryKeys.suppliers.list,
+    queryFn: fetchSuppliers,
+  });
+}
+
+export function usePurchaseOrders(status: PurchaseOrderFilter = 'active') {
+  return useQuery({
+    queryKey: queryKeys.purchaseOrders.list(status),
+    queryFn: () => fetchPurchaseOrders(status),
+  });
+}
+
+// Mutation hooks
+export function useCreateSupplier() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createSupplier,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all });
+    },
+  });
+}
+
+export function useUpdateSupplier() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateSupplier,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all });
+      // Purchase orders show the supplier's name
+      queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrders.all });
+    },
+  });
+}
+
+export function useDeleteSupplier() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSupplier,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all });
+    },
+  });
+}
+
+export function useCreatePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createPurchaseOrder,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrders.all });
+    },
+  });
+}
+
+export function useUpdatePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updatePurchaseOrder,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrders.all });
+      // Stock views show the expected date of open orders
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+    },
+  });
+}
+
+export function useSetPurchaseOrderStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: setPurchaseOrderStatus,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all });
+      // Placed and cancelled orders change what is on order
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+    },
+  });
+}
+
+export function useReceivePurchaseOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: receivePurchaseOrder,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.purchaseOrders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+      // Receiving changes item stock and cost price
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { SAVED_VIEW_COUNT_REFRESH_MS } from '@/constants/savedViewConstants';
+import type { SavedOrderView, SavedOrderViewData, SavedOrderViewPreferences } from '@/types';
+
+// API client functions
+async function fetchSavedViews(): Promise<SavedOrderView[]> {
+  const response = await fetch('/api/saved-views');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch saved views');
+  }
+  const data = await response.json();
+  return data.items;
+}
+
+async function createSavedView(data: SavedOrderViewData): Promise<SavedOrderView> {
+  const response = await fetch('/api/saved-views', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to save view');
+  }
+  return response.json();
+}
+
+async function updateSavedView({ id, data }: { id: number; data: Partial<SavedOrderViewData> }): Promise<SavedOrderView> {
+  const response = await fetch(`/api/saved-views/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update view');
+  }
+  return response.json();
+}
+
+async function deleteSavedView(id: number): Promise<void> {
+  const response = await fetch(`/api/saved-views/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete view');
+  }
+}
+
+async function updateSavedViewPreferences({ id, preferences }: { id: number; preferences: SavedOrderViewPreferences }): Promise<SavedOrderView> {
+  const response = await fetch(`/api/saved-views/${id}/preferences`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(preferences),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update view settings');
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useSavedViews(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.savedViews.all,
+    queryFn: fetchSavedViews,
+    enabled: options.enabled ?? true,
+    staleTime: SAVED_VIEW_COUNT_REFRESH_MS,
+    refetchInterval: SAVED_VIEW_COUNT_REFRESH_MS, // Keeps the count badges live
+  });
+}
+
+// Mutation hooks
+export function useCreateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createSavedView,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.all });
+    },
+  });
+}
+
+export function useUpdateSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateSavedView,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.all });
+    },
+  });
+}
+
+export function useDeleteSavedView() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSavedView,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.all });
+    },
+  });
+}
+
+export function useUpdateSavedViewPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateSavedViewPreferences,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.all });
+    },
+  });
+}
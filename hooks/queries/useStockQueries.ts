@@ -4,10 +4,13 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from '@/lib/queryKeys';
 import type { 
   StockInfo, 
+  DesignStockInfo,
   StockTransaction, 
   StockTransactionType,
   ItemId,
-  PaginatedResult
+  PaginatedResult,
+  ReplenishmentSettings,
+  StockRecommendationsData
 } from '@/types';
 
 // Filter types
@@ -29,6 +32,36 @@ export interface BulkStockAdjustmentData {
   adjustments: StockAdjustmentData[];
 }
 
+export interface LowStockData {
+  items: StockInfo[];
+  count: number;
+  /** Designs with their own stock at or below their threshold */
+  designs: DesignStockInfo[];
+}
+
+export interface DesignStockAdjustmentData {
+  itemId: number;
+  designId: number;
+  quantity: number;
+  notes?: string;
+}
+
+export interface DesignStockSettingsData {
+  itemId: number;
+  designId: number;
+  trackStock: boolean;
+  lowStockThreshold: number | null;
+}
+
+export type ReplenishmentSettingsData = Omit<ReplenishmentSettings, 'isDefault' | 'updatedAt'>;
+
+interface ThresholdUpdate {
+  itemId: number;
+  itemName: string;
+  previousThreshold: number;
+  lowStockThreshold: number;
+}
+
 // API client functions
 async function fetchItemStock(itemId: ItemId): Promise<StockInfo> {
   const response = await fetch(`/api/stock/${itemId}`);
@@ -54,7 +87,7 @@ async function fetchStockInventory(filters: StockFilters): Promise<PaginatedResu
   return response.json();
 }
 
-async function fetchLowStockItems(): Promise<StockInfo[]> {
+async function fetchLowStockItems(): Promise<LowStockData> {
   const response = await fetch('/api/stock/low');
   if (!response.ok) {
     const error = await response.json();
@@ -98,6 +131,76 @@ async function bulkAdjustStock(data: BulkStockAdjustmentData): Promise<StockTran
   return response.json();
 }
 
+async function fetchDesignStock(itemId: number): Promise<StockInfo> {
+  const response = await fetch(`/api/items/${itemId}/stock`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch design stock');
+  }
+  return response.json();
+}
+
+async function adjustDesignStock({ itemId, ...data }: DesignStockAdjustmentData): Promise<StockTransaction> {
+  const response = await fetch(`/api/items/${itemId}/stock`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to adjust design stock');
+  }
+  return response.json();
+}
+
+async function updateDesignStockSettings({ itemId, designId, ...data }: DesignStockSettingsData) {
+  const response = await fetch(`/api/items/${itemId}/designs/${designId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update design stock settings');
+  }
+  return response.json();
+}
+
+async function fetchStockRecommendations(): Promise<StockRecommendationsData> {
+  const response = await fetch('/api/stock/recommendations');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch stock recommendations');
+  }
+  return response.json();
+}
+
+async function applyRecommendedThresholds(itemIds?: number[]): Promise<{ updated: ThresholdUpdate[] }> {
+  const response = await fetch('/api/stock/recommendations', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ itemIds }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update low stock thresholds');
+  }
+  return response.json();
+}
+
+async function updateReplenishmentSettings(data: ReplenishmentSettingsData): Promise<ReplenishmentSettings> {
+  const response = await fetch('/api/stock/recommendations/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update replenishment settings');
+  }
+  return response.json();
+}
+
 // Query hooks
 export function useItemStock(itemId: ItemId | null) {
   return useQuery({
@@ -133,6 +236,25 @@ export function useStockHistory(itemId: ItemId | null) {
   });
 }
 
+/**
+ * Item stock with the per-design breakdown, from the item stock endpoint
+ */
+export function useDesignStock(itemId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.stock.designs(itemId!),
+    queryFn: () => fetchDesignStock(itemId!),
+    enabled: !!itemId,
+  });
+}
+
+export function useStockRecommendations() {
+  return useQuery({
+    queryKey: queryKeys.stock.recommendations,
+    queryFn: fetchStockRecommendations,
+    staleTime: 5 * 60 * 1000, // 5 minutes - velocity moves slowly
+  });
+}
+
 // Mutation hooks
 export function useAdjustStock() {
   const queryClient = useQueryClient();
@@ -165,3 +287,50 @@ export function useBulkAdjustStock() {
     },
   });
 }
+
+export function useAdjustDesignStock() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: adjustDesignStock,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
+
+export function useUpdateDesignStockSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateDesignStockSettings,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
+
+export function useApplyRecommendedThresholds() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: applyRecommendedThresholds,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
+
+export function useUpdateReplenishmentSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateReplenishmentSettings,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.recommendations });
+    },
+  });
+}
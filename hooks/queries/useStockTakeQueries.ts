@@ -0,0 +1,202 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type { StockTake, StockTakeLine, StockTakeSummary } from '@/types';
+
+export type StockTakeFilter = 'counting' | 'closed' | 'all';
+
+/** How often an open stock take is refreshed so counts from other people show up */
+const COUNTING_REFRESH_MS = 15_000;
+
+export interface StockTakeFormData {
+  name: string;
+  notes?: string | null;
+  /** Only count these items; every tracked item when omitted */
+  itemIds?: number[];
+}
+
+export interface StockTakeCountsData {
+  id: number;
+  counts: Array<{ lineId: number; countedQuantity: number | null }>;
+}
+
+export interface StockTakeScanData {
+  id: number;
+  code: string;
+  quantity?: number;
+  designId?: number | null;
+}
+
+interface ScanResult {
+  line: StockTakeLine;
+  summary: StockTakeSummary;
+}
+
+interface ApprovalResult {
+  stockTake: StockTake;
+  /** Corrections posted with the approval */
+  stock: { posted: number };
+}
+
+// API client functions
+async function fetchStockTakes(status: StockTakeFilter): Promise<StockTake[]> {
+  const response = await fetch(`/api/stock/takes?status=${status}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch stock takes');
+  }
+  const data = await response.json();
+  return data.stockTakes;
+}
+
+async function fetchStockTake(id: number): Promise<StockTake> {
+  const response = await fetch(`/api/stock/takes/${id}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch stock take');
+  }
+  return response.json();
+}
+
+async function createStockTake(data: StockTakeFormData): Promise<StockTake> {
+  const response = await fetch('/api/stock/takes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to start stock take');
+  }
+  return response.json();
+}
+
+async function recordStockTakeCounts({ id, counts }: StockTakeCountsData): Promise<StockTake> {
+  const response = await fetch(`/api/stock/takes/${id}/counts`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ counts }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to record counts');
+  }
+  return response.json();
+}
+
+async function scanStockTakeCode({ id, ...data }: StockTakeScanData): Promise<ScanResult> {
+  const response = await fetch(`/api/stock/takes/${id}/scan`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to record scan');
+  }
+  return response.json();
+}
+
+async function approveStockTake({ id, reason }: { id: number; reason: string }): Promise<ApprovalResult> {
+  const response = await fetch(`/api/stock/takes/${id}/approve`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reason }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to approve stock take');
+  }
+  return response.json();
+}
+
+async function cancelStockTake(id: number): Promise<StockTake> {
+  const response = await fetch(`/api/stock/takes/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: 'cancelled' }),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to cancel stock take');
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useStockTakes(status: StockTakeFilter = 'counting') {
+  return useQuery({
+    queryKey: queryKeys.stockTakes.list(status),
+    queryFn: () => fetchStockTakes(status),
+  });
+}
+
+export function useStockTake(id: number | null) {
+  return useQuery({
+    queryKey: queryKeys.stockTakes.detail(id ?? 0),
+    queryFn: () => fetchStockTake(id!),
+    enabled: id !== null,
+    refetchInterval: (query) => (query.state.data?.status === 'counting' ? COUNTING_REFRESH_MS : false),
+  });
+}
+
+// Mutation hooks
+export function useCreateStockTake() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createStockTake,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stockTakes.all });
+    },
+  });
+}
+
+export function useRecordStockTakeCounts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: recordStockTakeCounts,
+    onSuccess: (stockTake) => {
+      queryClient.setQueryData(queryKeys.stockTakes.detail(stockTake.id), stockTake);
+      queryClient.invalidateQueries({ queryKey: queryKeys.stockTakes.all });
+    },
+  });
+}
+
+export function useScanStockTakeCode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: scanStockTakeCode,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stockTakes.all });
+    },
+  });
+}
+
+export function useApproveStockTake() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: approveStockTake,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stockTakes.all });
+      // Approval corrects item and design stock
+      queryClient.invalidateQueries({ queryKey: queryKeys.stock.all });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+  });
+}
+
+export function useCancelStockTake() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: cancelStockTake,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.stockTakes.all });
+    },
+  });
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import type {
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  CreateWebhookEndpointData,
+  UpdateWebhookEndpointData,
+} from '@/types';
+
+export interface WebhookDeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface WebhookDeliveriesResponse {
+  items: WebhookDelivery[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+// API client functions
+async function fetchWebhooks(): Promise<WebhookEndpoint[]> {
+  const response = await fetch('/api/webhooks');
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch webhooks');
+  }
+  const data = await response.json();
+  return data.items;
+}
+
+async function fetchWebhookDeliveries(webhookId: number, filters: WebhookDeliveryFilters): Promise<WebhookDeliveriesResponse> {
+  const params = new URLSearchParams();
+  if (filters.status) params.append('status', filters.status);
+  if (filters.limit) params.append('limit', String(filters.limit));
+  if (filters.offset) params.append('offset', String(filters.offset));
+
+  const response = await fetch(`/api/webhooks/${webhookId}/deliveries?${params.toString()}`);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to fetch deliveries');
+  }
+  return response.json();
+}
+
+async function createWebhook(data: CreateWebhookEndpointData): Promise<WebhookEndpoint> {
+  const response = await fetch('/api/webhooks', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create webhook');
+  }
+  return response.json();
+}
+
+async function updateWebhook({ id, data }: { id: number; data: UpdateWebhookEndpointData }): Promise<WebhookEndpoint> {
+  const response = await fetch(`/api/webhooks/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update webhook');
+  }
+  return response.json();
+}
+
+async function deleteWebhook(id: number): Promise<void> {
+  const response = await fetch(`/api/webhooks/${id}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete webhook');
+  }
+}
+
+async function sendTestWebhook(id: number): Promise<WebhookDelivery> {
+  const response = await fetch(`/api/webhooks/${id}/test`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to send test event');
+  }
+  return response.json();
+}
+
+async function replayWebhookDelivery(deliveryId: number): Promise<WebhookDelivery> {
+  const response = await fetch(`/api/webhooks/deliveries/${deliveryId}/replay`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to replay delivery');
+  }
+  return response.json();
+}
+
+// Query hooks
+export function useWebhooks() {
+  return useQuery({
+    queryKey: queryKeys.webhooks.all,
+    queryFn: fetchWebhooks,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useWebhookDeliveries(webhookId: number | null, filters: WebhookDeliveryFilters = {}) {
+  return useQuery({
+    queryKey: queryKeys.webhooks.deliveries(webhookId!, filters as Record<string, unknown>),
+    queryFn: () => fetchWebhookDeliveries(webhookId!, filters),
+    enabled: !!webhookId,
+    staleTime: 10 * 1000, // Retries land in the background
+  });
+}
+
+// Mutation hooks
+export function useCreateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.all });
+    },
+  });
+}
+
+export function useUpdateWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: updateWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.all });
+    },
+  });
+}
+
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteWebhook,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.all });
+    },
+  });
+}
+
+export function useSendTestWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sendTestWebhook,
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.deliveriesFor(delivery.endpointId) });
+    },
+  });
+}
+
+export function useReplayWebhookDelivery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: replayWebhookDelivery,
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.deliveriesFor(delivery.endpointId) });
+    },
+  });
+}
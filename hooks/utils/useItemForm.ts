@@ -15,6 +15,8 @@ interface UseItemFormResult {
   color: string;
   fabric: string;
   specialFeatures: string;
+  hsnCode: string;
+  taxRate: string;
   copiedFrom: string | null;
   error: string;
   setName: (name: string) => void;
@@ -22,6 +24,8 @@ interface UseItemFormResult {
   setColor: (color: string) => void;
   setFabric: (fabric: string) => void;
   setSpecialFeatures: (features: string) => void;
+  setHsnCode: (hsnCode: string) => void;
+  setTaxRate: (taxRate: string) => void;
   setCopiedFrom: (name: string | null) => void;
   setError: (error: string) => void;
   validateForm: () => ValidationResult;
@@ -39,6 +43,8 @@ export const useItemForm = (): UseItemFormResult => {
   const [color, setColor] = useState<string>('');
   const [fabric, setFabric] = useState<string>('');
   const [specialFeatures, setSpecialFeatures] = useState<string>('');
+  const [hsnCode, setHsnCode] = useState<string>('');
+  const [taxRate, setTaxRate] = useState<string>('');
   const [copiedFrom, setCopiedFrom] = useState<string | null>(null);
   const [error, setError] = useState<string>('');
 
@@ -52,6 +58,15 @@ export const useItemForm = (): UseItemFormResult => {
       return { valid: false, error: 'Please enter a valid price' };
     }
 
+    if (hsnCode.trim() && !/^\d{4,8}$/.test(hsnCode.trim())) {
+      return { valid: false, error: 'HSN code must be 4 to 8 digits' };
+    }
+
+    const taxRateNum = Number.parseFloat(taxRate);
+    if (taxRate !== '' && (Number.isNaN(taxRateNum) || taxRateNum < 0 || taxRateNum > 100)) {
+      return { valid: false, error: 'GST rate must be between 0 and 100' };
+    }
+
     return { valid: true, priceNum };
   };
 
@@ -61,6 +76,8 @@ export const useItemForm = (): UseItemFormResult => {
     color: color.trim(),
     fabric: fabric.trim(),
     specialFeatures: specialFeatures.trim(),
+    hsnCode: hsnCode.trim(),
+    taxRate: taxRate === '' ? null : Number.parseFloat(taxRate),
     image: image,
   });
 
@@ -70,6 +87,8 @@ export const useItemForm = (): UseItemFormResult => {
     setColor('');
     setFabric('');
     setSpecialFeatures('');
+    setHsnCode('');
+    setTaxRate('');
     setCopiedFrom(null);
     setError('');
   };
@@ -80,6 +99,8 @@ export const useItemForm = (): UseItemFormResult => {
     setColor(item.color || '');
     setFabric(item.fabric || '');
     setSpecialFeatures(item.specialFeatures || '');
+    setHsnCode(item.hsnCode || '');
+    setTaxRate(item.taxRate === null || item.taxRate === undefined ? '' : String(item.taxRate));
     setCopiedFrom(item.name);
     setError('');
   };
@@ -90,6 +111,8 @@ export const useItemForm = (): UseItemFormResult => {
     color,
     fabric,
     specialFeatures,
+    hsnCode,
+    taxRate,
     copiedFrom,
     error,
     setName,
@@ -97,6 +120,8 @@ export const useItemForm = (): UseItemFormResult => {
     setColor,
     setFabric,
     setSpecialFeatures,
+    setHsnCode,
+    setTaxRate,
     setCopiedFrom,
     setError,
     validateForm,
@@ -11,12 +11,16 @@ import type {
   UpdateItemData,
   CreateOrderData,
   UpdateOrderData,
+  OrderQuote,
+  OrderQuoteRequest,
   CreateFeedbackData,
   UpdateFeedbackData,
   PaginatedResult,
   PaginationParams,
-  CursorPaginatedResult,
   CursorPaginationParams,
+  OrderSearchFilters,
+  OrderSearchSort,
+  OrderSearchResult,
   FeedbackStats,
   TokenGenerationResponse,
   TokenValidationResponse,
@@ -25,6 +29,7 @@ import type {
   ItemId,
   OrderId,
   FeedbackId,
+  OrderBoardData,
 } from '@/types';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || '/api';
@@ -114,6 +119,8 @@ export async function createItem(
     if (data.color) formData.append('color', data.color);
     if (data.fabric) formData.append('fabric', data.fabric);
     if (data.specialFeatures) formData.append('specialFeatures', data.specialFeatures);
+    if (data.hsnCode) formData.append('hsnCode', data.hsnCode);
+    if (data.taxRate !== null && data.taxRate !== undefined) formData.append('taxRate', data.taxRate.toString());
     if (data.image) formData.append('image', data.image);
 
     const response = await fetch(`${API_BASE_URL}/items`, {
@@ -182,15 +189,23 @@ export async function permanentlyDeleteItem(
 // ==================== ORDERS API ====================
 
 export async function getOrders(
-  params?: CursorPaginationParams,
+  params?: CursorPaginationParams & { filters?: OrderSearchFilters; sort?: OrderSearchSort },
   token?: string
-): Promise<CursorPaginatedResult<Order>> {
+): Promise<OrderSearchResult> {
   const queryParams = new URLSearchParams();
   if (params?.limit) queryParams.append('limit', params.limit.toString());
   if (params?.cursor) queryParams.append('cursor', params.cursor);
+  for (const [key, value] of Object.entries(params?.filters ?? {})) {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    queryParams.append(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  if (params?.sort) {
+    queryParams.append('sort', params.sort.key);
+    queryParams.append('dir', params.sort.direction);
+  }
   
   const query = queryParams.toString();
-  return fetchApi<CursorPaginatedResult<Order>>(
+  return fetchApi<OrderSearchResult>(
     `/orders${query ? `?${query}` : ''}`,
     { headers: getAuthHeaders(token) }
   );
@@ -216,6 +231,17 @@ export async function createOrder(
   });
 }
 
+export async function quoteOrder(
+  data: OrderQuoteRequest,
+  token?: string
+): Promise<OrderQuote> {
+  return fetchApi<OrderQuote>('/orders/quote', {
+    method: 'POST',
+    headers: getAuthHeaders(token),
+    body: JSON.stringify(data),
+  });
+}
+
 export async function updateOrder(
   id: OrderId,
   data: UpdateOrderData,
@@ -228,6 +254,29 @@ export async function updateOrder(
   });
 }
 
+/**
+ * Partially update an order; only the fields given are changed
+ */
+export async function patchOrder(
+  id: OrderId,
+  data: UpdateOrderData,
+  token?: string
+): Promise<Order> {
+  return fetchApi<Order>(`/orders/${id}`, {
+    method: 'PATCH',
+    headers: getAuthHeaders(token),
+    body: JSON.stringify(data),
+  });
+}
+
+export async function getOrderBoard(
+  token?: string
+): Promise<OrderBoardData> {
+  return fetchApi<OrderBoardData>('/orders/board', {
+    headers: getAuthHeaders(token),
+  });
+}
+
 export async function getPriorityOrders(
   token?: string
 ): Promise<Order[]> {
@@ -1,10 +1,13 @@
-import { drizzle } from 'drizzle-orm/neon-http';
+import { drizzle, type NeonHttpDatabase } from 'drizzle-orm/neon-http';
 import { neon } from '@neondatabase/serverless';
 import { createLogger } from '@/lib/utils/logger';
 import * as schema from '@/lib/db/schema';
 
 const logger = createLogger('PostgreSQL');
 
+/** Drizzle database over the app schema, for helpers that take the db as a parameter */
+export type Database = NeonHttpDatabase<typeof schema>;
+
 // Declare global type for database caching
 declare global {
   var neonDb: { db: any } | undefined;
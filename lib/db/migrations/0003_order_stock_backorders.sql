@@ -0,0 +1,17 @@
+-- Migration: Transactional order creation with stock deduction
+-- Description: Tracks units that were backordered because stock was short when the order was placed
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS backordered_quantity INTEGER NOT NULL DEFAULT 0;
+
+DO $$ BEGIN
+    ALTER TABLE order_items
+        ADD CONSTRAINT backordered_quantity_range
+        CHECK (backordered_quantity >= 0 AND backordered_quantity <= quantity);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+COMMIT;
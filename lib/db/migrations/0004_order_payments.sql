@@ -0,0 +1,35 @@
+-- Migration: Order payments ledger
+-- Description: Records each payment against an order; orders.paid_amount and payment_status are derived from it
+-- Date: 2026-10-19
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE payment_method AS ENUM ('upi', 'cash', 'bank_transfer', 'card', 'other');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS order_payments (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    amount NUMERIC(10, 2) NOT NULL,
+    method payment_method NOT NULL,
+    reference_number TEXT,
+    paid_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    notes TEXT,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    user_email TEXT,
+    user_name TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS order_payments_order_paid_at_idx ON order_payments (order_id, paid_at DESC);
+
+-- Carry existing paid amounts over as opening balances so the ledger matches the orders
+INSERT INTO order_payments (order_id, amount, method, paid_at, notes)
+SELECT o.id, o.paid_amount, 'other', o.updated_at, 'Opening balance migrated from paid_amount'
+FROM orders o
+WHERE o.paid_amount > 0
+  AND NOT EXISTS (SELECT 1 FROM order_payments p WHERE p.order_id = o.id);
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Migration: Order returns and refunds
+-- Description: Return requests with line items; approval restocks, records a refund payment and updates customer stats
+-- Date: 2026-10-19
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE return_status AS ENUM ('requested', 'approved', 'rejected');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS order_returns (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    status return_status NOT NULL DEFAULT 'requested',
+    reason TEXT NOT NULL,
+    refund_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    refund_method payment_method,
+    restock BOOLEAN NOT NULL DEFAULT TRUE,
+    refund_payment_id INTEGER REFERENCES order_payments(id) ON DELETE SET NULL,
+    review_notes TEXT,
+    requested_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    requested_by_email TEXT,
+    reviewed_by_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_by_email TEXT,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT refund_amount_non_negative CHECK (refund_amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS order_returns_order_created_idx ON order_returns (order_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS order_returns_status_idx ON order_returns (status);
+
+CREATE TABLE IF NOT EXISTS order_return_items (
+    id SERIAL PRIMARY KEY,
+    return_id INTEGER NOT NULL REFERENCES order_returns(id) ON DELETE CASCADE,
+    order_item_id INTEGER REFERENCES order_items(id) ON DELETE SET NULL,
+    item_id INTEGER REFERENCES items(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    price NUMERIC(10, 2) NOT NULL,
+    quantity INTEGER NOT NULL,
+    CONSTRAINT return_quantity_positive CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS order_return_items_return_idx ON order_return_items (return_id);
+CREATE INDEX IF NOT EXISTS order_return_items_order_item_idx ON order_return_items (order_item_id);
+
+COMMIT;
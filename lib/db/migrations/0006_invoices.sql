@@ -0,0 +1,39 @@
+-- Migration: GST invoices
+-- Description: HSN code and GST rate on items (snapshotted onto order items) and sequential invoice numbers per financial year
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE items ADD COLUMN IF NOT EXISTS hsn_code TEXT;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5, 2);
+
+DO $$ BEGIN
+    ALTER TABLE items ADD CONSTRAINT tax_rate_range CHECK (tax_rate IS NULL OR (tax_rate >= 0 AND tax_rate <= 100));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS hsn_code TEXT;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5, 2);
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+    financial_year TEXT PRIMARY KEY,
+    last_number INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Orders with an invoice cannot be deleted so the numbering has no silent gaps
+CREATE TABLE IF NOT EXISTS invoices (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL UNIQUE REFERENCES orders(id) ON DELETE RESTRICT,
+    invoice_number TEXT NOT NULL UNIQUE,
+    financial_year TEXT NOT NULL,
+    sequence_number INTEGER NOT NULL,
+    issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    user_email TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS invoices_financial_year_sequence_idx ON invoices (financial_year, sequence_number);
+
+COMMIT;
@@ -0,0 +1,37 @@
+-- Migration: Order tax breakdown
+-- Description: Category GST rates, customer state, and subtotal/discount/GST/shipping components on orders and order items
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5, 2);
+
+DO $$ BEGIN
+    ALTER TABLE categories ADD CONSTRAINT category_tax_rate_range CHECK (tax_rate IS NULL OR (tax_rate >= 0 AND tax_rate <= 100));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS state TEXT;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS igst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS place_of_supply TEXT;
+
+DO $$ BEGIN
+    ALTER TABLE orders ADD CONSTRAINT order_amounts_non_negative CHECK (discount_amount >= 0 AND tax_amount >= 0 AND shipping_amount >= 0);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS taxable_value NUMERIC(10, 2);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(10, 2);
+
+-- Existing orders were priced without a breakdown; their total is the subtotal
+UPDATE orders SET subtotal = total_price WHERE subtotal = 0 AND total_price <> 0;
+
+COMMIT;
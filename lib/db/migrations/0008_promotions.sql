@@ -0,0 +1,58 @@
+-- Migration: Promotions
+-- Description: Discount codes (percentage, flat, buy X get Y; optionally category-scoped) with validity windows and usage caps, applied to orders
+-- Date: 2026-10-19
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE promotion_type AS ENUM ('percentage', 'flat', 'buy_x_get_y');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS promotions (
+    id SERIAL PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    description TEXT,
+    type promotion_type NOT NULL,
+    value NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    buy_quantity INTEGER,
+    get_quantity INTEGER,
+    category_id INTEGER REFERENCES categories(id) ON DELETE RESTRICT,
+    min_order_amount NUMERIC(10, 2),
+    max_discount_amount NUMERIC(10, 2),
+    starts_at TIMESTAMPTZ,
+    ends_at TIMESTAMPTZ,
+    usage_limit INTEGER,
+    per_customer_limit INTEGER,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS promotions_category_id_idx ON promotions (category_id);
+
+DO $$ BEGIN
+    ALTER TABLE promotions ADD CONSTRAINT promotion_value_non_negative CHECK (value >= 0);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE promotions ADD CONSTRAINT promotion_buy_get_quantities CHECK (type <> 'buy_x_get_y' OR (buy_quantity > 0 AND get_quantity > 0));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Redemptions are counted in the same batch as the order insert, so the cap cannot be overrun
+DO $$ BEGIN
+    ALTER TABLE promotions ADD CONSTRAINT promotion_usage_within_limit CHECK (usage_count >= 0 AND (usage_limit IS NULL OR usage_count <= usage_limit));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promotion_id INTEGER REFERENCES promotions(id) ON DELETE RESTRICT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promotion_code TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS promotion_discount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS orders_promotion_id_idx ON orders (promotion_id);
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- Migration: Personal API keys
+-- Description: Hashed, scoped API keys per user with expiry, last-used time and a per-key rate limit;
+--              audit log values for attributing API key calls
+-- Date: 2026-10-19
+
+-- New enum values cannot be used in the transaction that adds them, so add them first
+ALTER TYPE audit_action ADD VALUE IF NOT EXISTS 'api_call';
+ALTER TYPE audit_entity ADD VALUE IF NOT EXISTS 'api_key';
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes JSONB NOT NULL,
+    rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+    expires_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys (user_id);
+
+COMMIT;
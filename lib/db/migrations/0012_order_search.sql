@@ -0,0 +1,22 @@
+-- Migration: Server-side order search
+-- Description: Enable pg_trgm and add trigram indexes for free-text order search over
+--              order ID, customer name/ID, address, notes and item names
+-- Date: 2026-10-19
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS orders_order_id_trgm_idx ON orders USING gin (order_id gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS orders_customer_name_trgm_idx ON orders USING gin (customer_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS orders_customer_id_trgm_idx ON orders USING gin (customer_id gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS orders_address_trgm_idx ON orders USING gin (address gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS orders_customer_notes_trgm_idx ON orders USING gin (customer_notes gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS order_items_name_trgm_idx ON order_items USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS order_notes_note_text_trgm_idx ON order_notes USING gin (note_text gin_trgm_ops);
+
+-- Facet filters that had no index of their own
+CREATE INDEX IF NOT EXISTS orders_delivery_status_created_idx ON orders (delivery_status, created_at DESC);
+CREATE INDEX IF NOT EXISTS orders_confirmation_status_created_idx ON orders (confirmation_status, created_at DESC);
+
+COMMIT;
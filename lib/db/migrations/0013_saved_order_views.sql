@@ -0,0 +1,34 @@
+-- Migration: Saved order views
+-- Description: Named, optionally shared order history filters, with per-user pinning and
+--              daily digest subscriptions
+-- Date: 2026-10-19
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS saved_order_views (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    query JSONB NOT NULL,
+    sort_key TEXT NOT NULL DEFAULT 'createdAt',
+    sort_direction TEXT NOT NULL DEFAULT 'desc',
+    is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT saved_order_views_sort_direction CHECK (sort_direction IN ('asc', 'desc'))
+);
+
+CREATE INDEX IF NOT EXISTS saved_order_views_user_id_idx ON saved_order_views (user_id);
+
+CREATE TABLE IF NOT EXISTS saved_order_view_preferences (
+    view_id INTEGER NOT NULL REFERENCES saved_order_views(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    pinned BOOLEAN NOT NULL DEFAULT FALSE,
+    digest_subscribed BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (view_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS saved_order_view_preferences_user_id_idx ON saved_order_view_preferences (user_id);
+
+COMMIT;
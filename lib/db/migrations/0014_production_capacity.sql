@@ -0,0 +1,29 @@
+-- Migration: Production capacity
+-- Description: Daily production capacity per weekday and per-date overrides, used by the
+--              production calendar and the delivery date suggestion
+-- Date: 2026-10-19
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS production_capacity (
+    id INTEGER PRIMARY KEY DEFAULT 1,
+    unit TEXT NOT NULL DEFAULT 'orders',
+    weekday_capacity JSONB NOT NULL,
+    min_lead_days INTEGER NOT NULL DEFAULT 0,
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT production_capacity_single_row CHECK (id = 1),
+    CONSTRAINT production_capacity_unit CHECK (unit IN ('orders', 'units')),
+    CONSTRAINT production_capacity_min_lead_days CHECK (min_lead_days >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS production_capacity_overrides (
+    date DATE PRIMARY KEY,
+    capacity INTEGER NOT NULL,
+    note TEXT,
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT production_capacity_overrides_capacity CHECK (capacity >= 0)
+);
+
+COMMIT;
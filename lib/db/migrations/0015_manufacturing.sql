@@ -0,0 +1,93 @@
+-- Migration: Manufacturing
+-- Description: Raw materials with their own stock ledger, bills of materials per item or design,
+--              and work orders for confirmed order lines that consume materials on completion
+-- Date: 2026-10-19
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE material_transaction_type AS ENUM ('restock', 'adjustment', 'consumed');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE material_reference_type AS ENUM ('manual', 'work_order');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE work_order_status AS ENUM ('planned', 'in_progress', 'completed', 'cancelled');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS materials (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    sku TEXT,
+    unit TEXT NOT NULL,
+    stock_quantity NUMERIC(12, 3) NOT NULL DEFAULT 0,
+    low_stock_threshold NUMERIC(12, 3) NOT NULL DEFAULT 0,
+    cost_per_unit NUMERIC(10, 2),
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT material_stock_non_negative CHECK (stock_quantity >= 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS materials_sku_idx ON materials (sku) WHERE sku IS NOT NULL;
+CREATE INDEX IF NOT EXISTS materials_name_idx ON materials (name);
+
+CREATE TABLE IF NOT EXISTS material_transactions (
+    id BIGSERIAL PRIMARY KEY,
+    material_id INTEGER NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    transaction_type material_transaction_type NOT NULL,
+    quantity NUMERIC(12, 3) NOT NULL,
+    previous_stock NUMERIC(12, 3),
+    new_stock NUMERIC(12, 3),
+    reference_type material_reference_type,
+    reference_id INTEGER,
+    notes TEXT,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    user_email TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS material_transactions_material_history_idx ON material_transactions (material_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS material_transactions_reference_idx ON material_transactions (reference_type, reference_id);
+
+CREATE TABLE IF NOT EXISTS bom_lines (
+    id SERIAL PRIMARY KEY,
+    item_id INTEGER NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    design_id INTEGER REFERENCES item_designs(id) ON DELETE CASCADE,
+    material_id INTEGER NOT NULL REFERENCES materials(id) ON DELETE RESTRICT,
+    quantity NUMERIC(12, 3) NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT bom_lines_quantity_positive CHECK (quantity > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bom_lines_item_material_idx ON bom_lines (item_id, material_id) WHERE design_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS bom_lines_design_material_idx ON bom_lines (design_id, material_id) WHERE design_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS bom_lines_material_id_idx ON bom_lines (material_id);
+
+CREATE TABLE IF NOT EXISTS work_orders (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    order_item_id INTEGER NOT NULL UNIQUE REFERENCES order_items(id) ON DELETE CASCADE,
+    item_id INTEGER NOT NULL REFERENCES items(id) ON DELETE RESTRICT,
+    design_id INTEGER REFERENCES item_designs(id) ON DELETE SET NULL,
+    quantity INTEGER NOT NULL,
+    status work_order_status NOT NULL DEFAULT 'planned',
+    notes TEXT,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    completed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT work_orders_quantity_positive CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS work_orders_order_id_idx ON work_orders (order_id);
+CREATE INDEX IF NOT EXISTS work_orders_open_idx ON work_orders (status, created_at) WHERE status IN ('planned', 'in_progress');
+
+COMMIT;
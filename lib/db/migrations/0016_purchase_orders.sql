@@ -0,0 +1,64 @@
+-- Migration: Purchase orders
+-- Description: Suppliers with contacts, lead times and payment terms, and purchase orders whose
+--              lines are received (possibly in parts) into stock as 'purchase_order' restocks
+-- Date: 2026-10-19
+
+-- New enum values cannot be used in the transaction that adds them, so add them first
+ALTER TYPE stock_reference_type ADD VALUE IF NOT EXISTS 'purchase_order';
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE purchase_order_status AS ENUM ('draft', 'ordered', 'partially_received', 'received', 'cancelled');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS suppliers (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    contact_name TEXT,
+    email TEXT,
+    phone TEXT,
+    address TEXT,
+    lead_time_days INTEGER,
+    payment_terms TEXT,
+    notes TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT suppliers_lead_time_non_negative CHECK (lead_time_days IS NULL OR lead_time_days >= 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS suppliers_name_idx ON suppliers (lower(name));
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+    id SERIAL PRIMARY KEY,
+    supplier_id INTEGER NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+    status purchase_order_status NOT NULL DEFAULT 'draft',
+    expected_date DATE,
+    notes TEXT,
+    ordered_at TIMESTAMPTZ,
+    received_at TIMESTAMPTZ,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS purchase_orders_supplier_id_idx ON purchase_orders (supplier_id);
+CREATE INDEX IF NOT EXISTS purchase_orders_open_idx ON purchase_orders (expected_date) WHERE status IN ('ordered', 'partially_received');
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+    id SERIAL PRIMARY KEY,
+    purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    item_id INTEGER NOT NULL REFERENCES items(id) ON DELETE RESTRICT,
+    quantity_ordered INTEGER NOT NULL,
+    quantity_received INTEGER NOT NULL DEFAULT 0,
+    unit_cost NUMERIC(10, 2) NOT NULL,
+    CONSTRAINT purchase_order_items_quantity_positive CHECK (quantity_ordered > 0),
+    CONSTRAINT purchase_order_items_received_range CHECK (quantity_received >= 0 AND quantity_received <= quantity_ordered),
+    CONSTRAINT purchase_order_items_unit_cost_non_negative CHECK (unit_cost >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS purchase_order_items_purchase_order_id_idx ON purchase_order_items (purchase_order_id);
+CREATE INDEX IF NOT EXISTS purchase_order_items_item_id_idx ON purchase_order_items (item_id);
+
+COMMIT;
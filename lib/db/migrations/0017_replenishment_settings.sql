@@ -0,0 +1,24 @@
+-- Migration: Replenishment settings
+-- Description: Sales velocity windows, safety stock and cover targets used for reorder
+--              suggestions, and whether they update low-stock thresholds and go in the digest
+-- Date: 2026-10-19
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS replenishment_settings (
+    id INTEGER PRIMARY KEY DEFAULT 1,
+    short_window_days INTEGER NOT NULL DEFAULT 30,
+    long_window_days INTEGER NOT NULL DEFAULT 90,
+    safety_stock_days INTEGER NOT NULL DEFAULT 7,
+    target_cover_days INTEGER NOT NULL DEFAULT 30,
+    default_lead_time_days INTEGER NOT NULL DEFAULT 14,
+    auto_update_thresholds BOOLEAN NOT NULL DEFAULT FALSE,
+    include_in_digest BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT replenishment_settings_single_row CHECK (id = 1),
+    CONSTRAINT replenishment_settings_windows CHECK (short_window_days > 0 AND long_window_days >= short_window_days),
+    CONSTRAINT replenishment_settings_days_non_negative CHECK (safety_stock_days >= 0 AND target_cover_days > 0 AND default_lead_time_days >= 0)
+);
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Migration: Stock reservations
+-- Description: Stock held for orders between placing and shipping, so available stock is
+--              on hand less what open orders have reserved
+-- Date: 2026-10-19
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    item_id INTEGER NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL,
+    expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT stock_reservations_quantity_positive CHECK (quantity > 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_reservations_order_item_idx ON stock_reservations (order_id, item_id);
+CREATE INDEX IF NOT EXISTS stock_reservations_item_id_idx ON stock_reservations (item_id);
+
+COMMIT;
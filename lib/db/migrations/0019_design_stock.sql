@@ -0,0 +1,39 @@
+-- Migration: Per-design stock
+-- Description: Optional stock quantity and low-stock threshold per design, with ledger rows and
+--              reservations that reference the design whose stock they moved
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE item_designs
+    ADD COLUMN IF NOT EXISTS stock_quantity INTEGER,
+    ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER;
+
+DO $$ BEGIN
+    ALTER TABLE item_designs
+        ADD CONSTRAINT item_designs_stock_non_negative
+        CHECK (stock_quantity IS NULL OR stock_quantity >= 0);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE stock_transactions
+    ADD COLUMN IF NOT EXISTS design_id INTEGER REFERENCES item_designs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS stock_transactions_design_id_idx ON stock_transactions (design_id);
+
+ALTER TABLE stock_reservations
+    ADD COLUMN IF NOT EXISTS design_id INTEGER REFERENCES item_designs(id) ON DELETE CASCADE;
+
+-- An order now reserves per item and design
+DROP INDEX IF EXISTS stock_reservations_order_item_idx;
+
+DO $$ BEGIN
+    ALTER TABLE stock_reservations
+        ADD CONSTRAINT stock_reservations_order_line_key
+        UNIQUE NULLS NOT DISTINCT (order_id, item_id, design_id);
+EXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS stock_reservations_design_id_idx ON stock_reservations (design_id);
+
+COMMIT;
@@ -0,0 +1,50 @@
+-- Migration: Stock takes
+-- Description: Cycle count sessions that snapshot expected stock per item and design, collect counts
+--              from several users and post the variances as 'stock_take' adjustments on approval
+-- Date: 2026-10-19
+
+-- New enum values cannot be used in the transaction that adds them, so add them first
+ALTER TYPE stock_reference_type ADD VALUE IF NOT EXISTS 'stock_take';
+ALTER TYPE audit_entity ADD VALUE IF NOT EXISTS 'stock_take';
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE stock_take_status AS ENUM ('counting', 'approved', 'cancelled');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS stock_takes (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    status stock_take_status NOT NULL DEFAULT 'counting',
+    notes TEXT,
+    reason TEXT,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    approved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    approved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS stock_takes_status_idx ON stock_takes (status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS stock_take_lines (
+    id SERIAL PRIMARY KEY,
+    stock_take_id INTEGER NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+    item_id INTEGER NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    design_id INTEGER REFERENCES item_designs(id) ON DELETE CASCADE,
+    expected_quantity INTEGER NOT NULL,
+    counted_quantity INTEGER,
+    unit_cost NUMERIC(10, 2),
+    counted_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    counted_by_email TEXT,
+    counted_at TIMESTAMPTZ,
+    CONSTRAINT stock_take_lines_line_key UNIQUE NULLS NOT DISTINCT (stock_take_id, item_id, design_id),
+    CONSTRAINT stock_take_lines_quantities_non_negative
+        CHECK (expected_quantity >= 0 AND (counted_quantity IS NULL OR counted_quantity >= 0))
+);
+
+CREATE INDEX IF NOT EXISTS stock_take_lines_item_id_idx ON stock_take_lines (item_id);
+
+COMMIT;
@@ -0,0 +1,40 @@
+-- Migration: Customer merges
+-- Description: Duplicate customers can be merged into a survivor and the merge undone later.
+--              Merged customers stay in place (merged_into_id points at the survivor) and
+--              customer_merges records the re-pointed orders and the survivor's old details
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS merged_into_id INTEGER REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS customers_merged_into_id_idx ON customers (merged_into_id);
+
+CREATE TABLE IF NOT EXISTS customer_merges (
+    id SERIAL PRIMARY KEY,
+    survivor_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    merged_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    orders JSONB NOT NULL,
+    survivor_before JSONB NOT NULL,
+    survivor_after JSONB NOT NULL,
+    score INTEGER,
+    merged_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    reverted_at TIMESTAMPTZ,
+    reverted_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS customer_merges_survivor_id_idx ON customer_merges (survivor_id);
+CREATE INDEX IF NOT EXISTS customer_merges_merged_id_idx ON customer_merges (merged_id);
+CREATE INDEX IF NOT EXISTS customer_merges_created_at_idx ON customer_merges (created_at DESC);
+
+CREATE TABLE IF NOT EXISTS customer_duplicate_dismissals (
+    customer_id_1 INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    customer_id_2 INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    dismissed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (customer_id_1, customer_id_2),
+    CONSTRAINT customer_duplicate_dismissals_ordered CHECK (customer_id_1 < customer_id_2)
+);
+
+COMMIT;
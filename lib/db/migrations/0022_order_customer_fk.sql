@@ -0,0 +1,18 @@
+-- Migration: Order customer FK
+-- Description: Every order belongs to a customers row. Customers with orders can no longer be
+--              deleted (merge them instead). Existing orders are linked by the customer backfill
+--              job (Customers > Link Orders), which sets orders.customer_id_ref NOT NULL once
+--              none are left unlinked; until then the column stays nullable
+-- Date: 2026-10-19
+
+-- New enum values cannot be used in the transaction that adds them, so add them first
+ALTER TYPE job_type ADD VALUE IF NOT EXISTS 'backfill';
+
+BEGIN;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_customer_id_ref_fkey;
+ALTER TABLE orders
+    ADD CONSTRAINT orders_customer_id_ref_fkey
+    FOREIGN KEY (customer_id_ref) REFERENCES customers(id) ON DELETE RESTRICT;
+
+COMMIT;
@@ -0,0 +1,32 @@
+-- Migration: Customer segments
+-- Description: RFM (recency, frequency, monetary) scores and a lifecycle stage on each customer,
+--              filled in by the nightly scorer, and saved segments defined by rules over
+--              customer fields, order sources and purchased categories
+-- Date: 2026-10-19
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE customer_lifecycle_stage AS ENUM ('new', 'active', 'loyal', 'at_risk', 'lost');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS recency_score INTEGER;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS frequency_score INTEGER;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS monetary_score INTEGER;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS lifecycle_stage customer_lifecycle_stage;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS rfm_scored_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS customers_lifecycle_stage_idx ON customers (lifecycle_stage);
+
+CREATE TABLE IF NOT EXISTS customer_segments (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    rules JSONB NOT NULL,
+    created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMIT;
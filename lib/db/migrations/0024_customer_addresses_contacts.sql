@@ -0,0 +1,91 @@
+-- Migration: Customer addresses and contact channels
+-- Description: Customers get any number of structured addresses (one default) and contacts
+--              on phone, WhatsApp, Instagram, Facebook and email. Orders keep the saved address
+--              they were sent to and a snapshot of it. Existing customer addresses, phones and
+--              emails, and the Instagram handles and WhatsApp numbers orders were placed with,
+--              are copied into the new tables.
+-- Date: 2026-10-19
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE customer_contact_channel AS ENUM ('phone', 'whatsapp', 'instagram', 'facebook', 'email');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS customer_addresses (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    label TEXT,
+    line1 TEXT NOT NULL,
+    line2 TEXT,
+    city TEXT,
+    state TEXT,
+    pin_code TEXT,
+    landmark TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS customer_addresses_customer_id_idx ON customer_addresses (customer_id);
+CREATE UNIQUE INDEX IF NOT EXISTS customer_addresses_default_idx ON customer_addresses (customer_id) WHERE is_default = TRUE;
+
+CREATE TABLE IF NOT EXISTS customer_contacts (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    channel customer_contact_channel NOT NULL,
+    value TEXT NOT NULL,
+    normalized_value TEXT NOT NULL,
+    label TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT customer_contacts_customer_channel_value_key UNIQUE (customer_id, channel, normalized_value)
+);
+
+CREATE INDEX IF NOT EXISTS customer_contacts_customer_id_idx ON customer_contacts (customer_id);
+CREATE INDEX IF NOT EXISTS customer_contacts_normalized_value_idx ON customer_contacts (normalized_value);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS customer_address_id INTEGER REFERENCES customer_addresses(id) ON DELETE SET NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS address_snapshot JSONB;
+
+-- The old free-text address becomes line 1 of the default address, with any 6-digit PIN code picked out
+INSERT INTO customer_addresses (customer_id, line1, state, pin_code, is_default)
+SELECT c.id, trim(c.address), c.state, (regexp_match(c.address, '\y(\d{6})\y'))[1], TRUE
+FROM customers c
+WHERE trim(COALESCE(c.address, '')) <> ''
+  AND NOT EXISTS (SELECT 1 FROM customer_addresses a WHERE a.customer_id = c.id);
+
+-- Normalized the same way as lib/utils/customerContactUtils.ts: the last 10 digits of a phone
+-- number, a lower-case email, and a lower-case handle without "@"
+INSERT INTO customer_contacts (customer_id, channel, value, normalized_value)
+SELECT id, 'phone', trim(phone), right(regexp_replace(phone, '\D', '', 'g'), 10)
+FROM customers
+WHERE length(regexp_replace(COALESCE(phone, ''), '\D', '', 'g')) >= 7
+ON CONFLICT DO NOTHING;
+
+INSERT INTO customer_contacts (customer_id, channel, value, normalized_value)
+SELECT id, 'email', trim(email), lower(trim(email))
+FROM customers
+WHERE email LIKE '%@%'
+ON CONFLICT DO NOTHING;
+
+-- Orders taken on Instagram or WhatsApp were keyed by the customer's handle or number
+INSERT INTO customer_contacts (customer_id, channel, value, normalized_value)
+SELECT DISTINCT ON (customer_id_ref, lower(ltrim(trim(customer_id), '@')))
+    customer_id_ref, 'instagram'::customer_contact_channel, trim(customer_id), lower(ltrim(trim(customer_id), '@'))
+FROM orders
+WHERE order_from = 'instagram'
+  AND customer_id !~ '^\+?[\d\s-]{10,16}$'
+  AND customer_id !~* '^CUST-'
+  AND ltrim(trim(customer_id), '@') <> ''
+ON CONFLICT DO NOTHING;
+
+INSERT INTO customer_contacts (customer_id, channel, value, normalized_value)
+SELECT DISTINCT ON (customer_id_ref, right(regexp_replace(customer_id, '\D', '', 'g'), 10))
+    customer_id_ref, 'whatsapp'::customer_contact_channel, trim(customer_id), right(regexp_replace(customer_id, '\D', '', 'g'), 10)
+FROM orders
+WHERE order_from = 'whatsapp'
+  AND customer_id ~ '^\+?[\d\s-]{10,16}$'
+ON CONFLICT DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,74 @@
+-- Migration: Customer loyalty points and store credit
+-- Description: A ledger of points earned on paid orders, redeemed as discounts, reversed, restored
+--              and expired, and of store credit from refunds; running balances on customers,
+--              the points spent on each order, and the earn, redemption and expiry settings
+-- Date: 2026-10-19
+
+-- New enum values cannot be used in the transaction that adds them, so add them first
+ALTER TYPE payment_method ADD VALUE IF NOT EXISTS 'store_credit';
+
+BEGIN;
+
+DO $$ BEGIN
+    CREATE TYPE loyalty_balance_kind AS ENUM ('points', 'store_credit');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE loyalty_entry_type AS ENUM ('earn', 'reverse', 'redeem', 'spend', 'restore', 'refund', 'expire', 'adjust');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS loyalty_points INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS store_credit NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+DO $$ BEGIN
+    ALTER TABLE customers ADD CONSTRAINT customers_loyalty_points_non_negative CHECK (loyalty_points >= 0);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE customers ADD CONSTRAINT customers_store_credit_non_negative CHECK (store_credit >= 0);
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS loyalty_discount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS customer_loyalty_entries (
+    id SERIAL PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    kind loyalty_balance_kind NOT NULL,
+    type loyalty_entry_type NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL,
+    order_id INTEGER REFERENCES orders(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ,
+    notes TEXT,
+    user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    user_email TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT customer_loyalty_entries_amount_non_zero CHECK (amount <> 0),
+    CONSTRAINT customer_loyalty_entries_whole_points CHECK (kind <> 'points' OR amount = TRUNC(amount))
+);
+
+CREATE INDEX IF NOT EXISTS customer_loyalty_entries_customer_idx ON customer_loyalty_entries (customer_id, kind, created_at DESC);
+CREATE INDEX IF NOT EXISTS customer_loyalty_entries_order_id_idx ON customer_loyalty_entries (order_id);
+CREATE UNIQUE INDEX IF NOT EXISTS customer_loyalty_entries_order_earn_idx ON customer_loyalty_entries (order_id) WHERE type = 'earn';
+
+CREATE TABLE IF NOT EXISTS loyalty_settings (
+    id INTEGER PRIMARY KEY DEFAULT 1,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    points_per_hundred NUMERIC(8, 2) NOT NULL DEFAULT 1,
+    point_value NUMERIC(8, 2) NOT NULL DEFAULT 1,
+    min_redeem_points INTEGER NOT NULL DEFAULT 100,
+    max_redeem_percent INTEGER NOT NULL DEFAULT 50,
+    points_expiry_days INTEGER DEFAULT 365,
+    updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT loyalty_settings_single_row CHECK (id = 1),
+    CONSTRAINT loyalty_settings_rates_positive CHECK (points_per_hundred >= 0 AND point_value > 0 AND min_redeem_points >= 0),
+    CONSTRAINT loyalty_settings_max_redeem_percent CHECK (max_redeem_percent BETWEEN 1 AND 100),
+    CONSTRAINT loyalty_settings_expiry_positive CHECK (points_expiry_days IS NULL OR points_expiry_days > 0)
+);
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Migration: Move loyalty, addresses and contacts with a customer merge
+-- Description: A merge now moves the merged customer's loyalty ledger entries and balances,
+--              saved addresses and contact channels to the survivor; customer_merges records
+--              what moved so undoing the merge can move it back
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE customer_merges ADD COLUMN IF NOT EXISTS loyalty_entries JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE customer_merges ADD COLUMN IF NOT EXISTS loyalty_points INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE customer_merges ADD COLUMN IF NOT EXISTS store_credit NUMERIC(12, 2) NOT NULL DEFAULT 0;
+ALTER TABLE customer_merges ADD COLUMN IF NOT EXISTS addresses JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE customer_merges ADD COLUMN IF NOT EXISTS contacts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Migration: Saved view digest sends
+-- Description: Records each subscriber a day's saved view digest was emailed to, so a
+--              digest run retried after a failure does not email them again
+-- Date: 2026-10-19
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS saved_view_digest_sends (
+    digest_date DATE NOT NULL,
+    email TEXT NOT NULL,
+    sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (digest_date, email)
+);
+
+COMMIT;
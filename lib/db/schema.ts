@@ -2,12 +2,15 @@ import {
   pgTable,
   serial,
   bigserial,
+  bigint,
   text,
   numeric,
   timestamp,
   integer,
   pgEnum,
   index,
+  uniqueIndex,
+  unique,
   date,
   boolean,
   primaryKey,
@@ -39,10 +42,10 @@ export const confirmationStatusEnum = pgEnum('confirmation_status', ['unconfirme
 export const deliveryStatusEnum = pgEnum('delivery_status', ['not_shipped', 'shipped', 'in_transit', 'out_for_delivery', 'delivered', 'returned']);
 export const userRoleEnum = pgEnum('user_role', ['admin', 'user']);
 export const auditActionEnum = pgEnum('audit_action', [
-  'create', 'update', 'delete', 'restore', 'bulk_import', 'bulk_export', 'bulk_update', 'bulk_delete'
+  'create', 'update', 'delete', 'restore', 'bulk_import', 'bulk_export', 'bulk_update', 'bulk_delete', 'api_call'
 ]);
 export const auditEntityEnum = pgEnum('audit_entity', [
-  'order', 'item', 'category', 'tag', 'user', 'feedback', 'customer'
+  'order', 'item', 'category', 'tag', 'user', 'feedback', 'customer', 'api_key', 'stock_take'
 ]);
 export const customerSourceEnum = pgEnum('customer_source', ['walk-in', 'online', 'referral', 'other']);
 export const orderNoteTypeEnum = pgEnum('order_note_type', ['internal', 'customer', 'system']);
@@ -50,9 +53,24 @@ export const stockTransactionTypeEnum = pgEnum('stock_transaction_type', [
   'order_placed', 'order_cancelled', 'adjustment', 'restock', 'return'
 ]);
 export const digestStatusEnum = pgEnum('digest_status', ['pending', 'started', 'running', 'sent', 'completed', 'failed']);
-export const jobTypeEnum = pgEnum('job_type', ['import', 'export']);
+export const jobTypeEnum = pgEnum('job_type', ['import', 'export', 'backfill']);
 export const jobStatusEnum = pgEnum('job_status', ['pending', 'processing', 'completed', 'failed']);
-export const stockReferenceTypeEnum = pgEnum('stock_reference_type', ['order', 'manual', 'return', 'adjustment']);
+export const stockReferenceTypeEnum = pgEnum('stock_reference_type', ['order', 'manual', 'return', 'adjustment', 'purchase_order', 'stock_take']);
+export const paymentMethodEnum = pgEnum('payment_method', ['upi', 'cash', 'bank_transfer', 'card', 'other', 'store_credit']);
+export const returnStatusEnum = pgEnum('return_status', ['requested', 'approved', 'rejected']);
+export const promotionTypeEnum = pgEnum('promotion_type', ['percentage', 'flat', 'buy_x_get_y']);
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', ['pending', 'succeeded', 'failed']);
+export const materialTransactionTypeEnum = pgEnum('material_transaction_type', ['restock', 'adjustment', 'consumed']);
+export const materialReferenceTypeEnum = pgEnum('material_reference_type', ['manual', 'work_order']);
+export const workOrderStatusEnum = pgEnum('work_order_status', ['planned', 'in_progress', 'completed', 'cancelled']);
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['draft', 'ordered', 'partially_received', 'received', 'cancelled']);
+export const stockTakeStatusEnum = pgEnum('stock_take_status', ['counting', 'approved', 'cancelled']);
+export const customerLifecycleStageEnum = pgEnum('customer_lifecycle_stage', ['new', 'active', 'loyal', 'at_risk', 'lost']);
+export const customerContactChannelEnum = pgEnum('customer_contact_channel', ['phone', 'whatsapp', 'instagram', 'facebook', 'email']);
+export const loyaltyBalanceKindEnum = pgEnum('loyalty_balance_kind', ['points', 'store_credit']);
+export const loyaltyEntryTypeEnum = pgEnum('loyalty_entry_type', [
+  'earn', 'reverse', 'redeem', 'spend', 'restore', 'refund', 'expire', 'adjust'
+]);
 
 // ============================================
 // Users Table
@@ -91,6 +109,9 @@ export const items = pgTable('items', {
   costPrice: numeric('cost_price', { precision: 10, scale: 2 }),
   supplierName: text('supplier_name'),
   supplierSku: text('supplier_sku'),
+  // GST fields used on invoices
+  hsnCode: text('hsn_code'),
+  taxRate: numeric('tax_rate', { precision: 5, scale: 2 }), // GST percentage, prices are tax-inclusive
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
   deletedAt: timestamp('deleted_at', { withTimezone: true })
@@ -105,7 +126,8 @@ export const items = pgTable('items', {
   // Stock quantity for range queries
   index('items_stock_quantity_idx').on(table.stockQuantity),
   // Check constraint for non-negative stock
-  check('stock_non_negative', sql`stock_quantity >= 0`)
+  check('stock_non_negative', sql`stock_quantity >= 0`),
+  check('tax_rate_range', sql`tax_rate IS NULL OR (tax_rate >= 0 AND tax_rate <= 100)`)
 ]);
 
 // ============================================
@@ -119,11 +141,15 @@ export const itemDesigns = pgTable('item_designs', {
   imageUrl: text('image_url').notNull(),
   isPrimary: boolean('is_primary').default(false).notNull(),
   displayOrder: integer('display_order').default(0).notNull(),
+  // Per-design stock: a subset of the item's stock; NULL when the design is not counted separately
+  stockQuantity: integer('stock_quantity'),
+  lowStockThreshold: integer('low_stock_threshold'), // NULL = use the item's threshold
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
 }, (table) => [
   index('item_designs_item_id_idx').on(table.itemId),
   // Partial index for primary designs only
-  index('item_designs_primary_idx').on(table.itemId).where(sql`${table.isPrimary} = true`)
+  index('item_designs_primary_idx').on(table.itemId).where(sql`${table.isPrimary} = true`),
+  check('item_designs_stock_non_negative', sql`stock_quantity IS NULL OR stock_quantity >= 0`)
 ]);
 
 // ============================================
@@ -137,12 +163,24 @@ export const customers = pgTable('customers', {
   email: text('email'),
   phone: text('phone'),
   address: text('address'),
+  state: text('state'), // Indian state, used as the default GST place of supply
   source: customerSourceEnum('source'),
   totalOrders: integer('total_orders').default(0).notNull(),
   totalSpent: numeric('total_spent', { precision: 10, scale: 2 }).default('0').notNull(),
   firstOrderDate: timestamp('first_order_date', { withTimezone: true }),
   lastOrderDate: timestamp('last_order_date', { withTimezone: true }),
   notes: text('notes'),
+  // Set when merged into another customer; the row is kept so the merge can be undone
+  mergedIntoId: integer('merged_into_id').references((): AnyPgColumn => customers.id, { onDelete: 'set null' }),
+  // RFM scores (1-5, 5 best) and lifecycle stage from the nightly scorer; null without orders
+  recencyScore: integer('recency_score'),
+  frequencyScore: integer('frequency_score'),
+  monetaryScore: integer('monetary_score'),
+  lifecycleStage: customerLifecycleStageEnum('lifecycle_stage'),
+  rfmScoredAt: timestamp('rfm_scored_at', { withTimezone: true }),
+  // Balances kept in step with customer_loyalty_entries; the checks stop either going negative
+  loyaltyPoints: integer('loyalty_points').default(0).notNull(),
+  storeCredit: numeric('store_credit', { precision: 12, scale: 2 }).default('0').notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
 }, (table) => [
@@ -151,7 +189,94 @@ export const customers = pgTable('customers', {
   index('customers_email_idx').on(table.email),
   index('customers_phone_idx').on(table.phone),
   index('customers_source_idx').on(table.source),
-  index('customers_last_order_date_idx').on(table.lastOrderDate)
+  index('customers_last_order_date_idx').on(table.lastOrderDate),
+  index('customers_merged_into_id_idx').on(table.mergedIntoId),
+  index('customers_lifecycle_stage_idx').on(table.lifecycleStage),
+  check('customers_loyalty_points_non_negative', sql`loyalty_points >= 0`),
+  check('customers_store_credit_non_negative', sql`store_credit >= 0`)
+]);
+
+// ============================================
+// Customer Addresses & Contacts
+// ============================================
+
+// Saved delivery addresses; the default one is copied to customers.address and state
+export const customerAddresses = pgTable('customer_addresses', {
+  id: serial('id').primaryKey(),
+  customerId: integer('customer_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  label: text('label'), // e.g. "Home", "Office"
+  line1: text('line1').notNull(),
+  line2: text('line2'),
+  city: text('city'),
+  state: text('state'),
+  pinCode: text('pin_code'),
+  landmark: text('landmark'),
+  isDefault: boolean('is_default').default(false).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('customer_addresses_customer_id_idx').on(table.customerId),
+  uniqueIndex('customer_addresses_default_idx').on(table.customerId).where(sql`${table.isDefault} = true`)
+]);
+
+// Ways to reach a customer; normalized_value (digits, lower-case handle or email) is what search compares
+export const customerContacts = pgTable('customer_contacts', {
+  id: serial('id').primaryKey(),
+  customerId: integer('customer_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  channel: customerContactChannelEnum('channel').notNull(),
+  value: text('value').notNull(),
+  normalizedValue: text('normalized_value').notNull(),
+  label: text('label'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('customer_contacts_customer_id_idx').on(table.customerId),
+  index('customer_contacts_normalized_value_idx').on(table.normalizedValue),
+  unique('customer_contacts_customer_channel_value_key').on(table.customerId, table.channel, table.normalizedValue)
+]);
+
+// ============================================
+// Customer Loyalty & Store Credit
+// ============================================
+
+// Every change to a customer's points or store credit; customers.loyalty_points and
+// store_credit are the running totals
+export const customerLoyaltyEntries = pgTable('customer_loyalty_entries', {
+  id: serial('id').primaryKey(),
+  customerId: integer('customer_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  kind: loyaltyBalanceKindEnum('kind').notNull(),
+  type: loyaltyEntryTypeEnum('type').notNull(),
+  amount: numeric('amount', { precision: 12, scale: 2 }).notNull(), // Signed; whole numbers for points
+  orderId: integer('order_id').references((): AnyPgColumn => orders.id, { onDelete: 'set null' }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }), // Earned points only
+  notes: text('notes'),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  userEmail: text('user_email'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  // Composite for a customer's history, newest first
+  index('customer_loyalty_entries_customer_idx').on(table.customerId, table.kind, table.createdAt.desc()),
+  index('customer_loyalty_entries_order_id_idx').on(table.orderId),
+  // An order earns points once
+  uniqueIndex('customer_loyalty_entries_order_earn_idx').on(table.orderId).where(sql`${table.type} = 'earn'`),
+  check('customer_loyalty_entries_amount_non_zero', sql`amount <> 0`),
+  check('customer_loyalty_entries_whole_points', sql`kind <> 'points' OR amount = TRUNC(amount)`)
+]);
+
+export const loyaltySettings = pgTable('loyalty_settings', {
+  id: integer('id').primaryKey().default(1),
+  enabled: boolean('enabled').default(false).notNull(),
+  pointsPerHundred: numeric('points_per_hundred', { precision: 8, scale: 2 }).default('1').notNull(), // Points per Rs. 100 paid
+  pointValue: numeric('point_value', { precision: 8, scale: 2 }).default('1').notNull(), // Rupees per point redeemed
+  minRedeemPoints: integer('min_redeem_points').default(100).notNull(),
+  maxRedeemPercent: integer('max_redeem_percent').default(50).notNull(),
+  pointsExpiryDays: integer('points_expiry_days').default(365), // Null: points never expire
+  updatedBy: integer('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, () => [
+  check('loyalty_settings_single_row', sql`id = 1`),
+  check('loyalty_settings_rates_positive', sql`points_per_hundred >= 0 AND point_value > 0 AND min_redeem_points >= 0`),
+  check('loyalty_settings_max_redeem_percent', sql`max_redeem_percent BETWEEN 1 AND 100`),
+  check('loyalty_settings_expiry_positive', sql`points_expiry_days IS NULL OR points_expiry_days > 0`)
 ]);
 
 // ============================================
@@ -164,9 +289,36 @@ export const orders = pgTable('orders', {
   orderFrom: orderFromEnum('order_from').notNull(),
   customerName: text('customer_name').notNull(),
   customerId: text('customer_id').notNull(),
-  customerIdRef: integer('customer_id_ref').references(() => customers.id, { onDelete: 'set null' }),
+  // Nullable until the customer backfill links every existing order and sets NOT NULL (see migration 0022)
+  customerIdRef: integer('customer_id_ref').references(() => customers.id, { onDelete: 'restrict' }),
   address: text('address'),
+  // The saved address picked for the order, and a copy of it so later edits do not change the order
+  customerAddressId: integer('customer_address_id').references(() => customerAddresses.id, { onDelete: 'set null' }),
+  addressSnapshot: jsonb('address_snapshot').$type<{
+    label: string | null;
+    line1: string;
+    line2: string | null;
+    city: string | null;
+    state: string | null;
+    pinCode: string | null;
+    landmark: string | null;
+  }>(),
   totalPrice: numeric('total_price', { precision: 10, scale: 2 }).notNull(),
+  // Breakdown of totalPrice: subtotal - discount + (exclusive tax) + shipping
+  subtotal: numeric('subtotal', { precision: 10, scale: 2 }).default('0').notNull(),
+  discountAmount: numeric('discount_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  taxAmount: numeric('tax_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  cgstAmount: numeric('cgst_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  sgstAmount: numeric('sgst_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  igstAmount: numeric('igst_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  shippingAmount: numeric('shipping_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  pricesIncludeTax: boolean('prices_include_tax').default(true).notNull(),
+  placeOfSupply: text('place_of_supply'), // Indian state; differs from the seller's state for IGST
+  promotionId: integer('promotion_id').references((): AnyPgColumn => promotions.id, { onDelete: 'restrict' }),
+  promotionCode: text('promotion_code'), // Snapshot of the code applied at order time
+  promotionDiscount: numeric('promotion_discount', { precision: 10, scale: 2 }).default('0').notNull(), // Part of discountAmount
+  loyaltyPointsRedeemed: integer('loyalty_points_redeemed').default(0).notNull(),
+  loyaltyDiscount: numeric('loyalty_discount', { precision: 10, scale: 2 }).default('0').notNull(), // Part of discountAmount
   status: orderStatusEnum('status').default('pending').notNull(),
   paymentStatus: paymentStatusEnum('payment_status').default('unpaid').notNull(),
   paidAmount: numeric('paid_amount', { precision: 10, scale: 2 }).default('0').notNull(),
@@ -185,15 +337,20 @@ export const orders = pgTable('orders', {
   // Note: unique on orderId already creates index
   index('orders_customer_id_idx').on(table.customerId),
   index('orders_customer_id_ref_idx').on(table.customerIdRef),
+  index('orders_promotion_id_idx').on(table.promotionId),
   index('orders_delivery_date_idx').on(table.expectedDeliveryDate),
   index('orders_priority_idx').on(table.priority),
   // Composite indexes for common dashboard queries
   index('orders_status_created_idx').on(table.status, table.createdAt.desc()),
   index('orders_payment_status_created_idx').on(table.paymentStatus, table.createdAt.desc()),
+  index('orders_delivery_status_created_idx').on(table.deliveryStatus, table.createdAt.desc()),
+  index('orders_confirmation_status_created_idx').on(table.confirmationStatus, table.createdAt.desc()),
+  // Trigram (pg_trgm) indexes for order search are created in migration 0012
   // Composite index for cursor-based pagination (created_at DESC, id DESC)
   index('orders_created_at_id_idx').on(table.createdAt.desc(), table.id.desc()),
   // Check constraint for priority
-  check('priority_range', sql`priority >= 0 AND priority <= 10`)
+  check('priority_range', sql`priority >= 0 AND priority <= 10`),
+  check('order_amounts_non_negative', sql`discount_amount >= 0 AND tax_amount >= 0 AND shipping_amount >= 0`)
 ]);
 
 // ============================================
@@ -208,7 +365,12 @@ export const orderItems = pgTable('order_items', {
   name: text('name').notNull(),
   price: numeric('price', { precision: 10, scale: 2 }).notNull(),
   costPrice: numeric('cost_price', { precision: 10, scale: 2 }), // Snapshot of cost at order time
+  hsnCode: text('hsn_code'), // Snapshot of the item's HSN code at order time
+  taxRate: numeric('tax_rate', { precision: 5, scale: 2 }), // Snapshot of the item's GST rate at order time
+  taxableValue: numeric('taxable_value', { precision: 10, scale: 2 }), // Line value net of discount and GST
+  taxAmount: numeric('tax_amount', { precision: 10, scale: 2 }), // GST on the line after discount
   quantity: integer('quantity').notNull(),
+  backorderedQuantity: integer('backordered_quantity').default(0).notNull(), // Units not covered by stock when the order was placed, or when it shipped
   customizationRequest: text('customization_request'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
@@ -216,7 +378,8 @@ export const orderItems = pgTable('order_items', {
   index('order_items_order_id_idx').on(table.orderId),
   index('order_items_item_id_idx').on(table.itemId),
   // Check constraint for positive quantity
-  check('quantity_positive', sql`quantity > 0`)
+  check('quantity_positive', sql`quantity > 0`),
+  check('backordered_quantity_range', sql`backordered_quantity >= 0 AND backordered_quantity <= quantity`)
 ]);
 
 // ============================================
@@ -265,6 +428,19 @@ export const feedbackTokens = pgTable('feedback_tokens', {
   index('feedback_tokens_unused_idx').on(table.expiresAt).where(sql`${table.used} = false`)
 ]);
 
+// ============================================
+// Order Tracking Tokens Table
+// ============================================
+
+// One public tracking link per order; regenerating replaces the token
+export const orderTrackingTokens = pgTable('order_tracking_tokens', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id').notNull().unique().references(() => orders.id, { onDelete: 'cascade' }),
+  token: text('token').notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+});
+
 // ============================================
 // Notification System Tables
 // ============================================
@@ -306,11 +482,13 @@ export const categories = pgTable('categories', {
   color: text('color').default('#6B7280').notNull(), // Hex color for UI display
   parentId: integer('parent_id').references((): AnyPgColumn => categories.id, { onDelete: 'set null' }),
   displayOrder: integer('display_order').default(0).notNull(),
+  taxRate: numeric('tax_rate', { precision: 5, scale: 2 }), // Default GST rate for items without their own
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
 }, (table) => [
   // Note: unique on name already creates index
-  index('categories_parent_id_idx').on(table.parentId)
+  index('categories_parent_id_idx').on(table.parentId),
+  check('category_tax_rate_range', sql`tax_rate IS NULL OR (tax_rate >= 0 AND tax_rate <= 100)`)
 ]);
 
 export const tags = pgTable('tags', {
@@ -444,6 +622,7 @@ export const orderNotes = pgTable('order_notes', {
 export const stockTransactions = pgTable('stock_transactions', {
   id: bigserial('id', { mode: 'number' }).primaryKey(),
   itemId: integer('item_id').notNull().references(() => items.id, { onDelete: 'cascade' }),
+  designId: integer('design_id').references(() => itemDesigns.id, { onDelete: 'set null' }), // Set when the design's own stock moved too
   transactionType: stockTransactionTypeEnum('transaction_type').notNull(),
   quantity: integer('quantity').notNull(), // Positive or negative
   previousStock: integer('previous_stock'),
@@ -458,5 +637,512 @@ export const stockTransactions = pgTable('stock_transactions', {
   // Composite for item stock history queries
   index('stock_transactions_item_history_idx').on(table.itemId, table.createdAt.desc()),
   index('stock_transactions_type_idx').on(table.transactionType),
-  index('stock_transactions_reference_idx').on(table.referenceType, table.referenceId)
+  index('stock_transactions_reference_idx').on(table.referenceType, table.referenceId),
+  index('stock_transactions_design_id_idx').on(table.designId)
+]);
+
+// Stock held for an order until it ships; unconfirmed orders hold it until expiresAt
+export const stockReservations = pgTable('stock_reservations', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  itemId: integer('item_id').notNull().references(() => items.id, { onDelete: 'cascade' }),
+  designId: integer('design_id').references(() => itemDesigns.id, { onDelete: 'cascade' }), // Only for designs with their own stock
+  quantity: integer('quantity').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }), // NULL once the order is confirmed
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  unique('stock_reservations_order_line_key').on(table.orderId, table.itemId, table.designId).nullsNotDistinct(),
+  index('stock_reservations_item_id_idx').on(table.itemId),
+  index('stock_reservations_design_id_idx').on(table.designId),
+  check('stock_reservations_quantity_positive', sql`quantity > 0`)
+]);
+
+// ============================================
+// Order Payments Table (ledger behind orders.paid_amount)
+// ============================================
+
+export const orderPayments = pgTable('order_payments', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
+  method: paymentMethodEnum('method').notNull(),
+  referenceNumber: text('reference_number'),
+  paidAt: timestamp('paid_at', { withTimezone: true }).defaultNow().notNull(),
+  notes: text('notes'),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  userEmail: text('user_email'),
+  userName: text('user_name'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  // Composite for an order's payment history, newest first
+  index('order_payments_order_paid_at_idx').on(table.orderId, table.paidAt.desc())
+]);
+
+// ============================================
+// Order Returns Tables
+// ============================================
+
+export const orderReturns = pgTable('order_returns', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  status: returnStatusEnum('status').default('requested').notNull(),
+  reason: text('reason').notNull(),
+  refundAmount: numeric('refund_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  refundMethod: paymentMethodEnum('refund_method'),
+  restock: boolean('restock').default(true).notNull(),
+  refundPaymentId: integer('refund_payment_id').references(() => orderPayments.id, { onDelete: 'set null' }),
+  reviewNotes: text('review_notes'),
+  requestedByUserId: integer('requested_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+  requestedByEmail: text('requested_by_email'),
+  reviewedByUserId: integer('reviewed_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+  reviewedByEmail: text('reviewed_by_email'),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('order_returns_order_created_idx').on(table.orderId, table.createdAt.desc()),
+  index('order_returns_status_idx').on(table.status),
+  check('refund_amount_non_negative', sql`refund_amount >= 0`)
+]);
+
+export const orderReturnItems = pgTable('order_return_items', {
+  id: serial('id').primaryKey(),
+  returnId: integer('return_id').notNull().references(() => orderReturns.id, { onDelete: 'cascade' }),
+  orderItemId: integer('order_item_id').references(() => orderItems.id, { onDelete: 'set null' }),
+  itemId: integer('item_id').references(() => items.id, { onDelete: 'set null' }),
+  name: text('name').notNull(), // Snapshot so history survives order item edits
+  price: numeric('price', { precision: 10, scale: 2 }).notNull(),
+  quantity: integer('quantity').notNull()
+}, (table) => [
+  index('order_return_items_return_idx').on(table.returnId),
+  index('order_return_items_order_item_idx').on(table.orderItemId),
+  check('return_quantity_positive', sql`quantity > 0`)
+]);
+
+// ============================================
+// Invoices Tables
+// ============================================
+
+// Last invoice number issued per financial year (e.g. "2026-27")
+export const invoiceSequences = pgTable('invoice_sequences', {
+  financialYear: text('financial_year').primaryKey(),
+  lastNumber: integer('last_number').default(0).notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+});
+
+export const invoices = pgTable('invoices', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id').notNull().unique().references(() => orders.id, { onDelete: 'restrict' }),
+  invoiceNumber: text('invoice_number').notNull().unique(),
+  financialYear: text('financial_year').notNull(),
+  sequenceNumber: integer('sequence_number').notNull(),
+  issuedAt: timestamp('issued_at', { withTimezone: true }).defaultNow().notNull(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  userEmail: text('user_email'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('invoices_financial_year_sequence_idx').on(table.financialYear, table.sequenceNumber)
+]);
+
+// ============================================
+// Promotions
+// ============================================
+
+// Discount codes entered at order time. 'percentage' takes value% off, 'flat'
+// takes value rupees off, 'buy_x_get_y' makes the cheapest getQuantity units of
+// every buyQuantity + getQuantity free. A categoryId limits a rule to items in
+// that category.
+export const promotions = pgTable('promotions', {
+  id: serial('id').primaryKey(),
+  code: text('code').notNull().unique(), // Stored upper-case
+  name: text('name').notNull(),
+  description: text('description'),
+  type: promotionTypeEnum('type').notNull(),
+  value: numeric('value', { precision: 10, scale: 2 }).default('0').notNull(),
+  buyQuantity: integer('buy_quantity'),
+  getQuantity: integer('get_quantity'),
+  categoryId: integer('category_id').references(() => categories.id, { onDelete: 'restrict' }),
+  minOrderAmount: numeric('min_order_amount', { precision: 10, scale: 2 }),
+  maxDiscountAmount: numeric('max_discount_amount', { precision: 10, scale: 2 }),
+  startsAt: timestamp('starts_at', { withTimezone: true }),
+  endsAt: timestamp('ends_at', { withTimezone: true }),
+  usageLimit: integer('usage_limit'), // Total redemptions across all customers
+  perCustomerLimit: integer('per_customer_limit'),
+  usageCount: integer('usage_count').default(0).notNull(), // Redemptions by orders that are not cancelled
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('promotions_category_id_idx').on(table.categoryId),
+  check('promotion_value_non_negative', sql`value >= 0`),
+  check('promotion_buy_get_quantities', sql`type <> 'buy_x_get_y' OR (buy_quantity > 0 AND get_quantity > 0)`),
+  // Redemptions are counted in the same batch as the order insert, so the cap cannot be overrun
+  check('promotion_usage_within_limit', sql`usage_count >= 0 AND (usage_limit IS NULL OR usage_count <= usage_limit)`)
+]);
+
+// ============================================
+// Outbound Webhooks
+// ============================================
+
+export const webhookEndpoints = pgTable('webhook_endpoints', {
+  id: serial('id').primaryKey(),
+  url: text('url').notNull(),
+  description: text('description'),
+  secret: text('secret').notNull(), // HMAC key shared with the receiver
+  events: jsonb('events').$type<string[]>().notNull(), // Subscribed event types
+  isActive: boolean('is_active').default(true).notNull(),
+  createdByUserId: integer('created_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+});
+
+// One row per event per endpoint; retried with backoff until it succeeds or runs out of attempts
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: bigserial('id', { mode: 'number' }).primaryKey(),
+  endpointId: integer('endpoint_id').notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  eventId: text('event_id').notNull(), // Shared by replays so receivers can de-duplicate
+  eventType: text('event_type').notNull(),
+  payload: jsonb('payload').notNull(),
+  status: webhookDeliveryStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }),
+  lastResponseStatus: integer('last_response_status'),
+  lastResponseBody: text('last_response_body'), // Truncated
+  lastError: text('last_error'),
+  deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  replayOfId: bigint('replay_of_id', { mode: 'number' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('webhook_deliveries_endpoint_created_idx').on(table.endpointId, table.createdAt.desc()),
+  index('webhook_deliveries_due_idx').on(table.status, table.nextAttemptAt)
+]);
+
+// ============================================
+// Personal API Keys
+// ============================================
+
+// Keys act as their owner, narrowed to the granted scopes; only a SHA-256 hash of the key is stored
+export const apiKeys = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  keyPrefix: text('key_prefix').notNull(), // First characters of the key, shown so users can tell keys apart
+  keyHash: text('key_hash').notNull().unique(),
+  scopes: jsonb('scopes').$type<string[]>().notNull(),
+  rateLimitPerMinute: integer('rate_limit_per_minute').default(60).notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('api_keys_user_id_idx').on(table.userId)
+]);
+
+// ============================================
+// Saved Order Views
+// ============================================
+
+// Named order history filters; query holds the filters as URL parameters so views open as plain links
+export const savedOrderViews = pgTable('saved_order_views', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  query: jsonb('query').$type<Record<string, string>>().notNull(),
+  sortKey: text('sort_key').default('createdAt').notNull(),
+  sortDirection: text('sort_direction').default('desc').notNull(),
+  isShared: boolean('is_shared').default(false).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('saved_order_views_user_id_idx').on(table.userId),
+  check('saved_order_views_sort_direction', sql`sort_direction IN ('asc', 'desc')`)
+]);
+
+// Per-user settings for a view, so anyone can pin or subscribe to a shared view
+export const savedOrderViewPreferences = pgTable('saved_order_view_preferences', {
+  viewId: integer('view_id').notNull().references(() => savedOrderViews.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  pinned: boolean('pinned').default(false).notNull(),
+  digestSubscribed: boolean('digest_subscribed').default(false).notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.viewId, table.userId] }),
+  index('saved_order_view_preferences_user_id_idx').on(table.userId)
+]);
+
+// Subscribers a day's saved view digest went to, so a retried digest run does not email them twice
+export const savedViewDigestSends = pgTable('saved_view_digest_sends', {
+  digestDate: date('digest_date').notNull(),
+  email: text('email').notNull(),
+  sentAt: timestamp('sent_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.digestDate, table.email] })
+]);
+
+// ============================================
+// Production Capacity
+// ============================================
+
+// Single row (id = 1): how much the workshop can finish per weekday, Monday first
+export const productionCapacity = pgTable('production_capacity', {
+  id: integer('id').primaryKey().default(1),
+  unit: text('unit').default('orders').notNull(), // 'orders' or 'units' (item quantity)
+  weekdayCapacity: jsonb('weekday_capacity').$type<number[]>().notNull(),
+  minLeadDays: integer('min_lead_days').default(0).notNull(),
+  updatedBy: integer('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, () => [
+  check('production_capacity_single_row', sql`id = 1`),
+  check('production_capacity_unit', sql`unit IN ('orders', 'units')`),
+  check('production_capacity_min_lead_days', sql`min_lead_days >= 0`)
+]);
+
+// Capacity for one date instead of its weekday's, e.g. 0 for a holiday
+export const productionCapacityOverrides = pgTable('production_capacity_overrides', {
+  date: date('date').primaryKey(),
+  capacity: integer('capacity').notNull(),
+  note: text('note'),
+  updatedBy: integer('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, () => [
+  check('production_capacity_overrides_capacity', sql`capacity >= 0`)
+]);
+
+// ============================================
+// Manufacturing: Materials, Bills of Materials and Work Orders
+// ============================================
+
+// Raw materials (fabric, thread, embellishments); quantities are decimal so fabric can be cut by the meter
+export const materials = pgTable('materials', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  sku: text('sku'),
+  unit: text('unit').notNull(),
+  stockQuantity: numeric('stock_quantity', { precision: 12, scale: 3 }).default('0').notNull(),
+  lowStockThreshold: numeric('low_stock_threshold', { precision: 12, scale: 3 }).default('0').notNull(),
+  costPerUnit: numeric('cost_per_unit', { precision: 10, scale: 2 }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('materials_sku_idx').on(table.sku).where(sql`${table.sku} IS NOT NULL`),
+  index('materials_name_idx').on(table.name),
+  check('material_stock_non_negative', sql`stock_quantity >= 0`)
+]);
+
+// Ledger behind materials.stock_quantity, the raw-material counterpart of stock_transactions
+export const materialTransactions = pgTable('material_transactions', {
+  id: bigserial('id', { mode: 'number' }).primaryKey(),
+  materialId: integer('material_id').notNull().references(() => materials.id, { onDelete: 'cascade' }),
+  transactionType: materialTransactionTypeEnum('transaction_type').notNull(),
+  quantity: numeric('quantity', { precision: 12, scale: 3 }).notNull(), // Positive or negative
+  previousStock: numeric('previous_stock', { precision: 12, scale: 3 }),
+  newStock: numeric('new_stock', { precision: 12, scale: 3 }),
+  referenceType: materialReferenceTypeEnum('reference_type'),
+  referenceId: integer('reference_id'),
+  notes: text('notes'),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }),
+  userEmail: text('user_email'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('material_transactions_material_history_idx').on(table.materialId, table.createdAt.desc()),
+  index('material_transactions_reference_idx').on(table.referenceType, table.referenceId)
+]);
+
+// Materials needed to make one unit of an item. Lines without a design apply to every design;
+// a design's own line for a material replaces the item-wide one.
+export const bomLines = pgTable('bom_lines', {
+  id: serial('id').primaryKey(),
+  itemId: integer('item_id').notNull().references(() => items.id, { onDelete: 'cascade' }),
+  designId: integer('design_id').references(() => itemDesigns.id, { onDelete: 'cascade' }),
+  materialId: integer('material_id').notNull().references(() => materials.id, { onDelete: 'restrict' }),
+  quantity: numeric('quantity', { precision: 12, scale: 3 }).notNull(),
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('bom_lines_item_material_idx').on(table.itemId, table.materialId).where(sql`${table.designId} IS NULL`),
+  uniqueIndex('bom_lines_design_material_idx').on(table.designId, table.materialId).where(sql`${table.designId} IS NOT NULL`),
+  index('bom_lines_material_id_idx').on(table.materialId),
+  check('bom_lines_quantity_positive', sql`quantity > 0`)
+]);
+
+// One work order per order line that has to be made rather than taken from stock
+export const workOrders = pgTable('work_orders', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  orderItemId: integer('order_item_id').notNull().unique().references(() => orderItems.id, { onDelete: 'cascade' }),
+  itemId: integer('item_id').notNull().references(() => items.id, { onDelete: 'restrict' }),
+  designId: integer('design_id').references(() => itemDesigns.id, { onDelete: 'set null' }),
+  quantity: integer('quantity').notNull(),
+  status: workOrderStatusEnum('status').default('planned').notNull(),
+  notes: text('notes'),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  completedBy: integer('completed_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('work_orders_order_id_idx').on(table.orderId),
+  index('work_orders_open_idx').on(table.status, table.createdAt).where(sql`${table.status} IN ('planned', 'in_progress')`),
+  check('work_orders_quantity_positive', sql`quantity > 0`)
+]);
+
+// ============================================
+// Purchasing: Suppliers and Purchase Orders
+// ============================================
+
+export const suppliers = pgTable('suppliers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  contactName: text('contact_name'),
+  email: text('email'),
+  phone: text('phone'),
+  address: text('address'),
+  leadTimeDays: integer('lead_time_days'), // Typical days from ordering to delivery
+  paymentTerms: text('payment_terms'), // e.g. "Net 30", "Advance"
+  notes: text('notes'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  uniqueIndex('suppliers_name_idx').on(sql`lower(${table.name})`),
+  check('suppliers_lead_time_non_negative', sql`lead_time_days IS NULL OR lead_time_days >= 0`)
+]);
+
+export const purchaseOrders = pgTable('purchase_orders', {
+  id: serial('id').primaryKey(),
+  supplierId: integer('supplier_id').notNull().references(() => suppliers.id, { onDelete: 'restrict' }),
+  status: purchaseOrderStatusEnum('status').default('draft').notNull(),
+  expectedDate: date('expected_date'),
+  notes: text('notes'),
+  orderedAt: timestamp('ordered_at', { withTimezone: true }),
+  receivedAt: timestamp('received_at', { withTimezone: true }), // Set once every line is fully received
+  createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('purchase_orders_supplier_id_idx').on(table.supplierId),
+  index('purchase_orders_open_idx').on(table.expectedDate).where(sql`${table.status} IN ('ordered', 'partially_received')`)
+]);
+
+export const purchaseOrderItems = pgTable('purchase_order_items', {
+  id: serial('id').primaryKey(),
+  purchaseOrderId: integer('purchase_order_id').notNull().references(() => purchaseOrders.id, { onDelete: 'cascade' }),
+  itemId: integer('item_id').notNull().references(() => items.id, { onDelete: 'restrict' }),
+  quantityOrdered: integer('quantity_ordered').notNull(),
+  quantityReceived: integer('quantity_received').default(0).notNull(),
+  unitCost: numeric('unit_cost', { precision: 10, scale: 2 }).notNull()
+}, (table) => [
+  index('purchase_order_items_purchase_order_id_idx').on(table.purchaseOrderId),
+  index('purchase_order_items_item_id_idx').on(table.itemId),
+  check('purchase_order_items_quantity_positive', sql`quantity_ordered > 0`),
+  check('purchase_order_items_received_range', sql`quantity_received >= 0 AND quantity_received <= quantity_ordered`),
+  check('purchase_order_items_unit_cost_non_negative', sql`unit_cost >= 0`)
+]);
+
+// Single row (id = 1): how reorder suggestions are worked out from sales velocity
+export const replenishmentSettings = pgTable('replenishment_settings', {
+  id: integer('id').primaryKey().default(1),
+  shortWindowDays: integer('short_window_days').default(30).notNull(),
+  longWindowDays: integer('long_window_days').default(90).notNull(),
+  safetyStockDays: integer('safety_stock_days').default(7).notNull(),
+  targetCoverDays: integer('target_cover_days').default(30).notNull(), // Days of sales a reorder should cover
+  defaultLeadTimeDays: integer('default_lead_time_days').default(14).notNull(), // For items without a known supplier
+  autoUpdateThresholds: boolean('auto_update_thresholds').default(false).notNull(),
+  includeInDigest: boolean('include_in_digest').default(false).notNull(),
+  updatedBy: integer('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, () => [
+  check('replenishment_settings_single_row', sql`id = 1`),
+  check('replenishment_settings_windows', sql`short_window_days > 0 AND long_window_days >= short_window_days`),
+  check('replenishment_settings_days_non_negative', sql`safety_stock_days >= 0 AND target_cover_days > 0 AND default_lead_time_days >= 0`)
 ]);
+
+// ============================================
+// Stock Takes (cycle counts)
+// ============================================
+
+export const stockTakes = pgTable('stock_takes', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  status: stockTakeStatusEnum('status').default('counting').notNull(),
+  notes: text('notes'),
+  reason: text('reason'), // Given on approval; recorded on every correction posted
+  createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+  approvedBy: integer('approved_by').references(() => users.id, { onDelete: 'set null' }),
+  approvedAt: timestamp('approved_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  index('stock_takes_status_idx').on(table.status, table.createdAt.desc())
+]);
+
+// One line per item, plus one per design with its own stock; expected quantities are snapshots
+export const stockTakeLines = pgTable('stock_take_lines', {
+  id: serial('id').primaryKey(),
+  stockTakeId: integer('stock_take_id').notNull().references(() => stockTakes.id, { onDelete: 'cascade' }),
+  itemId: integer('item_id').notNull().references(() => items.id, { onDelete: 'cascade' }),
+  designId: integer('design_id').references(() => itemDesigns.id, { onDelete: 'cascade' }),
+  expectedQuantity: integer('expected_quantity').notNull(),
+  countedQuantity: integer('counted_quantity'), // NULL until someone counts the line
+  unitCost: numeric('unit_cost', { precision: 10, scale: 2 }), // costPrice when the snapshot was taken
+  countedBy: integer('counted_by').references(() => users.id, { onDelete: 'set null' }),
+  countedByEmail: text('counted_by_email'),
+  countedAt: timestamp('counted_at', { withTimezone: true })
+}, (table) => [
+  unique('stock_take_lines_line_key').on(table.stockTakeId, table.itemId, table.designId).nullsNotDistinct(),
+  index('stock_take_lines_item_id_idx').on(table.itemId),
+  check('stock_take_lines_quantities_non_negative', sql`expected_quantity >= 0 AND (counted_quantity IS NULL OR counted_quantity >= 0)`)
+]);
+
+// ============================================
+// Customer Merges
+// ============================================
+
+// One row per merge, holding what is needed to undo it
+export const customerMerges = pgTable('customer_merges', {
+  id: serial('id').primaryKey(),
+  survivorId: integer('survivor_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  mergedId: integer('merged_id').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  // Orders re-pointed to the survivor, with the customer references they had before
+  orders: jsonb('orders').$type<Array<{ id: number; customerId: string; customerIdRef: number | null }>>().notNull(),
+  // Loyalty entries, saved addresses (with their default flag) and contacts moved to the
+  // survivor, and the balances that moved with the entries
+  loyaltyEntries: jsonb('loyalty_entries').$type<number[]>().default([]).notNull(),
+  loyaltyPoints: integer('loyalty_points').default(0).notNull(),
+  storeCredit: numeric('store_credit', { precision: 12, scale: 2 }).default('0').notNull(),
+  addresses: jsonb('addresses').$type<Array<{ id: number; isDefault: boolean }>>().default([]).notNull(),
+  contacts: jsonb('contacts').$type<number[]>().default([]).notNull(),
+  survivorBefore: jsonb('survivor_before').$type<Record<string, string | null>>().notNull(),
+  survivorAfter: jsonb('survivor_after').$type<Record<string, string | null>>().notNull(),
+  score: integer('score'), // Duplicate score when the merge was started from a suggestion
+  mergedBy: integer('merged_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  revertedAt: timestamp('reverted_at', { withTimezone: true }),
+  revertedBy: integer('reverted_by').references(() => users.id, { onDelete: 'set null' })
+}, (table) => [
+  index('customer_merges_survivor_id_idx').on(table.survivorId),
+  index('customer_merges_merged_id_idx').on(table.mergedId),
+  index('customer_merges_created_at_idx').on(table.createdAt.desc())
+]);
+
+// Pairs marked "not a duplicate"; stored with the lower customer ID first
+export const customerDuplicateDismissals = pgTable('customer_duplicate_dismissals', {
+  customerId1: integer('customer_id_1').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  customerId2: integer('customer_id_2').notNull().references(() => customers.id, { onDelete: 'cascade' }),
+  dismissedBy: integer('dismissed_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull()
+}, (table) => [
+  primaryKey({ columns: [table.customerId1, table.customerId2] }),
+  check('customer_duplicate_dismissals_ordered', sql`customer_id_1 < customer_id_2`)
+]);
+
+// Saved customer segments; rules are evaluated against customers whenever they are used
+export const customerSegments = pgTable('customer_segments', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  description: text('description'),
+  rules: jsonb('rules').$type<{ match: 'all' | 'any'; rules: Array<{ field: string; operator: string; value: unknown }> }>().notNull(),
+  createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull()
+});
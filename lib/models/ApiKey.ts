@@ -0,0 +1,145 @@
+import { eq, desc, and, isNull } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { apiKeys, users } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { generateApiKey } from '@/lib/utils/apiKeyUtils';
+import { API_KEY_DEFAULT_RATE_LIMIT } from '@/constants/apiKeyConstants';
+import type { ApiKey as ApiKeyEntity, ApiKeyScope, CreateApiKeyData, CreatedApiKey } from '@/types';
+
+interface ApiKeyRow {
+  id: number;
+  userId: number;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+// The hash is never returned; callers only need to know the key matched
+function transformApiKey(apiKey: ApiKeyRow): ApiKeyEntity {
+  return {
+    id: apiKey.id,
+    _id: apiKey.id,
+    userId: apiKey.userId,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    // Scopes are validated before they are saved
+    scopes: (apiKey.scopes || []) as ApiKeyScope[],
+    expiresAt: apiKey.expiresAt?.toISOString() || null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() || null,
+    revokedAt: apiKey.revokedAt?.toISOString() || null,
+    createdAt: apiKey.createdAt.toISOString(),
+  };
+}
+
+const ApiKey = {
+  /**
+   * Get a user's keys, newest first, including revoked ones
+   */
+  async findByUser(userId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select()
+        .from(apiKeys)
+        .where(eq(apiKeys.userId, userId))
+        .orderBy(desc(apiKeys.createdAt));
+      return result.map(transformApiKey);
+    }, { operationName: 'ApiKey.findByUser' });
+  },
+
+  /**
+   * Look a key up by its hash together with its owner
+   * @returns { apiKey, user } or null; revoked and expired keys are returned so callers can say why they fail
+   */
+  async findByHash(keyHash: string) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({
+          apiKey: apiKeys,
+          user: {
+            id: users.id,
+            googleId: users.googleId,
+            email: users.email,
+            name: users.name,
+            picture: users.picture,
+            role: users.role,
+          },
+        })
+        .from(apiKeys)
+        .innerJoin(users, eq(apiKeys.userId, users.id))
+        .where(eq(apiKeys.keyHash, keyHash));
+
+      if (result.length === 0) return null;
+      return { apiKey: transformApiKey(result[0].apiKey), user: result[0].user };
+    }, { operationName: 'ApiKey.findByHash' });
+  },
+
+  /**
+   * Create a key for a user
+   * @returns The stored key plus the full key, which cannot be recovered later
+   */
+  async create(data: CreateApiKeyData, userId: number): Promise<CreatedApiKey> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const { key, keyPrefix, keyHash } = generateApiKey();
+
+      let expiresAt: Date | null = null;
+      if (data.expiresInDays) {
+        expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + data.expiresInDays);
+      }
+
+      const result = await db
+        .insert(apiKeys)
+        .values({
+          userId,
+          name: data.name.trim(),
+          keyPrefix,
+          keyHash,
+          scopes: [...new Set(data.scopes)],
+          rateLimitPerMinute: data.rateLimitPerMinute || API_KEY_DEFAULT_RATE_LIMIT,
+          expiresAt,
+        })
+        .returning();
+      return { ...transformApiKey(result[0]), key };
+    }, { operationName: 'ApiKey.create' });
+  },
+
+  /**
+   * Revoke one of a user's keys; the row is kept so past audit entries still resolve
+   * @returns The revoked key, or null if the user has no such active key
+   */
+  async revoke(id: number, userId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      const result = await db
+        .update(apiKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(apiKeys.id, numericId), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+        .returning();
+      return result.length > 0 ? transformApiKey(result[0]) : null;
+    }, { operationName: 'ApiKey.revoke' });
+  },
+
+  /**
+   * Record that a key was just used
+   */
+  async touchLastUsed(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      await db.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+    }, { operationName: 'ApiKey.touchLastUsed' });
+  },
+};
+
+export default ApiKey;
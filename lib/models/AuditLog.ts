@@ -1,18 +1,26 @@
 // @ts-nocheck
-import { eq, desc, and, sql, gte, lte, inArray } from 'drizzle-orm';
+import { eq, desc, and, sql, gte, lte, inArray, type SQL } from 'drizzle-orm';
 import { getDatabase } from '@/lib/db/connection';
 import { auditLogs, orderAuditTrail, users } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
 import type { AuditAction, AuditEntityType, CreateAuditLogData, CreateOrderAuditData } from '@/types';
 
+/**
+ * Read a JSON column; older rows hold the JSON as a string
+ */
+function parseJsonColumn(value: unknown) {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
 function transformAuditLog(log: any) {
   return {
     ...log,
     _id: log.id,
-    previousData: log.previousData ? JSON.parse(log.previousData) : null,
-    newData: log.newData ? JSON.parse(log.newData) : null,
-    changedFields: log.changedFields ? JSON.parse(log.changedFields) : null,
-    metadata: log.metadata ? JSON.parse(log.metadata) : null,
+    previousData: parseJsonColumn(log.previousData),
+    newData: parseJsonColumn(log.newData),
+    changedFields: parseJsonColumn(log.changedFields),
+    metadata: parseJsonColumn(log.metadata),
     createdAt: log.createdAt?.toISOString() || null,
   };
 }
@@ -45,6 +53,33 @@ function getChangedFields(oldData: Record<string, unknown>, newData: Record<stri
   return changed;
 }
 
+/**
+ * Row values for an audit log entry
+ */
+function toInsertData(data: CreateAuditLogData) {
+  // Calculate changed fields if both old and new data provided
+  let changedFields = data.changedFields;
+  if (!changedFields && data.previousData && data.newData) {
+    changedFields = getChangedFields(data.previousData, data.newData);
+  }
+
+  return {
+    entityType: data.entityType,
+    entityId: data.entityId,
+    action: data.action,
+    userId: data.userId || null,
+    userEmail: data.userEmail || null,
+    userName: data.userName || null,
+    // Stored as JSON objects so SQL can query them, e.g. metadata->>'event'
+    previousData: data.previousData || null,
+    newData: data.newData || null,
+    changedFields: changedFields || null,
+    ipAddress: data.ipAddress || null,
+    userAgent: data.userAgent || null,
+    metadata: data.metadata || null,
+  };
+}
+
 const AuditLog = {
   /**
    * Create a new audit log entry
@@ -52,33 +87,32 @@ const AuditLog = {
   async create(data: CreateAuditLogData) {
     return executeWithRetry(async () => {
       const db = getDatabase();
-      
-      // Calculate changed fields if both old and new data provided
-      let changedFields = data.changedFields;
-      if (!changedFields && data.previousData && data.newData) {
-        changedFields = getChangedFields(data.previousData, data.newData);
-      }
-      
-      const insertData = {
-        entityType: data.entityType,
-        entityId: data.entityId,
-        action: data.action,
-        userId: data.userId || null,
-        userEmail: data.userEmail || null,
-        userName: data.userName || null,
-        previousData: data.previousData ? JSON.stringify(data.previousData) : null,
-        newData: data.newData ? JSON.stringify(data.newData) : null,
-        changedFields: changedFields ? JSON.stringify(changedFields) : null,
-        ipAddress: data.ipAddress || null,
-        userAgent: data.userAgent || null,
-        metadata: data.metadata ? JSON.stringify(data.metadata) : null,
-      };
-      
-      const result = await db.insert(auditLogs).values(insertData).returning();
+      const result = await db.insert(auditLogs).values(toInsertData(data)).returning();
       return transformAuditLog(result[0]);
     }, { operationName: 'AuditLog.create' });
   },
 
+  /**
+   * Build an audit log insert for a caller's batch, so the entry is written together
+   * with the change it records
+   * @param guard - Optional SQL condition the insert requires, so the entry is only
+   *   written when an earlier statement in the same batch took effect
+   */
+  buildCreateStatement(db, data: CreateAuditLogData, guard?: SQL) {
+    if (!guard) return db.insert(auditLogs).values(toInsertData(data));
+
+    const row = toInsertData(data);
+    const json = (value: unknown) => (value === null ? null : JSON.stringify(value));
+    return db.execute(sql`
+      INSERT INTO audit_logs
+        (entity_type, entity_id, action, user_id, user_email, user_name, previous_data, new_data, changed_fields, metadata)
+      SELECT ${row.entityType}::audit_entity, ${row.entityId}, ${row.action}::audit_action, ${row.userId}, ${row.userEmail},
+        ${row.userName}, ${json(row.previousData)}::jsonb, ${json(row.newData)}::jsonb, ${json(row.changedFields)}::jsonb,
+        ${json(row.metadata)}::jsonb
+      WHERE ${guard}
+    `);
+  },
+
   /**
    * Get audit logs for a specific entity
    */
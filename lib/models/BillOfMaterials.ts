@@ -0,0 +1,106 @@
+import { eq, asc, inArray, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { bomLines, materials } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import type { BomLine, ItemId } from '@/types';
+
+export interface BomLineInput {
+  designId: number | null;
+  materialId: number;
+  quantity: number;
+  notes?: string | null;
+}
+
+interface BomLineRow {
+  id: number;
+  itemId: number;
+  designId: number | null;
+  materialId: number;
+  materialName: string;
+  unit: string;
+  quantity: string;
+  notes: string | null;
+}
+
+function transformLine(line: BomLineRow): BomLine {
+  return {
+    id: line.id,
+    itemId: line.itemId as ItemId,
+    designId: line.designId ?? null,
+    materialId: line.materialId,
+    materialName: line.materialName,
+    unit: line.unit,
+    quantity: Number.parseFloat(line.quantity),
+    notes: line.notes || null,
+  };
+}
+
+const lineColumns = {
+  id: bomLines.id,
+  itemId: bomLines.itemId,
+  designId: bomLines.designId,
+  materialId: bomLines.materialId,
+  materialName: materials.name,
+  unit: materials.unit,
+  quantity: bomLines.quantity,
+  notes: bomLines.notes,
+};
+
+const BillOfMaterials = {
+  /**
+   * Get the bill of materials for an item: item-wide lines first, then each design's lines
+   */
+  async findByItem(itemId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select(lineColumns)
+        .from(bomLines)
+        .innerJoin(materials, eq(bomLines.materialId, materials.id))
+        .where(eq(bomLines.itemId, itemId))
+        .orderBy(sql`${bomLines.designId} NULLS FIRST`, asc(materials.name));
+      return result.map(transformLine);
+    }, { operationName: 'BillOfMaterials.findByItem' });
+  },
+
+  /**
+   * Get the bill of materials lines for several items at once
+   */
+  async findByItems(itemIds: number[]): Promise<BomLine[]> {
+    if (itemIds.length === 0) return [];
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select(lineColumns)
+        .from(bomLines)
+        .innerJoin(materials, eq(bomLines.materialId, materials.id))
+        .where(inArray(bomLines.itemId, itemIds));
+      return result.map(transformLine);
+    }, { operationName: 'BillOfMaterials.findByItems' });
+  },
+
+  /**
+   * Replace an item's bill of materials in one batch
+   */
+  async replaceForItem(itemId: number, lines: BomLineInput[]) {
+    await executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const replace = db.delete(bomLines).where(eq(bomLines.itemId, itemId));
+      if (lines.length === 0) {
+        await db.batch([replace]);
+        return;
+      }
+      await db.batch([replace, db.insert(bomLines).values(lines.map(line => ({
+        itemId,
+        designId: line.designId,
+        materialId: line.materialId,
+        quantity: String(line.quantity),
+        notes: line.notes?.trim() || null,
+      })))]);
+    }, { operationName: 'BillOfMaterials.replaceForItem' });
+
+    return this.findByItem(itemId);
+  },
+};
+
+export default BillOfMaterials;
@@ -11,6 +11,7 @@ function transformCategory(category: any) {
     description: category.description || '',
     color: category.color || '#6B7280',
     parentId: category.parentId || null,
+    taxRate: category.taxRate === null || category.taxRate === undefined ? null : Number.parseFloat(category.taxRate),
   };
 }
 
@@ -31,6 +32,8 @@ const Category = {
             color: categories.color,
             parentId: categories.parentId,
             displayOrder: categories.displayOrder,
+            taxRate: categories.taxRate,
+          taxRate: categories.taxRate,
             createdAt: categories.createdAt,
             updatedAt: categories.updatedAt,
             itemCount: sql<number>`COALESCE(COUNT(DISTINCT ${itemCategories.itemId}), 0)::int`,
@@ -112,6 +115,7 @@ const Category = {
     color?: string;
     parentId?: number;
     displayOrder?: number;
+    taxRate?: number | null;
   }) {
     return executeWithRetry(async () => {
       const db = getDatabase();
@@ -122,6 +126,7 @@ const Category = {
         color: data.color || '#6B7280',
         parentId: data.parentId || null,
         displayOrder: data.displayOrder ?? 0,
+        taxRate: data.taxRate === null || data.taxRate === undefined ? null : data.taxRate.toString(),
       };
       
       const result = await db.insert(categories).values(insertData).returning();
@@ -138,6 +143,7 @@ const Category = {
     color?: string;
     parentId?: number | null;
     displayOrder?: number;
+    taxRate?: number | null;
   }) {
     return executeWithRetry(async () => {
       const db = getDatabase();
@@ -151,6 +157,7 @@ const Category = {
       if (data.color !== undefined) updateData.color = data.color;
       if (data.parentId !== undefined) updateData.parentId = data.parentId;
       if (data.displayOrder !== undefined) updateData.displayOrder = data.displayOrder;
+      if (data.taxRate !== undefined) updateData.taxRate = data.taxRate === null ? null : data.taxRate.toString();
 
       const result = await db
         .update(categories)
@@ -305,6 +312,7 @@ const Category = {
           color: categories.color,
           parentId: categories.parentId,
           displayOrder: categories.displayOrder,
+          taxRate: categories.taxRate,
           createdAt: categories.createdAt,
           updatedAt: categories.updatedAt,
         })
@@ -335,6 +343,7 @@ const Category = {
           color: categories.color,
           parentId: categories.parentId,
           displayOrder: categories.displayOrder,
+          taxRate: categories.taxRate,
           createdAt: categories.createdAt,
           updatedAt: categories.updatedAt,
         })
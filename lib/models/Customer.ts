@@ -1,9 +1,32 @@
 // @ts-nocheck
-import { eq, desc, sql, ilike, or, and, inArray } from 'drizzle-orm';
+import { eq, desc, sql, ilike, or, and, inArray, isNull } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
 import { getDatabase } from '@/lib/db/connection';
-import { customers, orders, orderItems } from '@/lib/db/schema';
+import { customers, customerAddresses, customerContacts, orders, orderItems, orderReturns } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
-import type { Customer, CustomerSummary, CreateCustomerData, UpdateCustomerData, CustomerSource } from '@/types/entities';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { segmentRulesCondition } from '@/lib/models/CustomerSegment';
+import { contactSearchCondition, contactValues, matchedContactExpression } from '@/lib/models/CustomerContact';
+import {
+  RFM_NEW_CUSTOMER_DAYS,
+  RFM_AT_RISK_DAYS,
+  RFM_LOST_DAYS,
+  RFM_LOYAL_MIN_ORDERS,
+  RFM_LOYAL_MIN_FREQUENCY_SCORE,
+} from '@/constants/customerSegmentConstants';
+import type {
+  Customer,
+  CustomerSummary,
+  CreateCustomerData,
+  UpdateCustomerData,
+  CustomerSource,
+  CustomerLifecycleStage,
+  CustomerSegmentRules,
+  CustomerRfmRunResult,
+  CustomerContactData,
+  OrderSource,
+} from '@/types/entities';
 
 /**
  * Generate a unique customer ID in format "CUST-XXXX"
@@ -25,17 +48,126 @@ function transformCustomer(row: any): Customer {
     email: row.email || null,
     phone: row.phone || null,
     address: row.address || null,
+    state: row.state || null,
     source: row.source || 'other',
     totalOrders: row.totalOrders ?? 0,
     totalSpent: Number.parseFloat(row.totalSpent || '0'),
     firstOrderDate: row.firstOrderDate?.toISOString() || null,
     lastOrderDate: row.lastOrderDate?.toISOString() || null,
     notes: row.notes || null,
+    mergedIntoId: row.mergedIntoId ?? null,
+    recencyScore: row.recencyScore ?? null,
+    frequencyScore: row.frequencyScore ?? null,
+    monetaryScore: row.monetaryScore ?? null,
+    lifecycleStage: row.lifecycleStage || null,
+    rfmScoredAt: row.rfmScoredAt?.toISOString() || null,
+    loyaltyPoints: row.loyaltyPoints ?? 0,
+    storeCredit: Number.parseFloat(row.storeCredit || '0'),
     createdAt: row.createdAt?.toISOString() || new Date().toISOString(),
     updatedAt: row.updatedAt?.toISOString() || new Date().toISOString(),
   };
 }
 
+/** How many merges findByCustomerId will follow before giving up */
+const MAX_MERGE_DEPTH = 10;
+
+const ORDER_SOURCE_CUSTOMER_SOURCE: Record<OrderSource, CustomerSource> = {
+  instagram: 'online',
+  facebook: 'online',
+  whatsapp: 'online',
+  call: 'other',
+  offline: 'walk-in',
+};
+
+/** Business customer IDs that are really phone numbers, e.g. "+91 98765 43210" */
+const PHONE_LIKE_ID = /^\+?[\d\s-]{10,16}$/;
+
+/** Generated business IDs, as opposed to a handle or number the customer is known by */
+const GENERATED_ID = /^CUST-/i;
+
+const PIN_CODE = /\b[1-9]\d{5}\b/;
+
+/** The customer an order belongs to, with the statements that create it when it is new */
+export interface CustomerForOrder {
+  id: number;
+  customerId: string;
+  /** For the order's batch, ahead of the order; empty when the customer exists */
+  statements: BatchItem<'pg'>[];
+}
+
+/**
+ * Values for a customer created from an order that has no customer record yet
+ * The order's business ID is kept so existing orders and the new customer match
+ */
+export function newCustomerFromOrder(order: { customerId: string; customerName: string; address?: string | null; orderFrom?: OrderSource | null }) {
+  const customerId = order.customerId.trim();
+  return {
+    customerId,
+    name: order.customerName.trim() || customerId,
+    phone: PHONE_LIKE_ID.test(customerId) ? customerId : null,
+    address: order.address?.trim() || null,
+    source: (order.orderFrom && ORDER_SOURCE_CUSTOMER_SOURCE[order.orderFrom]) || 'other',
+    totalOrders: 0,
+    totalSpent: '0',
+  };
+}
+
+/**
+ * Contacts implied by an order's business customer ID: the Instagram handle of an
+ * Instagram order or the number of a WhatsApp order
+ */
+function contactsFromOrder(order: { customerId: string; orderFrom?: OrderSource | null }): CustomerContactData[] {
+  const value = order.customerId.trim();
+  if (order.orderFrom === 'instagram' && !PHONE_LIKE_ID.test(value) && !GENERATED_ID.test(value)) {
+    return [{ channel: 'instagram', value }];
+  }
+  if (order.orderFrom === 'whatsapp' && PHONE_LIKE_ID.test(value)) {
+    return [{ channel: 'whatsapp', value }];
+  }
+  return [];
+}
+
+/**
+ * Statements that save a customer's address as their default address when they have
+ * none, and their phone, email and any other known contacts as contacts
+ */
+function buildInitialContactStatements(db, customer, extraContacts: CustomerContactData[] = []) {
+  const statements = [];
+  if (customer.address) {
+    statements.push(
+      db.insert(customerAddresses)
+        .values({
+          customerId: customer.id,
+          line1: customer.address,
+          state: customer.state,
+          pinCode: PIN_CODE.exec(customer.address)?.[0] ?? null,
+          isDefault: true,
+        })
+        .onConflictDoNothing()
+    );
+  }
+
+  const contacts = [
+    { channel: 'phone', value: customer.phone },
+    { channel: 'email', value: customer.email },
+    ...extraContacts,
+  ]
+    .filter(contact => contact.value)
+    .map(contact => contactValues(customer.id, contact))
+    .filter(Boolean);
+  if (contacts.length > 0) {
+    statements.push(db.insert(customerContacts).values(contacts).onConflictDoNothing());
+  }
+
+  return statements;
+}
+
+/** Save a customer's initial address and contacts in one batch */
+async function saveInitialContactDetails(db, customer, extraContacts: CustomerContactData[] = []): Promise<void> {
+  const statements = buildInitialContactStatements(db, customer, extraContacts);
+  if (statements.length > 0) await db.batch(statements);
+}
+
 /**
  * Transform database row to CustomerSummary for autocomplete
  */
@@ -45,14 +177,21 @@ function transformCustomerSummary(row: any): CustomerSummary {
     customerId: row.customerId,
     name: row.name,
     phone: row.phone || null,
+    matchedContact: row.matchedContact || null,
   };
 }
 
-export interface FindAllOptions {
-  page?: number;
-  limit?: number;
+export interface CustomerListFilters {
   search?: string;
   source?: CustomerSource;
+  lifecycleStage?: CustomerLifecycleStage;
+  /** Rules of a saved segment the customers must match */
+  segmentRules?: CustomerSegmentRules;
+}
+
+export interface FindAllOptions extends CustomerListFilters {
+  page?: number;
+  limit?: number;
 }
 
 export interface PaginatedCustomerResult {
@@ -66,60 +205,68 @@ export interface PaginatedCustomerResult {
   };
 }
 
+/**
+ * Conditions for a customer list; customers merged into another are left out
+ */
+function listConditions({ search, source, lifecycleStage, segmentRules }: CustomerListFilters) {
+  const conditions = [isNull(customers.mergedIntoId)];
+
+  if (search) {
+    const searchPattern = `%${search}%`;
+    conditions.push(
+      or(
+        ilike(customers.name, searchPattern),
+        ilike(customers.phone, searchPattern),
+        ilike(customers.email, searchPattern),
+        ilike(customers.customerId, searchPattern),
+        contactSearchCondition(search)
+      )
+    );
+  }
+
+  if (source) {
+    conditions.push(eq(customers.source, source));
+  }
+
+  if (lifecycleStage) {
+    conditions.push(eq(customers.lifecycleStage, lifecycleStage));
+  }
+
+  if (segmentRules) {
+    conditions.push(segmentRulesCondition(segmentRules));
+  }
+
+  return conditions;
+}
+
 const Customer = {
   /**
    * Get paginated list of customers with optional filters
+   * Customers merged into another are left out
    */
   async findAll(options: FindAllOptions = {}): Promise<PaginatedCustomerResult> {
-    const { page = 1, limit = 20, search, source } = options;
+    const { page = 1, limit = 20 } = options;
     const offset = (page - 1) * limit;
 
     return executeWithRetry(async () => {
       const db = getDatabase();
       
-      // Build conditions array
-      const conditions = [];
-      
-      if (search) {
-        const searchPattern = `%${search}%`;
-        conditions.push(
-          or(
-            ilike(customers.name, searchPattern),
-            ilike(customers.phone, searchPattern),
-            ilike(customers.email, searchPattern),
-            ilike(customers.customerId, searchPattern)
-          )
-        );
-      }
-      
-      if (source) {
-        conditions.push(eq(customers.source, source));
-      }
+      const conditions = listConditions(options);
 
       // Get total count
-      const countQuery = conditions.length > 0
-        ? db.select({ count: sql<number>`count(*)::int` })
-            .from(customers)
-            .where(and(...conditions))
-        : db.select({ count: sql<number>`count(*)::int` }).from(customers);
-      
-      const [{ count: total }] = await countQuery;
+      const [{ count: total }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(customers)
+        .where(and(...conditions));
 
       // Get paginated results
-      const dataQuery = conditions.length > 0
-        ? db.select()
-            .from(customers)
-            .where(and(...conditions))
-            .orderBy(desc(customers.lastOrderDate), desc(customers.createdAt))
-            .limit(limit)
-            .offset(offset)
-        : db.select()
-            .from(customers)
-            .orderBy(desc(customers.lastOrderDate), desc(customers.createdAt))
-            .limit(limit)
-            .offset(offset);
-
-      const result = await dataQuery;
+      const result = await db
+        .select()
+        .from(customers)
+        .where(and(...conditions))
+        .orderBy(desc(customers.lastOrderDate), desc(customers.createdAt))
+        .limit(limit)
+        .offset(offset);
       const totalPages = Math.ceil(total / limit);
 
       return {
@@ -135,6 +282,102 @@ const Customer = {
     }, { operationName: 'Customer.findAll' });
   },
 
+  /**
+   * Every customer matching the filters, biggest spenders first, for export
+   */
+  async findMatching(filters: CustomerListFilters = {}): Promise<Customer[]> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const result = await db
+        .select()
+        .from(customers)
+        .where(and(...listConditions(filters)))
+        .orderBy(desc(customers.totalSpent), customers.name);
+
+      return result.map(transformCustomer);
+    }, { operationName: 'Customer.findMatching' });
+  },
+
+  /**
+   * How many customers are in each lifecycle stage, and when they were last scored
+   */
+  async countByLifecycleStage(): Promise<{ stages: Array<{ stage: CustomerLifecycleStage; customerCount: number }>; scoredAt: string | null }> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const stages = await db
+        .select({ stage: customers.lifecycleStage, customerCount: sql<number>`count(*)::int` })
+        .from(customers)
+        .where(and(isNull(customers.mergedIntoId), sql`${customers.lifecycleStage} IS NOT NULL`))
+        .groupBy(customers.lifecycleStage);
+      const [{ scoredAt }] = await db
+        .select({ scoredAt: sql<Date | null>`max(${customers.rfmScoredAt})` })
+        .from(customers);
+
+      return {
+        stages,
+        scoredAt: scoredAt ? new Date(scoredAt).toISOString() : null,
+      };
+    }, { operationName: 'Customer.countByLifecycleStage' });
+  },
+
+  /**
+   * Score every customer with orders on recency, frequency and monetary value and
+   * set their lifecycle stage, in one batch. Each score is the customer's quintile
+   * (1-5, 5 best) among customers with orders, so tied customers score the same.
+   * Customers without orders, or merged into another, are left unscored.
+   */
+  async updateRfmScores(): Promise<CustomerRfmRunResult> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const [, scored] = await db.batch([
+        db.execute(sql`
+          UPDATE customers
+          SET recency_score = NULL, frequency_score = NULL, monetary_score = NULL, lifecycle_stage = NULL, rfm_scored_at = NULL
+          WHERE rfm_scored_at IS NOT NULL
+            AND (merged_into_id IS NOT NULL OR total_orders = 0 OR last_order_date IS NULL)
+        `),
+        db.execute(sql`
+          WITH ranked AS (
+            SELECT
+              id,
+              total_orders,
+              first_order_date,
+              last_order_date,
+              CEIL(cume_dist() OVER (ORDER BY last_order_date) * 5)::int AS recency,
+              CEIL(cume_dist() OVER (ORDER BY total_orders) * 5)::int AS frequency,
+              CEIL(cume_dist() OVER (ORDER BY total_spent) * 5)::int AS monetary
+            FROM customers
+            WHERE merged_into_id IS NULL AND total_orders > 0 AND last_order_date IS NOT NULL
+          )
+          UPDATE customers c
+          SET recency_score = r.recency,
+              frequency_score = r.frequency,
+              monetary_score = r.monetary,
+              lifecycle_stage = (CASE
+                WHEN r.first_order_date >= NOW() - make_interval(days => ${RFM_NEW_CUSTOMER_DAYS}) THEN 'new'
+                WHEN r.last_order_date < NOW() - make_interval(days => ${RFM_LOST_DAYS}) THEN 'lost'
+                WHEN r.last_order_date < NOW() - make_interval(days => ${RFM_AT_RISK_DAYS}) THEN 'at_risk'
+                WHEN r.total_orders >= ${RFM_LOYAL_MIN_ORDERS} AND r.frequency >= ${RFM_LOYAL_MIN_FREQUENCY_SCORE} THEN 'loyal'
+                ELSE 'active'
+              END)::customer_lifecycle_stage,
+              rfm_scored_at = NOW()
+          FROM ranked r
+          WHERE c.id = r.id
+          RETURNING c.lifecycle_stage AS "lifecycleStage"
+        `),
+      ]);
+
+      const stages = { new: 0, active: 0, loyal: 0, at_risk: 0, lost: 0 };
+      for (const row of scored.rows) {
+        stages[row.lifecycleStage] += 1;
+      }
+      return { scored: scored.rows.length, stages, scoredAt: new Date().toISOString() };
+    }, { operationName: 'Customer.updateRfmScores' });
+  },
+
   /**
    * Find a single customer by database ID
    */
@@ -157,25 +400,86 @@ const Customer = {
 
   /**
    * Find a customer by their business ID (CUST-XXXX)
+   * The ID of a merged customer resolves to the customer it was merged into
    */
   async findByCustomerId(customerId: string): Promise<Customer | null> {
     return executeWithRetry(async () => {
       const db = getDatabase();
       
-      const result = await db
+      let [row] = await db
         .select()
         .from(customers)
         .where(eq(customers.customerId, customerId.trim()))
         .limit(1);
 
-      if (result.length === 0) return null;
-      return transformCustomer(result[0]);
+      for (let depth = 0; row?.mergedIntoId && depth < MAX_MERGE_DEPTH; depth++) {
+        [row] = await db
+          .select()
+          .from(customers)
+          .where(eq(customers.id, row.mergedIntoId))
+          .limit(1);
+      }
+
+      if (!row) return null;
+      return transformCustomer(row);
     }, { operationName: 'Customer.findByCustomerId' });
   },
 
   /**
-   * Search customers for autocomplete (by name, phone, email)
-   * Returns CustomerSummary[] for quick lookup
+   * The customer an order belongs to, by the order's business customer ID
+   * Merged customers resolve to the customer they were merged into; when there is no
+   * customer yet the statements create one from the order's name, address and source,
+   * for the order's own batch so a failed order leaves no customer behind. A customer
+   * created by a concurrent order fails the batch; see isCustomerIdConflict.
+   */
+  async planForOrder(order: { customerId: string; customerName: string; address?: string | null; orderFrom?: OrderSource | null }): Promise<CustomerForOrder> {
+    const existing = await this.findByCustomerId(order.customerId);
+    if (existing) return { id: existing.id, customerId: existing.customerId, statements: [] };
+
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      // Allocate the ID so the order can reference the customer in the same batch
+      const idResult = await db.execute(sql`SELECT nextval(pg_get_serial_sequence('customers', 'id'))::int AS id`);
+      const values = { id: idResult.rows[0].id, ...newCustomerFromOrder(order) };
+      return {
+        id: values.id,
+        customerId: values.customerId,
+        statements: [
+          db.insert(customers).values(values),
+          ...buildInitialContactStatements(db, values, contactsFromOrder(order)),
+        ],
+      };
+    }, { operationName: 'Customer.planForOrder' });
+  },
+
+  /**
+   * Whether a batch failed because another customer with the same business ID was
+   * created first, e.g. by a concurrent order; planning again finds that customer
+   */
+  isCustomerIdConflict(error: unknown): boolean {
+    return error instanceof Error && error.message.includes('customers_customer_id_unique');
+  },
+
+  /**
+   * Every customer that has not been merged into another, for duplicate detection
+   */
+  async findUnmerged(): Promise<Customer[]> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const result = await db
+        .select()
+        .from(customers)
+        .where(isNull(customers.mergedIntoId))
+        .orderBy(customers.id);
+
+      return result.map(transformCustomer);
+    }, { operationName: 'Customer.findUnmerged' });
+  },
+
+  /**
+   * Search customers for autocomplete (by name, phone, email, ID or any contact)
+   * Contacts match ignoring "@", +91 and spacing; the matching one is returned as matchedContact
    */
   async search(query: string, limit = 10): Promise<CustomerSummary[]> {
     return executeWithRetry(async () => {
@@ -193,14 +497,19 @@ const Customer = {
           customerId: customers.customerId,
           name: customers.name,
           phone: customers.phone,
+          matchedContact: matchedContactExpression(query),
         })
         .from(customers)
         .where(
-          or(
-            ilike(customers.name, searchPattern),
-            ilike(customers.phone, searchPattern),
-            ilike(customers.email, searchPattern),
-            ilike(customers.customerId, searchPattern)
+          and(
+            isNull(customers.mergedIntoId),
+            or(
+              ilike(customers.name, searchPattern),
+              ilike(customers.phone, searchPattern),
+              ilike(customers.email, searchPattern),
+              ilike(customers.customerId, searchPattern),
+              contactSearchCondition(query)
+            )
           )
         )
         .orderBy(desc(customers.lastOrderDate), customers.name)
@@ -239,6 +548,7 @@ const Customer = {
         email: data.email?.trim() || null,
         phone: data.phone?.trim() || null,
         address: data.address?.trim() || null,
+        state: data.state?.trim() || null,
         source: data.source || 'other',
         notes: data.notes?.trim() || null,
         totalOrders: 0,
@@ -246,6 +556,7 @@ const Customer = {
       };
 
       const result = await db.insert(customers).values(insertData).returning();
+      await saveInitialContactDetails(db, result[0]);
       return transformCustomer(result[0]);
     }, { operationName: 'Customer.create' });
   },
@@ -275,8 +586,17 @@ const Customer = {
       if (data.phone !== undefined) {
         updateData.phone = data.phone?.trim() || null;
       }
+      // Addresses are edited as saved addresses; text only seeds the first one
       if (data.address !== undefined) {
-        updateData.address = data.address?.trim() || null;
+        const [saved] = await db
+          .select({ id: customerAddresses.id })
+          .from(customerAddresses)
+          .where(eq(customerAddresses.customerId, numericId))
+          .limit(1);
+        if (!saved) updateData.address = data.address?.trim() || null;
+      }
+      if (data.state !== undefined) {
+        updateData.state = data.state?.trim() || null;
       }
       if (data.source !== undefined) {
         updateData.source = data.source;
@@ -292,12 +612,23 @@ const Customer = {
         .returning();
 
       if (result.length === 0) return null;
+
+      // A new phone or email is kept as a contact too
+      await saveInitialContactDetails(db, {
+        id: numericId,
+        address: updateData.address,
+        state: result[0].state,
+        phone: data.phone,
+        email: data.email,
+      });
+
       return transformCustomer(result[0]);
     }, { operationName: 'Customer.update' });
   },
 
   /**
    * Delete a customer
+   * @throws ApiError 409 when the customer has orders
    */
   async delete(id: number): Promise<boolean> {
     return executeWithRetry(async () => {
@@ -305,12 +636,20 @@ const Customer = {
       const numericId = Number.parseInt(String(id), 10);
       if (Number.isNaN(numericId)) return false;
 
-      const result = await db
-        .delete(customers)
-        .where(eq(customers.id, numericId))
-        .returning({ id: customers.id });
-
-      return result.length > 0;
+      try {
+        const result = await db
+          .delete(customers)
+          .where(eq(customers.id, numericId))
+          .returning({ id: customers.id });
+
+        return result.length > 0;
+      } catch (error) {
+        // 23503 = foreign_key_violation: orders reference the customer
+        if ((error as { code?: string } | null)?.code === '23503') {
+          throw new ApiError(HTTP_STATUS.CONFLICT, 'This customer has orders and cannot be deleted; merge them into another customer instead');
+        }
+        throw error;
+      }
     }, { operationName: 'Customer.delete' });
   },
 
@@ -395,7 +734,8 @@ const Customer = {
 
   /**
    * Recalculate customer statistics (totalOrders, totalSpent, lastOrderDate)
-   * Call this after order create/update/delete
+   * totalSpent is net of refunds from approved returns.
+   * Call this after order create/update/delete and after a return is approved
    */
   async updateStats(id: number): Promise<Customer | null> {
     return executeWithRetry(async () => {
@@ -425,7 +765,16 @@ const Customer = {
         .from(orders)
         .where(eq(orders.customerId, customerIdValue));
 
-      const { totalOrders, totalSpent, firstOrderDate, lastOrderDate } = stats[0];
+      const refunds = await db
+        .select({
+          total: sql<string>`COALESCE(sum(${orderReturns.refundAmount}), 0)`,
+        })
+        .from(orderReturns)
+        .innerJoin(orders, eq(orderReturns.orderId, orders.id))
+        .where(and(eq(orders.customerId, customerIdValue), eq(orderReturns.status, 'approved')));
+
+      const { totalOrders, firstOrderDate, lastOrderDate } = stats[0];
+      const totalSpent = (Number.parseFloat(stats[0].totalSpent || '0') - Number.parseFloat(refunds[0].total)).toFixed(2);
 
       // Update customer with calculated stats
       const result = await db
@@ -445,6 +794,43 @@ const Customer = {
     }, { operationName: 'Customer.updateStats' });
   },
 
+  /**
+   * Recalculate the statistics of many customers in one statement, the same way as updateStats
+   */
+  async updateStatsBulk(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      await db.execute(sql`
+        UPDATE customers c
+        SET total_orders = s.total_orders,
+            total_spent = s.total_spent - s.refunds,
+            first_order_date = s.first_order_date,
+            last_order_date = s.last_order_date,
+            updated_at = NOW()
+        FROM (
+          SELECT
+            c2.id,
+            count(o.id)::int AS total_orders,
+            COALESCE(sum(o.total_price), 0)::numeric(10,2) AS total_spent,
+            min(o.created_at) AS first_order_date,
+            max(o.created_at) AS last_order_date,
+            COALESCE((
+              SELECT sum(r.refund_amount)
+              FROM order_returns r
+              JOIN orders ro ON ro.id = r.order_id
+              WHERE ro.customer_id = c2.customer_id AND r.status = 'approved'
+            ), 0) AS refunds
+          FROM customers c2
+          LEFT JOIN orders o ON o.customer_id = c2.customer_id
+          WHERE c2.id IN ${ids}
+          GROUP BY c2.id
+        ) s
+        WHERE c.id = s.id
+      `);
+    }, { operationName: 'Customer.updateStatsBulk' });
+  },
+
   /**
    * Update stats by customerId string (for use in order hooks)
    */
@@ -0,0 +1,193 @@
+import { eq, and, desc, asc, ne } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { customers, customerAddresses } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { formatCustomerAddress } from '@/lib/utils/customerContactUtils';
+import type { CustomerAddress as CustomerAddressEntity, CustomerAddressData, CustomerAddressSnapshot } from '@/types/entities';
+
+const ADDRESS_FIELDS = ['label', 'line1', 'line2', 'city', 'state', 'pinCode', 'landmark'] as const;
+
+interface CustomerAddressRow {
+  id: number;
+  customerId: number;
+  label: string | null;
+  line1: string;
+  line2: string | null;
+  city: string | null;
+  state: string | null;
+  pinCode: string | null;
+  landmark: string | null;
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function transformAddress(row: CustomerAddressRow): CustomerAddressEntity {
+  return {
+    id: row.id,
+    customerId: row.customerId,
+    label: row.label || null,
+    line1: row.line1,
+    line2: row.line2 || null,
+    city: row.city || null,
+    state: row.state || null,
+    pinCode: row.pinCode || null,
+    landmark: row.landmark || null,
+    isDefault: row.isDefault,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function addressValues<T extends Partial<CustomerAddressData>>(data: T): Omit<T, 'isDefault'> {
+  return Object.fromEntries(
+    ADDRESS_FIELDS.filter(key => data[key] !== undefined).map(key => [key, data[key]])
+  ) as Omit<T, 'isDefault'>;
+}
+
+/**
+ * Copy the default address onto the customer (address and state), which lists,
+ * exports, invoices and duplicate detection read; no addresses clears it
+ */
+async function syncCustomerAddress(db: Database, customerId: number): Promise<void> {
+  const [defaultAddress] = await db
+    .select()
+    .from(customerAddresses)
+    .where(and(eq(customerAddresses.customerId, customerId), eq(customerAddresses.isDefault, true)))
+    .limit(1);
+
+  await db
+    .update(customers)
+    .set({
+      address: defaultAddress ? formatCustomerAddress(defaultAddress) : null,
+      ...(defaultAddress?.state ? { state: defaultAddress.state } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(customers.id, customerId));
+}
+
+/**
+ * The address fields an order keeps, so editing or deleting the saved address later
+ * does not change where a past order went
+ */
+export function toAddressSnapshot(address: CustomerAddressEntity): CustomerAddressSnapshot {
+  const { label, line1, line2, city, state, pinCode, landmark } = address;
+  return { label, line1, line2, city, state, pinCode, landmark };
+}
+
+const CustomerAddress = {
+  /**
+   * A customer's saved addresses, default first
+   */
+  async findByCustomerId(customerId: number): Promise<CustomerAddressEntity[]> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select()
+        .from(customerAddresses)
+        .where(eq(customerAddresses.customerId, customerId))
+        .orderBy(desc(customerAddresses.isDefault), asc(customerAddresses.createdAt));
+      return result.map(transformAddress);
+    }, { operationName: 'CustomerAddress.findByCustomerId' });
+  },
+
+  async findById(id: number): Promise<CustomerAddressEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [row] = await db.select().from(customerAddresses).where(eq(customerAddresses.id, id)).limit(1);
+      return row ? transformAddress(row) : null;
+    }, { operationName: 'CustomerAddress.findById' });
+  },
+
+  /**
+   * Save an address; a customer's first address is always the default
+   */
+  async create(customerId: number, data: CustomerAddressData): Promise<CustomerAddressEntity> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [existing] = await db
+        .select({ id: customerAddresses.id })
+        .from(customerAddresses)
+        .where(eq(customerAddresses.customerId, customerId))
+        .limit(1);
+      const isDefault = data.isDefault === true || !existing;
+
+      const insert = db.insert(customerAddresses)
+        .values({ ...addressValues(data), customerId, isDefault })
+        .returning();
+      const [created] = isDefault
+        ? (await db.batch([
+          db.update(customerAddresses)
+            .set({ isDefault: false, updatedAt: new Date() })
+            .where(and(eq(customerAddresses.customerId, customerId), eq(customerAddresses.isDefault, true))),
+          insert,
+        ]))[1]
+        : await insert;
+
+      if (isDefault) await syncCustomerAddress(db, customerId);
+      return transformAddress(created);
+    }, { operationName: 'CustomerAddress.create' });
+  },
+
+  /**
+   * Update an address of the customer; isDefault: true makes it the default
+   * @returns null when the customer has no such address
+   */
+  async update(customerId: number, id: number, data: Partial<CustomerAddressData>): Promise<CustomerAddressEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const makeDefault = data.isDefault === true;
+      const ownAddress = and(eq(customerAddresses.customerId, customerId), eq(customerAddresses.id, id));
+
+      const update = db.update(customerAddresses)
+        .set({ ...addressValues(data), ...(makeDefault ? { isDefault: true } : {}), updatedAt: new Date() })
+        .where(ownAddress)
+        .returning();
+      const [updated] = makeDefault
+        ? (await db.batch([
+          db.update(customerAddresses)
+            .set({ isDefault: false, updatedAt: new Date() })
+            .where(and(eq(customerAddresses.customerId, customerId), ne(customerAddresses.id, id), eq(customerAddresses.isDefault, true))),
+          update,
+        ]))[1]
+        : await update;
+      if (!updated) return null;
+
+      if (updated.isDefault) await syncCustomerAddress(db, customerId);
+      return transformAddress(updated);
+    }, { operationName: 'CustomerAddress.update' });
+  },
+
+  /**
+   * Delete an address of the customer; when it was the default, the oldest remaining
+   * address becomes the default. Orders keep their snapshot of it.
+   */
+  async delete(customerId: number, id: number): Promise<boolean> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [deleted] = await db
+        .delete(customerAddresses)
+        .where(and(eq(customerAddresses.customerId, customerId), eq(customerAddresses.id, id)))
+        .returning();
+      if (!deleted) return false;
+
+      if (deleted.isDefault) {
+        const [next] = await db
+          .select({ id: customerAddresses.id })
+          .from(customerAddresses)
+          .where(eq(customerAddresses.customerId, customerId))
+          .orderBy(asc(customerAddresses.createdAt))
+          .limit(1);
+        if (next) {
+          await db.update(customerAddresses)
+            .set({ isDefault: true, updatedAt: new Date() })
+            .where(eq(customerAddresses.id, next.id));
+        }
+        await syncCustomerAddress(db, customerId);
+      }
+      return true;
+    }, { operationName: 'CustomerAddress.delete' });
+  },
+};
+
+export default CustomerAddress;
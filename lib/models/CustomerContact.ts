@@ -0,0 +1,169 @@
+import { eq, and, asc, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { customers, customerContacts } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { normalizeContactValue, normalizeHandle, normalizePhone } from '@/lib/utils/customerContactUtils';
+import type {
+  CustomerContact as CustomerContactEntity,
+  CustomerContactChannel,
+  CustomerContactData,
+} from '@/types/entities';
+
+/** Fewer digits than this are not searched as part of a phone number */
+const MIN_PHONE_SEARCH_DIGITS = 4;
+
+interface CustomerContactRow {
+  id: number;
+  customerId: number;
+  channel: CustomerContactChannel;
+  value: string;
+  label: string | null;
+  createdAt: Date;
+}
+
+function transformContact(row: CustomerContactRow): CustomerContactEntity {
+  return {
+    id: row.id,
+    customerId: row.customerId,
+    channel: row.channel,
+    value: row.value,
+    label: row.label || null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Row values for a contact, or null when the value is not valid for its channel
+ */
+export function contactValues(customerId: number, data: CustomerContactData) {
+  const normalizedValue = normalizeContactValue(data.channel, data.value);
+  if (!normalizedValue) return null;
+  return {
+    customerId,
+    channel: data.channel,
+    value: data.value.trim(),
+    normalizedValue,
+    label: data.label?.trim() || null,
+  };
+}
+
+/** Row values for a contact the service has already validated */
+function requireContactValues(customerId: number, data: CustomerContactData) {
+  const values = contactValues(customerId, data);
+  if (!values) throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Not a valid ${data.channel} contact`);
+  return values;
+}
+
+/** The part of a contact search that tests one contact row (aliased cc) */
+function contactMatches(query: string): SQL {
+  const trimmed = query.trim();
+  const conditions = [sql`cc.value ILIKE ${`%${trimmed}%`}`];
+
+  const handle = normalizeHandle(trimmed);
+  if (handle) conditions.push(sql`cc.normalized_value LIKE ${`%${handle}%`}`);
+
+  const digits = trimmed.replaceAll(/\D/g, '');
+  const phone = normalizePhone(trimmed) ?? (digits.length >= MIN_PHONE_SEARCH_DIGITS ? digits : null);
+  if (phone) conditions.push(sql`cc.normalized_value LIKE ${`%${phone}%`}`);
+
+  return sql.join(conditions, sql` OR `);
+}
+
+/**
+ * SQL condition on customers: one of their contacts matches the search, ignoring
+ * "@", +91 and spacing
+ */
+export function contactSearchCondition(query: string): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM customer_contacts cc
+    WHERE cc.customer_id = ${customers.id} AND (${contactMatches(query)})
+  )`;
+}
+
+/**
+ * SQL expression on customers: the first contact matching the search as { channel, value }, or null
+ */
+export function matchedContactExpression(query: string): SQL {
+  return sql`(
+    SELECT json_build_object('channel', cc.channel, 'value', cc.value) FROM customer_contacts cc
+    WHERE cc.customer_id = ${customers.id} AND (${contactMatches(query)})
+    ORDER BY cc.id LIMIT 1
+  )`;
+}
+
+function duplicateContact(error: unknown): never {
+  // 23505 = unique_violation on (customer, channel, normalized value)
+  if ((error as { code?: string } | null)?.code === '23505') {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'The customer already has this contact');
+  }
+  throw error;
+}
+
+const CustomerContact = {
+  /**
+   * A customer's contacts, by channel then in the order they were added
+   */
+  async findByCustomerId(customerId: number): Promise<CustomerContactEntity[]> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select()
+        .from(customerContacts)
+        .where(eq(customerContacts.customerId, customerId))
+        .orderBy(asc(customerContacts.channel), asc(customerContacts.id));
+      return result.map(transformContact);
+    }, { operationName: 'CustomerContact.findByCustomerId' });
+  },
+
+  /**
+   * @throws {ApiError} 409 when the customer already has the contact
+   */
+  async create(customerId: number, data: CustomerContactData): Promise<CustomerContactEntity> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      try {
+        const [created] = await db.insert(customerContacts).values(requireContactValues(customerId, data)).returning();
+        return transformContact(created);
+      } catch (error) {
+        duplicateContact(error);
+      }
+    }, { operationName: 'CustomerContact.create' });
+  },
+
+  /**
+   * Update a contact of the customer
+   * @returns null when the customer has no such contact
+   * @throws {ApiError} 409 when the customer already has the new value
+   */
+  async update(customerId: number, id: number, data: CustomerContactData): Promise<CustomerContactEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const { channel, value, normalizedValue, label } = requireContactValues(customerId, data);
+      try {
+        const [updated] = await db
+          .update(customerContacts)
+          .set({ channel, value, normalizedValue, label })
+          .where(and(eq(customerContacts.customerId, customerId), eq(customerContacts.id, id)))
+          .returning();
+        return updated ? transformContact(updated) : null;
+      } catch (error) {
+        duplicateContact(error);
+      }
+    }, { operationName: 'CustomerContact.update' });
+  },
+
+  async delete(customerId: number, id: number): Promise<boolean> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .delete(customerContacts)
+        .where(and(eq(customerContacts.customerId, customerId), eq(customerContacts.id, id)))
+        .returning({ id: customerContacts.id });
+      return result.length > 0;
+    }, { operationName: 'CustomerContact.delete' });
+  },
+};
+
+export default CustomerContact;
@@ -0,0 +1,309 @@
+import { and, eq, desc, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { customers, customerLoyaltyEntries, orders } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import AuditLog from '@/lib/models/AuditLog';
+import type { LoyaltyBalanceKind, LoyaltyEntry, LoyaltyEntryType } from '@/types';
+
+export interface LoyaltyEntryInput {
+  customerId: number;
+  kind: LoyaltyBalanceKind;
+  type: LoyaltyEntryType;
+  /** Positive adds to the balance, negative takes from it */
+  amount: number;
+  orderId?: number | null;
+  expiresAt?: Date | null;
+  notes?: string | null;
+}
+
+export interface LoyaltyUser {
+  id?: number | null;
+  email?: string | null;
+  name?: string | null;
+}
+
+interface LoyaltyEntryRow {
+  id: number;
+  customerId: number;
+  kind: LoyaltyBalanceKind;
+  type: LoyaltyEntryType;
+  amount: string;
+  orderId: number | null;
+  orderNumber: string | null;
+  expiresAt: Date | null;
+  notes: string | null;
+  userEmail: string | null;
+  createdAt: Date;
+}
+
+type OrderTotalsRow = {
+  earned: string;
+  reversed: string;
+  redeemed: string;
+  restored: string;
+  storeCreditPaid: string;
+  earnedBy: number | null;
+  redeemedBy: number | null;
+};
+
+function transformEntry(row: LoyaltyEntryRow): LoyaltyEntry {
+  return {
+    id: row.id,
+    customerId: row.customerId,
+    kind: row.kind,
+    type: row.type,
+    amount: Number.parseFloat(row.amount),
+    orderId: row.orderId ?? null,
+    orderNumber: row.orderNumber ?? null,
+    expiresAt: row.expiresAt?.toISOString() || null,
+    notes: row.notes || null,
+    userEmail: row.userEmail || null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function transformBalances(row: { loyaltyPoints: number; storeCredit: string } | undefined) {
+  return {
+    loyaltyPoints: row?.loyaltyPoints ?? 0,
+    storeCredit: Number.parseFloat(row?.storeCredit || '0'),
+  };
+}
+
+/**
+ * Points of a customer's that have expired, or will have by `cutoff`, and are still unspent
+ * Spending uses up expiring points first, so this is the points earned with an expiry up
+ * to the cutoff less everything taken from the balance since (given-back points count as
+ * never taken), never below zero. Expiry entries are themselves taken, so expired points
+ * are only counted once. Must be used in a query over customer_loyalty_entries grouped
+ * by customer.
+ */
+function unspentExpiringPoints(cutoff: SQL) {
+  return sql<string>`GREATEST(0,
+    COALESCE(SUM(amount) FILTER (WHERE type = 'earn' AND expires_at <= ${cutoff}), 0)
+    + COALESCE(SUM(amount) FILTER (WHERE amount < 0), 0)
+    - COALESCE(SUM(amount) FILTER (WHERE type = 'restore'), 0)
+  )`;
+}
+
+const CustomerLoyalty = {
+  /**
+   * Build the statements for one ledger entry: the balance change, the entry and its
+   * audit log row, to run together in a batch. A balance that would go below zero fails
+   * the whole batch on the customers check constraints; see toBalanceError.
+   * @param guard - Optional SQL condition all three statements require, so the entry
+   *   only happens when an earlier statement in the same batch took effect
+   */
+  buildEntryStatements(db: Database, entry: LoyaltyEntryInput, user?: LoyaltyUser, guard?: SQL) {
+    const isPoints = entry.kind === 'points';
+    const amount = isPoints ? Math.round(entry.amount) : Math.round(entry.amount * 100) / 100;
+    const balance = isPoints
+      ? { loyaltyPoints: sql`${customers.loyaltyPoints} + ${amount}` }
+      : { storeCredit: sql`${customers.storeCredit} + ${amount}` };
+
+    return [
+      db.update(customers).set(balance).where(and(eq(customers.id, entry.customerId), guard)),
+      db.execute(sql`
+        INSERT INTO customer_loyalty_entries (customer_id, kind, type, amount, order_id, expires_at, notes, user_id, user_email)
+        SELECT ${entry.customerId}, ${entry.kind}::loyalty_balance_kind, ${entry.type}::loyalty_entry_type, ${amount.toFixed(2)}::numeric,
+          ${entry.orderId ?? null}::int, ${entry.expiresAt?.toISOString() ?? null}::timestamptz, ${entry.notes?.trim() || null},
+          ${user?.id ?? null}::int, ${user?.email ?? null}
+        WHERE ${guard ?? sql`TRUE`}
+      `),
+      AuditLog.buildCreateStatement(db, {
+        entityType: 'customer',
+        entityId: entry.customerId,
+        action: 'update',
+        userId: user?.id ?? undefined,
+        userEmail: user?.email ?? undefined,
+        userName: user?.name ?? undefined,
+        metadata: {
+          event: `loyalty_${entry.type}`,
+          kind: entry.kind,
+          amount,
+          orderId: entry.orderId ?? null,
+          notes: entry.notes?.trim() || null,
+        },
+      }, guard),
+    ] as const;
+  },
+
+  /**
+   * Map a failed batch to a 400 when it would have taken a balance below zero
+   * @returns The ApiError, or the original error for anything else
+   */
+  toBalanceError(error: unknown) {
+    const message = String((error as { message?: string } | null)?.message || '');
+    if (message.includes('customers_loyalty_points_non_negative')) {
+      return new ApiError(HTTP_STATUS.BAD_REQUEST, 'The customer does not have enough points');
+    }
+    if (message.includes('customers_store_credit_non_negative')) {
+      return new ApiError(HTTP_STATUS.BAD_REQUEST, 'The customer does not have enough store credit');
+    }
+    return error;
+  },
+
+  /**
+   * Record one ledger entry and move the balance with it
+   * @returns The customer's balances afterwards
+   * @throws {ApiError} 400 when the entry would take the balance below zero
+   */
+  async addEntry(entry: LoyaltyEntryInput, user?: LoyaltyUser) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      try {
+        await db.batch(this.buildEntryStatements(db, entry, user));
+      } catch (error) {
+        throw this.toBalanceError(error);
+      }
+      const [row] = await db
+        .select({ loyaltyPoints: customers.loyaltyPoints, storeCredit: customers.storeCredit })
+        .from(customers)
+        .where(eq(customers.id, entry.customerId));
+      return transformBalances(row);
+    }, { operationName: 'CustomerLoyalty.addEntry' });
+  },
+
+  /**
+   * A customer's points and store credit, and how many points expire by `expiringBy`
+   */
+  async getBalances(customerId: number, expiringBy: Date = new Date()) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [[customer], [expiring]] = await Promise.all([
+        db
+          .select({ loyaltyPoints: customers.loyaltyPoints, storeCredit: customers.storeCredit })
+          .from(customers)
+          .where(eq(customers.id, customerId)),
+        db
+          .select({ points: unspentExpiringPoints(sql`${expiringBy}`) })
+          .from(customerLoyaltyEntries)
+          .where(sql`${customerLoyaltyEntries.customerId} = ${customerId} AND ${customerLoyaltyEntries.kind} = 'points'`),
+      ]);
+      if (!customer) return null;
+
+      const balances = transformBalances(customer);
+      return {
+        ...balances,
+        pointsExpiringSoon: Math.min(Number.parseFloat(expiring?.points || '0'), balances.loyaltyPoints),
+      };
+    }, { operationName: 'CustomerLoyalty.getBalances' });
+  },
+
+  /**
+   * A customer's ledger, newest first
+   */
+  async findByCustomerId(customerId: number, limit: number): Promise<LoyaltyEntry[]> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({
+          id: customerLoyaltyEntries.id,
+          customerId: customerLoyaltyEntries.customerId,
+          kind: customerLoyaltyEntries.kind,
+          type: customerLoyaltyEntries.type,
+          amount: customerLoyaltyEntries.amount,
+          orderId: customerLoyaltyEntries.orderId,
+          orderNumber: orders.orderId,
+          expiresAt: customerLoyaltyEntries.expiresAt,
+          notes: customerLoyaltyEntries.notes,
+          userEmail: customerLoyaltyEntries.userEmail,
+          createdAt: customerLoyaltyEntries.createdAt,
+        })
+        .from(customerLoyaltyEntries)
+        .leftJoin(orders, eq(orders.id, customerLoyaltyEntries.orderId))
+        .where(eq(customerLoyaltyEntries.customerId, customerId))
+        .orderBy(desc(customerLoyaltyEntries.createdAt), desc(customerLoyaltyEntries.id))
+        .limit(limit);
+      return result.map(transformEntry);
+    }, { operationName: 'CustomerLoyalty.findByCustomerId' });
+  },
+
+  /**
+   * What an order has done to its customer's points, and how much of it was paid with
+   * store credit
+   * @returns earned (positive), reversed and redeemed (negative), restored (positive), and
+   *   the customers who earned and redeemed them
+   */
+  async getOrderTotals(orderId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.execute<OrderTotalsRow>(sql`
+        SELECT
+          COALESCE(SUM(amount) FILTER (WHERE kind = 'points' AND type = 'earn'), 0) AS earned,
+          COALESCE(SUM(amount) FILTER (WHERE kind = 'points' AND type = 'reverse'), 0) AS reversed,
+          COALESCE(SUM(amount) FILTER (WHERE kind = 'points' AND type = 'redeem'), 0) AS redeemed,
+          COALESCE(SUM(amount) FILTER (WHERE kind = 'points' AND type = 'restore'), 0) AS restored,
+          MIN(customer_id) FILTER (WHERE kind = 'points' AND type = 'earn') AS "earnedBy",
+          MIN(customer_id) FILTER (WHERE kind = 'points' AND type = 'redeem') AS "redeemedBy",
+          (
+            SELECT COALESCE(SUM(amount), 0) FROM order_payments
+            WHERE order_id = ${orderId} AND method = 'store_credit' AND amount > 0
+          ) AS "storeCreditPaid"
+        FROM customer_loyalty_entries
+        WHERE order_id = ${orderId}
+      `);
+      const row = result.rows[0];
+      return {
+        earned: Number.parseFloat(row.earned),
+        reversed: Number.parseFloat(row.reversed),
+        redeemed: Number.parseFloat(row.redeemed),
+        restored: Number.parseFloat(row.restored),
+        storeCreditPaid: Number.parseFloat(row.storeCreditPaid),
+        earnedBy: row.earnedBy ?? null,
+        redeemedBy: row.redeemedBy ?? null,
+      };
+    }, { operationName: 'CustomerLoyalty.getOrderTotals' });
+  },
+
+  /**
+   * Expire every customer's unspent points that are past their expiry date, with an
+   * expiry entry and an audit log row per customer, in one statement
+   * @returns The customers whose points expired, and how many
+   */
+  async expirePoints(): Promise<Array<{ customerId: number; points: number }>> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.execute<{ customerId: number; points: string }>(sql`
+        WITH due AS (
+          SELECT customer_id, ${unspentExpiringPoints(sql`NOW()`)} AS points
+          FROM customer_loyalty_entries
+          WHERE kind = 'points'
+          GROUP BY customer_id
+        ),
+        expiring AS (
+          SELECT c.id AS customer_id, LEAST(d.points, c.loyalty_points)::int AS points
+          FROM due d
+          JOIN customers c ON c.id = d.customer_id
+          WHERE d.points > 0 AND c.loyalty_points > 0
+        ),
+        entries AS (
+          INSERT INTO customer_loyalty_entries (customer_id, kind, type, amount, notes)
+          SELECT customer_id, 'points', 'expire', -points, 'Unspent points past their expiry date'
+          FROM expiring
+          RETURNING customer_id, amount
+        ),
+        balances AS (
+          UPDATE customers c
+          SET loyalty_points = c.loyalty_points + e.amount
+          FROM entries e
+          WHERE c.id = e.customer_id
+        ),
+        audit AS (
+          INSERT INTO audit_logs (entity_type, entity_id, action, metadata)
+          SELECT 'customer', customer_id, 'update',
+            jsonb_build_object(
+              'event', 'loyalty_expire', 'kind', 'points', 'amount', amount::int,
+              'orderId', NULL, 'notes', 'Unspent points past their expiry date'
+            )
+          FROM entries
+        )
+        SELECT customer_id AS "customerId", -amount AS points FROM entries
+      `);
+      return result.rows.map(row => ({ customerId: row.customerId, points: Number.parseFloat(row.points) }));
+    }, { operationName: 'CustomerLoyalty.expirePoints' });
+  },
+};
+
+export default CustomerLoyalty;
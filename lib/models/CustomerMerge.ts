@@ -0,0 +1,342 @@
+import { eq, desc, sql, and, isNull } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { customers, customerMerges, customerDuplicateDismissals, users } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import CustomerLoyalty from '@/lib/models/CustomerLoyalty';
+import type { CustomerId, CustomerMerge as CustomerMergeEntity } from '@/types';
+
+/** Customer fields a merge may fill in on the survivor */
+export type CustomerMergeFields = Record<string, string | null>;
+
+export interface CreateCustomerMergeData {
+  survivorId: number;
+  mergedId: number;
+  survivorBefore: CustomerMergeFields;
+  survivorAfter: CustomerMergeFields;
+  score?: number | null;
+  userId?: number;
+}
+
+const survivorCustomers = alias(customers, 'survivor_customers');
+const mergedCustomers = alias(customers, 'merged_customers');
+
+function transformSummary(id: number, customerId: string, name: string, phone: string | null) {
+  return { id: id as CustomerId, customerId, name, phone: phone || null };
+}
+
+interface CustomerMergeRow {
+  id: number;
+  survivorId: number;
+  survivorCustomerId: string;
+  survivorName: string;
+  survivorPhone: string | null;
+  mergedId: number;
+  mergedCustomerId: string;
+  mergedName: string;
+  mergedPhone: string | null;
+  orders: unknown[];
+  score: number | null;
+  mergedByName: string | null;
+  createdAt: Date;
+  revertedAt: Date | null;
+}
+
+function transformMerge(row: CustomerMergeRow): CustomerMergeEntity {
+  return {
+    id: row.id,
+    survivor: transformSummary(row.survivorId, row.survivorCustomerId, row.survivorName, row.survivorPhone),
+    merged: transformSummary(row.mergedId, row.mergedCustomerId, row.mergedName, row.mergedPhone),
+    orderCount: row.orders.length,
+    score: row.score ?? null,
+    mergedByName: row.mergedByName || null,
+    createdAt: row.createdAt.toISOString(),
+    revertedAt: row.revertedAt?.toISOString() || null,
+  };
+}
+
+function selectMerges(db: Database) {
+  return db
+    .select({
+      id: customerMerges.id,
+      survivorId: customerMerges.survivorId,
+      survivorCustomerId: survivorCustomers.customerId,
+      survivorName: survivorCustomers.name,
+      survivorPhone: survivorCustomers.phone,
+      mergedId: customerMerges.mergedId,
+      mergedCustomerId: mergedCustomers.customerId,
+      mergedName: mergedCustomers.name,
+      mergedPhone: mergedCustomers.phone,
+      orders: customerMerges.orders,
+      score: customerMerges.score,
+      mergedByName: users.name,
+      createdAt: customerMerges.createdAt,
+      revertedAt: customerMerges.revertedAt,
+    })
+    .from(customerMerges)
+    .innerJoin(survivorCustomers, eq(customerMerges.survivorId, survivorCustomers.id))
+    .innerJoin(mergedCustomers, eq(customerMerges.mergedId, mergedCustomers.id))
+    .leftJoin(users, eq(customerMerges.mergedBy, users.id));
+}
+
+const CustomerMerge = {
+  /**
+   * Most recent merges first, including undone ones
+   */
+  async findRecent(limit = 20): Promise<CustomerMergeEntity[]> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await selectMerges(db)
+        .orderBy(desc(customerMerges.createdAt))
+        .limit(limit);
+      return result.map(transformMerge);
+    }, { operationName: 'CustomerMerge.findRecent' });
+  },
+
+  async findById(id: number): Promise<CustomerMergeEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [row] = await selectMerges(db).where(eq(customerMerges.id, id)).limit(1);
+      return row ? transformMerge(row) : null;
+    }, { operationName: 'CustomerMerge.findById' });
+  },
+
+  /**
+   * The stored merge row, with the survivor's field values from before and after the merge
+   */
+  async findRecordById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [row] = await db.select().from(customerMerges).where(eq(customerMerges.id, id)).limit(1);
+      return row ?? null;
+    }, { operationName: 'CustomerMerge.findRecordById' });
+  },
+
+  /**
+   * Merge one customer into another in a single batch: re-point the merged customer's
+   * orders (by business ID or by reference) to the survivor and record their old
+   * references; move its loyalty entries and balances, saved addresses and contacts
+   * (a contact the survivor already has stays behind); update the survivor and mark
+   * the merged customer as merged. A moved default address stays the default only
+   * when the survivor has none.
+   */
+  async create(data: CreateCustomerMergeData): Promise<CustomerMergeEntity> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const { survivorId, mergedId, survivorBefore, survivorAfter } = data;
+
+      const [survivor] = await db
+        .select({ customerId: customers.customerId })
+        .from(customers)
+        .where(eq(customers.id, survivorId))
+        .limit(1);
+      const [merged] = await db
+        .select({ customerId: customers.customerId })
+        .from(customers)
+        .where(eq(customers.id, mergedId))
+        .limit(1);
+
+      // Allocate the ID so the balance updates can read what the merge row recorded
+      const idResult = await db.execute<{ id: number }>(sql`SELECT nextval(pg_get_serial_sequence('customer_merges', 'id'))::int AS id`);
+      const id = idResult.rows[0].id;
+
+      // Everything is selected, moved and recorded in one statement so nothing slips through
+      // (a data-modifying CTE always runs, even though the insert does not read it)
+      await db.batch([
+        db.execute(sql`
+          WITH moved AS (
+            SELECT id, customer_id, customer_id_ref
+            FROM orders
+            WHERE customer_id = ${merged.customerId} OR customer_id_ref = ${mergedId}
+            FOR UPDATE
+          ), repointed AS (
+            UPDATE orders o
+            SET customer_id = ${survivor.customerId}, customer_id_ref = ${survivorId}, updated_at = NOW()
+            FROM moved
+            WHERE o.id = moved.id
+            RETURNING o.id
+          ), balances AS (
+            SELECT loyalty_points, store_credit FROM customers WHERE id = ${mergedId} FOR UPDATE
+          ), moved_entries AS (
+            UPDATE customer_loyalty_entries
+            SET customer_id = ${survivorId}
+            WHERE customer_id = ${mergedId}
+            RETURNING id
+          ), merged_addresses AS (
+            SELECT id, is_default FROM customer_addresses WHERE customer_id = ${mergedId} FOR UPDATE
+          ), moved_addresses AS (
+            UPDATE customer_addresses a
+            SET customer_id = ${survivorId},
+              is_default = a.is_default
+                AND NOT EXISTS (SELECT 1 FROM customer_addresses s WHERE s.customer_id = ${survivorId} AND s.is_default),
+              updated_at = NOW()
+            FROM merged_addresses
+            WHERE a.id = merged_addresses.id
+            RETURNING a.id
+          ), moved_contacts AS (
+            UPDATE customer_contacts c
+            SET customer_id = ${survivorId}
+            WHERE c.customer_id = ${mergedId}
+              AND NOT EXISTS (
+                SELECT 1 FROM customer_contacts s
+                WHERE s.customer_id = ${survivorId} AND s.channel = c.channel AND s.normalized_value = c.normalized_value
+              )
+            RETURNING c.id
+          )
+          INSERT INTO customer_merges (
+            id, survivor_id, merged_id, orders, loyalty_entries, loyalty_points, store_credit, addresses, contacts,
+            survivor_before, survivor_after, score, merged_by
+          )
+          SELECT
+            ${id}, ${survivorId}, ${mergedId},
+            COALESCE(
+              (SELECT jsonb_agg(jsonb_build_object('id', id, 'customerId', customer_id, 'customerIdRef', customer_id_ref) ORDER BY id) FROM moved),
+              '[]'::jsonb
+            ),
+            COALESCE((SELECT jsonb_agg(id ORDER BY id) FROM moved_entries), '[]'::jsonb),
+            (SELECT loyalty_points FROM balances),
+            (SELECT store_credit FROM balances),
+            COALESCE(
+              (SELECT jsonb_agg(jsonb_build_object('id', id, 'isDefault', is_default) ORDER BY id) FROM merged_addresses),
+              '[]'::jsonb
+            ),
+            COALESCE((SELECT jsonb_agg(id ORDER BY id) FROM moved_contacts), '[]'::jsonb),
+            ${JSON.stringify(survivorBefore)}::jsonb, ${JSON.stringify(survivorAfter)}::jsonb,
+            ${data.score ?? null}, ${data.userId ?? null}
+        `),
+        db.update(customers)
+          .set({
+            ...survivorAfter,
+            loyaltyPoints: sql`${customers.loyaltyPoints} + (SELECT loyalty_points FROM customer_merges WHERE id = ${id})`,
+            storeCredit: sql`${customers.storeCredit} + (SELECT store_credit FROM customer_merges WHERE id = ${id})`,
+            updatedAt: new Date(),
+          })
+          .where(eq(customers.id, survivorId)),
+        db.update(customers)
+          .set({ mergedIntoId: survivorId, loyaltyPoints: 0, storeCredit: '0', updatedAt: new Date() })
+          .where(eq(customers.id, mergedId)),
+      ]);
+
+      return this.findById(id);
+    }, { operationName: 'CustomerMerge.create' });
+  },
+
+  /**
+   * Undo a merge in a single batch. Orders, loyalty entries, addresses and contacts go
+   * back to the merged customer only while they still belong to the survivor, the
+   * balances that came over go back with the entries, and survivorRestore holds the
+   * survivor fields to put back (the caller leaves out fields edited since the merge).
+   * Every statement requires the merge to have been marked undone by this call, so a
+   * concurrent undo moves nothing twice.
+   * @returns how many orders were moved back, or null when the merge was undone meanwhile
+   * @throws ApiError 409 when the survivor has spent the points or store credit that came over
+   */
+  async revert(id: number, survivorRestore: CustomerMergeFields, userId?: number): Promise<number | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const record = await this.findRecordById(id);
+      if (!record) return null;
+
+      const [survivor] = await db
+        .select({ customerId: customers.customerId })
+        .from(customers)
+        .where(eq(customers.id, record.survivorId))
+        .limit(1);
+
+      const revertedAt = new Date();
+      const reverting = sql`EXISTS (SELECT 1 FROM customer_merges WHERE id = ${id} AND reverted_at = ${revertedAt.toISOString()}::timestamptz)`;
+
+      try {
+        const [claim, restored] = await db.batch([
+          db.update(customerMerges)
+            .set({ revertedAt, revertedBy: userId ?? null })
+            .where(and(eq(customerMerges.id, id), isNull(customerMerges.revertedAt))),
+          db.execute(sql`
+            UPDATE orders o
+            SET customer_id = r."customerId", customer_id_ref = COALESCE(r."customerIdRef", m.merged_id), updated_at = NOW()
+            FROM customer_merges m
+            CROSS JOIN LATERAL jsonb_to_recordset(m.orders) AS r(id int, "customerId" text, "customerIdRef" int)
+            WHERE m.id = ${id} AND o.id = r.id AND o.customer_id = ${survivor.customerId} AND ${reverting}
+            RETURNING o.id
+          `),
+          db.execute(sql`
+            UPDATE customer_loyalty_entries e
+            SET customer_id = m.merged_id
+            FROM customer_merges m
+            WHERE m.id = ${id} AND e.customer_id = m.survivor_id AND m.loyalty_entries @> to_jsonb(e.id) AND ${reverting}
+          `),
+          db.execute(sql`
+            UPDATE customers c
+            SET loyalty_points = c.loyalty_points + (CASE WHEN c.id = m.survivor_id THEN -m.loyalty_points ELSE m.loyalty_points END),
+              store_credit = c.store_credit + (CASE WHEN c.id = m.survivor_id THEN -m.store_credit ELSE m.store_credit END),
+              updated_at = NOW()
+            FROM customer_merges m
+            WHERE m.id = ${id} AND c.id IN (m.survivor_id, m.merged_id) AND ${reverting}
+          `),
+          db.execute(sql`
+            UPDATE customer_addresses a
+            SET customer_id = m.merged_id, is_default = r."isDefault", updated_at = NOW()
+            FROM customer_merges m
+            CROSS JOIN LATERAL jsonb_to_recordset(m.addresses) AS r(id int, "isDefault" boolean)
+            WHERE m.id = ${id} AND a.id = r.id AND a.customer_id = m.survivor_id AND ${reverting}
+          `),
+          db.execute(sql`
+            UPDATE customer_contacts c
+            SET customer_id = m.merged_id
+            FROM customer_merges m
+            WHERE m.id = ${id} AND c.customer_id = m.survivor_id AND m.contacts @> to_jsonb(c.id) AND ${reverting}
+          `),
+          db.update(customers)
+            .set({ mergedIntoId: null, updatedAt: new Date() })
+            .where(and(eq(customers.id, record.mergedId), reverting)),
+          ...(Object.keys(survivorRestore).length > 0
+            ? [db.update(customers)
+              .set({ ...survivorRestore, updatedAt: new Date() })
+              .where(and(eq(customers.id, record.survivorId), reverting))]
+            : []),
+        ]);
+        if (claim.rowCount === 0) return null;
+        return restored.rows.length;
+      } catch (error) {
+        if (CustomerLoyalty.toBalanceError(error) !== error) {
+          throw new ApiError(
+            HTTP_STATUS.CONFLICT,
+            'The survivor has spent points or store credit that came over in the merge, so it cannot be undone'
+          );
+        }
+        throw error;
+      }
+    }, { operationName: 'CustomerMerge.revert' });
+  },
+
+  /**
+   * Pairs marked as not duplicates, each as [lower ID, higher ID]
+   */
+  async findDismissedPairs(): Promise<Array<[number, number]>> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({ customerId1: customerDuplicateDismissals.customerId1, customerId2: customerDuplicateDismissals.customerId2 })
+        .from(customerDuplicateDismissals);
+      return result.map(row => [row.customerId1, row.customerId2]);
+    }, { operationName: 'CustomerMerge.findDismissedPairs' });
+  },
+
+  async dismissPair(customerIdA: number, customerIdB: number, userId?: number): Promise<void> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      await db
+        .insert(customerDuplicateDismissals)
+        .values({
+          customerId1: Math.min(customerIdA, customerIdB),
+          customerId2: Math.max(customerIdA, customerIdB),
+          dismissedBy: userId ?? null,
+        })
+        .onConflictDoNothing();
+    }, { operationName: 'CustomerMerge.dismissPair' });
+  },
+};
+
+export default CustomerMerge;
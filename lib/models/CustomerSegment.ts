@@ -0,0 +1,188 @@
+import { eq, and, or, asc, sql, inArray, isNull, type SQL } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { customers, customerSegments, users } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import type {
+  CustomerLifecycleStage,
+  CustomerSegment as CustomerSegmentEntity,
+  CustomerSegmentData,
+  CustomerSegmentOperator,
+  CustomerSegmentRule,
+  CustomerSegmentRules,
+  CustomerSource,
+} from '@/types/entities';
+
+interface SegmentRow {
+  segment: {
+    id: number;
+    name: string;
+    description: string | null;
+    rules: { match: 'all' | 'any'; rules: Array<{ field: string; operator: string; value: unknown }> };
+    createdBy: number | null;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  createdByName: string | null;
+}
+
+const NUMBER_OPERATORS: Record<Exclude<CustomerSegmentOperator, 'in' | 'not_in'>, string> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+function numberExpression(field: string): SQL {
+  switch (field) {
+    case 'totalOrders': return sql`${customers.totalOrders}`;
+    case 'totalSpent': return sql`${customers.totalSpent}`;
+    case 'daysSinceLastOrder': return sql`(current_date - ${customers.lastOrderDate}::date)`;
+    case 'daysSinceFirstOrder': return sql`(current_date - ${customers.firstOrderDate}::date)`;
+    case 'recencyScore': return sql`${customers.recencyScore}`;
+    case 'frequencyScore': return sql`${customers.frequencyScore}`;
+    case 'monetaryScore': return sql`${customers.monetaryScore}`;
+    default: throw new Error(`Unknown segment field: ${field}`);
+  }
+}
+
+/** Customers with a non-cancelled order matching the condition */
+function hasOrder(condition: SQL, joins: SQL = sql``): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM orders o ${joins}
+    WHERE o.customer_id_ref = ${customers.id} AND o.status <> 'cancelled' AND ${condition}
+  )`;
+}
+
+function listCondition(field: string, values: Array<string | number>): SQL {
+  switch (field) {
+    case 'lifecycleStage': return inArray(customers.lifecycleStage, values as CustomerLifecycleStage[]);
+    case 'source': return inArray(customers.source, values as CustomerSource[]);
+    case 'state': return sql`lower(${customers.state}) IN ${values.map(value => String(value).toLowerCase())}`;
+    case 'orderSource': return hasOrder(sql`o.order_from IN ${values}`);
+    case 'category':
+      return hasOrder(
+        sql`ic.category_id IN ${values}`,
+        sql`JOIN order_items oi ON oi.order_id = o.id JOIN item_categories ic ON ic.item_id = oi.item_id`
+      );
+    default: throw new Error(`Unknown segment field: ${field}`);
+  }
+}
+
+function ruleCondition(rule: CustomerSegmentRule): SQL {
+  if (rule.operator === 'in' || rule.operator === 'not_in') {
+    const matches = listCondition(rule.field, rule.value as Array<string | number>);
+    // Customers with no value for the field are "none of" anything
+    return rule.operator === 'in' ? matches : sql`NOT COALESCE(${matches}, false)`;
+  }
+  return sql`${numberExpression(rule.field)} ${sql.raw(NUMBER_OPERATORS[rule.operator])} ${rule.value}`;
+}
+
+/**
+ * SQL condition on customers for a segment's (already validated) rules
+ */
+export function segmentRulesCondition(rules: CustomerSegmentRules): SQL {
+  const conditions = rules.rules.map(ruleCondition);
+  // Validated rules always have at least one condition
+  return (rules.match === 'any' ? or(...conditions) : and(...conditions)) as SQL;
+}
+
+function transformSegment(row: SegmentRow): CustomerSegmentEntity {
+  const segment = row.segment;
+  return {
+    id: segment.id,
+    name: segment.name,
+    description: segment.description || null,
+    // Rules are validated before they are saved
+    rules: segment.rules as CustomerSegmentRules,
+    customerCount: null,
+    createdBy: segment.createdBy ?? null,
+    createdByName: row.createdByName || null,
+    createdAt: segment.createdAt.toISOString(),
+    updatedAt: segment.updatedAt.toISOString(),
+  };
+}
+
+function selectSegments(db: Database) {
+  return db
+    .select({ segment: customerSegments, createdByName: users.name })
+    .from(customerSegments)
+    .leftJoin(users, eq(customerSegments.createdBy, users.id));
+}
+
+const CustomerSegment = {
+  /**
+   * Every saved segment, by name
+   */
+  async findAll(): Promise<CustomerSegmentEntity[]> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await selectSegments(db).orderBy(asc(sql`lower(${customerSegments.name})`));
+      return result.map(transformSegment);
+    }, { operationName: 'CustomerSegment.findAll' });
+  },
+
+  async findById(id: number): Promise<CustomerSegmentEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [row] = await selectSegments(db).where(eq(customerSegments.id, id)).limit(1);
+      return row ? transformSegment(row) : null;
+    }, { operationName: 'CustomerSegment.findById' });
+  },
+
+  /**
+   * How many customers (not merged into another) the rules match right now
+   */
+  async countMatching(rules: CustomerSegmentRules): Promise<number> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(customers)
+        .where(and(isNull(customers.mergedIntoId), segmentRulesCondition(rules)));
+      return count;
+    }, { operationName: 'CustomerSegment.countMatching' });
+  },
+
+  async create(data: CustomerSegmentData, userId?: number): Promise<CustomerSegmentEntity> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const [created] = await db
+        .insert(customerSegments)
+        .values({
+          name: data.name,
+          description: data.description ?? null,
+          rules: data.rules,
+          createdBy: userId ?? null,
+        })
+        .returning({ id: customerSegments.id });
+      return this.findById(created.id);
+    }, { operationName: 'CustomerSegment.create' });
+  },
+
+  async update(id: number, data: Partial<CustomerSegmentData>): Promise<CustomerSegmentEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .update(customerSegments)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(customerSegments.id, id))
+        .returning({ id: customerSegments.id });
+      return result.length > 0 ? this.findById(id) : null;
+    }, { operationName: 'CustomerSegment.update' });
+  },
+
+  async delete(id: number): Promise<boolean> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .delete(customerSegments)
+        .where(eq(customerSegments.id, id))
+        .returning({ id: customerSegments.id });
+      return result.length > 0;
+    }, { operationName: 'CustomerSegment.delete' });
+  },
+};
+
+export default CustomerSegment;
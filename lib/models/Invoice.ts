@@ -0,0 +1,98 @@
+import { eq, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { invoices, orders } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+
+interface InvoiceRow {
+  id: number;
+  orderId: number;
+  invoiceNumber: string;
+  financialYear: string;
+  sequenceNumber: number;
+  issuedAt: Date;
+  userId: number | null;
+  userEmail: string | null;
+  createdAt: Date;
+}
+
+export interface IssueInvoiceData {
+  orderId: number;
+  financialYear: string;
+  /** Series prefix, e.g. "INV" gives "INV/2026-27/0001" */
+  prefix: string;
+  userId?: number | null;
+  userEmail?: string | null;
+}
+
+function transformInvoice(invoice: InvoiceRow) {
+  return {
+    ...invoice,
+    _id: invoice.id,
+    issuedAt: invoice.issuedAt.toISOString(),
+    createdAt: invoice.createdAt.toISOString(),
+  };
+}
+
+async function selectByOrderId(db: Database, orderId: number) {
+  const result = await db
+    .select()
+    .from(invoices)
+    .where(eq(invoices.orderId, orderId));
+  return result.length > 0 ? transformInvoice(result[0]) : null;
+}
+
+const Invoice = {
+  /**
+   * Get the invoice issued for an order, if any
+   */
+  async findByOrderId(orderId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericOrderId = Number.parseInt(String(orderId), 10);
+      if (Number.isNaN(numericOrderId)) return null;
+
+      return selectByOrderId(db, numericOrderId);
+    }, { operationName: 'Invoice.findByOrderId' });
+  },
+
+  /**
+   * Issue the next invoice number in the financial year's series for an order
+   * The order's row is locked first, so a concurrent request for the same order
+   * waits, then finds the invoice and takes no number; the series has no gaps.
+   * The sequence bump and the invoice row are written in a single statement so
+   * numbers are never handed out twice. An order keeps its first invoice.
+   */
+  async issueForOrder(data: IssueInvoiceData) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const { orderId, financialYear, prefix } = data;
+
+      await db.batch([
+        db.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for('update'),
+        db.execute(sql`
+          WITH next_number AS (
+            INSERT INTO invoice_sequences (financial_year, last_number, updated_at)
+            SELECT ${financialYear}, 1, NOW()
+            WHERE NOT EXISTS (SELECT 1 FROM invoices WHERE order_id = ${orderId})
+            ON CONFLICT (financial_year)
+            DO UPDATE SET last_number = invoice_sequences.last_number + 1, updated_at = NOW()
+            RETURNING last_number
+          )
+          INSERT INTO invoices (order_id, invoice_number, financial_year, sequence_number, user_id, user_email)
+          SELECT
+            ${orderId},
+            ${prefix} || '/' || ${financialYear} || '/' || LPAD(next_number.last_number::text, 4, '0'),
+            ${financialYear},
+            next_number.last_number,
+            ${data.userId ?? null}::int,
+            ${data.userEmail ?? null}
+          FROM next_number
+        `),
+      ]);
+
+      return selectByOrderId(db, orderId);
+    }, { operationName: 'Invoice.issueForOrder' });
+  },
+};
+
+export default Invoice;
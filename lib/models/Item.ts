@@ -1,7 +1,7 @@
 // @ts-nocheck
 import { eq, desc, isNull, isNotNull, ilike, or, sql, and, inArray, lt } from 'drizzle-orm';
 import { getDatabase } from '@/lib/db/connection';
-import { items, itemDesigns } from '@/lib/db/schema';
+import { items, itemDesigns, stockReservations } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
 
 function transformItem(item: any) {
@@ -13,11 +13,13 @@ function transformItem(item: any) {
     fabric: item.fabric || '',
     specialFeatures: item.specialFeatures || '',
     imageUrl: item.imageUrl || '',
+    hsnCode: item.hsnCode || '',
+    taxRate: item.taxRate === null || item.taxRate === undefined ? null : Number.parseFloat(item.taxRate),
     designs: []
   };
 }
 
-async function enrichItemsWithDesigns(items: any[]) {
+async function enrichItems(items: any[]) {
   if (items.length === 0) return items;
   
   const db = getDatabase();
@@ -26,6 +28,26 @@ async function enrichItemsWithDesigns(items: any[]) {
   const designs = await db.select().from(itemDesigns)
     .where(inArray(itemDesigns.itemId, itemIds))
     .orderBy(desc(itemDesigns.isPrimary), itemDesigns.displayOrder);
+
+  // Stock held by open orders; lapsed reservations no longer count
+  const reservations = await db
+    .select({
+      itemId: stockReservations.itemId,
+      designId: stockReservations.designId,
+      quantity: sql<number>`SUM(${stockReservations.quantity})::int`,
+    })
+    .from(stockReservations)
+    .where(and(
+      inArray(stockReservations.itemId, itemIds),
+      sql`(${stockReservations.expiresAt} IS NULL OR ${stockReservations.expiresAt} > NOW())`
+    ))
+    .groupBy(stockReservations.itemId, stockReservations.designId);
+  const reservedByItemId = new Map();
+  const reservedByDesignId = new Map();
+  for (const row of reservations) {
+    reservedByItemId.set(row.itemId, (reservedByItemId.get(row.itemId) || 0) + row.quantity);
+    if (row.designId) reservedByDesignId.set(row.designId, row.quantity);
+  }
   
   // Group designs by itemId
   const designsByItemId = new Map();
@@ -33,17 +55,25 @@ async function enrichItemsWithDesigns(items: any[]) {
     if (!designsByItemId.has(design.itemId)) {
       designsByItemId.set(design.itemId, []);
     }
+    const reservedQuantity = design.stockQuantity === null ? 0 : reservedByDesignId.get(design.id) || 0;
     designsByItemId.get(design.itemId).push({
       ...design,
-      _id: design.id
+      _id: design.id,
+      reservedQuantity,
+      availableQuantity: design.stockQuantity === null ? null : Math.max(0, design.stockQuantity - reservedQuantity)
     });
   }
   
-  // Attach designs to items
-  return items.map(item => ({
-    ...item,
-    designs: designsByItemId.get(item.id) || []
-  }));
+  // Attach designs and reserved/available stock to items
+  return items.map(item => {
+    const reservedQuantity = reservedByItemId.get(item.id) || 0;
+    return {
+      ...item,
+      designs: designsByItemId.get(item.id) || [],
+      reservedQuantity,
+      availableQuantity: Math.max(0, (item.stockQuantity ?? 0) - reservedQuantity)
+    };
+  });
 }
 
 function buildSearchCondition(search: any) {
@@ -112,7 +142,7 @@ const Item = {
         .where(isNull(items.deletedAt))
         .orderBy(desc(items.createdAt));
       const transformedItems = result.map(transformItem);
-      return enrichItemsWithDesigns(transformedItems);
+      return enrichItems(transformedItems);
     }, { operationName: 'Item.find' });
   },
 
@@ -126,7 +156,7 @@ const Item = {
       if (result.length === 0) return null;
 
       const transformedItem = transformItem(result[0]);
-      const enrichedItems = await enrichItemsWithDesigns([transformedItem]);
+      const enrichedItems = await enrichItems([transformedItem]);
       return enrichedItems[0];
     }, { operationName: 'Item.findById' });
   },
@@ -156,7 +186,7 @@ const Item = {
         .where(inArray(items.id, numericIds));
 
       const transformedItems = result.map(transformItem);
-      const enrichedItems = await enrichItemsWithDesigns(transformedItems);
+      const enrichedItems = await enrichItems(transformedItems);
 
       const itemMap = new Map();
       for (const item of enrichedItems) {
@@ -176,11 +206,13 @@ const Item = {
         color: data.color?.trim() || null,
         fabric: data.fabric?.trim() || null,
         specialFeatures: data.specialFeatures?.trim() || null,
-        imageUrl: data.imageUrl || null
+        imageUrl: data.imageUrl || null,
+        hsnCode: data.hsnCode?.trim() || null,
+        taxRate: data.taxRate === null || data.taxRate === undefined ? null : data.taxRate.toString()
       }).returning();
 
       const transformedItem = transformItem(result[0]);
-      const enrichedItems = await enrichItemsWithDesigns([transformedItem]);
+      const enrichedItems = await enrichItems([transformedItem]);
       return enrichedItems[0];
     }, { operationName: 'Item.create' });
   },
@@ -198,6 +230,8 @@ const Item = {
       if (data.fabric !== undefined) updateData.fabric = data.fabric?.trim() || null;
       if (data.specialFeatures !== undefined) updateData.specialFeatures = data.specialFeatures?.trim() || null;
       if (data.imageUrl !== undefined) updateData.imageUrl = data.imageUrl || null;
+      if (data.hsnCode !== undefined) updateData.hsnCode = data.hsnCode?.trim() || null;
+      if (data.taxRate !== undefined) updateData.taxRate = data.taxRate === null ? null : data.taxRate.toString();
 
       if (Object.keys(updateData).length === 0) {
         return this.findById(id);
@@ -211,7 +245,7 @@ const Item = {
       if (result.length === 0) return null;
 
       const transformedItem = transformItem(result[0]);
-      const enrichedItems = await enrichItemsWithDesigns([transformedItem]);
+      const enrichedItems = await enrichItems([transformedItem]);
       return enrichedItems[0];
     }, { operationName: 'Item.findByIdAndUpdate' });
   },
@@ -275,7 +309,7 @@ const Item = {
         .offset(offset);
 
       const transformedItems = result.map(transformItem);
-      const enrichedItems = await enrichItemsWithDesigns(transformedItems);
+      const enrichedItems = await enrichItems(transformedItems);
 
       return {
         items: enrichedItems,
@@ -382,7 +416,7 @@ const Item = {
       }
 
       const transformedItems = itemsToReturn.map(transformItem);
-      const enrichedItems = await enrichItemsWithDesigns(transformedItems);
+      const enrichedItems = await enrichItems(transformedItems);
 
       return {
         items: enrichedItems,
@@ -1,4 +1,4 @@
-import { eq, desc, and } from 'drizzle-orm';
+import { eq, desc, and, inArray, sql } from 'drizzle-orm';
 import { getDatabase } from '@/lib/db/connection';
 import { itemDesigns } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
@@ -18,6 +18,8 @@ interface ItemDesignRow {
   imageUrl: string;
   isPrimary: boolean;
   displayOrder: number;
+  stockQuantity: number | null;
+  lowStockThreshold: number | null;
   createdAt: Date;
 }
 
@@ -44,6 +46,19 @@ const ItemDesign = {
     }, { operationName: 'ItemDesign.findByItemId' });
   },
 
+  async findByItemIds(itemIds: number[]) {
+    return executeWithRetry(async () => {
+      if (itemIds.length === 0) return [];
+      const db = getDatabase();
+
+      const result = await db.select().from(itemDesigns)
+        .where(inArray(itemDesigns.itemId, itemIds))
+        .orderBy(desc(itemDesigns.isPrimary), itemDesigns.displayOrder);
+
+      return result.map(transformItemDesign);
+    }, { operationName: 'ItemDesign.findByItemIds' });
+  },
+
   async create(data: ItemDesignData) {
     return executeWithRetry(async () => {
       const db = getDatabase();
@@ -100,6 +115,31 @@ const ItemDesign = {
     }, { operationName: 'ItemDesign.updatePrimary' });
   },
 
+  /**
+   * Turn a design's own stock count on or off and set its low-stock threshold
+   * Turning it on starts the count at 0 (stock is then added through the ledger);
+   * turning it off drops the count and the design shares the item's stock again.
+   */
+  async updateStockSettings(itemId: number, designId: number, settings: { trackStock: boolean; lowStockThreshold: number | null }) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const result = await db.update(itemDesigns)
+        .set({
+          stockQuantity: settings.trackStock ? sql`COALESCE(${itemDesigns.stockQuantity}, 0)` : null,
+          lowStockThreshold: settings.lowStockThreshold,
+        })
+        .where(and(
+          eq(itemDesigns.itemId, itemId),
+          eq(itemDesigns.id, designId)
+        ))
+        .returning();
+
+      if (result.length === 0) return null;
+      return transformItemDesign(result[0]);
+    }, { operationName: 'ItemDesign.updateStockSettings' });
+  },
+
   async updateDisplayOrder(id: number, displayOrder: number) {
     return executeWithRetry(async () => {
       const db = getDatabase();
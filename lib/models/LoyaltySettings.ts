@@ -0,0 +1,68 @@
+import { eq } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { loyaltySettings } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { DEFAULT_LOYALTY_SETTINGS } from '@/constants/loyaltyConstants';
+import type { LoyaltySettings as LoyaltySettingsEntity } from '@/types';
+
+interface LoyaltySettingsRow {
+  enabled: boolean;
+  pointsPerHundred: string;
+  pointValue: string;
+  minRedeemPoints: number;
+  maxRedeemPercent: number;
+  pointsExpiryDays: number | null;
+  updatedAt: Date;
+}
+
+function transformSettings(row: LoyaltySettingsRow | undefined): LoyaltySettingsEntity {
+  if (!row) return { ...DEFAULT_LOYALTY_SETTINGS, updatedAt: null };
+  return {
+    enabled: row.enabled,
+    pointsPerHundred: Number.parseFloat(row.pointsPerHundred),
+    pointValue: Number.parseFloat(row.pointValue),
+    minRedeemPoints: row.minRedeemPoints,
+    maxRedeemPercent: row.maxRedeemPercent,
+    pointsExpiryDays: row.pointsExpiryDays ?? null,
+    isDefault: false,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+const LoyaltySettings = {
+  /**
+   * Get the loyalty settings, or the defaults if none have been saved
+   */
+  async get() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.select().from(loyaltySettings).where(eq(loyaltySettings.id, 1));
+      return transformSettings(result[0]);
+    }, { operationName: 'LoyaltySettings.get' });
+  },
+
+  async update(data: Omit<LoyaltySettingsEntity, 'isDefault' | 'updatedAt'>, userId?: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const values = {
+        enabled: data.enabled,
+        pointsPerHundred: data.pointsPerHundred.toString(),
+        pointValue: data.pointValue.toString(),
+        minRedeemPoints: data.minRedeemPoints,
+        maxRedeemPercent: data.maxRedeemPercent,
+        pointsExpiryDays: data.pointsExpiryDays,
+        updatedBy: userId ?? null,
+        updatedAt: new Date(),
+      };
+
+      const result = await db
+        .insert(loyaltySettings)
+        .values({ id: 1, ...values })
+        .onConflictDoUpdate({ target: loyaltySettings.id, set: values })
+        .returning();
+      return transformSettings(result[0]);
+    }, { operationName: 'LoyaltySettings.update' });
+  },
+};
+
+export default LoyaltySettings;
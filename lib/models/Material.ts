@@ -0,0 +1,343 @@
+import { eq, desc, asc, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { materials, materialTransactions } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import type { Material as MaterialEntity, MaterialTransaction, MaterialTransactionType } from '@/types';
+
+export interface MaterialConsumptionLine {
+  materialId: number;
+  quantity: number;
+}
+
+export interface MaterialData {
+  name: string;
+  sku?: string | null;
+  unit: string;
+  stockQuantity?: number;
+  lowStockThreshold?: number;
+  costPerUnit?: number | null;
+  notes?: string | null;
+}
+
+interface MaterialRow {
+  id: number;
+  name: string;
+  sku: string | null;
+  unit: string;
+  stockQuantity: string;
+  lowStockThreshold: string;
+  costPerUnit: string | null;
+  notes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface MaterialTransactionRow {
+  id: number;
+  materialId: number;
+  transactionType: MaterialTransactionType;
+  quantity: string;
+  previousStock: string | null;
+  newStock: string | null;
+  referenceType: 'manual' | 'work_order' | null;
+  referenceId: number | null;
+  notes: string | null;
+  userId: number | null;
+  userEmail: string | null;
+  createdAt: Date;
+}
+
+interface MaterialUser {
+  id?: number;
+  email?: string;
+}
+
+function toNumber(value: string | null): number | null {
+  return value === null || value === undefined ? null : Number.parseFloat(value);
+}
+
+function transformMaterial(material: MaterialRow): MaterialEntity {
+  const stockQuantity = toNumber(material.stockQuantity) ?? 0;
+  const lowStockThreshold = toNumber(material.lowStockThreshold) ?? 0;
+  return {
+    id: material.id,
+    name: material.name,
+    sku: material.sku || null,
+    unit: material.unit,
+    stockQuantity,
+    lowStockThreshold,
+    costPerUnit: toNumber(material.costPerUnit),
+    notes: material.notes || null,
+    isLowStock: stockQuantity <= lowStockThreshold,
+    createdAt: material.createdAt.toISOString(),
+    updatedAt: material.updatedAt.toISOString(),
+  };
+}
+
+function transformTransaction(transaction: MaterialTransactionRow): MaterialTransaction {
+  return {
+    id: transaction.id,
+    materialId: transaction.materialId,
+    transactionType: transaction.transactionType,
+    quantity: Number.parseFloat(transaction.quantity),
+    previousStock: toNumber(transaction.previousStock),
+    newStock: toNumber(transaction.newStock),
+    referenceType: transaction.referenceType || null,
+    referenceId: transaction.referenceId || null,
+    notes: transaction.notes || null,
+    userId: transaction.userId || null,
+    userEmail: transaction.userEmail || null,
+    createdAt: transaction.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Translate unique and check-constraint failures on materials into API errors
+ */
+function toMaterialError(error: unknown) {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  if (code === '23505' || message?.includes('materials_sku_idx')) {
+    return new ApiError(HTTP_STATUS.CONFLICT, 'Another material already uses this SKU');
+  }
+  if (code === '23514' || message?.includes('material_stock_non_negative')) {
+    return new ApiError(HTTP_STATUS.CONFLICT, 'Not enough material in stock. Please refresh and try again.');
+  }
+  return error;
+}
+
+/**
+ * Build the statements that move a material's stock and record it in the ledger.
+ * Meant to run inside db.batch(); the ledger row reads the post-update stock and
+ * the material_stock_non_negative check aborts the batch if stock would go negative.
+ * @param guard - Optional SQL condition both statements require, so a batch can
+ *   make its stock movements depend on an earlier statement in the same batch
+ */
+function buildMovementStatements(
+  db: Database,
+  materialId: number,
+  quantity: number,
+  transactionType: MaterialTransactionType,
+  reference: { type: 'manual' | 'work_order'; id?: number | null; notes?: string | null },
+  user: MaterialUser = {},
+  guard: SQL = sql`TRUE`
+) {
+  return [
+    db
+      .update(materials)
+      .set({ stockQuantity: sql`${materials.stockQuantity} + ${quantity}::numeric`, updatedAt: new Date() })
+      .where(sql`${materials.id} = ${materialId} AND ${guard}`),
+    db.execute(sql`
+      INSERT INTO material_transactions
+        (material_id, transaction_type, quantity, previous_stock, new_stock, reference_type, reference_id, notes, user_id, user_email)
+      SELECT id, ${transactionType}::material_transaction_type, ${quantity}::numeric, stock_quantity - ${quantity}::numeric,
+        stock_quantity, ${reference.type}::material_reference_type,
+        ${reference.id ?? null}, ${reference.notes || null}, ${user.id || null}, ${user.email || null}
+      FROM materials
+      WHERE id = ${materialId} AND ${guard}
+    `),
+  ] as const;
+}
+
+const Material = {
+  /**
+   * Get all materials, by name
+   */
+  async find() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.select().from(materials).orderBy(asc(materials.name));
+      return result.map(transformMaterial);
+    }, { operationName: 'Material.find' });
+  },
+
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.select().from(materials).where(eq(materials.id, id));
+      return result[0] ? transformMaterial(result[0]) : null;
+    }, { operationName: 'Material.findById' });
+  },
+
+  /**
+   * Create a material, recording any opening stock in the ledger
+   */
+  async create(data: MaterialData, user: MaterialUser = {}): Promise<MaterialEntity> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      let result;
+      try {
+        result = await db
+          .insert(materials)
+          .values({
+            name: data.name,
+            sku: data.sku,
+            unit: data.unit,
+            stockQuantity: String(data.stockQuantity ?? 0),
+            lowStockThreshold: String(data.lowStockThreshold ?? 0),
+            costPerUnit: data.costPerUnit === null || data.costPerUnit === undefined ? null : String(data.costPerUnit),
+            notes: data.notes,
+          })
+          .returning();
+      } catch (error) {
+        throw toMaterialError(error);
+      }
+
+      const material = result[0];
+      if (data.stockQuantity && data.stockQuantity > 0) {
+        await db.insert(materialTransactions).values({
+          materialId: material.id,
+          transactionType: 'restock',
+          quantity: String(data.stockQuantity),
+          previousStock: '0',
+          newStock: String(data.stockQuantity),
+          referenceType: 'manual',
+          notes: 'Opening stock',
+          userId: user.id || null,
+          userEmail: user.email || null,
+        });
+      }
+      return transformMaterial(material);
+    }, { operationName: 'Material.create' });
+  },
+
+  /**
+   * Update a material's details; stock only changes through adjustStock
+   */
+  async update(id: number, data: Partial<MaterialData>): Promise<MaterialEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const updateData: Record<string, unknown> = { updatedAt: new Date() };
+      for (const key of ['name', 'sku', 'unit', 'notes'] as const) {
+        if (data[key] !== undefined) updateData[key] = data[key];
+      }
+      if (data.lowStockThreshold !== undefined) updateData.lowStockThreshold = String(data.lowStockThreshold);
+      if (data.costPerUnit !== undefined) {
+        updateData.costPerUnit = data.costPerUnit === null ? null : String(data.costPerUnit);
+      }
+
+      try {
+        const result = await db.update(materials).set(updateData).where(eq(materials.id, id)).returning();
+        return result[0] ? transformMaterial(result[0]) : null;
+      } catch (error) {
+        throw toMaterialError(error);
+      }
+    }, { operationName: 'Material.update' });
+  },
+
+  /**
+   * Delete a material
+   * @returns false if the material does not exist
+   * @throws ApiError 409 while a bill of materials still uses it
+   */
+  async delete(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      try {
+        const result = await db.delete(materials).where(eq(materials.id, id)).returning({ id: materials.id });
+        return result.length > 0;
+      } catch (error) {
+        if ((error as { code?: string })?.code === '23503') {
+          throw new ApiError(HTTP_STATUS.CONFLICT, 'This material is used in a bill of materials. Remove it from those items first.');
+        }
+        throw error;
+      }
+    }, { operationName: 'Material.delete' });
+  },
+
+  /**
+   * Restock or correct a material's stock
+   * @param quantity - Change in stock, positive or negative
+   * @throws ApiError 409 if stock would go negative
+   */
+  async adjustStock(
+    id: number,
+    quantity: number,
+    transactionType: 'restock' | 'adjustment',
+    notes?: string,
+    user: MaterialUser = {}
+  ): Promise<MaterialEntity | null> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      try {
+        await db.batch(buildMovementStatements(db, id, quantity, transactionType, { type: 'manual', notes: notes?.trim() }, user));
+      } catch (error) {
+        throw toMaterialError(error);
+      }
+      const result = await db.select().from(materials).where(eq(materials.id, id));
+      return result[0] ? transformMaterial(result[0]) : null;
+    }, { operationName: 'Material.adjustStock' });
+  },
+
+  /**
+   * Build batch statements that consume materials for a work order
+   * Used when completing a work order so the status change and the consumption
+   * commit together.
+   * @param guard - Condition that holds only if the work order update in the same batch took effect
+   */
+  buildConsumptionStatements(
+    db: Database,
+    workOrderId: number,
+    lines: MaterialConsumptionLine[],
+    user: MaterialUser,
+    guard: SQL
+  ) {
+    return lines
+      .filter(line => line.quantity > 0)
+      .flatMap(line => buildMovementStatements(
+        db,
+        line.materialId,
+        -line.quantity,
+        'consumed',
+        { type: 'work_order', id: workOrderId, notes: `Work order #${workOrderId}` },
+        user,
+        guard
+      ));
+  },
+
+  /**
+   * Map a failed consumption batch to a 409 when stock ran out underneath it
+   */
+  toConflictError(error: unknown) {
+    return toMaterialError(error);
+  },
+
+  /**
+   * Get a material's ledger, newest first
+   */
+  async getTransactionHistory(id: number, options: { page?: number; limit?: number } = {}) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const page = Math.max(1, options.page || 1);
+      const limit = Math.min(100, Math.max(1, options.limit || 20));
+      const offset = (page - 1) * limit;
+
+      const countResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(materialTransactions)
+        .where(eq(materialTransactions.materialId, id));
+      const total = countResult[0]?.count || 0;
+
+      const transactions = await db
+        .select()
+        .from(materialTransactions)
+        .where(eq(materialTransactions.materialId, id))
+        .orderBy(desc(materialTransactions.createdAt), desc(materialTransactions.id))
+        .limit(limit)
+        .offset(offset);
+
+      return {
+        transactions: transactions.map(transformTransaction),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    }, { operationName: 'Material.getTransactionHistory' });
+  },
+};
+
+export default Material;
@@ -1,8 +1,18 @@
 // @ts-nocheck
-import { eq, desc, sql, asc, inArray, and, or, lt } from 'drizzle-orm';
+import { eq, desc, sql, asc, inArray, and, or, lt, lte, gte, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
 import { getDatabase } from '@/lib/db/connection';
-import { orders, orderItems } from '@/lib/db/schema';
+import { orders, orderItems, orderPayments, orderNotes, itemCategories, itemTags, itemDesigns } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
+import Stock, { getReservationExpiry, type OrderAllocationResult, type StockPolicy } from '@/lib/models/Stock';
+import Promotion from '@/lib/models/Promotion';
+import Customer from '@/lib/models/Customer';
+import OrderPayment from '@/lib/models/OrderPayment';
+import CustomerLoyalty from '@/lib/models/CustomerLoyalty';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { derivePaymentStatus } from '@/lib/utils/orderLifecycle';
+import type { Customer as CustomerEntity, OrderFacetField, OrderSearchFilters, OrderSearchSort, SavedOrderViewSortKey } from '@/types';
 
 function generateOrderId(): string {
   const randomNum = Math.floor(100000 + Math.random() * 900000);
@@ -15,6 +25,11 @@ function transformOrderItem(item) {
     _id: item.id,
     item: item.itemId,
     price: Number.parseFloat(item.price),
+    costPrice: item.costPrice ? Number.parseFloat(item.costPrice) : null,
+    taxRate: item.taxRate === null || item.taxRate === undefined ? null : Number.parseFloat(item.taxRate),
+    taxableValue: item.taxableValue === null || item.taxableValue === undefined ? null : Number.parseFloat(item.taxableValue),
+    taxAmount: item.taxAmount === null || item.taxAmount === undefined ? null : Number.parseFloat(item.taxAmount),
+    backorderedQuantity: item.backorderedQuantity ?? 0,
     customizationRequest: item.customizationRequest || ''
   };
 }
@@ -24,12 +39,28 @@ function transformOrder(order: any, items: any[] = []) {
     ...order,
     _id: order.id,
     totalPrice: Number.parseFloat(order.totalPrice),
+    subtotal: Number.parseFloat(order.subtotal || 0),
+    discountAmount: Number.parseFloat(order.discountAmount || 0),
+    taxAmount: Number.parseFloat(order.taxAmount || 0),
+    cgstAmount: Number.parseFloat(order.cgstAmount || 0),
+    sgstAmount: Number.parseFloat(order.sgstAmount || 0),
+    igstAmount: Number.parseFloat(order.igstAmount || 0),
+    shippingAmount: Number.parseFloat(order.shippingAmount || 0),
+    pricesIncludeTax: order.pricesIncludeTax ?? true,
+    placeOfSupply: order.placeOfSupply || null,
+    promotionId: order.promotionId ?? null,
+    promotionCode: order.promotionCode || null,
+    promotionDiscount: Number.parseFloat(order.promotionDiscount || 0),
+    loyaltyPointsRedeemed: order.loyaltyPointsRedeemed ?? 0,
+    loyaltyDiscount: Number.parseFloat(order.loyaltyDiscount || 0),
     paidAmount: Number.parseFloat(order.paidAmount || 0),
     status: order.status || 'pending',
     paymentStatus: order.paymentStatus || 'unpaid',
     confirmationStatus: order.confirmationStatus || 'unconfirmed',
     customerNotes: order.customerNotes || '',
     address: order.address || '',
+    customerAddressId: order.customerAddressId ?? null,
+    addressSnapshot: order.addressSnapshot ?? null,
     priority: order.priority || 0,
     orderDate: order.orderDate ? order.orderDate.toISOString() : null,
     expectedDeliveryDate: order.expectedDeliveryDate ? order.expectedDeliveryDate.toISOString() : null,
@@ -41,6 +72,10 @@ function transformOrder(order: any, items: any[] = []) {
   };
 }
 
+function toNumericOrNull(value) {
+  return value === null || value === undefined ? null : value.toString();
+}
+
 function setFieldIfDefined(updateData: any, key: string, value: any, transformer?: any) {
   if (value !== undefined) {
     updateData[key] = transformer ? transformer(value) : value;
@@ -54,12 +89,26 @@ function buildOrderUpdateData(data: any) {
   setFieldIfDefined(updateData, 'customerName', data.customerName, v => v.trim());
   setFieldIfDefined(updateData, 'customerId', data.customerId, v => v.trim());
   setFieldIfDefined(updateData, 'address', data.address, v => v?.trim() || null);
+  setFieldIfDefined(updateData, 'customerAddressId', data.customerAddressId);
+  setFieldIfDefined(updateData, 'addressSnapshot', data.addressSnapshot);
   setFieldIfDefined(updateData, 'totalPrice', data.totalPrice, v => v.toString());
+  setFieldIfDefined(updateData, 'subtotal', data.subtotal, v => v.toString());
+  setFieldIfDefined(updateData, 'discountAmount', data.discountAmount, v => v.toString());
+  setFieldIfDefined(updateData, 'taxAmount', data.taxAmount, v => v.toString());
+  setFieldIfDefined(updateData, 'cgstAmount', data.cgstAmount, v => v.toString());
+  setFieldIfDefined(updateData, 'sgstAmount', data.sgstAmount, v => v.toString());
+  setFieldIfDefined(updateData, 'igstAmount', data.igstAmount, v => v.toString());
+  setFieldIfDefined(updateData, 'shippingAmount', data.shippingAmount, v => v.toString());
+  setFieldIfDefined(updateData, 'pricesIncludeTax', data.pricesIncludeTax);
+  setFieldIfDefined(updateData, 'placeOfSupply', data.placeOfSupply, v => v?.trim() || null);
+  setFieldIfDefined(updateData, 'promotionId', data.promotionId);
+  setFieldIfDefined(updateData, 'promotionCode', data.promotionCode);
+  setFieldIfDefined(updateData, 'promotionDiscount', data.promotionDiscount, v => v.toString());
+  setFieldIfDefined(updateData, 'loyaltyDiscount', data.loyaltyDiscount, v => v.toString());
   setFieldIfDefined(updateData, 'orderDate', data.orderDate, v => v ? new Date(v) : null);
   setFieldIfDefined(updateData, 'expectedDeliveryDate', data.expectedDeliveryDate, v => v ? new Date(v) : null);
   setFieldIfDefined(updateData, 'status', data.status);
   setFieldIfDefined(updateData, 'paymentStatus', data.paymentStatus);
-  setFieldIfDefined(updateData, 'paidAmount', data.paidAmount, v => v.toString());
   setFieldIfDefined(updateData, 'confirmationStatus', data.confirmationStatus);
   setFieldIfDefined(updateData, 'customerNotes', data.customerNotes, v => v?.trim() || null);
   setFieldIfDefined(updateData, 'priority', data.priority);
@@ -71,8 +120,11 @@ function buildOrderUpdateData(data: any) {
   return updateData;
 }
 
-async function updateOrderItems(db: any, orderId: number, items: any[]) {
-  await db.delete(orderItems).where(eq(orderItems.orderId, orderId));
+/**
+ * Statements replacing an order's items, for use inside the order's update batch
+ */
+function buildOrderItemsStatements(db: any, orderId: number, items: any[]) {
+  const statements = [db.delete(orderItems).where(eq(orderItems.orderId, orderId))];
 
   if (items.length > 0) {
     const orderItemsData = items.map(item => ({
@@ -81,24 +133,49 @@ async function updateOrderItems(db: any, orderId: number, items: any[]) {
       designId: item.designId || null,
       name: item.name,
       price: item.price.toString(),
+      costPrice: item.costPrice === null || item.costPrice === undefined ? null : item.costPrice.toString(),
+      hsnCode: item.hsnCode || null,
+      taxRate: toNumericOrNull(item.taxRate),
+      taxableValue: toNumericOrNull(item.taxableValue),
+      taxAmount: toNumericOrNull(item.taxAmount),
       quantity: item.quantity,
+      backorderedQuantity: Math.min(item.backorderedQuantity || 0, item.quantity),
       customizationRequest: item.customizationRequest?.trim() || null
     }));
 
-    await db.insert(orderItems).values(orderItemsData);
+    statements.push(db.insert(orderItems).values(orderItemsData));
   }
+  return statements;
+}
+
+/** Options shared by order writes */
+interface OrderWriteOptions {
+  /** Optional user ID for the stock ledger */
+  userId?: number;
+  /** Optional user email for the stock ledger */
+  userEmail?: string;
+  /** Called once the write has committed with a customer it created, e.g. to emit customer.created */
+  onCustomerCreated?: (customer: CustomerEntity) => Promise<void>;
+}
+
+async function notifyCustomerCreated(customerId: number, options: OrderWriteOptions): Promise<void> {
+  if (!options.onCustomerCreated) return;
+  const customer = await Customer.findById(customerId);
+  if (customer) await options.onCustomerCreated(customer);
 }
 
 /**
  * Encode cursor for pagination
- * Format: base64(JSON({createdAt, id}))
- * @param {Object} order - Order object with createdAt and id
+ * Format: base64(JSON({v, id})), v being the sort value of the last order as text
+ * @param {string} sortValue - The last order's sort value
+ * @param {number} id - The last order's ID
  * @returns {string} Base64 encoded cursor
  */
-function encodeCursor(order) {
+function encodeCursor(sortValue: string, id: number, filterKey = '') {
   const cursorData = {
-    createdAt: order.createdAt.toISOString(),
-    id: order.id
+    v: sortValue,
+    id,
+    ...(filterKey ? { f: filterKey } : {})
   };
   return Buffer.from(JSON.stringify(cursorData)).toString('base64');
 }
@@ -106,21 +183,142 @@ function encodeCursor(order) {
 /**
  * Decode cursor for pagination
  * @param {string} cursor - Base64 encoded cursor
- * @returns {{createdAt: Date, id: number}|null} Decoded cursor or null if invalid
+ * @returns {{sortValue: string, id: number, filterKey: string}|null} Decoded cursor or null if invalid
  */
 function decodeCursor(cursor) {
   try {
     const decoded = Buffer.from(cursor, 'base64').toString('utf-8');
     const parsed = JSON.parse(decoded);
+    if (typeof parsed.v !== 'string' || !Number.isInteger(parsed.id)) return null;
     return {
-      createdAt: new Date(parsed.createdAt),
-      id: parsed.id
+      sortValue: parsed.v,
+      id: parsed.id,
+      filterKey: parsed.f || ''
     };
   } catch (error: any) {
     return null;
   }
 }
 
+/**
+ * What each sort key orders by, and the type its cursor value is read back as
+ * Text is compared case-insensitively and orders without a delivery date sort as the
+ * latest, as order history has always compared them.
+ */
+const SORT_EXPRESSIONS: Record<SavedOrderViewSortKey, { expression: SQL; type: string }> = {
+  createdAt: { expression: sql`${orders.createdAt}`, type: 'timestamptz' },
+  orderId: { expression: sql`lower(${orders.orderId})`, type: 'text' },
+  customerName: { expression: sql`lower(${orders.customerName})`, type: 'text' },
+  orderFrom: { expression: sql`${orders.orderFrom}::text`, type: 'text' },
+  confirmationStatus: { expression: sql`${orders.confirmationStatus}::text`, type: 'text' },
+  status: { expression: sql`${orders.status}::text`, type: 'text' },
+  paymentStatus: { expression: sql`${orders.paymentStatus}::text`, type: 'text' },
+  deliveryStatus: { expression: sql`${orders.deliveryStatus}::text`, type: 'text' },
+  totalPrice: { expression: sql`${orders.totalPrice}`, type: 'numeric' },
+  expectedDeliveryDate: { expression: sql`COALESCE(${orders.expectedDeliveryDate}, 'infinity'::timestamptz)`, type: 'timestamptz' },
+};
+
+const DEFAULT_SORT: OrderSearchSort = { key: 'createdAt', direction: 'desc' };
+
+const FACET_COLUMNS: Record<OrderFacetField, AnyPgColumn> = {
+  status: orders.status,
+  paymentStatus: orders.paymentStatus,
+  confirmationStatus: orders.confirmationStatus,
+  deliveryStatus: orders.deliveryStatus,
+  orderFrom: orders.orderFrom,
+};
+
+/** Search terms beyond this are ignored to keep the query bounded */
+const MAX_SEARCH_TERMS = 5;
+
+function escapeLikePattern(value: string): string {
+  return value.replaceAll(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Match one search term against the order's own text fields, its item names and its notes
+ * ILIKE '%term%' is served by the pg_trgm GIN indexes from migration 0012.
+ */
+function buildTextTermCondition(term: string) {
+  const pattern = `%${escapeLikePattern(term)}%`;
+  return or(
+    sql`${orders.orderId} ILIKE ${pattern}`,
+    sql`${orders.customerName} ILIKE ${pattern}`,
+    sql`${orders.customerId} ILIKE ${pattern}`,
+    sql`${orders.address} ILIKE ${pattern}`,
+    sql`${orders.customerNotes} ILIKE ${pattern}`,
+    sql`EXISTS (SELECT 1 FROM ${orderItems} WHERE ${orderItems.orderId} = ${orders.id} AND ${orderItems.name} ILIKE ${pattern})`,
+    sql`EXISTS (SELECT 1 FROM ${orderNotes} WHERE ${orderNotes.orderId} = ${orders.id} AND ${orderNotes.noteText} ILIKE ${pattern})`
+  );
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Inclusive range on a timestamp column; a bare YYYY-MM-DD upper bound covers that whole day
+ */
+function buildRangeConditions(column, from?: string, to?: string) {
+  const conditions = [];
+  if (from) conditions.push(gte(column, new Date(from)));
+  if (to && DATE_ONLY.test(to)) {
+    const nextDay = new Date(to);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    conditions.push(lt(column, nextDay));
+  } else if (to) {
+    conditions.push(lte(column, new Date(to)));
+  }
+  return conditions;
+}
+
+/**
+ * Build WHERE conditions for a search
+ * @param exclude - Facet whose own filter is left out, so its counts show every alternative
+ */
+function buildSearchConditions(filters: OrderSearchFilters = {}, exclude?: OrderFacetField) {
+  const conditions = [];
+
+  for (const [field, column] of Object.entries(FACET_COLUMNS)) {
+    const values = filters[field];
+    if (field !== exclude && values?.length) {
+      conditions.push(inArray(column, values));
+    }
+  }
+
+  conditions.push(
+    ...buildRangeConditions(orders.createdAt, filters.createdFrom, filters.createdTo),
+    ...buildRangeConditions(orders.expectedDeliveryDate, filters.deliveryFrom, filters.deliveryTo),
+    ...buildRangeConditions(orders.updatedAt, filters.updatedFrom, filters.updatedTo)
+  );
+
+  if (filters.customerId) {
+    conditions.push(sql`lower(${orders.customerId}) = lower(${filters.customerId})`);
+  }
+  if (filters.itemId) {
+    conditions.push(sql`EXISTS (SELECT 1 FROM ${orderItems} WHERE ${orderItems.orderId} = ${orders.id} AND ${orderItems.itemId} = ${filters.itemId})`);
+  }
+  if (filters.categoryId) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${orderItems}
+      INNER JOIN ${itemCategories} ON ${itemCategories.itemId} = ${orderItems.itemId}
+      WHERE ${orderItems.orderId} = ${orders.id} AND ${itemCategories.categoryId} = ${filters.categoryId}
+    )`);
+  }
+  if (filters.tagId) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${orderItems}
+      INNER JOIN ${itemTags} ON ${itemTags.itemId} = ${orderItems.itemId}
+      WHERE ${orderItems.orderId} = ${orders.id} AND ${itemTags.tagId} = ${filters.tagId}
+    )`);
+  }
+
+  const terms = (filters.q || '').trim().split(/\s+/).filter(Boolean).slice(0, MAX_SEARCH_TERMS);
+  for (const term of terms) {
+    conditions.push(buildTextTermCondition(term));
+  }
+
+  return conditions;
+}
+
 const Order = {
   async find() {
     return executeWithRetry(async () => {
@@ -210,46 +408,55 @@ const Order = {
   },
 
   /**
-   * Find orders with cursor-based pagination for stable infinite scroll
-   * Uses composite index (created_at DESC, id DESC) for optimal performance
+   * Find orders with cursor-based pagination for stable infinite scroll, optionally narrowed by search filters
+   * Newest first by default, which uses the composite index (created_at DESC, id DESC), so a
+   * cursor keeps its place while new orders arrive. Another sort orders by that column with
+   * the ID breaking ties. Cursors carry the filterKey they were issued for and are rejected
+   * when used with different filters or sort.
    * @param {Object} params - Pagination parameters
    * @param {number} params.limit - Items per page (default: 10, max: 100)
    * @param {string} params.cursor - Cursor from previous page (base64 encoded)
+   * @param {Object} params.filters - Search filters
+   * @param {Object} params.sort - Sort key and direction (default: createdAt desc)
+   * @param {string} params.filterKey - Fingerprint of the filters and sort, embedded in cursors
    * @returns {Promise<{orders: Array, pagination: Object}>}
+   * @throws {ApiError} 400 for a malformed cursor or one issued for other filters
    */
-  async findCursorPaginated({ limit = 10, cursor = null }) {
+  async findCursorPaginated({ limit = 10, cursor = null, filters = {}, sort = DEFAULT_SORT, filterKey = '' }) {
     return executeWithRetry(async () => {
       const db = getDatabase();
 
       // Validate and cap limit
       const validLimit = Math.min(Math.max(1, limit), 100);
 
-      let query = db.select().from(orders);
+      const conditions = buildSearchConditions(filters);
+      const { expression, type } = SORT_EXPRESSIONS[sort.key];
+      const direction = sort.direction === 'asc' ? asc : desc;
 
       // If cursor provided, decode and apply WHERE clause
       if (cursor) {
         const decodedCursor = decodeCursor(cursor);
         if (!decodedCursor) {
-          throw new Error('Invalid cursor format');
+          throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Invalid cursor format');
+        }
+        if (decodedCursor.filterKey !== filterKey) {
+          throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Cursor does not match the current filters; start again from the first page');
         }
 
-        // Use composite WHERE for stable pagination: (created_at, id) < (cursor_created_at, cursor_id)
-        // This leverages the composite index (created_at DESC, id DESC)
-        query = query.where(
-          or(
-            lt(orders.createdAt, decodedCursor.createdAt),
-            and(
-              eq(orders.createdAt, decodedCursor.createdAt),
-              lt(orders.id, decodedCursor.id)
-            )
-          )
-        );
+        // Row comparison for stable pagination: (sort value, id) past the cursor's
+        // For the default sort this leverages the composite index (created_at DESC, id DESC)
+        const cursorValue = sql`${decodedCursor.sortValue}::${sql.raw(type)}`;
+        conditions.push(sort.direction === 'asc'
+          ? sql`(${expression}, ${orders.id}) > (${cursorValue}, ${decodedCursor.id})`
+          : sql`(${expression}, ${orders.id}) < (${cursorValue}, ${decodedCursor.id})`);
       }
 
-      // Order by created_at DESC, id DESC and fetch limit + 1 to determine hasMore
-      const ordersResult = await query
-        .orderBy(desc(orders.createdAt), desc(orders.id))
+      // Fetch limit + 1 to determine hasMore
+      const rows = await db.select({ order: orders, sortValue: sql`(${expression})::text` }).from(orders)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(direction(expression), direction(orders.id))
         .limit(validLimit + 1);
+      const ordersResult = rows.map(row => row.order);
 
       // Check if there are more results
       const hasMore = ordersResult.length > validLimit;
@@ -283,7 +490,8 @@ const Order = {
       );
 
       // Generate next cursor from last item
-      const nextCursor = hasMore ? encodeCursor(ordersToReturn[ordersToReturn.length - 1]) : null;
+      const last = rows[ordersToReturn.length - 1];
+      const nextCursor = hasMore ? encodeCursor(last.sortValue, last.order.id, filterKey) : null;
 
       return {
         orders: transformedOrders,
@@ -292,6 +500,53 @@ const Order = {
     }, { operationName: 'Order.findCursorPaginated' });
   },
 
+  /**
+   * Count matching orders and, per facet, orders for each value
+   * Each facet is counted with every filter except its own, so picking a
+   * status still shows how many orders the other statuses would give.
+   */
+  async getSearchFacets(filters: OrderSearchFilters = {}) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const whereFor = (exclude?: OrderFacetField) => {
+        const conditions = buildSearchConditions(filters, exclude);
+        return conditions.length > 0 ? and(...conditions) : undefined;
+      };
+
+      const facetFields = Object.keys(FACET_COLUMNS) as OrderFacetField[];
+      const [totalResult, ...facetResults] = await Promise.all([
+        db.select({ count: sql<number>`COUNT(*)::int` }).from(orders).where(whereFor()),
+        ...facetFields.map(field =>
+          db.select({ value: FACET_COLUMNS[field], count: sql<number>`COUNT(*)::int` })
+            .from(orders)
+            .where(whereFor(field))
+            .groupBy(FACET_COLUMNS[field])
+        ),
+      ]);
+
+      const facets = {};
+      facetFields.forEach((field, index) => {
+        facets[field] = Object.fromEntries(facetResults[index].map(row => [row.value, row.count]));
+      });
+
+      return { total: totalResult[0]?.count || 0, facets };
+    }, { operationName: 'Order.getSearchFacets' });
+  },
+
+  /**
+   * Count orders matching search filters
+   */
+  async countSearch(filters: OrderSearchFilters = {}) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const conditions = buildSearchConditions(filters);
+      const result = await db.select({ count: sql<number>`COUNT(*)::int` })
+        .from(orders)
+        .where(conditions.length > 0 ? and(...conditions) : undefined);
+      return result[0]?.count || 0;
+    }, { operationName: 'Order.countSearch' });
+  },
+
   async findById(id) {
     return executeWithRetry(async () => {
       const db = getDatabase();
@@ -369,20 +624,179 @@ const Order = {
     }, { operationName: 'Order.findPriorityOrders' });
   },
 
-  async create(data) {
+  /**
+   * Get the orders shown on the production board
+   * Everything still in production or on its way, plus orders delivered or
+   * cancelled since `recentSince`. Returned orders are left off. Each order
+   * carries a thumbnail: the design chosen on its first line that has one,
+   * falling back to that item's primary design.
+   * @param {Date} recentSince - Oldest last change for delivered and cancelled orders
+   * @param {number} limit - Most orders to return, soonest due first
+   */
+  async findBoardOrders(recentSince: Date, limit: number) {
     return executeWithRetry(async () => {
       const db = getDatabase();
-      const orderId = generateOrderId();
+      const ordersResult = await db.select()
+        .from(orders)
+        .where(and(
+          sql`${orders.deliveryStatus} <> 'returned'`,
+          or(
+            and(sql`${orders.status} <> 'cancelled'`, sql`${orders.deliveryStatus} <> 'delivered'`),
+            gte(orders.updatedAt, recentSince)
+          )
+        ))
+        .orderBy(sql`${orders.expectedDeliveryDate} ASC NULLS LAST`, asc(orders.createdAt))
+        .limit(limit);
+
+      if (ordersResult.length === 0) {
+        return [];
+      }
+
+      const orderIds = ordersResult.map(o => o.id);
+      const allItems = await db.select()
+        .from(orderItems)
+        .where(inArray(orderItems.orderId, orderIds))
+        .orderBy(asc(orderItems.id));
+
+      const designIds = [...new Set(allItems.map(item => item.designId).filter(Boolean))];
+      const itemIds = [...new Set(allItems.map(item => item.itemId))];
+      const designs = itemIds.length === 0 ? [] : await db.select({
+        id: itemDesigns.id,
+        itemId: itemDesigns.itemId,
+        imageUrl: itemDesigns.imageUrl,
+        isPrimary: itemDesigns.isPrimary,
+      })
+        .from(itemDesigns)
+        .where(designIds.length > 0
+          ? or(inArray(itemDesigns.id, designIds), and(inArray(itemDesigns.itemId, itemIds), eq(itemDesigns.isPrimary, true)))
+          : and(inArray(itemDesigns.itemId, itemIds), eq(itemDesigns.isPrimary, true)));
+
+      const imageByDesignId = new Map(designs.map(design => [design.id, design.imageUrl]));
+      const primaryImageByItemId = new Map(designs.filter(design => design.isPrimary).map(design => [design.itemId, design.imageUrl]));
+
+      const itemsByOrderId = allItems.reduce((acc, item) => {
+        if (!acc[item.orderId]) acc[item.orderId] = [];
+        acc[item.orderId].push(item);
+        return acc;
+      }, {});
+
+      return ordersResult.map(order => {
+        const items = itemsByOrderId[order.id] || [];
+        const thumbnailUrl = items
+          .map(item => imageByDesignId.get(item.designId) || primaryImageByItemId.get(item.itemId))
+          .find(Boolean) || null;
+        return { ...transformOrder(order, items), thumbnailUrl };
+      });
+    }, { operationName: 'Order.findBoardOrders' });
+  },
+
+  /**
+   * Get open (pending or processing) orders due in a range, for production planning
+   * Only the fields the calendar shows, plus the order's total item quantity.
+   * @param {Date} start - Inclusive
+   * @param {Date} end - Exclusive
+   */
+  async findOpenByDeliveryRange(start: Date, end: Date) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const result = await db.select({
+        id: orders.id,
+        orderId: orders.orderId,
+        customerName: orders.customerName,
+        status: orders.status,
+        expectedDeliveryDate: orders.expectedDeliveryDate,
+        priority: orders.priority,
+        units: sql<number>`(
+          SELECT COALESCE(SUM(${orderItems.quantity}), 0)::int FROM ${orderItems}
+          WHERE ${orderItems.orderId} = ${orders.id}
+        )`,
+      })
+        .from(orders)
+        .where(and(
+          inArray(orders.status, ['pending', 'processing']),
+          gte(orders.expectedDeliveryDate, start),
+          lt(orders.expectedDeliveryDate, end)
+        ))
+        .orderBy(asc(orders.expectedDeliveryDate), desc(orders.priority), asc(orders.id));
+
+      return result.map(order => ({
+        ...order,
+        priority: order.priority || 0,
+        units: Number(order.units) || 0,
+        expectedDeliveryDate: order.expectedDeliveryDate.toISOString(),
+      }));
+    }, { operationName: 'Order.findOpenByDeliveryRange' });
+  },
+
+  /**
+   * Create an order, its items and the matching stock reservations in one transaction
+   * Stock is reserved until the order ships (see Stock.planFulfilment); unconfirmed
+   * orders hold it for STOCK_RESERVATION_HOLD_HOURS. Orders created already shipped
+   * deduct stock straight away, and orders created cancelled take none. Each order item gets a snapshot of the item's
+   * current costPrice so profit analytics reflect the margin at the time of sale,
+   * and of its HSN code and GST rate for the invoice. The order is linked to the
+   * customer with its business customer ID, which is created in the same batch when
+   * there is none.
+   * @param {Object} data - Order data with validated items
+   * @param {Object} options - Creation options
+   * @param {string} options.stockPolicy - 'reject' (default), 'backorder' or 'skip'
+   * @param {number} options.userId - Optional user ID for the stock ledger
+   * @param {string} options.userEmail - Optional user email for the stock ledger
+   * @param {Function} options.onCustomerCreated - Called with the customer the order created, if any
+   * @throws {ApiError} 409 when tracked items are short and stockPolicy is 'reject'
+   */
+  async create(data, options: OrderWriteOptions & { stockPolicy?: StockPolicy } = {}) {
+    const { stockPolicy = 'reject', userId, userEmail } = options;
+
+    const plan = await Stock.planOrderDeduction(
+      data.items.map(item => ({ itemId: item.item, quantity: item.quantity, designId: item.designId || null })),
+      stockPolicy
+    );
+
+    // Every order belongs to a customers row, created from the order if need be
+    const customer = await Customer.planForOrder(data);
 
-      const orderResult = await db.insert(orders).values({
-        orderId: orderId,
+    let createdCustomer = false;
+    const order = await executeWithRetry(async () => {
+      const db = getDatabase();
+
+      // Allocate the primary key up front so order items and stock ledger rows
+      // can reference it from inside the same non-interactive batch
+      const idResult = await db.execute(sql`SELECT nextval(pg_get_serial_sequence('orders', 'id'))::int AS id`);
+      const id = idResult.rows[0].id;
+
+      // An amount paid at checkout becomes the first entry in the payments ledger
+      const paidAmount = data.paidAmount || 0;
+      const paymentStatus = derivePaymentStatus(data.totalPrice, { paid: paidAmount, refunded: 0 }, data.paymentStatus || 'unpaid');
+
+      const orderInsert = db.insert(orders).values({
+        id,
+        orderId: generateOrderId(),
         orderFrom: data.orderFrom,
         customerName: data.customerName.trim(),
-        customerId: data.customerId.trim(),
+        customerId: customer.customerId,
+        customerIdRef: customer.id,
+        status: data.status || 'pending',
         address: data.address?.trim() || null,
+        customerAddressId: data.customerAddressId ?? null,
+        addressSnapshot: data.addressSnapshot ?? null,
         totalPrice: data.totalPrice.toString(),
-        paidAmount: (data.paidAmount || 0).toString(),
-        paymentStatus: data.paymentStatus || 'unpaid',
+        subtotal: (data.subtotal ?? data.totalPrice).toString(),
+        discountAmount: (data.discountAmount || 0).toString(),
+        taxAmount: (data.taxAmount || 0).toString(),
+        cgstAmount: (data.cgstAmount || 0).toString(),
+        sgstAmount: (data.sgstAmount || 0).toString(),
+        igstAmount: (data.igstAmount || 0).toString(),
+        shippingAmount: (data.shippingAmount || 0).toString(),
+        pricesIncludeTax: data.pricesIncludeTax ?? true,
+        placeOfSupply: data.placeOfSupply?.trim() || null,
+        promotionId: data.promotionId ?? null,
+        promotionCode: data.promotionCode || null,
+        promotionDiscount: (data.promotionDiscount || 0).toString(),
+        loyaltyPointsRedeemed: data.loyaltyPointsRedeemed || 0,
+        loyaltyDiscount: (data.loyaltyDiscount || 0).toString(),
+        paidAmount: paidAmount.toString(),
+        paymentStatus,
         confirmationStatus: data.confirmationStatus || 'unconfirmed',
         customerNotes: data.customerNotes?.trim() || null,
         priority: data.priority || 0,
@@ -394,26 +808,115 @@ const Order = {
         actualDeliveryDate: data.actualDeliveryDate ? new Date(data.actualDeliveryDate) : null
       }).returning();
 
-      const newOrder = orderResult[0];
-
-      const orderItemsData = data.items.map(item => ({
-        orderId: newOrder.id,
+      const orderItemsInsert = db.insert(orderItems).values(data.items.map((item, index) => ({
+        orderId: id,
         itemId: item.item,
         designId: item.designId || null,
         name: item.name,
         price: item.price.toString(),
+        costPrice: plan[index].costPrice,
+        hsnCode: item.hsnCode || null,
+        taxRate: toNumericOrNull(item.taxRate),
+        taxableValue: toNumericOrNull(item.taxableValue),
+        taxAmount: toNumericOrNull(item.taxAmount),
         quantity: item.quantity,
+        backorderedQuantity: plan[index].backorderedQuantity,
         customizationRequest: item.customizationRequest?.trim() || null
-      }));
+      }))).returning();
+
+      // An order created cancelled holds no stock
+      let stockStatements = [];
+      if (data.status !== 'cancelled') {
+        stockStatements = (data.deliveryStatus || 'not_shipped') === 'not_shipped'
+          ? Stock.buildReservationStatements(db, id, plan, getReservationExpiry(data.confirmationStatus === 'confirmed'))
+          : Stock.buildOrderDeductionStatements(db, id, plan, userId, userEmail);
+      }
 
-      const itemsResult = await db.insert(orderItems).values(orderItemsData).returning();
+      // Counting the redemption in the same batch keeps the usage and per-customer limits exact
+      const promotionStatements = data.promotionId
+        ? Promotion.buildRedemptionStatements(db, data.promotionId, customer.customerId)
+        : [];
+
+      const paymentStatements = paidAmount > 0
+        ? [db.insert(orderPayments).values({
+          orderId: id,
+          amount: paidAmount.toFixed(2),
+          method: data.paymentMethod || 'other',
+          notes: 'Recorded when the order was placed',
+          userId: userId ?? null,
+          userEmail: userEmail ?? null,
+        })]
+        : [];
+
+      // Points redeemed as a discount and store credit paid up front come off the
+      // customer's balances in the same batch, so neither can be spent twice
+      const loyaltyUser = { id: userId, email: userEmail };
+      const loyaltyStatements = [
+        ...(data.loyaltyPointsRedeemed > 0
+          ? CustomerLoyalty.buildEntryStatements(db, {
+            customerId: customer.id,
+            kind: 'points',
+            type: 'redeem',
+            amount: -data.loyaltyPointsRedeemed,
+            orderId: id,
+          }, loyaltyUser)
+          : []),
+        ...(paidAmount > 0 && data.paymentMethod === 'store_credit'
+          ? CustomerLoyalty.buildEntryStatements(db, {
+            customerId: customer.id,
+            kind: 'store_credit',
+            type: 'spend',
+            amount: -paidAmount,
+            orderId: id,
+          }, loyaltyUser)
+          : []),
+      ];
+
+      let orderResult;
+      let itemsResult;
+      try {
+        const results = await db.batch([...customer.statements, orderInsert, orderItemsInsert, ...paymentStatements, ...promotionStatements, ...loyaltyStatements, ...stockStatements]);
+        [orderResult, itemsResult] = results.slice(customer.statements.length);
+      } catch (error) {
+        // A concurrent order created the customer first; this time the order joins it
+        if (customer.statements.length > 0 && Customer.isCustomerIdConflict(error)) {
+          return this.create(data, options);
+        }
+        const balanceError = CustomerLoyalty.toBalanceError(error);
+        if (balanceError !== error) throw balanceError;
+        if (Promotion.isUsageLimitError(error)) {
+          const limitReached = await Promotion.describeLimitReached(data.promotionId, customer.customerId);
+          throw new ApiError(HTTP_STATUS.CONFLICT, `Promotion ${data.promotionCode} ${limitReached}`);
+        }
+        throw Stock.toConflictError(error);
+      }
 
-      return transformOrder(newOrder, itemsResult);
+      createdCustomer = customer.statements.length > 0;
+      return transformOrder(orderResult[0], itemsResult);
     }, { operationName: 'Order.create' });
+
+    if (createdCustomer) await notifyCustomerCreated(customer.id, options);
+    return order;
   },
 
-  async findByIdAndUpdate(id, data) {
-    return executeWithRetry(async () => {
+  /**
+   * Update an order and its items in one batch
+   * A new promotion moves the order's redemption and a new total re-derives the
+   * payment status from the payments ledger, both in the batch. A fulfilment
+   * planned with Stock.planFulfilment ships the order's stock in the same batch,
+   * so an order is never marked shipped without its deduction. A new business
+   * customer ID moves the order to that customer, created in the batch if need be.
+   * @param {Object} options - Update options
+   * @param {Object} options.fulfilment - Stock to deduct as the order ships
+   * @param {number} options.userId - Optional user ID for the stock ledger
+   * @param {string} options.userEmail - Optional user email for the stock ledger
+   * @param {Function} options.onCustomerCreated - Called with the customer the update created, if any
+   * @throws {ApiError} 409 when stock changed since the fulfilment was planned, or the
+   *   new promotion has reached its usage limit
+   */
+  async findByIdAndUpdate(id, data, options: OrderWriteOptions & { fulfilment?: OrderAllocationResult } = {}) {
+    let createdCustomerId: number | null = null;
+    const order = await executeWithRetry(async () => {
       const db = getDatabase();
       const numericId = Number.parseInt(id, 10);
       if (Number.isNaN(numericId)) return null;
@@ -423,18 +926,84 @@ const Order = {
 
       const updateData = buildOrderUpdateData(data);
 
+      const statements = [];
+      // A new business customer ID moves the order to that customer, creating it if need be
+      let newCustomerId: number | null = null;
+      if (updateData.customerId && updateData.customerId !== existingOrder[0].customerId) {
+        const customer = await Customer.planForOrder({
+          customerId: updateData.customerId,
+          customerName: updateData.customerName ?? existingOrder[0].customerName,
+          address: updateData.address ?? existingOrder[0].address,
+          orderFrom: updateData.orderFrom ?? existingOrder[0].orderFrom,
+        });
+        updateData.customerId = customer.customerId;
+        updateData.customerIdRef = customer.id;
+        statements.push(...customer.statements);
+        if (customer.statements.length > 0) newCustomerId = customer.id;
+      }
+
+      // A new promotion moves the order's redemption; the lock keeps a concurrent
+      // edit from moving it twice
+      if (updateData.promotionId !== undefined) {
+        statements.push(
+          db.select({ id: orders.id }).from(orders).where(eq(orders.id, numericId)).for('update'),
+          ...Promotion.buildSwitchStatements(db, numericId, updateData.promotionId)
+        );
+      }
+
       if (Object.keys(updateData).length > 0) {
-        await db.update(orders)
+        statements.push(db.update(orders)
           .set(updateData)
-          .where(eq(orders.id, numericId));
+          .where(eq(orders.id, numericId)));
       }
 
       if (data.items && Array.isArray(data.items)) {
-        await updateOrderItems(db, numericId, data.items);
+        statements.push(...buildOrderItemsStatements(db, numericId, data.items));
+      }
+
+      // paidAmount is owned by the payments ledger; a new total can change the derived status
+      if (updateData.totalPrice !== undefined) {
+        statements.push(OrderPayment.buildRecalculateStatement(db, numericId));
+      }
+
+      if (options.fulfilment) {
+        statements.push(...Stock.buildFulfilmentStatements(db, numericId, options.fulfilment, options.userId, options.userEmail));
       }
 
+      if (statements.length > 0) {
+        try {
+          await db.batch(statements);
+        } catch (error) {
+          // A concurrent order created the customer first; this time the order joins it
+          if (newCustomerId !== null && Customer.isCustomerIdConflict(error)) {
+            return this.findByIdAndUpdate(id, data, options);
+          }
+          if (Promotion.isUsageLimitError(error)) {
+            throw new ApiError(HTTP_STATUS.CONFLICT, `Promotion ${updateData.promotionCode} has reached its usage limit`);
+          }
+          throw Stock.toConflictError(error);
+        }
+      }
+
+      createdCustomerId = newCustomerId;
       return this.findById(numericId);
     }, { operationName: 'Order.findByIdAndUpdate' });
+
+    if (createdCustomerId !== null) await notifyCustomerCreated(createdCustomerId, options);
+    return order;
+  },
+
+  /**
+   * Build the statement that applies a planned lifecycle transition, for a batch
+   * that makes the transition depend on an earlier statement
+   * @param changes - transition.changes from planOrderTransition
+   * @param guard - Condition the update requires
+   */
+  buildTransitionStatement(db, id: number, changes, guard = sql`TRUE`) {
+    return db
+      .update(orders)
+      .set(buildOrderUpdateData(changes))
+      .where(and(eq(orders.id, id), guard));
   }
 };
 
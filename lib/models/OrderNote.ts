@@ -39,6 +39,25 @@ const OrderNote = {
     }, { operationName: 'OrderNote.findByOrderId' });
   },
 
+  /**
+   * Get the notes of one type for an order, oldest first
+   */
+  async findByOrderIdAndType(orderId: number, noteType: OrderNoteType) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const numericOrderId = Number.parseInt(String(orderId), 10);
+      if (Number.isNaN(numericOrderId)) return [];
+
+      const result = await db
+        .select()
+        .from(orderNotes)
+        .where(and(eq(orderNotes.orderId, numericOrderId), eq(orderNotes.noteType, noteType)))
+        .orderBy(asc(orderNotes.createdAt));
+
+      return result.map(transformOrderNote);
+    }, { operationName: 'OrderNote.findByOrderIdAndType' });
+  },
+
   /**
    * Get a single note by ID
    */
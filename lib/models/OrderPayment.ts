@@ -0,0 +1,409 @@
+import { eq, desc, and, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { orders, orderPayments } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import CustomerLoyalty from '@/lib/models/CustomerLoyalty';
+import type {
+  CreateOrderPaymentData,
+  OrderId,
+  OrderPayment as OrderPaymentEntity,
+  OrderPaymentId,
+  PaymentMethod,
+  PaymentStatus,
+} from '@/types';
+
+export interface RefundInput {
+  orderId: number;
+  amount: number;
+  method: PaymentMethod;
+  notes?: string;
+  userId?: number | null;
+  userEmail?: string | null;
+  userName?: string | null;
+}
+
+export const PAYMENT_METHOD_VALUES: PaymentMethod[] = ['upi', 'cash', 'bank_transfer', 'card', 'other', 'store_credit'];
+
+interface OrderPaymentRow {
+  id: number;
+  orderId: number;
+  amount: string;
+  method: PaymentMethod;
+  referenceNumber: string | null;
+  paidAt: Date;
+  notes: string | null;
+  userId: number | null;
+  userEmail: string | null;
+  userName: string | null;
+  createdAt: Date;
+}
+
+function transformOrderPayment(payment: OrderPaymentRow): OrderPaymentEntity {
+  return {
+    ...payment,
+    id: payment.id as OrderPaymentId,
+    _id: payment.id as OrderPaymentId,
+    orderId: payment.orderId as OrderId,
+    amount: Number.parseFloat(payment.amount),
+    paidAt: payment.paidAt.toISOString(),
+    createdAt: payment.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Sum an order's ledger into payments received and refunds paid back
+ */
+async function getLedgerTotals(db: Database, orderId: number) {
+  const [ledger] = await db
+    .select({
+      paid: sql<string>`COALESCE(SUM(${orderPayments.amount}) FILTER (WHERE ${orderPayments.amount} > 0), 0)`,
+      refunded: sql<string>`COALESCE(-SUM(${orderPayments.amount}) FILTER (WHERE ${orderPayments.amount} < 0), 0)`,
+    })
+    .from(orderPayments)
+    .where(eq(orderPayments.orderId, orderId));
+
+  return { paid: Number.parseFloat(ledger.paid), refunded: Number.parseFloat(ledger.refunded) };
+}
+
+/**
+ * The customer whose store credit an order's store credit payments and refunds move
+ * @throws ApiError 400 when the order is not linked to a customer yet
+ */
+function storeCreditCustomer(order: { customerIdRef: number | null }): number {
+  if (!order.customerIdRef) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Store credit needs the order to be linked to a customer');
+  }
+  return order.customerIdRef;
+}
+
+/**
+ * Payments received and refunds paid back on an order, as SQL over its ledger
+ */
+function ledgerTotalsQuery(orderId: number) {
+  return sql`
+    SELECT
+      COALESCE(SUM(amount) FILTER (WHERE amount > 0), 0) AS paid,
+      COALESCE(-SUM(amount) FILTER (WHERE amount < 0), 0) AS refunded
+    FROM order_payments
+    WHERE order_id = ${orderId}
+  `;
+}
+
+/**
+ * Statement that locks an order's row for the rest of its batch, so ledger checks
+ * in later statements see payments other batches committed meanwhile
+ */
+function buildOrderLock(db: Database, orderId: number) {
+  return db.select({ id: orders.id }).from(orders).where(eq(orders.id, orderId)).for('update');
+}
+
+/**
+ * Allocate a payment ID so later statements in a batch can refer to the payment
+ */
+async function nextPaymentId(db: Database): Promise<number> {
+  const result = await db.execute<{ id: number }>(sql`SELECT nextval(pg_get_serial_sequence('order_payments', 'id'))::int AS id`);
+  return result.rows[0].id;
+}
+
+/**
+ * Load a payment written by a batch, or null when its guarded insert did not happen
+ */
+async function findPayment(db: Database, paymentId: number) {
+  const [payment] = await db.select().from(orderPayments).where(eq(orderPayments.id, paymentId));
+  return payment ? transformOrderPayment(payment) : null;
+}
+
+/**
+ * Condition that holds once a payment allocated with nextPaymentId has been written
+ */
+function paymentExists(paymentId: number) {
+  return sql`EXISTS (SELECT 1 FROM order_payments WHERE id = ${paymentId})`;
+}
+
+function transformTotals(rows: Array<{ paidAmount: string; paymentStatus: PaymentStatus }>) {
+  const [row] = rows;
+  if (!row) return null;
+  return { paidAmount: Number.parseFloat(row.paidAmount), paymentStatus: row.paymentStatus };
+}
+
+const OrderPayment = {
+  /**
+   * Get all payments for an order, newest first
+   */
+  async findByOrderId(orderId: number) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const numericOrderId = Number.parseInt(String(orderId), 10);
+      if (Number.isNaN(numericOrderId)) return [];
+
+      const result = await db
+        .select()
+        .from(orderPayments)
+        .where(eq(orderPayments.orderId, numericOrderId))
+        .orderBy(desc(orderPayments.paidAt), desc(orderPayments.id));
+
+      return result.map(transformOrderPayment);
+    }, { operationName: 'OrderPayment.findByOrderId' });
+  },
+
+  /**
+   * Record a payment against an order and refresh the order's paid amount and status
+   * A store credit payment takes the amount from the customer's store credit.
+   * @throws ApiError 400 when the payment exceeds the balance due or the store credit, 409 for refunded orders
+   */
+  async create(data: CreateOrderPaymentData & {
+    userId?: number | null;
+    userEmail?: string | null;
+    userName?: string | null;
+  }) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const numericOrderId = Number.parseInt(String(data.orderId), 10);
+      if (Number.isNaN(numericOrderId)) {
+        throw new Error('Invalid order ID');
+      }
+
+      const [order] = await db
+        .select({ totalPrice: orders.totalPrice, paymentStatus: orders.paymentStatus, customerIdRef: orders.customerIdRef })
+        .from(orders)
+        .where(eq(orders.id, numericOrderId));
+      if (!order) {
+        throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Order not found');
+      }
+      if (order.paymentStatus === 'refunded') {
+        throw new ApiError(HTTP_STATUS.CONFLICT, 'Payments cannot be recorded on a refunded order');
+      }
+
+      // Refunds do not reopen the balance; they settle returned goods
+      const ledger = await getLedgerTotals(db, numericOrderId);
+      const balanceDue = Number.parseFloat(order.totalPrice) - ledger.paid;
+      if (data.amount > balanceDue + 0.005) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          `Payment of ${data.amount.toFixed(2)} exceeds the balance due (${Math.max(balanceDue, 0).toFixed(2)})`
+        );
+      }
+
+      // The insert re-checks the balance under the order's row lock, so two payments
+      // recorded at once cannot both pass the check above and overpay the order
+      const paymentId = await nextPaymentId(db);
+      const paymentInsert = db.execute(sql`
+        INSERT INTO order_payments
+          (id, order_id, amount, method, reference_number, paid_at, notes, user_id, user_email, user_name)
+        SELECT ${paymentId}, o.id, ${data.amount.toFixed(2)}::numeric, ${data.method}::payment_method,
+          ${data.referenceNumber?.trim() || null}, ${(data.paidAt ? new Date(data.paidAt) : new Date()).toISOString()}::timestamptz,
+          ${data.notes?.trim() || null}, ${data.userId ?? null}::int, ${data.userEmail ?? null}, ${data.userName ?? null}
+        FROM orders o
+        WHERE o.id = ${numericOrderId} AND o.payment_status <> 'refunded'
+          AND ${data.amount.toFixed(2)}::numeric <= o.total_price - (SELECT paid FROM (${ledgerTotalsQuery(numericOrderId)}) l)
+      `);
+
+      const creditStatements = data.method === 'store_credit'
+        ? CustomerLoyalty.buildEntryStatements(db, {
+          customerId: storeCreditCustomer(order),
+          kind: 'store_credit',
+          type: 'spend',
+          amount: -data.amount,
+          orderId: numericOrderId,
+        }, { id: data.userId, email: data.userEmail, name: data.userName }, paymentExists(paymentId))
+        : [];
+
+      let results;
+      try {
+        results = await db.batch([
+          buildOrderLock(db, numericOrderId),
+          paymentInsert,
+          ...creditStatements,
+          OrderPayment.buildRecalculateStatement(db, numericOrderId),
+        ]);
+      } catch (error) {
+        throw CustomerLoyalty.toBalanceError(error);
+      }
+
+      const payment = await findPayment(db, paymentId);
+      if (!payment) {
+        throw new ApiError(HTTP_STATUS.CONFLICT, 'Another payment was recorded on this order meanwhile. Please check the balance and try again.');
+      }
+      return { payment, totals: transformTotals(results[results.length - 1].rows) };
+    }, { operationName: 'OrderPayment.create' });
+  },
+
+  /**
+   * Allocate the ID of a payment a caller's batch is about to insert
+   */
+  async allocateId(db: Database) {
+    return nextPaymentId(db);
+  },
+
+  /**
+   * Build the statements that record a refund, for use inside a batch
+   * The refund row is only written while it fits within what is left to refund,
+   * and a store credit refund adds to the customer's store credit only if the row
+   * was written. Run after buildOrderLock and before buildRecalculateStatement.
+   * @param paymentId - From allocateId; the refund is written when this payment exists afterwards
+   * @param order - The order, for the customer a store credit refund goes to
+   * @param guard - Optional condition the refund also requires
+   */
+  buildRefundStatements(db: Database, paymentId: number, data: RefundInput, order: { customerIdRef: number | null }, guard?: SQL) {
+    const refundInsert = db.execute(sql`
+      INSERT INTO order_payments (id, order_id, amount, method, notes, user_id, user_email, user_name)
+      SELECT ${paymentId}, ${data.orderId}, ${(-data.amount).toFixed(2)}::numeric, ${data.method}::payment_method,
+        ${data.notes?.trim() || null}, ${data.userId ?? null}::int, ${data.userEmail ?? null}, ${data.userName ?? null}
+      FROM (${ledgerTotalsQuery(data.orderId)}) l
+      WHERE ${data.amount.toFixed(2)}::numeric <= l.paid - l.refunded AND ${guard ?? sql`TRUE`}
+    `);
+
+    const creditStatements = data.method === 'store_credit'
+      ? CustomerLoyalty.buildEntryStatements(db, {
+        customerId: storeCreditCustomer(order),
+        kind: 'store_credit',
+        type: 'refund',
+        amount: data.amount,
+        orderId: data.orderId,
+        notes: data.notes,
+      }, { id: data.userId, email: data.userEmail, name: data.userName }, paymentExists(paymentId))
+      : [];
+
+    return [refundInsert, ...creditStatements];
+  },
+
+  /**
+   * Lock an order's row for the rest of a batch that checks its ledger
+   */
+  buildOrderLock(db: Database, orderId: number) {
+    return buildOrderLock(db, orderId);
+  },
+
+  /**
+   * Condition that holds while the order has at least this much paid and not yet refunded
+   * Put it after buildOrderLock in a batch so it sees payments other batches committed.
+   */
+  buildRefundableCondition(orderId: number, amount: number): SQL {
+    return sql`${amount.toFixed(2)}::numeric <= (SELECT l.paid - l.refunded FROM (${ledgerTotalsQuery(orderId)}) l)`;
+  },
+
+  /**
+   * Statement that recomputes orders.paid_amount and payment_status from the ledger
+   * Mirrors derivePaymentStatus, so the status is derived in the batch that changes
+   * the ledger. Returns the new paidAmount and paymentStatus.
+   */
+  buildRecalculateStatement(db: Database, orderId: number) {
+    return db.execute<{ paidAmount: string; paymentStatus: PaymentStatus }>(sql`
+      UPDATE orders o
+      SET paid_amount = l.paid - l.refunded,
+        payment_status = (CASE
+          WHEN o.payment_status = 'refunded' THEN 'refunded'
+          WHEN l.refunded > 0 AND l.paid - l.refunded <= 0 THEN 'refunded'
+          WHEN l.paid <= 0 THEN (CASE WHEN o.payment_status = 'cash_on_delivery' THEN 'cash_on_delivery' ELSE 'unpaid' END)
+          WHEN l.paid >= o.total_price THEN 'paid'
+          ELSE 'partially_paid'
+        END)::payment_status,
+        updated_at = NOW()
+      FROM (${ledgerTotalsQuery(orderId)}) l
+      WHERE o.id = ${orderId}
+      RETURNING o.paid_amount AS "paidAmount", o.payment_status AS "paymentStatus"
+    `);
+  },
+
+  /**
+   * Record money paid back to the customer as a negative ledger entry
+   * A store credit refund adds the amount to the customer's store credit instead.
+   * @throws ApiError 400 when the refund exceeds what has been paid, 409 when another
+   *   refund took what was left meanwhile
+   */
+  async recordRefund(data: RefundInput) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const ledger = await getLedgerTotals(db, data.orderId);
+      const refundable = ledger.paid - ledger.refunded;
+
+      if (data.amount > refundable + 0.005) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          `Refund of ${data.amount.toFixed(2)} exceeds the amount paid (${Math.max(refundable, 0).toFixed(2)})`
+        );
+      }
+
+      const [order] = await db
+        .select({ customerIdRef: orders.customerIdRef })
+        .from(orders)
+        .where(eq(orders.id, data.orderId));
+
+      const paymentId = await nextPaymentId(db);
+      const results = await db.batch([
+        buildOrderLock(db, data.orderId),
+        ...this.buildRefundStatements(db, paymentId, data, order),
+        this.buildRecalculateStatement(db, data.orderId),
+      ]);
+
+      const payment = await findPayment(db, paymentId);
+      if (!payment) {
+        throw new ApiError(HTTP_STATUS.CONFLICT, 'Another refund was recorded on this order meanwhile. Please check what is left to refund and try again.');
+      }
+      return { payment, totals: transformTotals(results[results.length - 1].rows) };
+    }, { operationName: 'OrderPayment.recordRefund' });
+  },
+
+  /**
+   * Get how much of an order's payments can still be refunded
+   */
+  async getRefundableAmount(orderId: number) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const ledger = await getLedgerTotals(db, orderId);
+      return Math.max(ledger.paid - ledger.refunded, 0);
+    }, { operationName: 'OrderPayment.getRefundableAmount' });
+  },
+
+  /**
+   * Remove a payment recorded by mistake and refresh the order's paid amount and status
+   * Store credit the payment took is given back to the customer.
+   * @returns The recomputed order payment fields, or null when the payment was not found
+   * @throws ApiError 409 for refund entries
+   */
+  async delete(orderId: number, paymentId: number, user?: { id?: number | null; email?: string | null; name?: string | null }) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const numericOrderId = Number.parseInt(String(orderId), 10);
+      const numericId = Number.parseInt(String(paymentId), 10);
+      if (Number.isNaN(numericOrderId) || Number.isNaN(numericId)) return null;
+
+      const [payment] = await db
+        .select({ amount: orderPayments.amount, method: orderPayments.method, customerIdRef: orders.customerIdRef })
+        .from(orderPayments)
+        .innerJoin(orders, eq(orders.id, orderPayments.orderId))
+        .where(and(eq(orderPayments.id, numericId), eq(orderPayments.orderId, numericOrderId)));
+      if (!payment) return null;
+      if (Number.parseFloat(payment.amount) < 0) {
+        throw new ApiError(HTTP_STATUS.CONFLICT, 'Refunds belong to an approved return and cannot be deleted');
+      }
+
+      const paymentDelete = db
+        .delete(orderPayments)
+        .where(eq(orderPayments.id, numericId));
+
+      const creditStatements = payment.method === 'store_credit'
+        ? CustomerLoyalty.buildEntryStatements(db, {
+          customerId: storeCreditCustomer(payment),
+          kind: 'store_credit',
+          type: 'restore',
+          amount: Number.parseFloat(payment.amount),
+          orderId: numericOrderId,
+          notes: 'Store credit payment deleted',
+        }, user)
+        : [];
+
+      const results = await db.batch([
+        buildOrderLock(db, numericOrderId),
+        paymentDelete,
+        ...creditStatements,
+        this.buildRecalculateStatement(db, numericOrderId),
+      ]);
+      return transformTotals(results[results.length - 1].rows);
+    }, { operationName: 'OrderPayment.delete' });
+  },
+};
+
+export default OrderPayment;
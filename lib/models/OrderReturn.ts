@@ -0,0 +1,320 @@
+import { eq, desc, and, inArray, ne, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { orderItems, orderReturns, orderReturnItems } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import type {
+  CreateOrderReturnData,
+  ItemId,
+  OrderId,
+  OrderItemId,
+  OrderPaymentId,
+  OrderReturn as OrderReturnEntity,
+  OrderReturnId,
+  OrderReturnItem,
+  PaymentMethod,
+  ReturnStatus,
+} from '@/types';
+
+interface OrderReturnRow {
+  id: number;
+  orderId: number;
+  status: ReturnStatus;
+  reason: string;
+  refundAmount: string;
+  refundMethod: PaymentMethod | null;
+  restock: boolean;
+  refundPaymentId: number | null;
+  reviewNotes: string | null;
+  requestedByEmail: string | null;
+  reviewedByEmail: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface OrderReturnItemRow {
+  id: number;
+  returnId: number;
+  orderItemId: number | null;
+  itemId: number | null;
+  name: string;
+  price: string;
+  quantity: number;
+}
+
+function transformReturnItem(item: OrderReturnItemRow): OrderReturnItem {
+  return {
+    id: item.id,
+    orderItemId: item.orderItemId as OrderItemId | null,
+    itemId: item.itemId as ItemId | null,
+    name: item.name,
+    price: Number.parseFloat(item.price),
+    quantity: item.quantity,
+  };
+}
+
+function transformOrderReturn(orderReturn: OrderReturnRow, returnItems: OrderReturnItemRow[] = []): OrderReturnEntity {
+  return {
+    ...orderReturn,
+    id: orderReturn.id as OrderReturnId,
+    _id: orderReturn.id as OrderReturnId,
+    orderId: orderReturn.orderId as OrderId,
+    refundPaymentId: orderReturn.refundPaymentId as OrderPaymentId | null,
+    refundAmount: Number.parseFloat(orderReturn.refundAmount),
+    reviewedAt: orderReturn.reviewedAt?.toISOString() || null,
+    createdAt: orderReturn.createdAt.toISOString(),
+    updatedAt: orderReturn.updatedAt.toISOString(),
+    items: returnItems.map(transformReturnItem),
+  };
+}
+
+/**
+ * Load return rows together with their line items
+ */
+async function withItems(db: Database, rows: OrderReturnRow[]): Promise<OrderReturnEntity[]> {
+  if (rows.length === 0) return [];
+
+  const lineRows = await db
+    .select()
+    .from(orderReturnItems)
+    .where(inArray(orderReturnItems.returnId, rows.map(r => r.id)));
+
+  const linesByReturn = new Map<number, OrderReturnItemRow[]>();
+  for (const line of lineRows) {
+    const group = linesByReturn.get(line.returnId) ?? [];
+    group.push(line);
+    linesByReturn.set(line.returnId, group);
+  }
+
+  return rows.map(row => transformOrderReturn(row, linesByReturn.get(row.id) || []));
+}
+
+/**
+ * Quantity per order item already covered by returns that were not rejected
+ */
+async function loadReturnedQuantities(db: Database, orderId: number, statuses?: ReturnStatus[]) {
+  const conditions = [eq(orderReturns.orderId, orderId)];
+  if (statuses) {
+    conditions.push(inArray(orderReturns.status, statuses));
+  } else {
+    conditions.push(ne(orderReturns.status, 'rejected'));
+  }
+
+  const rows = await db
+    .select({
+      orderItemId: orderReturnItems.orderItemId,
+      quantity: sql<number>`SUM(${orderReturnItems.quantity})::int`,
+    })
+    .from(orderReturnItems)
+    .innerJoin(orderReturns, eq(orderReturnItems.returnId, orderReturns.id))
+    .where(and(...conditions))
+    .groupBy(orderReturnItems.orderItemId);
+
+  return new Map<number, number>(
+    rows.flatMap(r => (r.orderItemId === null ? [] : [[r.orderItemId, r.quantity] as const]))
+  );
+}
+
+interface ReviewData {
+  reviewNotes?: string | null;
+  refundMethod?: PaymentMethod | null;
+  userId?: number | null;
+  userEmail?: string | null;
+}
+
+/**
+ * Columns set when a pending return is reviewed
+ */
+function buildReviewData(status: Exclude<ReturnStatus, 'requested'>, review: ReviewData, reviewedAt: Date) {
+  const updateData: Record<string, unknown> = {
+    status,
+    reviewNotes: review.reviewNotes?.trim() || null,
+    reviewedByUserId: review.userId ?? null,
+    reviewedByEmail: review.userEmail ?? null,
+    reviewedAt,
+    updatedAt: reviewedAt,
+  };
+  if (review.refundMethod) {
+    updateData.refundMethod = review.refundMethod;
+  }
+  return updateData;
+}
+
+const OrderReturn = {
+  /**
+   * Get all returns for an order, newest first
+   */
+  async findByOrderId(orderId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericOrderId = Number.parseInt(String(orderId), 10);
+      if (Number.isNaN(numericOrderId)) return [];
+
+      const rows = await db
+        .select()
+        .from(orderReturns)
+        .where(eq(orderReturns.orderId, numericOrderId))
+        .orderBy(desc(orderReturns.createdAt));
+
+      return withItems(db, rows);
+    }, { operationName: 'OrderReturn.findByOrderId' });
+  },
+
+  /**
+   * Get a single return by ID
+   */
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      const rows = await db
+        .select()
+        .from(orderReturns)
+        .where(eq(orderReturns.id, numericId));
+
+      const [result] = await withItems(db, rows);
+      return result || null;
+    }, { operationName: 'OrderReturn.findById' });
+  },
+
+  /**
+   * Get returned quantity per order item
+   * @param statuses - Only count returns in these statuses (default: everything not rejected)
+   */
+  async getReturnedQuantities(orderId: number, statuses?: ReturnStatus[]) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      return loadReturnedQuantities(db, orderId, statuses);
+    }, { operationName: 'OrderReturn.getReturnedQuantities' });
+  },
+
+  /**
+   * Create a return request for some or all of an order's items
+   * @throws ApiError 400 when lines do not belong to the order or exceed what is left to return
+   */
+  async create(data: CreateOrderReturnData & {
+    userId?: number | null;
+    userEmail?: string | null;
+  }) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericOrderId = Number.parseInt(String(data.orderId), 10);
+      if (Number.isNaN(numericOrderId)) {
+        throw new Error('Invalid order ID');
+      }
+
+      const lines = await db
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, numericOrderId));
+      const linesById = new Map(lines.map(line => [line.id, line]));
+      const alreadyReturned = await loadReturnedQuantities(db, numericOrderId);
+
+      let returnValue = 0;
+      const returnLines = data.items.map(requested => {
+        const line = linesById.get(Number(requested.orderItemId));
+        if (!line) {
+          throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Order item ${requested.orderItemId} does not belong to this order`);
+        }
+        const remaining = line.quantity - (alreadyReturned.get(line.id) || 0);
+        if (requested.quantity > remaining) {
+          throw new ApiError(
+            HTTP_STATUS.BAD_REQUEST,
+            `Cannot return ${requested.quantity} of ${line.name}; only ${remaining} left to return`
+          );
+        }
+        returnValue += Number.parseFloat(line.price) * requested.quantity;
+        return {
+          orderItemId: line.id,
+          itemId: line.itemId,
+          name: line.name,
+          price: line.price,
+          quantity: requested.quantity,
+        };
+      });
+
+      if (data.refundAmount > returnValue + 0.005) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          `Refund amount cannot exceed the value of the returned items (${returnValue.toFixed(2)})`
+        );
+      }
+
+      // Allocate the ID so the request and its lines are written in one batch
+      const idResult = await db.execute<{ id: number }>(sql`SELECT nextval(pg_get_serial_sequence('order_returns', 'id'))::int AS id`);
+      const id = idResult.rows[0].id;
+
+      const [returnResult, itemsResult] = await db.batch([
+        db.insert(orderReturns).values({
+          id,
+          orderId: numericOrderId,
+          reason: data.reason.trim(),
+          refundAmount: data.refundAmount.toFixed(2),
+          refundMethod: data.refundMethod || null,
+          restock: data.restock ?? true,
+          requestedByUserId: data.userId ?? null,
+          requestedByEmail: data.userEmail ?? null,
+        }).returning(),
+        db.insert(orderReturnItems).values(returnLines.map(line => ({ ...line, returnId: id }))).returning(),
+      ]);
+
+      return transformOrderReturn(returnResult[0], itemsResult);
+    }, { operationName: 'OrderReturn.create' });
+  },
+
+  /**
+   * Move a pending return to approved or rejected
+   * @returns The updated return, or null when it was no longer pending
+   */
+  async markReviewed(id: number, status: Exclude<ReturnStatus, 'requested'>, review: ReviewData = {}) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      // Only a pending request can be reviewed; the condition guards against double approval
+      const result = await db
+        .update(orderReturns)
+        .set(buildReviewData(status, review, new Date()))
+        .where(and(eq(orderReturns.id, numericId), eq(orderReturns.status, 'requested')))
+        .returning();
+
+      if (result.length === 0) return null;
+      return transformOrderReturn(result[0]);
+    }, { operationName: 'OrderReturn.markReviewed' });
+  },
+
+  /**
+   * Build the statement that approves a pending return, for a batch that also
+   * refunds and restocks it
+   * @param condition - Extra condition the approval requires, e.g. that the refund still fits
+   * @returns The statement and a condition that holds only once this statement has
+   *   approved the return, for the refund and restock statements to require
+   */
+  buildApprovalStatement(db: Database, id: number, reviewedAt: Date, review: ReviewData, condition = sql`TRUE`) {
+    return {
+      statement: db
+        .update(orderReturns)
+        .set(buildReviewData('approved', review, reviewedAt))
+        .where(and(eq(orderReturns.id, id), eq(orderReturns.status, 'requested'), condition)),
+      approvedGuard: sql`EXISTS (SELECT 1 FROM order_returns WHERE id = ${id} AND status = 'approved' AND reviewed_at = ${reviewedAt.toISOString()}::timestamptz)`,
+    };
+  },
+
+  /**
+   * Build the statement that links the refund entry in the payments ledger to its
+   * return; a no-op when the refund was not written
+   */
+  buildRefundLinkStatement(db: Database, id: number, paymentId: number) {
+    return db
+      .update(orderReturns)
+      .set({ refundPaymentId: paymentId })
+      .where(and(eq(orderReturns.id, id), sql`EXISTS (SELECT 1 FROM order_payments WHERE id = ${paymentId})`));
+  },
+};
+
+export default OrderReturn;
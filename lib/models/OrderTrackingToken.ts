@@ -0,0 +1,125 @@
+import { eq, and, gt, sql } from 'drizzle-orm';
+import { getDatabase } from '@/lib/db/connection';
+import { orderTrackingTokens } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { generateTrackingToken } from '@/lib/utils/tokenUtils';
+
+interface TrackingTokenRow {
+  token: string;
+  orderId: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface TrackingToken {
+  token: string;
+  orderId: number;
+  expiresAt: string;
+  createdAt: string;
+}
+
+function transformTrackingToken(row: TrackingTokenRow): TrackingToken {
+  return {
+    token: row.token,
+    orderId: row.orderId,
+    expiresAt: row.expiresAt.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+const OrderTrackingToken = {
+  /**
+   * Get the order's tracking link if it has one that has not expired
+   * @param orderId - The order ID
+   * @returns Token details or null
+   */
+  async findActiveForOrder(orderId: number): Promise<TrackingToken | null> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const result = await db.select()
+        .from(orderTrackingTokens)
+        .where(
+          and(
+            eq(orderTrackingTokens.orderId, orderId),
+            gt(orderTrackingTokens.expiresAt, new Date())
+          )
+        );
+
+      return result.length > 0 ? transformTrackingToken(result[0]) : null;
+    }, { operationName: 'OrderTrackingToken.findActiveForOrder' });
+  },
+
+  /**
+   * Issue a new tracking token for an order, replacing any previous one
+   * The old link stops working immediately.
+   * @param orderId - The order ID
+   * @returns Token details
+   */
+  async regenerateForOrder(orderId: number): Promise<TrackingToken> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const { token, expiresAt } = generateTrackingToken();
+
+      const result = await db.insert(orderTrackingTokens)
+        .values({ orderId, token, expiresAt })
+        .onConflictDoUpdate({
+          target: orderTrackingTokens.orderId,
+          set: { token, expiresAt, createdAt: sql`NOW()` },
+        })
+        .returning();
+
+      return transformTrackingToken(result[0]);
+    }, { operationName: 'OrderTrackingToken.regenerateForOrder' });
+  },
+
+  /**
+   * Get the active tracking token for an order or issue one
+   * @param orderId - The order ID
+   * @returns Token details
+   */
+  async getOrCreateForOrder(orderId: number): Promise<TrackingToken> {
+    const existing = await this.findActiveForOrder(orderId);
+    if (existing) return existing;
+
+    return this.regenerateForOrder(orderId);
+  },
+
+  /**
+   * Validate a token and return the order it belongs to
+   * @param token - The token from the public link
+   * @returns Token details if valid, null otherwise
+   */
+  async validateToken(token: string): Promise<TrackingToken | null> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const result = await db.select()
+        .from(orderTrackingTokens)
+        .where(
+          and(
+            eq(orderTrackingTokens.token, token),
+            gt(orderTrackingTokens.expiresAt, new Date())
+          )
+        );
+
+      return result.length > 0 ? transformTrackingToken(result[0]) : null;
+    }, { operationName: 'OrderTrackingToken.validateToken' });
+  },
+
+  /**
+   * Disable the order's tracking link
+   * @param orderId - The order ID
+   * @returns Whether a link existed
+   */
+  async revokeForOrder(orderId: number): Promise<boolean> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const result = await db.delete(orderTrackingTokens)
+        .where(eq(orderTrackingTokens.orderId, orderId))
+        .returning();
+
+      return result.length > 0;
+    }, { operationName: 'OrderTrackingToken.revokeForOrder' });
+  },
+};
+
+export default OrderTrackingToken;
@@ -0,0 +1,116 @@
+import { eq, and, gte, lte, asc } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { productionCapacity, productionCapacityOverrides } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { DEFAULT_PRODUCTION_CAPACITY } from '@/constants/productionConstants';
+import type { ProductionCapacityOverride, ProductionCapacitySettings, ProductionCapacityUnit } from '@/types';
+
+interface ProductionCapacityRow {
+  unit: string;
+  weekdayCapacity: number[];
+  minLeadDays: number;
+  updatedAt: Date;
+}
+
+interface ProductionCapacityOverrideRow {
+  date: string;
+  capacity: number;
+  note: string | null;
+}
+
+function transformSettings(row: ProductionCapacityRow | undefined): ProductionCapacitySettings {
+  if (!row) return { ...DEFAULT_PRODUCTION_CAPACITY, updatedAt: null };
+  return {
+    unit: row.unit as ProductionCapacityUnit,
+    weekdayCapacity: row.weekdayCapacity,
+    minLeadDays: row.minLeadDays,
+    isDefault: false,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function transformOverride(row: ProductionCapacityOverrideRow): ProductionCapacityOverride {
+  return {
+    date: row.date,
+    capacity: row.capacity,
+    note: row.note || null,
+  };
+}
+
+const ProductionCapacity = {
+  /**
+   * Get the workshop's capacity, or the defaults if none has been saved
+   */
+  async getSettings() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.select().from(productionCapacity).where(eq(productionCapacity.id, 1));
+      return transformSettings(result[0]);
+    }, { operationName: 'ProductionCapacity.getSettings' });
+  },
+
+  async updateSettings(data: Omit<ProductionCapacitySettings, 'isDefault' | 'updatedAt'>, userId?: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const values = {
+        unit: data.unit,
+        weekdayCapacity: data.weekdayCapacity,
+        minLeadDays: data.minLeadDays,
+        updatedBy: userId ?? null,
+        updatedAt: new Date(),
+      };
+      const result = await db
+        .insert(productionCapacity)
+        .values({ id: 1, ...values })
+        .onConflictDoUpdate({ target: productionCapacity.id, set: values })
+        .returning();
+      return transformSettings(result[0]);
+    }, { operationName: 'ProductionCapacity.updateSettings' });
+  },
+
+  /**
+   * Get the overrides between two dates (YYYY-MM-DD, inclusive)
+   */
+  async findOverrides(from: string, to: string) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select()
+        .from(productionCapacityOverrides)
+        .where(and(gte(productionCapacityOverrides.date, from), lte(productionCapacityOverrides.date, to)))
+        .orderBy(asc(productionCapacityOverrides.date));
+      return result.map(transformOverride);
+    }, { operationName: 'ProductionCapacity.findOverrides' });
+  },
+
+  async setOverride(date: string, data: { capacity: number; note?: string | null }, userId?: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const values = {
+        capacity: data.capacity,
+        note: data.note?.trim() || null,
+        updatedBy: userId ?? null,
+        updatedAt: new Date(),
+      };
+      const result = await db
+        .insert(productionCapacityOverrides)
+        .values({ date, ...values })
+        .onConflictDoUpdate({ target: productionCapacityOverrides.date, set: values })
+        .returning();
+      return transformOverride(result[0]);
+    }, { operationName: 'ProductionCapacity.setOverride' });
+  },
+
+  async deleteOverride(date: string) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .delete(productionCapacityOverrides)
+        .where(eq(productionCapacityOverrides.date, date))
+        .returning({ date: productionCapacityOverrides.date });
+      return result.length > 0;
+    }, { operationName: 'ProductionCapacity.deleteOverride' });
+  },
+};
+
+export default ProductionCapacity;
@@ -0,0 +1,329 @@
+import { eq, asc, sql, and, ne } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { promotions, orders } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import type {
+  CreatePromotionData,
+  Promotion as PromotionEntity,
+  PromotionType,
+  UpdatePromotionData,
+} from '@/types';
+
+interface PromotionRow {
+  id: number;
+  code: string;
+  name: string;
+  description: string | null;
+  type: PromotionType;
+  value: string;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  categoryId: number | null;
+  minOrderAmount: string | null;
+  maxDiscountAmount: string | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  usageCount: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Column values for an insert or update, only for the fields given */
+interface PromotionValues {
+  code?: string;
+  name?: string;
+  description?: string | null;
+  type?: PromotionType;
+  value?: string;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  categoryId?: number | null;
+  minOrderAmount?: string | null;
+  maxDiscountAmount?: string | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  usageLimit?: number | null;
+  perCustomerLimit?: number | null;
+  isActive?: boolean;
+}
+
+function toNumberOrNull(value: string | null) {
+  return value === null ? null : Number.parseFloat(value);
+}
+
+function toNumericOrNull(value: number | null | undefined) {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function transformPromotion(promotion: PromotionRow): PromotionEntity {
+  return {
+    ...promotion,
+    _id: promotion.id,
+    description: promotion.description || '',
+    value: Number.parseFloat(promotion.value),
+    minOrderAmount: toNumberOrNull(promotion.minOrderAmount),
+    maxDiscountAmount: toNumberOrNull(promotion.maxDiscountAmount),
+    startsAt: promotion.startsAt?.toISOString() || null,
+    endsAt: promotion.endsAt?.toISOString() || null,
+    createdAt: promotion.createdAt.toISOString(),
+    updatedAt: promotion.updatedAt.toISOString(),
+  };
+}
+
+function buildPromotionValues(data: UpdatePromotionData): PromotionValues {
+  const values: PromotionValues = {};
+  if (data.code !== undefined) values.code = data.code.trim().toUpperCase();
+  if (data.name !== undefined) values.name = data.name.trim();
+  if (data.description !== undefined) values.description = data.description?.trim() || null;
+  if (data.type !== undefined) values.type = data.type;
+  if (data.value !== undefined) values.value = String(data.value);
+  if (data.buyQuantity !== undefined) values.buyQuantity = data.buyQuantity ?? null;
+  if (data.getQuantity !== undefined) values.getQuantity = data.getQuantity ?? null;
+  if (data.categoryId !== undefined) values.categoryId = data.categoryId ?? null;
+  if (data.minOrderAmount !== undefined) values.minOrderAmount = toNumericOrNull(data.minOrderAmount);
+  if (data.maxDiscountAmount !== undefined) values.maxDiscountAmount = toNumericOrNull(data.maxDiscountAmount);
+  if (data.startsAt !== undefined) values.startsAt = data.startsAt ? new Date(data.startsAt) : null;
+  if (data.endsAt !== undefined) values.endsAt = data.endsAt ? new Date(data.endsAt) : null;
+  if (data.usageLimit !== undefined) values.usageLimit = data.usageLimit ?? null;
+  if (data.perCustomerLimit !== undefined) values.perCustomerLimit = data.perCustomerLimit ?? null;
+  if (data.isActive !== undefined) values.isActive = data.isActive;
+  return values;
+}
+
+/**
+ * Translate constraint failures on the promotions table into API errors
+ */
+function toPromotionError(error: unknown) {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  if (code === '23505' || message?.includes('promotions_code_unique')) {
+    return new ApiError(HTTP_STATUS.CONFLICT, 'A promotion with this code already exists');
+  }
+  if (message?.includes('promotion_usage_within_limit')) {
+    return new ApiError(HTTP_STATUS.BAD_REQUEST, 'Usage limit cannot be lower than the redemptions already made');
+  }
+  return error;
+}
+
+const Promotion = {
+  /**
+   * Get all promotions, active ones first
+   */
+  async findAll() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select()
+        .from(promotions)
+        .orderBy(sql`${promotions.isActive} DESC`, asc(promotions.code));
+      return result.map(transformPromotion);
+    }, { operationName: 'Promotion.findAll' });
+  },
+
+  /**
+   * Get promotion by ID
+   */
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      const result = await db.select().from(promotions).where(eq(promotions.id, numericId));
+      return result.length > 0 ? transformPromotion(result[0]) : null;
+    }, { operationName: 'Promotion.findById' });
+  },
+
+  /**
+   * Find a promotion by its code (case-insensitive)
+   */
+  async findByCode(code: string) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select()
+        .from(promotions)
+        .where(eq(promotions.code, code.trim().toUpperCase()));
+      return result.length > 0 ? transformPromotion(result[0]) : null;
+    }, { operationName: 'Promotion.findByCode' });
+  },
+
+  /**
+   * Create a new promotion
+   * @throws {ApiError} 409 when the code is already taken
+   */
+  async create(data: CreatePromotionData) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      // code, name and type are required on CreatePromotionData, so they are always set
+      const values = buildPromotionValues(data) as PromotionValues & Pick<CreatePromotionData, 'code' | 'name' | 'type'>;
+      try {
+        const result = await db.insert(promotions).values(values).returning();
+        return transformPromotion(result[0]);
+      } catch (error) {
+        throw toPromotionError(error);
+      }
+    }, { operationName: 'Promotion.create' });
+  },
+
+  /**
+   * Update a promotion
+   * @throws {ApiError} 409 when the new code is already taken
+   */
+  async update(id: number, data: UpdatePromotionData) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      try {
+        const result = await db
+          .update(promotions)
+          .set({ ...buildPromotionValues(data), updatedAt: new Date() })
+          .where(eq(promotions.id, numericId))
+          .returning();
+        return result.length > 0 ? transformPromotion(result[0]) : null;
+      } catch (error) {
+        throw toPromotionError(error);
+      }
+    }, { operationName: 'Promotion.update' });
+  },
+
+  /**
+   * Delete a promotion that no order has used
+   * @throws {ApiError} 409 when orders reference the promotion; deactivate it instead
+   */
+  async delete(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return false;
+
+      const used = await db
+        .select({ id: orders.id })
+        .from(orders)
+        .where(eq(orders.promotionId, numericId))
+        .limit(1);
+      if (used.length > 0) {
+        throw new ApiError(HTTP_STATUS.CONFLICT, 'This promotion has been used on orders. Deactivate it instead of deleting.');
+      }
+
+      const result = await db.delete(promotions).where(eq(promotions.id, numericId)).returning();
+      return result.length > 0;
+    }, { operationName: 'Promotion.delete' });
+  },
+
+  /**
+   * Count the customer's orders that used a promotion, ignoring cancelled ones
+   */
+  async countCustomerUses(promotionId: number, customerId: string) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(orders)
+        .where(and(
+          eq(orders.promotionId, promotionId),
+          eq(orders.customerId, customerId.trim()),
+          ne(orders.status, 'cancelled')
+        ));
+      return result[0]?.count || 0;
+    }, { operationName: 'Promotion.countCustomerUses' });
+  },
+
+  /**
+   * Statements counting one redemption, for use inside an order batch after the order insert
+   * The usage limit check constraint fails the whole batch if the cap is reached. The
+   * second statement runs once the first holds the promotion's row lock, so it sees
+   * orders other batches committed meanwhile, and breaks the same constraint when the
+   * customer's orders, this one included, exceed the per-customer limit.
+   * @param customerId - The order's customer, by business ID
+   */
+  buildRedemptionStatements(db: Database, promotionId: number, customerId: string) {
+    return [
+      db.execute(sql`
+        UPDATE promotions
+        SET usage_count = usage_count + 1, updated_at = NOW()
+        WHERE id = ${promotionId}
+      `),
+      db.execute(sql`
+        UPDATE promotions
+        SET usage_count = -1
+        WHERE id = ${promotionId}
+          AND per_customer_limit < (
+            SELECT COUNT(*) FROM orders
+            WHERE promotion_id = ${promotionId} AND customer_id = ${customerId} AND status <> 'cancelled'
+          )
+      `),
+    ] as const;
+  },
+
+  /**
+   * Which limit stopped a redemption whose batch failed the usage limit check
+   */
+  async describeLimitReached(promotionId: number, customerId: string): Promise<string> {
+    const [promotion, customerUses] = await Promise.all([
+      this.findById(promotionId),
+      this.countCustomerUses(promotionId, customerId),
+    ]);
+    return promotion?.perCustomerLimit && customerUses >= promotion.perCustomerLimit
+      ? 'has already been used the maximum number of times by this customer'
+      : 'has reached its usage limit';
+  },
+
+  /**
+   * Statements moving an order's redemption to another promotion, for the batch
+   * that writes the order's new promotion
+   * They compare against the order row, so they go after a lock on the order and
+   * before its update. A cancelled order holds no redemption and moves nothing.
+   * @param promotionId - The order's new promotion, or null for none
+   */
+  buildSwitchStatements(db: Database, orderId: number, promotionId: number | null) {
+    const switching = sql`EXISTS (
+      SELECT 1 FROM orders
+      WHERE id = ${orderId} AND status <> 'cancelled' AND promotion_id IS DISTINCT FROM ${promotionId}::int
+    )`;
+    return [
+      ...(promotionId ? [db.execute(sql`
+        UPDATE promotions
+        SET usage_count = usage_count + 1, updated_at = NOW()
+        WHERE id = ${promotionId} AND ${switching}
+      `)] : []),
+      db.execute(sql`
+        UPDATE promotions
+        SET usage_count = usage_count - 1, updated_at = NOW()
+        WHERE usage_count > 0
+          AND id = (SELECT promotion_id FROM orders WHERE id = ${orderId})
+          AND ${switching}
+      `),
+    ];
+  },
+
+  /**
+   * Give back the redemption held by an order, e.g. when it is cancelled
+   */
+  async releaseForOrder(orderId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      await db.execute(sql`
+        UPDATE promotions
+        SET usage_count = usage_count - 1, updated_at = NOW()
+        WHERE usage_count > 0
+          AND id = (SELECT promotion_id FROM orders WHERE id = ${orderId})
+      `);
+    }, { operationName: 'Promotion.releaseForOrder' });
+  },
+
+  /**
+   * Whether a promotion error came from the usage limit check constraint
+   */
+  isUsageLimitError(error: unknown) {
+    return Boolean((error as { message?: string } | null)?.message?.includes('promotion_usage_within_limit'));
+  },
+};
+
+export default Promotion;
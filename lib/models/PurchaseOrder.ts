@@ -0,0 +1,353 @@
+import { eq, and, inArray, asc, desc, sql, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { purchaseOrders, purchaseOrderItems, suppliers, items } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import Stock from '@/lib/models/Stock';
+import type {
+  ItemId,
+  PurchaseOrder as PurchaseOrderEntity,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from '@/types';
+
+export type PurchaseOrderFilter = 'active' | 'open' | 'closed' | 'all';
+
+export interface PurchaseOrderLineInput {
+  itemId: number;
+  quantityOrdered: number;
+  unitCost: number;
+}
+
+/** Quantity received against one line, at that line's unit cost */
+export interface PurchaseOrderReceipt {
+  lineId: number;
+  itemId: number;
+  quantity: number;
+  unitCost: number;
+}
+
+/** Statuses with goods still expected from the supplier */
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['ordered', 'partially_received'];
+
+const FILTER_STATUSES: Record<PurchaseOrderFilter, PurchaseOrderStatus[] | null> = {
+  active: ['draft', ...OPEN_PURCHASE_ORDER_STATUSES],
+  open: OPEN_PURCHASE_ORDER_STATUSES,
+  closed: ['received', 'cancelled'],
+  all: null,
+};
+
+export function formatPurchaseOrderNumber(id: number): string {
+  return `PO-${String(id).padStart(5, '0')}`;
+}
+
+interface PurchaseOrderRow {
+  id: number;
+  supplierId: number;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  expectedDate: string | null;
+  notes: string | null;
+  orderedAt: Date | null;
+  receivedAt: Date | null;
+  createdAt: Date;
+}
+
+interface PurchaseOrderLineRow {
+  id: number;
+  purchaseOrderId: number;
+  itemId: number;
+  itemName: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: string;
+}
+
+function transformLine(line: PurchaseOrderLineRow): PurchaseOrderLine {
+  return {
+    id: line.id,
+    itemId: line.itemId as ItemId,
+    itemName: line.itemName,
+    quantityOrdered: line.quantityOrdered,
+    quantityReceived: line.quantityReceived,
+    unitCost: Number.parseFloat(line.unitCost),
+  };
+}
+
+function transformPurchaseOrder(row: PurchaseOrderRow, lines: PurchaseOrderLineRow[]): PurchaseOrderEntity {
+  const transformedLines = lines.map(transformLine);
+  return {
+    id: row.id,
+    poNumber: formatPurchaseOrderNumber(row.id),
+    supplier: { id: row.supplierId, name: row.supplierName },
+    status: row.status,
+    expectedDate: row.expectedDate || null,
+    notes: row.notes || null,
+    orderedAt: row.orderedAt?.toISOString() || null,
+    receivedAt: row.receivedAt?.toISOString() || null,
+    createdAt: row.createdAt.toISOString(),
+    lines: transformedLines,
+    totalCost: Math.round(
+      transformedLines.reduce((sum, line) => sum + line.quantityOrdered * line.unitCost, 0) * 100
+    ) / 100,
+  };
+}
+
+function selectPurchaseOrders(db: Database) {
+  return db
+    .select({
+      id: purchaseOrders.id,
+      supplierId: purchaseOrders.supplierId,
+      supplierName: suppliers.name,
+      status: purchaseOrders.status,
+      expectedDate: purchaseOrders.expectedDate,
+      notes: purchaseOrders.notes,
+      orderedAt: purchaseOrders.orderedAt,
+      receivedAt: purchaseOrders.receivedAt,
+      createdAt: purchaseOrders.createdAt,
+    })
+    .from(purchaseOrders)
+    .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id));
+}
+
+/**
+ * Load the lines of the given purchase orders and attach them
+ */
+async function withLines(db: Database, rows: PurchaseOrderRow[]): Promise<PurchaseOrderEntity[]> {
+  if (rows.length === 0) return [];
+
+  const lines = await db
+    .select({
+      id: purchaseOrderItems.id,
+      purchaseOrderId: purchaseOrderItems.purchaseOrderId,
+      itemId: purchaseOrderItems.itemId,
+      itemName: items.name,
+      quantityOrdered: purchaseOrderItems.quantityOrdered,
+      quantityReceived: purchaseOrderItems.quantityReceived,
+      unitCost: purchaseOrderItems.unitCost,
+    })
+    .from(purchaseOrderItems)
+    .innerJoin(items, eq(purchaseOrderItems.itemId, items.id))
+    .where(inArray(purchaseOrderItems.purchaseOrderId, rows.map(row => row.id)))
+    .orderBy(asc(purchaseOrderItems.id));
+
+  const linesByOrder = new Map<number, PurchaseOrderLineRow[]>();
+  for (const line of lines) {
+    const group = linesByOrder.get(line.purchaseOrderId) ?? [];
+    group.push(line);
+    linesByOrder.set(line.purchaseOrderId, group);
+  }
+  return rows.map(row => transformPurchaseOrder(row, linesByOrder.get(row.id) ?? []));
+}
+
+function toLineValues(purchaseOrderId: number, lines: PurchaseOrderLineInput[]) {
+  return lines.map(line => ({
+    purchaseOrderId,
+    itemId: line.itemId,
+    quantityOrdered: line.quantityOrdered,
+    unitCost: line.unitCost.toFixed(2),
+  }));
+}
+
+const PurchaseOrder = {
+  /**
+   * Get purchase orders with their lines, soonest expected first
+   * @param filter - active: draft and open; open: ordered or partially received; closed: received or cancelled
+   */
+  async find(filter: PurchaseOrderFilter = 'active', options: { supplierId?: number } = {}) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const conditions: SQL[] = [];
+      const statuses = FILTER_STATUSES[filter] ?? FILTER_STATUSES.active;
+      if (statuses) conditions.push(inArray(purchaseOrders.status, statuses));
+      if (options.supplierId) conditions.push(eq(purchaseOrders.supplierId, options.supplierId));
+
+      const rows = await selectPurchaseOrders(db)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(sql`${purchaseOrders.expectedDate} ASC NULLS LAST`, desc(purchaseOrders.createdAt))
+        .limit(200);
+
+      return withLines(db, rows);
+    }, { operationName: 'PurchaseOrder.find' });
+  },
+
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const rows = await selectPurchaseOrders(db).where(eq(purchaseOrders.id, id));
+      const [purchaseOrder] = await withLines(db, rows);
+      return purchaseOrder ?? null;
+    }, { operationName: 'PurchaseOrder.findById' });
+  },
+
+  /**
+   * Create a draft purchase order with its lines in one batch
+   */
+  async create(data: {
+    supplierId: number;
+    expectedDate?: string | null;
+    notes?: string | null;
+    lines: PurchaseOrderLineInput[];
+  }, userId?: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+
+      // Allocate the ID so the order and its lines are written in one batch
+      const idResult = await db.execute<{ id: number }>(sql`SELECT nextval(pg_get_serial_sequence('purchase_orders', 'id'))::int AS id`);
+      const id = idResult.rows[0].id;
+
+      await db.batch([
+        db.insert(purchaseOrders).values({
+          id,
+          supplierId: data.supplierId,
+          expectedDate: data.expectedDate ?? null,
+          notes: data.notes ?? null,
+          createdBy: userId ?? null,
+        }),
+        db.insert(purchaseOrderItems).values(toLineValues(id, data.lines)),
+      ]);
+
+      return this.findById(id);
+    }, { operationName: 'PurchaseOrder.create' });
+  },
+
+  /**
+   * Update a purchase order's details, replacing its lines when given
+   * Lines and supplier can only change while the order is a draft; callers check the status.
+   */
+  async update(id: number, data: {
+    supplierId?: number;
+    expectedDate?: string | null;
+    notes?: string | null;
+    lines?: PurchaseOrderLineInput[];
+  }) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const updateData: Record<string, unknown> = { updatedAt: new Date() };
+      for (const key of ['supplierId', 'expectedDate', 'notes'] as const) {
+        if (data[key] !== undefined) updateData[key] = data[key];
+      }
+
+      const update = db.update(purchaseOrders).set(updateData).where(eq(purchaseOrders.id, id));
+      if (data.lines) {
+        await db.batch([
+          update,
+          db.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id)),
+          db.insert(purchaseOrderItems).values(toLineValues(id, data.lines)),
+        ]);
+      } else {
+        await update;
+      }
+
+      return this.findById(id);
+    }, { operationName: 'PurchaseOrder.update' });
+  },
+
+  /**
+   * Move a purchase order to a new status if it is still in one of the expected ones
+   * @returns false when the order was no longer in fromStatuses
+   */
+  async transition(id: number, fromStatuses: PurchaseOrderStatus[], data: Record<string, unknown>) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .update(purchaseOrders)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(purchaseOrders.id, id), inArray(purchaseOrders.status, fromStatuses)))
+        .returning({ id: purchaseOrders.id });
+      return result.length > 0;
+    }, { operationName: 'PurchaseOrder.transition' });
+  },
+
+  /**
+   * Record received quantities, fold their cost into each item's costPrice and put
+   * the units in stock
+   * The lines, item costs, restock ledger rows and order status are written in one
+   * batch. Costs use a weighted average of the stock on hand (at its current
+   * costPrice) and the units received (at the line's unit cost), so they are
+   * written before the stock moves.
+   * @param restock - Notes for the restock transactions and the user receiving
+   * @throws ApiError 409 if a line would be received beyond what was ordered
+   */
+  async recordReceipt(
+    id: number,
+    receipts: PurchaseOrderReceipt[],
+    restock: { notes: string; user: { id?: number; email?: string } }
+  ) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const statements: BatchItem<'pg'>[] = [];
+
+      for (const receipt of receipts) {
+        statements.push(
+          db
+            .update(purchaseOrderItems)
+            .set({ quantityReceived: sql`${purchaseOrderItems.quantityReceived} + ${receipt.quantity}` })
+            .where(and(eq(purchaseOrderItems.id, receipt.lineId), eq(purchaseOrderItems.purchaseOrderId, id)))
+        );
+      }
+
+      const costs = new Map<number, { quantity: number; total: number }>();
+      for (const receipt of receipts) {
+        const cost = costs.get(receipt.itemId) ?? { quantity: 0, total: 0 };
+        cost.quantity += receipt.quantity;
+        cost.total += receipt.quantity * receipt.unitCost;
+        costs.set(receipt.itemId, cost);
+      }
+      for (const [itemId, cost] of costs) {
+        const unitCost = (cost.total / cost.quantity).toFixed(4);
+        statements.push(
+          db
+            .update(items)
+            .set({
+              costPrice: sql`CASE
+                WHEN ${items.costPrice} IS NULL OR ${items.stockQuantity} <= 0 THEN ROUND(${unitCost}::numeric, 2)
+                ELSE ROUND((${items.stockQuantity} * ${items.costPrice} + ${cost.quantity} * ${unitCost}::numeric)
+                  / (${items.stockQuantity} + ${cost.quantity}), 2)
+              END`,
+              updatedAt: new Date(),
+            })
+            .where(eq(items.id, itemId))
+        );
+      }
+
+      statements.push(...Stock.buildBulkAdjustStatements(
+        db,
+        receipts.map(receipt => ({ itemId: receipt.itemId, quantity: receipt.quantity, notes: restock.notes })),
+        'restock',
+        restock.user,
+        { type: 'purchase_order', id }
+      ));
+
+      const fullyReceived = sql`NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE purchase_order_id = ${id} AND quantity_received < quantity_ordered
+      )`;
+      statements.push(
+        db
+          .update(purchaseOrders)
+          .set({
+            status: sql`CASE WHEN ${fullyReceived} THEN 'received' ELSE 'partially_received' END::purchase_order_status`,
+            receivedAt: sql`CASE WHEN ${fullyReceived} THEN NOW() ELSE NULL END`,
+            updatedAt: new Date(),
+          })
+          .where(eq(purchaseOrders.id, id))
+      );
+
+      try {
+        // Never empty: the status update is always last
+        await db.batch(statements as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+      } catch (error) {
+        const { code, message } = (error ?? {}) as { code?: string; message?: string };
+        if (code === '23514' || message?.includes('purchase_order_items_received_range')) {
+          throw new ApiError(HTTP_STATUS.CONFLICT, 'More units than were ordered would be received. Please refresh and try again.');
+        }
+        throw error;
+      }
+    }, { operationName: 'PurchaseOrder.recordReceipt' });
+  },
+};
+
+export default PurchaseOrder;
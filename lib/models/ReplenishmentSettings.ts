@@ -0,0 +1,66 @@
+import { eq } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { replenishmentSettings } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { DEFAULT_REPLENISHMENT_SETTINGS } from '@/constants/replenishmentConstants';
+import type { ReplenishmentSettings as ReplenishmentSettingsEntity } from '@/types';
+
+type ReplenishmentSettingsData = Omit<ReplenishmentSettingsEntity, 'isDefault' | 'updatedAt'>;
+
+interface ReplenishmentSettingsRow extends ReplenishmentSettingsData {
+  updatedAt: Date;
+}
+
+function transformSettings(row: ReplenishmentSettingsRow | undefined): ReplenishmentSettingsEntity {
+  if (!row) return { ...DEFAULT_REPLENISHMENT_SETTINGS, updatedAt: null };
+  return {
+    shortWindowDays: row.shortWindowDays,
+    longWindowDays: row.longWindowDays,
+    safetyStockDays: row.safetyStockDays,
+    targetCoverDays: row.targetCoverDays,
+    defaultLeadTimeDays: row.defaultLeadTimeDays,
+    autoUpdateThresholds: row.autoUpdateThresholds,
+    includeInDigest: row.includeInDigest,
+    isDefault: false,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+const ReplenishmentSettings = {
+  /**
+   * Get the replenishment settings, or the defaults if none have been saved
+   */
+  async get() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.select().from(replenishmentSettings).where(eq(replenishmentSettings.id, 1));
+      return transformSettings(result[0]);
+    }, { operationName: 'ReplenishmentSettings.get' });
+  },
+
+  async update(data: ReplenishmentSettingsData, userId?: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const values = {
+        shortWindowDays: data.shortWindowDays,
+        longWindowDays: data.longWindowDays,
+        safetyStockDays: data.safetyStockDays,
+        targetCoverDays: data.targetCoverDays,
+        defaultLeadTimeDays: data.defaultLeadTimeDays,
+        autoUpdateThresholds: data.autoUpdateThresholds,
+        includeInDigest: data.includeInDigest,
+        updatedBy: userId ?? null,
+        updatedAt: new Date(),
+      };
+
+      const result = await db
+        .insert(replenishmentSettings)
+        .values({ id: 1, ...values })
+        .onConflictDoUpdate({ target: replenishmentSettings.id, set: values })
+        .returning();
+      return transformSettings(result[0]);
+    }, { operationName: 'ReplenishmentSettings.update' });
+  },
+};
+
+export default ReplenishmentSettings;
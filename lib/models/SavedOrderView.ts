@@ -0,0 +1,230 @@
+import { eq, and, or, asc, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { savedOrderViews, savedOrderViewPreferences, savedViewDigestSends, users } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import type {
+  SavedOrderView as SavedOrderViewEntity,
+  SavedOrderViewData,
+  SavedOrderViewPreferences,
+  SavedOrderViewSortKey,
+} from '@/types';
+
+interface SavedOrderViewRow {
+  view: {
+    id: number;
+    userId: number;
+    name: string;
+    query: Record<string, string>;
+    sortKey: string;
+    sortDirection: string;
+    isShared: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  };
+  ownerName: string | null;
+  pinned: boolean | null;
+  digestSubscribed: boolean | null;
+}
+
+// Sort columns are validated before they are saved
+function toSort(row: { sortKey: string; sortDirection: string }) {
+  return {
+    sortKey: row.sortKey as SavedOrderViewSortKey,
+    sortDirection: row.sortDirection as SavedOrderViewEntity['sortDirection'],
+  };
+}
+
+// Views are always read for one user, whose pin and digest settings are folded in
+function transformSavedOrderView(row: SavedOrderViewRow, userId: number): SavedOrderViewEntity {
+  const view = row.view;
+  return {
+    id: view.id,
+    _id: view.id,
+    userId: view.userId,
+    ownerName: row.ownerName || null,
+    name: view.name,
+    query: view.query || {},
+    ...toSort(view),
+    isShared: view.isShared,
+    isOwner: view.userId === userId,
+    pinned: row.pinned ?? false,
+    digestSubscribed: row.digestSubscribed ?? false,
+    count: null,
+    createdAt: view.createdAt.toISOString(),
+    updatedAt: view.updatedAt.toISOString(),
+  };
+}
+
+function selectVisibleViews(db: Database, userId: number) {
+  return db
+    .select({
+      view: savedOrderViews,
+      ownerName: users.name,
+      pinned: savedOrderViewPreferences.pinned,
+      digestSubscribed: savedOrderViewPreferences.digestSubscribed,
+    })
+    .from(savedOrderViews)
+    .innerJoin(users, eq(savedOrderViews.userId, users.id))
+    .leftJoin(
+      savedOrderViewPreferences,
+      and(eq(savedOrderViewPreferences.viewId, savedOrderViews.id), eq(savedOrderViewPreferences.userId, userId))
+    );
+}
+
+function isVisibleTo(userId: number) {
+  return or(eq(savedOrderViews.userId, userId), eq(savedOrderViews.isShared, true));
+}
+
+const SavedOrderView = {
+  /**
+   * Get the user's own views and every shared view, by name
+   */
+  async findVisible(userId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await selectVisibleViews(db, userId)
+        .where(isVisibleTo(userId))
+        .orderBy(asc(sql`lower(${savedOrderViews.name})`), asc(savedOrderViews.id));
+      return result.map(row => transformSavedOrderView(row, userId));
+    }, { operationName: 'SavedOrderView.findVisible' });
+  },
+
+  /**
+   * Get one view if the user owns it or it is shared
+   * @returns The view, or null if it does not exist or is another user's private view
+   */
+  async findVisibleById(id: number, userId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await selectVisibleViews(db, userId)
+        .where(and(eq(savedOrderViews.id, id), isVisibleTo(userId)));
+      return result.length > 0 ? transformSavedOrderView(result[0], userId) : null;
+    }, { operationName: 'SavedOrderView.findVisibleById' });
+  },
+
+  async create(data: SavedOrderViewData, userId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .insert(savedOrderViews)
+        .values({
+          userId,
+          name: data.name,
+          query: data.query,
+          sortKey: data.sortKey || 'createdAt',
+          sortDirection: data.sortDirection || 'desc',
+          isShared: data.isShared ?? false,
+        })
+        .returning({ id: savedOrderViews.id });
+      return SavedOrderView.findVisibleById(result[0].id, userId);
+    }, { operationName: 'SavedOrderView.create' });
+  },
+
+  /**
+   * Update a view's definition; callers check the user may edit it
+   */
+  async update(id: number, data: Partial<SavedOrderViewData>, userId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const updateData: Record<string, unknown> = { updatedAt: new Date() };
+      for (const field of ['name', 'query', 'sortKey', 'sortDirection', 'isShared'] as const) {
+        if (data[field] !== undefined) updateData[field] = data[field];
+      }
+
+      const result = await db
+        .update(savedOrderViews)
+        .set(updateData)
+        .where(eq(savedOrderViews.id, id))
+        .returning({ id: savedOrderViews.id });
+      if (result.length === 0) return null;
+      return SavedOrderView.findVisibleById(id, userId);
+    }, { operationName: 'SavedOrderView.update' });
+  },
+
+  async delete(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .delete(savedOrderViews)
+        .where(eq(savedOrderViews.id, id))
+        .returning({ id: savedOrderViews.id });
+      return result.length > 0;
+    }, { operationName: 'SavedOrderView.delete' });
+  },
+
+  /**
+   * Set the user's pin and digest settings for a view, leaving unspecified settings as they were
+   */
+  async setPreferences(viewId: number, userId: number, preferences: SavedOrderViewPreferences) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const changes: SavedOrderViewPreferences & { updatedAt: Date } = { updatedAt: new Date() };
+      if (preferences.pinned !== undefined) changes.pinned = preferences.pinned;
+      if (preferences.digestSubscribed !== undefined) changes.digestSubscribed = preferences.digestSubscribed;
+
+      await db
+        .insert(savedOrderViewPreferences)
+        .values({ viewId, userId, ...changes })
+        .onConflictDoUpdate({
+          target: [savedOrderViewPreferences.viewId, savedOrderViewPreferences.userId],
+          set: changes,
+        });
+      return SavedOrderView.findVisibleById(viewId, userId);
+    }, { operationName: 'SavedOrderView.setPreferences' });
+  },
+
+  /**
+   * Get every digest subscription with the subscriber's email
+   * A view its owner has stopped sharing drops out of other users' digests.
+   */
+  async findDigestSubscriptions() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({
+          viewId: savedOrderViews.id,
+          name: savedOrderViews.name,
+          query: savedOrderViews.query,
+          sortKey: savedOrderViews.sortKey,
+          sortDirection: savedOrderViews.sortDirection,
+          email: users.email,
+          userName: users.name,
+        })
+        .from(savedOrderViewPreferences)
+        .innerJoin(savedOrderViews, eq(savedOrderViewPreferences.viewId, savedOrderViews.id))
+        .innerJoin(users, eq(savedOrderViewPreferences.userId, users.id))
+        .where(and(
+          eq(savedOrderViewPreferences.digestSubscribed, true),
+          or(eq(savedOrderViews.isShared, true), eq(savedOrderViews.userId, savedOrderViewPreferences.userId))
+        ))
+        .orderBy(asc(users.email), asc(sql`lower(${savedOrderViews.name})`));
+      return result.map(row => ({ ...row, ...toSort(row) }));
+    }, { operationName: 'SavedOrderView.findDigestSubscriptions' });
+  },
+
+  /**
+   * Get the subscribers a day's digest has already been emailed to
+   */
+  async findDigestSends(digestDate: string): Promise<Set<string>> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({ email: savedViewDigestSends.email })
+        .from(savedViewDigestSends)
+        .where(eq(savedViewDigestSends.digestDate, digestDate));
+      return new Set(result.map(row => row.email));
+    }, { operationName: 'SavedOrderView.findDigestSends' });
+  },
+
+  /**
+   * Record that a subscriber has been emailed a day's digest
+   */
+  async recordDigestSend(digestDate: string, email: string) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      await db.insert(savedViewDigestSends).values({ digestDate, email }).onConflictDoNothing();
+    }, { operationName: 'SavedOrderView.recordDigestSend' });
+  },
+};
+
+export default SavedOrderView;
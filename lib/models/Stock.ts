@@ -1,8 +1,97 @@
 // @ts-nocheck
-import { eq, desc, sql, and, lte, inArray } from 'drizzle-orm';
-import { getDatabase } from '@/lib/db/connection';
-import { items, stockTransactions } from '@/lib/db/schema';
+import { eq, desc, sql, and, inArray, isNotNull } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { items, itemDesigns, stockTransactions, stockReservations } from '@/lib/db/schema';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import type { StockTransactionType } from '@/types';
+
+/**
+ * How order creation treats tracked items without enough stock:
+ * - reject: fail the whole order with a 409
+ * - backorder: deduct what is on hand and record the shortfall on the order line
+ * - skip: don't touch stock at all (historical imports)
+ */
+export type StockPolicy = 'reject' | 'backorder' | 'skip';
+
+export interface OrderStockLine {
+  itemId: number;
+  quantity: number;
+  /** Design ordered; its own stock is only checked and moved when it tracks stock */
+  designId?: number | null;
+}
+
+export interface PlannedStockLine extends OrderStockLine {
+  trackStock: boolean;
+  /** The line's design when that design has its own stock, else null */
+  stockDesignId: number | null;
+  /** Units covered by available stock: reserved when the order is placed, deducted when it ships */
+  allocatedQuantity: number;
+  backorderedQuantity: number;
+  costPrice: string | null;
+}
+
+/** What a ledger row points back to */
+export type StockReferenceType = 'order' | 'manual' | 'return' | 'adjustment' | 'purchase_order' | 'stock_take';
+
+/** Stock taken or still missing for each tracked item of an order */
+export interface OrderAllocationResult {
+  allocated: OrderStockLine[];
+  short: Array<OrderStockLine & { name: string }>;
+}
+
+/**
+ * Hours stock stays reserved for an unconfirmed order (STOCK_RESERVATION_HOLD_HOURS, default 48)
+ */
+export function getReservationHoldHours(): number {
+  const parsed = Number.parseFloat(process.env.STOCK_RESERVATION_HOLD_HOURS || '48');
+  return Number.isNaN(parsed) || parsed <= 0 ? 48 : parsed;
+}
+
+/**
+ * When a reservation made now should lapse: never for confirmed orders
+ */
+export function getReservationExpiry(confirmed: boolean): Date | null {
+  return confirmed ? null : new Date(Date.now() + getReservationHoldHours() * 60 * 60 * 1000);
+}
+
+/**
+ * Units held by open orders' reservations that have not lapsed, for the item in the enclosing query
+ */
+const reservedQuantity = sql<number>`(
+  SELECT COALESCE(SUM(r.quantity), 0)::int
+  FROM stock_reservations r
+  WHERE r.item_id = ${items.id} AND (r.expires_at IS NULL OR r.expires_at > NOW())
+)`;
+
+/**
+ * Units held by open orders' reservations for the design in the enclosing query
+ */
+const designReservedQuantity = sql<number>`(
+  SELECT COALESCE(SUM(r.quantity), 0)::int
+  FROM stock_reservations r
+  WHERE r.design_id = ${itemDesigns.id} AND (r.expires_at IS NULL OR r.expires_at > NOW())
+)`;
+
+/**
+ * Units still expected on ordered or partially received purchase orders, and the
+ * earliest date they are expected, for the item in the enclosing query
+ */
+const onOrderQuantity = sql<number>`(
+  SELECT COALESCE(SUM(poi.quantity_ordered - poi.quantity_received), 0)::int
+  FROM purchase_order_items poi
+  JOIN purchase_orders po ON po.id = poi.purchase_order_id
+  WHERE poi.item_id = ${items.id} AND po.status IN ('ordered', 'partially_received')
+)`;
+
+const nextExpectedDate = sql<string | null>`(
+  SELECT MIN(po.expected_date)::text
+  FROM purchase_order_items poi
+  JOIN purchase_orders po ON po.id = poi.purchase_order_id
+  WHERE poi.item_id = ${items.id} AND po.status IN ('ordered', 'partially_received')
+    AND poi.quantity_received < poi.quantity_ordered
+)`;
 
 /**
  * Transform item with stock info for API responses
@@ -11,20 +100,76 @@ function transformItemWithStock(item: any) {
   return {
     id: item.id,
     _id: item.id,
+    itemId: item.id,
     name: item.name,
+    itemName: item.name,
     price: item.price ? Number.parseFloat(item.price) : null,
     imageUrl: item.imageUrl || '',
     stockQuantity: item.stockQuantity ?? 0,
+    reservedQuantity: item.reservedQuantity ?? 0,
+    availableQuantity: Math.max(0, (item.stockQuantity ?? 0) - (item.reservedQuantity ?? 0)),
     lowStockThreshold: item.lowStockThreshold ?? 5,
     trackStock: item.trackStock ?? false,
     isLowStock: item.trackStock && item.stockQuantity <= item.lowStockThreshold,
     costPrice: item.costPrice ? Number.parseFloat(item.costPrice) : null,
     supplierName: item.supplierName || null,
     supplierSku: item.supplierSku || null,
+    onOrderQuantity: item.onOrderQuantity ?? 0,
+    nextExpectedDate: item.nextExpectedDate ?? null,
     createdAt: item.createdAt,
   };
 }
 
+interface DesignStockRow {
+  id: number;
+  itemId: number;
+  itemName: string;
+  designName: string;
+  imageUrl: string;
+  stockQuantity: number | null;
+  reservedQuantity: number;
+  lowStockThreshold: number | null;
+  itemLowStockThreshold: number;
+}
+
+/**
+ * Transform a design's stock for API responses
+ * Designs without their own stock report null quantities and are never low.
+ */
+function transformDesignStock(design: DesignStockRow) {
+  const trackStock = design.stockQuantity !== null && design.stockQuantity !== undefined;
+  const lowStockThreshold = design.lowStockThreshold ?? design.itemLowStockThreshold ?? 5;
+  return {
+    designId: design.id,
+    itemId: design.itemId,
+    itemName: design.itemName,
+    designName: design.designName,
+    imageUrl: design.imageUrl || '',
+    trackStock,
+    stockQuantity: trackStock ? design.stockQuantity : null,
+    reservedQuantity: trackStock ? design.reservedQuantity ?? 0 : 0,
+    availableQuantity: trackStock ? Math.max(0, design.stockQuantity - (design.reservedQuantity ?? 0)) : null,
+    lowStockThreshold: design.lowStockThreshold ?? null,
+    itemLowStockThreshold: design.itemLowStockThreshold ?? 5,
+    isLowStock: trackStock && design.stockQuantity <= lowStockThreshold,
+  };
+}
+
+/**
+ * Columns for transformDesignStock; the query must join items
+ */
+const designStockColumns = {
+  id: itemDesigns.id,
+  itemId: itemDesigns.itemId,
+  itemName: items.name,
+  designName: itemDesigns.designName,
+  imageUrl: itemDesigns.imageUrl,
+  stockQuantity: itemDesigns.stockQuantity,
+  reservedQuantity: designReservedQuantity,
+  lowStockThreshold: itemDesigns.lowStockThreshold,
+  itemLowStockThreshold: items.lowStockThreshold,
+};
+
 /**
  * Transform stock transaction for API responses
  */
@@ -33,6 +178,7 @@ function transformTransaction(transaction: any) {
     id: transaction.id,
     _id: transaction.id,
     itemId: transaction.itemId,
+    designId: transaction.designId || null,
     transactionType: transaction.transactionType,
     quantity: transaction.quantity,
     previousStock: transaction.previousStock,
@@ -46,6 +192,162 @@ function transformTransaction(transaction: any) {
   };
 }
 
+/**
+ * Build the statements that move an item's stock and record it in the ledger.
+ * Meant to run inside db.batch(); the updates are relative, the ledger row reads
+ * the post-update stock, and the stock_non_negative checks abort the batch if
+ * stock would go negative. A design moves with its item only while it tracks
+ * its own stock.
+ * @param guard - Optional SQL condition every statement requires, so a batch can
+ *   make its stock movements depend on an earlier statement in the same batch
+ */
+function buildMovementStatements(
+  db: Database,
+  itemId: number,
+  quantity: number,
+  transactionType: StockTransactionType,
+  reference: { type?: StockReferenceType | null; id?: number | null; notes?: string | null },
+  user: { id?: number | null; email?: string | null } = {},
+  designId: number | null = null,
+  guard = sql`TRUE`
+) {
+  const designStatements = designId
+    ? [db
+      .update(itemDesigns)
+      .set({ stockQuantity: sql`${itemDesigns.stockQuantity} + ${quantity}` })
+      .where(sql`${itemDesigns.id} = ${designId} AND ${itemDesigns.itemId} = ${itemId}
+        AND ${itemDesigns.stockQuantity} IS NOT NULL AND ${guard}`)]
+    : [];
+
+  return [
+    ...designStatements,
+    db
+      .update(items)
+      .set({ stockQuantity: sql`${items.stockQuantity} + ${quantity}` })
+      .where(sql`${items.id} = ${itemId} AND ${guard}`),
+    db.execute(sql`
+      INSERT INTO stock_transactions
+        (item_id, design_id, transaction_type, quantity, previous_stock, new_stock, reference_type, reference_id, notes, user_id, user_email)
+      SELECT i.id, d.id, ${transactionType}::stock_transaction_type, ${quantity}, i.stock_quantity - ${quantity}, i.stock_quantity,
+        ${reference.type ?? null}::stock_reference_type, ${reference.id ?? null}, ${reference.notes || null},
+        ${user.id || null}, ${user.email || null}
+      FROM items i
+      LEFT JOIN item_designs d ON d.id = ${designId} AND d.item_id = i.id AND d.stock_quantity IS NOT NULL
+      WHERE i.id = ${itemId} AND ${guard}
+      RETURNING id, item_id AS "itemId", design_id AS "designId", transaction_type AS "transactionType", quantity,
+        previous_stock AS "previousStock", new_stock AS "newStock", reference_type AS "referenceType",
+        reference_id AS "referenceId", notes, user_id AS "userId", user_email AS "userEmail", created_at AS "createdAt"
+    `),
+  ];
+}
+
+/**
+ * Build the statements that deduct stock for a single order line
+ * The stock_non_negative checks abort the batch if stock moved between planning
+ * and commit. A design with its own stock is deducted alongside the item.
+ */
+function buildDeductionStatements(
+  db: Database,
+  orderId: number,
+  itemId: number,
+  quantity: number,
+  userId?: number,
+  userEmail?: string,
+  designId: number | null = null
+) {
+  return buildMovementStatements(
+    db,
+    itemId,
+    -quantity,
+    'order_placed',
+    { type: 'order', id: orderId, notes: `Order #${orderId}` },
+    { id: userId, email: userEmail },
+    designId
+  );
+}
+
+/**
+ * Translate a check-constraint failure from a stock batch into a 409
+ */
+function toStockConflictError(error: unknown, message = 'Stock changed while the order was being placed. Please try again.') {
+  const { code, message: detail } = (error ?? {}) as { code?: string; message?: string };
+  if (code === '23514' || detail?.includes('stock_non_negative')) {
+    return new ApiError(HTTP_STATUS.CONFLICT, message);
+  }
+  return error;
+}
+
+/**
+ * Work out how much of each tracked item an order can take from stock
+ * An order needs its line quantities less what the ledger shows it already
+ * holds (orders placed before reservations were deducted straight away), and
+ * can take whatever is on hand that other orders have not reserved. Lines for a
+ * design with its own stock are also limited by that design's unreserved stock.
+ */
+async function planOrderAllocation(db: Database, orderId: number): Promise<OrderAllocationResult> {
+  const result = await db.execute(sql`
+    SELECT
+      oi.item_id AS "itemId",
+      d.id AS "designId",
+      i.name,
+      d.design_name AS "designName",
+      SUM(oi.quantity)::int AS needed,
+      i.stock_quantity AS "stockQuantity",
+      d.stock_quantity AS "designStockQuantity",
+      GREATEST(0, COALESCE((
+        SELECT -SUM(st.quantity) FROM stock_transactions st
+        WHERE st.item_id = oi.item_id AND st.reference_type IN ('order', 'return') AND st.reference_id = ${orderId}
+      ), 0))::int AS deducted,
+      COALESCE((
+        SELECT SUM(r.quantity) FROM stock_reservations r
+        WHERE r.item_id = oi.item_id AND r.order_id <> ${orderId}
+          AND (r.expires_at IS NULL OR r.expires_at > NOW())
+      ), 0)::int AS "reservedByOthers",
+      COALESCE((
+        SELECT SUM(r.quantity) FROM stock_reservations r
+        WHERE r.design_id = d.id AND r.order_id <> ${orderId}
+          AND (r.expires_at IS NULL OR r.expires_at > NOW())
+      ), 0)::int AS "designReservedByOthers"
+    FROM order_items oi
+    JOIN items i ON i.id = oi.item_id
+    LEFT JOIN item_designs d ON d.id = oi.design_id AND d.item_id = oi.item_id AND d.stock_quantity IS NOT NULL
+    WHERE oi.order_id = ${orderId} AND i.track_stock = TRUE
+    GROUP BY oi.item_id, d.id, i.name, d.design_name, i.stock_quantity, d.stock_quantity
+    ORDER BY oi.item_id, d.id NULLS LAST
+  `);
+
+  // The ledger holds deductions per item; they cover the item's lines in turn
+  const deductedLeft = new Map<number, number>();
+  const itemAvailable = new Map<number, number>();
+  const allocation: OrderAllocationResult = { allocated: [], short: [] };
+
+  for (const row of result.rows) {
+    if (!itemAvailable.has(row.itemId)) {
+      deductedLeft.set(row.itemId, row.deducted);
+      itemAvailable.set(row.itemId, Math.max(0, row.stockQuantity - row.reservedByOthers));
+    }
+    const covered = Math.min(row.needed, deductedLeft.get(row.itemId));
+    deductedLeft.set(row.itemId, deductedLeft.get(row.itemId) - covered);
+    const needed = row.needed - covered;
+
+    let available = itemAvailable.get(row.itemId);
+    if (row.designId) available = Math.min(available, Math.max(0, row.designStockQuantity - row.designReservedByOthers));
+    const quantity = Math.min(needed, available);
+    itemAvailable.set(row.itemId, itemAvailable.get(row.itemId) - quantity);
+
+    if (quantity > 0) allocation.allocated.push({ itemId: row.itemId, designId: row.designId, quantity });
+    if (quantity < needed) {
+      allocation.short.push({
+        itemId: row.itemId,
+        designId: row.designId,
+        name: row.designName ? `${row.name} (${row.designName})` : row.name,
+        quantity: needed - quantity,
+      });
+    }
+  }
+  return allocation;
+}
+
 const Stock = {
   /**
    * Get stock info for a specific item
@@ -65,18 +367,29 @@ const Stock = {
           price: items.price,
           imageUrl: items.imageUrl,
           stockQuantity: items.stockQuantity,
+          reservedQuantity,
           lowStockThreshold: items.lowStockThreshold,
           trackStock: items.trackStock,
           costPrice: items.costPrice,
           supplierName: items.supplierName,
           supplierSku: items.supplierSku,
+          onOrderQuantity,
+          nextExpectedDate,
           createdAt: items.createdAt,
         })
         .from(items)
         .where(eq(items.id, numericId));
 
       if (result.length === 0) return null;
-      return transformItemWithStock(result[0]);
+
+      const designs = await db
+        .select(designStockColumns)
+        .from(itemDesigns)
+        .innerJoin(items, eq(items.id, itemDesigns.itemId))
+        .where(eq(itemDesigns.itemId, numericId))
+        .orderBy(desc(itemDesigns.isPrimary), itemDesigns.displayOrder);
+
+      return { ...transformItemWithStock(result[0]), designs: designs.map(transformDesignStock) };
     }, { operationName: 'Stock.getItemStock' });
   },
 
@@ -95,11 +408,14 @@ const Stock = {
           price: items.price,
           imageUrl: items.imageUrl,
           stockQuantity: items.stockQuantity,
+          reservedQuantity,
           lowStockThreshold: items.lowStockThreshold,
           trackStock: items.trackStock,
           costPrice: items.costPrice,
           supplierName: items.supplierName,
           supplierSku: items.supplierSku,
+          onOrderQuantity,
+          nextExpectedDate,
           createdAt: items.createdAt,
         })
         .from(items)
@@ -116,7 +432,195 @@ const Stock = {
   },
 
   /**
-   * Adjust stock for an item - creates transaction and updates item stockQuantity
+   * Get designs with their own stock at or below their threshold (the item's when unset)
+   * Only designs of items that track stock are included.
+   * @returns Array of design stock info with the item name
+   */
+  async getLowStockDesigns() {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const result = await db
+        .select(designStockColumns)
+        .from(itemDesigns)
+        .innerJoin(items, eq(items.id, itemDesigns.itemId))
+        .where(
+          and(
+            eq(items.trackStock, true),
+            isNotNull(itemDesigns.stockQuantity),
+            sql`${itemDesigns.stockQuantity} <= COALESCE(${itemDesigns.lowStockThreshold}, ${items.lowStockThreshold})`
+          )
+        )
+        .orderBy(itemDesigns.stockQuantity);
+
+      return result.map(transformDesignStock);
+    }, { operationName: 'Stock.getLowStockDesigns' });
+  },
+
+  /**
+   * Get tracked items and designs that a stock removal has just taken to or below their threshold
+   * An item counts when its current stock is low but was above the threshold before
+   * the removal, i.e. stockQuantity <= lowStockThreshold < stockQuantity + removed.
+   * Designs with their own stock are checked the same way against their threshold.
+   * @param changes - Array of { itemId, quantity, designId? } with the units just removed
+   * @returns Array of { id, name, stockQuantity, lowStockThreshold } for items that crossed,
+   *   plus designId and designName for designs that crossed
+   */
+  async findLowStockCrossings(changes: OrderStockLine[]) {
+    const removedByItem = new Map<number, number>();
+    const removedByDesign = new Map<number, number>();
+    for (const change of changes) {
+      const itemId = Number(change.itemId);
+      if (!itemId || !(change.quantity > 0)) continue;
+      removedByItem.set(itemId, (removedByItem.get(itemId) || 0) + change.quantity);
+      const designId = Number(change.designId);
+      if (designId) removedByDesign.set(designId, (removedByDesign.get(designId) || 0) + change.quantity);
+    }
+    if (removedByItem.size === 0) return [];
+
+    const designCrossings = removedByDesign.size === 0 ? [] : (await executeWithRetry(async () => {
+      const db = getDatabase();
+      return db
+        .select(designStockColumns)
+        .from(itemDesigns)
+        .innerJoin(items, eq(items.id, itemDesigns.itemId))
+        .where(and(
+          inArray(itemDesigns.id, [...removedByDesign.keys()]),
+          eq(items.trackStock, true),
+          isNotNull(itemDesigns.stockQuantity)
+        ));
+    }, { operationName: 'Stock.findLowStockCrossings' }))
+      .map(design => ({ ...design, threshold: design.lowStockThreshold ?? design.itemLowStockThreshold }))
+      .filter(design => design.stockQuantity <= design.threshold
+        && design.stockQuantity + removedByDesign.get(design.id) > design.threshold)
+      .map(design => ({
+        id: design.itemId,
+        name: design.itemName,
+        designId: design.id,
+        designName: design.designName,
+        stockQuantity: design.stockQuantity,
+        lowStockThreshold: design.threshold,
+      }));
+
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const result = await db
+        .select({
+          id: items.id,
+          name: items.name,
+          stockQuantity: items.stockQuantity,
+          lowStockThreshold: items.lowStockThreshold,
+        })
+        .from(items)
+        .where(and(
+          inArray(items.id, [...removedByItem.keys()]),
+          eq(items.trackStock, true),
+          sql`${items.stockQuantity} <= ${items.lowStockThreshold}`
+        ));
+
+      const itemCrossings = result
+        .filter(item => item.stockQuantity + removedByItem.get(item.id) > item.lowStockThreshold)
+        .map(item => ({
+          id: item.id,
+          name: item.name,
+          stockQuantity: item.stockQuantity,
+          lowStockThreshold: item.lowStockThreshold,
+        }));
+      return [...itemCrossings, ...designCrossings];
+    }, { operationName: 'Stock.findLowStockCrossings' });
+  },
+
+  /**
+   * Get net sales over two trailing windows for every tracked item
+   * Sales are units on order lines of orders placed in the window that were not
+   * cancelled, less units returned to stock in the window. Each item also carries
+   * the lead time of its supplier: the one on its latest purchase order, else the
+   * supplier named on the item.
+   * @returns Array of { id, name, stockQuantity, reservedQuantity, lowStockThreshold, onOrderQuantity, shortWindowUnits,
+   *   longWindowUnits, daysTracked, leadTimeDays, leadTimeSupplierName }
+   */
+  async getSalesHistory(shortWindowDays: number, longWindowDays: number) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const netUnits = (days: number) => sql`(
+        SELECT COALESCE(SUM(oi.quantity), 0)::int
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.item_id = i.id
+          AND o.status <> 'cancelled' AND o.confirmation_status <> 'cancelled'
+          AND o.order_date >= NOW() - make_interval(days => ${days})
+      ) - (
+        SELECT COALESCE(SUM(st.quantity), 0)::int
+        FROM stock_transactions st
+        WHERE st.item_id = i.id AND st.transaction_type = 'return'
+          AND st.created_at >= NOW() - make_interval(days => ${days})
+      )`;
+
+      const result = await db.execute(sql`
+        SELECT
+          i.id,
+          i.name,
+          i.stock_quantity AS "stockQuantity",
+          (
+            SELECT COALESCE(SUM(r.quantity), 0)::int
+            FROM stock_reservations r
+            WHERE r.item_id = i.id AND (r.expires_at IS NULL OR r.expires_at > NOW())
+          ) AS "reservedQuantity",
+          i.low_stock_threshold AS "lowStockThreshold",
+          (
+            SELECT COALESCE(SUM(poi.quantity_ordered - poi.quantity_received), 0)::int
+            FROM purchase_order_items poi
+            JOIN purchase_orders po ON po.id = poi.purchase_order_id
+            WHERE poi.item_id = i.id AND po.status IN ('ordered', 'partially_received')
+          ) AS "onOrderQuantity",
+          ${netUnits(shortWindowDays)} AS "shortWindowUnits",
+          ${netUnits(longWindowDays)} AS "longWindowUnits",
+          GREATEST(1, CEIL(EXTRACT(EPOCH FROM NOW() - i.created_at) / 86400))::int AS "daysTracked",
+          supplier.lead_time_days AS "leadTimeDays",
+          supplier.name AS "leadTimeSupplierName"
+        FROM items i
+        LEFT JOIN LATERAL (
+          SELECT s.name, s.lead_time_days
+          FROM suppliers s
+          LEFT JOIN LATERAL (
+            SELECT MAX(po.created_at) AS last_ordered_at
+            FROM purchase_orders po
+            JOIN purchase_order_items poi ON poi.purchase_order_id = po.id
+            WHERE po.supplier_id = s.id AND poi.item_id = i.id AND po.status <> 'cancelled'
+          ) recent ON TRUE
+          WHERE s.lead_time_days IS NOT NULL
+            AND (recent.last_ordered_at IS NOT NULL OR LOWER(s.name) = LOWER(i.supplier_name))
+          ORDER BY recent.last_ordered_at DESC NULLS LAST
+          LIMIT 1
+        ) supplier ON TRUE
+        WHERE i.track_stock = TRUE AND i.deleted_at IS NULL
+        ORDER BY i.name
+      `);
+
+      return result.rows;
+    }, { operationName: 'Stock.getSalesHistory' });
+  },
+
+  /**
+   * Set the low stock threshold of several items in one batch
+   * @param thresholds - Array of { itemId, lowStockThreshold }
+   */
+  async setLowStockThresholds(thresholds: Array<{ itemId: number; lowStockThreshold: number }>) {
+    if (thresholds.length === 0) return;
+
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      await db.batch(thresholds.map(threshold =>
+        db
+          .update(items)
+          .set({ lowStockThreshold: threshold.lowStockThreshold, updatedAt: new Date() })
+          .where(eq(items.id, threshold.itemId))
+      ));
+    }, { operationName: 'Stock.setLowStockThresholds' });
+  },
+
+  /**
+   * Adjust stock for an item - records the transaction and moves stockQuantity in one batch
    * @param itemId - The item ID
    * @param quantity - The quantity to adjust (positive or negative)
    * @param transactionType - Type of transaction
@@ -125,17 +629,19 @@ const Stock = {
    * @param userEmail - Optional user email
    * @param referenceType - Optional reference type (e.g., 'order')
    * @param referenceId - Optional reference ID
+   * @param designId - Optional design with its own stock; it moves by the same amount as the item
    * @returns The created transaction
    */
   async adjustStock(
     itemId: number,
     quantity: number,
-    transactionType: 'order_placed' | 'order_cancelled' | 'adjustment' | 'restock' | 'return',
+    transactionType: StockTransactionType,
     notes?: string,
     userId?: number,
     userEmail?: string,
-    referenceType?: string,
-    referenceId?: number
+    referenceType?: StockReferenceType,
+    referenceId?: number,
+    designId?: number
   ) {
     return executeWithRetry(async () => {
       const db = getDatabase();
@@ -144,9 +650,9 @@ const Stock = {
         throw new Error('Invalid item ID');
       }
 
-      // Get current stock
+      // Read current stock for clear errors; the batch below is what enforces them
       const itemResult = await db
-        .select({ stockQuantity: items.stockQuantity, trackStock: items.trackStock })
+        .select({ stockQuantity: items.stockQuantity })
         .from(items)
         .where(eq(items.id, numericId));
 
@@ -155,37 +661,50 @@ const Stock = {
       }
 
       const currentStock = itemResult[0].stockQuantity ?? 0;
-      const newStock = currentStock + quantity;
-
-      // Don't allow negative stock
-      if (newStock < 0) {
+      if (currentStock + quantity < 0) {
         throw new Error(`Insufficient stock. Current: ${currentStock}, Requested adjustment: ${quantity}`);
       }
 
-      // Create transaction record
-      const transactionResult = await db
-        .insert(stockTransactions)
-        .values({
-          itemId: numericId,
-          transactionType,
-          quantity,
-          previousStock: currentStock,
-          newStock,
-          notes: notes?.trim() || null,
-          userId: userId || null,
-          userEmail: userEmail || null,
-          referenceType: referenceType || null,
-          referenceId: referenceId || null,
-        })
-        .returning();
+      if (designId) {
+        const designResult = await db
+          .select({ designName: itemDesigns.designName, stockQuantity: itemDesigns.stockQuantity })
+          .from(itemDesigns)
+          .where(and(eq(itemDesigns.id, designId), eq(itemDesigns.itemId, numericId)));
 
-      // Update item stock quantity
-      await db
-        .update(items)
-        .set({ stockQuantity: newStock })
-        .where(eq(items.id, numericId));
+        if (designResult.length === 0) {
+          throw new Error('Design not found');
+        }
+        if (designResult[0].stockQuantity === null) {
+          throw new Error(`Design ${designResult[0].designName} does not track its own stock`);
+        }
+        if (designResult[0].stockQuantity + quantity < 0) {
+          throw new Error(
+            `Insufficient stock for ${designResult[0].designName}. Current: ${designResult[0].stockQuantity}, Requested adjustment: ${quantity}`
+          );
+        }
+      }
 
-      return transformTransaction(transactionResult[0]);
+      // Relative updates and the ledger row commit together; the stock_non_negative
+      // checks catch stock that moved since it was read
+      let results;
+      try {
+        results = await db.batch(buildMovementStatements(
+          db,
+          numericId,
+          quantity,
+          transactionType,
+          { type: referenceType, id: referenceId, notes: notes?.trim() },
+          { id: userId, email: userEmail },
+          designId || null
+        ));
+      } catch (error: any) {
+        if (error?.code === '23514' || error?.message?.includes('stock_non_negative')) {
+          throw new Error(`Insufficient stock. Stock changed while adjusting by ${quantity}; please refresh and try again.`);
+        }
+        throw error;
+      }
+
+      return transformTransaction(results[results.length - 1].rows[0]);
     }, { operationName: 'Stock.adjustStock' });
   },
 
@@ -241,20 +760,22 @@ const Stock = {
 
   /**
    * Bulk adjust stock for multiple items
-   * @param adjustments - Array of { itemId, quantity, notes }
+   * @param adjustments - Array of { itemId, quantity, notes, designId? }; a design moves with its item
    * @param transactionType - Type of transaction for all adjustments
    * @param userId - Optional user ID
    * @param userEmail - Optional user email
+   * @param reference - Optional reference recorded on every transaction (e.g. a purchase order)
    * @returns Results with success and failure counts
    */
   async bulkAdjust(
-    adjustments: Array<{ itemId: number; quantity: number; notes?: string }>,
+    adjustments: Array<{ itemId: number; quantity: number; notes?: string; designId?: number | null }>,
     transactionType: 'adjustment' | 'restock' = 'adjustment',
     userId?: number,
-    userEmail?: string
+    userEmail?: string,
+    reference?: { type: 'manual' | 'adjustment' | 'purchase_order' | 'stock_take'; id?: number }
   ) {
     return executeWithRetry(async () => {
-      const results: Array<{ itemId: number; success: boolean; error?: string; transaction?: any }> = [];
+      const results: Array<{ itemId: number; designId?: number | null; success: boolean; error?: string; transaction?: any }> = [];
 
       for (const adj of adjustments) {
         try {
@@ -264,11 +785,14 @@ const Stock = {
             transactionType,
             adj.notes,
             userId,
-            userEmail
+            userEmail,
+            reference?.type,
+            reference?.id,
+            adj.designId ?? undefined
           );
-          results.push({ itemId: adj.itemId, success: true, transaction });
+          results.push({ itemId: adj.itemId, designId: adj.designId ?? null, success: true, transaction });
         } catch (error: any) {
-          results.push({ itemId: adj.itemId, success: false, error: error.message });
+          results.push({ itemId: adj.itemId, designId: adj.designId ?? null, success: false, error: error.message });
         }
       }
 
@@ -284,8 +808,200 @@ const Stock = {
   },
 
   /**
-   * Deduct stock when an order is placed
-   * Only deducts for items that have trackStock = true
+   * Build batch statements that post a set of adjustments, for a batch that also
+   * writes what they belong to (a stock take approval, a purchase order receipt)
+   * The whole batch fails if any adjustment would take stock below zero.
+   * @param adjustments - Array of { itemId, quantity, notes, designId? }; a design moves with its item
+   * @param reference - Recorded on every transaction
+   * @param guard - Condition that holds only if the owning update in the same batch took effect
+   */
+  buildBulkAdjustStatements(
+    db: Database,
+    adjustments: Array<{ itemId: number; quantity: number; notes?: string; designId?: number | null }>,
+    transactionType: 'adjustment' | 'restock',
+    user: { id?: number | null; email?: string | null },
+    reference: { type: StockReferenceType; id: number },
+    guard = sql`TRUE`
+  ) {
+    return adjustments
+      .filter(adj => adj.quantity !== 0)
+      .flatMap(adj => buildMovementStatements(
+        db,
+        adj.itemId,
+        adj.quantity,
+        transactionType,
+        { type: reference.type, id: reference.id, notes: adj.notes?.trim() },
+        user,
+        adj.designId ?? null,
+        guard
+      ));
+  },
+
+  /**
+   * Work out how much stock each order line will take, without writing anything.
+   * Lines for the same item are checked against stock together, and lines for a
+   * design with its own stock against that design's stock as well.
+   * @param orderItems - Array of { itemId, quantity, designId? }
+   * @param policy - What to do when a tracked item is short
+   * @returns One planned line per input line, including the current costPrice snapshot
+   * @throws ApiError 409 when policy is 'reject' and any tracked item is short
+   */
+  async planOrderDeduction(
+    orderItems: OrderStockLine[],
+    policy: StockPolicy = 'reject'
+  ): Promise<PlannedStockLine[]> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const itemIds = [...new Set(orderItems.map(i => Number(i.itemId)))];
+      if (itemIds.length === 0) return [];
+
+      const rows = await db
+        .select({
+          id: items.id,
+          name: items.name,
+          stockQuantity: items.stockQuantity,
+          reservedQuantity,
+          trackStock: items.trackStock,
+          costPrice: items.costPrice,
+        })
+        .from(items)
+        .where(inArray(items.id, itemIds));
+
+      const designIds = [...new Set(orderItems.map(i => Number(i.designId)).filter(Boolean))];
+      const designRows = designIds.length === 0 ? [] : await db
+        .select({
+          id: itemDesigns.id,
+          itemId: itemDesigns.itemId,
+          designName: itemDesigns.designName,
+          stockQuantity: itemDesigns.stockQuantity,
+          reservedQuantity: designReservedQuantity,
+        })
+        .from(itemDesigns)
+        .where(and(inArray(itemDesigns.id, designIds), isNotNull(itemDesigns.stockQuantity)));
+
+      const itemsById = new Map(rows.map(row => [row.id, row]));
+      const designsById = new Map(designRows.map(row => [row.id, row]));
+      // Stock other orders have reserved is not available to this one
+      const remaining = new Map(rows.map(row => [row.id, Math.max(0, (row.stockQuantity ?? 0) - (row.reservedQuantity ?? 0))]));
+      const designRemaining = new Map(designRows.map(row => [row.id, Math.max(0, row.stockQuantity - row.reservedQuantity)]));
+      const shortages: string[] = [];
+
+      const planned = orderItems.map(line => {
+        const itemId = Number(line.itemId);
+        const item = itemsById.get(itemId);
+        if (!item) {
+          throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Item with id ${itemId} not found`);
+        }
+
+        const design = designsById.get(Number(line.designId));
+        const stockDesignId = design?.itemId === itemId ? design.id : null;
+
+        if (!item.trackStock || policy === 'skip') {
+          return {
+            itemId,
+            designId: line.designId ?? null,
+            quantity: line.quantity,
+            trackStock: item.trackStock,
+            stockDesignId: null,
+            allocatedQuantity: 0,
+            backorderedQuantity: 0,
+            costPrice: item.costPrice ?? null,
+          };
+        }
+
+        const itemAvailable = remaining.get(itemId) ?? 0;
+        const available = stockDesignId ? Math.min(itemAvailable, designRemaining.get(stockDesignId)) : itemAvailable;
+        const allocatedQuantity = Math.min(available, line.quantity);
+        const backorderedQuantity = line.quantity - allocatedQuantity;
+        remaining.set(itemId, itemAvailable - allocatedQuantity);
+        if (stockDesignId) designRemaining.set(stockDesignId, designRemaining.get(stockDesignId) - allocatedQuantity);
+
+        if (backorderedQuantity > 0) {
+          const label = stockDesignId ? `${item.name} – ${design.designName}` : item.name;
+          shortages.push(`${label} (requested ${line.quantity}, available ${available})`);
+        }
+
+        return {
+          itemId,
+          designId: line.designId ?? null,
+          quantity: line.quantity,
+          trackStock: true,
+          stockDesignId,
+          allocatedQuantity,
+          backorderedQuantity,
+          costPrice: item.costPrice ?? null,
+        };
+      });
+
+      if (shortages.length > 0 && policy === 'reject') {
+        throw new ApiError(HTTP_STATUS.CONFLICT, `Insufficient stock: ${shortages.join(', ')}`);
+      }
+
+      return planned;
+    }, { operationName: 'Stock.planOrderDeduction' });
+  },
+
+  /**
+   * Build batch statements for a planned deduction.
+   * Used by Order.create so the order, its items and the stock ledger commit together.
+   * @param db - Database handle the batch will run on
+   * @param orderId - The order ID (already allocated)
+   * @param plan - Output of planOrderDeduction
+   * @param userId - Optional user ID
+   * @param userEmail - Optional user email
+   */
+  buildOrderDeductionStatements(
+    db: Database,
+    orderId: number,
+    plan: PlannedStockLine[],
+    userId?: number,
+    userEmail?: string
+  ) {
+    return plan
+      .filter(line => line.allocatedQuantity > 0)
+      .flatMap(line => buildDeductionStatements(
+        db, orderId, line.itemId, line.allocatedQuantity, userId, userEmail, line.stockDesignId
+      ));
+  },
+
+  /**
+   * Build the batch statement that reserves a planned order's stock
+   * Used by Order.create in place of the deduction for orders that have not shipped.
+   * @param db - Database handle the batch will run on
+   * @param orderId - The order ID (already allocated)
+   * @param plan - Output of planOrderDeduction
+   * @param expiresAt - When the reservation lapses; null for confirmed orders
+   */
+  buildReservationStatements(db: Database, orderId: number, plan: PlannedStockLine[], expiresAt: Date | null) {
+    const byLine = new Map<string, { itemId: number; designId: number | null; quantity: number }>();
+    for (const line of plan) {
+      if (line.allocatedQuantity <= 0) continue;
+      const key = `${line.itemId}:${line.stockDesignId ?? ''}`;
+      const existing = byLine.get(key);
+      if (existing) existing.quantity += line.allocatedQuantity;
+      else byLine.set(key, { itemId: line.itemId, designId: line.stockDesignId, quantity: line.allocatedQuantity });
+    }
+    if (byLine.size === 0) return [];
+
+    return [
+      db.insert(stockReservations).values(
+        [...byLine.values()].map(line => ({ orderId, ...line, expiresAt }))
+      ),
+    ];
+  },
+
+  /**
+   * Map a failed stock batch to a 409 when stock changed underneath it
+   * @param message - Message for the 409, when the batch did not place an order
+   */
+  toConflictError(error: unknown, message?: string) {
+    return toStockConflictError(error, message);
+  },
+
+  /**
+   * Deduct stock for an existing order
+   * Only deducts for items that have trackStock = true. All deductions are
+   * applied atomically; nothing is written if any tracked item is short.
    * @param orderId - The order ID
    * @param orderItems - Array of { itemId, quantity }
    * @param userId - Optional user ID
@@ -294,57 +1010,37 @@ const Stock = {
    */
   async deductForOrder(
     orderId: number,
-    orderItems: Array<{ itemId: number; quantity: number }>,
+    orderItems: OrderStockLine[],
     userId?: number,
     userEmail?: string
   ) {
+    const plan = await this.planOrderDeduction(orderItems, 'reject');
+
     return executeWithRetry(async () => {
       const db = getDatabase();
-      const results: Array<{ itemId: number; success: boolean; error?: string; deducted: boolean }> = [];
+      const statements = this.buildOrderDeductionStatements(db, orderId, plan, userId, userEmail);
 
-      for (const item of orderItems) {
+      if (statements.length > 0) {
         try {
-          // Check if item tracks stock
-          const itemResult = await db
-            .select({ trackStock: items.trackStock })
-            .from(items)
-            .where(eq(items.id, item.itemId));
-
-          if (itemResult.length === 0) {
-            results.push({ itemId: item.itemId, success: false, error: 'Item not found', deducted: false });
-            continue;
-          }
-
-          if (!itemResult[0].trackStock) {
-            // Item doesn't track stock, skip
-            results.push({ itemId: item.itemId, success: true, deducted: false });
-            continue;
-          }
-
-          // Deduct stock (negative quantity)
-          await this.adjustStock(
-            item.itemId,
-            -item.quantity,
-            'order_placed',
-            `Order #${orderId}`,
-            userId,
-            userEmail,
-            'order',
-            orderId
-          );
-          results.push({ itemId: item.itemId, success: true, deducted: true });
-        } catch (error: any) {
-          results.push({ itemId: item.itemId, success: false, error: error.message, deducted: false });
+          await db.batch(statements);
+        } catch (error) {
+          throw toStockConflictError(error);
         }
       }
 
+      const results = plan.map(line => ({
+        itemId: line.itemId,
+        success: true,
+        deducted: line.allocatedQuantity > 0,
+      }));
+
       return {
         orderId,
         results,
         summary: {
           total: orderItems.length,
-          successful: results.filter(r => r.success).length,
-          failed: results.filter(r => !r.success).length,
+          successful: results.length,
+          failed: 0,
           deducted: results.filter(r => r.deducted).length,
         },
       };
@@ -352,20 +1048,194 @@ const Stock = {
   },
 
   /**
-   * Restore stock when an order is cancelled
-   * Only restores for items that have trackStock = true
+   * Reserve an order's stock again, replacing its current reservations
+   * Used when an order is confirmed (expiresAt null) or its lines change. Units
+   * another order has taken in the meantime stay short until stock comes in.
    * @param orderId - The order ID
-   * @param orderItems - Array of { itemId, quantity }
+   * @param expiresAt - When the reservation lapses; null to hold it until shipping
+   */
+  async reserveForOrder(orderId: number, expiresAt: Date | null): Promise<OrderAllocationResult> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const allocation = await planOrderAllocation(db, orderId);
+
+      const statements = [db.delete(stockReservations).where(eq(stockReservations.orderId, orderId))];
+      if (allocation.allocated.length > 0) {
+        statements.push(db.insert(stockReservations).values(
+          allocation.allocated.map(line => ({
+            orderId,
+            itemId: line.itemId,
+            designId: line.designId ?? null,
+            quantity: line.quantity,
+            expiresAt,
+          }))
+        ));
+      }
+      await db.batch(statements);
+
+      return allocation;
+    }, { operationName: 'Stock.reserveForOrder' });
+  },
+
+  /**
+   * Work out what an order takes from stock when it ships
+   * Covers what the order still needs, taking stock that came in after the order
+   * was placed if it is not reserved for another order. Plan before the order is
+   * marked shipped and write the result with buildFulfilmentStatements in the
+   * same batch as the status change.
+   * @param orderId - The order ID
+   */
+  async planFulfilment(orderId: number): Promise<OrderAllocationResult> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      return planOrderAllocation(db, orderId);
+    }, { operationName: 'Stock.planFulfilment' });
+  },
+
+  /**
+   * Build the batch statements that turn an order's reservations into order_placed deductions
+   * Deducts the planned units, drops the order's reservations and records the units
+   * that were short on the order lines as backordered. The stock_non_negative checks
+   * fail the batch if stock moved since planning.
+   * @param db - Database handle the batch will run on
+   * @param orderId - The order ID
+   * @param allocation - Output of planFulfilment
+   * @param userId - Optional user ID
+   * @param userEmail - Optional user email
+   */
+  buildFulfilmentStatements(
+    db: Database,
+    orderId: number,
+    allocation: OrderAllocationResult,
+    userId?: number,
+    userEmail?: string
+  ) {
+    // Lines are matched to the plan the way planOrderAllocation groups them, and
+    // a shortfall covers them in turn
+    const backorderStatements = allocation.short.map(line => db.execute(sql`
+      UPDATE order_items oi
+      SET backordered_quantity = LEAST(oi.quantity, GREATEST(0, ${line.quantity} - s.before))
+      FROM (
+        SELECT l.id, SUM(l.quantity) OVER (ORDER BY l.id) - l.quantity AS before
+        FROM order_items l
+        LEFT JOIN item_designs d ON d.id = l.design_id AND d.item_id = l.item_id AND d.stock_quantity IS NOT NULL
+        WHERE l.order_id = ${orderId} AND l.item_id = ${line.itemId} AND d.id IS NOT DISTINCT FROM ${line.designId ?? null}
+      ) s
+      WHERE oi.id = s.id
+    `));
+
+    return [
+      ...allocation.allocated.flatMap(line =>
+        buildDeductionStatements(db, orderId, line.itemId, line.quantity, userId, userEmail, line.designId ?? null)
+      ),
+      db.delete(stockReservations).where(eq(stockReservations.orderId, orderId)),
+      db.execute(sql`
+        UPDATE order_items oi
+        SET backordered_quantity = 0
+        FROM items i
+        WHERE i.id = oi.item_id AND i.track_stock = TRUE AND oi.order_id = ${orderId}
+      `),
+      ...backorderStatements,
+    ];
+  },
+
+  /**
+   * Release an order's reservations, e.g. when it is cancelled
+   * @returns Number of reservations released
+   */
+  async releaseReservations(orderId: number) {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+      const result = await db
+        .delete(stockReservations)
+        .where(eq(stockReservations.orderId, orderId))
+        .returning({ id: stockReservations.id });
+      return result.length;
+    }, { operationName: 'Stock.releaseReservations' });
+  },
+
+  /**
+   * Get the stock still held by an order according to the ledger
+   * Sums every transaction referencing the order (including approved returns), so
+   * orders placed before stock tracking (or already restored) return nothing.
+   * Stock taken from a design's own count is reported against that design.
+   * @param orderId - The order ID
+   * @returns Array of { itemId, designId, quantity } with quantity > 0
+   */
+  async getOrderDeductions(orderId: number): Promise<OrderStockLine[]> {
+    return executeWithRetry(async () => {
+      const db = getDatabase();
+
+      const rows = await db
+        .select({
+          itemId: stockTransactions.itemId,
+          designId: stockTransactions.designId,
+          net: sql<number>`COALESCE(SUM(${stockTransactions.quantity}), 0)::int`,
+        })
+        .from(stockTransactions)
+        .where(
+          and(
+            inArray(stockTransactions.referenceType, ['order', 'return']),
+            eq(stockTransactions.referenceId, orderId)
+          )
+        )
+        .groupBy(stockTransactions.itemId, stockTransactions.designId);
+
+      return rows
+        .filter(row => row.net < 0)
+        .map(row => ({ itemId: row.itemId, designId: row.designId, quantity: -row.net }));
+    }, { operationName: 'Stock.getOrderDeductions' });
+  },
+
+  /**
+   * Build batch statements that put returned units back in stock
+   * Used when approving a return so the approval and the restock commit together.
+   * Items that no longer track stock are left alone.
+   * @param lines - Units to restore, from getOrderDeductions
+   * @param guard - Condition that holds only if the return update in the same batch took effect
+   */
+  buildReturnStatements(
+    db: Database,
+    orderId: number,
+    lines: OrderStockLine[],
+    notes: string,
+    user: { id?: number | null; email?: string | null },
+    guard = sql`TRUE`
+  ) {
+    return lines
+      .filter(line => line.quantity > 0)
+      .flatMap(line => buildMovementStatements(
+        db,
+        line.itemId,
+        line.quantity,
+        'return',
+        { type: 'return', id: orderId, notes },
+        user,
+        line.designId ?? null,
+        sql`${guard} AND EXISTS (SELECT 1 FROM items WHERE id = ${line.itemId} AND track_stock)`
+      ));
+  },
+
+  /**
+   * Restore stock when an order is cancelled or goods are returned
+   * Only restores for items that have trackStock = true. Lines with a designId go
+   * back to that design's stock too while it still tracks its own stock.
+   * @param orderId - The order ID
+   * @param orderItems - Array of { itemId, quantity, designId? }
    * @param userId - Optional user ID
    * @param userEmail - Optional user email
+   * @param options - reason 'return' records a return (reference type `return`) instead of a cancellation
    * @returns Results of the stock restorations
    */
   async restoreForOrder(
     orderId: number,
-    orderItems: Array<{ itemId: number; quantity: number }>,
+    orderItems: OrderStockLine[],
     userId?: number,
-    userEmail?: string
+    userEmail?: string,
+    options: { reason?: 'cancelled' | 'return'; notes?: string } = {}
   ) {
+    const isReturn = options.reason === 'return';
+
     return executeWithRetry(async () => {
       const db = getDatabase();
       const results: Array<{ itemId: number; success: boolean; error?: string; restored: boolean }> = [];
@@ -389,16 +1259,26 @@ const Stock = {
             continue;
           }
 
+          let designId;
+          if (item.designId) {
+            const designResult = await db
+              .select({ stockQuantity: itemDesigns.stockQuantity })
+              .from(itemDesigns)
+              .where(eq(itemDesigns.id, item.designId));
+            if (designResult[0] && designResult[0].stockQuantity !== null) designId = item.designId;
+          }
+
           // Restore stock (positive quantity)
           await this.adjustStock(
             item.itemId,
             item.quantity,
-            'order_cancelled',
-            `Order #${orderId} cancelled`,
+            isReturn ? 'return' : 'order_cancelled',
+            options.notes || `Order #${orderId} ${isReturn ? 'returned' : 'cancelled'}`,
             userId,
             userEmail,
-            'order',
-            orderId
+            isReturn ? 'return' : 'order',
+            orderId,
+            designId
           );
           results.push({ itemId: item.itemId, success: true, restored: true });
         } catch (error: any) {
@@ -463,11 +1343,14 @@ const Stock = {
           price: items.price,
           imageUrl: items.imageUrl,
           stockQuantity: items.stockQuantity,
+          reservedQuantity,
           lowStockThreshold: items.lowStockThreshold,
           trackStock: items.trackStock,
           costPrice: items.costPrice,
           supplierName: items.supplierName,
           supplierSku: items.supplierSku,
+          onOrderQuantity,
+          nextExpectedDate,
           createdAt: items.createdAt,
         })
         .from(items);
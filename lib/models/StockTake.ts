@@ -0,0 +1,387 @@
+import { eq, and, inArray, isNull, asc, desc, sql } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { stockTakes, stockTakeLines, items, itemDesigns } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import type {
+  ItemId,
+  StockTake as StockTakeEntity,
+  StockTakeLine,
+  StockTakeStatus,
+  StockTakeSummary,
+} from '@/types';
+
+export type StockTakeFilter = 'counting' | 'closed' | 'all';
+
+/** A count for one line: set replaces the count, add adds to it (scans) */
+export interface StockTakeCount {
+  lineId: number;
+  quantity: number;
+  mode: 'set' | 'add';
+}
+
+const FILTER_STATUSES: Record<StockTakeFilter, StockTakeStatus[] | null> = {
+  counting: ['counting'],
+  closed: ['approved', 'cancelled'],
+  all: null,
+};
+
+const EMPTY_SUMMARY: StockTakeSummary = {
+  lineCount: 0,
+  countedLines: 0,
+  itemsWithVariance: 0,
+  unitsOver: 0,
+  unitsShort: 0,
+  netVarianceValue: 0,
+};
+
+export function formatStockTakeNumber(id: number): string {
+  return `ST-${String(id).padStart(5, '0')}`;
+}
+
+interface StockTakeRow {
+  id: number;
+  name: string;
+  status: StockTakeStatus;
+  notes: string | null;
+  reason: string | null;
+  approvedAt: Date | null;
+  createdAt: Date;
+}
+
+interface StockTakeLineRow {
+  id: number;
+  itemId: number;
+  itemName: string;
+  designId: number | null;
+  designName: string | null;
+  supplierSku: string | null;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  unitCost: string | null;
+  countedByEmail: string | null;
+  countedAt: Date | null;
+}
+
+type SummaryRow = {
+  stockTakeId: number;
+  lineCount: number;
+  countedLines: number;
+  itemsWithVariance: number;
+  unitsOver: number;
+  unitsShort: number;
+  netVarianceValue: string;
+};
+
+function transformLine(line: StockTakeLineRow): StockTakeLine {
+  const unitCost = line.unitCost === null ? null : Number.parseFloat(line.unitCost);
+  const variance = line.countedQuantity === null ? null : line.countedQuantity - line.expectedQuantity;
+  return {
+    id: line.id,
+    itemId: line.itemId as ItemId,
+    itemName: line.itemName,
+    designId: line.designId ?? null,
+    designName: line.designName ?? null,
+    supplierSku: line.supplierSku || null,
+    expectedQuantity: line.expectedQuantity,
+    countedQuantity: line.countedQuantity,
+    variance,
+    unitCost,
+    varianceValue: variance === null || unitCost === null ? null : Math.round(variance * unitCost * 100) / 100,
+    countedByEmail: line.countedByEmail || null,
+    countedAt: line.countedAt?.toISOString() || null,
+  };
+}
+
+function transformStockTake(
+  row: StockTakeRow,
+  summary: StockTakeSummary | undefined,
+  lines?: StockTakeLineRow[]
+): StockTakeEntity {
+  return {
+    id: row.id,
+    stockTakeNumber: formatStockTakeNumber(row.id),
+    name: row.name,
+    status: row.status,
+    notes: row.notes || null,
+    reason: row.reason || null,
+    approvedAt: row.approvedAt?.toISOString() || null,
+    createdAt: row.createdAt.toISOString(),
+    summary: summary ?? EMPTY_SUMMARY,
+    ...(lines ? { lines: lines.map(transformLine) } : {}),
+  };
+}
+
+/**
+ * Count and variance totals per stock take
+ * An item's variance is its own line's when that was counted, otherwise the sum
+ * of its counted design lines, so units held by designs are not counted twice.
+ */
+async function summarize(db: Database, ids: number[]): Promise<Map<number, StockTakeSummary>> {
+  if (ids.length === 0) return new Map();
+
+  const result = await db.execute<SummaryRow>(sql`
+    WITH per_item AS (
+      SELECT
+        stock_take_id,
+        COUNT(*)::int AS line_count,
+        COUNT(counted_quantity)::int AS counted_lines,
+        MAX(unit_cost) AS unit_cost,
+        COALESCE(
+          MAX(counted_quantity - expected_quantity) FILTER (WHERE design_id IS NULL),
+          SUM(counted_quantity - expected_quantity) FILTER (WHERE design_id IS NOT NULL)
+        ) AS variance
+      FROM stock_take_lines
+      WHERE stock_take_id IN ${ids}
+      GROUP BY stock_take_id, item_id
+    )
+    SELECT
+      stock_take_id AS "stockTakeId",
+      SUM(line_count)::int AS "lineCount",
+      SUM(counted_lines)::int AS "countedLines",
+      COUNT(*) FILTER (WHERE variance <> 0)::int AS "itemsWithVariance",
+      COALESCE(SUM(GREATEST(variance, 0)), 0)::int AS "unitsOver",
+      COALESCE(SUM(GREATEST(-variance, 0)), 0)::int AS "unitsShort",
+      COALESCE(ROUND(SUM(variance * unit_cost), 2), 0) AS "netVarianceValue"
+    FROM per_item
+    GROUP BY stock_take_id
+  `);
+
+  return new Map(result.rows.map(row => [row.stockTakeId, {
+    lineCount: row.lineCount,
+    countedLines: row.countedLines,
+    itemsWithVariance: row.itemsWithVariance,
+    unitsOver: row.unitsOver,
+    unitsShort: row.unitsShort,
+    netVarianceValue: Number.parseFloat(row.netVarianceValue),
+  }]));
+}
+
+function selectStockTakes(db: Database) {
+  return db
+    .select({
+      id: stockTakes.id,
+      name: stockTakes.name,
+      status: stockTakes.status,
+      notes: stockTakes.notes,
+      reason: stockTakes.reason,
+      approvedAt: stockTakes.approvedAt,
+      createdAt: stockTakes.createdAt,
+    })
+    .from(stockTakes);
+}
+
+const StockTake = {
+  /**
+   * Get stock takes with their count and variance totals, newest first
+   * @param filter - counting: still open; closed: approved or cancelled
+   */
+  async find(filter: StockTakeFilter = 'counting') {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const statuses = FILTER_STATUSES[filter] ?? FILTER_STATUSES.counting;
+
+      const rows = await selectStockTakes(db)
+        .where(statuses ? inArray(stockTakes.status, statuses) : undefined)
+        .orderBy(desc(stockTakes.createdAt))
+        .limit(100);
+
+      const summaries = await summarize(db, rows.map(row => row.id));
+      return rows.map(row => transformStockTake(row, summaries.get(row.id)));
+    }, { operationName: 'StockTake.find' });
+  },
+
+  /**
+   * Get a stock take with its lines, items by name and each item's designs after it
+   */
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const rows = await selectStockTakes(db).where(eq(stockTakes.id, id));
+      if (rows.length === 0) return null;
+
+      const lines = await db
+        .select({
+          id: stockTakeLines.id,
+          itemId: stockTakeLines.itemId,
+          itemName: items.name,
+          designId: stockTakeLines.designId,
+          designName: itemDesigns.designName,
+          supplierSku: items.supplierSku,
+          expectedQuantity: stockTakeLines.expectedQuantity,
+          countedQuantity: stockTakeLines.countedQuantity,
+          unitCost: stockTakeLines.unitCost,
+          countedByEmail: stockTakeLines.countedByEmail,
+          countedAt: stockTakeLines.countedAt,
+        })
+        .from(stockTakeLines)
+        .innerJoin(items, eq(stockTakeLines.itemId, items.id))
+        .leftJoin(itemDesigns, eq(stockTakeLines.designId, itemDesigns.id))
+        .where(eq(stockTakeLines.stockTakeId, id))
+        .orderBy(asc(items.name), asc(stockTakeLines.itemId), sql`${stockTakeLines.designId} ASC NULLS FIRST`);
+
+      const summaries = await summarize(db, [id]);
+      return transformStockTake(rows[0], summaries.get(id), lines);
+    }, { operationName: 'StockTake.findById' });
+  },
+
+  /**
+   * Start a stock take, snapshotting the expected quantity and costPrice of each item
+   * and of each design with its own stock, in one batch with the stock take itself
+   * @param itemIds - Only count these items; every tracked item when omitted
+   * @throws ApiError 400 when there is nothing to count
+   */
+  async create(data: { name: string; notes?: string | null; itemIds?: number[] }, userId?: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+
+      if (!data.itemIds) {
+        const tracked = await db
+          .select({ id: items.id })
+          .from(items)
+          .where(and(eq(items.trackStock, true), isNull(items.deletedAt)))
+          .limit(1);
+        if (tracked.length === 0) {
+          throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'There are no tracked items to count');
+        }
+      }
+
+      // Allocate the ID so the stock take and its snapshot are written in one batch
+      const idResult = await db.execute<{ id: number }>(sql`SELECT nextval(pg_get_serial_sequence('stock_takes', 'id'))::int AS id`);
+      const id = idResult.rows[0].id;
+      const scope = data.itemIds
+        ? sql`i.id IN ${data.itemIds}`
+        : sql`i.track_stock = true`;
+
+      await db.batch([
+        db.insert(stockTakes).values({
+          id,
+          name: data.name,
+          notes: data.notes ?? null,
+          createdBy: userId ?? null,
+        }),
+        db.execute(sql`
+          INSERT INTO stock_take_lines (stock_take_id, item_id, expected_quantity, unit_cost)
+          SELECT ${id}, i.id, i.stock_quantity, i.cost_price
+          FROM items i
+          WHERE i.deleted_at IS NULL AND ${scope}
+        `),
+        db.execute(sql`
+          INSERT INTO stock_take_lines (stock_take_id, item_id, design_id, expected_quantity, unit_cost)
+          SELECT ${id}, i.id, d.id, d.stock_quantity, i.cost_price
+          FROM item_designs d
+          INNER JOIN items i ON i.id = d.item_id
+          WHERE i.deleted_at IS NULL AND d.stock_quantity IS NOT NULL AND ${scope}
+        `),
+      ]);
+
+      return this.findById(id);
+    }, { operationName: 'StockTake.create' });
+  },
+
+  /**
+   * Record counts against a stock take's lines
+   * Added counts are applied in the database so users scanning at the same time
+   * don't overwrite each other.
+   * @throws ApiError 400 if a count would go below zero
+   */
+  async recordCounts(id: number, counts: StockTakeCount[], user: { id?: number; email?: string }) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const statements: BatchItem<'pg'>[] = counts.map(count => db
+        .update(stockTakeLines)
+        .set({
+          countedQuantity: count.mode === 'add'
+            ? sql`COALESCE(${stockTakeLines.countedQuantity}, 0) + ${count.quantity}`
+            : count.quantity,
+          countedBy: user.id ?? null,
+          countedByEmail: user.email ?? null,
+          countedAt: new Date(),
+        })
+        .where(and(eq(stockTakeLines.id, count.lineId), eq(stockTakeLines.stockTakeId, id))));
+
+      try {
+        // Callers never pass an empty list of counts
+        await db.batch(statements as [BatchItem<'pg'>, ...BatchItem<'pg'>[]]);
+      } catch (error) {
+        const { code, message } = (error ?? {}) as { code?: string; message?: string };
+        if (code === '23514' || message?.includes('stock_take_lines_quantities_non_negative')) {
+          throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'A counted quantity cannot go below zero');
+        }
+        throw error;
+      }
+    }, { operationName: 'StockTake.recordCounts' });
+  },
+
+  /**
+   * Net stock moved on each counted line between the snapshot and the line's count
+   * Design movements also move their item, so an item line includes them.
+   * @returns Units moved by line ID; lines with no movements are left out
+   */
+  async findMovementsBeforeCount(id: number): Promise<Map<number, number>> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.execute<{ lineId: number; moved: number }>(sql`
+        SELECT l.id AS "lineId", SUM(t.quantity)::int AS moved
+        FROM stock_take_lines l
+        INNER JOIN stock_takes s ON s.id = l.stock_take_id
+        INNER JOIN stock_transactions t ON t.item_id = l.item_id
+          AND (l.design_id IS NULL OR t.design_id = l.design_id)
+          AND t.created_at > s.created_at
+          AND t.created_at <= l.counted_at
+        WHERE l.stock_take_id = ${id} AND l.counted_quantity IS NOT NULL
+        GROUP BY l.id
+      `);
+      return new Map(result.rows.map(row => [row.lineId, row.moved]));
+    }, { operationName: 'StockTake.findMovementsBeforeCount' });
+  },
+
+  /**
+   * Clear the counts on the given lines so they show as not counted
+   */
+  async clearCounts(id: number, lineIds: number[]) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      await db
+        .update(stockTakeLines)
+        .set({ countedQuantity: null, countedBy: null, countedByEmail: null, countedAt: null })
+        .where(and(eq(stockTakeLines.stockTakeId, id), inArray(stockTakeLines.id, lineIds)));
+    }, { operationName: 'StockTake.clearCounts' });
+  },
+
+  /**
+   * Build the statement that approves a stock take still being counted, for a
+   * batch that also posts its corrections
+   * @returns The statement and a condition that holds only once this statement has
+   *   approved the stock take, for the correction statements to require
+   */
+  buildApprovalStatement(db: Database, id: number, data: { reason: string; approvedBy: number | null; approvedAt: Date }) {
+    return {
+      statement: db
+        .update(stockTakes)
+        .set({ status: 'approved', ...data, updatedAt: data.approvedAt })
+        .where(and(eq(stockTakes.id, id), eq(stockTakes.status, 'counting'))),
+      approvedGuard: sql`EXISTS (SELECT 1 FROM stock_takes WHERE id = ${id} AND status = 'approved' AND approved_at = ${data.approvedAt.toISOString()}::timestamptz)`,
+    };
+  },
+
+  /**
+   * Close a stock take if it is still being counted
+   * @returns false when it was no longer counting
+   */
+  async close(id: number, data: Record<string, unknown>) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .update(stockTakes)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(stockTakes.id, id), eq(stockTakes.status, 'counting')))
+        .returning({ id: stockTakes.id });
+      return result.length > 0;
+    }, { operationName: 'StockTake.close' });
+  },
+};
+
+export default StockTake;
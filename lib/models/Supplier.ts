@@ -0,0 +1,165 @@
+import { eq, asc, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { suppliers } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import type { Supplier as SupplierEntity } from '@/types';
+
+/** Validated supplier fields, as written by create and (partially) update */
+export interface SupplierData {
+  name: string;
+  contactName?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  leadTimeDays?: number | null;
+  paymentTerms?: string | null;
+  notes?: string | null;
+}
+
+interface SupplierRow {
+  id: number;
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  leadTimeDays: number | null;
+  paymentTerms: string | null;
+  notes: string | null;
+  openPurchaseOrders?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SUPPLIER_FIELDS: (keyof SupplierData)[] = [
+  'name', 'contactName', 'email', 'phone', 'address', 'leadTimeDays', 'paymentTerms', 'notes',
+];
+
+const openPurchaseOrders = sql<number>`(
+  SELECT COUNT(*)::int FROM purchase_orders
+  WHERE purchase_orders.supplier_id = ${suppliers.id}
+    AND purchase_orders.status IN ('ordered', 'partially_received')
+)`;
+
+function transformSupplier(supplier: SupplierRow): SupplierEntity {
+  return {
+    id: supplier.id,
+    name: supplier.name,
+    contactName: supplier.contactName || null,
+    email: supplier.email || null,
+    phone: supplier.phone || null,
+    address: supplier.address || null,
+    leadTimeDays: supplier.leadTimeDays ?? null,
+    paymentTerms: supplier.paymentTerms || null,
+    notes: supplier.notes || null,
+    openPurchaseOrders: supplier.openPurchaseOrders ?? 0,
+    createdAt: supplier.createdAt.toISOString(),
+    updatedAt: supplier.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Translate a duplicate-name failure into a 409
+ */
+function toSupplierError(error: unknown) {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  if (code === '23505' || message?.includes('suppliers_name_idx')) {
+    return new ApiError(HTTP_STATUS.CONFLICT, 'A supplier with this name already exists');
+  }
+  return error;
+}
+
+function pickSupplierFields<T extends Partial<SupplierData>>(data: T): T {
+  return Object.fromEntries(
+    SUPPLIER_FIELDS.filter(key => data[key] !== undefined).map(key => [key, data[key]])
+  ) as T;
+}
+
+const Supplier = {
+  /**
+   * Get all suppliers by name, with their open purchase order counts
+   */
+  async find() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({
+          id: suppliers.id,
+          name: suppliers.name,
+          contactName: suppliers.contactName,
+          email: suppliers.email,
+          phone: suppliers.phone,
+          address: suppliers.address,
+          leadTimeDays: suppliers.leadTimeDays,
+          paymentTerms: suppliers.paymentTerms,
+          notes: suppliers.notes,
+          openPurchaseOrders,
+          createdAt: suppliers.createdAt,
+          updatedAt: suppliers.updatedAt,
+        })
+        .from(suppliers)
+        .orderBy(asc(suppliers.name));
+      return result.map(transformSupplier);
+    }, { operationName: 'Supplier.find' });
+  },
+
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.select().from(suppliers).where(eq(suppliers.id, id));
+      return result[0] ? transformSupplier(result[0]) : null;
+    }, { operationName: 'Supplier.findById' });
+  },
+
+  async create(data: SupplierData) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      try {
+        const result = await db.insert(suppliers).values(pickSupplierFields(data)).returning();
+        return transformSupplier(result[0]);
+      } catch (error) {
+        throw toSupplierError(error);
+      }
+    }, { operationName: 'Supplier.create' });
+  },
+
+  async update(id: number, data: Partial<SupplierData>) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      try {
+        const result = await db
+          .update(suppliers)
+          .set({ ...pickSupplierFields(data), updatedAt: new Date() })
+          .where(eq(suppliers.id, id))
+          .returning();
+        return result[0] ? transformSupplier(result[0]) : null;
+      } catch (error) {
+        throw toSupplierError(error);
+      }
+    }, { operationName: 'Supplier.update' });
+  },
+
+  /**
+   * Delete a supplier
+   * @returns false if the supplier does not exist
+   * @throws ApiError 409 while purchase orders still reference it
+   */
+  async delete(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      try {
+        const result = await db.delete(suppliers).where(eq(suppliers.id, id)).returning({ id: suppliers.id });
+        return result.length > 0;
+      } catch (error) {
+        if ((error as { code?: string } | null)?.code === '23503') {
+          throw new ApiError(HTTP_STATUS.CONFLICT, 'This supplier has purchase orders and cannot be deleted');
+        }
+        throw error;
+      }
+    }, { operationName: 'Supplier.delete' });
+  },
+};
+
+export default Supplier;
@@ -0,0 +1,204 @@
+import { eq, desc, and, lte, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { webhookDeliveries } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import type { WebhookDelivery as WebhookDeliveryEntity, WebhookDeliveryStatus } from '@/types';
+
+const RESPONSE_BODY_LIMIT = 2000;
+
+/** A delivery to queue; replayOfId links a replay to the delivery it repeats */
+export interface NewWebhookDelivery {
+  endpointId: number;
+  eventId: string;
+  eventType: WebhookDeliveryEntity['eventType'];
+  payload: Record<string, unknown>;
+  replayOfId?: number | null;
+}
+
+interface WebhookDeliveryRow {
+  id: number;
+  endpointId: number;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastResponseStatus: number | null;
+  lastResponseBody: string | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  replayOfId: number | null;
+  createdAt: Date;
+}
+
+function transformDelivery(delivery: WebhookDeliveryRow): WebhookDeliveryEntity {
+  return {
+    ...delivery,
+    _id: delivery.id,
+    // Only createMany writes deliveries, with a NewWebhookDelivery
+    eventType: delivery.eventType as WebhookDeliveryEntity['eventType'],
+    payload: delivery.payload as Record<string, unknown>,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() || null,
+    deliveredAt: delivery.deliveredAt?.toISOString() || null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+const WebhookDelivery = {
+  /**
+   * Get an endpoint's deliveries, newest first
+   */
+  async findByEndpoint(endpointId: number, options?: {
+    limit?: number;
+    offset?: number;
+    status?: WebhookDeliveryStatus;
+  }) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const limit = options?.limit || 50;
+      const offset = options?.offset || 0;
+
+      const conditions = [eq(webhookDeliveries.endpointId, endpointId)];
+      if (options?.status) {
+        conditions.push(eq(webhookDeliveries.status, options.status));
+      }
+      const whereClause = and(...conditions);
+
+      const result = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(whereClause)
+        .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+        .limit(limit)
+        .offset(offset);
+
+      const countResult = await db
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(webhookDeliveries)
+        .where(whereClause);
+
+      const total = countResult[0]?.count || 0;
+
+      return {
+        items: result.map(transformDelivery),
+        pagination: {
+          total,
+          limit,
+          offset,
+          hasMore: offset + result.length < total,
+        },
+      };
+    }, { operationName: 'WebhookDelivery.findByEndpoint' });
+  },
+
+  /**
+   * Get delivery by ID
+   */
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      const result = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, numericId));
+      return result.length > 0 ? transformDelivery(result[0]) : null;
+    }, { operationName: 'WebhookDelivery.findById' });
+  },
+
+  /**
+   * Queue deliveries that are due immediately
+   */
+  async createMany(rows: NewWebhookDelivery[]) {
+    if (rows.length === 0) return [];
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const now = new Date();
+      const result = await db
+        .insert(webhookDeliveries)
+        .values(rows.map(row => ({
+          endpointId: row.endpointId,
+          eventId: row.eventId,
+          eventType: row.eventType,
+          payload: row.payload,
+          replayOfId: row.replayOfId ?? null,
+          nextAttemptAt: now,
+        })))
+        .returning();
+      return result.map(transformDelivery);
+    }, { operationName: 'WebhookDelivery.createMany' });
+  },
+
+  /**
+   * IDs of pending deliveries whose next attempt is due, oldest first
+   */
+  async findDueIds(limit: number = 20) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select({ id: webhookDeliveries.id })
+        .from(webhookDeliveries)
+        .where(and(
+          eq(webhookDeliveries.status, 'pending'),
+          lte(webhookDeliveries.nextAttemptAt, new Date())
+        ))
+        .orderBy(webhookDeliveries.nextAttemptAt)
+        .limit(limit);
+      return result.map(row => row.id);
+    }, { operationName: 'WebhookDelivery.findDueIds' });
+  },
+
+  /**
+   * Take a due delivery for sending by pushing its next attempt out to leaseUntil
+   * Only one caller wins, so a cron run and an in-request dispatch never send twice.
+   * @returns The claimed delivery, or null if it is not due or already taken
+   */
+  async claim(id: number, leaseUntil: Date) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .update(webhookDeliveries)
+        .set({ nextAttemptAt: leaseUntil })
+        .where(and(
+          eq(webhookDeliveries.id, id),
+          eq(webhookDeliveries.status, 'pending'),
+          lte(webhookDeliveries.nextAttemptAt, new Date())
+        ))
+        .returning();
+      return result.length > 0 ? transformDelivery(result[0]) : null;
+    }, { operationName: 'WebhookDelivery.claim' });
+  },
+
+  /**
+   * Record the outcome of an attempt
+   * @param outcome.nextAttemptAt - When to retry; null once the delivery has succeeded or given up
+   */
+  async recordAttempt(id: number, outcome: {
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: Date | null;
+    responseStatus?: number | null;
+    responseBody?: string | null;
+    error?: string | null;
+  }) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .update(webhookDeliveries)
+        .set({
+          status: outcome.status,
+          attempts: outcome.attempts,
+          nextAttemptAt: outcome.nextAttemptAt,
+          lastResponseStatus: outcome.responseStatus ?? null,
+          lastResponseBody: outcome.responseBody ? outcome.responseBody.slice(0, RESPONSE_BODY_LIMIT) : null,
+          lastError: outcome.error ?? null,
+          deliveredAt: outcome.status === 'succeeded' ? new Date() : null,
+        })
+        .where(eq(webhookDeliveries.id, id))
+        .returning();
+      return result.length > 0 ? transformDelivery(result[0]) : null;
+    }, { operationName: 'WebhookDelivery.recordAttempt' });
+  },
+};
+
+export default WebhookDelivery;
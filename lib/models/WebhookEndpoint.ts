@@ -0,0 +1,152 @@
+import { eq, asc, and, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { webhookEndpoints } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { generateWebhookSecret } from '@/lib/utils/webhookUtils';
+import type {
+  CreateWebhookEndpointData,
+  UpdateWebhookEndpointData,
+  WebhookEndpoint as WebhookEndpointEntity,
+  WebhookEventType,
+} from '@/types';
+
+interface WebhookEndpointRow {
+  id: number;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Column values for an insert or update, only for the fields given */
+interface WebhookEndpointValues {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  isActive?: boolean;
+  secret?: string;
+}
+
+function transformEndpoint(endpoint: WebhookEndpointRow): WebhookEndpointEntity {
+  return {
+    ...endpoint,
+    _id: endpoint.id,
+    // Events are validated before they are saved
+    events: (endpoint.events || []) as WebhookEventType[],
+    createdAt: endpoint.createdAt.toISOString(),
+    updatedAt: endpoint.updatedAt.toISOString(),
+  };
+}
+
+function buildEndpointValues(data: UpdateWebhookEndpointData): WebhookEndpointValues {
+  const values: WebhookEndpointValues = {};
+  if (data.url !== undefined) values.url = data.url.trim();
+  if (data.description !== undefined) values.description = data.description?.trim() || null;
+  if (data.events !== undefined) values.events = [...new Set(data.events)];
+  if (data.isActive !== undefined) values.isActive = data.isActive;
+  return values;
+}
+
+const WebhookEndpoint = {
+  /**
+   * Get all endpoints in the order they were added
+   */
+  async findAll() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db.select().from(webhookEndpoints).orderBy(asc(webhookEndpoints.id));
+      return result.map(transformEndpoint);
+    }, { operationName: 'WebhookEndpoint.findAll' });
+  },
+
+  /**
+   * Get endpoint by ID
+   */
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      const result = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, numericId));
+      return result.length > 0 ? transformEndpoint(result[0]) : null;
+    }, { operationName: 'WebhookEndpoint.findById' });
+  },
+
+  /**
+   * Get the active endpoints subscribed to an event type
+   */
+  async findSubscribed(eventType: string) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .select()
+        .from(webhookEndpoints)
+        .where(and(
+          eq(webhookEndpoints.isActive, true),
+          sql`${webhookEndpoints.events} @> ${JSON.stringify([eventType])}::jsonb`
+        ));
+      return result.map(transformEndpoint);
+    }, { operationName: 'WebhookEndpoint.findSubscribed' });
+  },
+
+  /**
+   * Register an endpoint with a freshly generated signing secret
+   */
+  async create(data: CreateWebhookEndpointData, userId?: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      // url and events are required on CreateWebhookEndpointData, so they are always set
+      const values = buildEndpointValues(data) as WebhookEndpointValues & Pick<CreateWebhookEndpointData, 'url' | 'events'>;
+      const result = await db
+        .insert(webhookEndpoints)
+        .values({
+          ...values,
+          secret: generateWebhookSecret(),
+          createdByUserId: userId || null,
+        })
+        .returning();
+      return transformEndpoint(result[0]);
+    }, { operationName: 'WebhookEndpoint.create' });
+  },
+
+  /**
+   * Update an endpoint; rotateSecret replaces the signing secret
+   */
+  async update(id: number, data: UpdateWebhookEndpointData) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return null;
+
+      const values = { ...buildEndpointValues(data), updatedAt: new Date() };
+      if (data.rotateSecret) values.secret = generateWebhookSecret();
+
+      const result = await db
+        .update(webhookEndpoints)
+        .set(values)
+        .where(eq(webhookEndpoints.id, numericId))
+        .returning();
+      return result.length > 0 ? transformEndpoint(result[0]) : null;
+    }, { operationName: 'WebhookEndpoint.update' });
+  },
+
+  /**
+   * Delete an endpoint together with its delivery log
+   */
+  async delete(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const numericId = Number.parseInt(String(id), 10);
+      if (Number.isNaN(numericId)) return false;
+
+      const result = await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, numericId)).returning();
+      return result.length > 0;
+    }, { operationName: 'WebhookEndpoint.delete' });
+  },
+};
+
+export default WebhookEndpoint;
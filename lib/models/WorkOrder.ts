@@ -0,0 +1,232 @@
+import { eq, and, inArray, asc, desc, sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { workOrders, orders, orderItems, items, itemDesigns } from '@/lib/db/schema';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import type { ItemId, OrderId, WorkOrder as WorkOrderEntity, WorkOrderStatus } from '@/types';
+
+export type WorkOrderFilter = 'open' | 'completed' | 'cancelled' | 'all';
+
+const OPEN_STATUSES: WorkOrderStatus[] = ['planned', 'in_progress'];
+
+interface WorkOrderRow {
+  id: number;
+  orderDbId: number;
+  orderNumber: string;
+  customerName: string;
+  expectedDeliveryDate: Date | null;
+  itemId: number;
+  itemName: string;
+  designId: number | null;
+  designName: string | null;
+  quantity: number;
+  customizationRequest: string | null;
+  status: WorkOrderStatus;
+  notes: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Units of an order line that have to be made: the whole line for items without
+ * stock tracking (made to order), otherwise only what stock could not cover
+ */
+const productionQuantity = sql`CASE WHEN ${items.trackStock} THEN ${orderItems.backorderedQuantity} ELSE ${orderItems.quantity} END`;
+
+/** A work order without its materials, which the manufacturing service adds */
+function transformWorkOrder(row: WorkOrderRow): Omit<WorkOrderEntity, 'materials'> {
+  return {
+    id: row.id,
+    order: {
+      id: row.orderDbId as OrderId,
+      orderId: row.orderNumber,
+      customerName: row.customerName,
+      expectedDeliveryDate: row.expectedDeliveryDate?.toISOString() || null,
+    },
+    itemId: row.itemId as ItemId,
+    itemName: row.itemName,
+    designId: row.designId ?? null,
+    designName: row.designName || null,
+    quantity: row.quantity,
+    customizationRequest: row.customizationRequest || null,
+    status: row.status,
+    notes: row.notes || null,
+    startedAt: row.startedAt?.toISOString() || null,
+    completedAt: row.completedAt?.toISOString() || null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function selectWorkOrders(db: Database) {
+  return db
+    .select({
+      id: workOrders.id,
+      orderDbId: orders.id,
+      orderNumber: orders.orderId,
+      customerName: orders.customerName,
+      expectedDeliveryDate: orders.expectedDeliveryDate,
+      itemId: workOrders.itemId,
+      itemName: orderItems.name,
+      designId: workOrders.designId,
+      designName: itemDesigns.designName,
+      quantity: workOrders.quantity,
+      customizationRequest: orderItems.customizationRequest,
+      status: workOrders.status,
+      notes: workOrders.notes,
+      startedAt: workOrders.startedAt,
+      completedAt: workOrders.completedAt,
+      createdAt: workOrders.createdAt,
+    })
+    .from(workOrders)
+    .innerJoin(orders, eq(workOrders.orderId, orders.id))
+    .innerJoin(orderItems, eq(workOrders.orderItemId, orderItems.id))
+    .leftJoin(itemDesigns, eq(workOrders.designId, itemDesigns.id));
+}
+
+const WorkOrder = {
+  /**
+   * Get work orders by status
+   * Open work orders come soonest-due first; finished ones most recent first.
+   */
+  async find(filter: WorkOrderFilter = 'open', limit = 200) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const condition = filter === 'open'
+        ? inArray(workOrders.status, OPEN_STATUSES)
+        : filter === 'all' ? undefined : eq(workOrders.status, filter);
+
+      const ordering = filter === 'open'
+        ? [sql`${orders.expectedDeliveryDate} ASC NULLS LAST`, asc(workOrders.id)]
+        : [desc(sql`COALESCE(${workOrders.completedAt}, ${workOrders.updatedAt})`), desc(workOrders.id)];
+      const result = await selectWorkOrders(db).where(condition).orderBy(...ordering).limit(limit);
+      return result.map(transformWorkOrder);
+    }, { operationName: 'WorkOrder.find' });
+  },
+
+  async findById(id: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await selectWorkOrders(db).where(eq(workOrders.id, id));
+      return result[0] ? transformWorkOrder(result[0]) : null;
+    }, { operationName: 'WorkOrder.findById' });
+  },
+
+  async findByOrder(orderId: number) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await selectWorkOrders(db).where(eq(workOrders.orderId, orderId)).orderBy(asc(workOrders.id));
+      return result.map(transformWorkOrder);
+    }, { operationName: 'WorkOrder.findByOrder' });
+  },
+
+  /**
+   * Create work orders for the lines of confirmed, open orders that need making
+   * Lines that already have a work order are left alone, so this is safe to repeat.
+   * @param orderId - Limit to one order; all confirmed open orders when omitted
+   * @returns Number of work orders created
+   */
+  async generateForConfirmedOrders(orderId?: number): Promise<number> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const orderFilter = orderId === undefined ? sql`TRUE` : sql`${orders.id} = ${orderId}`;
+      const result = await db.execute(sql`
+        INSERT INTO work_orders (order_id, order_item_id, item_id, design_id, quantity)
+        SELECT ${orderItems.orderId}, ${orderItems.id}, ${orderItems.itemId}, ${orderItems.designId}, ${productionQuantity}
+        FROM ${orderItems}
+        INNER JOIN ${orders} ON ${orders.id} = ${orderItems.orderId}
+        INNER JOIN ${items} ON ${items.id} = ${orderItems.itemId}
+        WHERE ${orders.confirmationStatus} = 'confirmed'
+          AND ${orders.status} IN ('pending', 'processing')
+          AND ${productionQuantity} > 0
+          AND ${orderFilter}
+        ON CONFLICT (order_item_id) DO NOTHING
+        RETURNING id
+      `);
+      return result.rows.length;
+    }, { operationName: 'WorkOrder.generateForConfirmedOrders' });
+  },
+
+  /**
+   * Order lines that will need making once their order is confirmed
+   * Used to warn about material shortages before work orders exist.
+   */
+  async findUnconfirmedProductionLines() {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      return db
+        .select({
+          orderNumber: orders.orderId,
+          itemId: orderItems.itemId,
+          itemName: orderItems.name,
+          designId: orderItems.designId,
+          quantity: sql<number>`(${productionQuantity})::int`,
+        })
+        .from(orderItems)
+        .innerJoin(orders, eq(orders.id, orderItems.orderId))
+        .innerJoin(items, eq(items.id, orderItems.itemId))
+        .where(and(
+          inArray(orders.status, ['pending', 'processing']),
+          inArray(orders.confirmationStatus, ['unconfirmed', 'pending_confirmation']),
+          sql`${productionQuantity} > 0`
+        ));
+    }, { operationName: 'WorkOrder.findUnconfirmedProductionLines' });
+  },
+
+  /**
+   * Move a work order on, but only from one of the given statuses
+   * @returns The updated work order, or null if it was not in one of those statuses
+   */
+  async transition(id: number, fromStatuses: WorkOrderStatus[], data: Record<string, unknown>) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .update(workOrders)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(workOrders.id, id), inArray(workOrders.status, fromStatuses)))
+        .returning({ id: workOrders.id });
+      return result.length > 0 ? this.findById(id) : null;
+    }, { operationName: 'WorkOrder.transition' });
+  },
+
+  async updateNotes(id: number, notes: string | null) {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      await db.update(workOrders).set({ notes, updatedAt: new Date() }).where(eq(workOrders.id, id));
+      return this.findById(id);
+    }, { operationName: 'WorkOrder.updateNotes' });
+  },
+
+  /**
+   * Build the statement that completes an open work order, for a batch that also
+   * consumes its materials
+   * @returns The statement and a condition that holds only once this statement has
+   *   completed the work order, for the consumption statements to require
+   */
+  buildCompletionStatement(db: Database, id: number, completedAt: Date, userId?: number) {
+    return {
+      statement: db
+        .update(workOrders)
+        .set({ status: 'completed', completedAt, completedBy: userId ?? null, updatedAt: completedAt })
+        .where(and(eq(workOrders.id, id), inArray(workOrders.status, OPEN_STATUSES))),
+      completedGuard: sql`EXISTS (SELECT 1 FROM work_orders WHERE id = ${id} AND status = 'completed' AND completed_at = ${completedAt.toISOString()}::timestamptz)`,
+    };
+  },
+
+  /**
+   * Cancel an order's planned and in-progress work orders
+   * @returns Number of work orders cancelled
+   */
+  async cancelOpenForOrder(orderId: number): Promise<number> {
+    return executeWithRetry(async () => {
+      const db: Database = getDatabase();
+      const result = await db
+        .update(workOrders)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(and(eq(workOrders.orderId, orderId), inArray(workOrders.status, OPEN_STATUSES)))
+        .returning({ id: workOrders.id });
+      return result.length;
+    }, { operationName: 'WorkOrder.cancelOpenForOrder' });
+  },
+};
+
+export default WorkOrder;
@@ -3,6 +3,8 @@
  * Ensures stable, consistent keys for caching and invalidation
  */
 
+import type { OrderQuoteRequest } from '@/types';
+
 export interface ItemsPaginationParams {
   page: number;
   limit: number;
@@ -24,6 +26,8 @@ export interface AnalyticsFiltersParams {
   startDate?: string;
   endDate?: string;
   timeRange?: '7d' | '30d' | '90d' | '1y' | 'all';
+  /** Profit analytics only: report revenue as charged or excluding GST */
+  revenueBasis?: 'gross' | 'net';
 }
 
 export const queryKeys = {
@@ -38,6 +42,8 @@ export const queryKeys = {
   ordersPaginated: (params: PaginationParams) => ['orders', 'page', params] as const,
   order: (id: number | string) => ['orders', 'detail', String(id)] as const,
   priorityOrders: () => ['orders', 'priority'] as const,
+  orderBoard: () => ['orders', 'board'] as const,
+  orderQuote: (params: OrderQuoteRequest) => ['orders', 'quote', params] as const,
 
   // Feedbacks
   feedbacks: () => ['feedbacks'] as const,
@@ -64,6 +70,38 @@ export const queryKeys = {
     byItem: (itemId: number | string) => ['tags', 'byItem', String(itemId)] as const,
   },
 
+  // Promotions
+  promotions: {
+    all: ['promotions'] as const,
+    detail: (id: number | string) => ['promotions', 'detail', String(id)] as const,
+  },
+
+  // Webhooks
+  webhooks: {
+    all: ['webhooks'] as const,
+    deliveriesFor: (webhookId: number) => ['webhooks', 'deliveries', webhookId] as const,
+    deliveries: (webhookId: number, filters: Record<string, unknown>) =>
+      ['webhooks', 'deliveries', webhookId, filters] as const,
+  },
+
+  // Personal API keys
+  apiKeys: {
+    all: ['apiKeys'] as const,
+  },
+
+  // Saved order views
+  savedViews: {
+    all: ['savedViews'] as const,
+  },
+
+  // Production calendar and capacity
+  production: {
+    all: ['production'] as const,
+    calendar: (from: string, to: string) => ['production', 'calendar', from, to] as const,
+    capacity: ['production', 'capacity'] as const,
+    suggestion: (units: number) => ['production', 'suggestion', units] as const,
+  },
+
   // Audit Logs
   auditLogs: {
     all: ['auditLogs'] as const,
@@ -84,11 +122,19 @@ export const queryKeys = {
   // Customers
   customers: {
     all: ['customers'] as const,
-    list: (filters: { page?: number; limit?: number; search?: string; source?: string }) => 
+    list: (filters: { page?: number; limit?: number; search?: string; source?: string; segment?: string }) => 
       ['customers', 'list', filters] as const,
     detail: (id: number | string) => ['customers', 'detail', String(id)] as const,
     search: (query: string) => ['customers', 'search', query] as const,
     orders: (id: number | string) => ['customers', 'orders', String(id)] as const,
+    duplicates: (minScore: number) => ['customers', 'duplicates', minScore] as const,
+    merges: ['customers', 'merges'] as const,
+    backfill: ['customers', 'backfill'] as const,
+    segments: ['customers', 'segments'] as const,
+    addresses: (id: number | string) => ['customers', 'addresses', String(id)] as const,
+    contacts: (id: number | string) => ['customers', 'contacts', String(id)] as const,
+    loyalty: (id: number | string) => ['customers', 'loyalty', String(id)] as const,
+    loyaltySettings: ['customers', 'loyaltySettings'] as const,
   },
 
   // Order Notes
@@ -99,6 +145,24 @@ export const queryKeys = {
       ['orderNotes', 'detail', String(orderId), String(noteId)] as const,
   },
 
+  // Order Payments
+  orderPayments: {
+    all: ['orderPayments'] as const,
+    byOrder: (orderId: number | string) => ['orderPayments', 'byOrder', String(orderId)] as const,
+  },
+
+  // Order Returns
+  orderReturns: {
+    all: ['orderReturns'] as const,
+    byOrder: (orderId: number | string) => ['orderReturns', 'byOrder', String(orderId)] as const,
+  },
+
+  // Order tracking links
+  orderTracking: {
+    link: (orderId: number | string) => ['orderTracking', 'link', String(orderId)] as const,
+    public: (token: string) => ['orderTracking', 'public', token] as const,
+  },
+
   // Stock Tracking
   stock: {
     all: ['stock'] as const,
@@ -107,6 +171,38 @@ export const queryKeys = {
       ['stock', 'inventory', filters] as const,
     lowStock: ['stock', 'lowStock'] as const,
     history: (itemId: number | string) => ['stock', 'history', String(itemId)] as const,
+    designs: (itemId: number | string) => ['stock', 'designs', String(itemId)] as const,
+    recommendations: ['stock', 'recommendations'] as const,
+  },
+
+  // Manufacturing
+  materials: {
+    all: ['materials'] as const,
+    list: ['materials', 'list'] as const,
+    history: (materialId: number) => ['materials', 'history', materialId] as const,
+    shortages: ['materials', 'shortages'] as const,
+    bom: (itemId: number | string) => ['materials', 'bom', String(itemId)] as const,
+  },
+  workOrders: {
+    all: ['workOrders'] as const,
+    list: (status: string) => ['workOrders', 'list', status] as const,
+  },
+
+  // Purchasing
+  suppliers: {
+    all: ['suppliers'] as const,
+    list: ['suppliers', 'list'] as const,
+  },
+  purchaseOrders: {
+    all: ['purchaseOrders'] as const,
+    list: (status: string) => ['purchaseOrders', 'list', status] as const,
+  },
+
+  // Stock takes
+  stockTakes: {
+    all: ['stockTakes'] as const,
+    list: (status: string) => ['stockTakes', 'list', status] as const,
+    detail: (id: number) => ['stockTakes', 'detail', id] as const,
   },
 
   // Analytics (extended)
@@ -116,5 +212,6 @@ export const queryKeys = {
     trends: (filters: AnalyticsFiltersParams) => ['analytics', 'trends', filters] as const,
     topItems: (filters: AnalyticsFiltersParams) => ['analytics', 'topItems', filters] as const,
     topCustomers: (filters: AnalyticsFiltersParams) => ['analytics', 'topCustomers', filters] as const,
+    promotions: (filters: AnalyticsFiltersParams) => ['analytics', 'promotions', filters] as const,
   },
 } as const;
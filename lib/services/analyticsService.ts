@@ -41,8 +41,11 @@ interface OrderItem {
 interface Order {
   items?: OrderItem[];
   customerId: string;
+  customerIdRef?: number | null;
   customerName: string;
   totalPrice: number;
+  taxAmount?: number;
+  shippingAmount?: number;
   orderFrom?: string;
   status?: string;
   orderDate?: Date | string;
@@ -51,6 +54,8 @@ interface Order {
 
 interface RangeAnalytics {
   totalSales: number;
+  netSales: number;
+  taxCollected: number;
   orderCount: number;
   topItems: ItemData[];
   topItemsByRevenue: ItemData[];
@@ -109,7 +114,8 @@ function aggregateCustomerData(filteredOrders: Order[]): Record<string, Customer
   filteredOrders.forEach(order => {
     const customerId = order.customerId;
     const customerName = order.customerName;
-    const key = `${customerId}_${customerName}`;
+    // Orders not yet linked by the customer backfill fall back to ID and name
+    const key = order.customerIdRef ? `ref_${order.customerIdRef}` : `${customerId}_${customerName}`;
     
     if (!customerCounts[key]) {
       customerCounts[key] = { 
@@ -182,14 +188,23 @@ function filterOrdersByStatus(orders: Order[], statusFilter: string): Order[] {
 }
 
 /**
- * Calculate total sales and order count
+ * Calculate total sales, net-of-tax sales and order count
+ * Net sales exclude GST collected on behalf of the government.
  */
-function calculateSalesTotals(orders: Order[]): { totalSales: number; orderCount: number; averageOrderValue: number } {
+function calculateSalesTotals(orders: Order[]): {
+  totalSales: number;
+  netSales: number;
+  taxCollected: number;
+  orderCount: number;
+  averageOrderValue: number;
+} {
   const totalSales = orders.reduce((sum, order) => sum + order.totalPrice, 0);
+  const taxCollected = orders.reduce((sum, order) => sum + (order.taxAmount || 0), 0);
+  const netSales = totalSales - taxCollected;
   const orderCount = orders.length;
   const averageOrderValue = orderCount > 0 ? totalSales / orderCount : 0;
   
-  return { totalSales, orderCount, averageOrderValue };
+  return { totalSales, netSales, taxCollected, orderCount, averageOrderValue };
 }
 
 /**
@@ -240,7 +255,7 @@ function computeRangeAnalytics(orders: Order[], rangeDays: number, statusFilter:
   const timeFilteredOrders = filterOrdersByTimeRange(orders, cutoffDate);
   const filteredOrders = filterOrdersByStatus(timeFilteredOrders, statusFilter);
 
-  const { totalSales, orderCount, averageOrderValue } = calculateSalesTotals(filteredOrders);
+  const { totalSales, netSales, taxCollected, orderCount, averageOrderValue } = calculateSalesTotals(filteredOrders);
   
   const itemCounts = aggregateItemCounts(filteredOrders);
   const { topItems, topItemsByRevenue } = processItemData(itemCounts);
@@ -252,6 +267,8 @@ function computeRangeAnalytics(orders: Order[], rangeDays: number, statusFilter:
 
   return {
     totalSales,
+    netSales,
+    taxCollected,
     orderCount,
     topItems,
     topItemsByRevenue,
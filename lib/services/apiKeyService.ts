@@ -0,0 +1,240 @@
+import net from 'net';
+import { after } from 'next/server';
+import type { Session } from 'next-auth';
+import ApiKey from '@/lib/models/ApiKey';
+import AuditLog from '@/lib/models/AuditLog';
+import { getRedisClient, getRedisIfReady } from '@/lib/db/redisClient';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import { hashApiKey } from '@/lib/utils/apiKeyUtils';
+import {
+  API_KEY_DEFAULT_RATE_LIMIT,
+  API_KEY_MAX_RATE_LIMIT,
+  API_KEY_SCOPE_VALUES,
+} from '@/constants/apiKeyConstants';
+import type { ApiKey as ApiKeyEntity, ApiKeyScope, CreateApiKeyData } from '@/types';
+
+const logger = createLogger('ApiKeyService');
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+const MAX_EXPIRY_DAYS = 365;
+
+/**
+ * Endpoints reachable with an API key and the scope each needs
+ * Anything not listed (users, webhooks, API key management...) stays session-only.
+ */
+const SCOPE_RULES: Array<{ pattern: RegExp; read: ApiKeyScope; write: ApiKeyScope }> = [
+  { pattern: /^\/api\/orders(\/|$)/, read: 'orders:read', write: 'orders:write' },
+  { pattern: /^\/api\/stock(\/|$)/, read: 'stock:write', write: 'stock:write' },
+  { pattern: /^\/api\/items\/[^/]+\/stock(\/|$)/, read: 'stock:write', write: 'stock:write' },
+  { pattern: /^\/api\/materials(\/|$)/, read: 'stock:write', write: 'stock:write' },
+  { pattern: /^\/api\/suppliers(\/|$)/, read: 'stock:write', write: 'stock:write' },
+  { pattern: /^\/api\/purchase-orders(\/|$)/, read: 'stock:write', write: 'stock:write' },
+  { pattern: /^\/api\/reports(\/|$)/, read: 'reports:read', write: 'reports:read' },
+  { pattern: /^\/api\/analytics(\/|$)/, read: 'reports:read', write: 'reports:read' },
+];
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export interface ApiKeyPrincipal {
+  apiKey: ApiKeyEntity;
+  user: {
+    id: number;
+    googleId: string;
+    email: string;
+    name: string;
+    picture: string | null;
+    role: 'admin' | 'user';
+  };
+  scope: ApiKeyScope;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the current window ends */
+  resetSeconds: number;
+}
+
+/** Per-process counters used when Redis is not configured */
+const localCounters = new Map<string, number>();
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+/**
+ * Scope an API key needs to call an endpoint
+ * @returns The scope, or null when the endpoint cannot be called with an API key
+ */
+export function getRequiredScope(pathname: string, method: string): ApiKeyScope | null {
+  const rule = SCOPE_RULES.find(({ pattern }) => pattern.test(pathname));
+  if (!rule) return null;
+  return READ_METHODS.has(method.toUpperCase()) ? rule.read : rule.write;
+}
+
+/**
+ * Validate a create-key body
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseApiKeyInput(body: Record<string, unknown>): CreateApiKeyData {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) badRequest('Name is required');
+  if (name.length > 100) badRequest('Name must be 100 characters or fewer');
+
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) badRequest('Select at least one scope');
+  const unknown = body.scopes.filter((scope) => !API_KEY_SCOPE_VALUES.includes(scope as ApiKeyScope));
+  if (unknown.length > 0) {
+    badRequest(`Unknown scope(s): ${unknown.join(', ')}. Must be one of: ${API_KEY_SCOPE_VALUES.join(', ')}`);
+  }
+
+  const data: CreateApiKeyData = { name, scopes: body.scopes as ApiKeyScope[] };
+
+  if (body.expiresInDays !== undefined && body.expiresInDays !== null) {
+    const days = Number(body.expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      badRequest(`expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}`);
+    }
+    data.expiresInDays = days;
+  }
+
+  if (body.rateLimitPerMinute !== undefined) {
+    const limit = Number(body.rateLimitPerMinute);
+    if (!Number.isInteger(limit) || limit < 1 || limit > API_KEY_MAX_RATE_LIMIT) {
+      badRequest(`rateLimitPerMinute must be a whole number between 1 and ${API_KEY_MAX_RATE_LIMIT}`);
+    }
+    data.rateLimitPerMinute = limit;
+  }
+
+  return data;
+}
+
+/**
+ * Resolve a key and check it may call an endpoint
+ * @throws {ApiError} 401 for unknown, revoked or expired keys; 403 when the key lacks the scope
+ */
+export async function authenticateApiKey(key: string, pathname: string, method: string): Promise<ApiKeyPrincipal> {
+  const found = await ApiKey.findByHash(hashApiKey(key));
+  if (!found) {
+    throw new ApiError(HTTP_STATUS.UNAUTHORIZED, 'Unauthorized - Invalid API key');
+  }
+
+  const { apiKey, user } = found;
+  if (apiKey.revokedAt) {
+    throw new ApiError(HTTP_STATUS.UNAUTHORIZED, 'Unauthorized - API key has been revoked');
+  }
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+    throw new ApiError(HTTP_STATUS.UNAUTHORIZED, 'Unauthorized - API key has expired');
+  }
+
+  const scope = getRequiredScope(pathname, method);
+  if (!scope) {
+    throw new ApiError(HTTP_STATUS.FORBIDDEN, 'Forbidden: This endpoint cannot be called with an API key');
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    throw new ApiError(HTTP_STATUS.FORBIDDEN, `Forbidden: API key is missing the ${scope} scope`);
+  }
+
+  return { apiKey, user, scope };
+}
+
+/**
+ * Count a request against the key's per-minute limit
+ * Uses a fixed one-minute window in Redis, shared by all instances; without
+ * Redis each instance keeps its own count.
+ */
+export async function consumeApiKeyRateLimit(apiKey: ApiKeyEntity): Promise<RateLimitResult> {
+  const limit = apiKey.rateLimitPerMinute || API_KEY_DEFAULT_RATE_LIMIT;
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const window = Math.floor(nowSeconds / RATE_LIMIT_WINDOW_SECONDS);
+  const resetSeconds = (window + 1) * RATE_LIMIT_WINDOW_SECONDS - nowSeconds;
+  const counterKey = `api_key_rate:${apiKey.id}:${window}`;
+
+  let count: number | null = null;
+  try {
+    const redis = getRedisIfReady() || await getRedisClient();
+    if (redis) {
+      count = await redis.incr(counterKey);
+      if (count === 1) await redis.expire(counterKey, RATE_LIMIT_WINDOW_SECONDS);
+    }
+  } catch (error) {
+    logger.warn('Redis rate limit check failed, using local counter', error);
+  }
+
+  if (count === null) {
+    for (const existing of localCounters.keys()) {
+      if (!existing.endsWith(`:${window}`)) localCounters.delete(existing);
+    }
+    count = (localCounters.get(counterKey) || 0) + 1;
+    localCounters.set(counterKey, count);
+  }
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetSeconds,
+  };
+}
+
+/**
+ * Update the key's last-used time and add an api_call entry to the audit log
+ * Runs after the response; failures are logged, never surfaced to the caller.
+ */
+export function recordApiKeyCall(principal: ApiKeyPrincipal, request: Request) {
+  const { apiKey, user, scope } = principal;
+  const { pathname, search } = new URL(request.url);
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+
+  const task = async () => {
+    await ApiKey.touchLastUsed(apiKey.id);
+    await AuditLog.create({
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      action: 'api_call',
+      userId: user.id,
+      userEmail: user.email,
+      userName: user.name,
+      ipAddress: forwardedFor && net.isIP(forwardedFor) ? forwardedFor : undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      metadata: {
+        method: request.method,
+        path: pathname + search,
+        scope,
+        keyName: apiKey.name,
+        keyPrefix: apiKey.keyPrefix,
+      },
+    });
+  };
+
+  const guarded = () => task().catch((error) => logger.error('Failed to record API key call', error));
+  try {
+    after(guarded);
+  } catch {
+    void guarded();
+  }
+}
+
+/**
+ * Build the session route handlers see for an API key call
+ * The key acts as its owner, so role checks in handlers still apply.
+ */
+export function toApiKeySession(principal: ApiKeyPrincipal): Session {
+  const { apiKey, user } = principal;
+  return {
+    user: {
+      id: user.googleId,
+      email: user.email,
+      name: user.name,
+      image: user.picture,
+      dbUserId: user.id,
+      role: user.role,
+      apiKeyId: apiKey.id,
+      apiKeyScopes: apiKey.scopes,
+    },
+    expires: apiKey.expiresAt || new Date(Date.now() + RATE_LIMIT_WINDOW_SECONDS * 1000).toISOString(),
+  };
+}
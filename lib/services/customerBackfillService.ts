@@ -0,0 +1,328 @@
+import { sql } from 'drizzle-orm';
+import { getDatabase, type Database } from '@/lib/db/connection';
+import { customers } from '@/lib/db/schema';
+import Customer, { newCustomerFromOrder } from '@/lib/models/Customer';
+import AuditLog from '@/lib/models/AuditLog';
+import ImportExportService from '@/lib/services/importExportService';
+import { emitWebhookEvent } from '@/lib/services/webhookService';
+import { executeWithRetry } from '@/lib/utils/dbRetry';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import type { CustomerBackfillGroup, CustomerBackfillReport, CustomerBackfillStatus, OrderSource } from '@/types';
+
+/**
+ * Customer backfill
+ *
+ * Links every order that has no customers row (orders.customer_id_ref is NULL) to
+ * one. Orders are grouped by their business customer ID: a group whose ID belongs
+ * to a customer is linked to it (or to the customer it was merged into), and any
+ * other group gets a new customer built from its latest order's name, address and
+ * source. A dry run reports what would happen without writing anything. Every
+ * customer created raises customer.created once its chunk has committed.
+ *
+ * Runs are tracked as 'backfill' jobs in import_export_jobs. Groups are written in
+ * chunks, each chunk one batch, so a failed chunk leaves the others in place and the
+ * job can simply be run again. Once no order is left unlinked the job makes
+ * orders.customer_id_ref NOT NULL.
+ */
+
+const logger = createLogger('CustomerBackfillService');
+
+const GROUP_CHUNK_SIZE = 100;
+const REPORT_GROUP_LIMIT = 200;
+const MAX_MERGE_DEPTH = 10;
+/** A run still marked processing after this long is assumed to have died */
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+interface BackfillUser {
+  id?: number;
+  email?: string;
+  name?: string;
+}
+
+/** A type rather than an interface, so it can type raw query rows */
+type OrderGroup = {
+  customerId: string;
+  customerName: string;
+  address: string | null;
+  orderFrom: OrderSource | null;
+  orderCount: number;
+};
+
+interface PlannedGroup {
+  group: OrderGroup;
+  /** The existing customer to link to; null when one has to be created */
+  target: { id: number; customerId: string } | null;
+}
+
+async function countUnlinkedOrders(db: Database): Promise<number> {
+  const result = await db.execute<{ count: number }>(sql`SELECT count(*)::int AS count FROM orders WHERE customer_id_ref IS NULL`);
+  return result.rows[0].count;
+}
+
+async function isEnforced(db: Database): Promise<boolean> {
+  const result = await db.execute<{ isNullable: string }>(sql`
+    SELECT is_nullable AS "isNullable"
+    FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'orders' AND column_name = 'customer_id_ref'
+  `);
+  return result.rows[0]?.isNullable === 'NO';
+}
+
+/**
+ * Unlinked orders grouped by business customer ID, largest groups first
+ */
+async function findUnlinkedGroups(db: Database): Promise<OrderGroup[]> {
+  const result = await db.execute<OrderGroup>(sql`
+    SELECT
+      customer_id AS "customerId",
+      (array_agg(customer_name ORDER BY created_at DESC))[1] AS "customerName",
+      (array_agg(address ORDER BY created_at DESC) FILTER (WHERE address IS NOT NULL AND address <> ''))[1] AS address,
+      (array_agg(order_from ORDER BY created_at DESC))[1] AS "orderFrom",
+      count(*)::int AS "orderCount"
+    FROM orders
+    WHERE customer_id_ref IS NULL
+    GROUP BY customer_id
+    ORDER BY count(*) DESC, customer_id
+  `);
+  return result.rows;
+}
+
+/**
+ * Match each group to an existing customer, following merges to the survivor
+ */
+async function planGroups(db: Database, groups: OrderGroup[]): Promise<PlannedGroup[]> {
+  const rows = await db
+    .select({ id: customers.id, customerId: customers.customerId, mergedIntoId: customers.mergedIntoId })
+    .from(customers);
+  const byBusinessId = new Map(rows.map(row => [row.customerId, row]));
+  const byId = new Map(rows.map(row => [row.id, row]));
+
+  return groups.map(group => {
+    let customer = byBusinessId.get(group.customerId);
+    for (let depth = 0; customer?.mergedIntoId && depth < MAX_MERGE_DEPTH; depth++) {
+      customer = byId.get(customer.mergedIntoId);
+    }
+    return { group, target: customer ? { id: customer.id, customerId: customer.customerId } : null };
+  });
+}
+
+function toReportGroup({ group, target }: PlannedGroup): CustomerBackfillGroup {
+  return {
+    customerId: group.customerId,
+    customerName: group.customerName,
+    orderCount: group.orderCount,
+    action: target ? 'link' : 'create',
+    linkedCustomerId: target?.customerId ?? null,
+  };
+}
+
+/**
+ * Create the chunk's missing customers and link its orders in one batch
+ * @returns the number of orders linked, the customers involved and the ones created
+ */
+async function writeChunk(db: Database, chunk: PlannedGroup[]): Promise<{ linked: number; customerIds: number[]; createdIds: number[] }> {
+  const toCreate = chunk.filter(planned => !planned.target);
+
+  // Allocate IDs up front so the orders can point at new customers in the same batch
+  let newIds: number[] = [];
+  if (toCreate.length > 0) {
+    const idResult = await db.execute<{ id: number }>(sql`
+      SELECT nextval(pg_get_serial_sequence('customers', 'id'))::int AS id
+      FROM generate_series(1, ${toCreate.length})
+    `);
+    newIds = idResult.rows.map(row => row.id);
+  }
+  const targets = chunk.map(planned => {
+    if (planned.target) return planned.target;
+    const id = newIds[toCreate.indexOf(planned)];
+    return { id, customerId: planned.group.customerId.trim() };
+  });
+
+  const linkValues = chunk.map((planned, index) =>
+    sql`(${planned.group.customerId}, ${targets[index].id}::int, ${targets[index].customerId})`
+  );
+  const link = db.execute<{ id: number }>(sql`
+    UPDATE orders o
+    SET customer_id_ref = v.customer_ref, customer_id = v.target_customer_id, updated_at = NOW()
+    FROM (VALUES ${sql.join(linkValues, sql`, `)}) AS v(customer_id, customer_ref, target_customer_id)
+    WHERE o.customer_id_ref IS NULL AND o.customer_id = v.customer_id
+    RETURNING o.id
+  `);
+
+  let linked;
+  if (toCreate.length > 0) {
+    const insert = db.insert(customers).values(toCreate.map((planned, index) => ({
+      id: newIds[index],
+      ...newCustomerFromOrder(planned.group),
+    })));
+    [, linked] = await db.batch([insert, link]);
+  } else {
+    [linked] = await db.batch([link]);
+  }
+  return {
+    linked: linked.rows.length,
+    customerIds: [...new Set(targets.map(target => target.id))],
+    createdIds: newIds,
+  };
+}
+
+/**
+ * How many orders are still unlinked, whether the FK is enforced, and recent runs
+ */
+export async function getCustomerBackfillStatus(): Promise<CustomerBackfillStatus> {
+  const { unlinkedOrders, enforced } = await executeWithRetry(async () => {
+    const db: Database = getDatabase();
+    return { unlinkedOrders: await countUnlinkedOrders(db), enforced: await isEnforced(db) };
+  }, { operationName: 'CustomerBackfill.status' });
+
+  const jobs = await ImportExportService.getRecentJobs({ jobType: 'backfill', limit: 5 });
+  return { unlinkedOrders, enforced, jobs };
+}
+
+/**
+ * Run the backfill
+ * Body: { dryRun? } — a dry run unless dryRun is false
+ * @throws ApiError 409 when another run is in progress
+ */
+export async function runCustomerBackfill(body: Record<string, unknown>, user: BackfillUser): Promise<CustomerBackfillReport> {
+  const dryRun = body.dryRun !== false;
+
+  const [latest] = await ImportExportService.getRecentJobs({ jobType: 'backfill', limit: 1 });
+  if (latest?.status === 'processing' && Date.now() - new Date(latest.startedAt ?? latest.createdAt).getTime() < STALE_JOB_MS) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'A customer backfill is already running');
+  }
+
+  const db: Database = getDatabase();
+  const groups: OrderGroup[] = await executeWithRetry(() => findUnlinkedGroups(db), { operationName: 'CustomerBackfill.findUnlinkedGroups' });
+  const planned: PlannedGroup[] = await executeWithRetry(() => planGroups(db, groups), { operationName: 'CustomerBackfill.planGroups' });
+  const unlinkedOrders = groups.reduce((sum, group) => sum + group.orderCount, 0);
+  const toCreate = planned.filter(item => !item.target).length;
+
+  const job = await ImportExportService.createJob({
+    jobType: 'backfill',
+    entityType: 'customer',
+    fileName: dryRun ? 'Customer backfill (dry run)' : 'Customer backfill',
+    totalRecords: unlinkedOrders,
+    userId: user.id,
+    userEmail: user.email,
+  });
+
+  const report: CustomerBackfillReport = {
+    jobId: job.id,
+    dryRun,
+    unlinkedOrders,
+    ordersLinked: 0,
+    customersCreated: 0,
+    customersMatched: planned.length - toCreate,
+    errorCount: 0,
+    errors: [],
+    groups: planned.slice(0, REPORT_GROUP_LIMIT).map(toReportGroup),
+    enforced: false,
+  };
+
+  if (dryRun) {
+    report.ordersLinked = unlinkedOrders;
+    report.customersCreated = toCreate;
+    report.enforced = await executeWithRetry(() => isEnforced(db), { operationName: 'CustomerBackfill.isEnforced' });
+    await ImportExportService.updateJob(job.id, {
+      status: 'completed',
+      processedRecords: unlinkedOrders,
+      successCount: unlinkedOrders,
+      startedAt: new Date(),
+      completedAt: new Date(),
+    });
+    return report;
+  }
+
+  await ImportExportService.updateJob(job.id, { status: 'processing', startedAt: new Date() });
+
+  try {
+    let processed = 0;
+    for (let start = 0; start < planned.length; start += GROUP_CHUNK_SIZE) {
+      const chunk = planned.slice(start, start + GROUP_CHUNK_SIZE);
+      const chunkOrders = chunk.reduce((sum, item) => sum + item.group.orderCount, 0);
+
+      try {
+        const { linked, customerIds, createdIds } = await executeWithRetry(
+          () => writeChunk(db, chunk),
+          { operationName: 'CustomerBackfill.writeChunk' }
+        );
+        report.ordersLinked += linked;
+        report.customersCreated += createdIds.length;
+        await Customer.updateStatsBulk(customerIds);
+        for (const id of createdIds) {
+          const customer = await Customer.findById(id);
+          if (customer) await emitWebhookEvent('customer.created', { customer });
+        }
+      } catch (error) {
+        logger.error('Customer backfill chunk failed', error);
+        report.errorCount += chunkOrders;
+        report.errors.push({
+          row: start + 1,
+          field: 'customerId',
+          message: `${chunk[0].group.customerId} to ${chunk[chunk.length - 1].group.customerId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+
+      processed += chunkOrders;
+      await ImportExportService.updateJob(job.id, {
+        processedRecords: processed,
+        successCount: report.ordersLinked,
+        errorCount: report.errorCount,
+      });
+    }
+
+    // Orders placed while running are linked by Order.create, so none should be left
+    const remaining = await executeWithRetry(() => countUnlinkedOrders(db), { operationName: 'CustomerBackfill.countUnlinkedOrders' });
+    if (remaining === 0) {
+      try {
+        await executeWithRetry(
+          () => db.execute(sql`ALTER TABLE orders ALTER COLUMN customer_id_ref SET NOT NULL`),
+          { operationName: 'CustomerBackfill.enforce' }
+        );
+        report.enforced = true;
+      } catch (error) {
+        logger.error('Could not make orders.customer_id_ref NOT NULL', error);
+      }
+    }
+
+    await ImportExportService.updateJob(job.id, {
+      status: 'completed',
+      errors: report.errors,
+      completedAt: new Date(),
+    });
+  } catch (error) {
+    await ImportExportService.updateJob(job.id, { status: 'failed', errors: report.errors, completedAt: new Date() });
+    throw error;
+  }
+
+  await AuditLog.create({
+    entityType: 'customer',
+    entityId: 0, // Bulk operation
+    action: 'bulk_update',
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    metadata: {
+      event: 'customer_backfill',
+      jobId: job.id,
+      unlinkedOrders,
+      ordersLinked: report.ordersLinked,
+      customersCreated: report.customersCreated,
+      customersMatched: report.customersMatched,
+      errorCount: report.errorCount,
+      enforced: report.enforced,
+    },
+  });
+
+  logger.info('Customer backfill completed', {
+    jobId: job.id,
+    ordersLinked: report.ordersLinked,
+    customersCreated: report.customersCreated,
+    errors: report.errorCount,
+    enforced: report.enforced,
+  });
+  return report;
+}
@@ -0,0 +1,145 @@
+import Customer from '@/lib/models/Customer';
+import CustomerAddress, { toAddressSnapshot } from '@/lib/models/CustomerAddress';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { formatCustomerAddress, normalizeContactValue } from '@/lib/utils/customerContactUtils';
+import { INDIAN_STATES } from '@/constants/gstConstants';
+import {
+  CUSTOMER_ADDRESS_FIELD_MAX_LENGTH,
+  CUSTOMER_CONTACT_CHANNELS,
+  CUSTOMER_CONTACT_LABEL_MAX_LENGTH,
+  CUSTOMER_CONTACT_VALUE_MAX_LENGTH,
+  PIN_CODE_PATTERN,
+} from '@/constants/customerContactConstants';
+import type { CustomerAddressData, CustomerAddressSnapshot, CustomerContactChannel, CustomerContactData } from '@/types';
+
+/**
+ * Customer addresses and contact channels
+ *
+ * A customer has any number of saved addresses, one of them the default, and any
+ * number of contacts (phone, WhatsApp, Instagram, Facebook, email). The default
+ * address is copied onto the customer record. An order placed to a saved address
+ * keeps a snapshot of it, so later edits to the address do not rewrite history.
+ */
+
+/** Optional address fields and their labels in error messages */
+const OPTIONAL_ADDRESS_FIELDS: Array<['label' | 'line2' | 'city' | 'landmark', string]> = [
+  ['label', 'Label'],
+  ['line2', 'Address line 2'],
+  ['city', 'City'],
+  ['landmark', 'Landmark'],
+];
+
+const CHANNEL_ERRORS: Record<CustomerContactChannel, string> = {
+  phone: 'Phone number must have at least 7 digits',
+  whatsapp: 'WhatsApp number must have at least 7 digits',
+  instagram: 'Instagram handle is required',
+  facebook: 'Facebook profile is required',
+  email: 'Email address must contain @',
+};
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function optionalText(value: unknown, label: string): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') badRequest(`${label} must be a string`);
+  const trimmed = value.trim();
+  if (trimmed.length > CUSTOMER_ADDRESS_FIELD_MAX_LENGTH) {
+    badRequest(`${label} must be ${CUSTOMER_ADDRESS_FIELD_MAX_LENGTH} characters or fewer`);
+  }
+  return trimmed || null;
+}
+
+/**
+ * Validate an address create or update body
+ * States are matched case-insensitively to the list of Indian states.
+ * @param isUpdate - Fields are optional when updating; isDefault can only be turned on
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseCustomerAddressInput(body: Record<string, unknown>, isUpdate: boolean = false): Partial<CustomerAddressData> {
+  const data: Partial<CustomerAddressData> = {};
+
+  if (body.line1 !== undefined || !isUpdate) {
+    const line1 = optionalText(body.line1, 'Address line 1');
+    if (!line1) badRequest('Address line 1 is required');
+    data.line1 = line1;
+  }
+  for (const [field, label] of OPTIONAL_ADDRESS_FIELDS) {
+    if (body[field] !== undefined) data[field] = optionalText(body[field], label);
+  }
+  if (body.state !== undefined) {
+    const state = optionalText(body.state, 'State');
+    const match = state ? INDIAN_STATES.find(candidate => candidate.toLowerCase() === state.toLowerCase()) : null;
+    if (state && !match) badRequest(`${state} is not an Indian state or union territory`);
+    data.state = match ?? null;
+  }
+  if (body.pinCode !== undefined) {
+    const pinCode = optionalText(body.pinCode, 'PIN code')?.replaceAll(/\s/g, '') || null;
+    if (pinCode && !PIN_CODE_PATTERN.test(pinCode)) badRequest('PIN code must be 6 digits');
+    data.pinCode = pinCode;
+  }
+  if (body.isDefault !== undefined) {
+    if (typeof body.isDefault !== 'boolean') badRequest('isDefault must be true or false');
+    if (isUpdate && !body.isDefault) badRequest('Make another address the default instead');
+    data.isDefault = body.isDefault;
+  }
+
+  return data;
+}
+
+/**
+ * Validate a contact create or update body; the value is checked for its channel
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseCustomerContactInput(body: Record<string, unknown>): CustomerContactData {
+  const channel = CUSTOMER_CONTACT_CHANNELS.find(candidate => candidate.value === body.channel)?.value;
+  if (!channel) badRequest(`channel must be one of: ${CUSTOMER_CONTACT_CHANNELS.map(c => c.value).join(', ')}`);
+
+  if (typeof body.value !== 'string') badRequest('value must be a string');
+  const value = body.value.trim();
+  if (value.length > CUSTOMER_CONTACT_VALUE_MAX_LENGTH) {
+    badRequest(`value must be ${CUSTOMER_CONTACT_VALUE_MAX_LENGTH} characters or fewer`);
+  }
+  if (!normalizeContactValue(channel, value)) badRequest(CHANNEL_ERRORS[channel]);
+
+  let label: string | null = null;
+  if (body.label !== undefined && body.label !== null) {
+    if (typeof body.label !== 'string') badRequest('label must be a string');
+    label = body.label.trim() || null;
+    if (label && label.length > CUSTOMER_CONTACT_LABEL_MAX_LENGTH) {
+      badRequest(`label must be ${CUSTOMER_CONTACT_LABEL_MAX_LENGTH} characters or fewer`);
+    }
+  }
+
+  return { channel, value, label };
+}
+
+/**
+ * The saved address an order is sent to, checked against the order's customer
+ * @param customerAddressId - From the request body; empty for no saved address
+ * @param customerId - The order's business customer ID
+ * @returns The address ID, its snapshot and the formatted text for orders.address
+ * @throws {ApiError} 400 when the address does not exist or belongs to another customer
+ */
+export async function resolveOrderAddress(
+  customerAddressId: unknown,
+  customerId: string
+): Promise<{ customerAddressId: number; addressSnapshot: CustomerAddressSnapshot; address: string } | null> {
+  if (customerAddressId === undefined || customerAddressId === null || customerAddressId === '') return null;
+
+  const id = Number(customerAddressId);
+  if (!Number.isInteger(id) || id < 1) badRequest('customerAddressId must be a saved address ID');
+
+  const [address, customer] = await Promise.all([
+    CustomerAddress.findById(id),
+    Customer.findByCustomerId(customerId),
+  ]);
+  if (!address || !customer || address.customerId !== customer.id) {
+    badRequest('The saved address does not belong to this customer');
+  }
+
+  const addressSnapshot = toAddressSnapshot(address);
+  return { customerAddressId: id, addressSnapshot, address: formatCustomerAddress(addressSnapshot) };
+}
@@ -0,0 +1,379 @@
+import Customer from '@/lib/models/Customer';
+import CustomerMerge from '@/lib/models/CustomerMerge';
+import type { CustomerMergeFields } from '@/lib/models/CustomerMerge';
+import AuditLog from '@/lib/models/AuditLog';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import { normalizeEmail, normalizePhone } from '@/lib/utils/customerContactUtils';
+import type { Customer as CustomerEntity, CustomerDuplicate, CustomerMerge as CustomerMergeEntity } from '@/types';
+
+/**
+ * Customer deduplication
+ *
+ * Pairs of customers are scored out of 100 on a normalized phone (50), email (40),
+ * name similarity (up to 30) and address similarity (up to 20). Only pairs that share
+ * a phone, an email or a name word are compared, so the check stays quick as the
+ * customer list grows.
+ *
+ * Merging keeps the survivor, fills its empty contact fields from the other customer,
+ * appends the other customer's notes and moves every order, loyalty entry and balance,
+ * saved address and contact across. The merged customer is hidden rather than deleted and the merge records what it changed, so
+ * it can be undone.
+ */
+
+const logger = createLogger('CustomerDedupeService');
+
+const DEFAULT_MIN_SCORE = 50;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/** Name words shared by more customers than this are too common to pair on */
+const MAX_NAME_BLOCK_SIZE = 200;
+const MIN_NAME_SIMILARITY = 0.6;
+const MIN_ADDRESS_SIMILARITY = 0.3;
+
+const SCORE_WEIGHTS = { phone: 50, email: 40, name: 30, address: 20 };
+
+const NAME_TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'smt', 'shri', 'sri', 'kumari']);
+
+/** Fields copied onto the survivor when it has none */
+const FILLABLE_FIELDS = ['email', 'phone', 'address', 'state'] as const;
+
+interface MergeUser {
+  id?: number;
+  email?: string;
+  name?: string;
+}
+
+interface NormalizedCustomer {
+  customer: CustomerEntity;
+  phone: string | null;
+  email: string | null;
+  nameTokens: string[];
+  name: string;
+  addressTokens: Set<string>;
+  pinCode: string | null;
+}
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function tokenize(value: string | null | undefined): string[] {
+  return (value || '')
+    .toLowerCase()
+    .replaceAll(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+}
+
+function nameTokens(name: string): string[] {
+  return tokenize(name).filter(token => !NAME_TITLES.has(token));
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const pair = value.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice similarity of character pairs, 0-1; word order does not matter
+ */
+function nameSimilarity(a: NormalizedCustomer, b: NormalizedCustomer): number {
+  if (!a.name || !b.name) return 0;
+  if (a.name === b.name) return 1;
+
+  const left = bigrams(a.name.replaceAll(' ', ''));
+  const right = bigrams(b.name.replaceAll(' ', ''));
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of left) {
+    shared += Math.min(count, right.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of right.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Word overlap of two addresses, with a matching 6-digit PIN code counting for 40%
+ */
+function addressSimilarity(a: NormalizedCustomer, b: NormalizedCustomer): { similarity: number; samePin: boolean } {
+  if (a.addressTokens.size === 0 || b.addressTokens.size === 0) return { similarity: 0, samePin: false };
+
+  let shared = 0;
+  for (const token of a.addressTokens) {
+    if (b.addressTokens.has(token)) shared++;
+  }
+  const overlap = shared / (a.addressTokens.size + b.addressTokens.size - shared);
+  const samePin = a.pinCode !== null && a.pinCode === b.pinCode;
+  return { similarity: (samePin ? 0.4 : 0) + 0.6 * overlap, samePin };
+}
+
+function normalizeCustomer(customer: CustomerEntity): NormalizedCustomer {
+  const tokens = nameTokens(customer.name);
+  return {
+    customer,
+    phone: normalizePhone(customer.phone),
+    email: normalizeEmail(customer.email),
+    nameTokens: tokens,
+    name: [...tokens].sort((x, y) => x.localeCompare(y)).join(' '),
+    addressTokens: new Set(tokenize(customer.address).filter(token => token.length > 1)),
+    pinCode: /\b\d{6}\b/.exec(customer.address || '')?.[0] ?? null,
+  };
+}
+
+/**
+ * Score one pair
+ * @returns the score (capped at 100) and why the pair matched
+ */
+function scorePair(a: NormalizedCustomer, b: NormalizedCustomer): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (a.phone && a.phone === b.phone) {
+    score += SCORE_WEIGHTS.phone;
+    reasons.push('Same phone');
+  }
+  if (a.email && a.email === b.email) {
+    score += SCORE_WEIGHTS.email;
+    reasons.push('Same email');
+  }
+
+  const name = nameSimilarity(a, b);
+  if (name >= MIN_NAME_SIMILARITY) {
+    score += Math.round(SCORE_WEIGHTS.name * name);
+    reasons.push(name === 1 ? 'Same name' : 'Similar name');
+  }
+
+  const address = addressSimilarity(a, b);
+  if (address.similarity >= MIN_ADDRESS_SIMILARITY) {
+    score += Math.round(SCORE_WEIGHTS.address * address.similarity);
+    reasons.push(address.samePin ? 'Same PIN code' : 'Similar address');
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+function pairKey(idA: number, idB: number): string {
+  return idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+}
+
+/**
+ * Likely duplicate pairs, highest score first
+ * Query: minScore (default 50), limit (default 50, at most 200). Dismissed pairs are left out.
+ */
+export async function findDuplicateCustomers(query: { minScore?: string | null; limit?: string | null } = {}): Promise<CustomerDuplicate[]> {
+  const minScore = query.minScore ? Number.parseInt(query.minScore, 10) : DEFAULT_MIN_SCORE;
+  if (Number.isNaN(minScore) || minScore < 1 || minScore > 100) badRequest('minScore must be between 1 and 100');
+  const limit = query.limit ? Number.parseInt(query.limit, 10) : DEFAULT_LIMIT;
+  if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIMIT) badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+
+  const [allCustomers, dismissedPairs] = await Promise.all([
+    Customer.findUnmerged() as Promise<CustomerEntity[]>,
+    CustomerMerge.findDismissedPairs(),
+  ]);
+  const dismissed = new Set(dismissedPairs.map(([a, b]) => pairKey(a, b)));
+  const normalized = allCustomers.map(normalizeCustomer);
+
+  // Group customers sharing a phone, an email or a name word; only those are compared
+  const blocks = new Map<string, NormalizedCustomer[]>();
+  const addToBlock = (key: string, customer: NormalizedCustomer) => {
+    const block = blocks.get(key);
+    if (block) block.push(customer);
+    else blocks.set(key, [customer]);
+  };
+  for (const customer of normalized) {
+    if (customer.phone) addToBlock(`phone:${customer.phone}`, customer);
+    if (customer.email) addToBlock(`email:${customer.email}`, customer);
+    for (const token of new Set(customer.nameTokens)) {
+      if (token.length >= 3) addToBlock(`name:${token}`, customer);
+    }
+  }
+
+  const seen = new Set<string>();
+  const duplicates: CustomerDuplicate[] = [];
+  for (const [key, block] of blocks) {
+    if (block.length < 2 || (key.startsWith('name:') && block.length > MAX_NAME_BLOCK_SIZE)) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pair = pairKey(block[i].customer.id, block[j].customer.id);
+        if (seen.has(pair) || dismissed.has(pair)) continue;
+        seen.add(pair);
+
+        const { score, reasons } = scorePair(block[i], block[j]);
+        if (score >= minScore) {
+          duplicates.push({ score, reasons, customers: [block[i].customer, block[j].customer] });
+        }
+      }
+    }
+  }
+
+  return duplicates
+    .sort((x, y) => y.score - x.score)
+    .slice(0, limit);
+}
+
+function parseCustomerId(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) badRequest(`${name} must be a customer ID`);
+  return value;
+}
+
+/**
+ * Mark a pair as not duplicates so it stops being suggested
+ * Body: { customerIds: [a, b] }
+ */
+export async function dismissDuplicate(body: Record<string, unknown>, user: MergeUser): Promise<void> {
+  const ids = body.customerIds;
+  if (!Array.isArray(ids) || ids.length !== 2) badRequest('customerIds must list two customers');
+  const [a, b] = ids.map(id => parseCustomerId(id, 'customerIds'));
+  if (a === b) badRequest('customerIds must list two different customers');
+
+  await CustomerMerge.dismissPair(a, b, user.id);
+}
+
+/**
+ * Survivor fields before and after taking on the merged customer's details
+ */
+function planSurvivorChanges(survivor: CustomerEntity, merged: CustomerEntity): { before: CustomerMergeFields; after: CustomerMergeFields } {
+  const before: CustomerMergeFields = {};
+  const after: CustomerMergeFields = {};
+
+  for (const field of FILLABLE_FIELDS) {
+    if (!survivor[field] && merged[field]) {
+      before[field] = survivor[field];
+      after[field] = merged[field];
+    }
+  }
+
+  if (merged.notes) {
+    const mergedNotes = `Merged from ${merged.customerId} (${merged.name}): ${merged.notes}`;
+    before.notes = survivor.notes;
+    after.notes = survivor.notes ? `${survivor.notes}\n\n${mergedNotes}` : mergedNotes;
+  }
+
+  return { before, after };
+}
+
+/**
+ * Merge one customer into another
+ * Body: { survivorId, mergedId, score? }
+ * @returns null when either customer does not exist
+ * @throws ApiError 409 when either customer has already been merged
+ */
+export async function mergeCustomers(body: Record<string, unknown>, user: MergeUser): Promise<CustomerMergeEntity | null> {
+  const survivorId = parseCustomerId(body.survivorId, 'survivorId');
+  const mergedId = parseCustomerId(body.mergedId, 'mergedId');
+  if (survivorId === mergedId) badRequest('A customer cannot be merged into itself');
+  let score: number | null = null;
+  if (body.score !== undefined && body.score !== null) {
+    if (typeof body.score !== 'number' || !Number.isInteger(body.score)) badRequest('score must be a whole number');
+    score = body.score;
+  }
+
+  const [survivor, merged] = await Promise.all([
+    Customer.findById(survivorId) as Promise<CustomerEntity | null>,
+    Customer.findById(mergedId) as Promise<CustomerEntity | null>,
+  ]);
+  if (!survivor || !merged) return null;
+  for (const customer of [survivor, merged]) {
+    if (customer.mergedIntoId) {
+      throw new ApiError(HTTP_STATUS.CONFLICT, `${customer.customerId} has already been merged into another customer`);
+    }
+  }
+
+  const { before, after } = planSurvivorChanges(survivor, merged);
+  const merge = await CustomerMerge.create({
+    survivorId,
+    mergedId,
+    survivorBefore: before,
+    survivorAfter: after,
+    score,
+    userId: user.id,
+  });
+
+  await Promise.all([Customer.updateStats(survivorId), Customer.updateStats(mergedId)]);
+
+  await AuditLog.create({
+    entityType: 'customer',
+    entityId: survivorId,
+    action: 'update',
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    previousData: before,
+    newData: after,
+    metadata: {
+      event: 'customer_merged',
+      mergeId: merge.id,
+      mergedId,
+      mergedCustomerId: merged.customerId,
+      orderCount: merge.orderCount,
+      score,
+    },
+  });
+
+  logger.info('Customers merged', { mergeId: merge.id, survivorId, mergedId, orders: merge.orderCount });
+  return merge;
+}
+
+/**
+ * Undo a merge: the merged customer reappears with the orders, loyalty entries and
+ * balances, addresses and contacts that still belong to the survivor, and survivor
+ * fields not edited since the merge are put back
+ * @returns null when the merge does not exist
+ * @throws ApiError 409 when it was already undone, the survivor has since been merged
+ *   itself, or the survivor has spent points or store credit that came over
+ */
+export async function revertCustomerMerge(id: number, user: MergeUser): Promise<{ merge: CustomerMergeEntity; ordersRestored: number } | null> {
+  const record = await CustomerMerge.findRecordById(id);
+  if (!record) return null;
+  if (record.revertedAt) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'This merge has already been undone');
+  }
+
+  const survivor = await Customer.findById(record.survivorId) as CustomerEntity | null;
+  if (survivor?.mergedIntoId) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, `${survivor.customerId} has since been merged into another customer; undo that merge first`);
+  }
+
+  const restore: CustomerMergeFields = {};
+  for (const [field, value] of Object.entries(record.survivorAfter as CustomerMergeFields)) {
+    if (survivor && survivor[field as keyof CustomerEntity] === value) {
+      restore[field] = (record.survivorBefore as CustomerMergeFields)[field] ?? null;
+    }
+  }
+
+  const ordersRestored = await CustomerMerge.revert(id, restore, user.id);
+  if (ordersRestored === null) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'This merge has already been undone');
+  }
+  await Promise.all([Customer.updateStats(record.survivorId), Customer.updateStats(record.mergedId)]);
+
+  await AuditLog.create({
+    entityType: 'customer',
+    entityId: record.mergedId,
+    action: 'restore',
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    metadata: {
+      event: 'customer_merge_reverted',
+      mergeId: id,
+      survivorId: record.survivorId,
+      ordersRestored,
+      loyaltyPointsRestored: record.loyaltyPoints,
+      storeCreditRestored: Number(record.storeCredit),
+      fieldsRestored: Object.keys(restore),
+    },
+  });
+
+  logger.info('Customer merge undone', { mergeId: id, ordersRestored });
+  const merge = await CustomerMerge.findById(id) as CustomerMergeEntity;
+  return { merge, ordersRestored };
+}
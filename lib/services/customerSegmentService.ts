@@ -0,0 +1,181 @@
+import Customer, { type CustomerListFilters } from '@/lib/models/Customer';
+import CustomerSegment from '@/lib/models/CustomerSegment';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import {
+  CUSTOMER_LIFECYCLE_STAGES,
+  CUSTOMER_SEGMENT_FIELDS,
+  CUSTOMER_SEGMENT_LIST_OPERATORS,
+  CUSTOMER_SEGMENT_MAX_RULES,
+  CUSTOMER_SEGMENT_NAME_MAX_LENGTH,
+  CUSTOMER_SEGMENT_NUMBER_OPERATORS,
+} from '@/constants/customerSegmentConstants';
+import type {
+  CustomerLifecycleStage,
+  CustomerRfmRunResult,
+  CustomerSegment as CustomerSegmentEntity,
+  CustomerSegmentData,
+  CustomerSegmentOverview,
+  CustomerSegmentRule,
+  CustomerSegmentRules,
+} from '@/types';
+
+/**
+ * Customer segmentation
+ *
+ * Lifecycle stages come from the nightly RFM scorer (Customer.updateRfmScores).
+ * Saved segments hold rules over customer fields, order sources and purchased
+ * categories, evaluated in SQL whenever a segment is listed, filtered or exported.
+ * A segment filter is either a lifecycle stage name ("loyal") or a saved segment ID.
+ */
+
+const logger = createLogger('CustomerSegmentService');
+
+/** Longest value allowed in a list rule, e.g. a state name */
+const RULE_VALUE_MAX_LENGTH = 100;
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function isLifecycleStage(value: string): value is CustomerLifecycleStage {
+  return CUSTOMER_LIFECYCLE_STAGES.some(stage => stage.value === value);
+}
+
+function parseRule(value: unknown, index: number): CustomerSegmentRule {
+  const label = `Rule ${index + 1}`;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) badRequest(`${label} must be an object`);
+  const { field, operator, value: ruleValue } = value as Record<string, unknown>;
+
+  const definition = CUSTOMER_SEGMENT_FIELDS.find(candidate => candidate.value === field);
+  if (!definition) badRequest(`${label}: field must be one of: ${CUSTOMER_SEGMENT_FIELDS.map(f => f.value).join(', ')}`);
+
+  if (definition.kind === 'number') {
+    if (!CUSTOMER_SEGMENT_NUMBER_OPERATORS.includes(operator as CustomerSegmentRule['operator'])) {
+      badRequest(`${label}: operator must be one of: ${CUSTOMER_SEGMENT_NUMBER_OPERATORS.join(', ')}`);
+    }
+    const number = typeof ruleValue === 'string' ? Number(ruleValue) : ruleValue;
+    if (typeof number !== 'number' || !Number.isFinite(number)) badRequest(`${label}: value must be a number`);
+    return { field: definition.value, operator: operator as CustomerSegmentRule['operator'], value: number };
+  }
+
+  if (!CUSTOMER_SEGMENT_LIST_OPERATORS.includes(operator as CustomerSegmentRule['operator'])) {
+    badRequest(`${label}: operator must be one of: ${CUSTOMER_SEGMENT_LIST_OPERATORS.join(', ')}`);
+  }
+  if (!Array.isArray(ruleValue) || ruleValue.length === 0) badRequest(`${label}: value must be a non-empty list`);
+
+  let values: Array<string | number>;
+  if (definition.value === 'category') {
+    values = ruleValue.map(Number);
+    if (values.some(id => !Number.isInteger(id) || (id as number) < 1)) badRequest(`${label}: value must be category IDs`);
+  } else {
+    values = ruleValue.map(item => String(item).trim()).filter(Boolean);
+    if (values.some(item => (item as string).length > RULE_VALUE_MAX_LENGTH)) {
+      badRequest(`${label}: values must be ${RULE_VALUE_MAX_LENGTH} characters or fewer`);
+    }
+    // Fixed lists are checked here so the SQL never compares an enum with an unknown value
+    const options = definition.options && definition.value !== 'state' ? definition.options.map(option => option.value) : null;
+    const unknown = options && values.find(item => !options.includes(item as string));
+    if (unknown) badRequest(`${label}: ${unknown} is not one of: ${options.join(', ')}`);
+  }
+  return { field: definition.value, operator: operator as CustomerSegmentRule['operator'], value: [...new Set(values)] };
+}
+
+/**
+ * Check a segment's rule expression
+ * @throws {ApiError} 400 describing the first invalid rule
+ */
+export function parseSegmentRules(value: unknown): CustomerSegmentRules {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) badRequest('rules must be an object with match and rules');
+  const { match, rules } = value as Record<string, unknown>;
+  if (match !== 'all' && match !== 'any') badRequest('rules.match must be all or any');
+  if (!Array.isArray(rules) || rules.length === 0) badRequest('Add at least one rule');
+  if (rules.length > CUSTOMER_SEGMENT_MAX_RULES) badRequest(`A segment can have at most ${CUSTOMER_SEGMENT_MAX_RULES} rules`);
+  return { match, rules: rules.map(parseRule) };
+}
+
+/**
+ * Validate a segment create or update body
+ * @param isUpdate - Fields are optional when updating
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseCustomerSegmentInput(body: Record<string, unknown>, isUpdate: boolean = false): Partial<CustomerSegmentData> {
+  const data: Partial<CustomerSegmentData> = {};
+
+  if (body.name !== undefined || !isUpdate) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) badRequest('Name is required');
+    if (name.length > CUSTOMER_SEGMENT_NAME_MAX_LENGTH) badRequest(`Name must be ${CUSTOMER_SEGMENT_NAME_MAX_LENGTH} characters or fewer`);
+    data.name = name;
+  }
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') badRequest('description must be a string');
+    data.description = body.description?.trim() || null;
+  }
+  if (body.rules !== undefined || !isUpdate) {
+    data.rules = parseSegmentRules(body.rules);
+  }
+
+  return data;
+}
+
+/**
+ * Customer list filters for a segment query parameter
+ * @param segment - A lifecycle stage name or a saved segment ID; empty for no filter
+ * @throws {ApiError} 400 for anything else, 404 when the segment does not exist
+ */
+export async function resolveSegmentFilter(segment: string | null | undefined): Promise<Pick<CustomerListFilters, 'lifecycleStage' | 'segmentRules'>> {
+  if (!segment) return {};
+  if (isLifecycleStage(segment)) return { lifecycleStage: segment };
+
+  const segmentId = Number(segment);
+  if (!Number.isInteger(segmentId) || segmentId < 1) {
+    badRequest(`segment must be a saved segment ID or one of: ${CUSTOMER_LIFECYCLE_STAGES.map(stage => stage.value).join(', ')}`);
+  }
+  const saved = await CustomerSegment.findById(segmentId);
+  if (!saved) throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Segment not found');
+  return { segmentRules: saved.rules };
+}
+
+/**
+ * Fill in how many customers each segment matches right now
+ * A segment whose count fails keeps a null count rather than failing the whole list.
+ */
+export async function withSegmentCounts(segments: CustomerSegmentEntity[]): Promise<CustomerSegmentEntity[]> {
+  return Promise.all(segments.map(async (segment) => {
+    try {
+      return { ...segment, customerCount: await CustomerSegment.countMatching(segment.rules) };
+    } catch (error) {
+      logger.warn('Failed to count customer segment', { segmentId: segment.id, error });
+      return segment;
+    }
+  }));
+}
+
+/**
+ * Lifecycle stage counts and saved segments with their counts
+ */
+export async function getCustomerSegmentOverview(): Promise<CustomerSegmentOverview> {
+  const [{ stages, scoredAt }, segments] = await Promise.all([
+    Customer.countByLifecycleStage(),
+    CustomerSegment.findAll().then(withSegmentCounts),
+  ]);
+  return {
+    stages: CUSTOMER_LIFECYCLE_STAGES.map(({ value }) => ({
+      stage: value,
+      customerCount: stages.find(row => row.stage === value)?.customerCount ?? 0,
+    })),
+    segments,
+    scoredAt,
+  };
+}
+
+/**
+ * Re-score every customer and set their lifecycle stage
+ */
+export async function runCustomerRfmScoring(): Promise<CustomerRfmRunResult> {
+  const result = await Customer.updateRfmScores();
+  logger.info('Customer RFM scoring completed', { scored: result.scored, stages: result.stages });
+  return result;
+}
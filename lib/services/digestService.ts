@@ -7,6 +7,8 @@ import { orders, orderReminderState, digestRuns, notificationRecipients } from '
 import { createLogger } from '@/lib/utils/logger';
 import { computeDigestBuckets, getTodayInKolkata, formatDateForDigest, getKolkataStartOfDay } from '@/lib/utils/digestBuckets';
 import { sendEmail, buildDigestEmailHtml, buildDigestEmailText } from '@/lib/services/emailService';
+import { sendSavedViewDigests } from '@/lib/services/savedViewService';
+import { runDigestReplenishment } from '@/lib/services/replenishmentService';
 
 const logger = createLogger('DigestService');
 
@@ -261,13 +263,14 @@ async function fetchOrdersForAllBuckets(buckets) {
 }
 
 /**
- * Check if all order buckets are empty
- * @param {Object} bucketData - Object containing order arrays for each bucket
- * @returns {boolean} True if all buckets are empty
+ * Check if all order buckets and the reorder list are empty
+ * @param {Object} bucketData - Object containing order arrays for each bucket and reorderItems
+ * @returns {boolean} True if there is nothing to send
  */
 function areAllBucketsEmpty(bucketData) {
-  const { overdueOrders, oneDayOrders, threeDayOrders, sevenDayOrders } = bucketData;
-  return overdueOrders.length === 0 && oneDayOrders.length === 0 && threeDayOrders.length === 0 && sevenDayOrders.length === 0;
+  const { overdueOrders, oneDayOrders, threeDayOrders, sevenDayOrders, reorderItems } = bucketData;
+  return overdueOrders.length === 0 && oneDayOrders.length === 0 && threeDayOrders.length === 0 && sevenDayOrders.length === 0
+    && reorderItems.length === 0;
 }
 
 /**
@@ -308,23 +311,40 @@ export async function runDailyDigest() {
   }
   
   await upsertDigestRun(digestDate, 'started');
-  
+
+  // Saved view subscribers get their own email whether or not the reminder goes out.
+  // Each step logs its own failure so it cannot stop the reminder digest.
+  let savedViewRecipientCount = 0;
+  try {
+    savedViewRecipientCount = await sendSavedViewDigests(digestDate);
+  } catch (error) {
+    logger.error('Saved view digests failed', error);
+  }
+
+  // Runs before the recipient check so thresholds are kept up to date either way
+  let reorderItems = [];
+  try {
+    reorderItems = await runDigestReplenishment();
+  } catch (error) {
+    logger.error('Replenishment for digest failed', error);
+  }
+
   try {
     const recipients = await getEnabledRecipients();
     
     if (recipients.length === 0) {
       logger.warn('No enabled recipients found');
       await upsertDigestRun(digestDate, 'sent');
-      return { status: 'sent', digestDate, message: 'No recipients configured' };
+      return { status: 'sent', digestDate, message: 'No recipients configured', savedViewRecipientCount };
     }
     
     const buckets = computeDigestBuckets();
-    const bucketData = await fetchOrdersForAllBuckets(buckets);
+    const bucketData = { ...(await fetchOrdersForAllBuckets(buckets)), reorderItems };
     
     if (areAllBucketsEmpty(bucketData)) {
-      logger.info('No orders to send in digest');
+      logger.info('No orders or reorders to send in digest');
       await upsertDigestRun(digestDate, 'sent');
-      return { status: 'sent', digestDate, message: 'No orders requiring reminders' };
+      return { status: 'sent', digestDate, message: 'No orders requiring reminders', savedViewRecipientCount };
     }
     
     const recipientEmails = await sendDigestEmail(recipients, bucketData, digestDate);
@@ -334,7 +354,8 @@ export async function runDailyDigest() {
     logger.info('Daily digest completed successfully', {
       digestDate,
       recipientCount: recipientEmails.length,
-      orderCount: totalOrders
+      orderCount: totalOrders,
+      reorderCount: reorderItems.length
     });
     
     return {
@@ -345,7 +366,9 @@ export async function runDailyDigest() {
         oneDay: bucketData.oneDayOrders.length,
         threeDay: bucketData.threeDayOrders.length,
         sevenDay: bucketData.sevenDayOrders.length
-      }
+      },
+      reorderCount: reorderItems.length,
+      savedViewRecipientCount
     };
   } catch (error: any) {
     logger.error('Daily digest failed', error);
@@ -44,9 +44,10 @@ function getTransporter() {
  * @param {string} options.subject - Email subject
  * @param {string} options.html - HTML body of the email
  * @param {string} [options.text] - Plain text body (optional)
+ * @param {Array} [options.attachments] - Nodemailer attachments ({ filename, content, contentType })
  * @returns {Promise<Object|null>} Send result or null if SMTP not configured
  */
-export async function sendEmail({ to, subject, html, text }) {
+export async function sendEmail({ to, subject, html, text, attachments }) {
   const transporter = getTransporter();
   
   if (!transporter) {
@@ -63,7 +64,8 @@ export async function sendEmail({ to, subject, html, text }) {
     html,
     // Use provided text or let nodemailer handle text generation from HTML
     // We don't manually strip HTML to avoid security issues with incomplete sanitization
-    text: text || undefined
+    text: text || undefined,
+    attachments: attachments || undefined
   };
 
   try {
@@ -86,11 +88,12 @@ export async function sendEmail({ to, subject, html, text }) {
  * @param {Array} buckets.oneDayOrders - Orders due in 1 day
  * @param {Array} buckets.threeDayOrders - Orders due in 3 days
  * @param {Array} buckets.sevenDayOrders - Orders due in 7 days
+ * @param {Array} [buckets.reorderItems] - Stock recommendations due for reorder
  * @param {string} digestDate - The digest date (YYYY-MM-DD in Kolkata)
  * @param {Function} formatDate - Function to format dates
  * @returns {string} HTML content for the email
  */
-export function buildDigestEmailHtml({ overdueOrders, oneDayOrders, threeDayOrders, sevenDayOrders }, digestDate, formatDate) {
+export function buildDigestEmailHtml({ overdueOrders, oneDayOrders, threeDayOrders, sevenDayOrders, reorderItems = [] }, digestDate, formatDate) {
   const sections = [];
 
   const renderOrdersTable = (orders) => {
@@ -174,6 +177,45 @@ export function buildDigestEmailHtml({ overdueOrders, oneDayOrders, threeDayOrde
     </div>
   `);
 
+  if (reorderItems.length > 0) {
+    const rows = reorderItems.map(item => `
+      <tr>
+        <td style="padding: 8px; border: 1px solid #ddd;">${escapeHtml(item.itemName)}</td>
+        <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${item.stockQuantity}</td>
+        <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${item.onOrderQuantity}</td>
+        <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${item.daysOfCover ?? '–'}</td>
+        <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${item.reorderQuantity}</td>
+        <td style="padding: 8px; border: 1px solid #ddd;">${escapeHtml(item.reorderDate)}</td>
+      </tr>
+    `).join('');
+
+    sections.push(`
+      <div style="margin-bottom: 24px; background-color: #f3e5f5; padding: 16px; border-left: 5px solid #7b1fa2; border-radius: 4px;">
+        <h2 style="color: #7b1fa2; margin-top: 0; margin-bottom: 12px;">
+          📦 Stock to Reorder (${reorderItems.length})
+        </h2>
+        <p style="margin: 0 0 12px 0; color: #4a148c;">
+          Based on recent sales and supplier lead times
+        </p>
+        <table style="border-collapse: collapse; width: 100%; margin-bottom: 16px;">
+          <thead>
+            <tr style="background-color: #f5f5f5;">
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Item</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">In Stock</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">On Order</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Days of Cover</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Reorder Qty</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Reorder By</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+      </div>
+    `);
+  }
+
   const totalPending = (overdueOrders ? overdueOrders.length : 0) + 
                        (oneDayOrders ? oneDayOrders.length : 0) + 
                        (threeDayOrders ? threeDayOrders.length : 0) + 
@@ -221,11 +263,12 @@ export function buildDigestEmailHtml({ overdueOrders, oneDayOrders, threeDayOrde
  * @param {Array} buckets.oneDayOrders - Orders due in 1 day
  * @param {Array} buckets.threeDayOrders - Orders due in 3 days
  * @param {Array} buckets.sevenDayOrders - Orders due in 7 days
+ * @param {Array} [buckets.reorderItems] - Stock recommendations due for reorder
  * @param {string} digestDate - The digest date (YYYY-MM-DD in Kolkata)
  * @param {Function} formatDate - Function to format dates
  * @returns {string} Plain text content for the email
  */
-export function buildDigestEmailText({ overdueOrders, oneDayOrders, threeDayOrders, sevenDayOrders }, digestDate, formatDate) {
+export function buildDigestEmailText({ overdueOrders, oneDayOrders, threeDayOrders, sevenDayOrders, reorderItems = [] }, digestDate, formatDate) {
   const lines = [];
   
   const totalPending = (overdueOrders ? overdueOrders.length : 0) + 
@@ -285,9 +328,148 @@ export function buildDigestEmailText({ overdueOrders, oneDayOrders, threeDayOrde
     'Plan ahead - deliveries expected later this week'
   );
 
+  if (reorderItems.length > 0) {
+    const title = `📦 STOCK TO REORDER (${reorderItems.length})`;
+    lines.push('');
+    lines.push(title);
+    lines.push('='.repeat(title.length));
+    lines.push('Based on recent sales and supplier lead times');
+    lines.push('');
+    for (const item of reorderItems) {
+      lines.push(`• ${item.itemName} | ${item.stockQuantity} in stock, ${item.onOrderQuantity} on order | order ${item.reorderQuantity} by ${item.reorderDate}`);
+    }
+    lines.push('');
+  }
+
   lines.push('---');
   lines.push('This is an automated reminder from the Order Management System.');
   lines.push('You receive this email daily to help prioritize and manage pending deliveries.');
   
   return lines.join('\n');
 }
+
+function escapeHtml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build the HTML content for the saved views digest email
+ * @param {Array} views - One entry per subscribed view: { name, total, orders }
+ * @param {string} digestDate - The digest date (YYYY-MM-DD in Kolkata)
+ * @param {Function} formatDate - Function to format dates
+ * @returns {string} HTML content for the email
+ */
+export function buildSavedViewsEmailHtml(views, digestDate, formatDate) {
+  const sections = views.map(view => {
+    const rows = view.orders.map(order => `
+      <tr>
+        <td style="padding: 8px; border: 1px solid #ddd;">${escapeHtml(order.orderId)}</td>
+        <td style="padding: 8px; border: 1px solid #ddd;">${escapeHtml(order.customerName)}</td>
+        <td style="padding: 8px; border: 1px solid #ddd;">${order.expectedDeliveryDate ? formatDate(order.expectedDeliveryDate) : '—'}</td>
+        <td style="padding: 8px; border: 1px solid #ddd;">${escapeHtml(order.status)}</td>
+        <td style="padding: 8px; border: 1px solid #ddd;">${escapeHtml(order.paymentStatus)}</td>
+      </tr>
+    `).join('');
+
+    const more = view.total - view.orders.length;
+    const table = view.orders.length === 0
+      ? '<p style="color: #666; font-style: italic;">No matching orders</p>'
+      : `
+        <table style="border-collapse: collapse; width: 100%; margin-bottom: 8px;">
+          <thead>
+            <tr style="background-color: #f5f5f5;">
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Order ID</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Customer Name</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Expected Delivery</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Status</th>
+              <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Payment</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+        ${more > 0 ? `<p style="margin: 0; color: #666;">…and ${more} more</p>` : ''}
+      `;
+
+    return `
+      <div style="margin-bottom: 24px; background-color: #f3f6ff; padding: 16px; border-left: 5px solid #5568d3; border-radius: 4px;">
+        <h2 style="color: #5568d3; margin-top: 0; margin-bottom: 12px;">
+          ${escapeHtml(view.name)} (${view.total})
+        </h2>
+        ${table}
+      </div>
+    `;
+  });
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Saved Order Views</title>
+    </head>
+    <body style="font-family: Arial, sans-serif; max-width: 900px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
+      <div style="background-color: #5568d3; color: white; padding: 20px; border-radius: 8px 8px 0 0;">
+        <h1 style="margin: 0; font-size: 24px;">
+          📋 Saved Order Views
+        </h1>
+        <p style="margin: 8px 0 0 0; font-size: 14px; opacity: 0.9;">
+          ${digestDate} (IST) • ${views.length} view${views.length === 1 ? '' : 's'}
+        </p>
+      </div>
+      <div style="background-color: white; padding: 20px; border-radius: 0 0 8px 8px;">
+        ${sections.join('')}
+        <hr style="border: none; border-top: 1px solid #ddd; margin-top: 24px;">
+        <p style="color: #999; font-size: 12px; margin-top: 16px;">
+          You receive this email because you subscribed to these views in Order History.
+          Turn the digest off from the view's menu to stop it.
+        </p>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Build the plain text content for the saved views digest email
+ * @param {Array} views - One entry per subscribed view: { name, total, orders }
+ * @param {string} digestDate - The digest date (YYYY-MM-DD in Kolkata)
+ * @param {Function} formatDate - Function to format dates
+ * @returns {string} Plain text content for the email
+ */
+export function buildSavedViewsEmailText(views, digestDate, formatDate) {
+  const lines = [];
+
+  lines.push('📋 SAVED ORDER VIEWS');
+  lines.push('====================');
+  lines.push(`Report for ${digestDate} (IST)`);
+  lines.push('');
+
+  for (const view of views) {
+    const title = `${view.name} (${view.total})`;
+    lines.push(title);
+    lines.push('-'.repeat(title.length));
+    if (view.orders.length === 0) {
+      lines.push('No matching orders');
+    } else {
+      for (const order of view.orders) {
+        const delivery = order.expectedDeliveryDate ? formatDate(order.expectedDeliveryDate) : '—';
+        lines.push(`• ${order.orderId} | ${order.customerName} | ${delivery} | ${order.status} | ${order.paymentStatus}`);
+      }
+      const more = view.total - view.orders.length;
+      if (more > 0) lines.push(`…and ${more} more`);
+    }
+    lines.push('');
+  }
+
+  lines.push('---');
+  lines.push('You receive this email because you subscribed to these views in Order History.');
+  lines.push("Turn the digest off from the view's menu to stop it.");
+
+  return lines.join('\n');
+}
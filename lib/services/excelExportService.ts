@@ -67,6 +67,23 @@ export const REPORT_COLUMNS = {
     { key: 'lastOrderDate', header: 'Last Order', width: 12, format: 'date' },
   ] as ReportColumn[],
 
+  customerList: [
+    { key: 'customerId', header: 'Customer ID', width: 20, format: 'text' },
+    { key: 'name', header: 'Name', width: 25, format: 'text' },
+    { key: 'phone', header: 'Phone', width: 15, format: 'text' },
+    { key: 'email', header: 'Email', width: 25, format: 'text' },
+    { key: 'state', header: 'State', width: 15, format: 'text' },
+    { key: 'source', header: 'Source', width: 10, format: 'text' },
+    { key: 'totalOrders', header: 'Total Orders', width: 12, format: 'number' },
+    { key: 'totalSpent', header: 'Total Spent', width: 15, format: 'currency' },
+    { key: 'firstOrderDate', header: 'First Order', width: 12, format: 'date' },
+    { key: 'lastOrderDate', header: 'Last Order', width: 12, format: 'date' },
+    { key: 'lifecycleStage', header: 'Stage', width: 10, format: 'text' },
+    { key: 'recencyScore', header: 'R', width: 4, format: 'number' },
+    { key: 'frequencyScore', header: 'F', width: 4, format: 'number' },
+    { key: 'monetaryScore', header: 'M', width: 4, format: 'number' },
+  ] as ReportColumn[],
+
   auditLogs: [
     { key: 'createdAt', header: 'Timestamp', width: 20, format: 'datetime' },
     { key: 'entityType', header: 'Entity Type', width: 12, format: 'text' },
@@ -76,6 +93,20 @@ export const REPORT_COLUMNS = {
     { key: 'userEmail', header: 'Email', width: 25, format: 'text' },
     { key: 'changedFields', header: 'Changed Fields', width: 30, format: 'text' },
   ] as ReportColumn[],
+
+  stockTakeVariance: [
+    { key: 'itemId', header: 'Item ID', width: 8, format: 'number' },
+    { key: 'itemName', header: 'Item', width: 30, format: 'text' },
+    { key: 'designName', header: 'Design', width: 20, format: 'text' },
+    { key: 'supplierSku', header: 'SKU', width: 15, format: 'text' },
+    { key: 'expectedQuantity', header: 'Expected', width: 10, format: 'number' },
+    { key: 'countedQuantity', header: 'Counted', width: 10, format: 'number' },
+    { key: 'variance', header: 'Variance', width: 10, format: 'number' },
+    { key: 'unitCost', header: 'Unit Cost', width: 12, format: 'currency' },
+    { key: 'varianceValue', header: 'Variance Value', width: 15, format: 'currency' },
+    { key: 'countedByEmail', header: 'Counted By', width: 25, format: 'text' },
+    { key: 'countedAt', header: 'Counted At', width: 18, format: 'datetime' },
+  ] as ReportColumn[],
 };
 
 /**
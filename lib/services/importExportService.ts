@@ -5,6 +5,7 @@ import { orders, orderItems, items, importExportJobs } from '@/lib/db/schema';
 import Order from '@/lib/models/Order';
 import Item from '@/lib/models/Item';
 import AuditLog from '@/lib/models/AuditLog';
+import { emitWebhookEvent } from '@/lib/services/webhookService';
 import { executeWithRetry } from '@/lib/utils/dbRetry';
 import { createLogger } from '@/lib/utils/logger';
 import type { 
@@ -160,7 +161,7 @@ const ImportExportService = {
    * Create an import/export job record
    */
   async createJob(data: {
-    jobType: 'import' | 'export';
+    jobType: 'import' | 'export' | 'backfill';
     entityType: string;
     fileName?: string;
     totalRecords?: number;
@@ -237,17 +238,25 @@ const ImportExportService = {
   },
 
   /**
-   * Get recent jobs for a user
+   * Get recent jobs, optionally for one user or of one type
    */
-  async getRecentJobs(options?: { userId?: number; limit?: number }) {
+  async getRecentJobs(options?: { userId?: number; jobType?: 'import' | 'export' | 'backfill'; limit?: number }) {
     return executeWithRetry(async () => {
       const db = getDatabase();
       const limit = options?.limit || 20;
       
+      const conditions = [];
+      if (options?.userId) {
+        conditions.push(eq(importExportJobs.userId, options.userId));
+      }
+      if (options?.jobType) {
+        conditions.push(eq(importExportJobs.jobType, options.jobType));
+      }
+
       let query = db.select().from(importExportJobs);
       
-      if (options?.userId) {
-        query = query.where(eq(importExportJobs.userId, options.userId)) as typeof query;
+      if (conditions.length > 0) {
+        query = query.where(and(...conditions)) as typeof query;
       }
       
       const result = await query
@@ -338,7 +347,10 @@ const ImportExportService = {
           continue;
         }
         
-        // Create the order
+        const totalPrice = matchedItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+        // Create the order; amounts paid land in the payments ledger, so an order
+        // imported as paid without an amount is treated as paid in full
         const order = await Order.create({
           orderFrom: orderData.orderFrom,
           customerName: orderData.customerName,
@@ -347,10 +359,11 @@ const ImportExportService = {
           orderDate: orderData.orderDate,
           expectedDeliveryDate: orderData.expectedDeliveryDate,
           paymentStatus: orderData.paymentStatus,
-          paidAmount: orderData.paidAmount,
+          paidAmount: orderData.paidAmount ?? (orderData.paymentStatus === 'paid' ? totalPrice : undefined),
           confirmationStatus: orderData.confirmationStatus,
           customerNotes: orderData.customerNotes,
           priority: orderData.priority,
+          totalPrice,
           items: matchedItems.map(item => ({
             item: item.itemId,
             name: item.name,
@@ -358,6 +371,12 @@ const ImportExportService = {
             quantity: item.quantity,
             customizationRequest: item.customizationRequest,
           })),
+        }, {
+          // Imported orders are historical; their stock movements already happened
+          stockPolicy: 'skip',
+          userId: user?.id,
+          userEmail: user?.email,
+          onCustomerCreated: customer => emitWebhookEvent('customer.created', { customer }),
         });
         
         // Log audit entry
@@ -371,6 +390,7 @@ const ImportExportService = {
           newData: { orderId: order.orderId },
           metadata: { jobId, rowIndex },
         });
+        await emitWebhookEvent('order.created', { order });
         
         successCount++;
       } catch (error) {
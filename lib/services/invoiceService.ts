@@ -0,0 +1,598 @@
+import { DateTime } from 'luxon';
+import Order from '@/lib/models/Order';
+import Item from '@/lib/models/Item';
+import Customer from '@/lib/models/Customer';
+import Invoice from '@/lib/models/Invoice';
+import { sendEmail } from '@/lib/services/emailService';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import { getFinancialYear, splitInclusiveAmount } from '@/lib/utils/gstUtils';
+import { createPdfDocument, wrapText, type PdfDocument } from '@/lib/utils/pdfDocument';
+import { isInterStateSupply } from '@/lib/utils/orderTotals';
+import { getDefaultTaxRate } from '@/lib/services/orderPricingService';
+import type { Customer as CustomerEntity, Item as ItemEntity, Order as OrderEntity, OrderItem } from '@/types';
+
+const logger = createLogger('InvoiceService');
+
+const MARGIN = 40;
+const CONTENT_WIDTH = 515;
+const FOOTER_SPACE = 120;
+const IMAGE_FETCH_TIMEOUT_MS = 5000;
+const HEADER_FILL: [number, number, number] = [0.93, 0.93, 0.93];
+const MUTED: [number, number, number] = [0.4, 0.4, 0.4];
+
+interface DocumentUser {
+  id?: number;
+  email?: string;
+  name?: string;
+}
+
+export interface BusinessDetails {
+  name: string;
+  address: string;
+  gstin: string;
+  state: string;
+  phone: string;
+  email: string;
+}
+
+/** What an invoice PDF prints from the invoice record */
+interface IssuedInvoice {
+  invoiceNumber: string;
+  issuedAt: string;
+}
+
+interface InvoiceLine {
+  name: string;
+  hsnCode: string;
+  quantity: number;
+  rate: number;
+  taxRate: number;
+  taxableValue: number;
+  taxAmount: number;
+  amount: number;
+}
+
+/**
+ * Seller details printed on invoices and packing slips, from environment variables
+ */
+export function getBusinessDetails(): BusinessDetails {
+  return {
+    name: process.env.BUSINESS_NAME || 'Order Management',
+    address: process.env.BUSINESS_ADDRESS || '',
+    gstin: (process.env.BUSINESS_GSTIN || '').trim().toUpperCase(),
+    state: process.env.BUSINESS_STATE || '',
+    phone: process.env.BUSINESS_PHONE || '',
+    email: process.env.BUSINESS_EMAIL || '',
+  };
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(value: string | Date | null | undefined): string {
+  if (!value) return '-';
+  const date = typeof value === 'string' ? DateTime.fromISO(value) : DateTime.fromJSDate(value);
+  return date.setZone('Asia/Kolkata').toFormat('dd LLL yyyy');
+}
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function belowThousand(value: number): string {
+  const words: string[] = [];
+  if (value >= 100) {
+    words.push(`${ONES[Math.floor(value / 100)]} Hundred`);
+    value %= 100;
+  }
+  if (value >= 20) {
+    words.push(TENS[Math.floor(value / 10)]);
+    value %= 10;
+  }
+  if (value > 0) words.push(ONES[value]);
+  return words.join(' ');
+}
+
+/**
+ * Amount in words using the Indian numbering system (lakh, crore)
+ */
+function amountInWords(amount: number): string {
+  let rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+
+  const parts: string[] = [];
+  for (const [divisor, label] of [[10000000, 'Crore'], [100000, 'Lakh'], [1000, 'Thousand']] as const) {
+    if (rupees >= divisor) {
+      parts.push(`${belowThousand(Math.floor(rupees / divisor))} ${label}`);
+      rupees %= divisor;
+    }
+  }
+  if (rupees > 0) parts.push(belowThousand(rupees));
+
+  const words = `Rupees ${parts.length > 0 ? parts.join(' ') : 'Zero'}`;
+  return paise > 0 ? `${words} and ${belowThousand(paise)} Paise Only` : `${words} Only`;
+}
+
+/**
+ * Load an order with its items and customer; 404 when the order does not exist
+ */
+async function loadOrderContext(orderId: number) {
+  const order: OrderEntity | null = await Order.findById(orderId);
+  if (!order) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Order not found');
+  }
+
+  const [itemsById, customer]: [Map<number, ItemEntity>, CustomerEntity | null] = await Promise.all([
+    Item.findByIds(order.items.map(line => line.item)),
+    Customer.findByCustomerId(order.customerId),
+  ]);
+
+  return { order, itemsById, customer };
+}
+
+/**
+ * Price lines split into taxable value and GST
+ * Uses the values computed when the order was priced. Orders placed before
+ * the tax breakdown existed fall back to the captured or current rate and
+ * treat the line price as tax-inclusive.
+ */
+function buildInvoiceLines(order: OrderEntity, itemsById: Map<number, ItemEntity>): InvoiceLine[] {
+  const defaultRate = getDefaultTaxRate();
+
+  return order.items.map(line => {
+    const item = itemsById.get(line.item);
+    const taxRate = line.taxRate ?? item?.taxRate ?? defaultRate;
+    const { taxableValue, taxAmount } = line.taxableValue === null || line.taxableValue === undefined
+      ? splitInclusiveAmount(Math.round(line.price * line.quantity * 100) / 100, taxRate)
+      : { taxableValue: line.taxableValue, taxAmount: line.taxAmount ?? 0 };
+    const amount = Math.round((taxableValue + taxAmount) * 100) / 100;
+
+    return {
+      name: line.name,
+      hsnCode: line.hsnCode || item?.hsnCode || '',
+      quantity: line.quantity,
+      rate: line.price,
+      taxRate,
+      taxableValue,
+      taxAmount,
+      amount,
+    };
+  });
+}
+
+/**
+ * Draw the seller block on the left and document details on the right
+ * @returns y position below the header
+ */
+function drawHeader(pdf: PdfDocument, title: string, business: BusinessDetails, details: Array<[string, string]>): number {
+  pdf.text(title, MARGIN + CONTENT_WIDTH / 2, 50, { size: 16, bold: true, align: 'center' });
+
+  let y = 80;
+  pdf.text(business.name, MARGIN, y, { size: 13, bold: true });
+  y += 14;
+  for (const line of wrapText(business.address, 260, 9)) {
+    if (!line) continue;
+    pdf.text(line, MARGIN, y, { size: 9 });
+    y += 11;
+  }
+  if (business.state) {
+    pdf.text(`State: ${business.state}`, MARGIN, y, { size: 9 });
+    y += 11;
+  }
+  if (business.gstin) {
+    pdf.text(`GSTIN: ${business.gstin}`, MARGIN, y, { size: 9, bold: true });
+    y += 11;
+  }
+  const contact = [business.phone, business.email].filter(Boolean).join(' | ');
+  if (contact) {
+    pdf.text(contact, MARGIN, y, { size: 9 });
+    y += 11;
+  }
+
+  let detailY = 80;
+  for (const [label, value] of details) {
+    pdf.text(label, 390, detailY, { size: 9, color: MUTED });
+    pdf.text(value, MARGIN + CONTENT_WIDTH, detailY, { size: 9, bold: true, align: 'right' });
+    detailY += 13;
+  }
+
+  return Math.max(y, detailY) + 8;
+}
+
+/**
+ * Draw the recipient block
+ * @returns y position below the block
+ */
+function drawAddressBlock(pdf: PdfDocument, label: string, order: OrderEntity, customer: CustomerEntity | null, startY: number): number {
+  pdf.line(MARGIN, startY, MARGIN + CONTENT_WIDTH, startY);
+  let y = startY + 16;
+  pdf.text(label, MARGIN, y, { size: 9, bold: true, color: MUTED });
+  y += 14;
+  pdf.text(order.customerName, MARGIN, y, { size: 11, bold: true });
+  y += 13;
+
+  const address = order.address || customer?.address || '';
+  for (const line of wrapText(address, 320, 9)) {
+    if (!line) continue;
+    pdf.text(line, MARGIN, y, { size: 9 });
+    y += 11;
+  }
+  const contact = [customer?.phone, customer?.email].filter(Boolean).join(' | ');
+  if (contact) {
+    pdf.text(contact, MARGIN, y, { size: 9 });
+    y += 11;
+  }
+
+  return y + 8;
+}
+
+const INVOICE_COLUMNS = [
+  { key: 'index', label: '#', width: 20, align: 'left' },
+  { key: 'name', label: 'Description', width: 150, align: 'left' },
+  { key: 'hsnCode', label: 'HSN', width: 45, align: 'left' },
+  { key: 'quantity', label: 'Qty', width: 30, align: 'right' },
+  { key: 'rate', label: 'Rate', width: 55, align: 'right' },
+  { key: 'taxableValue', label: 'Taxable', width: 65, align: 'right' },
+  { key: 'taxRate', label: 'GST %', width: 35, align: 'right' },
+  { key: 'taxAmount', label: 'GST', width: 55, align: 'right' },
+  { key: 'amount', label: 'Amount', width: 60, align: 'right' },
+] as const;
+
+function drawInvoiceTableHeader(pdf: PdfDocument, y: number): number {
+  pdf.rect(MARGIN, y, CONTENT_WIDTH, 18, { fill: HEADER_FILL });
+  let x = MARGIN;
+  for (const column of INVOICE_COLUMNS) {
+    const textX = column.align === 'right' ? x + column.width - 4 : x + 4;
+    pdf.text(column.label, textX, y + 12, { size: 8, bold: true, align: column.align });
+    x += column.width;
+  }
+  return y + 18;
+}
+
+/**
+ * Render a GST invoice as a PDF
+ */
+function renderInvoicePdf(
+  invoice: IssuedInvoice,
+  order: OrderEntity,
+  customer: CustomerEntity | null,
+  lines: InvoiceLine[],
+  business: BusinessDetails
+): Buffer {
+  const pdf = createPdfDocument();
+  pdf.addPage();
+
+  const title = business.gstin ? 'TAX INVOICE' : 'INVOICE';
+  const details: Array<[string, string]> = [
+    ['Invoice No.', invoice.invoiceNumber],
+    ['Invoice Date', formatDate(invoice.issuedAt)],
+    ['Order ID', order.orderId],
+    ['Order Date', formatDate(order.orderDate)],
+    ['Place of Supply', order.placeOfSupply || customer?.state || business.state || '-'],
+  ];
+
+  let y = drawHeader(pdf, title, business, details);
+  y = drawAddressBlock(pdf, 'BILL TO / SHIP TO', order, customer, y);
+  y = drawInvoiceTableHeader(pdf, y);
+
+  lines.forEach((line, index) => {
+    const nameLines = wrapText(line.name, INVOICE_COLUMNS[1].width - 8, 9);
+    const rowHeight = Math.max(18, nameLines.length * 11 + 7);
+
+    if (y + rowHeight > pdf.height - FOOTER_SPACE) {
+      pdf.addPage();
+      y = drawInvoiceTableHeader(pdf, MARGIN);
+    }
+
+    const values: Record<string, string> = {
+      index: String(index + 1),
+      hsnCode: line.hsnCode || '-',
+      quantity: String(line.quantity),
+      rate: formatAmount(line.rate),
+      taxableValue: formatAmount(line.taxableValue),
+      taxRate: `${line.taxRate}%`,
+      taxAmount: formatAmount(line.taxAmount),
+      amount: formatAmount(line.amount),
+    };
+
+    let x = MARGIN;
+    for (const column of INVOICE_COLUMNS) {
+      if (column.key === 'name') {
+        nameLines.forEach((text, lineIndex) => pdf.text(text, x + 4, y + 12 + lineIndex * 11, { size: 9 }));
+      } else {
+        const textX = column.align === 'right' ? x + column.width - 4 : x + 4;
+        pdf.text(values[column.key], textX, y + 12, { size: 9, align: column.align });
+      }
+      x += column.width;
+    }
+    y += rowHeight;
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { color: [0.8, 0.8, 0.8] });
+  });
+
+  if (y + FOOTER_SPACE > pdf.height - MARGIN) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+
+  const taxableTotal = lines.reduce((sum, line) => sum + line.taxableValue, 0);
+  const taxTotal = Math.round(lines.reduce((sum, line) => sum + line.taxAmount, 0) * 100) / 100;
+  const grandTotal = order.totalPrice;
+  const balanceDue = Math.max(grandTotal - order.paidAmount, 0);
+
+  // Older orders have no stored CGST/SGST/IGST split; derive it from the place of supply
+  const interState = order.taxAmount > 0
+    ? order.igstAmount > 0
+    : isInterStateSupply(business.state, order.placeOfSupply || customer?.state);
+  const cgst = order.taxAmount > 0 ? order.cgstAmount : Math.round((taxTotal / 2) * 100) / 100;
+
+  const totals: Array<[string, string, boolean]> = [
+    ['Taxable Value', formatAmount(taxableTotal), false],
+  ];
+  if (interState) {
+    totals.push(['IGST', formatAmount(taxTotal), false]);
+  } else {
+    totals.push(['CGST', formatAmount(cgst), false]);
+    totals.push(['SGST', formatAmount(Math.round((taxTotal - cgst) * 100) / 100), false]);
+  }
+  if (order.shippingAmount > 0) {
+    totals.push(['Shipping', formatAmount(order.shippingAmount), false]);
+  }
+  totals.push(['Total (Rs.)', formatAmount(grandTotal), true]);
+  if (order.paidAmount > 0) {
+    totals.push(['Amount Paid', formatAmount(order.paidAmount), false]);
+    totals.push(['Balance Due', formatAmount(balanceDue), true]);
+  }
+
+  y += 16;
+  for (const [label, value, bold] of totals) {
+    pdf.text(label, 400, y, { size: 9, bold });
+    pdf.text(value, MARGIN + CONTENT_WIDTH - 4, y, { size: 9, bold, align: 'right' });
+    y += 13;
+  }
+
+  y += 4;
+  for (const line of wrapText(`Amount in words: ${amountInWords(grandTotal)}`, CONTENT_WIDTH, 9)) {
+    pdf.text(line, MARGIN, y, { size: 9 });
+    y += 11;
+  }
+  const notes = [order.pricesIncludeTax === false ? 'GST is charged on top of the listed rates.' : 'Rates are inclusive of GST.'];
+  if (order.discountAmount > 0) {
+    notes.push(`Taxable values are after an order discount of Rs. ${formatAmount(order.discountAmount)}.`);
+    if (order.promotionCode && order.promotionDiscount > 0) {
+      notes.push(`Includes Rs. ${formatAmount(order.promotionDiscount)} off with promotion code ${order.promotionCode}.`);
+    }
+    if (order.loyaltyDiscount > 0) {
+      notes.push(`Includes Rs. ${formatAmount(order.loyaltyDiscount)} off for ${order.loyaltyPointsRedeemed} loyalty points redeemed.`);
+    }
+  }
+  for (const line of wrapText(notes.join(' '), CONTENT_WIDTH, 8)) {
+    pdf.text(line, MARGIN, y + 2, { size: 8, color: MUTED });
+    y += 10;
+  }
+
+  y += 30;
+  pdf.text(`For ${business.name}`, MARGIN + CONTENT_WIDTH, y, { size: 9, bold: true, align: 'right' });
+  pdf.text('Authorised Signatory', MARGIN + CONTENT_WIDTH, y + 36, { size: 8, align: 'right', color: MUTED });
+  pdf.text('This is a computer generated invoice.', MARGIN, y + 36, { size: 8, color: MUTED });
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Fetch a design or item image as JPEG bytes; null when it cannot be loaded
+ */
+async function loadImage(url: string): Promise<Buffer | null> {
+  try {
+    const dataUrlMatch = /^data:image\/jpe?g;base64,(.+)$/i.exec(url);
+    if (dataUrlMatch) {
+      return Buffer.from(dataUrlMatch[1], 'base64');
+    }
+    if (!/^https?:\/\//i.test(url)) return null;
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    logger.warn('Could not load image for packing slip', { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+/**
+ * Image for an order line: the chosen design, else the item's primary design or photo
+ */
+function getLineImageUrl(line: OrderItem, item: ItemEntity | undefined): string {
+  const designs = item?.designs || [];
+  const design = designs.find(d => d.id === line.designId) || (line.designId ? null : designs[0]);
+  return design?.imageUrl || item?.imageUrl || '';
+}
+
+/**
+ * Render a packing slip (no prices) with design thumbnails as a PDF
+ */
+async function renderPackingSlipPdf(
+  order: OrderEntity,
+  customer: CustomerEntity | null,
+  itemsById: Map<number, ItemEntity>,
+  business: BusinessDetails
+): Promise<Buffer> {
+  const imageCache = new Map<string, Promise<Buffer | null>>();
+  const lineImages = await Promise.all(order.items.map(line => {
+    const url = getLineImageUrl(line, itemsById.get(line.item));
+    if (!url) return null;
+    if (!imageCache.has(url)) imageCache.set(url, loadImage(url));
+    return imageCache.get(url);
+  }));
+
+  const pdf = createPdfDocument();
+  pdf.addPage();
+
+  const details: Array<[string, string]> = [
+    ['Order ID', order.orderId],
+    ['Order Date', formatDate(order.orderDate)],
+  ];
+  if (order.expectedDeliveryDate) details.push(['Deliver By', formatDate(order.expectedDeliveryDate)]);
+  if (order.deliveryPartner) details.push(['Courier', order.deliveryPartner]);
+  if (order.trackingId) details.push(['Tracking ID', order.trackingId]);
+
+  let y = drawHeader(pdf, 'PACKING SLIP', business, details);
+  y = drawAddressBlock(pdf, 'SHIP TO', order, customer, y);
+
+  const drawTableHeader = (top: number) => {
+    pdf.rect(MARGIN, top, CONTENT_WIDTH, 18, { fill: HEADER_FILL });
+    pdf.text('Design', MARGIN + 4, top + 12, { size: 8, bold: true });
+    pdf.text('Item', MARGIN + 84, top + 12, { size: 8, bold: true });
+    pdf.text('Qty', MARGIN + 455, top + 12, { size: 8, bold: true, align: 'right' });
+    pdf.text('Packed', MARGIN + CONTENT_WIDTH - 4, top + 12, { size: 8, bold: true, align: 'right' });
+    return top + 18;
+  };
+  y = drawTableHeader(y);
+
+  let totalUnits = 0;
+  order.items.forEach((line, index) => {
+    const item = itemsById.get(line.item);
+    const design = (item?.designs || []).find(d => d.id === line.designId);
+    const textLines = [
+      ...wrapText(line.name, 340, 10, true).map(text => ({ text, bold: true })),
+      ...(design ? [{ text: `Design: ${design.designName}`, bold: false }] : []),
+      ...(line.customizationRequest
+        ? wrapText(`Customization: ${line.customizationRequest}`, 340, 9).map(text => ({ text, bold: false }))
+        : []),
+    ];
+    const rowHeight = Math.max(76, textLines.length * 12 + 12);
+
+    if (y + rowHeight > pdf.height - MARGIN - 40) {
+      pdf.addPage();
+      y = drawTableHeader(MARGIN);
+    }
+
+    const image = lineImages[index];
+    if (!image || !pdf.image(image, MARGIN + 4, y + 6, 64, 64)) {
+      pdf.rect(MARGIN + 4, y + 6, 64, 64, { stroke: [0.8, 0.8, 0.8] });
+      pdf.text('No image', MARGIN + 36, y + 41, { size: 7, align: 'center', color: MUTED });
+    }
+
+    textLines.forEach((entry, lineIndex) => {
+      pdf.text(entry.text, MARGIN + 84, y + 18 + lineIndex * 12, { size: entry.bold ? 10 : 9, bold: entry.bold });
+    });
+    pdf.text(String(line.quantity), MARGIN + 455, y + 18, { size: 11, bold: true, align: 'right' });
+    pdf.rect(MARGIN + CONTENT_WIDTH - 22, y + 8, 14, 14);
+
+    totalUnits += line.quantity;
+    y += rowHeight;
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { color: [0.8, 0.8, 0.8] });
+  });
+
+  y += 18;
+  pdf.text(`Total units: ${totalUnits}`, MARGIN + CONTENT_WIDTH - 4, y, { size: 10, bold: true, align: 'right' });
+  if (order.customerNotes) {
+    for (const line of wrapText(`Notes: ${order.customerNotes}`, 380, 9)) {
+      pdf.text(line, MARGIN, y, { size: 9 });
+      y += 11;
+    }
+  }
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Get the invoice for an order, issuing the next number in the series when asked to
+ * @throws ApiError 404 when the order has no invoice and issue is false, 409 when a
+ *   cancelled order has no invoice yet
+ */
+async function loadInvoice(order: OrderEntity, issue: boolean, user?: DocumentUser) {
+  const existing = await Invoice.findByOrderId(order.id);
+  if (existing) return existing;
+
+  if (!issue) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, 'No invoice has been issued for this order yet');
+  }
+  if (order.status === 'cancelled') {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'Cancelled orders cannot be invoiced');
+  }
+
+  const invoice = await Invoice.issueForOrder({
+    orderId: order.id,
+    financialYear: getFinancialYear(),
+    prefix: process.env.INVOICE_PREFIX || 'INV',
+    userId: user?.id,
+    userEmail: user?.email,
+  });
+  if (!invoice) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Order not found');
+  }
+  logger.info('Invoice issued', { orderId: order.id, invoiceNumber: invoice.invoiceNumber });
+  return invoice;
+}
+
+function toFilename(value: string): string {
+  return value.replace(/[^A-Za-z0-9-]+/g, '_');
+}
+
+/**
+ * Build the invoice PDF for an order
+ * @param options.issue - Issue the next invoice number if the order has none yet
+ * @returns The invoice record, the PDF bytes and a download filename
+ * @throws ApiError 404 when the order, or its invoice without issue, does not exist
+ */
+export async function generateInvoice(orderId: number, options: { issue?: boolean; user?: DocumentUser } = {}) {
+  const { order, itemsById, customer } = await loadOrderContext(orderId);
+  const invoice = await loadInvoice(order, options.issue ?? false, options.user);
+  const lines = buildInvoiceLines(order, itemsById);
+  const pdf = renderInvoicePdf(invoice, order, customer, lines, getBusinessDetails());
+
+  return { invoice, order, customer, pdf, filename: `${toFilename(invoice.invoiceNumber)}.pdf` };
+}
+
+/**
+ * Build the packing slip PDF for an order
+ */
+export async function generatePackingSlip(orderId: number) {
+  const { order, itemsById, customer } = await loadOrderContext(orderId);
+  const pdf = await renderPackingSlipPdf(order, customer, itemsById, getBusinessDetails());
+
+  return { order, pdf, filename: `Packing-Slip-${toFilename(order.orderId)}.pdf` };
+}
+
+/**
+ * Email the invoice PDF to the customer (or the given address), issuing it on first use
+ * @throws ApiError 400 when no recipient is known, 503 when SMTP is not configured
+ */
+export async function emailInvoice(orderId: number, to?: string, user?: DocumentUser) {
+  const { invoice, order, customer, pdf, filename } = await generateInvoice(orderId, { issue: true, user });
+  const recipient = to?.trim() || customer?.email;
+  if (!recipient) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Customer has no email address; provide a recipient');
+  }
+
+  const business = getBusinessDetails();
+  const result = await sendEmail({
+    to: recipient,
+    subject: `Invoice ${invoice.invoiceNumber} for order ${order.orderId}`,
+    html: `
+      <p>Dear ${escapeHtml(order.customerName)},</p>
+      <p>Please find attached invoice <strong>${escapeHtml(invoice.invoiceNumber)}</strong> for your order
+      <strong>${escapeHtml(order.orderId)}</strong>.</p>
+      <p>Thank you for shopping with ${escapeHtml(business.name)}.</p>
+    `,
+    text: `Dear ${order.customerName},\n\nPlease find attached invoice ${invoice.invoiceNumber} for your order ${order.orderId}.\n\nThank you for shopping with ${business.name}.`,
+    attachments: [{ filename, content: pdf, contentType: 'application/pdf' }],
+  });
+  if (!result) {
+    throw new ApiError(HTTP_STATUS.SERVICE_UNAVAILABLE, 'Email is not configured on this server');
+  }
+
+  logger.info('Invoice emailed', { orderId, invoiceNumber: invoice.invoiceNumber });
+  return { invoice, recipient };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
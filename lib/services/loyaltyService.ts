@@ -0,0 +1,246 @@
+import { DateTime } from 'luxon';
+import Order from '@/lib/models/Order';
+import Customer from '@/lib/models/Customer';
+import CustomerLoyalty, { type LoyaltyUser } from '@/lib/models/CustomerLoyalty';
+import LoyaltySettings from '@/lib/models/LoyaltySettings';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import {
+  LOYALTY_BALANCE_KINDS,
+  LOYALTY_EXPIRY_WARNING_DAYS,
+  LOYALTY_HISTORY_LIMIT,
+  LOYALTY_MAX_ADJUSTMENT,
+  LOYALTY_MAX_EXPIRY_DAYS,
+  LOYALTY_MAX_POINT_VALUE,
+  LOYALTY_MAX_POINTS_PER_HUNDRED,
+} from '@/constants/loyaltyConstants';
+import type {
+  Customer as CustomerEntity,
+  CustomerLoyaltySummary,
+  LoyaltyAdjustmentData,
+  LoyaltyExpiryRunResult,
+  LoyaltySettings as LoyaltySettingsData,
+} from '@/types';
+
+/**
+ * Loyalty points and store credit
+ *
+ * Both balances live on the customer and move only through ledger entries
+ * (CustomerLoyalty), each audited under the customer. A paid order earns points
+ * once, on what was not paid with store credit; refunds and cancellation reverse
+ * them in proportion, as far as the customer still has them. Points redeemed on an
+ * order are given back if it is cancelled. Spending uses up the points that expire
+ * soonest; the nightly run expires what is left of points past their date.
+ */
+
+const logger = createLogger('LoyaltyService');
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function parseNumber(value: unknown, name: string, min: number, max: number, whole: boolean): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max || (whole && !Number.isInteger(value))) {
+    badRequest(`${name} must be ${whole ? 'a whole number' : 'a number'} from ${min} to ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Validate loyalty settings
+ * @throws {ApiError} 400 for out-of-range rates, limits or expiry, or a non-boolean enabled flag
+ */
+export function parseLoyaltySettingsInput(body: Record<string, unknown>): Omit<LoyaltySettingsData, 'isDefault' | 'updatedAt'> {
+  if (typeof body.enabled !== 'boolean') badRequest('enabled must be true or false');
+
+  const pointValue = parseNumber(body.pointValue, 'pointValue', 0.01, LOYALTY_MAX_POINT_VALUE, false);
+  if (Math.round(pointValue * 100) !== pointValue * 100) badRequest('pointValue must have at most two decimal places');
+
+  return {
+    enabled: body.enabled as boolean,
+    pointsPerHundred: roundCurrency(parseNumber(body.pointsPerHundred, 'pointsPerHundred', 0, LOYALTY_MAX_POINTS_PER_HUNDRED, false)),
+    pointValue,
+    minRedeemPoints: parseNumber(body.minRedeemPoints, 'minRedeemPoints', 0, LOYALTY_MAX_ADJUSTMENT, true),
+    maxRedeemPercent: parseNumber(body.maxRedeemPercent, 'maxRedeemPercent', 1, 100, true),
+    pointsExpiryDays: body.pointsExpiryDays === null
+      ? null
+      : parseNumber(body.pointsExpiryDays, 'pointsExpiryDays', 1, LOYALTY_MAX_EXPIRY_DAYS, true),
+  };
+}
+
+/**
+ * Validate a manual change to a customer's points or store credit
+ * @throws {ApiError} 400 for an unknown balance, a zero or out-of-range amount, fractional points or missing notes
+ */
+export function parseLoyaltyAdjustmentInput(body: Record<string, unknown>): LoyaltyAdjustmentData {
+  const kind = LOYALTY_BALANCE_KINDS.find(option => option.value === body.kind)?.value;
+  if (!kind) badRequest(`kind must be one of: ${LOYALTY_BALANCE_KINDS.map(option => option.value).join(', ')}`);
+
+  const amount = parseNumber(body.amount, 'amount', -LOYALTY_MAX_ADJUSTMENT, LOYALTY_MAX_ADJUSTMENT, kind === 'points');
+  if (amount === 0) badRequest('amount must not be zero');
+  if (kind === 'store_credit' && roundCurrency(amount) !== amount) badRequest('amount must have at most two decimal places');
+
+  const notes = typeof body.notes === 'string' ? body.notes.trim() : '';
+  if (!notes) badRequest('notes are required for an adjustment');
+
+  return { kind, amount, notes };
+}
+
+/**
+ * Price points redeemed on a new order
+ * @param eligibleAmount - Subtotal less the manual and promotion discounts
+ * @returns The points and the discount they buy
+ * @throws {ApiError} 400 when loyalty is off, or the points are too few, more than the
+ *   customer has, or more than the order may take
+ */
+export async function resolvePointsRedemption(
+  points: number,
+  customer: Pick<CustomerEntity, 'loyaltyPoints'> | null,
+  eligibleAmount: number
+): Promise<{ points: number; discount: number }> {
+  const settings = await LoyaltySettings.get();
+  if (!settings.enabled) badRequest('Loyalty points are not enabled');
+  if (!customer) badRequest('Points can only be redeemed by an existing customer');
+  if (points < settings.minRedeemPoints) badRequest(`At least ${settings.minRedeemPoints} points must be redeemed at a time`);
+  if (points > customer.loyaltyPoints) badRequest(`The customer has only ${customer.loyaltyPoints} points`);
+
+  const maxDiscount = Math.floor(Math.max(eligibleAmount, 0) * settings.maxRedeemPercent) / 100;
+  const discount = roundCurrency(points * settings.pointValue);
+  if (discount > maxDiscount + 0.005) {
+    const maxPoints = Math.floor(maxDiscount / settings.pointValue);
+    badRequest(`At most ${maxPoints} points can be redeemed on this order (${settings.maxRedeemPercent}% of its value)`);
+  }
+
+  return { points, discount };
+}
+
+/**
+ * A customer's balances, what their points are worth, and their latest ledger entries
+ * @throws {ApiError} 404 when the customer does not exist
+ */
+export async function getCustomerLoyaltySummary(customerId: number): Promise<CustomerLoyaltySummary> {
+  const expiringBy = DateTime.now().plus({ days: LOYALTY_EXPIRY_WARNING_DAYS }).toJSDate();
+  const [balances, settings, entries] = await Promise.all([
+    CustomerLoyalty.getBalances(customerId, expiringBy),
+    LoyaltySettings.get(),
+    CustomerLoyalty.findByCustomerId(customerId, LOYALTY_HISTORY_LIMIT),
+  ]);
+  if (!balances) throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Customer not found');
+
+  return {
+    ...balances,
+    pointsValue: roundCurrency(balances.loyaltyPoints * settings.pointValue),
+    entries,
+  };
+}
+
+/**
+ * Add to or take from a customer's points or store credit by hand
+ * @throws {ApiError} 404 when the customer does not exist, 400 when the balance would go below zero
+ */
+export async function adjustCustomerBalance(customerId: number, data: LoyaltyAdjustmentData, user?: LoyaltyUser): Promise<CustomerLoyaltySummary> {
+  const customer = await Customer.findById(customerId);
+  if (!customer) throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Customer not found');
+
+  await CustomerLoyalty.addEntry({
+    customerId,
+    kind: data.kind,
+    type: 'adjust',
+    amount: data.amount,
+    notes: data.notes,
+  }, user);
+
+  logger.info('Customer loyalty balance adjusted', { customerId, kind: data.kind, amount: data.amount, adjustedBy: user?.email });
+  return getCustomerLoyaltySummary(customerId);
+}
+
+/**
+ * Bring an order's points in line with its payment and lifecycle status
+ * Earns points once the order is paid in full, reverses earned points to match
+ * what is still paid after refunds (all of them once cancelled or refunded), and
+ * gives back redeemed points when the order is cancelled. Safe to call after any
+ * change; it only writes what is missing. Failures are logged, not thrown, so the
+ * change that triggered it still succeeds.
+ */
+export async function reconcileOrderLoyalty(orderId: number, user?: LoyaltyUser): Promise<void> {
+  try {
+    const order = await Order.findById(orderId);
+    if (!order?.customerIdRef) return;
+
+    const [settings, totals] = await Promise.all([LoyaltySettings.get(), CustomerLoyalty.getOrderTotals(orderId)]);
+    const cancelled = order.status === 'cancelled';
+
+    let { earned, earnedBy } = totals;
+    if (earned === 0 && settings.enabled && order.paymentStatus === 'paid' && !cancelled) {
+      const points = Math.floor((order.totalPrice - totals.storeCreditPaid) * settings.pointsPerHundred / 100);
+      if (points > 0) {
+        await CustomerLoyalty.addEntry({
+          customerId: order.customerIdRef,
+          kind: 'points',
+          type: 'earn',
+          amount: points,
+          orderId,
+          expiresAt: settings.pointsExpiryDays
+            ? DateTime.now().plus({ days: settings.pointsExpiryDays }).toJSDate()
+            : null,
+        }, user);
+        earned = points;
+        earnedBy = order.customerIdRef;
+      }
+    }
+
+    if (earned > 0 && earnedBy) {
+      const keptShare = cancelled || order.paymentStatus === 'refunded' || order.totalPrice <= 0
+        ? 0
+        : Math.min(1, Math.max(0, order.paidAmount / order.totalPrice));
+      const excess = earned + totals.reversed - Math.floor(earned * keptShare);
+      if (excess > 0) {
+        // Points already spent cannot be taken back; a later call takes what is left
+        const balances = await CustomerLoyalty.getBalances(earnedBy);
+        const reverse = Math.min(excess, balances?.loyaltyPoints ?? 0);
+        if (reverse > 0) {
+          await CustomerLoyalty.addEntry({
+            customerId: earnedBy,
+            kind: 'points',
+            type: 'reverse',
+            amount: -reverse,
+            orderId,
+            notes: cancelled ? 'Order cancelled' : 'Order refunded',
+          }, user);
+        }
+      }
+    }
+
+    const unrestored = -totals.redeemed - totals.restored;
+    if (cancelled && unrestored > 0 && totals.redeemedBy) {
+      await CustomerLoyalty.addEntry({
+        customerId: totals.redeemedBy,
+        kind: 'points',
+        type: 'restore',
+        amount: unrestored,
+        orderId,
+        notes: 'Order cancelled',
+      }, user);
+    }
+  } catch (error) {
+    logger.error('Failed to reconcile order loyalty points', { orderId, error });
+  }
+}
+
+/**
+ * Expire unspent points past their expiry date
+ */
+export async function runLoyaltyExpiry(): Promise<LoyaltyExpiryRunResult> {
+  const expired = await CustomerLoyalty.expirePoints();
+  const result = {
+    customers: expired.length,
+    points: expired.reduce((sum, row) => sum + row.points, 0),
+  };
+  logger.info('Loyalty points expiry completed', result);
+  return result;
+}
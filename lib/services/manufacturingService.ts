@@ -0,0 +1,386 @@
+import Material, { type MaterialData } from '@/lib/models/Material';
+import BillOfMaterials from '@/lib/models/BillOfMaterials';
+import WorkOrder from '@/lib/models/WorkOrder';
+import { getDatabase } from '@/lib/db/connection';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import { MATERIAL_UNITS } from '@/constants/manufacturingConstants';
+import type {
+  BomLine,
+  ItemId,
+  Material as MaterialEntity,
+  MaterialShortage,
+  MaterialShortageReport,
+  WorkOrder as WorkOrderEntity,
+  WorkOrderMaterial,
+  WorkOrderStatus,
+} from '@/types';
+
+/**
+ * Manufacturing
+ *
+ * An item's bill of materials says how much of each material one unit takes.
+ * Lines without a design apply to every design; a design's own line for a
+ * material replaces the item-wide one. Work orders are made for the order lines
+ * that stock cannot cover once the order is confirmed, and completing one takes
+ * its materials out of stock through the material ledger.
+ */
+
+const logger = createLogger('ManufacturingService');
+
+const MAX_QUANTITY = 1_000_000;
+
+interface ManufacturingUser {
+  id?: number;
+  email?: string;
+}
+
+interface ProductionLine {
+  itemId: number;
+  designId: number | null;
+  quantity: number;
+}
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function parseQuantity(value: unknown, name: string, options: { allowZero?: boolean; allowNegative?: boolean } = {}): number {
+  const quantity = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity) || Math.abs(quantity) > MAX_QUANTITY) {
+    badRequest(`${name} must be a number`);
+  }
+  if (!options.allowNegative && quantity < 0) badRequest(`${name} cannot be negative`);
+  if (!options.allowZero && quantity === 0) badRequest(`${name} cannot be zero`);
+  // Quantities are stored with three decimals
+  return Math.round(quantity * 1000) / 1000;
+}
+
+function parseOptionalText(value: unknown, name: string): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') badRequest(`${name} must be a string`);
+  return value.trim() || null;
+}
+
+function formatQuantity(quantity: number, unit: string): string {
+  return `${Number(quantity.toFixed(3))} ${unit}`;
+}
+
+/**
+ * Material needed per unit of an item in a given design
+ */
+function resolveBom(bomLines: BomLine[], itemId: number, designId: number | null): BomLine[] {
+  const itemLines = bomLines.filter(line => line.itemId === itemId);
+  const designLines = designId === null ? [] : itemLines.filter(line => line.designId === designId);
+  const overridden = new Set(designLines.map(line => line.materialId));
+  return [
+    ...itemLines.filter(line => line.designId === null && !overridden.has(line.materialId)),
+    ...designLines,
+  ];
+}
+
+/**
+ * Total material needed for a set of production lines
+ * @returns Quantity needed per material ID
+ */
+function getRequirements(lines: ProductionLine[], bomLines: BomLine[]): Map<number, number> {
+  const required = new Map<number, number>();
+  for (const line of lines) {
+    for (const bomLine of resolveBom(bomLines, line.itemId, line.designId)) {
+      required.set(bomLine.materialId, (required.get(bomLine.materialId) ?? 0) + bomLine.quantity * line.quantity);
+    }
+  }
+  return required;
+}
+
+function toWorkOrderMaterials(required: Map<number, number>, materialsById: Map<number, MaterialEntity>): WorkOrderMaterial[] {
+  return [...required.entries()]
+    .map(([materialId, quantity]) => {
+      const material = materialsById.get(materialId);
+      return {
+        materialId,
+        name: material?.name ?? `Material #${materialId}`,
+        unit: material?.unit ?? '',
+        required: Number(quantity.toFixed(3)),
+        available: material?.stockQuantity ?? 0,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Work orders with the materials each open one needs
+ */
+export async function listWorkOrders(filter: 'open' | 'completed' | 'cancelled' | 'all'): Promise<WorkOrderEntity[]> {
+  const workOrders = await WorkOrder.find(filter) as Omit<WorkOrderEntity, 'materials'>[];
+  const open = workOrders.filter(workOrder => workOrder.status === 'planned' || workOrder.status === 'in_progress');
+  if (open.length === 0) return workOrders.map(workOrder => ({ ...workOrder, materials: [] }));
+
+  const [bomLines, allMaterials] = await Promise.all([
+    BillOfMaterials.findByItems([...new Set(open.map(workOrder => workOrder.itemId))]) as Promise<BomLine[]>,
+    Material.find() as Promise<MaterialEntity[]>,
+  ]);
+  const materialsById = new Map(allMaterials.map(material => [material.id, material]));
+
+  return workOrders.map(workOrder => ({
+    ...workOrder,
+    materials: open.includes(workOrder)
+      ? toWorkOrderMaterials(getRequirements([workOrder], bomLines), materialsById)
+      : [],
+  }));
+}
+
+/**
+ * Material needed by open work orders and by unconfirmed orders, against stock
+ * Materials are listed most short first, then by name.
+ */
+export async function buildShortageReport(): Promise<MaterialShortageReport> {
+  const [workOrders, unconfirmedLines, allMaterials] = await Promise.all([
+    WorkOrder.find('open', 5000) as Promise<Omit<WorkOrderEntity, 'materials'>[]>,
+    WorkOrder.findUnconfirmedProductionLines() as Promise<Array<ProductionLine & { orderNumber: string; itemName: string }>>,
+    Material.find() as Promise<MaterialEntity[]>,
+  ]);
+
+  const itemIds = [...new Set([...workOrders.map(workOrder => workOrder.itemId), ...unconfirmedLines.map(line => line.itemId)])];
+  const bomLines = await BillOfMaterials.findByItems(itemIds) as BomLine[];
+  const itemsWithBom = new Set<number>(bomLines.map(line => line.itemId));
+
+  const rows = new Map<number, MaterialShortage>();
+  const itemsWithoutBom = new Map<number, string>();
+  const addLine = (line: ProductionLine, orderNumber: string, itemName: string, confirmed: boolean) => {
+    if (!itemsWithBom.has(line.itemId)) {
+      itemsWithoutBom.set(line.itemId, itemName);
+      return;
+    }
+    for (const [materialId, quantity] of getRequirements([line], bomLines)) {
+      const row = rows.get(materialId) ?? {
+        materialId,
+        name: '',
+        unit: '',
+        stockQuantity: 0,
+        requiredForWorkOrders: 0,
+        requiredForUnconfirmed: 0,
+        shortage: 0,
+        orders: [],
+      };
+      if (confirmed) row.requiredForWorkOrders += quantity;
+      else row.requiredForUnconfirmed += quantity;
+      if (!row.orders.includes(orderNumber)) row.orders.push(orderNumber);
+      rows.set(materialId, row);
+    }
+  };
+
+  for (const workOrder of workOrders) {
+    addLine(workOrder, workOrder.order.orderId, workOrder.itemName, true);
+  }
+  for (const line of unconfirmedLines) {
+    addLine(line, line.orderNumber, line.itemName, false);
+  }
+
+  const materialsById = new Map(allMaterials.map(material => [material.id, material]));
+  const materials = [...rows.values()].map(row => {
+    const material = materialsById.get(row.materialId);
+    const stockQuantity = material?.stockQuantity ?? 0;
+    const required = row.requiredForWorkOrders + row.requiredForUnconfirmed;
+    return {
+      ...row,
+      name: material?.name ?? `Material #${row.materialId}`,
+      unit: material?.unit ?? '',
+      stockQuantity,
+      requiredForWorkOrders: Number(row.requiredForWorkOrders.toFixed(3)),
+      requiredForUnconfirmed: Number(row.requiredForUnconfirmed.toFixed(3)),
+      shortage: Number(Math.max(0, required - stockQuantity).toFixed(3)),
+    };
+  });
+  materials.sort((a, b) => b.shortage - a.shortage || a.name.localeCompare(b.name));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    materials,
+    itemsWithoutBom: [...itemsWithoutBom.entries()].map(([itemId, name]) => ({ itemId: itemId as ItemId, name })),
+  };
+}
+
+/**
+ * Complete a work order and take its materials out of stock in one batch
+ * @throws ApiError 409 when a material is short or the work order was completed meanwhile
+ */
+async function completeWorkOrder(workOrder: Omit<WorkOrderEntity, 'materials'>, user: ManufacturingUser) {
+  const [bomLines, allMaterials] = await Promise.all([
+    BillOfMaterials.findByItems([workOrder.itemId]) as Promise<BomLine[]>,
+    Material.find() as Promise<MaterialEntity[]>,
+  ]);
+  const materialsById = new Map(allMaterials.map(material => [material.id, material]));
+  const required = toWorkOrderMaterials(getRequirements([workOrder], bomLines), materialsById);
+
+  const shortages = required.filter(material => material.required > material.available);
+  if (shortages.length > 0) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      `Not enough materials: ${shortages.map(m => `${m.name} (need ${formatQuantity(m.required, m.unit)}, have ${formatQuantity(m.available, m.unit)})`).join(', ')}`
+    );
+  }
+
+  const db = getDatabase();
+  const completedAt = new Date();
+  const { statement, completedGuard } = WorkOrder.buildCompletionStatement(db, workOrder.id, completedAt, user.id);
+  const consumption = Material.buildConsumptionStatements(
+    db,
+    workOrder.id,
+    required.map(material => ({ materialId: material.materialId, quantity: material.required })),
+    user,
+    completedGuard
+  );
+
+  try {
+    await db.batch([statement, ...consumption]);
+  } catch (error) {
+    throw Material.toConflictError(error);
+  }
+
+  const updated = await WorkOrder.findById(workOrder.id);
+  if (updated?.completedAt !== completedAt.toISOString()) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'This work order has already been completed or cancelled');
+  }
+  logger.info('Work order completed', { workOrderId: workOrder.id, materials: required.length });
+  return updated;
+}
+
+const WORK_ORDER_TRANSITIONS: Record<WorkOrderStatus, { from: WorkOrderStatus[]; verb: string }> = {
+  planned: { from: ['in_progress'], verb: 'moved back to planned' },
+  in_progress: { from: ['planned'], verb: 'started' },
+  completed: { from: ['planned', 'in_progress'], verb: 'completed' },
+  cancelled: { from: ['planned', 'in_progress'], verb: 'cancelled' },
+};
+
+/**
+ * Change a work order's status and/or notes
+ * Body: { status?, notes? }
+ * @returns The updated work order, or null if it does not exist
+ * @throws ApiError 400 for an unknown status, 409 for a move its current status does not allow
+ */
+export async function updateWorkOrder(id: number, body: Record<string, unknown>, user: ManufacturingUser) {
+  const workOrder = await WorkOrder.findById(id) as Omit<WorkOrderEntity, 'materials'> | null;
+  if (!workOrder) return null;
+
+  const notes = parseOptionalText(body.notes, 'notes');
+  if (notes !== undefined && notes !== workOrder.notes) {
+    await WorkOrder.updateNotes(id, notes);
+  }
+
+  if (body.status === undefined || body.status === workOrder.status) {
+    return WorkOrder.findById(id);
+  }
+
+  const status = body.status as WorkOrderStatus;
+  const transition = WORK_ORDER_TRANSITIONS[status];
+  if (!transition) {
+    badRequest(`status must be one of: ${Object.keys(WORK_ORDER_TRANSITIONS).join(', ')}`);
+  }
+  if (!transition.from.includes(workOrder.status)) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, `A ${workOrder.status.replace('_', ' ')} work order cannot be ${transition.verb}`);
+  }
+
+  if (status === 'completed') return completeWorkOrder(workOrder, user);
+
+  const changes: Record<string, unknown> = { status };
+  if (status === 'in_progress') changes.startedAt = new Date();
+  if (status === 'planned') changes.startedAt = null;
+  const updated = await WorkOrder.transition(id, transition.from, changes);
+  if (!updated) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'This work order was changed by someone else. Please refresh and try again.');
+  }
+  return updated;
+}
+
+/**
+ * Validate a create or update body for a material
+ * @param partial - Only validate the fields present (updates)
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseMaterialInput(body: Record<string, unknown>, { partial = false } = {}): MaterialData {
+  const data: Partial<MaterialData> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) badRequest('Material name is required');
+    data.name = body.name.trim();
+  }
+  if (!partial || body.unit !== undefined) {
+    if (!MATERIAL_UNITS.some(unit => unit.value === body.unit)) {
+      badRequest(`unit must be one of: ${MATERIAL_UNITS.map(unit => unit.value).join(', ')}`);
+    }
+    data.unit = body.unit as string;
+  }
+
+  const sku = parseOptionalText(body.sku, 'sku');
+  if (sku !== undefined) data.sku = sku;
+  const notes = parseOptionalText(body.notes, 'notes');
+  if (notes !== undefined) data.notes = notes;
+
+  if (!partial && body.stockQuantity !== undefined && body.stockQuantity !== null) {
+    data.stockQuantity = parseQuantity(body.stockQuantity, 'stockQuantity', { allowZero: true });
+  }
+  if (body.lowStockThreshold !== undefined && body.lowStockThreshold !== null) {
+    data.lowStockThreshold = parseQuantity(body.lowStockThreshold, 'lowStockThreshold', { allowZero: true });
+  }
+  if (body.costPerUnit !== undefined) {
+    data.costPerUnit = body.costPerUnit === null || body.costPerUnit === ''
+      ? null
+      : parseQuantity(body.costPerUnit, 'costPerUnit', { allowZero: true });
+  }
+
+  // Updates pass only the fields present; Material.update takes a partial
+  return data as MaterialData;
+}
+
+/**
+ * Validate a material stock adjustment
+ * Body: { quantity (non-zero, negative removes stock), transactionType?: 'restock' | 'adjustment', notes? }
+ */
+export function parseMaterialAdjustment(body: Record<string, unknown>) {
+  const quantity = parseQuantity(body.quantity, 'quantity', { allowNegative: true });
+  const transactionType = body.transactionType ?? (quantity > 0 ? 'restock' : 'adjustment');
+  if (transactionType !== 'restock' && transactionType !== 'adjustment') {
+    badRequest("transactionType must be 'restock' or 'adjustment'");
+  }
+  if (transactionType === 'restock' && quantity < 0) badRequest('A restock must add stock');
+  return {
+    quantity,
+    transactionType: transactionType as 'restock' | 'adjustment',
+    notes: parseOptionalText(body.notes, 'notes') ?? undefined,
+  };
+}
+
+/**
+ * Validate a bill of materials for an item
+ * Body: { lines: [{ materialId, designId?, quantity, notes? }] }
+ * @param designIds - The item's design IDs
+ * @param materialIds - Every existing material ID
+ */
+export function parseBomInput(body: Record<string, unknown>, designIds: number[], materialIds: number[]) {
+  if (!Array.isArray(body.lines)) badRequest('lines must be an array');
+
+  const seen = new Set<string>();
+  return body.lines.map((line: Record<string, unknown>, index: number) => {
+    const materialId = Number(line?.materialId);
+    if (!materialIds.includes(materialId)) badRequest(`lines[${index}]: material not found`);
+
+    const designId = line.designId === undefined || line.designId === null || line.designId === ''
+      ? null
+      : Number(line.designId);
+    if (designId !== null && !designIds.includes(designId)) badRequest(`lines[${index}]: design does not belong to this item`);
+
+    const key = `${designId ?? 'all'}:${materialId}`;
+    if (seen.has(key)) badRequest(`lines[${index}]: the material is listed twice for the same design`);
+    seen.add(key);
+
+    return {
+      materialId,
+      designId,
+      quantity: parseQuantity(line.quantity, `lines[${index}].quantity`),
+      notes: parseOptionalText(line.notes, `lines[${index}].notes`) ?? null,
+    };
+  });
+}
@@ -0,0 +1,134 @@
+import Stock, { type OrderAllocationResult } from '@/lib/models/Stock';
+import Promotion from '@/lib/models/Promotion';
+import AuditLog from '@/lib/models/AuditLog';
+import WorkOrder from '@/lib/models/WorkOrder';
+import { emitWebhookEvent, emitLowStockEvents } from '@/lib/services/webhookService';
+import { reconcileOrderLoyalty } from '@/lib/services/loyaltyService';
+import { createLogger } from '@/lib/utils/logger';
+import { resolveOrderTransition } from '@/lib/utils/orderLifecycle';
+import type { LifecycleState, LifecycleUpdate, ResolvedTransition } from '@/lib/utils/orderLifecycle';
+
+const logger = createLogger('OrderLifecycleService');
+
+interface LifecycleUser {
+  id?: number;
+  email?: string;
+  name?: string;
+}
+
+/** Order as it was before the transition was written */
+interface TransitionedOrder extends LifecycleState {
+  id: number;
+  orderId: string;
+}
+
+/**
+ * Validate a lifecycle update for an order loaded from the database
+ * @param order - Order with status, paymentStatus, deliveryStatus and confirmationStatus
+ * @param requested - Requested lifecycle changes
+ * @returns The resolved transition (changes to write and side effects to run)
+ * @throws ApiError 400/409 when the update is not allowed
+ */
+export function planOrderTransition(order: LifecycleState, requested: LifecycleUpdate): ResolvedTransition {
+  return resolveOrderTransition(
+    {
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      deliveryStatus: order.deliveryStatus,
+      confirmationStatus: order.confirmationStatus,
+      actualDeliveryDate: order.actualDeliveryDate ?? null,
+    },
+    requested
+  );
+}
+
+/**
+ * Run the side effects of a transition that has been written to the order
+ * Each changed field gets an entry in the order's audit trail, and any lifecycle
+ * change raises an order.status_changed webhook. Confirming creates work orders
+ * for the lines that have to be made and holds the order's reservations until it
+ * ships. Shipping deducts the reserved stock in the batch that writes the order
+ * (Stock.planFulfilment), so here it only reports what was short and raises low
+ * stock events. Cancelling releases reservations,
+ * returns whatever stock the order still holds according to the ledger, gives
+ * back the order's promotion redemption and cancels its open work orders. Status
+ * and payment changes bring the customer's loyalty points in line with the order.
+ * @param order - The order before the transition
+ * @param transition - Output of planOrderTransition
+ * @param user - Optional user for the stock ledger
+ * @param fulfilment - Stock deducted with the order update when it shipped
+ */
+export async function applyTransitionEffects(
+  order: TransitionedOrder,
+  transition: ResolvedTransition,
+  user?: LifecycleUser,
+  fulfilment?: OrderAllocationResult
+) {
+  const orderId = order.id;
+
+  if (transition.changedFields.length > 0) {
+    const previous: LifecycleUpdate = {};
+    const current: LifecycleUpdate = {};
+    for (const field of transition.changedFields) {
+      Object.assign(previous, { [field]: order[field] });
+      Object.assign(current, { [field]: transition.changes[field] });
+      await AuditLog.createOrderAudit({
+        orderId,
+        action: 'update',
+        fieldName: field,
+        oldValue: String(order[field]),
+        newValue: String(transition.changes[field]),
+        userId: user?.id,
+        userEmail: user?.email,
+        userName: user?.name,
+      });
+    }
+    await emitWebhookEvent('order.status_changed', {
+      order: { id: orderId, orderId: order.orderId },
+      changedFields: transition.changedFields,
+      previous,
+      current,
+    });
+  }
+
+  if (transition.changedFields.includes('status') || transition.changedFields.includes('paymentStatus')) {
+    await reconcileOrderLoyalty(orderId, user);
+  }
+
+  if (transition.changedFields.includes('confirmationStatus') && transition.changes.confirmationStatus === 'confirmed') {
+    const created = await WorkOrder.generateForConfirmedOrders(orderId);
+    if (created > 0) logger.info('Work orders created for confirmed order', { orderId, created });
+  }
+
+  if (transition.reserveStock && !transition.restoreStock) {
+    const reservation = await Stock.reserveForOrder(orderId, null);
+    if (reservation.short.length > 0) logger.warn('Confirmed order is short of stock', { orderId, short: reservation.short });
+  }
+
+  if (fulfilment) {
+    if (fulfilment.short.length > 0) logger.info('Order shipped with units backordered', { orderId, short: fulfilment.short });
+    await emitLowStockEvents(fulfilment.allocated);
+  }
+
+  if (!transition.restoreStock) return null;
+
+  await Promotion.releaseForOrder(orderId);
+  await WorkOrder.cancelOpenForOrder(orderId);
+  await Stock.releaseReservations(orderId);
+
+  const heldStock = await Stock.getOrderDeductions(orderId);
+  if (heldStock.length === 0) return null;
+
+  const result = await Stock.restoreForOrder(orderId, heldStock, user?.id, user?.email);
+
+  if (result.summary.failed > 0) {
+    logger.warn('Some stock could not be restored for cancelled order', {
+      orderId,
+      failed: result.results.filter((r: { success: boolean }) => !r.success),
+    });
+  } else {
+    logger.info('Stock restored for cancelled order', { orderId, restored: result.summary.restored });
+  }
+
+  return result;
+}
@@ -0,0 +1,235 @@
+import Item from '@/lib/models/Item';
+import Category from '@/lib/models/Category';
+import Customer from '@/lib/models/Customer';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { resolvePromotion } from '@/lib/services/promotionService';
+import { resolvePointsRedemption } from '@/lib/services/loyaltyService';
+import { computeOrderTotals, isInterStateSupply, resolveItemTaxRate, type OrderTotals } from '@/lib/utils/orderTotals';
+import type { AppliedPromotion, OrderQuote } from '@/types';
+
+/** A priced order line before tax: the catalogue price and item snapshot */
+export interface PricingLine {
+  item: number;
+  price: number;
+  quantity: number;
+  taxRate?: number | null;
+  [key: string]: unknown;
+}
+
+export interface PricingOptions {
+  discountAmount: number;
+  shippingAmount: number;
+  pricesIncludeTax: boolean;
+  placeOfSupply: string | null;
+  /** Manual discountAmount excludes the promotion's discount */
+  promotionCode: string | null;
+  /** Loyalty points to spend; their discount is not part of discountAmount either */
+  redeemPoints: number;
+}
+
+/** Points an order being edited has already spent, and the discount they bought */
+export interface ExistingRedemption {
+  points: number;
+  discount: number;
+}
+
+/**
+ * GST rate applied when neither the item nor its categories have one
+ */
+export function getDefaultTaxRate(): number {
+  const parsed = Number.parseFloat(process.env.DEFAULT_GST_RATE || '0');
+  return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+function parseAmount(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number.parseFloat(String(value));
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, `${label} must be a non-negative number`);
+  }
+  return Math.round(parsed * 100) / 100;
+}
+
+/**
+ * Read discount, shipping, tax mode, place of supply, promotion code and points to
+ * redeem from a request body
+ * Missing fields fall back to `current` (the stored order on updates).
+ * @throws {ApiError} 400 for negative or non-numeric amounts
+ */
+export function parsePricingOptions(body: Record<string, unknown>, current?: Partial<PricingOptions>): PricingOptions {
+  const discountAmount = parseAmount(body.discountAmount, 'Discount');
+  const shippingAmount = parseAmount(body.shippingAmount, 'Shipping charge');
+
+  if (body.pricesIncludeTax !== undefined && typeof body.pricesIncludeTax !== 'boolean') {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'pricesIncludeTax must be a boolean');
+  }
+  if (body.placeOfSupply !== undefined && body.placeOfSupply !== null && typeof body.placeOfSupply !== 'string') {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Place of supply must be a string');
+  }
+  if (body.promotionCode !== undefined && body.promotionCode !== null && typeof body.promotionCode !== 'string') {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Promotion code must be a string');
+  }
+  if (body.redeemPoints !== undefined && body.redeemPoints !== null
+    && (typeof body.redeemPoints !== 'number' || !Number.isInteger(body.redeemPoints) || body.redeemPoints < 0)) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Points to redeem must be a whole number of zero or more');
+  }
+
+  const placeOfSupply = body.placeOfSupply === undefined
+    ? current?.placeOfSupply ?? null
+    : (body.placeOfSupply as string | null)?.trim() || null;
+  const promotionCode = body.promotionCode === undefined
+    ? current?.promotionCode ?? null
+    : (body.promotionCode as string | null)?.trim().toUpperCase() || null;
+
+  return {
+    discountAmount: discountAmount ?? current?.discountAmount ?? 0,
+    shippingAmount: shippingAmount ?? current?.shippingAmount ?? 0,
+    pricesIncludeTax: (body.pricesIncludeTax as boolean | undefined) ?? current?.pricesIncludeTax ?? true,
+    placeOfSupply,
+    promotionCode,
+    redeemPoints: (body.redeemPoints as number | null | undefined) ?? current?.redeemPoints ?? 0,
+  };
+}
+
+/**
+ * Whether a request body touches any pricing field
+ */
+export function hasPricingChanges(body: Record<string, unknown>): boolean {
+  return ['discountAmount', 'shippingAmount', 'pricesIncludeTax', 'placeOfSupply', 'promotionCode', 'redeemPoints']
+    .some(key => body[key] !== undefined);
+}
+
+/**
+ * Resolve each line's GST rate, then compute the order breakdown
+ * The line's own rate (the item's) wins, then its categories' rate, then
+ * DEFAULT_GST_RATE. The place of supply defaults to the customer's state and
+ * is compared with BUSINESS_STATE to choose CGST + SGST or IGST. A promotion
+ * code adds its discount to the manual one, never beyond the subtotal. Redeemed
+ * points add theirs on top of both; an edited order keeps the points it spent.
+ * @param existingPromotionId - Promotion already redeemed by the order being edited
+ * @param existingRedemption - Points already spent by the order being edited
+ * @returns Lines with taxRate, taxableValue and taxAmount filled in, and the order quote
+ * @throws {ApiError} 400 when the discount exceeds the subtotal, or the code or points cannot be applied
+ */
+export async function priceOrder<T extends PricingLine>(
+  lines: T[],
+  options: PricingOptions,
+  customerId?: string | null,
+  existingPromotionId?: number | null,
+  existingRedemption?: ExistingRedemption
+): Promise<{ lines: Array<T & { taxRate: number | null; taxableValue: number; taxAmount: number }>; quote: OrderQuote }> {
+  // Category-scoped promotions need every line's categories, not only the unrated ones
+  const lookupItems = options.promotionCode
+    ? lines.map(line => line.item)
+    : lines.filter(line => typeof line.taxRate !== 'number').map(line => line.item);
+  const categoriesByItem: Map<number, Array<{ id: number; taxRate: number | null }>> = lookupItems.length > 0
+    ? await Category.getItemsCategoriesBulk(lookupItems)
+    : new Map();
+
+  let promotion: AppliedPromotion | null = null;
+  if (options.promotionCode) {
+    promotion = await resolvePromotion(
+      options.promotionCode,
+      lines.map(line => ({
+        price: line.price,
+        quantity: line.quantity,
+        categoryIds: (categoriesByItem.get(line.item) || []).map(category => category.id),
+      })),
+      { customerId, existingPromotionId }
+    );
+  }
+
+  if (existingRedemption && options.redeemPoints !== existingRedemption.points) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, 'Redeemed points cannot be changed once the order is placed');
+  }
+  const redeemsNewPoints = !existingRedemption && options.redeemPoints > 0;
+
+  const customer = customerId && (!options.placeOfSupply || redeemsNewPoints)
+    ? await Customer.findByCustomerId(customerId)
+    : null;
+  const placeOfSupply = options.placeOfSupply || customer?.state || null;
+
+  const defaultRate = getDefaultTaxRate();
+  const ratedLines = lines.map(line => ({
+    ...line,
+    taxRate: resolveItemTaxRate(
+      line.taxRate,
+      (categoriesByItem.get(line.item) || []).map(category => category.taxRate),
+      defaultRate
+    ),
+  }));
+
+  const interState = isInterStateSupply(process.env.BUSINESS_STATE, placeOfSupply);
+
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const keptLoyaltyDiscount = existingRedemption?.discount ?? 0;
+  const promotionDiscount = promotion
+    ? Math.round(Math.max(0, Math.min(promotion.discountAmount, subtotal - options.discountAmount - keptLoyaltyDiscount)) * 100) / 100
+    : 0;
+
+  let redemption: ExistingRedemption = existingRedemption ?? { points: 0, discount: 0 };
+  if (redeemsNewPoints) {
+    redemption = await resolvePointsRedemption(
+      options.redeemPoints,
+      customer,
+      subtotal - options.discountAmount - promotionDiscount
+    );
+  }
+
+  let totals: OrderTotals;
+  try {
+    totals = computeOrderTotals({
+      lines: ratedLines,
+      discountAmount: options.discountAmount + promotionDiscount + redemption.discount,
+      shippingAmount: options.shippingAmount,
+      pricesIncludeTax: options.pricesIncludeTax,
+      interState,
+    });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new ApiError(HTTP_STATUS.BAD_REQUEST, error.message);
+    }
+    throw error;
+  }
+
+  const { lines: lineTotals, ...orderTotals } = totals;
+
+  return {
+    lines: ratedLines.map((line, index) => ({ ...line, ...lineTotals[index] })),
+    quote: {
+      ...orderTotals,
+      promotionDiscount,
+      promotion: promotion ? { ...promotion, discountAmount: promotionDiscount } : null,
+      loyaltyPointsRedeemed: redemption.points,
+      loyaltyDiscount: redemption.discount,
+      pricesIncludeTax: options.pricesIncludeTax,
+      placeOfSupply,
+      interState,
+    },
+  };
+}
+
+/**
+ * Price catalogue items for a preview, without creating an order
+ * @param items - Item ids and quantities
+ * @throws {ApiError} 400 when an item does not exist
+ */
+export async function quoteOrder(
+  items: Array<{ itemId: number | string; quantity: number }>,
+  options: PricingOptions,
+  customerId?: string | null
+): Promise<OrderQuote> {
+  const itemsMap = await Item.findByIds(items.map(line => line.itemId));
+
+  const lines = items.map(line => {
+    const item = itemsMap.get(Number.parseInt(String(line.itemId), 10));
+    if (!item) {
+      throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Item with id ${line.itemId} not found`);
+    }
+    return { item: item._id, price: item.price, quantity: line.quantity, taxRate: item.taxRate };
+  });
+
+  const { quote } = await priceOrder(lines, options, customerId);
+  return quote;
+}
@@ -0,0 +1,216 @@
+import Order from '@/lib/models/Order';
+import OrderReturn from '@/lib/models/OrderReturn';
+import OrderPayment from '@/lib/models/OrderPayment';
+import Stock, { type OrderStockLine } from '@/lib/models/Stock';
+import Customer from '@/lib/models/Customer';
+import AuditLog from '@/lib/models/AuditLog';
+import { getDatabase } from '@/lib/db/connection';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import { planOrderTransition, applyTransitionEffects } from '@/lib/services/orderLifecycleService';
+import { reconcileOrderLoyalty } from '@/lib/services/loyaltyService';
+import type { Order as OrderEntity, PaymentMethod } from '@/types';
+
+const logger = createLogger('OrderReturnService');
+
+interface ReviewUser {
+  id?: number;
+  email?: string;
+  name?: string;
+}
+
+interface ReviewInput {
+  reviewNotes?: string;
+  refundMethod?: PaymentMethod;
+}
+
+/**
+ * Load a return and check it belongs to the order and is still pending
+ */
+async function loadPendingReturn(orderId: number, returnId: number) {
+  const orderReturn = await OrderReturn.findById(returnId);
+  if (!orderReturn || orderReturn.orderId !== orderId) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Return not found');
+  }
+  if (orderReturn.status !== 'requested') {
+    throw new ApiError(HTTP_STATUS.CONFLICT, `Return has already been ${orderReturn.status}`);
+  }
+  return orderReturn;
+}
+
+/**
+ * Work out which returned units go back on the shelf, limited to what the order actually took from stock
+ * Units go back to the designs the order took them from.
+ */
+async function planRestock(orderId: number, lines: Array<{ itemId: number | null; quantity: number }>) {
+  const held = await Stock.getOrderDeductions(orderId);
+
+  const toRestore = new Map<number, number>();
+  for (const line of lines) {
+    if (line.itemId === null) continue;
+    toRestore.set(line.itemId, (toRestore.get(line.itemId) || 0) + line.quantity);
+  }
+
+  const restoreLines: OrderStockLine[] = [];
+  for (const heldLine of held) {
+    const quantity = Math.min(toRestore.get(heldLine.itemId) || 0, heldLine.quantity);
+    if (quantity <= 0) continue;
+    toRestore.set(heldLine.itemId, (toRestore.get(heldLine.itemId) || 0) - quantity);
+    restoreLines.push({ ...heldLine, quantity });
+  }
+  return restoreLines;
+}
+
+/**
+ * Plan marking the order as returned when this return brings back every unit
+ * @returns The transition, or null when units are still out or the order cannot move to returned
+ */
+async function planReturnedTransition(order: OrderEntity, lines: Array<{ orderItemId: number | null; quantity: number }>) {
+  if (order.deliveryStatus === 'returned' || order.deliveryStatus === 'not_shipped') return null;
+
+  const returned = await OrderReturn.getReturnedQuantities(order.id, ['approved']);
+  for (const line of lines) {
+    if (line.orderItemId === null) continue;
+    returned.set(line.orderItemId, (returned.get(line.orderItemId) || 0) + line.quantity);
+  }
+  const fullyReturned = order.items.every(line => (returned.get(line.id) || 0) >= line.quantity);
+  if (!fullyReturned) return null;
+
+  try {
+    return planOrderTransition(order, { deliveryStatus: 'returned' });
+  } catch (error) {
+    logger.warn('Order fully returned but delivery status cannot move to returned', {
+      orderId: order.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Approve a return: refund through the payments ledger, restock, and refresh customer stats
+ * The approval, refund, restock and the order's move to returned commit in one
+ * batch. Every statement after the approval requires it, so a return approved or
+ * rejected meanwhile writes nothing.
+ * @throws ApiError 404 when the return is unknown, 409 when it is no longer pending
+ *   or another refund took what was left, 400 when the refund is more than the customer has paid
+ */
+export async function approveReturn(orderId: number, returnId: number, review: ReviewInput, user?: ReviewUser) {
+  const orderReturn = await loadPendingReturn(orderId, returnId);
+  const order: OrderEntity | null = await Order.findById(orderId);
+  if (!order) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Order not found');
+  }
+
+  const refundMethod: PaymentMethod = review.refundMethod || orderReturn.refundMethod || 'other';
+  const refundAmount: number = orderReturn.refundAmount;
+  if (refundAmount > 0) {
+    const refundable = await OrderPayment.getRefundableAmount(orderId);
+    if (refundAmount > refundable + 0.005) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        `Refund of ${refundAmount.toFixed(2)} exceeds the amount paid (${refundable.toFixed(2)})`
+      );
+    }
+  }
+
+  const restoreLines = orderReturn.restock ? await planRestock(orderId, orderReturn.items) : [];
+  const transition = await planReturnedTransition(order, orderReturn.items);
+
+  const db = getDatabase();
+  const reviewedAt = new Date();
+  const { statement, approvedGuard } = OrderReturn.buildApprovalStatement(
+    db,
+    returnId,
+    reviewedAt,
+    { reviewNotes: review.reviewNotes, refundMethod, userId: user?.id, userEmail: user?.email },
+    refundAmount > 0 ? OrderPayment.buildRefundableCondition(orderId, refundAmount) : undefined
+  );
+
+  const refundPaymentId: number | null = refundAmount > 0 ? await OrderPayment.allocateId(db) : null;
+  const refundStatements = refundPaymentId === null ? [] : [
+    ...OrderPayment.buildRefundStatements(db, refundPaymentId, {
+      orderId,
+      amount: refundAmount,
+      method: refundMethod,
+      notes: `Refund for return #${returnId}`,
+      userId: user?.id,
+      userEmail: user?.email,
+      userName: user?.name,
+    }, order, approvedGuard),
+    OrderReturn.buildRefundLinkStatement(db, returnId, refundPaymentId),
+    OrderPayment.buildRecalculateStatement(db, orderId),
+  ];
+
+  // The lock comes first so the approval's refund check sees every committed payment
+  await db.batch([
+    OrderPayment.buildOrderLock(db, orderId),
+    statement,
+    ...refundStatements,
+    ...Stock.buildReturnStatements(
+      db,
+      orderId,
+      restoreLines,
+      `Return #${returnId} for order ${order.orderId}`,
+      { id: user?.id, email: user?.email },
+      approvedGuard
+    ),
+    ...(transition ? [Order.buildTransitionStatement(db, orderId, transition.changes, approvedGuard)] : []),
+  ]);
+
+  const approved = await OrderReturn.findById(returnId);
+  if (approved?.reviewedAt !== reviewedAt.toISOString()) {
+    if (approved?.status === 'requested') {
+      throw new ApiError(HTTP_STATUS.CONFLICT, 'Another refund was recorded on this order meanwhile. Please check what is left to refund and try again.');
+    }
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'Return has already been reviewed');
+  }
+
+  if (transition) {
+    await applyTransitionEffects(order, transition, user);
+  }
+  if (refundPaymentId !== null) {
+    await reconcileOrderLoyalty(orderId, user);
+  }
+  await Customer.updateStatsByCustomerId(order.customerId);
+
+  await AuditLog.create({
+    entityType: 'order',
+    entityId: orderId,
+    action: 'update',
+    userId: user?.id,
+    userEmail: user?.email,
+    userName: user?.name,
+    metadata: {
+      event: 'return_approved',
+      returnId,
+      refundAmount,
+      refundMethod,
+      restocked: orderReturn.restock,
+    },
+  });
+
+  logger.info('Order return approved', { orderId, returnId, refundAmount, restockedLines: restoreLines.length });
+  return approved;
+}
+
+/**
+ * Reject a pending return; nothing else changes
+ * @throws ApiError 404 when the return is unknown, 409 when it is no longer pending
+ */
+export async function rejectReturn(orderId: number, returnId: number, review: ReviewInput, user?: ReviewUser) {
+  await loadPendingReturn(orderId, returnId);
+
+  const rejected = await OrderReturn.markReviewed(returnId, 'rejected', {
+    reviewNotes: review.reviewNotes,
+    userId: user?.id,
+    userEmail: user?.email,
+  });
+  if (!rejected) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'Return has already been reviewed');
+  }
+
+  logger.info('Order return rejected', { orderId, returnId });
+  return OrderReturn.findById(returnId);
+}
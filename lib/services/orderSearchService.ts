@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { DateTime } from 'luxon';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import {
+  ORDER_SOURCES,
+  ORDER_STATUSES,
+  PAYMENT_STATUSES,
+  CONFIRMATION_STATUSES,
+  DELIVERY_STATUSES,
+} from '@/constants/orderConstants';
+import { SAVED_VIEW_SORT_KEYS, SAVED_VIEW_URL_PARAMS } from '@/constants/savedViewConstants';
+import { DIGEST_TIMEZONE } from '@/lib/utils/digestBuckets';
+import type { OrderFacetField, OrderSearchFilters, OrderSearchSort, SavedOrderViewSortKey } from '@/types';
+
+const MAX_QUERY_LENGTH = 200;
+
+const FACET_VALUES: Record<OrderFacetField, string[]> = {
+  status: ORDER_STATUSES.map((option) => option.value),
+  paymentStatus: PAYMENT_STATUSES.map((option) => option.value),
+  confirmationStatus: CONFIRMATION_STATUSES.map((option) => option.value),
+  deliveryStatus: DELIVERY_STATUSES.map((option) => option.value),
+  orderFrom: ORDER_SOURCES.map((option) => option.value),
+};
+
+const DATE_PARAMS = ['createdFrom', 'createdTo', 'deliveryFrom', 'deliveryTo', 'updatedFrom', 'updatedTo'] as const;
+
+/**
+ * today, today-5 or today+7: a date relative to the current day in the business timezone
+ * A space stands for "+", which is what an unencoded "+" in a hand-typed URL decodes to.
+ */
+const RELATIVE_DATE = /^today(?:([+\- ])(\d{1,4}))?$/;
+
+const ID_PARAMS = ['itemId', 'categoryId', 'tagId'] as const;
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+/**
+ * Turn a relative date into YYYY-MM-DD, so saved views such as "due this week" stay current
+ * @returns The value unchanged when it is not relative
+ */
+function resolveRelativeDate(value: string): string {
+  const match = RELATIVE_DATE.exec(value);
+  if (!match) return value;
+  const days = match[2] ? Number(match[2]) * (match[1] === '-' ? -1 : 1) : 0;
+  return DateTime.now().setZone(DIGEST_TIMEZONE).plus({ days }).toFormat('yyyy-MM-dd');
+}
+
+/**
+ * Read search filters from a query string
+ * Multi-value filters take comma-separated values (status=pending,processing)
+ * or repeated parameters. Date filters also take today, today-N and today+N.
+ * @throws {ApiError} 400 describing the first invalid parameter
+ */
+export function parseOrderSearchParams(searchParams: URLSearchParams): OrderSearchFilters {
+  const filters: OrderSearchFilters = {};
+
+  const q = searchParams.get('q')?.trim();
+  if (q) {
+    if (q.length > MAX_QUERY_LENGTH) badRequest(`q must be ${MAX_QUERY_LENGTH} characters or fewer`);
+    filters.q = q;
+  }
+
+  for (const [field, allowed] of Object.entries(FACET_VALUES) as Array<[OrderFacetField, string[]]>) {
+    const values = searchParams.getAll(field).flatMap((value) => value.split(',')).map((value) => value.trim()).filter(Boolean);
+    if (values.length === 0) continue;
+    const invalid = values.filter((value) => !allowed.includes(value));
+    if (invalid.length > 0) {
+      badRequest(`Invalid ${field}: ${invalid.join(', ')}. Must be one of: ${allowed.join(', ')}`);
+    }
+    (filters as Record<string, unknown>)[field] = [...new Set(values)].sort();
+  }
+
+  for (const param of DATE_PARAMS) {
+    const raw = searchParams.get(param)?.trim();
+    if (!raw) continue;
+    const value = resolveRelativeDate(raw);
+    if (Number.isNaN(new Date(value).getTime())) badRequest(`Invalid ${param} date`);
+    filters[param] = value;
+  }
+
+  for (const param of ID_PARAMS) {
+    const value = searchParams.get(param)?.trim();
+    if (!value) continue;
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) badRequest(`Invalid ${param}`);
+    filters[param] = id;
+  }
+
+  const customerId = searchParams.get('customerId')?.trim();
+  if (customerId) filters.customerId = customerId;
+
+  return filters;
+}
+
+/**
+ * Read the sort order from a query string (sort and dir, as in order history URLs)
+ * @returns undefined for the default, newest first
+ * @throws {ApiError} 400 for an unknown sort key
+ */
+export function parseOrderSortParams(searchParams: URLSearchParams): OrderSearchSort | undefined {
+  const key = searchParams.get(SAVED_VIEW_URL_PARAMS.SORT)?.trim();
+  const direction = searchParams.get(SAVED_VIEW_URL_PARAMS.DIRECTION) === 'asc' ? 'asc' : 'desc';
+  if (!key) return undefined;
+  if (!SAVED_VIEW_SORT_KEYS.includes(key as SavedOrderViewSortKey)) {
+    badRequest(`sort must be one of: ${SAVED_VIEW_SORT_KEYS.join(', ')}`);
+  }
+  if (key === 'createdAt' && direction === 'desc') return undefined;
+  return { key: key as SavedOrderViewSortKey, direction };
+}
+
+/**
+ * Whether any filter is set
+ */
+export function hasOrderSearchFilters(filters: OrderSearchFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+/**
+ * Filters in a fixed key order, so equivalent query strings produce the same string
+ */
+function canonicalizeFilters(filters: OrderSearchFilters): string {
+  const sorted = Object.fromEntries(Object.entries(filters).sort(([a], [b]) => a.localeCompare(b)));
+  return JSON.stringify(sorted);
+}
+
+/**
+ * A sort other than the default as text for keys and fingerprints
+ */
+function canonicalizeSort(sort?: OrderSearchSort): string {
+  return sort ? `:sort=${sort.key}:${sort.direction}` : '';
+}
+
+/**
+ * Short fingerprint of the filters and sort, embedded in cursors so a cursor is only used with the search it was issued for
+ * @returns An empty string when there are no filters and the default sort, which keeps unfiltered cursors unchanged
+ */
+export function getOrderFilterKey(filters: OrderSearchFilters, sort?: OrderSearchSort): string {
+  if (!hasOrderSearchFilters(filters) && !sort) return '';
+  return crypto.createHash('sha256').update(canonicalizeFilters(filters) + canonicalizeSort(sort)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Redis key suffix for one page of a search; parameter order in the URL does not matter
+ */
+export function getOrderSearchCacheKey(filters: OrderSearchFilters, limit: number, cursor: string | null, sort?: OrderSearchSort): string {
+  return `GET:/api/orders:${canonicalizeFilters(filters)}${canonicalizeSort(sort)}:limit=${limit}:cursor=${cursor || ''}`;
+}
@@ -0,0 +1,62 @@
+import Order from '@/lib/models/Order';
+import OrderNote from '@/lib/models/OrderNote';
+import ItemDesign from '@/lib/models/ItemDesign';
+import type { OrderItem, PublicOrderTracking } from '@/types';
+
+interface DesignRow {
+  id: number;
+  itemId: number;
+  designName: string;
+  imageUrl: string;
+}
+
+/**
+ * Build the customer-facing view of an order for its public tracking link
+ * Fields are copied one by one so nothing new on the order (prices, address,
+ * payment, internal or system notes) can leak by accident. Lines without a
+ * chosen design show the item's primary design image.
+ * @returns null when the order no longer exists
+ */
+export async function buildPublicTracking(orderId: number): Promise<PublicOrderTracking | null> {
+  const order = await Order.findById(orderId);
+  if (!order) return null;
+
+  const lines = order.items as OrderItem[];
+  const [designs, customerNotes] = await Promise.all([
+    ItemDesign.findByItemIds([...new Set(lines.map(line => Number(line.item)))]) as Promise<DesignRow[]>,
+    OrderNote.findByOrderIdAndType(order._id, 'customer'),
+  ]);
+
+  const designsById = new Map(designs.map(design => [design.id, design]));
+  // Designs come back primary first, so the first one seen per item is its primary
+  const primaryByItem = new Map<number, DesignRow>();
+  for (const design of designs) {
+    if (!primaryByItem.has(design.itemId)) primaryByItem.set(design.itemId, design);
+  }
+
+  return {
+    orderId: order.orderId,
+    orderDate: order.orderDate,
+    status: order.status,
+    deliveryStatus: order.deliveryStatus,
+    deliveryPartner: order.deliveryPartner || null,
+    trackingId: order.trackingId || null,
+    expectedDeliveryDate: order.expectedDeliveryDate,
+    actualDeliveryDate: order.actualDeliveryDate,
+    items: lines.map(line => {
+      const chosen = line.designId ? designsById.get(Number(line.designId)) : undefined;
+      const design = chosen || primaryByItem.get(Number(line.item));
+      return {
+        name: line.name,
+        quantity: line.quantity,
+        designName: chosen?.designName || null,
+        imageUrl: design?.imageUrl || null,
+      };
+    }),
+    updates: customerNotes.map((note: { id: number; noteText: string; createdAt: string }) => ({
+      id: note.id,
+      noteText: note.noteText,
+      createdAt: note.createdAt,
+    })),
+  };
+}
@@ -0,0 +1,193 @@
+import { DateTime } from 'luxon';
+import Order from '@/lib/models/Order';
+import ProductionCapacity from '@/lib/models/ProductionCapacity';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { DIGEST_TIMEZONE } from '@/lib/utils/digestBuckets';
+import {
+  DELIVERY_SUGGESTION_HORIZON_DAYS,
+  PRODUCTION_CALENDAR_MAX_DAYS,
+  PRODUCTION_CAPACITY_UNITS,
+} from '@/constants/productionConstants';
+import type {
+  DeliveryDateSuggestion,
+  ProductionCalendarData,
+  ProductionCalendarDay,
+  ProductionCalendarOrder,
+  ProductionCapacityOverride,
+  ProductionCapacitySettings,
+  ProductionCapacityUnit,
+} from '@/types';
+
+/**
+ * Production planning
+ *
+ * Days are calendar days in the business timezone (the one the digest uses).
+ * An order counts against the day it is expected to be delivered, and only
+ * while it is pending or processing: once production is complete it no longer
+ * takes up capacity.
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_CAPACITY = 10000;
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function parseDay(value: unknown, name: string): DateTime {
+  const day = typeof value === 'string' && DATE_PATTERN.test(value)
+    ? DateTime.fromISO(value, { zone: DIGEST_TIMEZONE })
+    : null;
+  if (!day?.isValid) badRequest(`${name} must be a date in YYYY-MM-DD format`);
+  return day;
+}
+
+function toDayKey(date: Date | string): string {
+  const value = date instanceof Date ? date : new Date(date);
+  return DateTime.fromJSDate(value).setZone(DIGEST_TIMEZONE).toISODate() as string;
+}
+
+function parseCapacityValue(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_CAPACITY) {
+    badRequest(`${name} must be a whole number from 0 to ${MAX_CAPACITY}`);
+  }
+  return value;
+}
+
+function getCapacity(
+  settings: ProductionCapacitySettings,
+  overrides: Map<string, ProductionCapacityOverride>,
+  day: DateTime
+): number {
+  const override = overrides.get(day.toISODate() as string);
+  return override ? override.capacity : settings.weekdayCapacity[day.weekday - 1] ?? 0;
+}
+
+function getLoad(unit: ProductionCapacityUnit, orders: ProductionCalendarOrder[]): number {
+  return unit === 'orders' ? orders.length : orders.reduce((sum, order) => sum + order.units, 0);
+}
+
+/**
+ * Load the open orders and overrides for a run of days and work out each day's load
+ */
+async function loadDays(settings: ProductionCapacitySettings, start: DateTime, dayCount: number): Promise<ProductionCalendarDay[]> {
+  const end = start.plus({ days: dayCount });
+  const [overrides, orders] = await Promise.all([
+    ProductionCapacity.findOverrides(start.toISODate() as string, end.minus({ days: 1 }).toISODate() as string) as Promise<ProductionCapacityOverride[]>,
+    Order.findOpenByDeliveryRange(start.toJSDate(), end.toJSDate()) as Promise<ProductionCalendarOrder[]>,
+  ]);
+
+  const overridesByDate = new Map(overrides.map(override => [override.date, override]));
+  const ordersByDate = new Map<string, ProductionCalendarOrder[]>();
+  for (const order of orders) {
+    const key = toDayKey(order.expectedDeliveryDate);
+    ordersByDate.set(key, [...(ordersByDate.get(key) ?? []), order]);
+  }
+
+  return Array.from({ length: dayCount }, (_, index) => {
+    const day = start.plus({ days: index });
+    const date = day.toISODate() as string;
+    const dayOrders = ordersByDate.get(date) ?? [];
+    const capacity = getCapacity(settings, overridesByDate, day);
+    const load = getLoad(settings.unit, dayOrders);
+    return {
+      date,
+      capacity,
+      load,
+      overbooked: load > capacity,
+      override: overridesByDate.get(date) ?? null,
+      orders: dayOrders,
+    };
+  });
+}
+
+/**
+ * Read the from/to range of a calendar request
+ * @throws {ApiError} 400 for missing or malformed dates, or a range over PRODUCTION_CALENDAR_MAX_DAYS
+ */
+export function parseCalendarRange(searchParams: URLSearchParams): { from: string; to: string } {
+  const from = parseDay(searchParams.get('from'), 'from');
+  const to = parseDay(searchParams.get('to'), 'to');
+  const dayCount = to.diff(from, 'days').days + 1;
+  if (dayCount < 1) badRequest('to must not be before from');
+  if (dayCount > PRODUCTION_CALENDAR_MAX_DAYS) badRequest(`The range may cover at most ${PRODUCTION_CALENDAR_MAX_DAYS} days`);
+  return { from: from.toISODate() as string, to: to.toISODate() as string };
+}
+
+/**
+ * Open orders, capacity and load for each day from `from` to `to` (inclusive)
+ */
+export async function buildProductionCalendar(from: string, to: string): Promise<ProductionCalendarData> {
+  const start = DateTime.fromISO(from, { zone: DIGEST_TIMEZONE }).startOf('day');
+  const dayCount = DateTime.fromISO(to, { zone: DIGEST_TIMEZONE }).diff(start, 'days').days + 1;
+  const settings = await ProductionCapacity.getSettings() as ProductionCapacitySettings;
+  const days = await loadDays(settings, start, Math.round(dayCount));
+  return { from, to, settings, days };
+}
+
+/**
+ * Find the earliest delivery date with room for a new order
+ * Starts minLeadDays from today. A day fits when its load plus the order stays
+ * within capacity; an order larger than a whole day's capacity takes the first
+ * open day with nothing booked.
+ * @param units - Total item quantity of the new order; only used when capacity counts units
+ */
+export async function suggestDeliveryDate(units: number): Promise<DeliveryDateSuggestion> {
+  const settings = await ProductionCapacity.getSettings() as ProductionCapacitySettings;
+  const start = DateTime.now().setZone(DIGEST_TIMEZONE).startOf('day').plus({ days: settings.minLeadDays });
+  const days = await loadDays(settings, start, DELIVERY_SUGGESTION_HORIZON_DAYS);
+  const needed = settings.unit === 'orders' ? 1 : Math.max(units, 1);
+
+  const day = days.find(d => d.capacity > 0 && (d.load + needed <= d.capacity || d.load === 0));
+  return {
+    date: day?.date ?? null,
+    unit: settings.unit,
+    needed,
+    load: day?.load ?? 0,
+    capacity: day?.capacity ?? 0,
+  };
+}
+
+/**
+ * Validate a capacity settings body
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseCapacitySettingsInput(body: Record<string, unknown>): Omit<ProductionCapacitySettings, 'isDefault' | 'updatedAt'> {
+  if (!PRODUCTION_CAPACITY_UNITS.some(option => option.value === body.unit)) {
+    badRequest(`unit must be one of: ${PRODUCTION_CAPACITY_UNITS.map(option => option.value).join(', ')}`);
+  }
+  if (!Array.isArray(body.weekdayCapacity) || body.weekdayCapacity.length !== 7) {
+    badRequest('weekdayCapacity must list the capacity for each day from Monday to Sunday');
+  }
+  const weekdayCapacity = body.weekdayCapacity.map((value, index) => parseCapacityValue(value, `weekdayCapacity[${index}]`));
+  if (weekdayCapacity.every(value => value === 0)) badRequest('At least one weekday needs some capacity');
+
+  const minLeadDays = body.minLeadDays ?? 0;
+  if (typeof minLeadDays !== 'number' || !Number.isInteger(minLeadDays) || minLeadDays < 0 || minLeadDays > 365) {
+    badRequest('minLeadDays must be a whole number from 0 to 365');
+  }
+
+  return { unit: body.unit as ProductionCapacityUnit, weekdayCapacity, minLeadDays };
+}
+
+/**
+ * Read the date of a capacity override from the URL
+ * @throws {ApiError} 400 unless it is a YYYY-MM-DD date
+ */
+export function parseCapacityDate(value: string): string {
+  return parseDay(value, 'date').toISODate() as string;
+}
+
+/**
+ * Validate a date override
+ * @throws {ApiError} 400 for a malformed date or capacity
+ */
+export function parseCapacityOverrideInput(date: string, body: Record<string, unknown>): { date: string; capacity: number; note: string | null } {
+  if (body.note !== undefined && body.note !== null && typeof body.note !== 'string') badRequest('note must be a string');
+  return {
+    date: parseCapacityDate(date),
+    capacity: parseCapacityValue(body.capacity, 'capacity'),
+    note: (body.note as string | null | undefined)?.trim() || null,
+  };
+}
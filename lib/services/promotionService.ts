@@ -0,0 +1,172 @@
+import Promotion from '@/lib/models/Promotion';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { calculatePromotionDiscount, getPromotionBlocker, type PromotionLine } from '@/lib/utils/promotionRules';
+import type { AppliedPromotion, CreatePromotionData, Promotion as PromotionEntity, PromotionType } from '@/types';
+
+const PROMOTION_TYPE_VALUES: PromotionType[] = ['percentage', 'flat', 'buy_x_get_y'];
+const PROMOTION_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function parseOptionalAmount(value: unknown, label: string): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const parsed = Number.parseFloat(String(value));
+  if (Number.isNaN(parsed) || parsed < 0) badRequest(`${label} must be a non-negative number`);
+  return Math.round(parsed * 100) / 100;
+}
+
+function parseOptionalCount(value: unknown, label: string): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) badRequest(`${label} must be a positive whole number`);
+  return parsed;
+}
+
+function parseOptionalDate(value: unknown, label: string): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const parsed = new Date(String(value));
+  if (Number.isNaN(parsed.getTime())) badRequest(`${label} must be a valid date`);
+  return parsed.toISOString();
+}
+
+/**
+ * Validate a promotion create or update body
+ * Rules are checked against the merged result, so a partial update cannot
+ * leave a buy-X-get-Y promotion without quantities or a percentage over 100.
+ * @param current - Stored promotion when updating
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parsePromotionInput(
+  body: Record<string, unknown>,
+  current?: PromotionEntity | null
+): CreatePromotionData {
+  const data: Partial<CreatePromotionData> = {};
+
+  if (body.code !== undefined || !current) {
+    const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+    if (!PROMOTION_CODE_PATTERN.test(code)) {
+      badRequest('Code must be 3-32 letters, digits, hyphens or underscores');
+    }
+    data.code = code;
+  }
+  if (body.name !== undefined || !current) {
+    if (typeof body.name !== 'string' || !body.name.trim()) badRequest('Promotion name is required');
+    data.name = body.name.trim();
+  }
+  if (body.description !== undefined) {
+    data.description = typeof body.description === 'string' ? body.description : '';
+  }
+  if (body.type !== undefined || !current) {
+    if (!PROMOTION_TYPE_VALUES.includes(body.type as PromotionType)) {
+      badRequest(`Invalid promotion type. Must be one of: ${PROMOTION_TYPE_VALUES.join(', ')}`);
+    }
+    data.type = body.type as PromotionType;
+  }
+  if (body.value !== undefined) {
+    data.value = parseOptionalAmount(body.value, 'Value') ?? 0;
+  }
+  if (body.categoryId !== undefined) {
+    const categoryId = body.categoryId === null || body.categoryId === '' ? null : Number(body.categoryId);
+    if (categoryId !== null && (!Number.isInteger(categoryId) || categoryId <= 0)) badRequest('Invalid category');
+    data.categoryId = categoryId;
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') badRequest('isActive must be a boolean');
+    data.isActive = body.isActive;
+  }
+
+  const counts = {
+    buyQuantity: parseOptionalCount(body.buyQuantity, 'Buy quantity'),
+    getQuantity: parseOptionalCount(body.getQuantity, 'Free quantity'),
+    usageLimit: parseOptionalCount(body.usageLimit, 'Usage limit'),
+    perCustomerLimit: parseOptionalCount(body.perCustomerLimit, 'Per-customer limit'),
+  };
+  const amounts = {
+    minOrderAmount: parseOptionalAmount(body.minOrderAmount, 'Minimum order amount'),
+    maxDiscountAmount: parseOptionalAmount(body.maxDiscountAmount, 'Maximum discount'),
+  };
+  const dates = {
+    startsAt: parseOptionalDate(body.startsAt, 'Start date'),
+    endsAt: parseOptionalDate(body.endsAt, 'End date'),
+  };
+  for (const [key, value] of Object.entries({ ...counts, ...amounts, ...dates })) {
+    if (value !== undefined) (data as Record<string, unknown>)[key] = value;
+  }
+
+  const merged = { ...current, ...data };
+  if (merged.type === 'percentage' && (merged.value ?? 0) > 100) {
+    badRequest('Percentage discount cannot exceed 100');
+  }
+  if (merged.type !== 'buy_x_get_y' && !(Number(merged.value) > 0)) {
+    badRequest('Value must be greater than 0');
+  }
+  if (merged.type === 'buy_x_get_y' && (!merged.buyQuantity || !merged.getQuantity)) {
+    badRequest('Buy and free quantities are required for buy X get Y promotions');
+  }
+  if (merged.startsAt && merged.endsAt && new Date(merged.endsAt) <= new Date(merged.startsAt)) {
+    badRequest('End date must be after the start date');
+  }
+
+  // Updates pass only the fields present; Promotion.update takes a partial
+  return data as CreatePromotionData;
+}
+
+export interface ResolvePromotionOptions {
+  customerId?: string | null;
+  /** Promotion already on the order being edited; its redemption is already counted */
+  existingPromotionId?: number | null;
+}
+
+/**
+ * Look up a promotion code and work out the discount it gives on the lines
+ * Availability (active flag, date window, usage caps) is skipped for the
+ * promotion the order already carries, so editing an order never loses a
+ * discount that was valid when it was placed.
+ * @throws {ApiError} 400 explaining why the code cannot be applied
+ */
+export async function resolvePromotion(
+  code: string,
+  lines: PromotionLine[],
+  options: ResolvePromotionOptions = {}
+): Promise<AppliedPromotion> {
+  const promotion = await Promotion.findByCode(code) as PromotionEntity | null;
+  if (!promotion) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Promotion code ${code.trim().toUpperCase()} is not valid`);
+  }
+
+  if (promotion.id !== options.existingPromotionId) {
+    const customerUses = options.customerId && promotion.perCustomerLimit
+      ? await Promotion.countCustomerUses(promotion.id, options.customerId)
+      : 0;
+    const blocker = getPromotionBlocker(promotion, customerUses);
+    if (blocker) {
+      throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Promotion ${promotion.code} ${blocker}`);
+    }
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  if (promotion.minOrderAmount && subtotal < promotion.minOrderAmount) {
+    throw new ApiError(
+      HTTP_STATUS.BAD_REQUEST,
+      `Promotion ${promotion.code} needs an order of at least ${promotion.minOrderAmount.toFixed(2)}`
+    );
+  }
+
+  const discountAmount = calculatePromotionDiscount(promotion, lines);
+  if (discountAmount <= 0) {
+    throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Promotion ${promotion.code} does not apply to any item in this order`);
+  }
+
+  return {
+    id: promotion.id,
+    code: promotion.code,
+    name: promotion.name,
+    discountAmount,
+  };
+}
@@ -0,0 +1,295 @@
+import { DateTime } from 'luxon';
+import Item from '@/lib/models/Item';
+import Supplier, { type SupplierData } from '@/lib/models/Supplier';
+import PurchaseOrder, { OPEN_PURCHASE_ORDER_STATUSES } from '@/lib/models/PurchaseOrder';
+import type { PurchaseOrderLineInput, PurchaseOrderReceipt } from '@/lib/models/PurchaseOrder';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { DIGEST_TIMEZONE } from '@/lib/utils/digestBuckets';
+import { createLogger } from '@/lib/utils/logger';
+import type { PurchaseOrder as PurchaseOrderEntity, PurchaseOrderStatus, Supplier as SupplierEntity } from '@/types';
+
+/**
+ * Purchasing
+ *
+ * Purchase orders start as drafts, are placed with the supplier (ordered) and
+ * are then received, in one go or in parts. Receiving first records the units
+ * against the order lines and folds their cost into each item's costPrice
+ * (weighted by the stock on hand), then posts the units to stock as restocks
+ * referencing the purchase order.
+ */
+
+const logger = createLogger('PurchasingService');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_QUANTITY = 1_000_000;
+const MAX_LEAD_TIME_DAYS = 365;
+
+interface PurchasingUser {
+  id?: number;
+  email?: string;
+}
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function parseOptionalText(value: unknown, name: string): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') badRequest(`${name} must be a string`);
+  return value.trim() || null;
+}
+
+function parseOptionalDate(value: unknown, name: string): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const day = typeof value === 'string' && DATE_PATTERN.test(value) ? DateTime.fromISO(value) : null;
+  if (!day?.isValid) badRequest(`${name} must be a date in YYYY-MM-DD format`);
+  return value as string;
+}
+
+function parseWholeQuantity(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0 || value > MAX_QUANTITY) {
+    badRequest(`${name} must be a whole number greater than zero`);
+  }
+  return value;
+}
+
+/**
+ * Validate a supplier body
+ * @param partial - Only validate the fields present (updates)
+ */
+export function parseSupplierInput(body: Record<string, unknown>, { partial = false } = {}): SupplierData {
+  const data: Partial<SupplierData> = {};
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) badRequest('Supplier name is required');
+    data.name = body.name.trim();
+  }
+
+  for (const field of ['contactName', 'phone', 'address', 'paymentTerms', 'notes'] as const) {
+    const value = parseOptionalText(body[field], field);
+    if (value !== undefined) data[field] = value;
+  }
+
+  const email = parseOptionalText(body.email, 'email');
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) badRequest('email must be a valid email address');
+  if (email !== undefined) data.email = email;
+
+  if (body.leadTimeDays !== undefined) {
+    if (body.leadTimeDays === null || body.leadTimeDays === '') {
+      data.leadTimeDays = null;
+    } else if (
+      typeof body.leadTimeDays !== 'number'
+      || !Number.isInteger(body.leadTimeDays)
+      || body.leadTimeDays < 0
+      || body.leadTimeDays > MAX_LEAD_TIME_DAYS
+    ) {
+      badRequest(`leadTimeDays must be a whole number from 0 to ${MAX_LEAD_TIME_DAYS}`);
+    } else {
+      data.leadTimeDays = body.leadTimeDays;
+    }
+  }
+
+  // Updates pass only the fields present; Supplier.update takes a partial
+  return data as SupplierData;
+}
+
+function parseLines(value: unknown): PurchaseOrderLineInput[] {
+  if (!Array.isArray(value) || value.length === 0) badRequest('A purchase order needs at least one line');
+
+  const seen = new Set<number>();
+  return value.map((line: Record<string, unknown>, index) => {
+    const label = `Line ${index + 1}`;
+    if (!line || typeof line !== 'object') badRequest(`${label} is invalid`);
+    const itemId = Number(line.itemId);
+    if (!Number.isInteger(itemId) || itemId <= 0) badRequest(`${label}: itemId is required`);
+    if (seen.has(itemId)) badRequest(`${label}: each item can only appear once`);
+    seen.add(itemId);
+
+    const quantityOrdered = parseWholeQuantity(line.quantityOrdered, `${label}: quantityOrdered`);
+    const unitCost = typeof line.unitCost === 'string' && line.unitCost.trim() !== '' ? Number(line.unitCost) : line.unitCost;
+    if (typeof unitCost !== 'number' || !Number.isFinite(unitCost) || unitCost < 0) {
+      badRequest(`${label}: unitCost must be a number of at least 0`);
+    }
+    return { itemId, quantityOrdered, unitCost: Math.round(unitCost * 100) / 100 };
+  });
+}
+
+/**
+ * Validate a purchase order body
+ * @param partial - Only validate the fields present (updates)
+ */
+export function parsePurchaseOrderInput(body: Record<string, unknown>, { partial = false } = {}) {
+  const data: {
+    supplierId?: number;
+    expectedDate?: string | null;
+    notes?: string | null;
+    lines?: PurchaseOrderLineInput[];
+  } = {};
+
+  if (!partial || body.supplierId !== undefined) {
+    const supplierId = Number(body.supplierId);
+    if (!Number.isInteger(supplierId) || supplierId <= 0) badRequest('supplierId is required');
+    data.supplierId = supplierId;
+  }
+  if (!partial || body.lines !== undefined) {
+    data.lines = parseLines(body.lines);
+  }
+
+  const expectedDate = parseOptionalDate(body.expectedDate, 'expectedDate');
+  if (expectedDate !== undefined) data.expectedDate = expectedDate;
+  const notes = parseOptionalText(body.notes, 'notes');
+  if (notes !== undefined) data.notes = notes;
+
+  return data;
+}
+
+/**
+ * Check that a purchase order's supplier exists
+ * @throws ApiError 400 when it does not
+ */
+export async function requireSupplier(supplierId: number): Promise<SupplierEntity> {
+  const supplier = await Supplier.findById(supplierId) as SupplierEntity | null;
+  if (!supplier) badRequest(`Supplier with id ${supplierId} not found`);
+  return supplier;
+}
+
+/**
+ * Check that every line's item exists
+ * @throws ApiError 400 naming the first missing item
+ */
+export async function requireItems(lines: PurchaseOrderLineInput[]) {
+  const found = await Item.findByIds(lines.map(line => line.itemId)) as Map<number, unknown>;
+  const missing = lines.find(line => !found.has(line.itemId));
+  if (missing) badRequest(`Item with id ${missing.itemId} not found`);
+}
+
+/**
+ * Edit a purchase order
+ * Lines and supplier can only change on drafts; the expected date and notes
+ * can change until the order is closed.
+ * @returns The updated order, or null if it does not exist
+ */
+export async function updatePurchaseOrder(id: number, body: Record<string, unknown>): Promise<PurchaseOrderEntity | null> {
+  const existing = await PurchaseOrder.findById(id) as PurchaseOrderEntity | null;
+  if (!existing) return null;
+
+  const data = parsePurchaseOrderInput(body, { partial: true });
+  if (existing.status === 'received' || existing.status === 'cancelled') {
+    throw new ApiError(HTTP_STATUS.CONFLICT, `This purchase order is ${existing.status} and can no longer be changed`);
+  }
+  if (existing.status !== 'draft' && (data.lines || data.supplierId !== undefined)) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'Lines and supplier can only be changed while the purchase order is a draft');
+  }
+  if (data.supplierId !== undefined) await requireSupplier(data.supplierId);
+  if (data.lines) await requireItems(data.lines);
+
+  return PurchaseOrder.update(id, data) as Promise<PurchaseOrderEntity | null>;
+}
+
+const PURCHASE_ORDER_TRANSITIONS: Partial<Record<PurchaseOrderStatus, { from: PurchaseOrderStatus[]; verb: string }>> = {
+  ordered: { from: ['draft'], verb: 'placed' },
+  cancelled: { from: ['draft', 'ordered', 'partially_received'], verb: 'cancelled' },
+};
+
+/**
+ * Place or cancel a purchase order
+ * Placing an order without an expected date fills it in from the supplier's lead time.
+ * Cancelling a partially received order closes it; what was received stays in stock.
+ * @returns The updated order, or null if it does not exist
+ * @throws ApiError 400 for statuses that cannot be set directly, 409 when the move is not allowed
+ */
+export async function setPurchaseOrderStatus(id: number, status: unknown): Promise<PurchaseOrderEntity | null> {
+  const existing = await PurchaseOrder.findById(id) as PurchaseOrderEntity | null;
+  if (!existing) return null;
+
+  const transition = PURCHASE_ORDER_TRANSITIONS[status as PurchaseOrderStatus];
+  if (!transition) {
+    badRequest(`status must be one of: ${Object.keys(PURCHASE_ORDER_TRANSITIONS).join(', ')}; receive goods through the receive endpoint`);
+  }
+
+  const changes: Record<string, unknown> = { status };
+  if (status === 'ordered') {
+    changes.orderedAt = new Date();
+    if (!existing.expectedDate) {
+      const supplier = await Supplier.findById(existing.supplier.id) as SupplierEntity | null;
+      if (supplier?.leadTimeDays !== null && supplier?.leadTimeDays !== undefined) {
+        changes.expectedDate = DateTime.now().setZone(DIGEST_TIMEZONE).plus({ days: supplier.leadTimeDays }).toISODate();
+      }
+    }
+  }
+
+  const moved = await PurchaseOrder.transition(id, transition.from, changes);
+  if (!moved) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, `A ${existing.status.replace('_', ' ')} purchase order cannot be ${transition.verb}`);
+  }
+
+  return PurchaseOrder.findById(id) as Promise<PurchaseOrderEntity | null>;
+}
+
+/**
+ * Receive goods against an open purchase order
+ * Body: { lines?: [{ lineId, quantity }], notes? }. Without lines, everything still
+ * outstanding is received.
+ * @returns The updated order and the units put in stock, or null if the order does not exist
+ * @throws ApiError 400 for invalid quantities, 409 when the order is not open
+ */
+export async function receivePurchaseOrder(id: number, body: Record<string, unknown>, user: PurchasingUser) {
+  const purchaseOrder = await PurchaseOrder.findById(id) as PurchaseOrderEntity | null;
+  if (!purchaseOrder) return null;
+
+  if (!OPEN_PURCHASE_ORDER_STATUSES.includes(purchaseOrder.status)) {
+    throw new ApiError(
+      HTTP_STATUS.CONFLICT,
+      purchaseOrder.status === 'draft'
+        ? 'Place the purchase order before receiving goods against it'
+        : `This purchase order is ${purchaseOrder.status} and cannot receive more goods`
+    );
+  }
+
+  const notes = parseOptionalText(body.notes, 'notes');
+  const linesById = new Map(purchaseOrder.lines.map(line => [line.id, line]));
+  const receivedByLine = new Map<number, number>();
+
+  if (body.lines === undefined) {
+    for (const line of purchaseOrder.lines) {
+      const outstanding = line.quantityOrdered - line.quantityReceived;
+      if (outstanding > 0) receivedByLine.set(line.id, outstanding);
+    }
+  } else {
+    if (!Array.isArray(body.lines)) badRequest('lines must be an array');
+    for (const [index, entry] of (body.lines as Array<Record<string, unknown>>).entries()) {
+      const line = linesById.get(Number(entry?.lineId));
+      if (!line) badRequest(`Line ${index + 1}: lineId does not belong to this purchase order`);
+      if (entry.quantity === 0) continue;
+      const quantity = parseWholeQuantity(entry.quantity, `Line ${index + 1}: quantity`);
+      receivedByLine.set(line.id, (receivedByLine.get(line.id) ?? 0) + quantity);
+    }
+  }
+
+  const receipts: PurchaseOrderReceipt[] = [];
+  for (const [lineId, quantity] of receivedByLine) {
+    const line = linesById.get(lineId)!;
+    const outstanding = line.quantityOrdered - line.quantityReceived;
+    if (quantity > outstanding) {
+      badRequest(`${line.itemName}: only ${outstanding} still to be received`);
+    }
+    receipts.push({ lineId, itemId: line.itemId, quantity, unitCost: line.unitCost });
+  }
+  if (receipts.length === 0) badRequest('Nothing to receive');
+
+  await PurchaseOrder.recordReceipt(id, receipts, {
+    notes: notes ? `${purchaseOrder.poNumber}: ${notes}` : `Received on ${purchaseOrder.poNumber}`,
+    user,
+  });
+
+  const units = receipts.reduce((sum, receipt) => sum + receipt.quantity, 0);
+  logger.info('Purchase order received', { purchaseOrderId: id, lines: receipts.length, units });
+
+  return {
+    purchaseOrder: await PurchaseOrder.findById(id) as PurchaseOrderEntity,
+    stock: { received: units },
+  };
+}
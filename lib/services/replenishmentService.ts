@@ -0,0 +1,215 @@
+import { DateTime } from 'luxon';
+import Stock from '@/lib/models/Stock';
+import ReplenishmentSettings from '@/lib/models/ReplenishmentSettings';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { DIGEST_TIMEZONE } from '@/lib/utils/digestBuckets';
+import { createLogger } from '@/lib/utils/logger';
+import { REPLENISHMENT_MAX_DAYS } from '@/constants/replenishmentConstants';
+import type {
+  ItemId,
+  ReplenishmentSettings as ReplenishmentSettingsData,
+  ReplenishmentStatus,
+  StockRecommendation,
+  StockRecommendationsData,
+} from '@/types';
+
+const logger = createLogger('ReplenishmentService');
+
+/**
+ * Replenishment
+ *
+ * Sales velocity is the average of the daily rates over the short and long
+ * windows, so a recent spike shows up without one quiet month hiding steady
+ * demand. Items newer than a window are averaged over the days they have
+ * existed. The reorder point covers sales over the supplier's lead time plus
+ * safety stock; a reorder tops stock and open purchase orders back up to the
+ * reorder point plus the target cover.
+ */
+
+/** A reorder point reached within this many days counts as reorder_soon */
+const REORDER_SOON_DAYS = 7;
+
+const STATUS_ORDER: ReplenishmentStatus[] = ['reorder_now', 'reorder_soon', 'ok', 'no_demand'];
+
+interface SalesHistoryRow {
+  id: number;
+  name: string;
+  stockQuantity: number;
+  reservedQuantity: number;
+  lowStockThreshold: number;
+  onOrderQuantity: number;
+  shortWindowUnits: number;
+  longWindowUnits: number;
+  daysTracked: number;
+  leadTimeDays: number | null;
+  leadTimeSupplierName: string | null;
+}
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function parseDays(value: unknown, name: string, min: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > REPLENISHMENT_MAX_DAYS) {
+    badRequest(`${name} must be a whole number from ${min} to ${REPLENISHMENT_MAX_DAYS}`);
+  }
+  return value;
+}
+
+function dailyRate(units: number, windowDays: number, daysTracked: number): number {
+  return Math.max(0, units) / Math.min(windowDays, daysTracked);
+}
+
+function buildRecommendation(row: SalesHistoryRow, settings: ReplenishmentSettingsData, today: DateTime): StockRecommendation {
+  const velocity = (
+    dailyRate(row.shortWindowUnits, settings.shortWindowDays, row.daysTracked)
+    + dailyRate(row.longWindowUnits, settings.longWindowDays, row.daysTracked)
+  ) / 2;
+  const leadTimeDays = row.leadTimeDays ?? settings.defaultLeadTimeDays;
+  const base = {
+    itemId: row.id as unknown as ItemId,
+    itemName: row.name,
+    stockQuantity: row.stockQuantity,
+    onOrderQuantity: row.onOrderQuantity,
+    lowStockThreshold: row.lowStockThreshold,
+    shortWindowUnits: Math.max(0, row.shortWindowUnits),
+    longWindowUnits: Math.max(0, row.longWindowUnits),
+    dailyVelocity: Math.round(velocity * 100) / 100,
+    leadTimeDays,
+    leadTimeSource: row.leadTimeDays === null ? 'default' as const : 'supplier' as const,
+    supplierName: row.leadTimeSupplierName,
+  };
+
+  if (velocity === 0) {
+    return {
+      ...base,
+      daysOfCover: null,
+      stockoutDate: null,
+      safetyStock: 0,
+      reorderPoint: 0,
+      reorderQuantity: 0,
+      reorderDate: null,
+      status: 'no_demand',
+    };
+  }
+
+  const safetyStock = Math.ceil(velocity * settings.safetyStockDays);
+  const reorderPoint = Math.ceil(velocity * leadTimeDays) + safetyStock;
+  const orderUpTo = reorderPoint + Math.ceil(velocity * settings.targetCoverDays);
+  // Units already on purchase orders count towards the position so they are not ordered twice;
+  // units reserved for open orders are already spoken for
+  const position = row.stockQuantity - row.reservedQuantity + row.onOrderQuantity;
+  const daysUntilReorder = Math.max(0, Math.floor((position - reorderPoint) / velocity));
+  const daysOfCover = Math.max(0, row.stockQuantity) / velocity;
+
+  let status: ReplenishmentStatus = 'ok';
+  if (position <= reorderPoint) status = 'reorder_now';
+  else if (daysUntilReorder <= REORDER_SOON_DAYS) status = 'reorder_soon';
+
+  return {
+    ...base,
+    daysOfCover: Math.round(daysOfCover * 10) / 10,
+    stockoutDate: today.plus({ days: Math.floor(daysOfCover) }).toISODate(),
+    safetyStock,
+    reorderPoint,
+    reorderQuantity: Math.max(0, orderUpTo - Math.min(position, reorderPoint)),
+    reorderDate: today.plus({ days: daysUntilReorder }).toISODate(),
+    status,
+  };
+}
+
+function compareRecommendations(a: StockRecommendation, b: StockRecommendation): number {
+  const byStatus = STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+  if (byStatus !== 0) return byStatus;
+  if (a.reorderDate && b.reorderDate && a.reorderDate !== b.reorderDate) return a.reorderDate < b.reorderDate ? -1 : 1;
+  return a.itemName.localeCompare(b.itemName);
+}
+
+/**
+ * Work out reorder suggestions for every tracked item, most urgent first
+ */
+export async function getStockRecommendations(): Promise<StockRecommendationsData> {
+  const settings = await ReplenishmentSettings.get() as ReplenishmentSettingsData;
+  const rows = await Stock.getSalesHistory(settings.shortWindowDays, settings.longWindowDays) as SalesHistoryRow[];
+  const today = DateTime.now().setZone(DIGEST_TIMEZONE).startOf('day');
+
+  return {
+    settings,
+    generatedAt: new Date().toISOString(),
+    recommendations: rows.map(row => buildRecommendation(row, settings, today)).sort(compareRecommendations),
+  };
+}
+
+/**
+ * Set each item's lowStockThreshold to its reorder point
+ * Items without sales keep their threshold rather than dropping to 0.
+ * @param itemIds - Only update these items; all tracked items when omitted
+ * @returns The items whose threshold changed
+ */
+export async function applyRecommendedThresholds(itemIds?: number[]) {
+  const { recommendations } = await getStockRecommendations();
+  const selected = itemIds ? new Set(itemIds) : null;
+  const changes = recommendations
+    .filter(recommendation => recommendation.status !== 'no_demand')
+    .filter(recommendation => !selected || selected.has(Number(recommendation.itemId)))
+    .filter(recommendation => recommendation.reorderPoint !== recommendation.lowStockThreshold)
+    .map(recommendation => ({
+      itemId: Number(recommendation.itemId),
+      itemName: recommendation.itemName,
+      previousThreshold: recommendation.lowStockThreshold,
+      lowStockThreshold: recommendation.reorderPoint,
+    }));
+
+  await Stock.setLowStockThresholds(changes);
+  return changes;
+}
+
+/**
+ * Replenishment work for the daily digest
+ * Updates thresholds when autoUpdateThresholds is on. Failures are logged rather
+ * than thrown so they never hold up the order reminder.
+ * @returns Items due for reorder when includeInDigest is on, otherwise none
+ */
+export async function runDigestReplenishment(): Promise<StockRecommendation[]> {
+  try {
+    const settings = await ReplenishmentSettings.get() as ReplenishmentSettingsData;
+    if (settings.autoUpdateThresholds) {
+      const changes = await applyRecommendedThresholds();
+      logger.info('Low stock thresholds updated from sales velocity', { count: changes.length });
+    }
+    if (!settings.includeInDigest) return [];
+
+    const { recommendations } = await getStockRecommendations();
+    return recommendations.filter(recommendation =>
+      recommendation.status === 'reorder_now' || recommendation.status === 'reorder_soon'
+    );
+  } catch (error) {
+    logger.error('Replenishment for digest failed', error);
+    return [];
+  }
+}
+
+/**
+ * Validate replenishment settings
+ * @throws {ApiError} 400 for out-of-range days, a long window shorter than the short one, or non-boolean flags
+ */
+export function parseReplenishmentSettingsInput(body: Record<string, unknown>): Omit<ReplenishmentSettingsData, 'isDefault' | 'updatedAt'> {
+  const shortWindowDays = parseDays(body.shortWindowDays, 'shortWindowDays', 1);
+  const longWindowDays = parseDays(body.longWindowDays, 'longWindowDays', 1);
+  if (longWindowDays < shortWindowDays) badRequest('longWindowDays must not be shorter than shortWindowDays');
+
+  for (const flag of ['autoUpdateThresholds', 'includeInDigest']) {
+    if (typeof body[flag] !== 'boolean') badRequest(`${flag} must be true or false`);
+  }
+
+  return {
+    shortWindowDays,
+    longWindowDays,
+    safetyStockDays: parseDays(body.safetyStockDays, 'safetyStockDays', 0),
+    targetCoverDays: parseDays(body.targetCoverDays, 'targetCoverDays', 1),
+    defaultLeadTimeDays: parseDays(body.defaultLeadTimeDays, 'defaultLeadTimeDays', 0),
+    autoUpdateThresholds: body.autoUpdateThresholds as boolean,
+    includeInDigest: body.includeInDigest as boolean,
+  };
+}
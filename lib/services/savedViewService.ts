@@ -0,0 +1,207 @@
+import Order from '@/lib/models/Order';
+import SavedOrderView from '@/lib/models/SavedOrderView';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import { formatDateForDigest } from '@/lib/utils/digestBuckets';
+import { sendEmail, buildSavedViewsEmailHtml, buildSavedViewsEmailText } from '@/lib/services/emailService';
+import { getOrderFilterKey, parseOrderSearchParams } from '@/lib/services/orderSearchService';
+import {
+  SAVED_VIEW_NAME_MAX_LENGTH,
+  SAVED_VIEW_QUERY_PARAMS,
+  SAVED_VIEW_SORT_KEYS,
+} from '@/constants/savedViewConstants';
+import type {
+  OrderSearchFilters,
+  SavedOrderView as SavedOrderViewEntity,
+  SavedOrderViewData,
+  SavedOrderViewPreferences,
+  SavedOrderViewQuery,
+  SavedOrderViewSortKey,
+} from '@/types';
+
+const logger = createLogger('SavedViewService');
+
+/** Orders listed per view in the digest; the count covers the rest */
+const DIGEST_ORDERS_PER_VIEW = 10;
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+/**
+ * Keep the known, non-empty query parameters and check they form a valid search
+ * Relative dates are stored as written so the view moves with the calendar.
+ */
+function parseViewQuery(value: unknown): SavedOrderViewQuery {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) badRequest('query must be an object of filter parameters');
+
+  const query: SavedOrderViewQuery = {};
+  for (const param of SAVED_VIEW_QUERY_PARAMS) {
+    const raw = (value as Record<string, unknown>)[param];
+    if (raw === undefined || raw === null) continue;
+    if (typeof raw !== 'string' && typeof raw !== 'number') badRequest(`${param} must be a string`);
+    const text = String(raw).trim();
+    if (text) query[param] = text;
+  }
+
+  parseOrderSearchParams(new URLSearchParams(query));
+  return query;
+}
+
+/**
+ * Validate a saved view create or update body
+ * @param isUpdate - Fields are optional when updating
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseSavedViewInput(body: Record<string, unknown>, isUpdate: boolean = false): SavedOrderViewData {
+  const data: Partial<SavedOrderViewData> = {};
+
+  if (body.name !== undefined || !isUpdate) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) badRequest('Name is required');
+    if (name.length > SAVED_VIEW_NAME_MAX_LENGTH) badRequest(`Name must be ${SAVED_VIEW_NAME_MAX_LENGTH} characters or fewer`);
+    data.name = name;
+  }
+  if (body.query !== undefined || !isUpdate) {
+    data.query = parseViewQuery(body.query);
+  }
+  if (body.sortKey !== undefined) {
+    if (!SAVED_VIEW_SORT_KEYS.includes(body.sortKey as SavedOrderViewSortKey)) {
+      badRequest(`sortKey must be one of: ${SAVED_VIEW_SORT_KEYS.join(', ')}`);
+    }
+    data.sortKey = body.sortKey as SavedOrderViewSortKey;
+  }
+  if (body.sortDirection !== undefined) {
+    if (body.sortDirection !== 'asc' && body.sortDirection !== 'desc') badRequest('sortDirection must be asc or desc');
+    data.sortDirection = body.sortDirection;
+  }
+  if (body.isShared !== undefined) {
+    if (typeof body.isShared !== 'boolean') badRequest('isShared must be a boolean');
+    data.isShared = body.isShared;
+  }
+
+  // Updates pass only the fields present; SavedOrderView.update takes a partial
+  return data as SavedOrderViewData;
+}
+
+/**
+ * Validate a pin/digest settings body
+ * @throws {ApiError} 400 when neither setting is a boolean
+ */
+export function parseSavedViewPreferences(body: Record<string, unknown>): SavedOrderViewPreferences {
+  const preferences: SavedOrderViewPreferences = {};
+  for (const field of ['pinned', 'digestSubscribed'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'boolean') badRequest(`${field} must be a boolean`);
+    preferences[field] = body[field];
+  }
+  if (Object.keys(preferences).length === 0) badRequest('Provide pinned or digestSubscribed');
+  return preferences;
+}
+
+/**
+ * Search filters for a view as of today
+ */
+export function getSavedViewFilters(view: Pick<SavedOrderViewEntity, 'query'>): OrderSearchFilters {
+  return parseOrderSearchParams(new URLSearchParams(view.query));
+}
+
+/**
+ * Fill in how many orders each view matches right now
+ * A view whose query no longer parses, or whose count fails, keeps a null count
+ * rather than failing the whole list.
+ */
+export async function withSavedViewCounts(views: SavedOrderViewEntity[]): Promise<SavedOrderViewEntity[]> {
+  return Promise.all(views.map(async (view) => {
+    try {
+      return { ...view, count: await Order.countSearch(getSavedViewFilters(view)) };
+    } catch (error) {
+      logger.warn('Failed to count saved view', { viewId: view.id, error });
+      return view;
+    }
+  }));
+}
+
+/**
+ * Email each subscriber the current matches for the views they follow
+ * Part of the daily digest run. Never throws: one failing view or mailbox is
+ * logged and skipped so the reminder digest still goes out. Subscribers already
+ * emailed for the day are skipped, so a retried run does not email them twice.
+ * @returns How many subscribers were emailed
+ */
+export async function sendSavedViewDigests(digestDate: string): Promise<number> {
+  let subscriptions;
+  let alreadySent: Set<string>;
+  try {
+    [subscriptions, alreadySent] = await Promise.all([
+      SavedOrderView.findDigestSubscriptions(),
+      SavedOrderView.findDigestSends(digestDate),
+    ]);
+  } catch (error) {
+    logger.error('Failed to load saved view subscriptions', error);
+    return 0;
+  }
+  if (subscriptions.length === 0) return 0;
+
+  // Shared views followed by several people are only evaluated once
+  const results = new Map<number, Promise<{ total: number; orders: unknown[] } | null>>();
+  const evaluate = (subscription: Pick<SavedOrderViewEntity, 'query' | 'sortKey' | 'sortDirection'> & { viewId: number }) => {
+    if (!results.has(subscription.viewId)) {
+      results.set(subscription.viewId, (async () => {
+        try {
+          const filters = getSavedViewFilters(subscription);
+          const sort = { key: subscription.sortKey, direction: subscription.sortDirection };
+          const [total, page] = await Promise.all([
+            Order.countSearch(filters),
+            Order.findCursorPaginated({ limit: DIGEST_ORDERS_PER_VIEW, filters, sort, filterKey: getOrderFilterKey(filters, sort) }),
+          ]);
+          return { total, orders: page.orders };
+        } catch (error) {
+          logger.warn('Failed to evaluate saved view for digest', { viewId: subscription.viewId, error });
+          return null;
+        }
+      })());
+    }
+    return results.get(subscription.viewId)!;
+  };
+
+  const byEmail = new Map<string, typeof subscriptions>();
+  for (const subscription of subscriptions) {
+    if (alreadySent.has(subscription.email)) continue;
+    byEmail.set(subscription.email, [...(byEmail.get(subscription.email) || []), subscription]);
+  }
+
+  let sent = 0;
+  for (const [email, userSubscriptions] of byEmail) {
+    try {
+      const sections = [];
+      for (const subscription of userSubscriptions) {
+        const result = await evaluate(subscription);
+        if (result) sections.push({ name: subscription.name, ...result });
+      }
+      if (sections.length === 0) continue;
+
+      await sendEmail({
+        to: [email],
+        subject: `📋 Saved Order Views - ${digestDate}`,
+        html: buildSavedViewsEmailHtml(sections, digestDate, formatDateForDigest),
+        text: buildSavedViewsEmailText(sections, digestDate, formatDateForDigest),
+        attachments: undefined,
+      });
+      sent++;
+    } catch (error) {
+      logger.error('Failed to send saved view digest', { email, error });
+      continue;
+    }
+
+    try {
+      await SavedOrderView.recordDigestSend(digestDate, email);
+    } catch (error) {
+      logger.error('Failed to record saved view digest send', { email, error });
+    }
+  }
+
+  logger.info('Saved view digests sent', { subscriberCount: sent, viewCount: results.size });
+  return sent;
+}
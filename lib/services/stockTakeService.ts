@@ -0,0 +1,304 @@
+import Item from '@/lib/models/Item';
+import Stock from '@/lib/models/Stock';
+import StockTake from '@/lib/models/StockTake';
+import type { StockTakeCount } from '@/lib/models/StockTake';
+import AuditLog from '@/lib/models/AuditLog';
+import { getDatabase } from '@/lib/db/connection';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import type { StockTake as StockTakeEntity, StockTakeLine } from '@/types';
+
+/**
+ * Stock takes
+ *
+ * Starting a stock take snapshots the expected quantity of each item (and of each
+ * design with its own stock). Any number of users then count lines, typing a
+ * count or scanning an item's SKU or ID to add one. Approving compares each count
+ * with the stock the line had when it was counted (the snapshot plus whatever
+ * moved until then) and posts the difference as an adjustment against current
+ * stock, so sales and receipts recorded after counting are kept. A counted item line covers all of its designs: counted
+ * design lines are posted against the design (which moves the item too) and the
+ * item line posts whatever is left of the item's variance.
+ */
+
+const logger = createLogger('StockTakeService');
+
+const MAX_QUANTITY = 1_000_000;
+
+interface StockTakeUser {
+  id?: number;
+  email?: string;
+  name?: string;
+}
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+function parseOptionalText(value: unknown, name: string): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') badRequest(`${name} must be a string`);
+  return value.trim() || null;
+}
+
+function parseQuantity(value: unknown, name: string, { allowNegative = false } = {}): number {
+  if (
+    typeof value !== 'number'
+    || !Number.isInteger(value)
+    || Math.abs(value) > MAX_QUANTITY
+    || (!allowNegative && value < 0)
+  ) {
+    badRequest(`${name} must be a whole number${allowNegative ? '' : ' of at least 0'}`);
+  }
+  return value;
+}
+
+/**
+ * Load a stock take that is still being counted
+ * @returns null when it does not exist
+ * @throws ApiError 409 when it has been approved or cancelled
+ */
+async function loadCountingStockTake(id: number): Promise<StockTakeEntity | null> {
+  const stockTake = await StockTake.findById(id) as StockTakeEntity | null;
+  if (!stockTake) return null;
+  if (stockTake.status !== 'counting') {
+    throw new ApiError(HTTP_STATUS.CONFLICT, `This stock take is ${stockTake.status} and can no longer be counted`);
+  }
+  return stockTake;
+}
+
+/**
+ * Start a stock take
+ * Body: { name, notes?, itemIds? }. Without itemIds every tracked item is counted.
+ * @throws ApiError 400 for a missing name, unknown or untracked items, or no tracked items at all
+ */
+export async function createStockTake(body: Record<string, unknown>, user: StockTakeUser): Promise<StockTakeEntity> {
+  if (typeof body.name !== 'string' || !body.name.trim()) badRequest('Stock take name is required');
+  const notes = parseOptionalText(body.notes, 'notes');
+
+  let itemIds: number[] | undefined;
+  if (body.itemIds !== undefined) {
+    if (!Array.isArray(body.itemIds) || body.itemIds.length === 0) badRequest('itemIds must be a non-empty array');
+    itemIds = [...new Set(body.itemIds.map(Number))];
+    if (itemIds.some(itemId => !Number.isInteger(itemId) || itemId <= 0)) badRequest('itemIds must be item IDs');
+
+    const found = await Item.findByIds(itemIds) as Map<number, { name: string; trackStock: boolean; deletedAt: Date | null }>;
+    for (const itemId of itemIds) {
+      const item = found.get(itemId);
+      if (!item || item.deletedAt) badRequest(`Item with id ${itemId} not found`);
+      if (!item.trackStock) badRequest(`${item.name} does not track stock`);
+    }
+  }
+
+  const stockTake = await StockTake.create({ name: body.name.trim(), notes, itemIds }, user.id) as StockTakeEntity;
+
+  logger.info('Stock take started', { stockTakeId: stockTake.id, lines: stockTake.summary.lineCount });
+  return stockTake;
+}
+
+/**
+ * Record counts typed in against lines
+ * Body: { counts: [{ lineId, countedQuantity }] }; a null countedQuantity clears the line.
+ * @returns The updated stock take, or null if it does not exist
+ */
+export async function recordStockTakeCounts(id: number, body: Record<string, unknown>, user: StockTakeUser): Promise<StockTakeEntity | null> {
+  const stockTake = await loadCountingStockTake(id);
+  if (!stockTake) return null;
+
+  if (!Array.isArray(body.counts) || body.counts.length === 0) badRequest('counts must be a non-empty array');
+  const lineIds = new Set(stockTake.lines!.map(line => line.id));
+  const counts: StockTakeCount[] = [];
+  const cleared: number[] = [];
+
+  for (const [index, entry] of (body.counts as Array<Record<string, unknown>>).entries()) {
+    const lineId = Number(entry?.lineId);
+    if (!lineIds.has(lineId)) badRequest(`Count ${index + 1}: lineId does not belong to this stock take`);
+    if (entry.countedQuantity === null) {
+      cleared.push(lineId);
+    } else {
+      counts.push({ lineId, quantity: parseQuantity(entry.countedQuantity, `Count ${index + 1}: countedQuantity`), mode: 'set' });
+    }
+  }
+
+  if (counts.length > 0) await StockTake.recordCounts(id, counts, user);
+  if (cleared.length > 0) await StockTake.clearCounts(id, cleared);
+
+  return StockTake.findById(id) as Promise<StockTakeEntity | null>;
+}
+
+/**
+ * Find the line a scanned or typed code refers to
+ * The code is matched against supplier SKUs first (ignoring case), then item IDs
+ * (with or without a leading #). Items are counted on their own line unless a
+ * design with its own stock is named.
+ */
+function findScannedLine(lines: StockTakeLine[], code: string, designId: number | null): StockTakeLine | undefined {
+  const normalized = code.trim().toLowerCase();
+  const bySku = lines.filter(line => line.supplierSku?.trim().toLowerCase() === normalized);
+  const idMatch = /^#?(\d+)$/.exec(normalized);
+  const candidates = bySku.length > 0
+    ? bySku
+    : lines.filter(line => idMatch && Number(line.itemId) === Number(idMatch[1]));
+
+  return candidates.find(line => line.designId === designId);
+}
+
+/**
+ * Add units for a scanned SKU or item ID
+ * Body: { code, quantity?: 1, designId? }. A negative quantity takes back a mis-scan.
+ * @returns The line that was counted and the stock take's totals, or null if the stock take does not exist
+ * @throws ApiError 404 when the code matches no line in this stock take
+ */
+export async function scanStockTakeCode(id: number, body: Record<string, unknown>, user: StockTakeUser) {
+  const stockTake = await loadCountingStockTake(id);
+  if (!stockTake) return null;
+
+  if (typeof body.code !== 'string' || !body.code.trim()) badRequest('code is required');
+  const quantity = body.quantity === undefined ? 1 : parseQuantity(body.quantity, 'quantity', { allowNegative: true });
+  if (quantity === 0) badRequest('quantity must not be zero');
+  const designId = body.designId === undefined || body.designId === null ? null : Number(body.designId);
+
+  const line = findScannedLine(stockTake.lines!, body.code, designId);
+  if (!line) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, `${body.code.trim()} is not part of this stock take`);
+  }
+
+  await StockTake.recordCounts(id, [{ lineId: line.id, quantity, mode: 'add' }], user);
+  const updated = await StockTake.findById(id) as StockTakeEntity;
+
+  return {
+    line: updated.lines!.find(candidate => candidate.id === line.id)!,
+    summary: updated.summary,
+  };
+}
+
+/**
+ * Work out the adjustments that bring stock in line with the counts
+ * A line's correction is its variance less the stock that moved before it was
+ * counted: those movements are already in current stock and in the count.
+ * Uncounted lines are left alone.
+ * @param moved - Units moved on each line between the snapshot and its count
+ */
+function buildCorrections(lines: StockTakeLine[], moved: Map<number, number>) {
+  const correction = (line: StockTakeLine) => line.variance === null ? null : line.variance - (moved.get(line.id) ?? 0);
+
+  const designCorrected = new Map<number, number>();
+  const designCorrections = [];
+  for (const line of lines) {
+    const quantity = correction(line);
+    if (line.designId === null || quantity === null || quantity === 0) continue;
+    const itemId = Number(line.itemId);
+    designCorrected.set(itemId, (designCorrected.get(itemId) ?? 0) + quantity);
+    designCorrections.push({ itemId, designId: line.designId, quantity, label: `${line.itemName} – ${line.designName}` });
+  }
+
+  const itemCorrections = [];
+  for (const line of lines) {
+    const lineCorrection = correction(line);
+    if (line.designId !== null || lineCorrection === null) continue;
+    const itemId = Number(line.itemId);
+    const quantity = lineCorrection - (designCorrected.get(itemId) ?? 0);
+    if (quantity !== 0) itemCorrections.push({ itemId, designId: null, quantity, label: line.itemName });
+  }
+
+  // Designs first: moving a design moves its item, and the item line posts what is left
+  return [...designCorrections, ...itemCorrections];
+}
+
+/**
+ * Approve a stock take and post its variances to stock
+ * Body: { reason }. Every correction is an adjustment referencing the stock take,
+ * posted in the batch that approves it, and the approval is written to the audit log.
+ * @returns The approved stock take and the number of corrections posted, or null if it does not exist
+ * @throws ApiError 400 without a reason or with nothing counted, 409 when it is no longer
+ *   counting or a correction would take stock below zero
+ */
+export async function approveStockTake(id: number, body: Record<string, unknown>, user: StockTakeUser) {
+  const stockTake = await loadCountingStockTake(id);
+  if (!stockTake) return null;
+
+  const reason = parseOptionalText(body.reason, 'reason');
+  if (!reason) badRequest('A reason is required to approve a stock take');
+  if (stockTake.summary.countedLines === 0) badRequest('Nothing has been counted yet');
+
+  const corrections = buildCorrections(stockTake.lines!, await StockTake.findMovementsBeforeCount(id));
+
+  const db = getDatabase();
+  const approvedAt = new Date();
+  const { statement, approvedGuard } = StockTake.buildApprovalStatement(db, id, {
+    reason,
+    approvedBy: user.id ?? null,
+    approvedAt,
+  });
+  const adjustments = Stock.buildBulkAdjustStatements(
+    db,
+    corrections.map(correction => ({
+      itemId: correction.itemId,
+      designId: correction.designId,
+      quantity: correction.quantity,
+      notes: `${stockTake.stockTakeNumber}: ${reason}`,
+    })),
+    'adjustment',
+    user,
+    { type: 'stock_take', id },
+    approvedGuard
+  );
+
+  try {
+    await db.batch([statement, ...adjustments]);
+  } catch (error) {
+    throw Stock.toConflictError(
+      error,
+      'A correction would take stock below zero; stock moved since counting. Recount the affected items and try again.'
+    );
+  }
+
+  const approved = await StockTake.findById(id) as StockTakeEntity;
+  if (approved?.approvedAt !== approvedAt.toISOString()) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, 'This stock take has already been closed');
+  }
+
+  await AuditLog.create({
+    entityType: 'stock_take',
+    entityId: id,
+    action: 'bulk_update',
+    userId: user.id,
+    userEmail: user.email,
+    userName: user.name,
+    metadata: {
+      event: 'stock_take_approved',
+      reason,
+      countedLines: stockTake.summary.countedLines,
+      uncountedLines: stockTake.summary.lineCount - stockTake.summary.countedLines,
+      unitsOver: stockTake.summary.unitsOver,
+      unitsShort: stockTake.summary.unitsShort,
+      netVarianceValue: stockTake.summary.netVarianceValue,
+      corrections: corrections.map(({ itemId, designId, quantity }) => ({ itemId, designId, quantity })),
+    },
+  });
+
+  logger.info('Stock take approved', { stockTakeId: id, corrections: corrections.length });
+
+  return {
+    stockTake: approved,
+    stock: { posted: corrections.length },
+  };
+}
+
+/**
+ * Cancel a stock take; nothing is posted to stock
+ * @returns The cancelled stock take, or null if it does not exist
+ * @throws ApiError 409 when it is no longer counting
+ */
+export async function cancelStockTake(id: number): Promise<StockTakeEntity | null> {
+  const stockTake = await StockTake.findById(id) as StockTakeEntity | null;
+  if (!stockTake) return null;
+
+  const cancelled = await StockTake.close(id, { status: 'cancelled' });
+  if (!cancelled) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, `This stock take is ${stockTake.status} and cannot be cancelled`);
+  }
+  return StockTake.findById(id) as Promise<StockTakeEntity | null>;
+}
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { after } from 'next/server';
+import WebhookEndpoint from '@/lib/models/WebhookEndpoint';
+import WebhookDelivery from '@/lib/models/WebhookDelivery';
+import Stock from '@/lib/models/Stock';
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import { createLogger } from '@/lib/utils/logger';
+import { WEBHOOK_EVENT_TYPES } from '@/constants/webhookConstants';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_TIMEOUT_MS,
+  getWebhookRetryDelayMs,
+  isValidWebhookUrl,
+  signWebhookPayload,
+} from '@/lib/utils/webhookUtils';
+import type {
+  CreateWebhookEndpointData,
+  UpdateWebhookEndpointData,
+  WebhookDelivery as WebhookDeliveryEntity,
+  WebhookEndpoint as WebhookEndpointEntity,
+  WebhookEventType,
+} from '@/types';
+
+const logger = createLogger('WebhookService');
+
+/** How long a claimed delivery is held before another runner may pick it up */
+const CLAIM_LEASE_MS = 2 * 60_000;
+
+/** Retries that are due get picked up alongside each new event, so they go out even without the cron */
+const RETRIES_PER_DISPATCH = 5;
+
+type DeliveryEventType = WebhookEventType | 'webhook.test';
+
+function badRequest(message: string): never {
+  throw new ApiError(HTTP_STATUS.BAD_REQUEST, message);
+}
+
+/**
+ * Validate a webhook create or update body
+ * @param isUpdate - Fields are optional when updating
+ * @throws {ApiError} 400 describing the first invalid field
+ */
+export function parseWebhookInput(
+  body: Record<string, unknown>,
+  isUpdate: boolean = false
+): CreateWebhookEndpointData & UpdateWebhookEndpointData {
+  const data: UpdateWebhookEndpointData = {};
+
+  if (body.url !== undefined || !isUpdate) {
+    const url = typeof body.url === 'string' ? body.url.trim() : '';
+    if (!isValidWebhookUrl(url)) badRequest('URL must be a valid http:// or https:// address');
+    data.url = url;
+  }
+  if (body.description !== undefined) {
+    data.description = typeof body.description === 'string' ? body.description : null;
+  }
+  if (body.events !== undefined || !isUpdate) {
+    if (!Array.isArray(body.events) || body.events.length === 0) badRequest('Select at least one event');
+    const unknown = body.events.filter((event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType));
+    if (unknown.length > 0) {
+      badRequest(`Unknown event type(s): ${unknown.join(', ')}. Must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+    }
+    data.events = body.events as WebhookEventType[];
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') badRequest('isActive must be a boolean');
+    data.isActive = body.isActive;
+  }
+  if (body.rotateSecret === true) data.rotateSecret = true;
+
+  // Updates pass only the fields present; WebhookEndpoint.update takes a partial
+  return data as CreateWebhookEndpointData & UpdateWebhookEndpointData;
+}
+
+function buildEnvelope(eventId: string, eventType: DeliveryEventType, data: Record<string, unknown>) {
+  return {
+    id: eventId,
+    type: eventType,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+}
+
+/**
+ * Run work after the response is sent when inside a request, otherwise in the background
+ */
+function runInBackground(task: () => Promise<unknown>) {
+  const guarded = () => task().catch((error) => logger.error('Background webhook dispatch failed', error));
+  try {
+    after(guarded);
+  } catch {
+    void guarded();
+  }
+}
+
+/**
+ * POST one claimed delivery and record the outcome
+ * Non-2xx answers, timeouts and network errors are retried with exponential
+ * backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+async function sendDelivery(delivery: WebhookDeliveryEntity, endpoint: WebhookEndpointEntity) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'order-management-webhooks',
+        'X-Webhook-Id': delivery.eventId,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = await response.text().catch(() => null);
+    if (!response.ok) error = `Receiver responded with HTTP ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    return WebhookDelivery.recordAttempt(delivery.id, {
+      status: 'succeeded',
+      attempts,
+      nextAttemptAt: null,
+      responseStatus,
+      responseBody,
+    });
+  }
+
+  const givingUp = attempts >= WEBHOOK_MAX_ATTEMPTS;
+  logger.warn('Webhook delivery attempt failed', {
+    deliveryId: delivery.id,
+    endpointId: endpoint.id,
+    attempts,
+    givingUp,
+    error,
+  });
+
+  return WebhookDelivery.recordAttempt(delivery.id, {
+    status: givingUp ? 'failed' : 'pending',
+    attempts,
+    nextAttemptAt: givingUp ? null : new Date(Date.now() + getWebhookRetryDelayMs(attempts)),
+    responseStatus,
+    responseBody,
+    error,
+  });
+}
+
+/**
+ * Claim a delivery and send it; skipped when it is not due or another runner has it
+ */
+async function attemptDelivery(deliveryId: number) {
+  const delivery = await WebhookDelivery.claim(deliveryId, new Date(Date.now() + CLAIM_LEASE_MS));
+  if (!delivery) return null;
+
+  const endpoint = await WebhookEndpoint.findById(delivery.endpointId);
+  if (!endpoint) return null;
+
+  return sendDelivery(delivery, endpoint);
+}
+
+/**
+ * Send every pending delivery whose next attempt is due
+ * @param limit - Maximum deliveries to attempt in this run
+ * @returns Counts of what happened
+ */
+export async function processDueDeliveries(limit: number = 20) {
+  const ids = await WebhookDelivery.findDueIds(limit);
+  const summary = { attempted: 0, succeeded: 0, failed: 0, retrying: 0 };
+
+  for (const id of ids) {
+    const result = await attemptDelivery(id);
+    if (!result) continue;
+    summary.attempted++;
+    if (result.status === 'succeeded') summary.succeeded++;
+    else if (result.status === 'failed') summary.failed++;
+    else summary.retrying++;
+  }
+
+  return summary;
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to it and send it after the response
+ * Never throws: a broken receiver or webhook table must not fail the change that raised the event.
+ * @param eventType - Event name
+ * @param data - Event body, usually the entity as the API returns it
+ */
+export async function emitWebhookEvent(eventType: WebhookEventType, data: Record<string, unknown>) {
+  try {
+    const endpoints = await WebhookEndpoint.findSubscribed(eventType);
+    if (endpoints.length === 0) return;
+
+    const eventId = crypto.randomUUID();
+    const payload = buildEnvelope(eventId, eventType, data);
+    const deliveries = await WebhookDelivery.createMany(
+      endpoints.map((endpoint: WebhookEndpointEntity) => ({ endpointId: endpoint.id, eventId, eventType, payload }))
+    );
+
+    runInBackground(async () => {
+      for (const delivery of deliveries) {
+        await attemptDelivery(delivery.id);
+      }
+      await processDueDeliveries(RETRIES_PER_DISPATCH);
+    });
+  } catch (error) {
+    logger.error('Failed to queue webhook event', { eventType, error });
+  }
+}
+
+/**
+ * Emit stock.low for tracked items that have just dropped to or below their threshold
+ * Items that were already low before the change are skipped, so each drop alerts once.
+ * Designs with their own stock raise their own event, with designId and designName on the item.
+ * @param changes - Units taken out of stock per item (and design) by the change that just committed
+ */
+export async function emitLowStockEvents(changes: Array<{ itemId: number; quantity: number; designId?: number | null }>) {
+  try {
+    const crossed = await Stock.findLowStockCrossings(changes);
+    for (const item of crossed) {
+      await emitWebhookEvent('stock.low', { item });
+    }
+  } catch (error) {
+    logger.error('Failed to check for low stock', error);
+  }
+}
+
+/**
+ * Send an event again as a new delivery, keeping the original event ID so receivers can de-duplicate
+ * @returns The new delivery after its first attempt
+ * @throws {ApiError} 404 when the delivery or its endpoint no longer exists
+ */
+export async function replayDelivery(deliveryId: number) {
+  const original = await WebhookDelivery.findById(deliveryId);
+  if (!original) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Delivery not found');
+  }
+  const endpoint = await WebhookEndpoint.findById(original.endpointId);
+  if (!endpoint) {
+    throw new ApiError(HTTP_STATUS.NOT_FOUND, 'Webhook not found');
+  }
+
+  const [replay] = await WebhookDelivery.createMany([{
+    endpointId: original.endpointId,
+    eventId: original.eventId,
+    eventType: original.eventType,
+    payload: original.payload,
+    replayOfId: original.id,
+  }]);
+
+  return (await attemptDelivery(replay.id)) ?? replay;
+}
+
+/**
+ * Send a webhook.test event to one endpoint, whatever it subscribes to
+ * @returns The delivery after its first attempt
+ */
+export async function sendTestEvent(endpoint: WebhookEndpointEntity) {
+  const eventId = crypto.randomUUID();
+  const [delivery] = await WebhookDelivery.createMany([{
+    endpointId: endpoint.id,
+    eventId,
+    eventType: 'webhook.test',
+    payload: buildEnvelope(eventId, 'webhook.test', {
+      message: 'Test event from Order Management',
+      endpointId: endpoint.id,
+    }),
+  }]);
+
+  return (await attemptDelivery(delivery.id)) ?? delivery;
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
+import { getServerSession, type Session } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { extractApiKey } from '@/lib/utils/apiKeyUtils';
+import { authenticateApiKey, toApiKeySession } from '@/lib/services/apiKeyService';
 
 /**
  * Wrapper to add authentication to Next.js API routes
@@ -44,3 +46,24 @@ export async function getUserFromRequest(request: NextRequest) {
   const session = await getServerSession(authOptions);
   return session?.user || null;
 }
+
+/**
+ * Get the session for a request signed in with NextAuth or a personal API key
+ * API key calls get a session for the key's owner. The proxy has already
+ * rate limited and recorded the call; the key and scope are checked again here
+ * so a handler never trusts a key the proxy would have rejected.
+ * @returns The session, or null when the request is not authenticated
+ */
+export async function getRequestSession(request: Request): Promise<Session | null> {
+  const key = extractApiKey(request.headers.get('authorization'));
+  if (!key) {
+    return getServerSession(authOptions);
+  }
+
+  try {
+    const principal = await authenticateApiKey(key, new URL(request.url).pathname, request.method);
+    return toApiKeySession(principal);
+  } catch {
+    return null;
+  }
+}
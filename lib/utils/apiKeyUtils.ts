@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { generateSecureToken } from '@/lib/utils/tokenUtils';
+
+/**
+ * Personal API key helpers
+ *
+ * Keys look like "oms_<64 hex chars>" and are sent as "Authorization: Bearer <key>".
+ * Only a SHA-256 hash is stored; the key has enough entropy that a slow hash adds nothing.
+ */
+
+export const API_KEY_PREFIX = 'oms_';
+
+/** Characters of the key kept in clear so users can tell their keys apart */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+/**
+ * Hash a key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new key
+ * @returns The key to show once, the prefix to display afterwards, and the hash to store
+ */
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${generateSecureToken(32)}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * Pull an API key out of an Authorization header
+ * @returns The key, or null when the header is missing or carries some other kind of token
+ */
+export function extractApiKey(authorization: string | null): string | null {
+  if (!authorization) return null;
+  const [scheme, token] = authorization.trim().split(/\s+/, 2);
+  if (scheme?.toLowerCase() !== 'bearer' || !token?.startsWith(API_KEY_PREFIX)) return null;
+  return token;
+}
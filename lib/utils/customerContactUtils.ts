@@ -0,0 +1,70 @@
+import type { CustomerAddressSnapshot, CustomerContactChannel } from '@/types';
+
+/**
+ * Customer contact and address helpers
+ *
+ * Pure functions shared by the customer API, duplicate detection and the order
+ * form. Contacts are compared on a normalized value so "+91 98765 43210" and
+ * "09876543210", or "@Priya.Crafts" and "instagram.com/priya.crafts", are the
+ * same contact.
+ */
+
+/** Profile URL prefixes pasted in place of a handle */
+const PROFILE_URL_PREFIX = /^(https?:\/\/)?(www\.|m\.)?(instagram|facebook|fb)\.com\//;
+
+/**
+ * The last 10 digits of an Indian number, so +91, 0 and spacing do not matter
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replaceAll(/\D/g, '');
+  if (digits.length < 7) return null;
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const value = (email || '').trim().toLowerCase();
+  return value.includes('@') ? value : null;
+}
+
+/**
+ * An Instagram or Facebook handle in lower case, without "@" or a profile URL
+ */
+export function normalizeHandle(handle: string | null | undefined): string | null {
+  const value = (handle || '')
+    .trim()
+    .toLowerCase()
+    .replace(PROFILE_URL_PREFIX, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/^@+/, '');
+  return value || null;
+}
+
+/**
+ * The value a contact is matched on, or null when it is not a valid value for the channel
+ */
+export function normalizeContactValue(channel: CustomerContactChannel, value: string | null | undefined): string | null {
+  switch (channel) {
+    case 'phone':
+    case 'whatsapp':
+      return normalizePhone(value);
+    case 'email':
+      return normalizeEmail(value);
+    default:
+      return normalizeHandle(value);
+  }
+}
+
+/**
+ * One-line address for orders, invoices and lists, e.g.
+ * "12 MG Road, Flat 4B, Near City Mall, Pune, Maharashtra - 411001"
+ */
+export function formatCustomerAddress(address: Omit<CustomerAddressSnapshot, 'label'>): string {
+  const region = [address.state, address.pinCode].filter(Boolean).join(' - ');
+  return [
+    address.line1,
+    address.line2,
+    address.landmark ? `Near ${address.landmark}` : null,
+    address.city,
+    region,
+  ].filter(Boolean).join(', ');
+}
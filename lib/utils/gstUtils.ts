@@ -0,0 +1,47 @@
+import { DateTime } from 'luxon';
+
+const BUSINESS_TIMEZONE = 'Asia/Kolkata';
+
+/**
+ * Parse an optional GST rate from a request body or form
+ * @param value - Raw value (number or numeric string)
+ * @returns undefined when not provided, null when cleared, NaN when invalid, otherwise the rate
+ */
+export function parseOptionalTaxRate(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+
+  const parsed = Number.parseFloat(String(value));
+  if (Number.isNaN(parsed) || parsed < 0 || parsed > 100) return Number.NaN;
+  return Math.round(parsed * 100) / 100;
+}
+
+/**
+ * Check an HSN/SAC code: 4 to 8 digits, or empty when the item has none
+ */
+export function isValidHsnCode(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  return typeof value === 'string' && /^\d{4,8}$/.test(value.trim());
+}
+
+/**
+ * Split a tax-inclusive amount into taxable value and GST
+ * @param grossAmount - Amount the customer pays, including GST
+ * @param taxRate - GST percentage
+ */
+export function splitInclusiveAmount(grossAmount: number, taxRate: number): { taxableValue: number; taxAmount: number } {
+  const taxableValue = Math.round((grossAmount / (1 + taxRate / 100)) * 100) / 100;
+  return {
+    taxableValue,
+    taxAmount: Math.round((grossAmount - taxableValue) * 100) / 100,
+  };
+}
+
+/**
+ * Indian financial year (April to March) for a date, e.g. "2026-27"
+ */
+export function getFinancialYear(date: Date = new Date()): string {
+  const local = DateTime.fromJSDate(date).setZone(BUSINESS_TIMEZONE);
+  const startYear = local.month >= 4 ? local.year : local.year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
@@ -0,0 +1,131 @@
+import { resolveOrderTransition } from '@/lib/utils/orderLifecycle';
+import { getPriorityStatus } from '@/lib/utils/priorityUtils';
+import type { LifecycleState, LifecycleUpdate } from '@/lib/utils/orderLifecycle';
+import type { Order, OrderBoardColumn, OrderBoardSwimlane } from '@/types';
+
+/**
+ * Production board rules
+ *
+ * The board has no state of its own: an order's column follows from its status
+ * and delivery status, and dropping it on another column asks for the lifecycle
+ * change that puts it there. Whether that change is allowed is decided by the
+ * order lifecycle, so the board can never move an order in a way the order
+ * form could not.
+ */
+
+export const ORDER_BOARD_COLUMNS: Array<{ id: OrderBoardColumn; label: string }> = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'processing', label: 'Processing' },
+  { id: 'ready_to_ship', label: 'Ready to Ship' },
+  { id: 'shipped', label: 'Shipped' },
+  { id: 'delivered', label: 'Delivered' },
+  { id: 'cancelled', label: 'Cancelled' },
+];
+
+export const ORDER_BOARD_SWIMLANES: Array<{ id: OrderBoardSwimlane; label: string }> = [
+  { id: 'none', label: 'No swimlanes' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'deliveryPartner', label: 'Delivery partner' },
+];
+
+/** Delivered and cancelled orders stay on the board for this many days */
+export const ORDER_BOARD_RECENT_DAYS = 14;
+
+const IN_FLIGHT_DELIVERY_STATUSES = new Set(['shipped', 'in_transit', 'out_for_delivery']);
+
+const PRIORITY_LANES = [
+  { id: 'overdue', label: 'Overdue' },
+  { id: 'critical', label: 'Critical (≤3 days)' },
+  { id: 'urgent', label: 'Urgent (4-7 days)' },
+  { id: 'medium', label: 'Medium (8-14 days)' },
+  { id: 'normal', label: 'Normal (>14 days)' },
+  { id: 'none', label: 'No due date' },
+];
+
+type BoardOrder = Pick<Order, 'status' | 'deliveryStatus'> & Partial<LifecycleState>;
+
+/** A board move only ever changes the order status and delivery status */
+export type BoardMoveChanges = Pick<LifecycleUpdate, 'status' | 'deliveryStatus'>;
+
+/**
+ * Get the column an order sits in
+ * @returns The column, or null for returned orders, which leave the board
+ */
+export function getBoardColumn(order: BoardOrder): OrderBoardColumn | null {
+  if (order.deliveryStatus === 'returned') return null;
+  if (order.status === 'cancelled') return 'cancelled';
+  if (order.deliveryStatus === 'delivered') return 'delivered';
+  if (IN_FLIGHT_DELIVERY_STATUSES.has(order.deliveryStatus)) return 'shipped';
+  if (order.status === 'completed') return 'ready_to_ship';
+  return order.status === 'processing' ? 'processing' : 'pending';
+}
+
+/**
+ * Lifecycle changes that move an order into a column
+ * The production columns all mean "not shipped yet", so dragging a shipped
+ * order back takes the shipment back too (which the lifecycle only allows
+ * before it is in transit). Ready to Ship completes the order, which the
+ * lifecycle allows whatever has been paid so far.
+ */
+export function getBoardMoveChanges(order: BoardOrder, target: OrderBoardColumn): BoardMoveChanges {
+  const unship: BoardMoveChanges = order.deliveryStatus === 'not_shipped' ? {} : { deliveryStatus: 'not_shipped' };
+  switch (target) {
+    case 'pending':
+      return { status: 'pending', ...unship };
+    case 'processing':
+      return { status: 'processing', ...unship };
+    case 'ready_to_ship':
+      return { status: 'completed', ...unship };
+    case 'shipped':
+      return { deliveryStatus: 'shipped' };
+    case 'delivered':
+      return { deliveryStatus: 'delivered' };
+    case 'cancelled':
+      return { status: 'cancelled' };
+  }
+}
+
+/**
+ * Check whether an order may be dropped on a column
+ * @returns null when the move is allowed, otherwise why it is not
+ */
+export function getBoardMoveError(order: Order, target: OrderBoardColumn): string | null {
+  if (getBoardColumn(order) === target) return null;
+  try {
+    resolveOrderTransition(
+      {
+        status: order.status,
+        paymentStatus: order.paymentStatus,
+        deliveryStatus: order.deliveryStatus,
+        confirmationStatus: order.confirmationStatus,
+        actualDeliveryDate: order.actualDeliveryDate,
+      },
+      getBoardMoveChanges(order, target)
+    );
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'This move is not allowed';
+  }
+}
+
+/**
+ * Get the swimlanes for a grouping, in display order
+ * Delivery partner lanes are the partners on the board, by name, then orders without one.
+ */
+export function getBoardSwimlanes(orders: Order[], swimlane: OrderBoardSwimlane): Array<{ id: string; label: string }> {
+  if (swimlane === 'none') return [{ id: 'all', label: '' }];
+  if (swimlane === 'priority') return PRIORITY_LANES;
+
+  const partners = [...new Set(orders.map(order => order.deliveryPartner?.trim()).filter(Boolean))] as string[];
+  partners.sort((a, b) => a.localeCompare(b));
+  return [...partners.map(partner => ({ id: partner, label: partner })), { id: '', label: 'No delivery partner' }];
+}
+
+/**
+ * Get the swimlane an order belongs to for a grouping
+ */
+export function getBoardSwimlaneId(order: Order, swimlane: OrderBoardSwimlane): string {
+  if (swimlane === 'none') return 'all';
+  if (swimlane === 'deliveryPartner') return order.deliveryPartner?.trim() || '';
+  return getPriorityStatus(order.expectedDeliveryDate)?.status ?? 'none';
+}
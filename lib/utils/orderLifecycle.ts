@@ -0,0 +1,223 @@
+import { ApiError } from '@/lib/utils/errorHandler';
+import { HTTP_STATUS } from '@/lib/constants/httpConstants';
+import type { OrderStatus, PaymentStatus, DeliveryStatus, ConfirmationStatus } from '@/types';
+
+/**
+ * Order lifecycle rules
+ *
+ * Every status-like field on an order has its own transition table. A change is
+ * legal when the target value is listed for the current value (or unchanged).
+ * Cross-field rules then check the combined result, and side effects describe
+ * what else must happen when a transition is applied.
+ */
+
+export type LifecycleField = 'status' | 'paymentStatus' | 'deliveryStatus' | 'confirmationStatus';
+
+export interface LifecycleState {
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  deliveryStatus: DeliveryStatus;
+  confirmationStatus: ConfirmationStatus;
+  actualDeliveryDate?: string | Date | null;
+}
+
+export type LifecycleUpdate = Partial<LifecycleState>;
+
+export interface ResolvedTransition {
+  /** Lifecycle fields to write, including values implied by side effects */
+  changes: LifecycleUpdate;
+  /** Fields whose value actually changed */
+  changedFields: LifecycleField[];
+  /** Stock deducted for the order should go back on the shelf and its reservations be released */
+  restoreStock: boolean;
+  /** The order was confirmed, so its reservations should no longer lapse */
+  reserveStock: boolean;
+  /** The order left the shop, so its reserved stock should be deducted */
+  shipStock: boolean;
+}
+
+export const LIFECYCLE_FIELDS: LifecycleField[] = ['status', 'paymentStatus', 'deliveryStatus', 'confirmationStatus'];
+
+export const ORDER_TRANSITIONS: { [F in LifecycleField]: Record<LifecycleState[F], LifecycleState[F][]> } = {
+  status: {
+    pending: ['processing', 'completed', 'cancelled'],
+    processing: ['pending', 'completed', 'cancelled'],
+    completed: ['processing'],
+    cancelled: [],
+  },
+  paymentStatus: {
+    unpaid: ['partially_paid', 'paid', 'cash_on_delivery'],
+    partially_paid: ['paid', 'cash_on_delivery', 'refunded'],
+    paid: ['partially_paid', 'refunded'],
+    cash_on_delivery: ['unpaid', 'partially_paid', 'paid'],
+    refunded: [],
+  },
+  deliveryStatus: {
+    not_shipped: ['shipped'],
+    shipped: ['not_shipped', 'in_transit', 'out_for_delivery', 'delivered', 'returned'],
+    in_transit: ['out_for_delivery', 'delivered', 'returned'],
+    out_for_delivery: ['in_transit', 'delivered', 'returned'],
+    delivered: ['returned'],
+    returned: [],
+  },
+  confirmationStatus: {
+    unconfirmed: ['pending_confirmation', 'confirmed', 'cancelled'],
+    pending_confirmation: ['unconfirmed', 'confirmed', 'cancelled'],
+    confirmed: ['cancelled'],
+    cancelled: [],
+  },
+};
+
+/**
+ * Payment statuses that follow from the payments ledger. They change when a
+ * payment is recorded or removed, never by editing the order directly.
+ */
+export const LEDGER_PAYMENT_STATUSES: PaymentStatus[] = ['partially_paid', 'paid'];
+
+/**
+ * Payment statuses that may be set by hand on an order
+ */
+export const MANUAL_PAYMENT_STATUSES: PaymentStatus[] = ['unpaid', 'cash_on_delivery', 'refunded'];
+
+export interface PaymentLedgerTotals {
+  /** Sum of payments received */
+  paid: number;
+  /** Sum of refunds paid back, as a positive number */
+  refunded: number;
+}
+
+/**
+ * Work out an order's payment status from its payments ledger
+ * @param totalPrice - Order total
+ * @param ledger - Payments received and refunds paid back
+ * @param current - Current payment status; refunded and cash on delivery are kept where they still apply
+ */
+export function derivePaymentStatus(totalPrice: number, ledger: PaymentLedgerTotals, current: PaymentStatus): PaymentStatus {
+  if (current === 'refunded') return 'refunded';
+  if (ledger.refunded > 0 && ledger.paid - ledger.refunded <= 0) return 'refunded';
+  if (ledger.paid <= 0) return current === 'cash_on_delivery' ? 'cash_on_delivery' : 'unpaid';
+  if (ledger.paid >= totalPrice) return 'paid';
+  return 'partially_paid';
+}
+
+const FIELD_LABELS: Record<LifecycleField, string> = {
+  status: 'status',
+  paymentStatus: 'payment status',
+  deliveryStatus: 'delivery status',
+  confirmationStatus: 'confirmation status',
+};
+
+/**
+ * Check whether a value is a known state for a lifecycle field
+ */
+export function isValidLifecycleValue(field: LifecycleField, value: unknown): boolean {
+  return typeof value === 'string' && Object.hasOwn(ORDER_TRANSITIONS[field], value);
+}
+
+/**
+ * Get the states a field may move to from its current value
+ */
+export function getAllowedTransitions<F extends LifecycleField>(field: F, current: LifecycleState[F]): LifecycleState[F][] {
+  return (ORDER_TRANSITIONS[field] as Record<string, LifecycleState[F][]>)[current] ?? [];
+}
+
+/**
+ * Cross-field rules evaluated on the state an update would produce.
+ * Each returns an error message, or null when the combination is fine.
+ */
+function checkCrossFieldRules(current: LifecycleState, next: LifecycleState, changed: Set<LifecycleField>): string | null {
+  if (current.status === 'cancelled') {
+    const allowedOnCancelled = (changed.size === 1 && changed.has('paymentStatus') && next.paymentStatus === 'refunded')
+      || (changed.size === 1 && changed.has('deliveryStatus') && next.deliveryStatus === 'returned');
+    if (changed.size > 0 && !allowedOnCancelled) {
+      return 'Cancelled orders can only be refunded or marked as returned';
+    }
+  }
+
+  if (next.status === 'cancelled' && changed.has('deliveryStatus') && next.deliveryStatus !== 'returned') {
+    return `A cancelled order cannot be marked as ${next.deliveryStatus.replaceAll('_', ' ')}`;
+  }
+
+  if (changed.has('status') && next.status === 'cancelled' && next.deliveryStatus === 'delivered') {
+    return 'A delivered order cannot be cancelled; record a return instead';
+  }
+
+  if (current.status === 'completed' && changed.has('paymentStatus') && next.paymentStatus === 'unpaid') {
+    return 'A completed order cannot be marked as unpaid';
+  }
+
+  if (changed.has('deliveryStatus') && next.deliveryStatus === 'delivered' && next.confirmationStatus === 'cancelled') {
+    return 'An order whose confirmation was cancelled cannot be delivered';
+  }
+
+  return null;
+}
+
+/**
+ * Validate a requested lifecycle update against the current state and work out
+ * the full set of changes and side effects.
+ * @param current - The order's current lifecycle state
+ * @param requested - Lifecycle fields from the update request (others are ignored)
+ * @returns The resolved transition
+ * @throws ApiError 400 for unknown values, 409 for illegal transitions
+ */
+export function resolveOrderTransition(current: LifecycleState, requested: LifecycleUpdate): ResolvedTransition {
+  const changes: LifecycleUpdate = {};
+  const changed = new Set<LifecycleField>();
+
+  for (const field of LIFECYCLE_FIELDS) {
+    const target = requested[field];
+    if (target === undefined) continue;
+
+    if (!isValidLifecycleValue(field, target)) {
+      throw new ApiError(HTTP_STATUS.BAD_REQUEST, `Invalid ${FIELD_LABELS[field]}: ${target}`);
+    }
+    if (target === current[field]) continue;
+
+    if (field === 'paymentStatus' && LEDGER_PAYMENT_STATUSES.includes(target as PaymentStatus)) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        `Payment status ${target} is set from recorded payments; record a payment instead`
+      );
+    }
+
+    const allowed = getAllowedTransitions(field, current[field]) as string[];
+    if (!allowed.includes(target)) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        `Cannot change ${FIELD_LABELS[field]} from ${current[field]} to ${target}`
+      );
+    }
+
+    (changes as Record<string, unknown>)[field] = target;
+    changed.add(field);
+  }
+
+  // Cancelling the order and cancelling its confirmation are the same event
+  if (changes.status === 'cancelled' && current.confirmationStatus !== 'cancelled' && !changes.confirmationStatus) {
+    changes.confirmationStatus = 'cancelled';
+    changed.add('confirmationStatus');
+  }
+  if (changes.confirmationStatus === 'cancelled' && current.status !== 'cancelled' && !changes.status) {
+    changes.status = 'cancelled';
+    changed.add('status');
+  }
+
+  const next: LifecycleState = { ...current, ...changes };
+  const ruleError = checkCrossFieldRules(current, next, changed);
+  if (ruleError) {
+    throw new ApiError(HTTP_STATUS.CONFLICT, ruleError);
+  }
+
+  if (changes.deliveryStatus === 'delivered' && !requested.actualDeliveryDate && !current.actualDeliveryDate) {
+    changes.actualDeliveryDate = new Date();
+  }
+
+  return {
+    changes,
+    changedFields: [...changed],
+    restoreStock: changes.status === 'cancelled',
+    reserveStock: changes.confirmationStatus === 'confirmed',
+    shipStock: current.deliveryStatus === 'not_shipped' && changes.deliveryStatus === 'shipped',
+  };
+}
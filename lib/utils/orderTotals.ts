@@ -0,0 +1,138 @@
+/**
+ * Order totals calculation
+ *
+ * Shared by the order form preview and the API so both arrive at the same
+ * numbers. Amounts are in rupees and rounded to paise at every step that is
+ * stored or printed.
+ *
+ * - The order discount is spread over the lines in proportion to their value,
+ *   and GST is charged on what remains.
+ * - With tax-inclusive prices the GST is already inside the line price and is
+ *   backed out; with tax-exclusive prices it is added on top.
+ * - Shipping is added after tax and is not taxed.
+ * - Intra-state supplies split GST equally into CGST and SGST; inter-state
+ *   supplies charge it all as IGST.
+ */
+
+export interface OrderTotalsLine {
+  price: number;
+  quantity: number;
+  /** GST percentage for the line; null or undefined means no GST */
+  taxRate?: number | null;
+}
+
+export interface OrderTotalsInput {
+  lines: OrderTotalsLine[];
+  discountAmount?: number;
+  shippingAmount?: number;
+  pricesIncludeTax?: boolean;
+  interState?: boolean;
+}
+
+export interface OrderLineTotals {
+  /** Line value after its share of the discount, excluding GST */
+  taxableValue: number;
+  taxAmount: number;
+}
+
+export interface OrderTotals {
+  /** Sum of price times quantity, as entered */
+  subtotal: number;
+  discountAmount: number;
+  taxableAmount: number;
+  taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  shippingAmount: number;
+  totalPrice: number;
+  lines: OrderLineTotals[];
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Break an order into subtotal, discount, GST and shipping components
+ * @throws {RangeError} When the discount exceeds the subtotal or an amount is negative
+ */
+export function computeOrderTotals(input: OrderTotalsInput): OrderTotals {
+  const pricesIncludeTax = input.pricesIncludeTax ?? true;
+  const discountAmount = roundCurrency(input.discountAmount || 0);
+  const shippingAmount = roundCurrency(input.shippingAmount || 0);
+
+  const grossLines = input.lines.map(line => roundCurrency(line.price * line.quantity));
+  const subtotal = roundCurrency(grossLines.reduce((sum, value) => sum + value, 0));
+
+  if (discountAmount < 0) throw new RangeError('Discount cannot be negative');
+  if (shippingAmount < 0) throw new RangeError('Shipping charge cannot be negative');
+  if (discountAmount > subtotal) throw new RangeError('Discount cannot exceed the order subtotal');
+
+  // Allocate the discount pro rata; the last line absorbs the rounding remainder
+  let discountLeft = discountAmount;
+  const lines = grossLines.map((gross, index) => {
+    const isLast = index === grossLines.length - 1;
+    const share = isLast || subtotal === 0
+      ? discountLeft
+      : roundCurrency((discountAmount * gross) / subtotal);
+    discountLeft = roundCurrency(discountLeft - share);
+
+    const net = roundCurrency(gross - share);
+    const rate = input.lines[index].taxRate ?? 0;
+
+    if (pricesIncludeTax) {
+      const taxableValue = roundCurrency(net / (1 + rate / 100));
+      return { taxableValue, taxAmount: roundCurrency(net - taxableValue) };
+    }
+    return { taxableValue: net, taxAmount: roundCurrency((net * rate) / 100) };
+  });
+
+  const taxableAmount = roundCurrency(lines.reduce((sum, line) => sum + line.taxableValue, 0));
+  const taxAmount = roundCurrency(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+  const igstAmount = input.interState ? taxAmount : 0;
+  const cgstAmount = input.interState ? 0 : roundCurrency(taxAmount / 2);
+  const sgstAmount = input.interState ? 0 : roundCurrency(taxAmount - cgstAmount);
+
+  return {
+    subtotal,
+    discountAmount,
+    taxableAmount,
+    taxAmount,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    shippingAmount,
+    totalPrice: roundCurrency(taxableAmount + taxAmount + shippingAmount),
+    lines,
+  };
+}
+
+/**
+ * Whether a supply is inter-state (IGST) rather than intra-state (CGST + SGST)
+ * Unknown states on either side are treated as intra-state.
+ */
+export function isInterStateSupply(sellerState?: string | null, placeOfSupply?: string | null): boolean {
+  const seller = sellerState?.trim().toLowerCase();
+  const destination = placeOfSupply?.trim().toLowerCase();
+  if (!seller || !destination) return false;
+  return seller !== destination;
+}
+
+/**
+ * Pick the GST rate for an item: its own rate wins, then the highest rate
+ * among its categories, then the business default
+ */
+export function resolveItemTaxRate(
+  itemRate: number | null | undefined,
+  categoryRates: Array<number | null | undefined>,
+  defaultRate: number | null = null
+): number | null {
+  if (typeof itemRate === 'number') return itemRate;
+
+  const rates = categoryRates.filter((rate): rate is number => typeof rate === 'number');
+  if (rates.length > 0) return Math.max(...rates);
+
+  return defaultRate;
+}
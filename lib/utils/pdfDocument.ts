@@ -0,0 +1,348 @@
+import { deflateSync } from 'zlib';
+
+/**
+ * Minimal PDF writer for server-rendered documents (invoices, packing slips)
+ *
+ * Supports text in the standard Helvetica fonts, lines, filled rectangles and
+ * JPEG images. Coordinates are in points with the origin at the TOP-left of the
+ * page so layout code reads top to bottom. Text is encoded as WinAnsi, so
+ * characters outside Latin-1 are replaced with "?".
+ */
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Advance widths (1/1000 em) for ASCII 32-126 from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const DEFAULT_CHAR_WIDTH = 556;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+  /** RGB components between 0 and 1 */
+  color?: [number, number, number];
+}
+
+interface PdfImage {
+  name: string;
+  data: Buffer;
+  width: number;
+  height: number;
+  components: number;
+}
+
+interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+/**
+ * Convert text to WinAnsi bytes (Latin-1 compatible for the characters we keep)
+ */
+function encodeText(value: string): number[] {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 63;
+    if (code === 0x20b9) {
+      // Rupee sign is not in the standard fonts
+      bytes.push(0x52, 0x73, 0x2e);
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      bytes.push(code);
+    } else if (code === 9 || code === 10 || code === 13) {
+      bytes.push(32);
+    } else {
+      bytes.push(63);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Build a PDF literal string, escaping delimiters and non-ASCII bytes
+ */
+function toPdfString(value: string): string {
+  let result = '(';
+  for (const byte of encodeText(value)) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      result += `\\${String.fromCharCode(byte)}`;
+    } else if (byte > 126) {
+      result += `\\${byte.toString(8).padStart(3, '0')}`;
+    } else {
+      result += String.fromCharCode(byte);
+    }
+  }
+  return `${result})`;
+}
+
+function formatNumber(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+function formatColor([r, g, b]: [number, number, number]): string {
+  return `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`;
+}
+
+/**
+ * Read dimensions and colour components from a baseline or progressive JPEG
+ * @returns null when the buffer is not a JPEG
+ */
+export function readJpegInfo(data: Buffer): JpegInfo | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    // Standalone markers carry no length
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    const length = data.readUInt16BE(offset + 2);
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+        components: data[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Width of a string in points for the given font size
+ */
+export function measureText(value: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const byte of encodeText(value)) {
+    total += byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_CHAR_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Break text into lines that fit within maxWidth, splitting long words if needed
+ */
+export function wrapText(value: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split(/\r?\n/)) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+
+      // A single word wider than the column is split by characters
+      let remainder = word;
+      while (measureText(remainder, size, bold) > maxWidth && remainder.length > 1) {
+        let cut = remainder.length - 1;
+        while (cut > 1 && measureText(remainder.slice(0, cut), size, bold) > maxWidth) cut--;
+        lines.push(remainder.slice(0, cut));
+        remainder = remainder.slice(cut);
+      }
+      current = remainder;
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+/**
+ * Create a new PDF document with A4 pages
+ */
+export function createPdfDocument() {
+  const pages: string[][] = [];
+  const images: PdfImage[] = [];
+
+  const current = (): string[] => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  // Flip from top-left layout coordinates to PDF's bottom-left origin
+  const toPdfY = (y: number) => PAGE_HEIGHT - y;
+
+  return {
+    width: PAGE_WIDTH,
+    height: PAGE_HEIGHT,
+
+    addPage() {
+      pages.push([]);
+    },
+
+    get pageCount() {
+      return pages.length;
+    },
+
+    /**
+     * Draw a single line of text; y is the baseline measured from the top of the page
+     */
+    text(value: string, x: number, y: number, options: PdfTextOptions = {}) {
+      const { size = 10, bold = false, align = 'left', color = [0, 0, 0] } = options;
+      const width = measureText(value, size, bold);
+      let left = x;
+      if (align === 'right') left = x - width;
+      if (align === 'center') left = x - width / 2;
+
+      current().push(
+        `BT ${formatColor(color)} rg /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+        `1 0 0 1 ${formatNumber(left)} ${formatNumber(toPdfY(y))} Tm ${toPdfString(value)} Tj ET`
+      );
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: [number, number, number] } = {}) {
+      const { width = 0.5, color = [0, 0, 0] } = options;
+      current().push(
+        `${formatColor(color)} RG ${formatNumber(width)} w ` +
+        `${formatNumber(x1)} ${formatNumber(toPdfY(y1))} m ${formatNumber(x2)} ${formatNumber(toPdfY(y2))} l S`
+      );
+    },
+
+    /**
+     * Draw a rectangle; y is the top edge. Filled when fill is given, outlined otherwise
+     */
+    rect(x: number, y: number, width: number, height: number, options: { fill?: [number, number, number]; stroke?: [number, number, number] } = {}) {
+      const path = `${formatNumber(x)} ${formatNumber(toPdfY(y + height))} ${formatNumber(width)} ${formatNumber(height)} re`;
+      if (options.fill) {
+        current().push(`${formatColor(options.fill)} rg ${path} f`);
+      }
+      if (options.stroke || !options.fill) {
+        current().push(`${formatColor(options.stroke || [0, 0, 0])} RG 0.5 w ${path} S`);
+      }
+    },
+
+    /**
+     * Draw a JPEG scaled to fit inside the box, keeping its aspect ratio
+     * @returns false when the data is not a usable JPEG
+     */
+    image(data: Buffer, x: number, y: number, maxWidth: number, maxHeight: number): boolean {
+      const info = readJpegInfo(data);
+      if (!info || info.width === 0 || info.height === 0 || ![1, 3, 4].includes(info.components)) {
+        return false;
+      }
+
+      const name = `Im${images.length + 1}`;
+      images.push({ name, data, ...info });
+
+      const scale = Math.min(maxWidth / info.width, maxHeight / info.height);
+      const width = info.width * scale;
+      const height = info.height * scale;
+      current().push(
+        `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(toPdfY(y + height))} cm /${name} Do Q`
+      );
+      return true;
+    },
+
+    /**
+     * Serialize the document
+     */
+    toBuffer(): Buffer {
+      if (pages.length === 0) pages.push([]);
+
+      const objects: Buffer[] = [];
+      const addObject = (content: Buffer | string): number => {
+        objects.push(typeof content === 'string' ? Buffer.from(content, 'latin1') : content);
+        return objects.length;
+      };
+      const streamObject = (dictionary: string, data: Buffer): Buffer => Buffer.concat([
+        Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'),
+        data,
+        Buffer.from('\nendstream', 'latin1'),
+      ]);
+
+      // Fixed objects: 1 catalog, 2 page tree, 3-4 fonts
+      addObject('<< /Type /Catalog /Pages 2 0 R >>');
+      addObject('');
+      addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+      const imageRefs = images.map((image) => {
+        const colorSpace = image.components === 1 ? '/DeviceGray' : image.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+        const decode = image.components === 4 ? ' /Decode [1 0 1 0 1 0 1 0]' : '';
+        const ref = addObject(streamObject(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode}`,
+          image.data
+        ));
+        return `/${image.name} ${ref} 0 R`;
+      });
+      const xObjects = imageRefs.length > 0 ? ` /XObject << ${imageRefs.join(' ')} >>` : '';
+
+      const pageRefs = pages.map((operations) => {
+        const content = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+        const contentRef = addObject(streamObject('/Filter /FlateDecode', content));
+        return addObject(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${contentRef} 0 R >>`
+        );
+      });
+      objects[1] = Buffer.from(
+        `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`,
+        'latin1'
+      );
+
+      const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      const offsets: number[] = [];
+      let position = chunks[0].length;
+      objects.forEach((object, index) => {
+        offsets.push(position);
+        const chunk = Buffer.concat([
+          Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+          object,
+          Buffer.from('\nendobj\n', 'latin1'),
+        ]);
+        chunks.push(chunk);
+        position += chunk.length;
+      });
+
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+        'startxref',
+        String(position),
+        '%%EOF',
+      ].join('\n');
+      chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+      return Buffer.concat(chunks);
+    },
+  };
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
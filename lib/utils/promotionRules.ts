@@ -0,0 +1,115 @@
+import type { PromotionType } from '@/types';
+
+/**
+ * Promotion rules
+ *
+ * Pure functions shared by the promotion service and the admin form. A rule
+ * only looks at the order lines; whether a code may be used at all (active,
+ * date window, usage caps) is checked separately by getPromotionBlocker.
+ */
+
+export interface PromotionRule {
+  type: PromotionType;
+  value: number;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  categoryId?: number | null;
+  minOrderAmount?: number | null;
+  maxDiscountAmount?: number | null;
+}
+
+export interface PromotionLine {
+  price: number;
+  quantity: number;
+  /** Categories of the line's item, for category-scoped rules */
+  categoryIds?: number[];
+}
+
+export interface PromotionAvailability {
+  isActive: boolean;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  usageLimit?: number | null;
+  usageCount: number;
+  perCustomerLimit?: number | null;
+}
+
+export const PROMOTION_TYPES: Array<{ value: PromotionType; label: string }> = [
+  { value: 'percentage', label: 'Percentage off' },
+  { value: 'flat', label: 'Flat amount off' },
+  { value: 'buy_x_get_y', label: 'Buy X get Y free' },
+];
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function getEligibleLines(rule: PromotionRule, lines: PromotionLine[]): PromotionLine[] {
+  if (!rule.categoryId) return lines;
+  return lines.filter(line => line.categoryIds?.includes(rule.categoryId as number));
+}
+
+/**
+ * Discount a rule gives on a set of lines, before any manual discount
+ * Returns 0 when the order is below the minimum or no line qualifies.
+ */
+export function calculatePromotionDiscount(rule: PromotionRule, lines: PromotionLine[]): number {
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  if (rule.minOrderAmount && subtotal < rule.minOrderAmount) return 0;
+
+  const eligible = getEligibleLines(rule, lines);
+  const eligibleAmount = eligible.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  if (eligibleAmount <= 0) return 0;
+
+  let discount = 0;
+  if (rule.type === 'percentage') {
+    discount = (eligibleAmount * Math.min(rule.value, 100)) / 100;
+  } else if (rule.type === 'flat') {
+    discount = rule.value;
+  } else if (rule.buyQuantity && rule.getQuantity) {
+    // Every group of buy + get units makes the cheapest units in the basket free
+    const totalUnits = eligible.reduce((sum, line) => sum + line.quantity, 0);
+    let freeUnits = Math.floor(totalUnits / (rule.buyQuantity + rule.getQuantity)) * rule.getQuantity;
+    for (const line of [...eligible].sort((a, b) => a.price - b.price)) {
+      if (freeUnits <= 0) break;
+      const units = Math.min(line.quantity, freeUnits);
+      discount += units * line.price;
+      freeUnits -= units;
+    }
+  }
+
+  if (rule.maxDiscountAmount !== null && rule.maxDiscountAmount !== undefined) {
+    discount = Math.min(discount, rule.maxDiscountAmount);
+  }
+  return roundCurrency(Math.min(discount, eligibleAmount));
+}
+
+/**
+ * Reason a promotion cannot be redeemed right now, or null when it can
+ * @param customerUses - Orders by this customer that already used the promotion
+ */
+export function getPromotionBlocker(
+  promotion: PromotionAvailability,
+  customerUses: number,
+  now: Date = new Date()
+): string | null {
+  if (!promotion.isActive) return 'is not active';
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return 'has not started yet';
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) return 'has expired';
+  if (promotion.usageLimit !== null && promotion.usageLimit !== undefined && promotion.usageCount >= promotion.usageLimit) {
+    return 'has reached its usage limit';
+  }
+  if (promotion.perCustomerLimit && customerUses >= promotion.perCustomerLimit) {
+    return 'has already been used the maximum number of times by this customer';
+  }
+  return null;
+}
+
+/**
+ * Short description of a rule for lists, e.g. "10% off" or "Buy 2 get 1"
+ */
+export function describePromotionRule(rule: PromotionRule): string {
+  if (rule.type === 'percentage') return `${rule.value}% off`;
+  if (rule.type === 'flat') return `${rule.value} off`;
+  return `Buy ${rule.buyQuantity ?? 0} get ${rule.getQuantity ?? 0}`;
+}
@@ -0,0 +1,20 @@
+import { SAVED_VIEW_URL_PARAMS } from '@/constants/savedViewConstants';
+import type { SavedOrderView } from '@/types';
+
+/**
+ * Order history URL parameters that open a view: its filters, sort order and ID
+ */
+export function getSavedViewSearchParams(view: Pick<SavedOrderView, 'id' | 'query' | 'sortKey' | 'sortDirection'>): URLSearchParams {
+  const params = new URLSearchParams(view.query);
+  params.set(SAVED_VIEW_URL_PARAMS.SORT, view.sortKey);
+  params.set(SAVED_VIEW_URL_PARAMS.DIRECTION, view.sortDirection);
+  params.set(SAVED_VIEW_URL_PARAMS.VIEW, String(view.id));
+  return params;
+}
+
+/**
+ * Link to order history with a view applied
+ */
+export function getSavedViewHref(view: Pick<SavedOrderView, 'id' | 'query' | 'sortKey' | 'sortDirection'>): string {
+  return `/orders/history?${getSavedViewSearchParams(view).toString()}`;
+}
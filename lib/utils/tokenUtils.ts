@@ -25,3 +25,21 @@ export function generateFeedbackToken(expiryDays: number = 30) {
     expiresAt
   };
 }
+
+/**
+ * Generate a public order tracking token
+ * Tracking links are shared over chat and live for the whole delivery, so
+ * they last longer than feedback tokens.
+ * @param {number} expiryDays - Number of days until token expires (default 180)
+ * @returns {object} - Object with token and expiresAt date
+ */
+export function generateTrackingToken(expiryDays: number = 180) {
+  const token = generateSecureToken();
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + expiryDays);
+
+  return {
+    token,
+    expiresAt
+  };
+}
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import { generateSecureToken } from '@/lib/utils/tokenUtils';
+
+/**
+ * Outbound webhook helpers
+ *
+ * Every delivery is a JSON POST signed with the endpoint's secret. Receivers
+ * recompute HMAC-SHA256 over "<timestamp>.<raw body>" and compare it with the
+ * X-Webhook-Signature header; the timestamp lets them reject stale replays.
+ */
+
+/** Attempts made before a delivery is marked failed */
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+/** Receivers must answer within this time or the attempt counts as failed */
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const RETRY_BASE_DELAY_MS = 60_000;
+
+/**
+ * Delay before the next attempt: 1, 4, 16, 64 then 256 minutes
+ * @param attempts - Attempts made so far (at least 1)
+ */
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 4 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${generateSecureToken(24)}`;
+}
+
+/**
+ * Sign a payload for the X-Webhook-Signature header
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix seconds sent in X-Webhook-Timestamp
+ * @param body - Raw JSON body exactly as sent
+ * @returns "sha256=<hex digest>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Only plain http(s) URLs can be registered; http is allowed so a local receiver can be used for testing
+ */
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
@@ -1,6 +1,50 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { getToken } from 'next-auth/jwt';
+import { extractApiKey } from '@/lib/utils/apiKeyUtils';
+import {
+  authenticateApiKey,
+  consumeApiKeyRateLimit,
+  recordApiKeyCall,
+} from '@/lib/services/apiKeyService';
+
+/**
+ * Authenticate a request made with a personal API key
+ * Checks the key and its scope, applies the key's rate limit and records the call.
+ */
+async function handleApiKeyRequest(request: NextRequest, key: string) {
+  try {
+    const principal = await authenticateApiKey(key, request.nextUrl.pathname, request.method);
+    const rateLimit = await consumeApiKeyRateLimit(principal.apiKey);
+    const rateLimitHeaders = {
+      'X-RateLimit-Limit': String(rateLimit.limit),
+      'X-RateLimit-Remaining': String(rateLimit.remaining),
+      'X-RateLimit-Reset': String(rateLimit.resetSeconds),
+    };
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { message: 'Too many requests - API key rate limit exceeded' },
+        { status: 429, headers: { ...rateLimitHeaders, 'Retry-After': String(rateLimit.resetSeconds) } }
+      );
+    }
+
+    recordApiKeyCall(principal, request);
+
+    const response = NextResponse.next();
+    for (const [name, value] of Object.entries(rateLimitHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    if (!statusCode) console.error('[Auth] API key check failed', error);
+    return NextResponse.json(
+      { message: statusCode ? (error as Error).message : 'Failed to verify API key' },
+      { status: statusCode || 500 }
+    );
+  }
+}
 
 /**
  * Next.js proxy to protect API routes
@@ -22,6 +66,12 @@ export default async function proxy(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Personal API keys are sent as a Bearer header instead of the session cookie
+  const apiKey = extractApiKey(request.headers.get('authorization'));
+  if (apiKey) {
+    return handleApiKeyRequest(request, apiKey);
+  }
+
   // Check if auth is disabled for development
   if (process.env.AUTH_DISABLED === 'true' && process.env.NODE_ENV !== 'production') {
     console.log('[Auth] AUTH_DISABLED is true - skipping authentication');
@@ -18,6 +18,8 @@ export type AuditLogId = Brand<number, 'AuditLogId'>;
 export type OrderNoteId = Brand<number, 'OrderNoteId'>;
 export type CustomerId = Brand<number, 'CustomerId'>;
 export type StockTransactionId = Brand<number, 'StockTransactionId'>;
+export type OrderPaymentId = Brand<number, 'OrderPaymentId'>;
+export type OrderReturnId = Brand<number, 'OrderReturnId'>;
 
 // Helper functions to create branded IDs
 export function createItemId(id: number): ItemId {
@@ -60,6 +62,14 @@ export function createCustomerId(id: number): CustomerId {
   return id as CustomerId;
 }
 
+export function createOrderPaymentId(id: number): OrderPaymentId {
+  return id as OrderPaymentId;
+}
+
+export function createOrderReturnId(id: number): OrderReturnId {
+  return id as OrderReturnId;
+}
+
 export function createStockTransactionId(id: number): StockTransactionId {
   return id as StockTransactionId;
 }
@@ -118,6 +128,18 @@ export function parseCustomerId(value: string | number): CustomerId | null {
   return createCustomerId(numericId);
 }
 
+export function parseOrderPaymentId(value: string | number): OrderPaymentId | null {
+  const numericId = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  if (Number.isNaN(numericId) || numericId <= 0) return null;
+  return createOrderPaymentId(numericId);
+}
+
+export function parseOrderReturnId(value: string | number): OrderReturnId | null {
+  const numericId = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  if (Number.isNaN(numericId) || numericId <= 0) return null;
+  return createOrderReturnId(numericId);
+}
+
 export function parseStockTransactionId(value: string | number): StockTransactionId | null {
   const numericId = typeof value === 'string' ? Number.parseInt(value, 10) : value;
   if (Number.isNaN(numericId) || numericId <= 0) return null;
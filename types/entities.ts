@@ -1,4 +1,4 @@
-import type { ItemId, OrderId, OrderItemId, FeedbackId, FeedbackTokenId, CategoryId, TagId, AuditLogId, OrderNoteId, CustomerId, StockTransactionId } from './brandedIds';
+import type { ItemId, OrderId, OrderItemId, FeedbackId, FeedbackTokenId, CategoryId, TagId, AuditLogId, OrderNoteId, CustomerId, StockTransactionId, OrderPaymentId, OrderReturnId } from './brandedIds';
 
 // Order source enum type
 export type OrderSource = 'instagram' | 'facebook' | 'whatsapp' | 'call' | 'offline';
@@ -9,6 +9,9 @@ export type OrderStatus = 'pending' | 'processing' | 'completed' | 'cancelled';
 // Payment status enum type
 export type PaymentStatus = 'unpaid' | 'partially_paid' | 'paid' | 'cash_on_delivery' | 'refunded';
 
+// Payment method enum
+export type PaymentMethod = 'upi' | 'cash' | 'bank_transfer' | 'card' | 'other' | 'store_credit';
+
 // Confirmation status enum type
 export type ConfirmationStatus = 'unconfirmed' | 'pending_confirmation' | 'confirmed' | 'cancelled';
 
@@ -16,10 +19,10 @@ export type ConfirmationStatus = 'unconfirmed' | 'pending_confirmation' | 'confi
 export type DeliveryStatus = 'not_shipped' | 'shipped' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'returned';
 
 // Audit action enum type
-export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'bulk_import' | 'bulk_export' | 'bulk_update' | 'bulk_delete';
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'bulk_import' | 'bulk_export' | 'bulk_update' | 'bulk_delete' | 'api_call';
 
 // Audit entity enum type
-export type AuditEntityType = 'order' | 'item' | 'category' | 'tag' | 'user' | 'feedback';
+export type AuditEntityType = 'order' | 'item' | 'category' | 'tag' | 'user' | 'feedback' | 'customer' | 'api_key' | 'stock_take';
 
 // Category interface
 export interface Category {
@@ -30,6 +33,7 @@ export interface Category {
   color: string;
   parentId: CategoryId | null;
   displayOrder: number;
+  taxRate: number | null;
   createdAt: string;
   updatedAt: string;
   children?: Category[];
@@ -46,6 +50,42 @@ export interface Tag {
   itemCount?: number;
 }
 
+// Promotion (discount code)
+export type PromotionType = 'percentage' | 'flat' | 'buy_x_get_y';
+
+export interface Promotion {
+  id: number;
+  _id: number;
+  code: string;
+  name: string;
+  description: string;
+  type: PromotionType;
+  /** Percent off for 'percentage', amount off for 'flat'; unused for 'buy_x_get_y' */
+  value: number;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  /** Limits the rule to items in this category */
+  categoryId: number | null;
+  minOrderAmount: number | null;
+  maxDiscountAmount: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  usageCount: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Promotion applied to a quote or order */
+export interface AppliedPromotion {
+  id: number;
+  code: string;
+  name: string;
+  discountAmount: number;
+}
+
 // Item Design variant
 export interface ItemDesign {
   id: number;
@@ -55,6 +95,13 @@ export interface ItemDesign {
   imageUrl: string;
   isPrimary: boolean;
   displayOrder: number;
+  /** Own stock count; null when the design shares the item's stock */
+  stockQuantity: number | null;
+  /** Own low-stock threshold; null to use the item's */
+  lowStockThreshold: number | null;
+  reservedQuantity?: number;
+  /** Own stock less reservations; null when the design shares the item's stock */
+  availableQuantity?: number | null;
   createdAt: string;
 }
 
@@ -77,10 +124,17 @@ export interface Item {
   stockQuantity: number;
   lowStockThreshold: number;
   trackStock: boolean;
+  /** Units held for open orders that have not shipped */
+  reservedQuantity?: number;
+  /** On hand less reserved: what a new order can take */
+  availableQuantity?: number;
   // Cost/supplier fields
   costPrice: number | null;
   supplierName: string | null;
   supplierSku: string | null;
+  // GST fields
+  hsnCode: string;
+  taxRate: number | null;
 }
 
 export interface OrderItem {
@@ -90,7 +144,13 @@ export interface OrderItem {
   designId?: number;
   name: string;
   price: number;
+  costPrice?: number | null;
+  hsnCode?: string | null;
+  taxRate?: number | null;
+  taxableValue?: number | null;
+  taxAmount?: number | null;
   quantity: number;
+  backorderedQuantity?: number;
   customizationRequest: string;
 }
 
@@ -101,8 +161,32 @@ export interface Order {
   orderFrom: OrderSource;
   customerName: string;
   customerId: string;
+  /** The customers row; only null for old orders the customer backfill has not linked yet */
+  customerIdRef: number | null;
+  /** Delivery address as text; for a saved address, its formatted snapshot */
   address: string;
+  /** The customer's saved address the order was sent to, if one was picked */
+  customerAddressId: number | null;
+  /** The saved address as it was when the order was placed */
+  addressSnapshot: CustomerAddressSnapshot | null;
   totalPrice: number;
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  shippingAmount: number;
+  pricesIncludeTax: boolean;
+  placeOfSupply: string | null;
+  promotionId: number | null;
+  promotionCode: string | null;
+  /** Part of discountAmount that came from the promotion */
+  promotionDiscount: number;
+  /** Loyalty points spent on the order */
+  loyaltyPointsRedeemed: number;
+  /** Part of discountAmount paid with loyalty points */
+  loyaltyDiscount: number;
   status: OrderStatus;
   paymentStatus: PaymentStatus;
   paidAmount: number;
@@ -149,6 +233,8 @@ export interface CreateItemData {
   fabric?: string;
   specialFeatures?: string;
   image?: string;
+  hsnCode?: string;
+  taxRate?: number | null;
 }
 
 export interface UpdateItemData {
@@ -158,6 +244,8 @@ export interface UpdateItemData {
   fabric?: string;
   specialFeatures?: string;
   image?: string | null;
+  hsnCode?: string;
+  taxRate?: number | null;
 }
 
 export interface CreateOrderItemData {
@@ -169,16 +257,59 @@ export interface CreateOrderItemData {
   customizationRequest?: string;
 }
 
-export interface CreateOrderData {
+/** Pricing inputs shared by order creation, updates and quotes */
+export interface OrderPricingData {
+  discountAmount?: number;
+  shippingAmount?: number;
+  pricesIncludeTax?: boolean;
+  /** Indian state; defaults to the customer's state */
+  placeOfSupply?: string | null;
+  /** Promotion code; an empty value removes the order's promotion */
+  promotionCode?: string | null;
+  /** Loyalty points to spend as a discount; fixed once the order is placed */
+  redeemPoints?: number;
+}
+
+/** Server-computed breakdown of an order total */
+export interface OrderQuote {
+  subtotal: number;
+  /** Manual discount plus promotion and loyalty discounts */
+  discountAmount: number;
+  promotionDiscount: number;
+  promotion: AppliedPromotion | null;
+  loyaltyPointsRedeemed: number;
+  loyaltyDiscount: number;
+  taxableAmount: number;
+  taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  shippingAmount: number;
+  totalPrice: number;
+  pricesIncludeTax: boolean;
+  placeOfSupply: string | null;
+  interState: boolean;
+}
+
+/** Body of POST /api/orders/quote */
+export interface OrderQuoteRequest extends OrderPricingData {
+  items: Array<{ itemId: number; quantity: number }>;
+  customerId?: string;
+}
+
+export interface CreateOrderData extends OrderPricingData {
   orderFrom: OrderSource;
   customerName: string;
   customerId: string;
   address?: string;
+  /** One of the customer's saved addresses; the order stores a copy of it as its address */
+  customerAddressId?: number | null;
   orderDate?: string;
   items: CreateOrderItemData[];
   expectedDeliveryDate?: string;
   paymentStatus?: PaymentStatus;
   paidAmount?: number;
+  paymentMethod?: PaymentMethod;
   confirmationStatus?: ConfirmationStatus;
   customerNotes?: string;
   priority?: number;
@@ -186,6 +317,7 @@ export interface CreateOrderData {
   trackingId?: string;
   deliveryPartner?: string;
   actualDeliveryDate?: string;
+  allowBackorder?: boolean;
 }
 
 export interface UpdateOrderData extends Partial<CreateOrderData> {
@@ -253,6 +385,48 @@ export interface CursorPaginatedResult<T> {
   pagination: CursorPageInfo;
 }
 
+// Server-side order search
+export interface OrderSearchFilters {
+  /** Free text over customer name/ID, order ID, address, notes and item names */
+  q?: string;
+  status?: OrderStatus[];
+  paymentStatus?: PaymentStatus[];
+  confirmationStatus?: ConfirmationStatus[];
+  deliveryStatus?: DeliveryStatus[];
+  orderFrom?: OrderSource[];
+  /** Order creation date range (YYYY-MM-DD or ISO timestamp, inclusive) */
+  createdFrom?: string;
+  createdTo?: string;
+  /** Expected delivery date range (YYYY-MM-DD or ISO timestamp, inclusive) */
+  deliveryFrom?: string;
+  deliveryTo?: string;
+  /** Last-changed date range (YYYY-MM-DD or ISO timestamp, inclusive) */
+  updatedFrom?: string;
+  updatedTo?: string;
+  itemId?: number;
+  categoryId?: number;
+  tagId?: number;
+  /** Exact customer ID, e.g. the customer's handle or phone */
+  customerId?: string;
+}
+
+/** Order search sort; newest first when not given */
+export interface OrderSearchSort {
+  key: SavedOrderViewSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export type OrderFacetField = 'status' | 'paymentStatus' | 'confirmationStatus' | 'deliveryStatus' | 'orderFrom';
+
+/** Matching orders per value, counted with every filter except the facet's own */
+export type OrderSearchFacets = Record<OrderFacetField, Record<string, number>>;
+
+export interface OrderSearchResult extends CursorPaginatedResult<Order> {
+  /** Only returned for the first page */
+  facets?: OrderSearchFacets;
+  total?: number;
+}
+
 // Feedback statistics
 export interface FeedbackStats {
   avgRating: string | null;
@@ -278,6 +452,37 @@ export interface TokenValidationResponse {
   hasExistingFeedback: boolean;
 }
 
+// Public tracking link for an order
+export interface OrderTrackingLink {
+  token: string;
+  orderId: number;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// What a customer sees on /track/[token]; no prices, addresses or internal notes
+export interface PublicOrderTracking {
+  orderId: string;
+  orderDate: string;
+  status: OrderStatus;
+  deliveryStatus: DeliveryStatus;
+  deliveryPartner: string | null;
+  trackingId: string | null;
+  expectedDeliveryDate: string | null;
+  actualDeliveryDate: string | null;
+  items: Array<{
+    name: string;
+    quantity: number;
+    designName: string | null;
+    imageUrl: string | null;
+  }>;
+  updates: Array<{
+    id: number;
+    noteText: string;
+    createdAt: string;
+  }>;
+}
+
 // User types
 export interface AuthUser {
   id: string;
@@ -374,6 +579,9 @@ export interface SourceData {
 
 export interface RangeAnalytics {
   totalSales: number;
+  /** Sales excluding GST */
+  netSales: number;
+  taxCollected: number;
   orderCount: number;
   topItems: ItemData[];
   topItemsByRevenue: ItemData[];
@@ -471,6 +679,7 @@ export interface CreateCategoryData {
   color?: string;
   parentId?: number;
   displayOrder?: number;
+  taxRate?: number | null;
 }
 
 export interface UpdateCategoryData {
@@ -479,6 +688,7 @@ export interface UpdateCategoryData {
   color?: string;
   parentId?: number | null;
   displayOrder?: number;
+  taxRate?: number | null;
 }
 
 export interface CreateTagData {
@@ -491,11 +701,52 @@ export interface UpdateTagData {
   color?: string;
 }
 
+export interface CreatePromotionData {
+  code: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  value?: number;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  categoryId?: number | null;
+  minOrderAmount?: number | null;
+  maxDiscountAmount?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  usageLimit?: number | null;
+  perCustomerLimit?: number | null;
+  isActive?: boolean;
+}
+
+export type UpdatePromotionData = Partial<CreatePromotionData>;
+
+/** Revenue given up to one promotion over a period */
+export interface PromotionPerformance {
+  promotionId: number;
+  code: string;
+  name: string;
+  orderCount: number;
+  discountGiven: number;
+  /** Amount charged on the orders that used the promotion */
+  revenue: number;
+}
+
+export interface PromotionAnalyticsSummary {
+  items: PromotionPerformance[];
+  totalDiscountGiven: number;
+  totalOrders: number;
+  period: {
+    startDate: string;
+    endDate: string;
+  };
+}
+
 // ============================================
 // Bulk Import/Export Types
 // ============================================
 
-export type ImportExportJobType = 'import' | 'export';
+export type ImportExportJobType = 'import' | 'export' | 'backfill';
 export type ImportExportJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
 export interface ImportExportJob {
@@ -618,12 +869,92 @@ export interface CreateOrderNoteData {
   isPinned?: boolean;
 }
 
+// ============================================
+// Order Payment Types
+// ============================================
+
+export interface OrderPayment {
+  id: OrderPaymentId;
+  _id: OrderPaymentId;
+  orderId: OrderId;
+  amount: number;
+  method: PaymentMethod;
+  referenceNumber: string | null;
+  paidAt: string;
+  notes: string | null;
+  userId: number | null;
+  userEmail: string | null;
+  userName: string | null;
+  createdAt: string;
+}
+
+export interface CreateOrderPaymentData {
+  orderId: OrderId | number;
+  amount: number;
+  method: PaymentMethod;
+  referenceNumber?: string;
+  paidAt?: string;
+  notes?: string;
+}
+
+// ============================================
+// Order Return Types
+// ============================================
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected';
+
+export interface OrderReturnItem {
+  id: number;
+  orderItemId: OrderItemId | null;
+  itemId: ItemId | null;
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface OrderReturn {
+  id: OrderReturnId;
+  _id: OrderReturnId;
+  orderId: OrderId;
+  status: ReturnStatus;
+  reason: string;
+  refundAmount: number;
+  refundMethod: PaymentMethod | null;
+  restock: boolean;
+  refundPaymentId: OrderPaymentId | null;
+  reviewNotes: string | null;
+  requestedByEmail: string | null;
+  reviewedByEmail: string | null;
+  reviewedAt: string | null;
+  items: OrderReturnItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateOrderReturnData {
+  orderId: OrderId | number;
+  reason: string;
+  refundAmount: number;
+  refundMethod?: PaymentMethod;
+  restock?: boolean;
+  items: Array<{ orderItemId: OrderItemId | number; quantity: number }>;
+}
+
+export interface ReviewOrderReturnData {
+  orderId: OrderId | number;
+  returnId: OrderReturnId | number;
+  reviewNotes?: string;
+  refundMethod?: PaymentMethod;
+}
+
 // ============================================
 // Customer Types
 // ============================================
 
 export type CustomerSource = 'walk-in' | 'online' | 'referral' | 'other';
 
+export type CustomerLifecycleStage = 'new' | 'active' | 'loyal' | 'at_risk' | 'lost';
+
 export interface Customer {
   id: CustomerId;
   _id: CustomerId;
@@ -631,13 +962,27 @@ export interface Customer {
   name: string;
   email: string | null;
   phone: string | null;
+  /** The default saved address, formatted */
   address: string | null;
+  state: string | null;
   source: CustomerSource;
   totalOrders: number;
   totalSpent: number;
   firstOrderDate: string | null;
   lastOrderDate: string | null;
   notes: string | null;
+  /** The customer this one was merged into, or null */
+  mergedIntoId: number | null;
+  /** RFM scores from 1 to 5 (5 best); null until the customer has orders and has been scored */
+  recencyScore: number | null;
+  frequencyScore: number | null;
+  monetaryScore: number | null;
+  lifecycleStage: CustomerLifecycleStage | null;
+  rfmScoredAt: string | null;
+  /** Loyalty points that can be spent */
+  loyaltyPoints: number;
+  /** Store credit that can be spent, in rupees */
+  storeCredit: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -647,6 +992,124 @@ export interface CustomerSummary {
   customerId: string;
   name: string;
   phone: string | null;
+  /** From a search: the first of the customer's contacts that matched, if any */
+  matchedContact?: Pick<CustomerContact, 'channel' | 'value'> | null;
+}
+
+/** Address fields shared by saved addresses and the snapshot kept on orders */
+export interface CustomerAddressSnapshot {
+  label: string | null;
+  line1: string;
+  line2: string | null;
+  city: string | null;
+  state: string | null;
+  pinCode: string | null;
+  landmark: string | null;
+}
+
+export interface CustomerAddress extends CustomerAddressSnapshot {
+  id: number;
+  customerId: number;
+  /** At most one address per customer is the default */
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerAddressData extends CustomerAddressSnapshot {
+  isDefault?: boolean;
+}
+
+export type CustomerContactChannel = 'phone' | 'whatsapp' | 'instagram' | 'facebook' | 'email';
+
+export interface CustomerContact {
+  id: number;
+  customerId: number;
+  channel: CustomerContactChannel;
+  /** As entered, e.g. "@priya.crafts" or "+91 98765 43210" */
+  value: string;
+  label: string | null;
+  createdAt: string;
+}
+
+export interface CustomerContactData {
+  channel: CustomerContactChannel;
+  value: string;
+  label?: string | null;
+}
+
+// ============================================
+// Loyalty & Store Credit Types
+// ============================================
+
+/** Which balance a ledger entry moves */
+export type LoyaltyBalanceKind = 'points' | 'store_credit';
+
+/**
+ * earn/reverse: points for a paid order and their clawback on refund or cancellation;
+ * redeem/spend: points or credit used on an order; restore: given back, e.g. when the
+ * order is cancelled; refund: a refund issued as store credit; expire; adjust: by hand
+ */
+export type LoyaltyEntryType = 'earn' | 'reverse' | 'redeem' | 'spend' | 'restore' | 'refund' | 'expire' | 'adjust';
+
+export interface LoyaltyEntry {
+  id: number;
+  customerId: number;
+  kind: LoyaltyBalanceKind;
+  type: LoyaltyEntryType;
+  /** Positive adds to the balance, negative takes from it */
+  amount: number;
+  orderId: number | null;
+  /** Order number of orderId, for display */
+  orderNumber: string | null;
+  /** When earned points expire, if they do */
+  expiresAt: string | null;
+  notes: string | null;
+  userEmail: string | null;
+  createdAt: string;
+}
+
+export interface CustomerLoyaltySummary {
+  loyaltyPoints: number;
+  /** Rupee value of the points at the current point value */
+  pointsValue: number;
+  storeCredit: number;
+  /** Points that expire within LOYALTY_EXPIRY_WARNING_DAYS unless spent */
+  pointsExpiringSoon: number;
+  entries: LoyaltyEntry[];
+}
+
+/** A manual change to a customer's points or store credit */
+export interface LoyaltyAdjustmentData {
+  kind: LoyaltyBalanceKind;
+  /** Positive to add, negative to take away */
+  amount: number;
+  notes: string;
+}
+
+export interface LoyaltySettings {
+  /** Whether paid orders earn points and points can be redeemed */
+  enabled: boolean;
+  /** Points earned per Rs. 100 paid */
+  pointsPerHundred: number;
+  /** Rupees one point is worth when redeemed */
+  pointValue: number;
+  /** Fewest points that can be redeemed on an order */
+  minRedeemPoints: number;
+  /** Largest share of an order's discounted subtotal that points can pay, in percent */
+  maxRedeemPercent: number;
+  /** Days before earned points expire; null for never */
+  pointsExpiryDays: number | null;
+  /** True until an admin saves settings */
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+/** Outcome of a points expiry run */
+export interface LoyaltyExpiryRunResult {
+  /** Customers who lost points */
+  customers: number;
+  points: number;
 }
 
 export interface CreateCustomerData {
@@ -655,6 +1118,7 @@ export interface CreateCustomerData {
   email?: string;
   phone?: string;
   address?: string;
+  state?: string;
   source?: CustomerSource;
   notes?: string;
 }
@@ -665,10 +1129,124 @@ export interface UpdateCustomerData {
   email?: string | null;
   phone?: string | null;
   address?: string | null;
+  state?: string | null;
   source?: CustomerSource;
   notes?: string | null;
 }
 
+/** A pair of customers that look like the same person, scored 0-100 */
+export interface CustomerDuplicate {
+  score: number;
+  /** Why the pair matched, e.g. "Same phone", "Similar name" */
+  reasons: string[];
+  customers: [Customer, Customer];
+}
+
+/** Orders sharing one business customer ID, as handled by the customer backfill */
+export interface CustomerBackfillGroup {
+  customerId: string;
+  customerName: string;
+  orderCount: number;
+  action: 'link' | 'create';
+  /** Business ID of the customer the orders are linked to, when it already exists */
+  linkedCustomerId: string | null;
+}
+
+export interface CustomerBackfillReport {
+  jobId: number;
+  dryRun: boolean;
+  unlinkedOrders: number;
+  ordersLinked: number;
+  customersCreated: number;
+  customersMatched: number;
+  errorCount: number;
+  errors: ImportError[];
+  /** The largest groups first, at most 200 */
+  groups: CustomerBackfillGroup[];
+  /** Whether orders.customer_id_ref is now NOT NULL */
+  enforced: boolean;
+}
+
+export interface CustomerBackfillStatus {
+  unlinkedOrders: number;
+  enforced: boolean;
+  jobs: ImportExportJob[];
+}
+
+export type CustomerSegmentField =
+  | 'totalOrders'
+  | 'totalSpent'
+  | 'daysSinceLastOrder'
+  | 'daysSinceFirstOrder'
+  | 'recencyScore'
+  | 'frequencyScore'
+  | 'monetaryScore'
+  | 'lifecycleStage'
+  | 'source'
+  | 'state'
+  | 'orderSource'
+  | 'category';
+
+export type CustomerSegmentOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'not_in';
+
+/** One condition, e.g. { field: 'totalSpent', operator: 'gte', value: 5000 } */
+export interface CustomerSegmentRule {
+  field: CustomerSegmentField;
+  operator: CustomerSegmentOperator;
+  /** A number for numeric fields; a list for 'in' and 'not_in' (category IDs for 'category') */
+  value: number | Array<string | number>;
+}
+
+export interface CustomerSegmentRules {
+  /** Whether a customer must match every rule or any one of them */
+  match: 'all' | 'any';
+  rules: CustomerSegmentRule[];
+}
+
+export interface CustomerSegment {
+  id: number;
+  name: string;
+  description: string | null;
+  rules: CustomerSegmentRules;
+  /** How many customers match right now; null when it could not be counted */
+  customerCount: number | null;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerSegmentData {
+  name: string;
+  description?: string | null;
+  rules: CustomerSegmentRules;
+}
+
+/** Lifecycle stage counts and saved segments, for the segment filter */
+export interface CustomerSegmentOverview {
+  stages: Array<{ stage: CustomerLifecycleStage; customerCount: number }>;
+  segments: CustomerSegment[];
+  /** When the RFM scorer last ran */
+  scoredAt: string | null;
+}
+
+export interface CustomerRfmRunResult {
+  scored: number;
+  stages: Record<CustomerLifecycleStage, number>;
+  scoredAt: string;
+}
+
+export interface CustomerMerge {
+  id: number;
+  survivor: CustomerSummary;
+  merged: CustomerSummary;
+  orderCount: number;
+  score: number | null;
+  mergedByName: string | null;
+  createdAt: string;
+  revertedAt: string | null;
+}
+
 // ============================================
 // Stock Tracking Types
 // ============================================
@@ -679,6 +1257,8 @@ export interface StockTransaction {
   id: StockTransactionId;
   _id: StockTransactionId;
   itemId: ItemId;
+  /** Design whose own stock moved with the item's */
+  designId: number | null;
   transactionType: StockTransactionType;
   quantity: number;
   previousStock: number;
@@ -695,9 +1275,36 @@ export interface StockInfo {
   itemId: ItemId;
   itemName: string;
   stockQuantity: number;
+  /** Units held for open orders that have not shipped */
+  reservedQuantity: number;
+  /** On hand less reserved */
+  availableQuantity: number;
   lowStockThreshold: number;
   trackStock: boolean;
   isLowStock: boolean;
+  /** Units still to be received on ordered or partially received purchase orders */
+  onOrderQuantity: number;
+  /** Earliest expected date among those purchase orders */
+  nextExpectedDate: string | null;
+  /** Per-design stock; only returned for a single item */
+  designs?: DesignStockInfo[];
+}
+
+export interface DesignStockInfo {
+  designId: number;
+  itemId: ItemId;
+  itemName: string;
+  designName: string;
+  imageUrl: string;
+  /** Whether the design keeps its own stock count */
+  trackStock: boolean;
+  stockQuantity: number | null;
+  reservedQuantity: number;
+  availableQuantity: number | null;
+  /** Own threshold; null to use the item's */
+  lowStockThreshold: number | null;
+  itemLowStockThreshold: number;
+  isLowStock: boolean;
 }
 
 // ============================================
@@ -705,6 +1312,7 @@ export interface StockInfo {
 // ============================================
 
 export interface ProfitSummary {
+  revenueBasis?: 'gross' | 'net';
   totalRevenue: number;
   totalCost: number;
   grossProfit: number;
@@ -722,3 +1330,504 @@ export interface BulkUpdateOrdersData {
     paymentStatus?: PaymentStatus;
   };
 }
+
+// ============================================
+// Webhook Types
+// ============================================
+
+export type WebhookEventType =
+  | 'order.created'
+  | 'order.status_changed'
+  | 'stock.low'
+  | 'feedback.submitted'
+  | 'customer.created';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookEndpoint {
+  id: number;
+  _id: number;
+  url: string;
+  description: string | null;
+  /** Signing secret; only admins can read it */
+  secret: string;
+  events: WebhookEventType[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWebhookEndpointData {
+  url: string;
+  description?: string | null;
+  events: WebhookEventType[];
+  isActive?: boolean;
+}
+
+export interface UpdateWebhookEndpointData extends Partial<CreateWebhookEndpointData> {
+  /** Replace the signing secret with a new one */
+  rotateSecret?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  _id: number;
+  endpointId: number;
+  eventId: string;
+  eventType: WebhookEventType | 'webhook.test';
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastResponseStatus: number | null;
+  lastResponseBody: string | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  replayOfId: number | null;
+  createdAt: string;
+}
+
+// ============================================
+// API Key Types
+// ============================================
+
+export type ApiKeyScope = 'orders:read' | 'orders:write' | 'stock:write' | 'reports:read';
+
+export interface ApiKey {
+  id: number;
+  _id: number;
+  userId: number;
+  name: string;
+  /** Start of the key, enough to recognise it; the full key is only shown on creation */
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: ApiKeyScope[];
+  /** Days until the key expires; omit for a key that never expires */
+  expiresInDays?: number | null;
+  rateLimitPerMinute?: number;
+}
+
+export interface CreatedApiKey extends ApiKey {
+  /** The full key, returned once */
+  key: string;
+}
+
+// ============================================
+// Saved Order View Types
+// ============================================
+
+export type SavedOrderViewSortKey =
+  | 'createdAt'
+  | 'orderId'
+  | 'customerName'
+  | 'orderFrom'
+  | 'confirmationStatus'
+  | 'status'
+  | 'paymentStatus'
+  | 'deliveryStatus'
+  | 'totalPrice'
+  | 'expectedDeliveryDate';
+
+/**
+ * Order history filters as query parameters, e.g. { paymentStatus: 'unpaid', deliveryTo: 'today+7' }
+ * Date values may be relative to the day the view is opened (today, today-5, today+7).
+ */
+export type SavedOrderViewQuery = Record<string, string>;
+
+export interface SavedOrderView {
+  id: number;
+  _id: number;
+  userId: number;
+  ownerName: string | null;
+  name: string;
+  query: SavedOrderViewQuery;
+  sortKey: SavedOrderViewSortKey;
+  sortDirection: 'asc' | 'desc';
+  isShared: boolean;
+  /** Whether the signed-in user created the view and may edit it */
+  isOwner: boolean;
+  /** Pinned to the signed-in user's navigation */
+  pinned: boolean;
+  /** Included in the signed-in user's daily digest email */
+  digestSubscribed: boolean;
+  /** Orders matching right now; null when the count could not be worked out */
+  count: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedOrderViewData {
+  name: string;
+  query: SavedOrderViewQuery;
+  sortKey?: SavedOrderViewSortKey;
+  sortDirection?: 'asc' | 'desc';
+  isShared?: boolean;
+}
+
+export interface SavedOrderViewPreferences {
+  pinned?: boolean;
+  digestSubscribed?: boolean;
+}
+
+// ============================================
+// Production Board Types
+// ============================================
+
+export type OrderBoardColumn = 'pending' | 'processing' | 'ready_to_ship' | 'shipped' | 'delivered' | 'cancelled';
+
+export type OrderBoardSwimlane = 'none' | 'priority' | 'deliveryPartner';
+
+export interface OrderBoardCard extends Order {
+  /** Image of the first line's design, or of its item's primary design */
+  thumbnailUrl: string | null;
+}
+
+export interface OrderBoardData {
+  items: OrderBoardCard[];
+  /** Delivered and cancelled orders stay on the board for this many days */
+  recentDays: number;
+  /** More orders matched than the board loads */
+  truncated: boolean;
+}
+
+// ============================================
+// Production Calendar Types
+// ============================================
+
+/** Whether capacity counts orders or item units (quantities) per day */
+export type ProductionCapacityUnit = 'orders' | 'units';
+
+export interface ProductionCapacitySettings {
+  unit: ProductionCapacityUnit;
+  /** Capacity per weekday, Monday first; 0 means the workshop is closed */
+  weekdayCapacity: number[];
+  /** Days from today before the earliest suggested delivery date */
+  minLeadDays: number;
+  /** No capacity has been saved yet and the defaults apply */
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+export interface ProductionCapacityOverride {
+  /** YYYY-MM-DD */
+  date: string;
+  capacity: number;
+  note: string | null;
+}
+
+export interface ProductionCalendarOrder {
+  id: OrderId;
+  orderId: string;
+  customerName: string;
+  status: OrderStatus;
+  expectedDeliveryDate: string;
+  priority: number;
+  /** Total item quantity on the order */
+  units: number;
+}
+
+export interface ProductionCalendarDay {
+  /** YYYY-MM-DD */
+  date: string;
+  capacity: number;
+  /** Orders or units due this day, depending on the capacity unit */
+  load: number;
+  overbooked: boolean;
+  /** Capacity comes from an override rather than the weekday */
+  override: ProductionCapacityOverride | null;
+  orders: ProductionCalendarOrder[];
+}
+
+export interface ProductionCalendarData {
+  from: string;
+  to: string;
+  settings: ProductionCapacitySettings;
+  days: ProductionCalendarDay[];
+}
+
+export interface DeliveryDateSuggestion {
+  /** Earliest day with room for the order, or null when none was found within the horizon */
+  date: string | null;
+  unit: ProductionCapacityUnit;
+  /** Capacity the order needs: 1 order, or its units */
+  needed: number;
+  /** Load already booked on the suggested day */
+  load: number;
+  capacity: number;
+}
+
+// ============================================
+// Manufacturing Types
+// ============================================
+
+export type MaterialTransactionType = 'restock' | 'adjustment' | 'consumed';
+
+export interface Material {
+  id: number;
+  name: string;
+  sku: string | null;
+  /** Unit the material is stocked and used in, e.g. meter or spool */
+  unit: string;
+  stockQuantity: number;
+  lowStockThreshold: number;
+  costPerUnit: number | null;
+  notes: string | null;
+  isLowStock: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MaterialTransaction {
+  id: number;
+  materialId: number;
+  transactionType: MaterialTransactionType;
+  quantity: number;
+  previousStock: number | null;
+  newStock: number | null;
+  referenceType: 'manual' | 'work_order' | null;
+  referenceId: number | null;
+  notes: string | null;
+  userId: number | null;
+  userEmail: string | null;
+  createdAt: string;
+}
+
+export interface BomLine {
+  id: number;
+  itemId: ItemId;
+  /** Design the line is for; null applies to every design of the item */
+  designId: number | null;
+  materialId: number;
+  materialName: string;
+  unit: string;
+  /** Material used per unit of the item */
+  quantity: number;
+  notes: string | null;
+}
+
+export type WorkOrderStatus = 'planned' | 'in_progress' | 'completed' | 'cancelled';
+
+/** A material a work order needs, for its whole quantity */
+export interface WorkOrderMaterial {
+  materialId: number;
+  name: string;
+  unit: string;
+  required: number;
+  available: number;
+}
+
+export interface WorkOrder {
+  id: number;
+  order: {
+    id: OrderId;
+    orderId: string;
+    customerName: string;
+    expectedDeliveryDate: string | null;
+  };
+  itemId: ItemId;
+  itemName: string;
+  designId: number | null;
+  designName: string | null;
+  quantity: number;
+  customizationRequest: string | null;
+  status: WorkOrderStatus;
+  notes: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  materials: WorkOrderMaterial[];
+}
+
+export interface MaterialShortage {
+  materialId: number;
+  name: string;
+  unit: string;
+  stockQuantity: number;
+  /** Needed by planned and in-progress work orders */
+  requiredForWorkOrders: number;
+  /** Needed by open orders that are not confirmed yet */
+  requiredForUnconfirmed: number;
+  /** Required in total beyond what is in stock; 0 when covered */
+  shortage: number;
+  /** Order IDs (e.g. ORD-1234) that need the material */
+  orders: string[];
+}
+
+export interface MaterialShortageReport {
+  generatedAt: string;
+  materials: MaterialShortage[];
+  /** Items being made that have no bill of materials, so their needs are unknown */
+  itemsWithoutBom: Array<{ itemId: ItemId; name: string }>;
+}
+
+// ============================================
+// Purchasing Types
+// ============================================
+
+export interface Supplier {
+  id: number;
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  leadTimeDays: number | null;
+  paymentTerms: string | null;
+  notes: string | null;
+  /** Purchase orders that are ordered or partially received */
+  openPurchaseOrders: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: number;
+  itemId: ItemId;
+  itemName: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  id: number;
+  /** Display number, e.g. PO-00042 */
+  poNumber: string;
+  supplier: { id: number; name: string };
+  status: PurchaseOrderStatus;
+  expectedDate: string | null;
+  notes: string | null;
+  orderedAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  lines: PurchaseOrderLine[];
+  totalCost: number;
+}
+
+// ============================================
+// Stock Take Types
+// ============================================
+
+export type StockTakeStatus = 'counting' | 'approved' | 'cancelled';
+
+export interface StockTakeLine {
+  id: number;
+  itemId: ItemId;
+  itemName: string;
+  /** Set for designs with their own stock; the item's line counts every design */
+  designId: number | null;
+  designName: string | null;
+  supplierSku: string | null;
+  /** Stock on hand when the stock take started */
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  /** Counted less expected; null until counted */
+  variance: number | null;
+  /** costPrice when the stock take started */
+  unitCost: number | null;
+  varianceValue: number | null;
+  countedByEmail: string | null;
+  countedAt: string | null;
+}
+
+export interface StockTakeSummary {
+  lineCount: number;
+  countedLines: number;
+  /** Items whose count differs from the expected quantity */
+  itemsWithVariance: number;
+  unitsOver: number;
+  unitsShort: number;
+  /** Net variance at cost; items without a costPrice are left out */
+  netVarianceValue: number;
+}
+
+export interface StockTake {
+  id: number;
+  /** Display number, e.g. ST-00007 */
+  stockTakeNumber: string;
+  name: string;
+  status: StockTakeStatus;
+  notes: string | null;
+  reason: string | null;
+  approvedAt: string | null;
+  createdAt: string;
+  summary: StockTakeSummary;
+  /** Only returned for a single stock take */
+  lines?: StockTakeLine[];
+}
+
+// ============================================
+// Replenishment Types
+// ============================================
+
+export interface ReplenishmentSettings {
+  /** Recent window for sales velocity, in days */
+  shortWindowDays: number;
+  /** Longer window that steadies the recent rate, in days */
+  longWindowDays: number;
+  /** Days of sales kept in hand on top of the lead time */
+  safetyStockDays: number;
+  /** Days of sales a reorder should cover once it arrives */
+  targetCoverDays: number;
+  /** Lead time for items without a supplier that has one */
+  defaultLeadTimeDays: number;
+  /** Set each item's lowStockThreshold to its reorder point when the daily digest runs */
+  autoUpdateThresholds: boolean;
+  /** Add items due for reorder to the daily digest email */
+  includeInDigest: boolean;
+  /** No settings have been saved yet and the defaults apply */
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+/**
+ * - reorder_now: stock plus units on order is at or below the reorder point
+ * - reorder_soon: the reorder point will be reached within a week
+ * - ok: enough stock for now
+ * - no_demand: no net sales in either window
+ */
+export type ReplenishmentStatus = 'reorder_now' | 'reorder_soon' | 'ok' | 'no_demand';
+
+export interface StockRecommendation {
+  itemId: ItemId;
+  itemName: string;
+  stockQuantity: number;
+  onOrderQuantity: number;
+  lowStockThreshold: number;
+  /** Net units sold (ordered less returned) in each window */
+  shortWindowUnits: number;
+  longWindowUnits: number;
+  /** Units per day, averaged over both windows */
+  dailyVelocity: number;
+  /** Days until stock on hand runs out at the current velocity; null without demand */
+  daysOfCover: number | null;
+  stockoutDate: string | null;
+  leadTimeDays: number;
+  /** Where the lead time came from */
+  leadTimeSource: 'supplier' | 'default';
+  supplierName: string | null;
+  safetyStock: number;
+  /** Stock level at which to reorder: sales over the lead time plus safety stock */
+  reorderPoint: number;
+  reorderQuantity: number;
+  /** YYYY-MM-DD; today or earlier when a reorder is already due */
+  reorderDate: string | null;
+  status: ReplenishmentStatus;
+}
+
+export interface StockRecommendationsData {
+  settings: ReplenishmentSettings;
+  generatedAt: string;
+  recommendations: StockRecommendation[];
+}
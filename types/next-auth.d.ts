@@ -7,6 +7,9 @@ declare module "next-auth" {
       provider?: string;
       dbUserId?: number;
       role?: 'admin' | 'user';
+      /** Set when the request was authenticated with a personal API key */
+      apiKeyId?: number;
+      apiKeyScopes?: string[];
     } & DefaultSession["user"];
   }
 